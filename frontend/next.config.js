@@ -2,6 +2,8 @@
 const nextConfig = {
   experimental: {
     appDir: true,
+    // The filter engine and field catalogue are shared with the API in ../src
+    externalDir: true,
   },
   images: {
     domains: ['localhost'],
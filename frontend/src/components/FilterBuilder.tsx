@@ -1,77 +1,338 @@
 'use client'
 
-import { useState } from 'react'
+import { useMemo, useState } from 'react'
 import { useTokenStore } from '@/stores/useTokenStore'
-import { FilterCondition, FilterPreset } from '@/types/filters'
-import { Token } from '@/types'
+import { FilterGroup, FilterPreset } from '@/types/filters'
+import type { FilterCondition, FilterField } from '@shared/types/filter'
+import {
+  FILTER_FIELDS,
+  OPERATORS,
+  buildFilterPreview,
+  describeFilterGroup,
+  evaluateFilterGroup,
+  getFilterField,
+  getOperatorsForField,
+  presetToFilterGroup,
+  tokenToFilterRecord,
+} from '@/lib/filter-engine'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
-import { Separator } from '@/components/ui/separator'
-import { Plus, X, Save, Trash2 } from 'lucide-react'
-
-const FIELD_OPTIONS: { value: keyof Token; label: string }[] = [
-  { value: 'price', label: 'Price' },
-  { value: 'marketCap', label: 'Market Cap' },
-  { value: 'volume24h', label: 'Volume 24h' },
-  { value: 'liquidity', label: 'Liquidity' },
-  { value: 'safetyScore', label: 'Safety Score' },
-  { value: 'age', label: 'Age (hours)' },
-  { value: 'slippagePercent', label: 'Slippage %' },
-  { value: 'creatorRugCount', label: 'Creator Rug Count' },
-  { value: 'topHoldersPercent', label: 'Top Holders %' },
-  { value: 'priceChangePercentage24h', label: 'Price Change %' },
-  { value: 'holders', label: 'Holders' },
-]
-
-const OPERATOR_OPTIONS = [
-  { value: 'gt', label: 'Greater than' },
-  { value: 'gte', label: 'Greater than or equal' },
-  { value: 'lt', label: 'Less than' },
-  { value: 'lte', label: 'Less than or equal' },
-  { value: 'eq', label: 'Equal to' },
-  { value: 'not_eq', label: 'Not equal to' },
-]
-
-const BOOLEAN_FIELDS: Array<keyof Token> = ['isHoneypot', 'hasRouting', 'verified', 'liquidityLocked']
+import { Plus, X, Save, Trash2, FolderPlus } from 'lucide-react'
 
-export function FilterBuilder() {
-  const { addFilter, removeFilter, customFilters } = useTokenStore()
+const MAX_DEPTH = 5
 
-  const [filterName, setFilterName] = useState('')
-  const [filterDescription, setFilterDescription] = useState('')
-  const [conditions, setConditions] = useState<FilterCondition[]>([
-    { field: 'safetyScore', operator: 'gte', value: 6 }
-  ])
-
-  const addCondition = () => {
-    setConditions([
-      ...conditions,
-      { field: 'volume24h', operator: 'gt', value: 1000 }
-    ])
+const OPERATOR_LABELS: Record<string, string> = Object.fromEntries(
+  Object.values(OPERATORS).flat().map(operator => [operator.value, operator.label])
+)
+
+const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+
+const defaultValue = (field: FilterField, operator: FilterCondition['operator']): FilterCondition['value'] => {
+  if (operator === 'between') return [field.min ?? 0, field.max ?? field.min ?? 0]
+  if (operator === 'in' || operator === 'not_in') return field.options ? [field.options[0].value] : []
+  if (field.type === 'boolean') return true
+  if (field.type === 'select') return field.options?.[0].value ?? ''
+  if (field.type === 'string') return ''
+  return field.min ?? 0
+}
+
+const createCondition = (fieldId = 'volume_24h'): FilterCondition => {
+  const field = getFilterField(fieldId)!
+  const operator = getOperatorsForField(field)[0]
+  return { id: createId(), field: field.id, operator, value: defaultValue(field, operator), label: '' }
+}
+
+const createGroup = (operator: FilterGroup['operator'] = 'AND'): FilterGroup => ({
+  id: createId(),
+  operator,
+  conditions: [createCondition()],
+  groups: [],
+})
+
+const createRootGroup = (): FilterGroup => ({
+  id: createId(),
+  operator: 'AND',
+  conditions: [{ ...createCondition('safety_score'), operator: 'gte', value: 6 }],
+  groups: [],
+})
+
+function ConditionValueInput({
+  field,
+  condition,
+  onChange,
+}: {
+  field: FilterField
+  condition: FilterCondition
+  onChange: (value: FilterCondition['value']) => void
+}) {
+  if (condition.operator === 'between') {
+    const [min, max] = Array.isArray(condition.value) ? condition.value : [0, 0]
+    return (
+      <div className="flex items-center space-x-2">
+        <Input type="number" value={min} onChange={(e) => onChange([Number(e.target.value), max])} />
+        <span className="text-sm text-muted-foreground">and</span>
+        <Input type="number" value={max} onChange={(e) => onChange([min, Number(e.target.value)])} />
+      </div>
+    )
+  }
+
+  if (condition.operator === 'in' || condition.operator === 'not_in') {
+    const selected: string[] = Array.isArray(condition.value) ? condition.value : []
+    const toggle = (value: string) =>
+      onChange(selected.includes(value) ? selected.filter(v => v !== value) : [...selected, value])
+
+    return (
+      <div className="flex flex-wrap gap-1">
+        {field.options?.map(option => (
+          <Badge
+            key={option.value}
+            variant={selected.includes(option.value) ? 'default' : 'outline'}
+            className="cursor-pointer"
+            onClick={() => toggle(option.value)}
+          >
+            {option.label}
+          </Badge>
+        ))}
+      </div>
+    )
+  }
+
+  if (field.type === 'boolean') {
+    return (
+      <Select value={String(condition.value)} onValueChange={(value) => onChange(value === 'true')}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="true">True</SelectItem>
+          <SelectItem value="false">False</SelectItem>
+        </SelectContent>
+      </Select>
+    )
+  }
+
+  if (field.type === 'select') {
+    return (
+      <Select value={String(condition.value)} onValueChange={onChange}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {field.options?.map(option => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    )
+  }
+
+  if (field.type === 'string') {
+    return <Input placeholder="Value" value={condition.value} onChange={(e) => onChange(e.target.value)} />
   }
 
-  const removeCondition = (index: number) => {
-    setConditions(conditions.filter((_, i) => i !== index))
+  return (
+    <Input
+      type="number"
+      placeholder={field.unit ? `Value (${field.unit})` : 'Value'}
+      value={condition.value}
+      onChange={(e) => onChange(Number(e.target.value))}
+    />
+  )
+}
+
+function FilterConditionRow({
+  condition,
+  onChange,
+  onRemove,
+}: {
+  condition: FilterCondition
+  onChange: (condition: FilterCondition) => void
+  onRemove: () => void
+}) {
+  const field = getFilterField(condition.field) ?? FILTER_FIELDS[0]
+  const operators = getOperatorsForField(field)
+
+  const changeField = (fieldId: string) => {
+    const next = getFilterField(fieldId)!
+    const nextOperators = getOperatorsForField(next)
+    const operator = nextOperators.includes(condition.operator) ? condition.operator : nextOperators[0]
+    onChange({ ...condition, field: next.id, operator, value: defaultValue(next, operator) })
   }
 
-  const updateCondition = (index: number, updates: Partial<FilterCondition>) => {
-    setConditions(conditions.map((condition, i) =>
-      i === index ? { ...condition, ...updates } : condition
-    ))
+  const changeOperator = (operator: FilterCondition['operator']) => {
+    const shapeChanged = ['between', 'in', 'not_in'].some(op => (op === operator) !== (op === condition.operator))
+    onChange({ ...condition, operator, value: shapeChanged ? defaultValue(field, operator) : condition.value })
   }
 
+  return (
+    <div className="flex items-center space-x-2 p-3 border rounded-lg">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-2 flex-1">
+        {/* Field */}
+        <Select value={condition.field} onValueChange={changeField}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {FILTER_FIELDS.map(option => (
+              <SelectItem key={option.id} value={option.id}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {/* Operator */}
+        <Select
+          value={condition.operator}
+          onValueChange={(value) => changeOperator(value as FilterCondition['operator'])}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {operators.map(operator => (
+              <SelectItem key={operator} value={operator}>
+                {OPERATOR_LABELS[operator] ?? operator}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {/* Value */}
+        <div className="md:col-span-2">
+          <ConditionValueInput
+            field={field}
+            condition={condition}
+            onChange={(value) => onChange({ ...condition, value })}
+          />
+        </div>
+      </div>
+
+      <Button variant="ghost" size="sm" onClick={onRemove}>
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  )
+}
+
+function FilterGroupEditor({
+  group,
+  depth,
+  onChange,
+  onRemove,
+}: {
+  group: FilterGroup
+  depth: number
+  onChange: (group: FilterGroup) => void
+  onRemove?: () => void
+}) {
+  const updateCondition = (index: number, condition: FilterCondition) =>
+    onChange({ ...group, conditions: group.conditions.map((c, i) => (i === index ? condition : c)) })
+
+  const updateGroup = (index: number, child: FilterGroup) =>
+    onChange({ ...group, groups: group.groups.map((g, i) => (i === index ? child : g)) })
+
+  return (
+    <div className={depth > 1 ? 'space-y-3 p-3 border border-dashed rounded-lg' : 'space-y-3'}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <span className="text-sm text-muted-foreground">Match</span>
+          <Select
+            value={group.operator}
+            onValueChange={(value) => onChange({ ...group, operator: value as FilterGroup['operator'] })}
+          >
+            <SelectTrigger className="w-24">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="AND">All</SelectItem>
+              <SelectItem value="OR">Any</SelectItem>
+            </SelectContent>
+          </Select>
+          <span className="text-sm text-muted-foreground">of the following</span>
+        </div>
+        <div className="flex items-center space-x-1">
+          <Button
+            onClick={() => onChange({ ...group, conditions: [...group.conditions, createCondition()] })}
+            size="sm"
+            variant="outline"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Condition
+          </Button>
+          <Button
+            onClick={() => onChange({
+              ...group,
+              groups: [...group.groups, createGroup(group.operator === 'AND' ? 'OR' : 'AND')],
+            })}
+            size="sm"
+            variant="outline"
+            disabled={depth >= MAX_DEPTH}
+          >
+            <FolderPlus className="h-4 w-4 mr-1" />
+            Group
+          </Button>
+          {onRemove && (
+            <Button variant="ghost" size="sm" onClick={onRemove}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {group.conditions.map((condition, index) => (
+        <FilterConditionRow
+          key={condition.id}
+          condition={condition}
+          onChange={(next) => updateCondition(index, next)}
+          onRemove={() => onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) })}
+        />
+      ))}
+
+      {group.groups.map((child, index) => (
+        <FilterGroupEditor
+          key={child.id}
+          group={child}
+          depth={depth + 1}
+          onChange={(next) => updateGroup(index, next)}
+          onRemove={() => onChange({ ...group, groups: group.groups.filter((_, i) => i !== index) })}
+        />
+      ))}
+    </div>
+  )
+}
+
+export function FilterBuilder() {
+  const { addFilter, removeFilter, customFilters, tokens } = useTokenStore()
+
+  const [filterName, setFilterName] = useState('')
+  const [filterDescription, setFilterDescription] = useState('')
+  const [group, setGroup] = useState<FilterGroup>(createRootGroup)
+
+  // Preview against the tokens already loaded in the dashboard
+  const preview = useMemo(() => {
+    const estimatedMatches = tokens.filter(token => evaluateFilterGroup(group, tokenToFilterRecord(token))).length
+    return buildFilterPreview(group, { estimatedMatches, scannedRecords: tokens.length })
+  }, [group, tokens])
+
+  const hasConditions = group.conditions.length > 0 || group.groups.length > 0
+  const canSave = filterName.trim().length > 0 && hasConditions && preview.isValid
+
   const saveFilter = () => {
-    if (!filterName.trim() || conditions.length === 0) return
+    if (!canSave) return
 
     const filter: FilterPreset = {
       id: `custom-${Date.now()}`,
       name: filterName.trim(),
-      description: filterDescription.trim() || 'Custom filter',
-      conditions,
+      description: filterDescription.trim() || describeFilterGroup(group),
+      conditions: [],
+      group,
     }
 
     addFilter(filter)
@@ -79,11 +340,9 @@ export function FilterBuilder() {
     // Reset form
     setFilterName('')
     setFilterDescription('')
-    setConditions([{ field: 'safetyScore', operator: 'gte', value: 6 }])
+    setGroup(createRootGroup())
   }
 
-  const isBooleanField = (field: keyof Token) => BOOLEAN_FIELDS.includes(field)
-
   return (
     <div className="space-y-6">
       {/* Create New Filter */}
@@ -91,7 +350,7 @@ export function FilterBuilder() {
         <CardHeader>
           <CardTitle>Create Custom Filter</CardTitle>
           <CardDescription>
-            Build a custom filter by adding conditions that tokens must meet
+            Combine conditions and nested groups that tokens must meet
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -118,110 +377,35 @@ export function FilterBuilder() {
           </div>
 
           {/* Conditions */}
-          <div className="space-y-4">
-            <div className="flex items-center justify-between">
-              <Label>Conditions</Label>
-              <Button onClick={addCondition} size="sm" variant="outline">
-                <Plus className="h-4 w-4 mr-1" />
-                Add Condition
-              </Button>
-            </div>
-
-            <div className="space-y-3">
-              {conditions.map((condition, index) => (
-                <div key={index} className="flex items-center space-x-2 p-3 border rounded-lg">
-                  <div className="grid grid-cols-1 md:grid-cols-4 gap-2 flex-1">
-                    {/* Field */}
-                    <Select
-                      value={condition.field}
-                      onValueChange={(value) => updateCondition(index, { field: value as keyof Token })}
-                    >
-                      <SelectTrigger>
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {FIELD_OPTIONS.map(option => (
-                          <SelectItem key={option.value} value={option.value}>
-                            {option.label}
-                          </SelectItem>
-                        ))}
-                        <Separator />
-                        <SelectItem value="isHoneypot">Is Honeypot</SelectItem>
-                        <SelectItem value="hasRouting">Has Routing</SelectItem>
-                        <SelectItem value="verified">Verified</SelectItem>
-                        <SelectItem value="liquidityLocked">Liquidity Locked</SelectItem>
-                      </SelectContent>
-                    </Select>
-
-                    {/* Operator */}
-                    <Select
-                      value={condition.operator}
-                      onValueChange={(value) => updateCondition(index, { operator: value as FilterCondition['operator'] })}
-                    >
-                      <SelectTrigger>
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {isBooleanField(condition.field) ? (
-                          <>
-                            <SelectItem value="eq">Is</SelectItem>
-                            <SelectItem value="not_eq">Is Not</SelectItem>
-                          </>
-                        ) : (
-                          OPERATOR_OPTIONS.map(option => (
-                            <SelectItem key={option.value} value={option.value}>
-                              {option.label}
-                            </SelectItem>
-                          ))
-                        )}
-                      </SelectContent>
-                    </Select>
-
-                    {/* Value */}
-                    <div className="md:col-span-2">
-                      {isBooleanField(condition.field) ? (
-                        <Select
-                          value={String(condition.value)}
-                          onValueChange={(value) => updateCondition(index, { value: value === 'true' })}
-                        >
-                          <SelectTrigger>
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="true">True</SelectItem>
-                            <SelectItem value="false">False</SelectItem>
-                          </SelectContent>
-                        </Select>
-                      ) : (
-                        <Input
-                          type="number"
-                          placeholder="Value"
-                          value={condition.value}
-                          onChange={(e) => updateCondition(index, { value: Number(e.target.value) })}
-                        />
-                      )}
-                    </div>
-                  </div>
+          <div className="space-y-2">
+            <Label>Conditions</Label>
+            <FilterGroupEditor group={group} depth={1} onChange={setGroup} />
+          </div>
 
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => removeCondition(index)}
-                    disabled={conditions.length === 1}
-                  >
-                    <X className="h-4 w-4" />
-                  </Button>
-                </div>
-              ))}
+          {/* Preview */}
+          <div className="p-3 border rounded-lg space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-sm">
+                Matches <span className="font-medium">{preview.estimatedMatches}</span> of {tokens.length} loaded tokens
+              </span>
+              <Badge
+                variant={
+                  preview.performance.complexity === 'high'
+                    ? 'warning'
+                    : preview.performance.complexity === 'medium' ? 'secondary' : 'outline'
+                }
+              >
+                {preview.performance.complexity} complexity
+              </Badge>
             </div>
+            {preview.errors.map(error => (
+              <p key={error} className="text-sm text-destructive">{error}</p>
+            ))}
           </div>
 
           {/* Actions */}
           <div className="flex justify-end">
-            <Button
-              onClick={saveFilter}
-              disabled={!filterName.trim() || conditions.length === 0}
-            >
+            <Button onClick={saveFilter} disabled={!canSave}>
               <Save className="h-4 w-4 mr-1" />
               Save Filter
             </Button>
@@ -245,13 +429,9 @@ export function FilterBuilder() {
                   <div className="flex-1">
                     <div className="font-medium">{filter.name}</div>
                     <div className="text-sm text-muted-foreground">{filter.description}</div>
-                    <div className="flex flex-wrap gap-1 mt-2">
-                      {filter.conditions.map((condition, i) => (
-                        <Badge key={i} variant="outline" className="text-xs">
-                          {FIELD_OPTIONS.find(f => f.value === condition.field)?.label || condition.field} {condition.operator} {String(condition.value)}
-                        </Badge>
-                      ))}
-                    </div>
+                    <Badge variant="outline" className="text-xs mt-2 font-normal">
+                      {describeFilterGroup(presetToFilterGroup(filter))}
+                    </Badge>
                   </div>
                   <Button
                     variant="ghost"
@@ -268,4 +448,4 @@ export function FilterBuilder() {
       )}
     </div>
   )
-}
\ No newline at end of file
+}
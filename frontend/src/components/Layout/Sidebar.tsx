@@ -3,6 +3,7 @@
 import { useState } from 'react'
 import { useTokenStore } from '@/stores/useTokenStore'
 import { DEFAULT_FILTER_PRESETS } from '@/types/filters'
+import { countFilterConditions, presetToFilterGroup } from '@/lib/filter-engine'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
@@ -94,7 +95,7 @@ export function Sidebar() {
                       <div>
                         <div className="text-sm font-medium">{filter.name}</div>
                         <div className="text-xs text-muted-foreground">
-                          {filter.conditions.length} conditions
+                          {countFilterConditions(presetToFilterGroup(filter))} conditions
                         </div>
                       </div>
                     </div>
@@ -0,0 +1,58 @@
+import { Token } from '@/types'
+import { FilterPreset } from '@/types/filters'
+import type { FilterGroup } from '@shared/types/filter'
+import type { FilterRecord } from '@shared/lib/filters/filter-engine'
+
+export {
+  analyzeFilterGroup,
+  buildFilterPreview,
+  describeFilterGroup,
+  evaluateFilterGroup,
+  getFilterField,
+  getOperatorsForField,
+  validateFilterGroup,
+} from '@shared/lib/filters/filter-engine'
+export { FILTER_FIELDS, OPERATORS } from '@shared/lib/constants/filter-fields'
+
+// Map a dashboard token onto the shared field catalogue. The token's own keys
+// are kept so presets written against them keep working.
+export function tokenToFilterRecord(token: Token): FilterRecord {
+  return {
+    ...token,
+    age_hours: token.age,
+    market_cap: token.marketCap,
+    liquidity_usd: token.liquidity,
+    volume_24h: token.volume24h,
+    price_change_24h: token.priceChangePercentage24h,
+    safety_score: token.safetyScore,
+    rug_risk: token.risk,
+    honeypot_detected: token.isHoneypot,
+    holder_concentration: token.topHoldersPercent,
+    contract_verified: token.verified,
+    liquidity_locked: token.liquidityLocked,
+    holders_count: token.holders,
+    chain: token.chain,
+  }
+}
+
+// Flat presets become a single AND group
+export function presetToFilterGroup(preset: FilterPreset): FilterGroup {
+  if (preset.group) return preset.group
+
+  return {
+    id: preset.id,
+    operator: 'AND',
+    conditions: preset.conditions.map((condition, index) => ({
+      id: `${preset.id}-${index}`,
+      field: condition.field,
+      operator: condition.operator === 'not_eq' ? 'ne' : condition.operator,
+      value: condition.value,
+      label: condition.label ?? '',
+    })),
+    groups: [],
+  }
+}
+
+export function countFilterConditions(group: FilterGroup): number {
+  return group.conditions.length + group.groups.reduce((total, child) => total + countFilterConditions(child), 0)
+}
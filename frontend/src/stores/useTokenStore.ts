@@ -4,6 +4,7 @@ import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
 import { Token, Alert } from '@/types'
 import { FilterPreset, DEFAULT_FILTER_PRESETS } from '@/types/filters'
+import { evaluateFilterGroup, presetToFilterGroup, tokenToFilterRecord } from '@/lib/filter-engine'
 
 interface TokenStore {
   // Data state
@@ -177,31 +178,8 @@ export const useTokenStore = create<TokenStore>()(
 
         // Apply active filters
         activeFilters.forEach(filter => {
-          filter.conditions.forEach(condition => {
-            filtered = filtered.filter(token => {
-              const value = token[condition.field]
-              const conditionValue = condition.value
-
-              switch (condition.operator) {
-                case 'gt':
-                  return Number(value) > Number(conditionValue)
-                case 'gte':
-                  return Number(value) >= Number(conditionValue)
-                case 'lt':
-                  return Number(value) < Number(conditionValue)
-                case 'lte':
-                  return Number(value) <= Number(conditionValue)
-                case 'eq':
-                  return value === conditionValue
-                case 'not_eq':
-                  return value !== conditionValue
-                case 'contains':
-                  return String(value).toLowerCase().includes(String(conditionValue).toLowerCase())
-                default:
-                  return true
-              }
-            })
-          })
+          const group = presetToFilterGroup(filter)
+          filtered = filtered.filter(token => evaluateFilterGroup(group, tokenToFilterRecord(token)))
         })
 
         // Apply sorting
@@ -1,10 +1,15 @@
 import { Token } from './index'
+import type { FilterGroup } from '@shared/types/filter'
+
+export type { FilterGroup }
 
 export interface FilterPreset {
   id: string
   name: string
   description: string
   conditions: FilterCondition[]
+  // Nested filter over the shared field catalogue; takes precedence over `conditions`
+  group?: FilterGroup
   isDefault?: boolean
 }
 
@@ -5,7 +5,6 @@ import { WebSocketServer, WebSocket } from 'ws';
 import { IncomingMessage } from 'http';
 import cors from 'cors';
 import helmet from 'helmet';
-import rateLimit from 'express-rate-limit';
 import { PrismaClient } from '@prisma/client';
 import { Logger } from '../utils/logger';
 import { DatabaseManager } from '../config/database.config';
@@ -18,9 +17,37 @@ import { TokensController } from './controllers/tokens.controller';
 import { FiltersController } from './controllers/filters.controller';
 import { AlertsController } from './controllers/alerts.controller';
 import { AnalyticsController } from './controllers/analytics.controller';
+import { WebhooksController } from './controllers/webhooks.controller';
+import { SubscriptionsController } from './controllers/subscriptions.controller';
+import { BacktestController } from './controllers/backtest.controller';
+import { PaperTradingController } from './controllers/paper-trading.controller';
+import { CreatorsController } from './controllers/creators.controller';
+import { ScoringController } from './controllers/scoring.controller';
+import { NotificationsController } from './controllers/notifications.controller';
+import { ApiKeysController } from './controllers/api-keys.controller';
+import { PipelineController } from './controllers/pipeline.controller';
+
+// Import services
+import { WebhookService } from '../services/webhook.service';
+import { ExportService } from '../services/export.service';
+import { PaperTradingService, PaperPosition, PaperTradingCycle } from '../services/paper-trading.service';
+import { WatchlistMonitorService, TokenDegradation } from '../services/watchlist-monitor.service';
+import { TokenMarketService, TokenPoolChanges } from '../services/token-market.service';
+import { DexScreenerService } from '../services/dexscreener.service';
+import { JupiterService } from '../services/jupiter.service';
+import { RugCheckService } from '../services/rugcheck.service';
+import { createOnChainProvider } from '../services/onchain';
+import { AlertEngineService, AlertSubscriptionService } from '../services/alerts';
+import { NotificationService, createNotificationAdapters } from '../services/notifications';
+import { ApiKeyService } from '../services/api-key.service';
+import { RateLimitService, createRateLimitStore } from '../services/rate-limit';
+import { PipelineJobService } from '../services/pipeline-job.service';
+import { PipelineRunService } from '../services/pipeline-run.service';
+import { Alert } from './types/api.types';
 
 // Import middleware
-import { authMiddleware } from './middleware/auth.middleware';
+import { createAuthMiddleware } from './middleware/auth.middleware';
+import { createRateLimitMiddleware } from './middleware/rate-limit.middleware';
 import { validate, validatePagination, sanitizeInput } from './middleware/validation.middleware';
 import { errorHandler } from './middleware/error.middleware';
 import { requestLogger } from './middleware/request-logger.middleware';
@@ -31,6 +58,13 @@ import { createFilterRoutes } from './routes/filters.routes';
 import { createAlertRoutes } from './routes/alerts.routes';
 import { createAnalyticsRoutes } from './routes/analytics.routes';
 import { createExportRoutes } from './routes/export.routes';
+import { createBacktestRoutes } from './routes/backtest.routes';
+import { createPaperTradingRoutes } from './routes/paper-trading.routes';
+import { createCreatorRoutes } from './routes/creators.routes';
+import { createScoringRoutes } from './routes/scoring.routes';
+import { createNotificationRoutes } from './routes/notifications.routes';
+import { createApiKeyRoutes } from './routes/api-keys.routes';
+import { createPipelineRoutes } from './routes/pipeline.routes';
 
 // Import WebSocket handlers
 import { WebSocketManager } from './websocket/websocket-manager';
@@ -41,12 +75,31 @@ export class ApiServer {
   private wss: WebSocketServer;
   private prisma: PrismaClient;
   private wsManager: WebSocketManager;
+  private webhookService: WebhookService;
+  private exportService: ExportService;
+  private paperTradingService: PaperTradingService;
+  private watchlistMonitor: WatchlistMonitorService;
+  private alertEngine: AlertEngineService;
+  private subscriptionService: AlertSubscriptionService;
+  private notificationService: NotificationService;
+  private apiKeyService: ApiKeyService;
+  private rateLimitService: RateLimitService;
+  private pipelineJobs: PipelineJobService;
 
   // Controllers
   private tokensController: TokensController;
   private filtersController: FiltersController;
   private alertsController: AlertsController;
   private analyticsController: AnalyticsController;
+  private webhooksController: WebhooksController;
+  private subscriptionsController: SubscriptionsController;
+  private backtestController: BacktestController;
+  private paperTradingController: PaperTradingController;
+  private creatorsController: CreatorsController;
+  private scoringController: ScoringController;
+  private notificationsController: NotificationsController;
+  private apiKeysController: ApiKeysController;
+  private pipelineController: PipelineController;
 
   constructor() {
     this.app = express();
@@ -60,12 +113,40 @@ export class ApiServer {
     });
 
     this.wsManager = new WebSocketManager(this.wss, this.prisma);
+    this.webhookService = new WebhookService(this.prisma);
+    this.apiKeyService = new ApiKeyService(this.prisma);
+    this.rateLimitService = new RateLimitService(createRateLimitStore());
+    const tokenMarketService = new TokenMarketService(this.prisma);
+    // Only enqueues here; the aggregator process runs the jobs
+    this.pipelineJobs = new PipelineJobService(this.prisma);
 
     // Initialize controllers
-    this.tokensController = new TokensController(this.prisma, this.wsManager);
+    this.tokensController = new TokensController(this.prisma, this.wsManager, tokenMarketService, this.pipelineJobs);
     this.filtersController = new FiltersController(this.prisma, this.wsManager);
-    this.alertsController = new AlertsController(this.prisma, this.wsManager);
+    this.alertEngine = new AlertEngineService(this.prisma);
+    this.alertsController = new AlertsController(this.alertEngine, this.webhookService);
     this.analyticsController = new AnalyticsController(this.prisma);
+    this.webhooksController = new WebhooksController(this.webhookService);
+    this.subscriptionService = new AlertSubscriptionService(this.prisma, this.alertEngine);
+    this.subscriptionsController = new SubscriptionsController(this.subscriptionService);
+    this.backtestController = new BacktestController(this.prisma);
+    this.creatorsController = new CreatorsController(this.prisma);
+    this.scoringController = new ScoringController(this.prisma);
+    this.notificationService = new NotificationService(this.prisma, createNotificationAdapters());
+    this.notificationsController = new NotificationsController(this.notificationService);
+    this.apiKeysController = new ApiKeysController(this.apiKeyService);
+    this.pipelineController = new PipelineController(this.pipelineJobs, new PipelineRunService(this.prisma));
+
+    this.exportService = new ExportService(this.prisma, this.alertEngine);
+    this.paperTradingService = new PaperTradingService(this.prisma);
+    this.paperTradingController = new PaperTradingController(this.paperTradingService);
+    this.watchlistMonitor = new WatchlistMonitorService(
+      this.prisma,
+      new DexScreenerService(),
+      new RugCheckService(createOnChainProvider(), new JupiterService()),
+      undefined,
+      tokenMarketService
+    );
 
     this.initializeMiddleware();
     this.initializeRoutes();
@@ -106,40 +187,12 @@ export class ApiServer {
     // Request logging
     this.app.use(requestLogger);
 
-    // Rate limiting
-    const rateLimiter = rateLimit({
-      windowMs: 15 * 60 * 1000, // 15 minutes
-      max: process.env.NODE_ENV === 'production' ? 1000 : 10000, // Limit each IP
-      message: {
-        error: 'Too many requests',
-        message: 'Rate limit exceeded. Please try again later.',
-        retryAfter: '15 minutes'
-      },
-      standardHeaders: true,
-      legacyHeaders: false,
-      keyGenerator: (req) => {
-        return req.ip || req.connection.remoteAddress || 'unknown';
-      },
-      skip: (req) => {
-        // Skip rate limiting for health checks
-        return req.path === '/health' || req.path === '/api/v1/health';
-      }
-    });
-
-    this.app.use('/api/v1/', rateLimiter);
-
-    // API-specific rate limiting for expensive operations
-    const strictRateLimiter = rateLimit({
-      windowMs: 5 * 60 * 1000, // 5 minutes
-      max: 100, // Much lower limit for exports and heavy queries
-      message: {
-        error: 'Rate limit exceeded for this operation',
-        message: 'This operation has a stricter rate limit. Please try again later.',
-      }
-    });
+    // Resolve API keys to their owner, tier and scopes, and meter each key's requests.
+    // Rejected keys are charged to the client IP, which is cut off after too many.
+    this.app.use(createAuthMiddleware(this.apiKeyService, this.rateLimitService));
 
-    this.app.use('/api/v1/export', strictRateLimiter);
-    this.app.use('/api/v1/analytics', strictRateLimiter);
+    // Tier-aware rate limiting per API key (IP for anonymous callers) and route group
+    this.app.use(createRateLimitMiddleware(this.rateLimitService));
   }
 
   private initializeRoutes(): void {
@@ -155,6 +208,13 @@ export class ApiServer {
           alerts: '/api/v1/alerts',
           analytics: '/api/v1/analytics',
           export: '/api/v1/export',
+          backtests: '/api/v1/backtests',
+          paperTrading: '/api/v1/paper-trading',
+          creators: '/api/v1/creators',
+          scoring: '/api/v1/scoring',
+          notifications: '/api/v1/notifications',
+          apiKeys: '/api/v1/admin/api-keys',
+          pipeline: '/api/v1/pipeline',
           websocket: '/api/v1/ws'
         },
         documentation: '/api/v1/docs',
@@ -201,9 +261,16 @@ export class ApiServer {
     // Mount API routes
     this.app.use('/api/v1/tokens', createTokenRoutes(this.tokensController));
     this.app.use('/api/v1/filters', createFilterRoutes(this.filtersController));
-    this.app.use('/api/v1/alerts', createAlertRoutes(this.alertsController));
+    this.app.use('/api/v1/alerts', createAlertRoutes(this.alertsController, this.webhooksController, this.subscriptionsController));
     this.app.use('/api/v1/analytics', createAnalyticsRoutes(this.analyticsController));
-    this.app.use('/api/v1/export', createExportRoutes(this.tokensController));
+    this.app.use('/api/v1/export', createExportRoutes(this.exportService));
+    this.app.use('/api/v1/backtests', createBacktestRoutes(this.backtestController));
+    this.app.use('/api/v1/paper-trading', createPaperTradingRoutes(this.paperTradingController));
+    this.app.use('/api/v1/creators', createCreatorRoutes(this.creatorsController));
+    this.app.use('/api/v1/scoring', createScoringRoutes(this.scoringController));
+    this.app.use('/api/v1/notifications', createNotificationRoutes(this.notificationsController));
+    this.app.use('/api/v1/admin/api-keys', createApiKeyRoutes(this.apiKeysController));
+    this.app.use('/api/v1/pipeline', createPipelineRoutes(this.pipelineController));
 
     // API documentation endpoint (placeholder)
     this.app.get('/api/v1/docs', (req, res) => {
@@ -215,14 +282,22 @@ export class ApiServer {
           'GET /api/v1/tokens/:address': 'Get specific token details',
           'POST /api/v1/filters': 'Create custom filter',
           'GET /api/v1/filters': 'List user filters',
+          'POST /api/v1/filters/preview': 'Validate a filter group and estimate its matches',
           'GET /api/v1/alerts': 'Get active alerts',
           'POST /api/v1/alerts/:id/acknowledge': 'Acknowledge alert',
           'GET /api/v1/analytics/summary': 'Dashboard summary stats',
-          'GET /api/v1/export/:format': 'Export filtered data',
+          'POST /api/v1/export/tokens': 'Start a token export job (CSV, NDJSON, XLSX)',
+          'GET /api/v1/export/status/:jobId': 'Export job progress',
+          'GET /api/v1/export/download/:jobId': 'Download a completed export',
+          'POST /api/v1/backtests': 'Backtest saved filters or criteria over stored snapshots',
+          'GET /api/v1/scoring/profile': 'Active scoring profile',
+          'POST /api/v1/scoring/rescore': 'Compare stored score distributions under a candidate profile',
+          'GET /api/v1/paper-trading/positions': 'Paper trading positions',
+          'GET /api/v1/paper-trading/performance': 'Paper trading PnL by strategy',
           'WS /api/v1/ws': 'WebSocket connection for real-time updates'
         },
         authentication: 'Optional API key in X-API-Key header',
-        rateLimit: '1000 requests per 15 minutes per IP',
+        rateLimit: 'Per API key and tier, with separate buckets for standard, analytics and export endpoints; see RateLimit-* response headers',
         timestamp: new Date().toISOString()
       });
     });
@@ -266,6 +341,48 @@ export class ApiServer {
       }));
     });
 
+    // Paper trading activity goes out on the signals channel
+    this.paperTradingService.on('position:opened', (position: PaperPosition) => {
+      this.wsManager.broadcastPaperTrade('position_opened', position);
+    });
+    this.paperTradingService.on('position:closed', (position: PaperPosition) => {
+      this.wsManager.broadcastPaperTrade('position_closed', position);
+    });
+    this.paperTradingService.on('cycle:complete', (cycle: PaperTradingCycle) => {
+      this.wsManager.broadcastPaperTrade('cycle_complete', cycle);
+    });
+
+    // Every stored alert firing goes out to webhooks and notification channels.
+    // A firing of a user's rule or subscription only reaches that user, so only
+    // system alerts are broadcast to WebSocket subscribers.
+    this.alertEngine.on('alert:triggered', (alert: Alert) => {
+      void this.alertEngine.findOwner(alert)
+        .then(ownerId => {
+          if (!ownerId) {
+            this.wsManager.broadcastAlert(alert);
+          }
+
+          return Promise.all([
+            this.webhookService.dispatch('alert.triggered', alert, ownerId),
+            this.notificationService.notify(alert)
+          ]);
+        })
+        .catch(error => logger.error('Failed to deliver alert', {
+          alertId: alert.id,
+          error: error instanceof Error ? error.message : String(error)
+        }));
+    });
+
+    // Degraded watchlist tokens raise an alert and go out on their token channel
+    this.watchlistMonitor.on('token:degraded', (degradation: TokenDegradation) => {
+      void this.alertEngine.recordDegradation(degradation);
+      this.wsManager.broadcastTokenDegraded(degradation);
+    });
+    this.watchlistMonitor.on('token:pools-changed', (poolChanges: TokenPoolChanges) => {
+      void this.alertEngine.recordPoolChanges(poolChanges);
+      this.wsManager.broadcastTokenPoolsChanged(poolChanges);
+    });
+
     // Setup periodic data broadcasts
     setInterval(() => {
       this.wsManager.broadcastMarketUpdate();
@@ -296,6 +413,30 @@ export class ApiServer {
       await this.prisma.$connect();
       logger.info('Database connected successfully');
 
+      // A fresh deployment needs one admin key to issue the others with
+      if (process.env.ADMIN_API_KEY) {
+        await this.apiKeyService.ensureBootstrapKey(process.env.ADMIN_API_KEY);
+      }
+      this.apiKeyService.start();
+
+      // Resume retries for webhook deliveries left pending by a previous process
+      this.webhookService.start();
+
+      // Resume export jobs interrupted by a previous shutdown or crash
+      await this.exportService.start();
+
+      // Trade signals and filter matches on paper after each aggregation run
+      this.paperTradingService.start();
+
+      // Keep re-polling tokens that passed the pipeline for signs of a rug
+      this.watchlistMonitor.start();
+
+      // Evaluate alert rules against each new price and safety snapshot
+      this.alertEngine.start();
+
+      // Raise alerts for new signals, launches and filter matches users follow
+      this.subscriptionService.start();
+
       // Start HTTP server
       const port = parseInt(process.env.API_PORT || '3001', 10);
 
@@ -303,6 +444,7 @@ export class ApiServer {
         logger.info(`API Server running on port ${port}`, {
           environment: process.env.NODE_ENV || 'development',
           port,
+          rateLimitStore: this.rateLimitService.storeName,
           endpoints: {
             api: `http://localhost:${port}/api/v1`,
             docs: `http://localhost:${port}/api/v1/docs`,
@@ -328,6 +470,21 @@ export class ApiServer {
     // Close WebSocket connections
     this.wsManager.closeAllConnections();
 
+    // Stop webhook retry loop
+    this.webhookService.stop();
+
+    // Let running exports checkpoint their current page before the database goes away
+    await this.exportService.stop();
+
+    // Write out request counts not yet flushed to api_usage
+    await this.apiKeyService.stop();
+    await this.rateLimitService.close();
+
+    this.paperTradingService.stop();
+    this.watchlistMonitor.stop();
+    this.alertEngine.stop();
+    this.subscriptionService.stop();
+
     // Close HTTP server
     this.httpServer.close(() => {
       logger.info('HTTP server closed');
@@ -15,6 +15,7 @@ import {
   TokenResponse,
   API_ERROR_CODES
 } from '../types/api.types';
+import { SignalService, SignalsOverview, SignalsOverviewQuery } from '../../services/signal.service';
 
 // Analytics query validation schema
 const analyticsQuerySchema = z.object({
@@ -31,7 +32,11 @@ const performanceQuerySchema = z.object({
 });
 
 export class AnalyticsController {
-  constructor(private prisma: PrismaClient) {}
+  private readonly signalService: SignalService;
+
+  constructor(private prisma: PrismaClient) {
+    this.signalService = new SignalService(prisma);
+  }
 
   // GET /api/v1/analytics/summary - Dashboard summary statistics
   public async getDashboardSummary(req: Request, res: Response): Promise<void> {
@@ -270,6 +275,34 @@ export class AnalyticsController {
     }
   }
 
+  // GET /api/v1/analytics/signals-overview - Signal counts and realised accuracy
+  public async getSignalsOverview(req: Request, res: Response): Promise<void> {
+    try {
+      const query = req.query as unknown as SignalsOverviewQuery;
+
+      const overview = await this.signalService.getOverview(query);
+
+      const response: ApiResponse<SignalsOverview> = {
+        success: true,
+        data: overview,
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      };
+
+      res.json(response);
+
+    } catch (error) {
+      logger.error('Error fetching signals overview:', { error: error instanceof Error ? error.message : String(error) });
+      res.status(500).json({
+        success: false,
+        error: API_ERROR_CODES.INTERNAL_ERROR,
+        message: 'Failed to fetch signals overview',
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      });
+    }
+  }
+
   // Helper methods for data aggregation
   private async getTotalTokens(chain?: string): Promise<number> {
     const whereClause = chain ? { chain } : {};
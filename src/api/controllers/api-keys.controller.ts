@@ -0,0 +1,155 @@
+// API Keys Controller - Issue, Rotate and Revoke API Keys (admin)
+import { Request, Response } from 'express';
+import { Logger } from '../../utils/logger';
+import {
+  ApiKeyService,
+  ApiKeyUsageReport,
+  IssuedApiKey,
+  IssueApiKeyInput,
+  PublicApiKey
+} from '../../services/api-key.service';
+import { ApiResponse, API_ERROR_CODES } from '../types/api.types';
+
+// Create logger instance
+const logger = Logger.getInstance();
+
+export class ApiKeysController {
+  constructor(private apiKeyService: ApiKeyService) {}
+
+  // POST /api/v1/admin/api-keys - Issue a key; the secret is only returned here
+  public async issueKey(req: Request, res: Response): Promise<void> {
+    try {
+      const issued = await this.apiKeyService.issueKey(req.body as IssueApiKeyInput);
+
+      const response: ApiResponse<IssuedApiKey> = {
+        success: true,
+        data: issued,
+        message: 'API key issued. Store the secret now, it will not be shown again',
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      };
+
+      res.status(201).json(response);
+
+    } catch (error) {
+      this.sendError(res, 'Failed to issue API key', error);
+    }
+  }
+
+  // GET /api/v1/admin/api-keys - List keys, optionally for one owner
+  public async listKeys(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = req.query as { userId?: string };
+      const keys = await this.apiKeyService.listKeys(userId);
+
+      const response: ApiResponse<PublicApiKey[]> = {
+        success: true,
+        data: keys,
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      };
+
+      res.json(response);
+
+    } catch (error) {
+      this.sendError(res, 'Failed to fetch API keys', error);
+    }
+  }
+
+  // POST /api/v1/admin/api-keys/:id/rotate - Replace a key, optionally keeping the old one for a grace period
+  public async rotateKey(req: Request, res: Response): Promise<void> {
+    try {
+      const { graceSeconds } = req.body as { graceSeconds: number };
+      const issued = await this.apiKeyService.rotateKey(req.params.id, graceSeconds);
+
+      if (!issued) {
+        this.sendNotFound(res, 'API key not found or already revoked');
+        return;
+      }
+
+      const response: ApiResponse<IssuedApiKey> = {
+        success: true,
+        data: issued,
+        message: 'API key rotated. Store the new secret now, it will not be shown again',
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      };
+
+      res.status(201).json(response);
+
+    } catch (error) {
+      this.sendError(res, 'Failed to rotate API key', error);
+    }
+  }
+
+  // DELETE /api/v1/admin/api-keys/:id - Revoke a key
+  public async revokeKey(req: Request, res: Response): Promise<void> {
+    try {
+      const revoked = await this.apiKeyService.revokeKey(req.params.id);
+
+      if (!revoked) {
+        this.sendNotFound(res, 'API key not found');
+        return;
+      }
+
+      const response: ApiResponse<PublicApiKey> = {
+        success: true,
+        data: revoked,
+        message: 'API key revoked',
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      };
+
+      res.json(response);
+
+    } catch (error) {
+      this.sendError(res, 'Failed to revoke API key', error);
+    }
+  }
+
+  // GET /api/v1/admin/api-keys/:id/usage - Hourly request counts
+  public async getUsage(req: Request, res: Response): Promise<void> {
+    try {
+      const { hours } = req.query as unknown as { hours: number };
+      const usage = await this.apiKeyService.getUsage(req.params.id, hours);
+
+      if (!usage) {
+        this.sendNotFound(res, 'API key not found');
+        return;
+      }
+
+      const response: ApiResponse<ApiKeyUsageReport> = {
+        success: true,
+        data: usage,
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      };
+
+      res.json(response);
+
+    } catch (error) {
+      this.sendError(res, 'Failed to fetch API key usage', error);
+    }
+  }
+
+  private sendNotFound(res: Response, message: string): void {
+    res.status(404).json({
+      success: false,
+      error: API_ERROR_CODES.NOT_FOUND,
+      message,
+      timestamp: new Date().toISOString(),
+      version: '1.0.0'
+    });
+  }
+
+  private sendError(res: Response, message: string, error: unknown): void {
+    logger.error(`${message}:`, { error: error instanceof Error ? error.message : String(error) });
+    res.status(500).json({
+      success: false,
+      error: API_ERROR_CODES.INTERNAL_ERROR,
+      message,
+      timestamp: new Date().toISOString(),
+      version: '1.0.0'
+    });
+  }
+}
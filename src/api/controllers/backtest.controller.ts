@@ -0,0 +1,146 @@
+// Backtest Controller - Replay filters over historical snapshots
+import { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { Logger } from '../../utils/logger';
+const logger = Logger.getInstance();
+import {
+  ApiResponse,
+  FilterDefinition,
+  backtestRequestSchema,
+  API_ERROR_CODES
+} from '../types/api.types';
+import { validateFilterGroup } from '../../lib/filters/filter-engine';
+import { BacktestService, BacktestResult, BacktestSubject } from '../../services/backtest.service';
+import { toFilterGroup, tokenFilterCriteriaToGroup } from '../../services/filter-query.service';
+import { getUserId } from '../middleware/auth.middleware';
+
+type BacktestRequest = z.infer<typeof backtestRequestSchema>;
+
+// Default and longest replay windows
+const DEFAULT_BACKTEST_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_BACKTEST_WINDOW_MS = 90 * 24 * 60 * 60 * 1000;
+
+export class BacktestController {
+  private readonly backtestService: BacktestService;
+
+  constructor(private prisma: PrismaClient) {
+    this.backtestService = new BacktestService(prisma);
+  }
+
+  // POST /api/v1/backtests - Backtest saved filters or pipeline criteria
+  public async runBacktest(req: Request, res: Response): Promise<void> {
+    try {
+      const body = req.body as BacktestRequest;
+      // Behind requireAuth, so the caller has a key
+      const userId = getUserId(req) as string;
+
+      const endDate = body.endDate ?? new Date();
+      const startDate = body.startDate ?? new Date(endDate.getTime() - DEFAULT_BACKTEST_WINDOW_MS);
+
+      if (startDate >= endDate || endDate.getTime() - startDate.getTime() > MAX_BACKTEST_WINDOW_MS) {
+        this.sendValidationError(res, 'Backtest period must end after it starts and span at most 90 days');
+        return;
+      }
+
+      const subjects: BacktestSubject[] = [];
+
+      if (body.filterIds) {
+        const filters = await this.prisma.filter.findMany({
+          where: {
+            id: { in: body.filterIds },
+            OR: [{ isPublic: true }, { userId }]
+          }
+        });
+
+        const missing = body.filterIds.filter(id => !filters.some(filter => filter.id === id));
+        if (missing.length > 0) {
+          res.status(404).json({
+            success: false,
+            error: API_ERROR_CODES.FILTER_NOT_FOUND,
+            message: `Filter not found: ${missing.join(', ')}`,
+            timestamp: new Date().toISOString(),
+            version: '1.0.0'
+          });
+          return;
+        }
+
+        for (const id of body.filterIds) {
+          const filter = filters.find(candidate => candidate.id === id)!;
+          subjects.push({
+            id: filter.id,
+            name: filter.name,
+            filter: toFilterGroup(filter.criteria as unknown as FilterDefinition)
+          });
+        }
+      }
+
+      if (body.criteria) {
+        const { group, unsupported } = tokenFilterCriteriaToGroup(body.criteria);
+        subjects.push({
+          id: 'criteria',
+          name: 'Token filter criteria',
+          filter: group,
+          warnings: unsupported.length > 0
+            ? [`No snapshot history for ${unsupported.join(', ')}; these criteria were ignored`]
+            : []
+        });
+      }
+
+      const errors = subjects.flatMap(subject =>
+        validateFilterGroup(subject.filter).map(error => `${subject.name}: ${error}`)
+      );
+      if (errors.length > 0) {
+        this.sendValidationError(res, 'Filter definition is invalid', errors);
+        return;
+      }
+
+      const results = await this.backtestService.run(subjects, {
+        startDate,
+        endDate,
+        takeProfitPercent: body.takeProfitPercent,
+        stopLossPercent: body.stopLossPercent,
+        maxHoldHours: body.maxHoldHours,
+        positionSize: body.positionSize,
+        initialCapital: body.initialCapital,
+        allowReentry: body.allowReentry
+      });
+
+      const response: ApiResponse<BacktestResult[]> = {
+        success: true,
+        data: results,
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      };
+
+      res.json(response);
+
+      logger.info('Backtest served', {
+        userId,
+        filters: subjects.map(subject => subject.id),
+        trades: results.reduce((total, result) => total + result.trades, 0)
+      });
+
+    } catch (error) {
+      logger.error('Error running backtest:', { error: error instanceof Error ? error.message : String(error) });
+      res.status(500).json({
+        success: false,
+        error: API_ERROR_CODES.INTERNAL_ERROR,
+        message: 'Failed to run backtest',
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      });
+    }
+  }
+
+  private sendValidationError(res: Response, message: string, details?: string[]): void {
+    res.status(400).json({
+      success: false,
+      error: API_ERROR_CODES.VALIDATION_ERROR,
+      message,
+      ...(details && { details }),
+      timestamp: new Date().toISOString(),
+      version: '1.0.0'
+    });
+  }
+}
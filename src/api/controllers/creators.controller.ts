@@ -0,0 +1,53 @@
+// Creators Controller - Creator reputation and the evidence behind rug labels
+import { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { Logger } from '../../utils/logger';
+const logger = Logger.getInstance();
+import { ApiResponse, API_ERROR_CODES } from '../types/api.types';
+import { CreatorReputationService, CreatorRecord } from '../../services/creator-reputation.service';
+
+export class CreatorsController {
+  private readonly creatorReputation: CreatorReputationService;
+
+  constructor(prisma: PrismaClient) {
+    this.creatorReputation = new CreatorReputationService(prisma);
+  }
+
+  // GET /api/v1/creators/:address - Creator record with per-token rug evidence
+  public async getCreator(req: Request, res: Response): Promise<void> {
+    try {
+      const { address } = req.params;
+      const creator = await this.creatorReputation.getCreator(address);
+
+      if (!creator) {
+        res.status(404).json({
+          success: false,
+          error: API_ERROR_CODES.NOT_FOUND,
+          message: `No reputation record for creator ${address}`,
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        });
+        return;
+      }
+
+      const response: ApiResponse<CreatorRecord> = {
+        success: true,
+        data: creator,
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      };
+
+      res.json(response);
+
+    } catch (error) {
+      logger.error('Error fetching creator:', { error: error instanceof Error ? error.message : String(error) });
+      res.status(500).json({
+        success: false,
+        error: API_ERROR_CODES.INTERNAL_ERROR,
+        message: 'Failed to fetch creator',
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      });
+    }
+  }
+}
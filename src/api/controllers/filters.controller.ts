@@ -1,8 +1,9 @@
 // Filters Controller - Custom Filter Management
 import { Request, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma, Filter } from '@prisma/client';
 import { z } from 'zod';
 import { Logger } from '../../utils/logger';
+import { globalCache } from '../../utils/cache';
 const logger = Logger.getInstance();
 import { WebSocketManager } from '../websocket/websocket-manager';
 import {
@@ -11,95 +12,130 @@ import {
   CustomFilter,
   CreateFilterRequest,
   FilterCriteria,
+  FilterDefinition,
+  FilterPerformance,
   TokenResponse,
   createFilterSchema,
   API_ERROR_CODES
 } from '../types/api.types';
-
-// In-memory filter storage (in production, use database)
-class FilterStorage {
-  private filters: Map<string, CustomFilter> = new Map();
-  private filterResults: Map<string, { results: TokenResponse[]; timestamp: Date }> = new Map();
-
-  public createFilter(filter: CustomFilter): void {
-    this.filters.set(filter.id, filter);
-  }
-
-  public getFilter(id: string): CustomFilter | undefined {
-    return this.filters.get(id);
-  }
-
-  public listFilters(userId?: string): CustomFilter[] {
-    return Array.from(this.filters.values()).filter(filter =>
-      filter.isPublic || filter.userId === userId
-    );
-  }
-
-  public updateFilter(id: string, updates: Partial<CustomFilter>): CustomFilter | undefined {
-    const filter = this.filters.get(id);
-    if (!filter) return undefined;
-
-    const updatedFilter = { ...filter, ...updates, updatedAt: new Date().toISOString() };
-    this.filters.set(id, updatedFilter);
-    return updatedFilter;
-  }
-
-  public deleteFilter(id: string): boolean {
-    return this.filters.delete(id);
-  }
-
-  public cacheFilterResults(filterId: string, results: TokenResponse[]): void {
-    this.filterResults.set(filterId, {
-      results,
-      timestamp: new Date()
-    });
-  }
-
-  public getCachedResults(filterId: string, maxAgeMs: number = 5 * 60 * 1000): TokenResponse[] | undefined {
-    const cached = this.filterResults.get(filterId);
-    if (!cached) return undefined;
-
-    const age = Date.now() - cached.timestamp.getTime();
-    if (age > maxAgeMs) {
-      this.filterResults.delete(filterId);
-      return undefined;
-    }
-
-    return cached.results;
+import { FilterGroup, FilterPreview } from '../../types/filter';
+import { isFilterGroup, validateFilterGroup } from '../../lib/filters/filter-engine';
+import {
+  FilterQueryService,
+  FilteredToken,
+  buildTokenFilterRecord,
+  toFilterGroup
+} from '../../services/filter-query.service';
+import { getUserId } from '../middleware/auth.middleware';
+
+type ActiveSignal = NonNullable<TokenResponse['activeSignals']>[number];
+
+// Cached executeFilter results live for 5 minutes and are dropped when the filter is edited or deleted
+const FILTER_RESULTS_TTL_SECONDS = 5 * 60;
+
+// Executions in this window count towards a filter's popularity score
+const POPULARITY_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Upper bound on the tokens a single filter execution returns
+const MAX_FILTER_RESULTS = 1000;
+
+const RISK_LEVELS: Record<string, NonNullable<TokenResponse['safetyScore']>['riskLevel']> = {
+  low: 'LOW',
+  medium: 'MEDIUM',
+  high: 'HIGH',
+  critical: 'VERY_HIGH'
+};
+
+export const FILTER_TEMPLATES: Array<{
+  id: string;
+  name: string;
+  description: string;
+  criteria: FilterCriteria;
+  category: string;
+  isTemplate: true;
+}> = [
+  {
+    id: 'template_1',
+    name: 'High Volume Memecoins',
+    description: 'Tokens with high 24h volume and good liquidity',
+    criteria: {
+      volume24h: { min: 100000 },
+      liquidity: { required: true, min: 50000 },
+      safetyScore: { min: 6 }
+    },
+    category: 'volume',
+    isTemplate: true
+  },
+  {
+    id: 'template_2',
+    name: 'Safe New Tokens',
+    description: 'Recently launched tokens with good safety scores',
+    criteria: {
+      contractAge: { minDays: 1 },
+      safetyScore: { min: 7 },
+      riskLevel: ['VERY_LOW', 'LOW'],
+      liquidity: { required: true }
+    },
+    category: 'safety',
+    isTemplate: true
+  },
+  {
+    id: 'template_3',
+    name: 'Bullish Signals',
+    description: 'Tokens with strong buy signals',
+    criteria: {
+      signals: {
+        types: ['BUY', 'STRONG_BUY'],
+        minStrength: 0.7,
+        minConfidence: 0.8
+      },
+      safetyScore: { min: 5 }
+    },
+    category: 'signals',
+    isTemplate: true
   }
-}
+];
 
 export class FiltersController {
-  private filterStorage = new FilterStorage();
+  private readonly filterQuery: FilterQueryService;
 
   constructor(
     private prisma: PrismaClient,
     private wsManager: WebSocketManager
-  ) {}
+  ) {
+    this.filterQuery = new FilterQueryService(prisma);
+  }
 
-  // GET /api/v1/filters - List user filters
+  // GET /api/v1/filters - List the caller's filters plus public filters
   public async listFilters(req: Request, res: Response): Promise<void> {
     try {
       const { page = 1, limit = 20, userId, isPublic } = req.query;
+      const callerId = getUserId(req);
 
       const pageNum = parseInt(page as string);
       const limitNum = Math.min(parseInt(limit as string), 100);
+      const skip = (pageNum - 1) * limitNum;
 
-      let filters = this.filterStorage.listFilters(userId as string);
-
-      if (isPublic !== undefined) {
-        const isPublicBool = isPublic === 'true';
-        filters = filters.filter(filter => filter.isPublic === isPublicBool);
-      }
+      const where: Prisma.FilterWhereInput = {
+        isActive: true,
+        OR: callerId ? [{ isPublic: true }, { userId: callerId }] : [{ isPublic: true }],
+        ...(userId !== undefined && { userId: userId as string }),
+        ...(isPublic !== undefined && { isPublic: String(isPublic) === 'true' })
+      };
 
-      // Apply pagination
-      const total = filters.length;
-      const skip = (pageNum - 1) * limitNum;
-      const paginatedFilters = filters.slice(skip, skip + limitNum);
+      const [filters, total] = await Promise.all([
+        this.prisma.filter.findMany({
+          where,
+          orderBy: { updatedAt: 'desc' },
+          skip,
+          take: limitNum
+        }),
+        this.prisma.filter.count({ where })
+      ]);
 
       const response: PaginatedResponse<CustomFilter> = {
         success: true,
-        data: paginatedFilters,
+        data: filters.map(filter => this.toCustomFilter(filter)),
         pagination: {
           page: pageNum,
           limit: limitNum,
@@ -115,7 +151,7 @@ export class FiltersController {
       res.json(response);
 
       logger.info('Filters listed successfully', {
-        count: paginatedFilters.length,
+        count: filters.length,
         total,
         userId
       });
@@ -137,22 +173,16 @@ export class FiltersController {
     try {
       const { id } = req.params;
 
-      const filter = this.filterStorage.getFilter(id);
+      const filter = await this.findVisibleFilter(id, getUserId(req));
 
       if (!filter) {
-        res.status(404).json({
-          success: false,
-          error: API_ERROR_CODES.FILTER_NOT_FOUND,
-          message: 'Filter not found',
-          timestamp: new Date().toISOString(),
-          version: '1.0.0'
-        });
+        this.sendFilterNotFound(res);
         return;
       }
 
       const response: ApiResponse<CustomFilter> = {
         success: true,
-        data: filter,
+        data: this.toCustomFilter(filter),
         timestamp: new Date().toISOString(),
         version: '1.0.0'
       };
@@ -181,23 +211,17 @@ export class FiltersController {
     try {
       const filterData = createFilterSchema.parse(req.body);
 
-      const filter: CustomFilter = {
-        id: this.generateId(),
-        name: filterData.name,
-        description: filterData.description,
-        criteria: filterData.criteria,
-        userId: req.headers['x-user-id'] as string, // From auth middleware
-        isPublic: filterData.isPublic || false,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-        useCount: 0
-      };
+      const errors = this.getDefinitionErrors(filterData.criteria);
+      if (errors.length > 0) {
+        this.sendInvalidFilter(res, errors);
+        return;
+      }
 
-      this.filterStorage.createFilter(filter);
+      const filter = await this.persistFilter(getUserId(req) as string, filterData);
 
       const response: ApiResponse<CustomFilter> = {
         success: true,
-        data: filter,
+        data: this.toCustomFilter(filter),
         message: 'Filter created successfully',
         timestamp: new Date().toISOString(),
         version: '1.0.0'
@@ -235,26 +259,80 @@ export class FiltersController {
     }
   }
 
-  // PUT /api/v1/filters/:id - Update filter
-  public async updateFilter(req: Request, res: Response): Promise<void> {
+  // POST /api/v1/filters/templates/:templateId/create - Create filter from template
+  public async createFromTemplate(req: Request, res: Response): Promise<void> {
     try {
-      const { id } = req.params;
-      const updates = req.body;
-      const userId = req.headers['x-user-id'] as string;
+      const { templateId } = req.params;
+      const { name, description } = req.body as { name: string; description?: string };
 
-      const existingFilter = this.filterStorage.getFilter(id);
+      const template = FILTER_TEMPLATES.find(candidate => candidate.id === templateId);
 
-      if (!existingFilter) {
+      if (!template) {
         res.status(404).json({
           success: false,
-          error: API_ERROR_CODES.FILTER_NOT_FOUND,
-          message: 'Filter not found',
+          error: API_ERROR_CODES.NOT_FOUND,
+          message: 'Filter template not found',
           timestamp: new Date().toISOString(),
           version: '1.0.0'
         });
         return;
       }
 
+      const filter = await this.persistFilter(getUserId(req) as string, {
+        name,
+        description: description ?? template.description,
+        criteria: template.criteria,
+        isPublic: false
+      });
+
+      const response: ApiResponse<CustomFilter> = {
+        success: true,
+        data: this.toCustomFilter(filter),
+        message: 'Filter created from template',
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      };
+
+      res.status(201).json(response);
+
+      logger.info('Filter created from template', {
+        filterId: filter.id,
+        templateId,
+        userId: filter.userId
+      });
+
+    } catch (error) {
+      logger.error('Error creating filter from template:', { error: error instanceof Error ? error.message : String(error) });
+      res.status(500).json({
+        success: false,
+        error: API_ERROR_CODES.INTERNAL_ERROR,
+        message: 'Failed to create filter from template',
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      });
+    }
+  }
+
+  // PUT /api/v1/filters/:id - Update filter
+  public async updateFilter(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const updates = req.body as Partial<CreateFilterRequest>;
+      const userId = getUserId(req);
+
+      const errors = this.getDefinitionErrors(updates.criteria);
+      if (errors.length > 0) {
+        this.sendInvalidFilter(res, errors);
+        return;
+      }
+
+      const existingFilter = await this.prisma.filter.findUnique({ where: { id } });
+
+      if (!existingFilter) {
+        this.sendFilterNotFound(res);
+        return;
+      }
+
       // Check ownership
       if (existingFilter.userId !== userId) {
         res.status(403).json({
@@ -267,11 +345,21 @@ export class FiltersController {
         return;
       }
 
-      const updatedFilter = this.filterStorage.updateFilter(id, updates);
+      const updatedFilter = await this.prisma.filter.update({
+        where: { id },
+        data: {
+          ...(updates.name !== undefined && { name: updates.name }),
+          ...(updates.description !== undefined && { description: updates.description }),
+          ...(updates.criteria !== undefined && { criteria: updates.criteria as Prisma.InputJsonValue }),
+          ...(updates.isPublic !== undefined && { isPublic: updates.isPublic })
+        }
+      });
+
+      this.invalidateCachedResults(id);
 
       const response: ApiResponse<CustomFilter> = {
         success: true,
-        data: updatedFilter!,
+        data: this.toCustomFilter(updatedFilter),
         message: 'Filter updated successfully',
         timestamp: new Date().toISOString(),
         version: '1.0.0'
@@ -281,7 +369,7 @@ export class FiltersController {
 
       logger.info('Filter updated successfully', {
         filterId: id,
-        name: updatedFilter!.name
+        name: updatedFilter.name
       });
 
     } catch (error) {
@@ -300,18 +388,12 @@ export class FiltersController {
   public async deleteFilter(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
-      const userId = req.headers['x-user-id'] as string;
+      const userId = getUserId(req);
 
-      const existingFilter = this.filterStorage.getFilter(id);
+      const existingFilter = await this.prisma.filter.findUnique({ where: { id } });
 
       if (!existingFilter) {
-        res.status(404).json({
-          success: false,
-          error: API_ERROR_CODES.FILTER_NOT_FOUND,
-          message: 'Filter not found',
-          timestamp: new Date().toISOString(),
-          version: '1.0.0'
-        });
+        this.sendFilterNotFound(res);
         return;
       }
 
@@ -327,19 +409,16 @@ export class FiltersController {
         return;
       }
 
-      const deleted = this.filterStorage.deleteFilter(id);
+      // Conditional delete - the filter may have been removed concurrently
+      const { count } = await this.prisma.filter.deleteMany({ where: { id, userId } });
 
-      if (!deleted) {
-        res.status(404).json({
-          success: false,
-          error: API_ERROR_CODES.FILTER_NOT_FOUND,
-          message: 'Filter not found',
-          timestamp: new Date().toISOString(),
-          version: '1.0.0'
-        });
+      if (count === 0) {
+        this.sendFilterNotFound(res);
         return;
       }
 
+      this.invalidateCachedResults(id);
+
       const response: ApiResponse<null> = {
         success: true,
         message: 'Filter deleted successfully',
@@ -371,62 +450,57 @@ export class FiltersController {
       const { id } = req.params;
       const { page = 1, limit = 20, useCache = true } = req.query;
 
-      const filter = this.filterStorage.getFilter(id);
+      const filter = await this.findVisibleFilter(id, getUserId(req));
 
       if (!filter) {
-        res.status(404).json({
-          success: false,
-          error: API_ERROR_CODES.FILTER_NOT_FOUND,
-          message: 'Filter not found',
-          timestamp: new Date().toISOString(),
-          version: '1.0.0'
-        });
+        this.sendFilterNotFound(res);
         return;
       }
 
+      const pageNum = parseInt(page as string);
+      const limitNum = Math.min(parseInt(limit as string), 100);
+      const skip = (pageNum - 1) * limitNum;
+
       // Check for cached results
-      if (useCache === 'true') {
-        const cachedResults = this.filterStorage.getCachedResults(id);
-        if (cachedResults) {
-          const pageNum = parseInt(page as string);
-          const limitNum = Math.min(parseInt(limit as string), 100);
-          const skip = (pageNum - 1) * limitNum;
-          const paginatedResults = cachedResults.slice(skip, skip + limitNum);
-
-          const response: PaginatedResponse<TokenResponse> = {
-            success: true,
-            data: paginatedResults,
-            pagination: {
-              page: pageNum,
-              limit: limitNum,
-              total: cachedResults.length,
-              totalPages: Math.ceil(cachedResults.length / limitNum),
-              hasNext: skip + limitNum < cachedResults.length,
-              hasPrev: pageNum > 1
-            },
-            message: 'Filter results (cached)',
-            timestamp: new Date().toISOString(),
-            version: '1.0.0'
-          };
-
-          res.json(response);
-          return;
+      const cacheKey = this.getResultsCacheKey(filter.id);
+      const cachedResults = String(useCache) === 'true' ? globalCache.get<TokenResponse[]>(cacheKey) : null;
+
+      let results: TokenResponse[];
+
+      if (cachedResults) {
+        results = cachedResults;
+      } else {
+        // Execute filter
+        const startTime = Date.now();
+
+        try {
+          results = await this.applyFilter(filter.criteria as unknown as FilterDefinition);
+        } catch (error) {
+          await this.recordExecution(filter.id, {
+            resultCount: 0,
+            durationMs: Date.now() - startTime,
+            success: false,
+            error: error instanceof Error ? error.message : String(error)
+          });
+          throw error;
         }
-      }
 
-      // Execute filter
-      const results = await this.applyFilter(filter.criteria);
+        await this.recordExecution(filter.id, {
+          resultCount: results.length,
+          durationMs: Date.now() - startTime,
+          success: true
+        });
 
-      // Cache results
-      this.filterStorage.cacheFilterResults(id, results);
+        // Cache results
+        globalCache.set(cacheKey, results, FILTER_RESULTS_TTL_SECONDS);
+      }
 
-      // Update use count
-      this.filterStorage.updateFilter(id, { useCount: filter.useCount + 1 });
+      // Every use counts towards popularity, including cached ones
+      await this.prisma.filter.update({
+        where: { id },
+        data: { useCount: { increment: 1 } }
+      });
 
-      // Apply pagination
-      const pageNum = parseInt(page as string);
-      const limitNum = Math.min(parseInt(limit as string), 100);
-      const skip = (pageNum - 1) * limitNum;
       const paginatedResults = results.slice(skip, skip + limitNum);
 
       const response: PaginatedResponse<TokenResponse> = {
@@ -440,13 +514,17 @@ export class FiltersController {
           hasNext: skip + limitNum < results.length,
           hasPrev: pageNum > 1
         },
-        message: 'Filter executed successfully',
+        message: cachedResults ? 'Filter results (cached)' : 'Filter executed successfully',
         timestamp: new Date().toISOString(),
         version: '1.0.0'
       };
 
       res.json(response);
 
+      if (cachedResults) {
+        return;
+      }
+
       // Broadcast filter results via WebSocket
       this.wsManager.broadcastFilterResults(id, {
         type: 'FILTER_RESULT',
@@ -476,222 +554,282 @@ export class FiltersController {
     }
   }
 
-  private async applyFilter(criteria: FilterCriteria): Promise<TokenResponse[]> {
-    // Build where clause from filter criteria
-    const whereClause: any = {};
+  // POST /api/v1/filters/preview - Validate a filter group and estimate its matches
+  public async previewFilter(req: Request, res: Response): Promise<void> {
+    try {
+      const { filter } = req.body as { filter: FilterGroup };
 
-    if (criteria.marketCap) {
-      whereClause.marketCap = {};
-      if (criteria.marketCap.min !== undefined) whereClause.marketCap.gte = criteria.marketCap.min;
-      if (criteria.marketCap.max !== undefined) whereClause.marketCap.lte = criteria.marketCap.max;
-    }
+      const preview = await this.filterQuery.preview(filter);
+
+      const response: ApiResponse<FilterPreview> = {
+        success: true,
+        data: preview,
+        message: preview.isValid ? undefined : 'Filter has validation errors',
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      };
 
-    if (criteria.chain && criteria.chain.length > 0) {
-      whereClause.chain = { in: criteria.chain };
+      res.json(response);
+
+    } catch (error) {
+      logger.error('Error previewing filter:', { error: error instanceof Error ? error.message : String(error) });
+      res.status(500).json({
+        success: false,
+        error: API_ERROR_CODES.INTERNAL_ERROR,
+        message: 'Failed to preview filter',
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      });
     }
+  }
+
+  // GET /api/v1/filters/public/popular - Public filters ranked by usage
+  public async getPopularFilters(req: Request, res: Response): Promise<void> {
+    try {
+      const { page = 1, limit = 20 } = req.query;
+
+      const pageNum = parseInt(page as string);
+      const limitNum = Math.min(parseInt(limit as string), 100);
+      const skip = (pageNum - 1) * limitNum;
+      const where: Prisma.FilterWhereInput = { isPublic: true, isActive: true };
+
+      const [filters, total] = await Promise.all([
+        this.prisma.filter.findMany({
+          where,
+          orderBy: [{ useCount: 'desc' }, { lastExecutedAt: { sort: 'desc', nulls: 'last' } }, { id: 'asc' }],
+          skip,
+          take: limitNum
+        }),
+        this.prisma.filter.count({ where })
+      ]);
 
-    if (criteria.contractAge) {
-      const minDate = new Date();
-      minDate.setDate(minDate.getDate() - (criteria.contractAge.minDays || 0));
-      whereClause.createdAt = { lte: minDate };
+      const response: PaginatedResponse<CustomFilter> = {
+        success: true,
+        data: filters.map(filter => this.toCustomFilter(filter)),
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          totalPages: Math.ceil(total / limitNum),
+          hasNext: skip + limitNum < total,
+          hasPrev: pageNum > 1
+        },
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      };
+
+      res.json(response);
+
+    } catch (error) {
+      logger.error('Error fetching popular filters:', { error: error instanceof Error ? error.message : String(error) });
+      res.status(500).json({
+        success: false,
+        error: API_ERROR_CODES.INTERNAL_ERROR,
+        message: 'Failed to fetch popular filters',
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      });
     }
+  }
 
-    // Safety score filters
-    if (criteria.safetyScore || criteria.riskLevel || criteria.liquidity?.required) {
-      whereClause.safetyScores = { some: {} };
+  // GET /api/v1/filters/:id/performance - Execution metrics from the filter's history
+  public async getFilterPerformance(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
 
-      if (criteria.safetyScore) {
-        if (criteria.safetyScore.min !== undefined) {
-          whereClause.safetyScores.some.overallScore = { gte: criteria.safetyScore.min };
-        }
-        if (criteria.safetyScore.max !== undefined) {
-          if (!whereClause.safetyScores.some.overallScore) {
-            whereClause.safetyScores.some.overallScore = {};
-          }
-          whereClause.safetyScores.some.overallScore.lte = criteria.safetyScore.max;
-        }
-      }
+      const filter = await this.findVisibleFilter(id, getUserId(req));
 
-      if (criteria.riskLevel && criteria.riskLevel.length > 0) {
-        whereClause.safetyScores.some.riskLevel = { in: criteria.riskLevel };
+      if (!filter) {
+        this.sendFilterNotFound(res);
+        return;
       }
 
-      if (criteria.liquidity?.required) {
-        whereClause.safetyScores.some.hasLiquidity = true;
-      }
+      const [stats, successful, recentExecutions] = await Promise.all([
+        this.prisma.filterExecution.aggregate({
+          where: { filterId: id },
+          _count: { _all: true },
+          _avg: { durationMs: true, resultCount: true }
+        }),
+        this.prisma.filterExecution.count({ where: { filterId: id, success: true } }),
+        this.prisma.filterExecution.count({
+          where: { filterId: id, executedAt: { gte: new Date(Date.now() - POPULARITY_WINDOW_MS) } }
+        })
+      ]);
+
+      const evaluations = stats._count._all;
+
+      const response: ApiResponse<FilterPerformance> = {
+        success: true,
+        data: {
+          totalExecutions: filter.useCount,
+          evaluations,
+          avgExecutionTime: Math.round(stats._avg.durationMs ?? 0),
+          avgResultCount: Math.round((stats._avg.resultCount ?? 0) * 100) / 100,
+          popularityScore: recentExecutions,
+          lastExecuted: filter.lastExecutedAt?.toISOString() ?? null,
+          successRate: evaluations > 0 ? Math.round((successful / evaluations) * 10000) / 100 : 100
+        },
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      };
 
-      if (criteria.holderCount) {
-        if (criteria.holderCount.min !== undefined) {
-          whereClause.safetyScores.some.holderCount = { gte: criteria.holderCount.min };
-        }
-        if (criteria.holderCount.max !== undefined) {
-          if (!whereClause.safetyScores.some.holderCount) {
-            whereClause.safetyScores.some.holderCount = {};
-          }
-          whereClause.safetyScores.some.holderCount.lte = criteria.holderCount.max;
-        }
-      }
+      res.json(response);
+
+    } catch (error) {
+      logger.error('Error fetching filter performance:', { error: error instanceof Error ? error.message : String(error) });
+      res.status(500).json({
+        success: false,
+        error: API_ERROR_CODES.INTERNAL_ERROR,
+        message: 'Failed to fetch filter performance',
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      });
     }
+  }
 
-    // Fetch tokens with filter criteria
-    const tokens = await this.prisma.token.findMany({
-      where: whereClause,
-      include: {
-        priceData: {
-          orderBy: { timestamp: 'desc' },
-          take: 1
-        },
-        safetyScores: {
-          orderBy: { analyzedAt: 'desc' },
-          take: 1
-        },
-        tradingSignals: {
-          where: { isActive: true },
-          orderBy: { createdAt: 'desc' },
-          take: 5
+  private async persistFilter(userId: string, data: CreateFilterRequest): Promise<Filter> {
+    return this.prisma.filter.create({
+      data: {
+        name: data.name,
+        description: data.description,
+        criteria: data.criteria as Prisma.InputJsonValue,
+        isPublic: data.isPublic || false,
+        // Callers authenticated by API key may not have a user row yet
+        user: {
+          connectOrCreate: {
+            where: { id: userId },
+            create: { id: userId }
+          }
         }
-      },
-      take: 1000 // Limit to prevent performance issues
+      }
     });
+  }
+
+  private async findVisibleFilter(id: string, userId?: string): Promise<Filter | null> {
+    const filter = await this.prisma.filter.findUnique({ where: { id } });
 
-    // Apply additional filters that require post-processing
-    let filteredTokens = tokens;
+    if (!filter || (!filter.isPublic && filter.userId !== userId)) {
+      return null;
+    }
 
-    if (criteria.volume24h || criteria.priceChange || criteria.liquidity?.min) {
-      filteredTokens = tokens.filter(token => {
-        const latestPrice = token.priceData[0];
-        if (!latestPrice) return false;
+    return filter;
+  }
 
-        // Volume filter
-        if (criteria.volume24h) {
-          const volume = latestPrice.volume24h || 0;
-          if (criteria.volume24h.min !== undefined && volume < criteria.volume24h.min) return false;
-          if (criteria.volume24h.max !== undefined && volume > criteria.volume24h.max) return false;
-        }
+  private async recordExecution(
+    filterId: string,
+    execution: { resultCount: number; durationMs: number; success: boolean; error?: string }
+  ): Promise<void> {
+    const executedAt = new Date();
 
-        // Price change filter
-        if (criteria.priceChange) {
-          let priceChange = 0;
-          switch (criteria.priceChange.period) {
-            case '1h':
-              priceChange = latestPrice.priceChange1h || 0;
-              break;
-            case '24h':
-              priceChange = latestPrice.priceChange24h || 0;
-              break;
-            case '7d':
-              priceChange = latestPrice.priceChange7d || 0;
-              break;
-          }
+    await this.prisma.$transaction([
+      this.prisma.filterExecution.create({ data: { filterId, executedAt, ...execution } }),
+      this.prisma.filter.update({ where: { id: filterId }, data: { lastExecutedAt: executedAt } })
+    ]);
+  }
 
-          if (criteria.priceChange.min !== undefined && priceChange < criteria.priceChange.min) return false;
-          if (criteria.priceChange.max !== undefined && priceChange > criteria.priceChange.max) return false;
-        }
+  private getResultsCacheKey(filterId: string): string {
+    return `filters:results:${filterId}`;
+  }
 
-        // Liquidity filter
-        if (criteria.liquidity?.min !== undefined) {
-          const liquidity = latestPrice.liquidity || 0;
-          if (liquidity < criteria.liquidity.min) return false;
-        }
+  private invalidateCachedResults(filterId: string): void {
+    globalCache.delete(this.getResultsCacheKey(filterId));
+  }
 
-        return true;
-      });
-    }
+  private toCustomFilter(filter: Filter): CustomFilter {
+    return {
+      id: filter.id,
+      name: filter.name,
+      description: filter.description ?? undefined,
+      criteria: filter.criteria as unknown as FilterDefinition,
+      userId: filter.userId,
+      isPublic: filter.isPublic,
+      createdAt: filter.createdAt.toISOString(),
+      updatedAt: filter.updatedAt.toISOString(),
+      useCount: filter.useCount,
+      lastExecutedAt: filter.lastExecutedAt?.toISOString()
+    };
+  }
 
-    // Apply signal filters
-    if (criteria.signals) {
-      filteredTokens = filteredTokens.filter(token => {
-        if (criteria.signals!.types && criteria.signals!.types.length > 0) {
-          const hasMatchingSignal = token.tradingSignals.some(signal =>
-            criteria.signals!.types!.includes(signal.signalType)
-          );
-          if (!hasMatchingSignal) return false;
-        }
+  private sendFilterNotFound(res: Response): void {
+    res.status(404).json({
+      success: false,
+      error: API_ERROR_CODES.FILTER_NOT_FOUND,
+      message: 'Filter not found',
+      timestamp: new Date().toISOString(),
+      version: '1.0.0'
+    });
+  }
 
-        if (criteria.signals!.minStrength !== undefined) {
-          const hasStrongSignal = token.tradingSignals.some(signal =>
-            signal.strength >= criteria.signals!.minStrength!
-          );
-          if (!hasStrongSignal) return false;
-        }
+  private async applyFilter(definition: FilterDefinition): Promise<TokenResponse[]> {
+    const tokens = await this.filterQuery.findTokens(toFilterGroup(definition), { limit: MAX_FILTER_RESULTS });
+    return tokens.map(token => this.toTokenResponse(token));
+  }
 
-        if (criteria.signals!.minConfidence !== undefined) {
-          const hasConfidentSignal = token.tradingSignals.some(signal =>
-            signal.confidence >= criteria.signals!.minConfidence!
-          );
-          if (!hasConfidentSignal) return false;
-        }
+  // Catalogue errors for nested groups; flat criteria are fully checked by the request schema
+  private getDefinitionErrors(definition: FilterDefinition | undefined): string[] {
+    return isFilterGroup(definition) ? validateFilterGroup(definition) : [];
+  }
 
-        return true;
-      });
-    }
+  private sendInvalidFilter(res: Response, errors: string[]): void {
+    res.status(400).json({
+      success: false,
+      error: API_ERROR_CODES.VALIDATION_ERROR,
+      message: 'Invalid filter',
+      details: errors,
+      timestamp: new Date().toISOString(),
+      version: '1.0.0'
+    });
+  }
+
+  private toTokenResponse(token: FilteredToken): TokenResponse {
+    const [price] = token.priceData;
+    const [safety] = token.safetyScores;
+    const record = buildTokenFilterRecord(token);
 
-    // Convert to TokenResponse format
-    return filteredTokens.map(token => ({
+    return {
       address: token.address,
       symbol: token.symbol,
       name: token.name,
       decimals: token.decimals,
-      chain: token.chain,
-      description: token.description || undefined,
-      logoUrl: token.logoUrl || undefined,
-      website: token.website || undefined,
-      twitter: token.twitter || undefined,
-      telegram: token.telegram || undefined,
-      marketCap: token.marketCap || undefined,
-      totalSupply: token.totalSupply,
-      circulatingSupply: token.circulatingSupply,
-      launchDate: token.launchDate || undefined,
-      currentPrice: token.priceData[0] ? {
-        price: token.priceData[0].price,
-        priceChange1h: token.priceData[0].priceChange1h || undefined,
-        priceChange24h: token.priceData[0].priceChange24h || undefined,
-        priceChange7d: token.priceData[0].priceChange7d || undefined,
-        volume24h: token.priceData[0].volume24h || undefined,
-        volumeChange24h: token.priceData[0].volumeChange24h || undefined,
-        liquidity: token.priceData[0].liquidity || undefined,
-        liquidityChange24h: token.priceData[0].liquidityChange24h || undefined,
-        marketCap: token.priceData[0].marketCap || undefined,
-        fdv: token.priceData[0].fdv || undefined,
-        timestamp: token.priceData[0].timestamp,
-        source: token.priceData[0].source
+      chain: token.chain ?? 'solana',
+      logoUrl: token.logoUrl ?? undefined,
+      marketCap: token.marketCap ?? undefined,
+      totalSupply: token.totalSupply ?? undefined,
+      circulatingSupply: token.circulatingSupply ?? undefined,
+      launchDate: token.launchDate ?? undefined,
+      currentPrice: price ? {
+        price: price.price,
+        priceChange1h: price.change1h ?? undefined,
+        priceChange24h: price.change24h ?? undefined,
+        priceChange7d: price.change7d ?? undefined,
+        volume24h: price.volume ?? undefined,
+        liquidity: token.liquidity ?? undefined,
+        marketCap: token.marketCap ?? undefined,
+        timestamp: price.timestamp,
+        source: 'price_data'
       } : undefined,
-      safetyScore: token.safetyScores[0] ? {
-        overallScore: token.safetyScores[0].overallScore,
-        riskLevel: token.safetyScores[0].riskLevel,
-        liquidityScore: token.safetyScores[0].liquidityScore || undefined,
-        holderScore: token.safetyScores[0].holderScore || undefined,
-        contractScore: token.safetyScores[0].contractScore || undefined,
-        teamScore: token.safetyScores[0].teamScore || undefined,
-        socialScore: token.safetyScores[0].socialScore || undefined,
-        isHoneypot: token.safetyScores[0].isHoneypot,
-        hasRenounced: token.safetyScores[0].hasRenounced,
-        hasLiquidity: token.safetyScores[0].hasLiquidity,
-        hasVerifiedContract: token.safetyScores[0].hasVerifiedContract,
-        holderCount: token.safetyScores[0].holderCount || undefined,
-        topHolderPercent: token.safetyScores[0].topHolderPercent || undefined,
-        contractAge: token.safetyScores[0].contractAge || undefined,
-        mintAuthority: token.safetyScores[0].mintAuthority || undefined,
-        freezeAuthority: token.safetyScores[0].freezeAuthority || undefined,
-        source: token.safetyScores[0].source
+      safetyScore: safety ? {
+        overallScore: safety.overallScore,
+        riskLevel: RISK_LEVELS[record.rug_risk as string] ?? 'MEDIUM',
+        liquidityScore: safety.liquidityScore,
+        holderScore: safety.ownershipScore,
+        isHoneypot: record.honeypot_detected === true,
+        hasRenounced: (safety.details as Record<string, unknown> | null)?.ownership_renounced === true,
+        hasLiquidity: (token.liquidity ?? 0) > 0,
+        hasVerifiedContract: record.contract_verified === true,
+        holderCount: typeof record.holders_count === 'number' ? record.holders_count : undefined,
+        topHolderPercent: typeof record.holder_concentration === 'number' ? record.holder_concentration : undefined,
+        source: 'safety_scores'
       } : undefined,
       activeSignals: token.tradingSignals.map(signal => ({
-        signalType: signal.signalType,
+        signalType: signal.type as ActiveSignal['signalType'],
         strength: signal.strength,
-        confidence: signal.confidence,
-        action: signal.action,
-        entryPrice: signal.entryPrice || undefined,
-        targetPrice: signal.targetPrice || undefined,
-        stopLoss: signal.stopLoss || undefined,
-        indicators: signal.indicators,
-        reasoning: signal.reasoning || undefined,
-        isActive: signal.isActive,
-        expiresAt: signal.expiresAt || undefined
+        confidence: signal.strength,
+        action: signal.type.includes('BUY') ? 'BUY' : signal.type.includes('SELL') ? 'SELL' : 'HOLD',
+        indicators: [],
+        reasoning: signal.reason ?? undefined,
+        isActive: true
       }))
-    }));
+    } as TokenResponse;
   }
-
-  private generateId(): string {
-    return `filter_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  }
-}
\ No newline at end of file
+}
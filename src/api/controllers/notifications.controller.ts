@@ -0,0 +1,183 @@
+// Notifications Controller - Per-user Alert Notification Channels
+import { Request, Response } from 'express';
+import { NotificationDelivery } from '@prisma/client';
+import { Logger } from '../../utils/logger';
+import {
+  NotificationService,
+  PublicNotificationChannel,
+  CreateChannelInput,
+  ChannelSettings
+} from '../../services/notifications';
+import { ApiResponse, API_ERROR_CODES } from '../types/api.types';
+import { getUserId } from '../middleware/auth.middleware';
+
+// Create logger instance
+const logger = Logger.getInstance();
+
+export class NotificationsController {
+  constructor(private notificationService: NotificationService) {}
+
+  // POST /api/v1/notifications/channels - Add a notification channel
+  public async createChannel(req: Request, res: Response): Promise<void> {
+    try {
+      const channel = await this.notificationService.createChannel(this.getUserId(req), req.body as CreateChannelInput);
+
+      const response: ApiResponse<PublicNotificationChannel> = {
+        success: true,
+        data: channel,
+        message: 'Notification channel created successfully',
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      };
+
+      res.status(201).json(response);
+
+    } catch (error) {
+      this.sendError(res, 'Failed to create notification channel', error);
+    }
+  }
+
+  // GET /api/v1/notifications/channels - List the caller's channels
+  public async listChannels(req: Request, res: Response): Promise<void> {
+    try {
+      const channels = await this.notificationService.listChannels(this.getUserId(req));
+
+      const response: ApiResponse<PublicNotificationChannel[]> = {
+        success: true,
+        data: channels,
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      };
+
+      res.json(response);
+
+    } catch (error) {
+      this.sendError(res, 'Failed to fetch notification channels', error);
+    }
+  }
+
+  // PATCH /api/v1/notifications/channels/:id - Change thresholds, template, rate limit or quiet hours
+  public async updateChannel(req: Request, res: Response): Promise<void> {
+    try {
+      const channel = await this.notificationService.updateChannel(this.getUserId(req), req.params.id, req.body as ChannelSettings);
+
+      if (!channel) {
+        this.sendNotFound(res, 'Notification channel not found');
+        return;
+      }
+
+      const response: ApiResponse<PublicNotificationChannel> = {
+        success: true,
+        data: channel,
+        message: 'Notification channel updated successfully',
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      };
+
+      res.json(response);
+
+    } catch (error) {
+      this.sendError(res, 'Failed to update notification channel', error);
+    }
+  }
+
+  // DELETE /api/v1/notifications/channels/:id - Remove a channel and its delivery history
+  public async deleteChannel(req: Request, res: Response): Promise<void> {
+    try {
+      const deleted = await this.notificationService.deleteChannel(this.getUserId(req), req.params.id);
+
+      if (!deleted) {
+        this.sendNotFound(res, 'Notification channel not found');
+        return;
+      }
+
+      const response: ApiResponse<null> = {
+        success: true,
+        message: 'Notification channel deleted successfully',
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      };
+
+      res.json(response);
+
+    } catch (error) {
+      this.sendError(res, 'Failed to delete notification channel', error);
+    }
+  }
+
+  // POST /api/v1/notifications/channels/:id/test - Send a sample notification now
+  public async testChannel(req: Request, res: Response): Promise<void> {
+    try {
+      const delivery = await this.notificationService.sendTest(this.getUserId(req), req.params.id);
+
+      if (!delivery) {
+        this.sendNotFound(res, 'Notification channel not found');
+        return;
+      }
+
+      const response: ApiResponse<NotificationDelivery> = {
+        success: true,
+        data: delivery,
+        message: delivery.status === 'sent' ? 'Test notification sent' : `Test notification failed: ${delivery.error}`,
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      };
+
+      res.json(response);
+
+    } catch (error) {
+      this.sendError(res, 'Failed to send test notification', error);
+    }
+  }
+
+  // GET /api/v1/notifications/channels/:id/deliveries - Recent sends, failures and suppressions
+  public async getDeliveries(req: Request, res: Response): Promise<void> {
+    try {
+      const { limit } = req.query as unknown as { limit: number };
+      const deliveries = await this.notificationService.listDeliveries(this.getUserId(req), req.params.id, limit);
+
+      if (!deliveries) {
+        this.sendNotFound(res, 'Notification channel not found');
+        return;
+      }
+
+      const response: ApiResponse<NotificationDelivery[]> = {
+        success: true,
+        data: deliveries,
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      };
+
+      res.json(response);
+
+    } catch (error) {
+      this.sendError(res, 'Failed to fetch notification deliveries', error);
+    }
+  }
+
+  // Every route of this controller is behind requireAuth, so the caller has a key
+  private getUserId(req: Request): string {
+    return getUserId(req) as string;
+  }
+
+  private sendNotFound(res: Response, message: string): void {
+    res.status(404).json({
+      success: false,
+      error: API_ERROR_CODES.NOT_FOUND,
+      message,
+      timestamp: new Date().toISOString(),
+      version: '1.0.0'
+    });
+  }
+
+  private sendError(res: Response, message: string, error: unknown): void {
+    logger.error(`${message}:`, { error: error instanceof Error ? error.message : String(error) });
+    res.status(500).json({
+      success: false,
+      error: API_ERROR_CODES.INTERNAL_ERROR,
+      message,
+      timestamp: new Date().toISOString(),
+      version: '1.0.0'
+    });
+  }
+}
@@ -0,0 +1,83 @@
+// Paper Trading Controller - Simulated positions and strategy performance
+import { Request, Response } from 'express';
+import { Logger } from '../../utils/logger';
+const logger = Logger.getInstance();
+import { ApiResponse, PaginatedResponse, API_ERROR_CODES } from '../types/api.types';
+import {
+  PaperTradingService,
+  PaperPortfolio,
+  PaperPosition,
+  PaperPositionsQuery,
+  StrategyPerformance
+} from '../../services/paper-trading.service';
+
+export class PaperTradingController {
+  constructor(private paperTrading: PaperTradingService) {}
+
+  // GET /api/v1/paper-trading/positions - Open and closed paper positions
+  public async listPositions(req: Request, res: Response): Promise<void> {
+    try {
+      const query = req.query as unknown as PaperPositionsQuery;
+      const { page, limit } = query;
+
+      const { positions, total } = await this.paperTrading.listPositions(query);
+      const skip = (page - 1) * limit;
+
+      const response: PaginatedResponse<PaperPosition> = {
+        success: true,
+        data: positions,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+          hasNext: skip + limit < total,
+          hasPrev: page > 1
+        },
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      };
+
+      res.json(response);
+
+    } catch (error) {
+      logger.error('Error listing paper positions:', { error: error instanceof Error ? error.message : String(error) });
+      res.status(500).json({
+        success: false,
+        error: API_ERROR_CODES.INTERNAL_ERROR,
+        message: 'Failed to fetch paper positions',
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      });
+    }
+  }
+
+  // GET /api/v1/paper-trading/performance - Portfolio PnL and per-strategy results
+  public async getPerformance(req: Request, res: Response): Promise<void> {
+    try {
+      const [portfolio, strategies] = await Promise.all([
+        this.paperTrading.getPortfolio(),
+        this.paperTrading.getStrategyPerformance()
+      ]);
+
+      const response: ApiResponse<{ portfolio: PaperPortfolio; strategies: StrategyPerformance[] }> = {
+        success: true,
+        data: { portfolio, strategies },
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      };
+
+      res.json(response);
+
+    } catch (error) {
+      logger.error('Error fetching paper trading performance:', { error: error instanceof Error ? error.message : String(error) });
+      res.status(500).json({
+        success: false,
+        error: API_ERROR_CODES.INTERNAL_ERROR,
+        message: 'Failed to fetch paper trading performance',
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      });
+    }
+  }
+}
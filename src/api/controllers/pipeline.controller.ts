@@ -0,0 +1,219 @@
+// Pipeline Controller - Analysis job queue and aggregation run history (admin)
+import { Request, Response } from 'express';
+import { PipelineRun } from '@prisma/client';
+import { Logger } from '../../utils/logger';
+import {
+  PipelineJobService,
+  PipelineJobsQuery,
+  PipelineQueueStats,
+  PublicPipelineJob,
+  toPublicJob
+} from '../../services/pipeline-job.service';
+import {
+  PipelineRunService,
+  PipelineRunsQuery,
+  PipelineRunWithTokens,
+  RunTokenOutcome
+} from '../../services/pipeline-run.service';
+import { getUserId } from '../middleware/auth.middleware';
+import { ApiResponse, PaginatedResponse, API_ERROR_CODES } from '../types/api.types';
+
+// Create logger instance
+const logger = Logger.getInstance();
+
+export class PipelineController {
+  constructor(
+    private pipelineJobs: PipelineJobService,
+    private pipelineRuns: PipelineRunService
+  ) {}
+
+  // GET /api/v1/pipeline/jobs - List jobs, newest activity first
+  public async listJobs(req: Request, res: Response): Promise<void> {
+    try {
+      const query = req.query as unknown as PipelineJobsQuery;
+      const { jobs, total } = await this.pipelineJobs.listJobs(query);
+
+      const response: PaginatedResponse<PublicPipelineJob> = {
+        success: true,
+        data: jobs.map(toPublicJob),
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          total,
+          totalPages: Math.ceil(total / query.limit),
+          hasNext: query.page * query.limit < total,
+          hasPrev: query.page > 1
+        },
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      };
+
+      res.json(response);
+
+    } catch (error) {
+      this.sendError(res, 'Failed to fetch pipeline jobs', error);
+    }
+  }
+
+  // GET /api/v1/pipeline/jobs/:id - One job, including its failure if dead-lettered
+  public async getJob(req: Request, res: Response): Promise<void> {
+    try {
+      const job = await this.pipelineJobs.getJob(req.params.id);
+
+      if (!job) {
+        this.sendNotFound(res, 'Pipeline job not found');
+        return;
+      }
+
+      const response: ApiResponse<PublicPipelineJob> = {
+        success: true,
+        data: toPublicJob(job),
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      };
+
+      res.json(response);
+
+    } catch (error) {
+      this.sendError(res, 'Failed to fetch pipeline job', error);
+    }
+  }
+
+  // POST /api/v1/pipeline/jobs/:id/retry - Requeue a dead-lettered job at the stage it failed
+  public async retryJob(req: Request, res: Response): Promise<void> {
+    try {
+      const job = await this.pipelineJobs.retryJob(req.params.id);
+
+      if (!job) {
+        this.sendNotFound(res, 'Dead-lettered pipeline job not found');
+        return;
+      }
+
+      const response: ApiResponse<PublicPipelineJob> = {
+        success: true,
+        data: toPublicJob(job),
+        message: job.id === req.params.id ? 'Pipeline job requeued' : 'Token already has a live pipeline job',
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      };
+
+      res.status(202).json(response);
+
+    } catch (error) {
+      this.sendError(res, 'Failed to retry pipeline job', error);
+    }
+  }
+
+  // GET /api/v1/pipeline/queue - Job counts per status
+  public async getQueueStats(req: Request, res: Response): Promise<void> {
+    try {
+      const stats = await this.pipelineJobs.getStats();
+
+      const response: ApiResponse<PipelineQueueStats> = {
+        success: true,
+        data: stats,
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      };
+
+      res.json(response);
+
+    } catch (error) {
+      this.sendError(res, 'Failed to fetch pipeline queue stats', error);
+    }
+  }
+
+  // GET /api/v1/pipeline/runs - Aggregation runs, newest first; ?token= narrows to runs that looked at a token
+  public async listRuns(req: Request, res: Response): Promise<void> {
+    try {
+      const query = req.query as unknown as PipelineRunsQuery;
+      const { runs, total } = await this.pipelineRuns.listRuns(query);
+
+      const response: PaginatedResponse<PipelineRun> = {
+        success: true,
+        data: runs,
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          total,
+          totalPages: Math.ceil(total / query.limit),
+          hasNext: query.page * query.limit < total,
+          hasPrev: query.page > 1
+        },
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      };
+
+      res.json(response);
+
+    } catch (error) {
+      this.sendError(res, 'Failed to fetch pipeline runs', error);
+    }
+  }
+
+  // GET /api/v1/pipeline/runs/:id - One run with the outcome of every token it looked at
+  public async getRun(req: Request, res: Response): Promise<void> {
+    try {
+      const { outcome } = req.query as { outcome?: RunTokenOutcome };
+      const run = await this.pipelineRuns.getRun(req.params.id, outcome);
+
+      if (!run) {
+        this.sendNotFound(res, 'Pipeline run not found');
+        return;
+      }
+
+      const response: ApiResponse<PipelineRunWithTokens> = {
+        success: true,
+        data: run,
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      };
+
+      res.json(response);
+
+    } catch (error) {
+      this.sendError(res, 'Failed to fetch pipeline run', error);
+    }
+  }
+
+  // POST /api/v1/pipeline/runs - Queue a manual aggregation run; the aggregator starts it within seconds
+  public async triggerRun(req: Request, res: Response): Promise<void> {
+    try {
+      const { run, created } = await this.pipelineRuns.requestRun(getUserId(req));
+
+      const response: ApiResponse<PipelineRun> = {
+        success: true,
+        data: run,
+        message: created ? 'Aggregation run queued' : 'An aggregation run is already queued',
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      };
+
+      res.status(202).json(response);
+
+    } catch (error) {
+      this.sendError(res, 'Failed to queue aggregation run', error);
+    }
+  }
+
+  private sendNotFound(res: Response, message: string): void {
+    res.status(404).json({
+      success: false,
+      error: API_ERROR_CODES.NOT_FOUND,
+      message,
+      timestamp: new Date().toISOString(),
+      version: '1.0.0'
+    });
+  }
+
+  private sendError(res: Response, message: string, error: unknown): void {
+    logger.error(`${message}:`, { error: error instanceof Error ? error.message : String(error) });
+    res.status(500).json({
+      success: false,
+      error: API_ERROR_CODES.INTERNAL_ERROR,
+      message,
+      timestamp: new Date().toISOString(),
+      version: '1.0.0'
+    });
+  }
+}
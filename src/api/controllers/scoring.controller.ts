@@ -0,0 +1,92 @@
+// Scoring Controller - Active scoring profile and candidate profile comparisons
+import { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { Logger } from '../../utils/logger';
+const logger = Logger.getInstance();
+import { ApiResponse, rescoreRequestSchema, API_ERROR_CODES } from '../types/api.types';
+import {
+  RescoreComparison,
+  RescoringService,
+  ScoringProfile,
+  scoringProfileService
+} from '../../services/scoring';
+
+type RescoreRequest = z.infer<typeof rescoreRequestSchema>;
+
+export class ScoringController {
+  private readonly rescoringService: RescoringService;
+
+  constructor(private prisma: PrismaClient) {
+    this.rescoringService = new RescoringService(prisma);
+  }
+
+  // GET /api/v1/scoring/profile - Profile new analyses are scored with
+  public async getActiveProfile(req: Request, res: Response): Promise<void> {
+    try {
+      const profile = await scoringProfileService.refresh(this.prisma);
+
+      const response: ApiResponse<ScoringProfile> = {
+        success: true,
+        data: profile,
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      };
+
+      res.json(response);
+
+    } catch (error) {
+      logger.error('Error fetching scoring profile:', { error: error instanceof Error ? error.message : String(error) });
+      res.status(500).json({
+        success: false,
+        error: API_ERROR_CODES.INTERNAL_ERROR,
+        message: 'Failed to fetch scoring profile',
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      });
+    }
+  }
+
+  // POST /api/v1/scoring/rescore - Compare stored analyses under the active and a candidate profile
+  public async rescore(req: Request, res: Response): Promise<void> {
+    try {
+      const body = req.body as RescoreRequest;
+
+      if (body.startDate && body.endDate && body.startDate >= body.endDate) {
+        res.status(400).json({
+          success: false,
+          error: API_ERROR_CODES.VALIDATION_ERROR,
+          message: 'Rescore period must end after it starts',
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        });
+        return;
+      }
+
+      const comparison = await this.rescoringService.rescore(body.profile, {
+        startDate: body.startDate,
+        endDate: body.endDate,
+        limit: body.limit
+      });
+
+      const response: ApiResponse<RescoreComparison> = {
+        success: true,
+        data: comparison,
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      };
+
+      res.json(response);
+
+    } catch (error) {
+      logger.error('Error re-scoring analyses:', { error: error instanceof Error ? error.message : String(error) });
+      res.status(500).json({
+        success: false,
+        error: API_ERROR_CODES.INTERNAL_ERROR,
+        message: 'Failed to re-score analyses',
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      });
+    }
+  }
+}
@@ -0,0 +1,162 @@
+// Subscriptions Controller - Per-user Alert Subscriptions with Tier Quotas
+import { Request, Response } from 'express';
+import { AlertSubscription } from '@prisma/client';
+import { Logger } from '../../utils/logger';
+import {
+  AlertSubscriptionService,
+  CreateSubscriptionInput,
+  SubscriptionResult,
+  SubscriptionSummary,
+  UpdateSubscriptionInput
+} from '../../services/alerts';
+import { getUserId, getUserTier } from '../middleware/auth.middleware';
+import { ApiResponse, API_ERROR_CODES } from '../types/api.types';
+
+// Create logger instance
+const logger = Logger.getInstance();
+
+export class SubscriptionsController {
+  constructor(private subscriptionService: AlertSubscriptionService) {}
+
+  // GET /api/v1/alerts/subscriptions - Subscriptions, counts by type and the tier quota
+  public async getSubscriptions(req: Request, res: Response): Promise<void> {
+    try {
+      const summary = await this.subscriptionService.getSummary(this.getUserId(req), getUserTier(req));
+
+      const response: ApiResponse<SubscriptionSummary> = {
+        success: true,
+        data: summary,
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      };
+
+      res.json(response);
+
+    } catch (error) {
+      this.sendError(res, 'Failed to fetch alert subscriptions', error);
+    }
+  }
+
+  // POST /api/v1/alerts/subscriptions - Follow a token, filter, creator or signal type
+  public async createSubscription(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await this.subscriptionService.createSubscription(
+        this.getUserId(req),
+        getUserTier(req),
+        req.body as CreateSubscriptionInput
+      );
+
+      this.sendResult(res, result, 201, 'Subscription created successfully');
+
+    } catch (error) {
+      this.sendError(res, 'Failed to create alert subscription', error);
+    }
+  }
+
+  // PATCH /api/v1/alerts/subscriptions/:id - Pause, resume or change a subscription
+  public async updateSubscription(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await this.subscriptionService.updateSubscription(
+        this.getUserId(req),
+        getUserTier(req),
+        req.params.id,
+        req.body as UpdateSubscriptionInput
+      );
+
+      this.sendResult(res, result, 200, 'Subscription updated successfully');
+
+    } catch (error) {
+      this.sendError(res, 'Failed to update alert subscription', error);
+    }
+  }
+
+  // DELETE /api/v1/alerts/subscriptions/:id - Unsubscribe
+  public async deleteSubscription(req: Request, res: Response): Promise<void> {
+    try {
+      const deleted = await this.subscriptionService.deleteSubscription(this.getUserId(req), req.params.id);
+
+      if (!deleted) {
+        res.status(404).json({
+          success: false,
+          error: API_ERROR_CODES.NOT_FOUND,
+          message: 'Subscription not found',
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        });
+        return;
+      }
+
+      const response: ApiResponse<{ id: string }> = {
+        success: true,
+        data: { id: req.params.id },
+        message: 'Subscription deleted successfully',
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      };
+
+      res.json(response);
+
+    } catch (error) {
+      this.sendError(res, 'Failed to delete alert subscription', error);
+    }
+  }
+
+  // Every route of this controller is behind requireAuth, so the caller has a key
+  private getUserId(req: Request): string {
+    return getUserId(req) as string;
+  }
+
+  private sendResult(res: Response, result: SubscriptionResult, successStatus: number, message: string): void {
+    switch (result.status) {
+      case 'ok': {
+        const response: ApiResponse<AlertSubscription> = {
+          success: true,
+          data: result.subscription,
+          message,
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        };
+        res.status(successStatus).json(response);
+        return;
+      }
+      case 'not_found':
+        res.status(404).json({
+          success: false,
+          error: API_ERROR_CODES.NOT_FOUND,
+          message: 'Subscription or its target not found',
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        });
+        return;
+      case 'duplicate':
+        res.status(409).json({
+          success: false,
+          error: API_ERROR_CODES.VALIDATION_ERROR,
+          message: 'Already subscribed to this target',
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        });
+        return;
+      case 'quota_exceeded':
+        res.status(403).json({
+          success: false,
+          error: API_ERROR_CODES.FORBIDDEN,
+          message: `Your tier allows ${result.limit} active subscriptions`,
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        });
+        return;
+    }
+  }
+
+  private sendError(res: Response, message: string, error: unknown): void {
+    logger.error(`${message}:`, { error: error instanceof Error ? error.message : String(error) });
+    res.status(500).json({
+      success: false,
+      error: API_ERROR_CODES.INTERNAL_ERROR,
+      message,
+      timestamp: new Date().toISOString(),
+      version: '1.0.0'
+    });
+  }
+}
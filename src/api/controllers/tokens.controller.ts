@@ -3,8 +3,12 @@ import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { z } from 'zod';
 import { Logger } from '../../utils/logger';
+import { canonicalizeAddress } from '../../utils/address';
 const logger = Logger.getInstance();
 import { WebSocketManager } from '../websocket/websocket-manager';
+import { TokenMarketService } from '../../services/token-market.service';
+import { PipelineJobService, PublicPipelineJob, toPublicJob } from '../../services/pipeline-job.service';
+import { getUserId } from '../middleware/auth.middleware';
 import {
   ApiResponse,
   PaginatedResponse,
@@ -17,7 +21,9 @@ import {
 export class TokensController {
   constructor(
     private prisma: PrismaClient,
-    private wsManager: WebSocketManager
+    private wsManager: WebSocketManager,
+    private tokenMarketService: TokenMarketService,
+    private pipelineJobs: PipelineJobService
   ) {}
 
   // GET /api/v1/tokens - List tokens with pagination and filters
@@ -342,6 +348,148 @@ export class TokensController {
     }
   }
 
+  // POST /api/v1/tokens/analyze - Queue a token for analysis ahead of scheduled work
+  public async analyzeToken(req: Request, res: Response): Promise<void> {
+    try {
+      const { address } = req.body as { address: string };
+      const [job] = await this.pipelineJobs.enqueue([address], { lane: 'manual', requestedBy: getUserId(req) });
+
+      if (!job) {
+        res.status(400).json({
+          success: false,
+          error: API_ERROR_CODES.INVALID_TOKEN,
+          message: 'Only Solana mints can be analyzed',
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        });
+        return;
+      }
+
+      const response: ApiResponse<PublicPipelineJob> = {
+        success: true,
+        data: toPublicJob(job),
+        message: job.status === 'pending' ? 'Token analysis queued' : 'Token analysis already in progress',
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      };
+
+      res.status(202).json(response);
+
+    } catch (error) {
+      logger.error('Error queueing token analysis:', { error: error instanceof Error ? error.message : String(error) });
+      res.status(500).json({
+        success: false,
+        error: API_ERROR_CODES.INTERNAL_ERROR,
+        message: 'Failed to queue token analysis',
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      });
+    }
+  }
+
+  // GET /api/v1/tokens/analyze/:jobId - Progress and result of a queued analysis
+  public async getAnalysisJob(req: Request, res: Response): Promise<void> {
+    try {
+      const job = await this.pipelineJobs.getJob(req.params.jobId);
+
+      if (!job) {
+        res.status(404).json({
+          success: false,
+          error: API_ERROR_CODES.NOT_FOUND,
+          message: 'Analysis job not found',
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        });
+        return;
+      }
+
+      const response: ApiResponse<PublicPipelineJob> = {
+        success: true,
+        data: toPublicJob(job),
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      };
+
+      res.json(response);
+
+    } catch (error) {
+      logger.error('Error fetching analysis job:', { error: error instanceof Error ? error.message : String(error) });
+      res.status(500).json({
+        success: false,
+        error: API_ERROR_CODES.INTERNAL_ERROR,
+        message: 'Failed to fetch analysis job',
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      });
+    }
+  }
+
+  // GET /api/v1/tokens/:address/pools - Pools the token trades in, merged per DEX
+  public async getTokenPools(req: Request, res: Response): Promise<void> {
+    try {
+      const { address } = req.params;
+
+      const token = await this.prisma.token.findUnique({
+        where: { address },
+        select: { id: true, address: true, symbol: true }
+      });
+
+      if (!token) {
+        res.status(404).json({
+          success: false,
+          error: API_ERROR_CODES.NOT_FOUND,
+          message: 'Token not found',
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        });
+        return;
+      }
+
+      const pools = await this.tokenMarketService.getPools(token.id);
+      const active = pools.filter(pool => pool.removedAt === null);
+
+      const liquidityByDex: Record<string, number> = {};
+      for (const pool of active) {
+        liquidityByDex[pool.dexId] = (liquidityByDex[pool.dexId] ?? 0) + pool.liquidity;
+      }
+
+      res.json({
+        success: true,
+        data: {
+          address: token.address,
+          symbol: token.symbol,
+          totalLiquidity: active.reduce((total, pool) => total + pool.liquidity, 0),
+          liquidityByDex,
+          dominantPair: active[0]?.pairAddress ?? null,
+          pools: pools.map(pool => ({
+            pairAddress: pool.pairAddress,
+            dexId: pool.dexId,
+            quoteSymbol: pool.quoteSymbol,
+            price: pool.price,
+            liquidity: pool.liquidity,
+            volume24h: pool.volume24h,
+            pairCreatedAt: pool.pairCreatedAt,
+            firstSeenAt: pool.firstSeenAt,
+            lastSeenAt: pool.lastSeenAt,
+            removedAt: pool.removedAt
+          }))
+        },
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      });
+
+    } catch (error) {
+      logger.error('Error fetching token pools', { error: error instanceof Error ? error.message : String(error) });
+      res.status(500).json({
+        success: false,
+        error: API_ERROR_CODES.INTERNAL_ERROR,
+        message: 'Failed to fetch token pools',
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      });
+    }
+  }
+
   // POST /api/v1/tokens - Create/update token (for data pipeline)
   public async createOrUpdateToken(req: Request, res: Response): Promise<void> {
     try {
@@ -359,13 +507,26 @@ export class TokensController {
         return;
       }
 
+      const chain = tokenData.chain || 'solana';
+      const address = canonicalizeAddress(String(tokenData.address), chain);
+      if (!address) {
+        res.status(400).json({
+          success: false,
+          error: API_ERROR_CODES.VALIDATION_ERROR,
+          message: `Invalid ${chain} address`,
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        });
+        return;
+      }
+
       const token = await this.prisma.token.upsert({
-        where: { address: tokenData.address },
+        where: { address },
         update: {
           symbol: tokenData.symbol,
           name: tokenData.name,
           decimals: tokenData.decimals || 9,
-          chain: tokenData.chain || 'solana',
+          chain,
           description: tokenData.description,
           logoUrl: tokenData.logoUrl,
           website: tokenData.website,
@@ -378,11 +539,11 @@ export class TokensController {
           updatedAt: new Date()
         },
         create: {
-          address: tokenData.address,
+          address,
           symbol: tokenData.symbol,
           name: tokenData.name,
           decimals: tokenData.decimals || 9,
-          chain: tokenData.chain || 'solana',
+          chain,
           description: tokenData.description,
           logoUrl: tokenData.logoUrl,
           website: tokenData.website,
@@ -0,0 +1,207 @@
+// Webhooks Controller - Alert Webhook Registration and Delivery History
+import { Request, Response } from 'express';
+import { Logger } from '../../utils/logger';
+import {
+  WebhookService,
+  CreateWebhookInput,
+  DeliveryHistoryQuery,
+  PublicWebhook
+} from '../../services/webhook.service';
+import { ApiResponse, PaginatedResponse, API_ERROR_CODES } from '../types/api.types';
+import { WebhookDelivery } from '@prisma/client';
+import { getUserId } from '../middleware/auth.middleware';
+
+// Create logger instance
+const logger = Logger.getInstance();
+
+export class WebhooksController {
+  constructor(private webhookService: WebhookService) {}
+
+  // POST /api/v1/alerts/webhook - Register a webhook for alert events
+  public async createWebhook(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = this.getUserId(req);
+      const webhook = await this.webhookService.createWebhook(userId, req.body as CreateWebhookInput);
+
+      const response: ApiResponse<PublicWebhook> = {
+        success: true,
+        data: webhook,
+        message: 'Webhook configured successfully',
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      };
+
+      res.status(201).json(response);
+
+    } catch (error) {
+      logger.error('Error creating webhook:', { error: error instanceof Error ? error.message : String(error) });
+      res.status(500).json({
+        success: false,
+        error: API_ERROR_CODES.INTERNAL_ERROR,
+        message: 'Failed to configure webhook',
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      });
+    }
+  }
+
+  // GET /api/v1/alerts/webhooks - List the caller's webhooks
+  public async listWebhooks(req: Request, res: Response): Promise<void> {
+    try {
+      const webhooks = await this.webhookService.listWebhooks(this.getUserId(req));
+
+      const response: ApiResponse<PublicWebhook[]> = {
+        success: true,
+        data: webhooks,
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      };
+
+      res.json(response);
+
+    } catch (error) {
+      logger.error('Error listing webhooks:', { error: error instanceof Error ? error.message : String(error) });
+      res.status(500).json({
+        success: false,
+        error: API_ERROR_CODES.INTERNAL_ERROR,
+        message: 'Failed to fetch webhooks',
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      });
+    }
+  }
+
+  // DELETE /api/v1/alerts/webhooks/:id - Remove a webhook and its delivery history
+  public async deleteWebhook(req: Request, res: Response): Promise<void> {
+    try {
+      const deleted = await this.webhookService.deleteWebhook(this.getUserId(req), req.params.id);
+
+      if (!deleted) {
+        this.sendNotFound(res, 'Webhook not found');
+        return;
+      }
+
+      const response: ApiResponse<null> = {
+        success: true,
+        message: 'Webhook deleted successfully',
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      };
+
+      res.json(response);
+
+    } catch (error) {
+      logger.error('Error deleting webhook:', { error: error instanceof Error ? error.message : String(error) });
+      res.status(500).json({
+        success: false,
+        error: API_ERROR_CODES.INTERNAL_ERROR,
+        message: 'Failed to delete webhook',
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      });
+    }
+  }
+
+  // GET /api/v1/alerts/webhooks/:id/deliveries - Delivery history for reconciliation
+  public async getDeliveries(req: Request, res: Response): Promise<void> {
+    try {
+      const query = req.query as unknown as DeliveryHistoryQuery;
+      const result = await this.webhookService.getDeliveries(this.getUserId(req), req.params.id, query);
+
+      if (!result) {
+        this.sendNotFound(res, 'Webhook not found');
+        return;
+      }
+
+      const response: PaginatedResponse<WebhookDelivery> = {
+        success: true,
+        data: result.deliveries,
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          total: result.total,
+          totalPages: Math.ceil(result.total / query.limit),
+          hasNext: query.page * query.limit < result.total,
+          hasPrev: query.page > 1
+        },
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      };
+
+      res.json(response);
+
+    } catch (error) {
+      logger.error('Error fetching webhook deliveries:', { error: error instanceof Error ? error.message : String(error) });
+      res.status(500).json({
+        success: false,
+        error: API_ERROR_CODES.INTERNAL_ERROR,
+        message: 'Failed to fetch webhook deliveries',
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      });
+    }
+  }
+
+  // POST /api/v1/alerts/webhooks/:id/deliveries/:deliveryId/redeliver - Retry a delivery now
+  public async redeliver(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await this.webhookService.redeliver(
+        this.getUserId(req),
+        req.params.id,
+        req.params.deliveryId
+      );
+
+      if (result.status === 'not_found') {
+        this.sendNotFound(res, 'Webhook delivery not found');
+        return;
+      }
+
+      if (result.status === 'not_redeliverable') {
+        res.status(409).json({
+          success: false,
+          error: API_ERROR_CODES.VALIDATION_ERROR,
+          message: `Only failed or dead-lettered deliveries can be redelivered; this one is ${result.deliveryStatus}`,
+          timestamp: new Date().toISOString(),
+          version: '1.0.0'
+        });
+        return;
+      }
+
+      const { delivery } = result;
+      const response: ApiResponse<WebhookDelivery> = {
+        success: true,
+        data: delivery,
+        message: delivery.status === 'delivered' ? 'Delivery succeeded' : 'Delivery re-queued',
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      };
+
+      res.json(response);
+
+    } catch (error) {
+      logger.error('Error redelivering webhook:', { error: error instanceof Error ? error.message : String(error) });
+      res.status(500).json({
+        success: false,
+        error: API_ERROR_CODES.INTERNAL_ERROR,
+        message: 'Failed to redeliver webhook',
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      });
+    }
+  }
+
+  // Every route of this controller is behind requireAuth, so the caller has a key
+  private getUserId(req: Request): string {
+    return getUserId(req) as string;
+  }
+
+  private sendNotFound(res: Response, message: string): void {
+    res.status(404).json({
+      success: false,
+      error: API_ERROR_CODES.NOT_FOUND,
+      message,
+      timestamp: new Date().toISOString(),
+      version: '1.0.0'
+    });
+  }
+}
@@ -3,126 +3,145 @@ import { Request, Response, NextFunction } from 'express';
 import { Logger } from '../../utils/logger';
 const logger = Logger.getInstance();
 import { API_ERROR_CODES } from '../types/api.types';
+import { ApiKeyCheck, ApiKeyScope, ApiKeyService, ApiKeyTier } from '../../services/api-key.service';
+import { RateLimitService } from '../../services/rate-limit';
+
+export type UserTier = ApiKeyTier;
 
 interface AuthenticatedRequest extends Request {
   user?: {
     id: string;
-    apiKey: string;
-    tier: 'free' | 'premium' | 'enterprise';
-    rateLimits: {
-      requestsPerMinute: number;
-      requestsPerHour: number;
-    };
+    apiKeyId: string;
+    tier: UserTier;
+    scopes: ApiKeyScope[];
   };
 }
 
-// Mock API keys for development (in production, store in database)
-const API_KEYS = new Map([
-  ['dev_key_123', {
-    id: 'user_1',
-    name: 'Development User',
-    tier: 'premium' as const,
-    rateLimits: {
-      requestsPerMinute: 100,
-      requestsPerHour: 1000
-    },
-    isActive: true
-  }],
-  ['test_key_456', {
-    id: 'user_2',
-    name: 'Test User',
-    tier: 'free' as const,
-    rateLimits: {
-      requestsPerMinute: 30,
-      requestsPerHour: 300
-    },
-    isActive: true
-  }]
-]);
-
-export interface ApiKeyData {
-  id: string;
-  name: string;
-  tier: 'free' | 'premium' | 'enterprise';
-  rateLimits: {
-    requestsPerMinute: number;
-    requestsPerHour: number;
-  };
-  isActive: boolean;
-}
+const INVALID_KEY_MESSAGES: Record<Exclude<ApiKeyCheck['status'], 'valid'>, string> = {
+  invalid: 'Invalid API key',
+  revoked: 'API key has been revoked',
+  expired: 'API key has expired'
+};
 
-export const authMiddleware = (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
-  // Skip auth for health checks and public endpoints
-  if (isPublicEndpoint(req.path)) {
-    return next();
-  }
+/**
+ * Resolve the caller from an API key, when one is sent, and meter the request
+ * against the key once the response is finished. Rejected keys are charged to
+ * the client IP, which gets 429s without a key lookup once it has failed too
+ * often.
+ */
+export function createAuthMiddleware(apiKeyService: ApiKeyService, rateLimitService?: RateLimitService) {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+    // The caller's id only ever comes from a verified key, never from the client
+    delete req.headers['x-user-id'];
+
+    // Skip auth for health checks and public endpoints
+    if (isPublicEndpoint(req.path)) {
+      return next();
+    }
 
-  const apiKey = extractApiKey(req);
+    const apiKey = extractApiKey(req);
 
-  if (!apiKey) {
-    // API key is optional for most endpoints, but some features require authentication
-    logger.info('Request without API key', {
-      path: req.path,
-      method: req.method,
-      ip: req.ip
-    });
-    return next();
-  }
+    if (!apiKey) {
+      // API key is optional for most endpoints, but some features require authentication
+      logger.info('Request without API key', {
+        path: req.path,
+        method: req.method,
+        ip: req.ip
+      });
+      return next();
+    }
 
-  const keyData = API_KEYS.get(apiKey);
+    const ip = req.ip || req.socket?.remoteAddress || 'unknown';
 
-  if (!keyData) {
-    logger.warn('Invalid API key used', {
-      apiKey: apiKey.substring(0, 8) + '...',
-      path: req.path,
-      ip: req.ip
-    });
+    if (rateLimitService && !(await allowsAuthAttempt(rateLimitService, ip))) {
+      res.status(429).json({
+        success: false,
+        error: API_ERROR_CODES.RATE_LIMIT_EXCEEDED,
+        message: 'Too many failed API key attempts. Please try again later.',
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      });
+      return;
+    }
 
-    return res.status(401).json({
-      success: false,
-      error: API_ERROR_CODES.INVALID_TOKEN,
-      message: 'Invalid API key',
-      timestamp: new Date().toISOString(),
-      version: '1.0.0'
-    });
-  }
+    let check: ApiKeyCheck;
+    try {
+      check = await apiKeyService.authenticate(apiKey);
+    } catch (error) {
+      logger.error('API key lookup failed', { error: error instanceof Error ? error.message : String(error) });
+      res.status(503).json({
+        success: false,
+        error: API_ERROR_CODES.SERVICE_UNAVAILABLE,
+        message: 'Unable to verify API key',
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      });
+      return;
+    }
 
-  if (!keyData.isActive) {
-    logger.warn('Inactive API key used', {
-      userId: keyData.id,
-      path: req.path,
-      ip: req.ip
-    });
+    if (check.status !== 'valid') {
+      logger.warn('Rejected API key', {
+        apiKey: apiKey.substring(0, 8) + '...',
+        reason: check.status,
+        path: req.path,
+        ip: req.ip
+      });
 
-    return res.status(401).json({
-      success: false,
-      error: API_ERROR_CODES.UNAUTHORIZED,
-      message: 'API key is inactive',
-      timestamp: new Date().toISOString(),
-      version: '1.0.0'
-    });
-  }
+      await rateLimitService?.recordAuthFailure(ip).catch(() => undefined);
 
-  // Attach user info to request
-  req.user = {
-    id: keyData.id,
-    apiKey,
-    tier: keyData.tier,
-    rateLimits: keyData.rateLimits
-  };
+      res.status(401).json({
+        success: false,
+        error: check.status === 'invalid' ? API_ERROR_CODES.INVALID_TOKEN : API_ERROR_CODES.UNAUTHORIZED,
+        message: INVALID_KEY_MESSAGES[check.status],
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      });
+      return;
+    }
+
+    const { key } = check;
 
-  // Set user ID header for other middleware
-  req.headers['x-user-id'] = keyData.id;
+    // Attach user info to request
+    req.user = {
+      id: key.userId,
+      apiKeyId: key.id,
+      tier: key.tier,
+      scopes: key.scopes
+    };
 
-  logger.info('Authenticated request', {
-    userId: keyData.id,
-    tier: keyData.tier,
-    path: req.path,
-    method: req.method
-  });
+    // Set user ID header for the request logger and error handler
+    req.headers['x-user-id'] = key.userId;
 
-  next();
-};
+    res.on('finish', () => apiKeyService.recordUsage(key.id, res.statusCode));
+
+    logger.info('Authenticated request', {
+      userId: key.userId,
+      apiKeyId: key.id,
+      tier: key.tier,
+      path: req.path,
+      method: req.method
+    });
+
+    next();
+  };
+}
+
+// Like the rate limit middleware, let requests through while the counter store is down
+async function allowsAuthAttempt(rateLimitService: RateLimitService, ip: string): Promise<boolean> {
+  try {
+    const decision = await rateLimitService.checkAuthFailures(ip);
+    if (!decision.allowed) {
+      logger.warn('Rejected API key attempt from throttled IP', { ip });
+    }
+    return decision.allowed;
+  } catch (error) {
+    logger.warn('Rate limit store unavailable, allowing API key attempt', {
+      store: rateLimitService.storeName,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return true;
+  }
+}
 
 export const requireAuth = (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
   if (!req.user) {
@@ -169,6 +188,45 @@ export const requireTier = (minTier: 'free' | 'premium' | 'enterprise') => {
   };
 };
 
+// Keys with the admin scope pass every scope check
+export const requireScope = (scope: ApiKeyScope) => {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: API_ERROR_CODES.UNAUTHORIZED,
+        message: 'Authentication required',
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      });
+      return;
+    }
+
+    if (!req.user.scopes.includes(scope) && !req.user.scopes.includes('admin')) {
+      res.status(403).json({
+        success: false,
+        error: API_ERROR_CODES.FORBIDDEN,
+        message: `This endpoint requires the ${scope} scope`,
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      });
+      return;
+    }
+
+    next();
+  };
+};
+
+// Tier of the authenticated caller; anonymous requests count as free
+export function getUserTier(req: Request): UserTier {
+  return (req as AuthenticatedRequest).user?.tier ?? 'free';
+}
+
+// Owner of the API key the request was made with, if any
+export function getUserId(req: Request): string | undefined {
+  return (req as AuthenticatedRequest).user?.id;
+}
+
 function extractApiKey(req: Request): string | undefined {
   // Check X-API-Key header
   const headerKey = req.headers['x-api-key'];
@@ -199,47 +257,6 @@ function isPublicEndpoint(path: string): boolean {
     '/api/v1/docs'
   ];
 
-  return publicPaths.includes(path) || path.startsWith('/api/v1/tokens'); // Tokens endpoints are public with optional auth
+  // Other endpoints, tokens included, accept anonymous requests unless their route requires auth
+  return publicPaths.includes(path);
 }
-
-// Utility function to add new API key (for development)
-export function addApiKey(apiKey: string, data: ApiKeyData): void {
-  API_KEYS.set(apiKey, data);
-  logger.info('API key added', {
-    apiKey: apiKey.substring(0, 8) + '...',
-    userId: data.id,
-    tier: data.tier
-  });
-}
-
-// Utility function to revoke API key
-export function revokeApiKey(apiKey: string): boolean {
-  const keyData = API_KEYS.get(apiKey);
-  if (keyData) {
-    keyData.isActive = false;
-    logger.info('API key revoked', {
-      apiKey: apiKey.substring(0, 8) + '...',
-      userId: keyData.id
-    });
-    return true;
-  }
-  return false;
-}
-
-// Utility function to get API key stats
-export function getApiKeyStats(): { total: number; active: number; byTier: Record<string, number> } {
-  const stats = {
-    total: API_KEYS.size,
-    active: 0,
-    byTier: { free: 0, premium: 0, enterprise: 0 }
-  };
-
-  API_KEYS.forEach(keyData => {
-    if (keyData.isActive) {
-      stats.active++;
-    }
-    stats.byTier[keyData.tier]++;
-  });
-
-  return stats;
-}
\ No newline at end of file
@@ -0,0 +1,72 @@
+// Rate Limit Middleware - Tier-aware limits per API key and route group
+import { Request, Response, NextFunction } from 'express';
+import { Logger } from '../../utils/logger';
+import { API_ERROR_CODES } from '../types/api.types';
+import { RateLimitDecision, RateLimitService } from '../../services/rate-limit';
+
+const logger = Logger.getInstance();
+
+interface RateLimitedRequest extends Request {
+  user?: {
+    apiKeyId: string;
+    tier: 'free' | 'premium' | 'enterprise';
+  };
+}
+
+/**
+ * Charge each request to its API key (or IP for anonymous callers) and
+ * reject it with 429 once the bucket for its route group is used up.
+ * Must run after the auth middleware so the key's tier is known.
+ */
+export function createRateLimitMiddleware(rateLimitService: RateLimitService) {
+  return async (req: RateLimitedRequest, res: Response, next: NextFunction): Promise<void> => {
+    let decision: RateLimitDecision | null;
+    try {
+      decision = await rateLimitService.consume({
+        identity: req.user ? `key:${req.user.apiKeyId}` : `ip:${req.ip || req.socket.remoteAddress || 'unknown'}`,
+        tier: req.user?.tier ?? 'anonymous',
+        method: req.method,
+        path: req.path
+      });
+    } catch (error) {
+      // Never take the API down with the counter store
+      logger.warn('Rate limit store unavailable, allowing request', {
+        store: rateLimitService.storeName,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return next();
+    }
+
+    if (!decision) {
+      return next();
+    }
+
+    setRateLimitHeaders(res, decision);
+
+    if (!decision.allowed) {
+      res.setHeader('Retry-After', secondsUntil(decision.resetAt));
+      res.status(429).json({
+        success: false,
+        error: API_ERROR_CODES.RATE_LIMIT_EXCEEDED,
+        message: `Rate limit exceeded for ${decision.group} endpoints. Please try again later.`,
+        timestamp: new Date().toISOString(),
+        version: '1.0.0'
+      });
+      return;
+    }
+
+    next();
+  };
+}
+
+// IETF RateLimit header fields (draft-ietf-httpapi-ratelimit-headers)
+function setRateLimitHeaders(res: Response, decision: RateLimitDecision): void {
+  res.setHeader('RateLimit-Policy', `${decision.limit};w=${Math.round(decision.windowMs / 1000)}`);
+  res.setHeader('RateLimit-Limit', decision.limit);
+  res.setHeader('RateLimit-Remaining', decision.remaining);
+  res.setHeader('RateLimit-Reset', secondsUntil(decision.resetAt));
+}
+
+function secondsUntil(date: Date): number {
+  return Math.max(0, Math.ceil((date.getTime() - Date.now()) / 1000));
+}
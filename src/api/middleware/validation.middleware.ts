@@ -4,6 +4,7 @@ import { z, ZodSchema, ZodError } from 'zod';
 import { Logger } from '../../utils/logger';
 const logger = Logger.getInstance();
 import { API_ERROR_CODES } from '../types/api.types';
+import { tokenAddressSchema } from '../../utils/address';
 
 type ValidationTarget = 'body' | 'query' | 'params' | 'headers';
 
@@ -98,8 +99,7 @@ export const commonSchemas = {
   }),
 
   tokenAddress: z.object({
-    address: z.string().min(1, 'Token address is required')
-      .regex(/^[A-Za-z0-9]+$/, 'Invalid token address format')
+    address: tokenAddressSchema
   }),
 
   apiKey: z.object({
@@ -1,15 +1,20 @@
 // Alert Routes - REST endpoints for alert system management
 import { Router, Request, Response } from 'express';
 import { AlertsController } from '../controllers/alerts.controller';
-import { validate, validatePagination } from '../middleware/validation.middleware';
+import { WebhooksController } from '../controllers/webhooks.controller';
+import { SubscriptionsController } from '../controllers/subscriptions.controller';
+import { validate, commonSchemas } from '../middleware/validation.middleware';
 import { requireAuth, requireTier } from '../middleware/auth.middleware';
 import { asyncHandler } from '../middleware/error.middleware';
-import { createAlertSchema, alertsQuerySchema } from '../types/api.types';
+import { createAlertSchema, testAlertSchema, alertsQuerySchema } from '../types/api.types';
+import { WEBHOOK_EVENTS } from '../../services/webhook.service';
+import { createSubscriptionSchema, updateSubscriptionSchema } from '../../services/alerts';
 import { z } from 'zod';
 
 // Mock request interface for bulk operations
 interface MockAlertRequest extends Request {
   params: { id: string };
+  user?: unknown; // the authenticated caller, so bulk actions only reach their alerts
 }
 
 // Mock response interface (simplified)
@@ -22,12 +27,51 @@ const alertIdSchema = z.object({
   id: z.string().min(1, 'Alert ID is required')
 });
 
+const alertRulesQuerySchema = z.object({
+  isActive: z.enum(['true', 'false']).optional()
+});
+
+const alertHistoryQuerySchema = commonSchemas.pagination.extend({
+  startDate: z.string().datetime().optional(),
+  endDate: z.string().datetime().optional(),
+  type: z.enum(['PRICE_ALERT', 'VOLUME_ALERT', 'SAFETY_ALERT', 'SIGNAL_ALERT', 'NEWS_ALERT']).optional(),
+  tokenAddress: z.string().optional()
+});
+
 const bulkActionSchema = z.object({
   action: z.enum(['acknowledge', 'dismiss']),
   alertIds: z.array(z.string()).min(1, 'At least one alert ID is required').max(100, 'Maximum 100 alerts at once')
 });
 
-export function createAlertRoutes(alertsController: AlertsController): Router {
+const webhookSchema = z.object({
+  url: z.string().url('Invalid webhook URL'),
+  secret: z.string().min(10, 'Webhook secret must be at least 10 characters'),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1)
+});
+
+const subscriptionIdSchema = z.object({
+  id: z.string().min(1, 'Subscription ID is required')
+});
+
+const webhookIdSchema = z.object({
+  id: z.string().min(1, 'Webhook ID is required')
+});
+
+const webhookDeliveryParamsSchema = webhookIdSchema.extend({
+  deliveryId: z.string().min(1, 'Delivery ID is required')
+});
+
+const webhookDeliveriesQuerySchema = commonSchemas.pagination.extend({
+  status: z.enum(['pending', 'delivered', 'failed', 'dead_letter']).optional(),
+  event: z.enum(WEBHOOK_EVENTS).optional(),
+  since: z.string().datetime().optional()
+});
+
+export function createAlertRoutes(
+  alertsController: AlertsController,
+  webhooksController: WebhooksController,
+  subscriptionsController: SubscriptionsController
+): Router {
   const router = Router();
 
   // GET /api/v1/alerts - Get alerts with pagination and filters
@@ -43,6 +87,102 @@ export function createAlertRoutes(alertsController: AlertsController): Router {
     asyncHandler(alertsController.getAlertSummary.bind(alertsController))
   );
 
+  // GET /api/v1/alerts/rules - List the caller's alert rules (requires auth)
+  router.get(
+    '/rules',
+    requireAuth,
+    validate(alertRulesQuerySchema, 'query'),
+    asyncHandler(alertsController.listRules.bind(alertsController))
+  );
+
+  // DELETE /api/v1/alerts/rules/:id - Delete alert rule (requires auth)
+  router.delete(
+    '/rules/:id',
+    requireAuth,
+    validate(alertIdSchema, 'params'),
+    asyncHandler(alertsController.deleteRule.bind(alertsController))
+  );
+
+  // GET /api/v1/alerts/history - Get alert history, dismissed alerts included (requires premium)
+  router.get(
+    '/history',
+    requireTier('premium'),
+    validate(alertHistoryQuerySchema, 'query'),
+    asyncHandler(alertsController.getHistory.bind(alertsController))
+  );
+
+  // GET /api/v1/alerts/subscriptions - Subscriptions, counts by type and tier quota (requires auth)
+  router.get(
+    '/subscriptions',
+    requireAuth,
+    asyncHandler(subscriptionsController.getSubscriptions.bind(subscriptionsController))
+  );
+
+  // POST /api/v1/alerts/subscriptions - Follow a token, saved filter, creator or signal type (requires auth)
+  router.post(
+    '/subscriptions',
+    requireAuth,
+    validate(createSubscriptionSchema, 'body'),
+    asyncHandler(subscriptionsController.createSubscription.bind(subscriptionsController))
+  );
+
+  // PATCH /api/v1/alerts/subscriptions/:id - Pause, resume or change a subscription (requires auth)
+  router.patch(
+    '/subscriptions/:id',
+    requireAuth,
+    validate(subscriptionIdSchema, 'params'),
+    validate(updateSubscriptionSchema, 'body'),
+    asyncHandler(subscriptionsController.updateSubscription.bind(subscriptionsController))
+  );
+
+  // DELETE /api/v1/alerts/subscriptions/:id - Unsubscribe (requires auth)
+  router.delete(
+    '/subscriptions/:id',
+    requireAuth,
+    validate(subscriptionIdSchema, 'params'),
+    asyncHandler(subscriptionsController.deleteSubscription.bind(subscriptionsController))
+  );
+
+  // POST /api/v1/alerts/webhook - Configure webhook for alerts (requires enterprise)
+  router.post(
+    '/webhook',
+    requireTier('enterprise'),
+    validate(webhookSchema, 'body'),
+    asyncHandler(webhooksController.createWebhook.bind(webhooksController))
+  );
+
+  // GET /api/v1/alerts/webhooks - List configured webhooks (requires enterprise)
+  router.get(
+    '/webhooks',
+    requireTier('enterprise'),
+    asyncHandler(webhooksController.listWebhooks.bind(webhooksController))
+  );
+
+  // DELETE /api/v1/alerts/webhooks/:id - Remove webhook (requires enterprise)
+  router.delete(
+    '/webhooks/:id',
+    requireTier('enterprise'),
+    validate(webhookIdSchema, 'params'),
+    asyncHandler(webhooksController.deleteWebhook.bind(webhooksController))
+  );
+
+  // GET /api/v1/alerts/webhooks/:id/deliveries - Delivery history (requires enterprise)
+  router.get(
+    '/webhooks/:id/deliveries',
+    requireTier('enterprise'),
+    validate(webhookIdSchema, 'params'),
+    validate(webhookDeliveriesQuerySchema, 'query'),
+    asyncHandler(webhooksController.getDeliveries.bind(webhooksController))
+  );
+
+  // POST /api/v1/alerts/webhooks/:id/deliveries/:deliveryId/redeliver - Retry delivery (requires enterprise)
+  router.post(
+    '/webhooks/:id/deliveries/:deliveryId/redeliver',
+    requireTier('enterprise'),
+    validate(webhookDeliveryParamsSchema, 'params'),
+    asyncHandler(webhooksController.redeliver.bind(webhooksController))
+  );
+
   // GET /api/v1/alerts/:id - Get specific alert
   router.get(
     '/:id',
@@ -50,7 +190,7 @@ export function createAlertRoutes(alertsController: AlertsController): Router {
     asyncHandler(alertsController.getAlert.bind(alertsController))
   );
 
-  // POST /api/v1/alerts - Create new alert trigger (requires auth)
+  // POST /api/v1/alerts - Create new alert rule (requires auth)
   router.post(
     '/',
     requireAuth,
@@ -65,7 +205,7 @@ export function createAlertRoutes(alertsController: AlertsController): Router {
     asyncHandler(alertsController.acknowledgeAlert.bind(alertsController))
   );
 
-  // DELETE /api/v1/alerts/:id - Dismiss/delete alert
+  // DELETE /api/v1/alerts/:id - Dismiss alert from the feed
   router.delete(
     '/:id',
     validate(alertIdSchema, 'params'),
@@ -85,7 +225,8 @@ export function createAlertRoutes(alertsController: AlertsController): Router {
         alertIds.map(async (alertId: string) => {
           // Create mock request/response objects for controller methods
           const mockReq: MockAlertRequest = {
-            params: { id: alertId }
+            params: { id: alertId },
+            user: (req as MockAlertRequest).user
           } as MockAlertRequest;
 
           const mockRes: MockAlertResponse = {
@@ -131,44 +272,41 @@ export function createAlertRoutes(alertsController: AlertsController): Router {
           type: 'PRICE_ALERT',
           name: 'Price Alert',
           description: 'Triggered when token price crosses a threshold',
-          supportedMetrics: ['price', 'priceChange1h', 'priceChange24h', 'priceChange7d'],
-          supportedOperators: ['gt', 'lt', 'gte', 'lte'],
+          supportedMetrics: ['price', 'priceChange1h', 'priceChange24h'],
+          supportedOperators: ['gt', 'lt', 'gte', 'lte', 'crosses_above', 'crosses_below'],
           examples: [
             { metric: 'priceChange24h', operator: 'gt', value: 50, description: 'Price up 50% in 24h' },
-            { metric: 'price', operator: 'lt', value: 0.001, description: 'Price drops below $0.001' }
+            { metric: 'price', operator: 'lt', value: 0.001, description: 'Price drops below $0.001' },
+            { metric: 'price', operator: 'crosses_above', reference: 'high', period: '1h', description: 'Price breaks its 1h high' }
           ]
         },
         {
           type: 'VOLUME_ALERT',
           name: 'Volume Alert',
           description: 'Triggered when trading volume meets criteria',
-          supportedMetrics: ['volume24h', 'volumeChange24h'],
-          supportedOperators: ['gt', 'gte'],
+          supportedMetrics: ['volume24h', 'liquidity', 'marketCap', 'buys5m', 'sells5m', 'sellBuyRatio5m'],
+          supportedOperators: ['gt', 'lt', 'gte', 'lte', 'crosses_above', 'crosses_below'],
           examples: [
             { metric: 'volume24h', operator: 'gt', value: 1000000, description: 'Volume exceeds $1M' },
-            { metric: 'volumeChange24h', operator: 'gt', value: 500, description: 'Volume up 500%' }
+            {
+              all: [
+                { metric: 'liquidity', change: 'percent', period: '10m', operator: 'lte', value: -30 },
+                { metric: 'sellBuyRatio5m', operator: 'gt', value: 2 }
+              ],
+              description: 'Liquidity down 30% within 10 minutes while sells outnumber buys 2 to 1'
+            }
           ]
         },
         {
           type: 'SAFETY_ALERT',
           name: 'Safety Alert',
           description: 'Triggered when safety score changes significantly',
-          supportedMetrics: ['safetyScore', 'riskLevel'],
-          supportedOperators: ['lt', 'lte', 'eq'],
+          supportedMetrics: ['safetyScore', 'holderConcentration'],
+          supportedOperators: ['gt', 'lt', 'gte', 'lte', 'crosses_above', 'crosses_below'],
           examples: [
             { metric: 'safetyScore', operator: 'lt', value: 5, description: 'Safety score below 5' },
-            { metric: 'riskLevel', operator: 'eq', value: 'VERY_HIGH', description: 'Risk level becomes very high' }
-          ]
-        },
-        {
-          type: 'SIGNAL_ALERT',
-          name: 'Signal Alert',
-          description: 'Triggered when trading signals are generated',
-          supportedMetrics: ['signalStrength', 'signalConfidence', 'signalAction'],
-          supportedOperators: ['gt', 'gte', 'eq'],
-          examples: [
-            { metric: 'signalStrength', operator: 'gt', value: 0.8, description: 'Strong signal generated' },
-            { metric: 'signalAction', operator: 'eq', value: 'BUY', description: 'Buy signal generated' }
+            { metric: 'safetyScore', change: 'delta', period: '1h', operator: 'lte', value: -2, description: 'Safety score fell 2 points within an hour' },
+            { metric: 'holderConcentration', operator: 'gt', value: 50, description: 'Top 10 holders own over 50%' }
           ]
         }
       ];
@@ -182,110 +320,12 @@ export function createAlertRoutes(alertsController: AlertsController): Router {
     })
   );
 
-  // GET /api/v1/alerts/subscriptions - Get user's alert subscriptions (requires premium)
-  router.get(
-    '/subscriptions',
-    requireTier('premium'),
-    asyncHandler(async (req, res) => {
-      // Mock subscriptions endpoint
-      res.json({
-        success: true,
-        data: {
-          activeSubscriptions: 0,
-          maxSubscriptions: 100,
-          subscriptionsByType: {
-            PRICE_ALERT: 0,
-            VOLUME_ALERT: 0,
-            SAFETY_ALERT: 0,
-            SIGNAL_ALERT: 0,
-            NEWS_ALERT: 0
-          }
-        },
-        timestamp: new Date().toISOString(),
-        version: '1.0.0'
-      });
-    })
-  );
-
-  // POST /api/v1/alerts/test - Test alert configuration (requires auth)
+  // POST /api/v1/alerts/test - Replay alert configuration over history (requires auth)
   router.post(
     '/test',
     requireAuth,
-    validate(createAlertSchema, 'body'),
-    asyncHandler(async (req, res) => {
-      // Test alert configuration without creating it
-      const alertData = req.body;
-
-      res.json({
-        success: true,
-        data: {
-          isValid: true,
-          estimatedTriggerFrequency: 'low', // low, medium, high
-          potentialIssues: [],
-          recommendation: 'Alert configuration looks good'
-        },
-        message: 'Alert configuration tested successfully',
-        timestamp: new Date().toISOString(),
-        version: '1.0.0'
-      });
-    })
-  );
-
-  // GET /api/v1/alerts/history - Get alert history (requires premium)
-  router.get(
-    '/history',
-    requireTier('premium'),
-    validatePagination,
-    validate(z.object({
-      startDate: z.string().datetime().optional(),
-      endDate: z.string().datetime().optional(),
-      type: z.enum(['PRICE_ALERT', 'VOLUME_ALERT', 'SAFETY_ALERT', 'SIGNAL_ALERT', 'NEWS_ALERT']).optional()
-    }), 'query'),
-    asyncHandler(async (req, res) => {
-      // Mock alert history
-      res.json({
-        success: true,
-        data: [],
-        pagination: {
-          page: 1,
-          limit: 20,
-          total: 0,
-          totalPages: 0,
-          hasNext: false,
-          hasPrev: false
-        },
-        message: 'Alert history endpoint - implementation pending',
-        timestamp: new Date().toISOString(),
-        version: '1.0.0'
-      });
-    })
-  );
-
-  // POST /api/v1/alerts/webhook - Configure webhook for alerts (requires enterprise)
-  router.post(
-    '/webhook',
-    requireTier('enterprise'),
-    validate(z.object({
-      url: z.string().url('Invalid webhook URL'),
-      secret: z.string().min(10, 'Webhook secret must be at least 10 characters'),
-      events: z.array(z.enum(['alert.created', 'alert.triggered', 'alert.acknowledged'])).min(1)
-    }), 'body'),
-    asyncHandler(async (req, res) => {
-      // Mock webhook configuration
-      res.json({
-        success: true,
-        data: {
-          id: `webhook_${Date.now()}`,
-          url: req.body.url,
-          events: req.body.events,
-          isActive: true,
-          createdAt: new Date().toISOString()
-        },
-        message: 'Webhook configured successfully',
-        timestamp: new Date().toISOString(),
-        version: '1.0.0'
-      });
-    })
+    validate(testAlertSchema, 'body'),
+    asyncHandler(alertsController.testAlert.bind(alertsController))
   );
 
   return router;
@@ -203,47 +203,7 @@ export function createAnalyticsRoutes(analyticsController: AnalyticsController):
       signalType: z.enum(['BUY', 'SELL', 'HOLD', 'STRONG_BUY', 'STRONG_SELL']).optional(),
       chain: z.string().optional()
     }), 'query'),
-    asyncHandler(async (req, res) => {
-      // Mock signals overview
-      const signalsOverview = {
-        totalSignals: 456,
-        signalBreakdown: {
-          BUY: 120,
-          STRONG_BUY: 45,
-          SELL: 89,
-          STRONG_SELL: 23,
-          HOLD: 179
-        },
-        accuracy: {
-          overall: 76.5,
-          byType: {
-            BUY: 78.2,
-            STRONG_BUY: 82.1,
-            SELL: 74.8,
-            STRONG_SELL: 79.5,
-            HOLD: 71.3
-          }
-        },
-        topPerformingSignals: [
-          {
-            tokenAddress: 'top_signal_1',
-            symbol: 'TOPSIG1',
-            signalType: 'STRONG_BUY',
-            strength: 0.95,
-            confidence: 0.89,
-            performance: 145.2 // % return
-          }
-        ],
-        recentSignals: []
-      };
-
-      res.json({
-        success: true,
-        data: signalsOverview,
-        timestamp: new Date().toISOString(),
-        version: '1.0.0'
-      });
-    })
+    asyncHandler(analyticsController.getSignalsOverview.bind(analyticsController))
   );
 
   // GET /api/v1/analytics/correlation - Token correlation analysis (requires enterprise)
@@ -0,0 +1,66 @@
+// API Key Routes - Admin management of hashed API keys and their usage
+import { Router } from 'express';
+import { ApiKeysController } from '../controllers/api-keys.controller';
+import { validate } from '../middleware/validation.middleware';
+import { requireScope } from '../middleware/auth.middleware';
+import { asyncHandler } from '../middleware/error.middleware';
+import { issueApiKeySchema, rotateApiKeySchema } from '../../services/api-key.service';
+import { z } from 'zod';
+
+const apiKeyIdSchema = z.object({
+  id: z.string().min(1, 'API key ID is required')
+});
+
+const listKeysQuerySchema = z.object({
+  userId: z.string().min(1).optional()
+});
+
+const usageQuerySchema = z.object({
+  hours: z.string().transform(val => parseInt(val, 10)).pipe(z.number().min(1).max(24 * 90)).optional().default('24')
+});
+
+export function createApiKeyRoutes(apiKeysController: ApiKeysController): Router {
+  const router = Router();
+
+  // Every key management endpoint needs the admin scope
+  router.use(requireScope('admin'));
+
+  // POST /api/v1/admin/api-keys - Issue a key
+  router.post(
+    '/',
+    validate(issueApiKeySchema, 'body'),
+    asyncHandler(apiKeysController.issueKey.bind(apiKeysController))
+  );
+
+  // GET /api/v1/admin/api-keys - List keys
+  router.get(
+    '/',
+    validate(listKeysQuerySchema, 'query'),
+    asyncHandler(apiKeysController.listKeys.bind(apiKeysController))
+  );
+
+  // POST /api/v1/admin/api-keys/:id/rotate - Replace a key
+  router.post(
+    '/:id/rotate',
+    validate(apiKeyIdSchema, 'params'),
+    validate(rotateApiKeySchema, 'body'),
+    asyncHandler(apiKeysController.rotateKey.bind(apiKeysController))
+  );
+
+  // DELETE /api/v1/admin/api-keys/:id - Revoke a key
+  router.delete(
+    '/:id',
+    validate(apiKeyIdSchema, 'params'),
+    asyncHandler(apiKeysController.revokeKey.bind(apiKeysController))
+  );
+
+  // GET /api/v1/admin/api-keys/:id/usage - Hourly request counts
+  router.get(
+    '/:id/usage',
+    validate(apiKeyIdSchema, 'params'),
+    validate(usageQuerySchema, 'query'),
+    asyncHandler(apiKeysController.getUsage.bind(apiKeysController))
+  );
+
+  return router;
+}
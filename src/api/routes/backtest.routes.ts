@@ -0,0 +1,21 @@
+// Backtest Routes - Historical replay of filters
+import { Router } from 'express';
+import { BacktestController } from '../controllers/backtest.controller';
+import { validate } from '../middleware/validation.middleware';
+import { requireAuth } from '../middleware/auth.middleware';
+import { asyncHandler } from '../middleware/error.middleware';
+import { backtestRequestSchema } from '../types/api.types';
+
+export function createBacktestRoutes(backtestController: BacktestController): Router {
+  const router = Router();
+
+  // POST /api/v1/backtests - Backtest saved filters or pipeline criteria
+  router.post(
+    '/',
+    requireAuth,
+    validate(backtestRequestSchema, 'body'),
+    asyncHandler(backtestController.runBacktest.bind(backtestController))
+  );
+
+  return router;
+}
@@ -0,0 +1,18 @@
+// Creator Routes - Creator reputation records
+import { Router } from 'express';
+import { CreatorsController } from '../controllers/creators.controller';
+import { validateTokenAddress } from '../middleware/validation.middleware';
+import { asyncHandler } from '../middleware/error.middleware';
+
+export function createCreatorRoutes(creatorsController: CreatorsController): Router {
+  const router = Router();
+
+  // GET /api/v1/creators/:address - Creator record with per-token rug evidence
+  router.get(
+    '/:address',
+    validateTokenAddress,
+    asyncHandler(creatorsController.getCreator.bind(creatorsController))
+  );
+
+  return router;
+}
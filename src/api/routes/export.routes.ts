@@ -1,120 +1,87 @@
 // Export Routes - Data export functionality (CSV, JSON, XLSX)
-import { Router } from 'express';
-import { TokensController } from '../controllers/tokens.controller';
+import { Router, Response } from 'express';
+import { createReadStream, promises as fs } from 'fs';
+import { ExportJob } from '@prisma/client';
 import { validate } from '../middleware/validation.middleware';
-import { requireAuth, requireTier } from '../middleware/auth.middleware';
+import { getUserId, requireAuth, requireScope, requireTier } from '../middleware/auth.middleware';
 import { asyncHandler } from '../middleware/error.middleware';
 import { exportQuerySchema } from '../types/api.types';
+import { ExportService, ExportJobsQuery } from '../../services/export.service';
+import {
+  getContentType,
+  getFileExtension,
+  isValidTimeZone,
+  CompressionLevel,
+  ExportFormat
+} from '../../utils/export-writers';
 import { z } from 'zod';
 
-// Enhanced export query schema
-const enhancedExportQuerySchema = exportQuerySchema.extend({
-  includeHistory: z.boolean().optional().default(false),
+// Options shared by every export type
+const exportOutputSchema = z.object({
   compressionLevel: z.enum(['none', 'low', 'medium', 'high']).optional().default('medium'),
-  timezone: z.string().optional().default('UTC')
+  timezone: z.string().refine(isValidTimeZone, 'Invalid IANA timezone').optional().default('UTC')
 });
 
+// Enhanced export query schema
+const enhancedExportQuerySchema = exportQuerySchema.extend({
+  includeHistory: z.boolean().optional().default(false)
+}).merge(exportOutputSchema);
+
 // Export job status schema
 const exportJobQuerySchema = z.object({
   jobId: z.string().min(1, 'Job ID is required')
 });
 
-// Mock export job storage (in production, use Redis or database)
-const exportJobs = new Map<string, {
-  id: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
-  format: string;
-  progress: number;
-  totalRecords: number;
-  processedRecords: number;
-  downloadUrl?: string;
-  error?: string;
-  createdAt: Date;
-  completedAt?: Date;
-  expiresAt: Date;
-}>();
-
-export function createExportRoutes(tokensController: TokensController): Router {
+export function createExportRoutes(exportService: ExportService): Router {
   const router = Router();
 
   // POST /api/v1/export/tokens - Export token data
   router.post(
     '/tokens',
-    requireAuth,
+    requireScope('export'),
     validate(enhancedExportQuerySchema, 'body'),
     asyncHandler(async (req, res) => {
-      const { format, filters, fields, startDate, endDate, limit, includeHistory, compressionLevel } = req.body;
-
-      // Generate export job
-      const jobId = `export_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000); // 24 hours
+      const { format, filters, fields, startDate, endDate, limit, includeHistory, compressionLevel, timezone } = req.body;
 
-      // Create export job
-      const exportJob = {
-        id: jobId,
-        status: 'pending' as const,
+      const job = await exportService.createJob({
+        userId: getUserId(req) as string,
+        type: 'tokens',
         format,
-        progress: 0,
-        totalRecords: 0,
-        processedRecords: 0,
-        createdAt: new Date(),
-        expiresAt
-      };
-
-      exportJobs.set(jobId, exportJob);
-
-      // Start export processing (mock)
-      setTimeout(() => processExportJob(jobId, { format, filters, fields, startDate, endDate, limit, includeHistory }), 1000);
-
-      res.status(202).json({
-        success: true,
-        data: {
-          jobId,
-          status: 'pending',
-          estimatedDuration: '2-5 minutes',
-          checkStatusUrl: `/api/v1/export/status/${jobId}`,
-          expiresAt: expiresAt.toISOString()
-        },
-        message: 'Export job started',
-        timestamp: new Date().toISOString(),
-        version: '1.0.0'
+        options: { filters, fields, startDate, endDate, limit, includeHistory, compressionLevel, timezone }
       });
+
+      sendJobAccepted(res, job, 'Export job started');
     })
   );
 
   // POST /api/v1/export/alerts - Export alert data (requires premium)
   router.post(
     '/alerts',
+    requireScope('export'),
     requireTier('premium'),
-    validate(enhancedExportQuerySchema.omit({ filters: true }).extend({
+    validate(enhancedExportQuerySchema.omit({ filters: true, includeHistory: true }).extend({
       alertTypes: z.array(z.enum(['PRICE_ALERT', 'VOLUME_ALERT', 'SAFETY_ALERT', 'SIGNAL_ALERT', 'NEWS_ALERT'])).optional(),
       severity: z.array(z.enum(['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'])).optional(),
       status: z.enum(['all', 'acknowledged', 'unacknowledged']).optional().default('all')
     }), 'body'),
     asyncHandler(async (req, res) => {
-      const { format, startDate, endDate, alertTypes, severity, status } = req.body;
+      const { format, fields, startDate, endDate, limit, alertTypes, severity, status, compressionLevel, timezone } = req.body;
 
-      const jobId = `alert_export_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-      // Mock alert export
-      res.status(202).json({
-        success: true,
-        data: {
-          jobId,
-          status: 'pending',
-          estimatedDuration: '1-3 minutes',
-          checkStatusUrl: `/api/v1/export/status/${jobId}`
-        },
-        message: 'Alert export job started',
-        timestamp: new Date().toISOString(),
-        version: '1.0.0'
+      const job = await exportService.createJob({
+        userId: getUserId(req) as string,
+        type: 'alerts',
+        format,
+        options: { fields, startDate, endDate, limit, alertTypes, severity, status, compressionLevel, timezone }
       });
+
+      sendJobAccepted(res, job, 'Alert export job started');
     })
   );
 
   // POST /api/v1/export/analytics - Export analytics data (requires enterprise)
   router.post(
     '/analytics',
+    requireScope('export'),
     requireTier('enterprise'),
     validate(z.object({
       format: z.enum(['csv', 'json', 'xlsx']),
@@ -122,94 +89,59 @@ export function createExportRoutes(tokensController: TokensController): Router {
       period: z.enum(['24h', '7d', '30d', '90d']).optional().default('30d'),
       granularity: z.enum(['hour', 'day', 'week']).optional().default('day'),
       includeCharts: z.boolean().optional().default(false)
-    }), 'body'),
+    }).merge(exportOutputSchema), 'body'),
     asyncHandler(async (req, res) => {
-      const { format, reportType, period, granularity } = req.body;
-
-      const jobId = `analytics_export_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      const { format, reportType, period, granularity, includeCharts, compressionLevel, timezone } = req.body;
 
-      res.status(202).json({
-        success: true,
-        data: {
-          jobId,
-          status: 'pending',
-          estimatedDuration: '3-10 minutes',
-          checkStatusUrl: `/api/v1/export/status/${jobId}`
-        },
-        message: 'Analytics export job started',
-        timestamp: new Date().toISOString(),
-        version: '1.0.0'
+      const job = await exportService.createJob({
+        userId: getUserId(req) as string,
+        type: 'analytics',
+        format,
+        options: { reportType, period, granularity, includeCharts, compressionLevel, timezone }
       });
+
+      sendJobAccepted(res, job, 'Analytics export job started');
     })
   );
 
-  // GET /api/v1/export/status/:jobId - Check export job status
+  // GET /api/v1/export/status/:jobId - Check the status of one of the user's export jobs
   router.get(
     '/status/:jobId',
+    requireAuth,
     validate(exportJobQuerySchema, 'params'),
     asyncHandler(async (req, res) => {
       const { jobId } = req.params;
 
-      const job = exportJobs.get(jobId);
+      const job = await exportService.getJob(getUserId(req) as string, jobId);
 
       if (!job) {
-        return res.status(404).json({
-          success: false,
-          error: 'EXPORT_JOB_NOT_FOUND',
-          message: 'Export job not found',
-          timestamp: new Date().toISOString(),
-          version: '1.0.0'
-        });
-      }
-
-      // Check if job has expired
-      if (new Date() > job.expiresAt && job.status !== 'completed') {
-        job.status = 'failed';
-        job.error = 'Job expired';
+        return sendJobNotFound(res);
       }
 
-      const response = {
+      res.json({
         success: true,
-        data: {
-          jobId: job.id,
-          status: job.status,
-          progress: job.progress,
-          totalRecords: job.totalRecords,
-          processedRecords: job.processedRecords,
-          createdAt: job.createdAt.toISOString(),
-          completedAt: job.completedAt?.toISOString(),
-          expiresAt: job.expiresAt.toISOString(),
-          downloadUrl: job.downloadUrl,
-          error: job.error
-        },
+        data: toJobStatus(job),
         timestamp: new Date().toISOString(),
         version: '1.0.0'
-      };
-
-      res.json(response);
+      });
     })
   );
 
-  // GET /api/v1/export/download/:jobId - Download exported file
+  // GET /api/v1/export/download/:jobId - Download one of the user's exported files
   router.get(
     '/download/:jobId',
+    requireAuth,
     validate(exportJobQuerySchema, 'params'),
     asyncHandler(async (req, res) => {
       const { jobId } = req.params;
 
-      const job = exportJobs.get(jobId);
+      const job = await exportService.getJob(getUserId(req) as string, jobId);
 
       if (!job) {
-        return res.status(404).json({
-          success: false,
-          error: 'EXPORT_JOB_NOT_FOUND',
-          message: 'Export job not found',
-          timestamp: new Date().toISOString(),
-          version: '1.0.0'
-        });
+        return sendJobNotFound(res);
       }
 
-      if (job.status !== 'completed') {
+      if (job.status !== 'completed' || !job.filePath) {
         return res.status(400).json({
           success: false,
           error: 'EXPORT_NOT_READY',
@@ -220,7 +152,9 @@ export function createExportRoutes(tokensController: TokensController): Router {
         });
       }
 
-      if (new Date() > job.expiresAt) {
+      const stats = new Date() > job.expiresAt ? null : await fs.stat(job.filePath).catch(() => null);
+
+      if (!stats) {
         return res.status(410).json({
           success: false,
           error: 'EXPORT_EXPIRED',
@@ -230,18 +164,17 @@ export function createExportRoutes(tokensController: TokensController): Router {
         });
       }
 
-      // Generate mock file content based on format
-      const mockData = generateMockExportData(job.format);
-
-      // Set appropriate headers
-      const contentType = getContentType(job.format);
-      const filename = `memecoin_export_${jobId}.${job.format}`;
+      const { compressionLevel } = job.options as { compressionLevel: CompressionLevel };
+      const format = job.format as ExportFormat;
+      const filename = `memecoin_export_${jobId}.${getFileExtension(format, compressionLevel)}`;
 
-      res.setHeader('Content-Type', contentType);
+      res.setHeader('Content-Type', getContentType(format, compressionLevel));
       res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
-      res.setHeader('Content-Length', Buffer.byteLength(mockData));
+      res.setHeader('Content-Length', stats.size);
 
-      res.send(mockData);
+      const stream = createReadStream(job.filePath);
+      stream.on('error', error => res.destroy(error));
+      stream.pipe(res);
     })
   );
 
@@ -250,32 +183,22 @@ export function createExportRoutes(tokensController: TokensController): Router {
     '/jobs',
     requireAuth,
     validate(z.object({
-      page: z.string().transform(val => parseInt(val, 10)).pipe(z.number().min(1)).optional().default(1),
-      limit: z.string().transform(val => parseInt(val, 10)).pipe(z.number().min(1).max(50)).optional().default(20),
+      page: z.string().transform(val => parseInt(val, 10)).pipe(z.number().min(1)).optional().default('1'),
+      limit: z.string().transform(val => parseInt(val, 10)).pipe(z.number().min(1).max(50)).optional().default('20'),
       status: z.enum(['pending', 'processing', 'completed', 'failed', 'all']).optional().default('all')
     }), 'query'),
     asyncHandler(async (req, res) => {
-      const { page, limit, status } = req.query;
-
-      // Get all jobs (in production, filter by user)
-      let jobs = Array.from(exportJobs.values());
-
-      if (status !== 'all') {
-        jobs = jobs.filter(job => job.status === status);
-      }
+      const query = req.query as unknown as ExportJobsQuery;
+      const { page, limit } = query;
 
-      // Sort by creation date (newest first)
-      jobs.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
-
-      // Apply pagination
-      const total = jobs.length;
+      const { jobs, total } = await exportService.listJobs(getUserId(req) as string, query);
       const skip = (page - 1) * limit;
-      const paginatedJobs = jobs.slice(skip, skip + limit);
 
       res.json({
         success: true,
-        data: paginatedJobs.map(job => ({
+        data: jobs.map(job => ({
           jobId: job.id,
+          type: job.type,
           status: job.status,
           format: job.format,
           progress: job.progress,
@@ -305,21 +228,12 @@ export function createExportRoutes(tokensController: TokensController): Router {
     asyncHandler(async (req, res) => {
       const { jobId } = req.params;
 
-      const job = exportJobs.get(jobId);
+      const deleted = await exportService.deleteJob(getUserId(req) as string, jobId);
 
-      if (!job) {
-        return res.status(404).json({
-          success: false,
-          error: 'EXPORT_JOB_NOT_FOUND',
-          message: 'Export job not found',
-          timestamp: new Date().toISOString(),
-          version: '1.0.0'
-        });
+      if (!deleted) {
+        return sendJobNotFound(res);
       }
 
-      // Cancel or delete the job
-      exportJobs.delete(jobId);
-
       res.json({
         success: true,
         message: 'Export job deleted successfully',
@@ -332,105 +246,49 @@ export function createExportRoutes(tokensController: TokensController): Router {
   return router;
 }
 
-// Mock export processing function
-async function processExportJob(jobId: string, options: {
-  format: string;
-  filters?: unknown;
-  fields?: string[];
-  startDate?: string;
-  endDate?: string;
-  limit?: number;
-  includeHistory?: boolean;
-}): Promise<void> {
-  const job = exportJobs.get(jobId);
-  if (!job) return;
-
-  try {
-    // Update job status
-    job.status = 'processing';
-    job.totalRecords = 1000; // Mock total
-
-    // Simulate processing with progress updates
-    for (let i = 0; i <= 100; i += 10) {
-      await new Promise(resolve => setTimeout(resolve, 200)); // Simulate work
-      job.progress = i;
-      job.processedRecords = Math.floor((i / 100) * job.totalRecords);
-    }
-
-    // Complete the job
-    job.status = 'completed';
-    job.completedAt = new Date();
-    job.downloadUrl = `/api/v1/export/download/${jobId}`;
-
-  } catch (error) {
-    job.status = 'failed';
-    job.error = 'Processing failed';
-  }
-}
-
-// Generate mock export data
-function generateMockExportData(format: string): string {
-  const mockTokenData = [
-    {
-      address: 'DGFzH5FEcLJcr8T2Dv9jMKV9BxPGvXdLyKLv5qV8pump',
-      symbol: 'DOGE',
-      name: 'Dogecoin',
-      currentPrice: 0.08,
-      marketCap: 12000000,
-      volume24h: 5000000,
-      priceChange24h: 5.2,
-      safetyScore: 8.5,
-      riskLevel: 'LOW'
+function sendJobAccepted(res: Response, job: ExportJob, message: string): void {
+  res.status(202).json({
+    success: true,
+    data: {
+      jobId: job.id,
+      status: job.status,
+      checkStatusUrl: `/api/v1/export/status/${job.id}`,
+      expiresAt: job.expiresAt.toISOString()
     },
-    {
-      address: 'PEPEjHzQqHQQfH5JnJLVKzPdqrGqqLxgN4VJ3Rnpump',
-      symbol: 'PEPE',
-      name: 'Pepe Token',
-      currentPrice: 0.000012,
-      marketCap: 8500000,
-      volume24h: 3200000,
-      priceChange24h: -2.1,
-      safetyScore: 7.2,
-      riskLevel: 'MEDIUM'
-    }
-  ];
-
-  switch (format) {
-    case 'csv':
-      const headers = 'Address,Symbol,Name,Price,Market Cap,Volume 24h,Price Change 24h,Safety Score,Risk Level\n';
-      const rows = mockTokenData.map(token =>
-        `${token.address},${token.symbol},${token.name},${token.currentPrice},${token.marketCap},${token.volume24h},${token.priceChange24h},${token.safetyScore},${token.riskLevel}`
-      ).join('\n');
-      return headers + rows;
-
-    case 'json':
-      return JSON.stringify({
-        exportedAt: new Date().toISOString(),
-        totalRecords: mockTokenData.length,
-        data: mockTokenData
-      }, null, 2);
-
-    case 'xlsx':
-      // For XLSX, we'd normally use a library like xlsx to generate binary data
-      // For this mock, return a text representation
-      return JSON.stringify({
-        message: 'XLSX format would contain binary data',
-        sheets: {
-          'Tokens': mockTokenData
-        }
-      });
+    message,
+    timestamp: new Date().toISOString(),
+    version: '1.0.0'
+  });
+}
 
-    default:
-      return JSON.stringify({ error: 'Unsupported format' });
-  }
+function sendJobNotFound(res: Response): void {
+  res.status(404).json({
+    success: false,
+    error: 'EXPORT_JOB_NOT_FOUND',
+    message: 'Export job not found',
+    timestamp: new Date().toISOString(),
+    version: '1.0.0'
+  });
 }
 
-// Get content type for download
-function getContentType(format: string): string {
-  switch (format) {
-    case 'csv': return 'text/csv';
-    case 'json': return 'application/json';
-    case 'xlsx': return 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
-    default: return 'application/octet-stream';
-  }
-}
\ No newline at end of file
+function toJobStatus(job: ExportJob) {
+  // A job that never finished before its expiry is reported as failed
+  const expired = new Date() > job.expiresAt && job.status !== 'completed';
+
+  return {
+    jobId: job.id,
+    type: job.type,
+    status: expired ? 'failed' : job.status,
+    format: job.format,
+    progress: job.progress,
+    totalRecords: job.totalRecords,
+    processedRecords: job.processedRecords,
+    fileSize: job.fileSize ?? undefined,
+    createdAt: job.createdAt.toISOString(),
+    startedAt: job.startedAt?.toISOString(),
+    completedAt: job.completedAt?.toISOString(),
+    expiresAt: job.expiresAt.toISOString(),
+    downloadUrl: job.status === 'completed' ? `/api/v1/export/download/${job.id}` : undefined,
+    error: expired ? 'Job expired' : job.error ?? undefined
+  };
+}
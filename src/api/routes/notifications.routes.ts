@@ -0,0 +1,71 @@
+// Notification Routes - Per-user Telegram, Discord, email and HTTP alert channels
+import { Router } from 'express';
+import { NotificationsController } from '../controllers/notifications.controller';
+import { validate } from '../middleware/validation.middleware';
+import { requireAuth } from '../middleware/auth.middleware';
+import { asyncHandler } from '../middleware/error.middleware';
+import { createChannelSchema, channelSettingsSchema } from '../../services/notifications';
+import { z } from 'zod';
+
+const channelIdSchema = z.object({
+  id: z.string().min(1, 'Channel ID is required')
+});
+
+const deliveriesQuerySchema = z.object({
+  limit: z.string().transform(val => parseInt(val, 10)).pipe(z.number().min(1).max(100)).optional().default('50')
+});
+
+export function createNotificationRoutes(notificationsController: NotificationsController): Router {
+  const router = Router();
+
+  // POST /api/v1/notifications/channels - Add a notification channel
+  router.post(
+    '/channels',
+    requireAuth,
+    validate(createChannelSchema, 'body'),
+    asyncHandler(notificationsController.createChannel.bind(notificationsController))
+  );
+
+  // GET /api/v1/notifications/channels - List the caller's channels
+  router.get(
+    '/channels',
+    requireAuth,
+    asyncHandler(notificationsController.listChannels.bind(notificationsController))
+  );
+
+  // PATCH /api/v1/notifications/channels/:id - Update channel settings
+  router.patch(
+    '/channels/:id',
+    requireAuth,
+    validate(channelIdSchema, 'params'),
+    validate(channelSettingsSchema, 'body'),
+    asyncHandler(notificationsController.updateChannel.bind(notificationsController))
+  );
+
+  // DELETE /api/v1/notifications/channels/:id - Remove a channel
+  router.delete(
+    '/channels/:id',
+    requireAuth,
+    validate(channelIdSchema, 'params'),
+    asyncHandler(notificationsController.deleteChannel.bind(notificationsController))
+  );
+
+  // POST /api/v1/notifications/channels/:id/test - Send a sample notification
+  router.post(
+    '/channels/:id/test',
+    requireAuth,
+    validate(channelIdSchema, 'params'),
+    asyncHandler(notificationsController.testChannel.bind(notificationsController))
+  );
+
+  // GET /api/v1/notifications/channels/:id/deliveries - Delivery history
+  router.get(
+    '/channels/:id/deliveries',
+    requireAuth,
+    validate(channelIdSchema, 'params'),
+    validate(deliveriesQuerySchema, 'query'),
+    asyncHandler(notificationsController.getDeliveries.bind(notificationsController))
+  );
+
+  return router;
+}
@@ -0,0 +1,32 @@
+// Paper Trading Routes - Simulated positions and strategy performance
+import { Router } from 'express';
+import { PaperTradingController } from '../controllers/paper-trading.controller';
+import { validate } from '../middleware/validation.middleware';
+import { asyncHandler } from '../middleware/error.middleware';
+import { z } from 'zod';
+
+const positionsQuerySchema = z.object({
+  status: z.enum(['open', 'closed', 'all']).optional().default('all'),
+  strategy: z.string().optional(),
+  page: z.string().transform(val => parseInt(val, 10)).pipe(z.number().min(1)).optional().default('1'),
+  limit: z.string().transform(val => parseInt(val, 10)).pipe(z.number().min(1).max(100)).optional().default('20')
+});
+
+export function createPaperTradingRoutes(paperTradingController: PaperTradingController): Router {
+  const router = Router();
+
+  // GET /api/v1/paper-trading/positions - Open and closed paper positions
+  router.get(
+    '/positions',
+    validate(positionsQuerySchema, 'query'),
+    asyncHandler(paperTradingController.listPositions.bind(paperTradingController))
+  );
+
+  // GET /api/v1/paper-trading/performance - Portfolio PnL and per-strategy results
+  router.get(
+    '/performance',
+    asyncHandler(paperTradingController.getPerformance.bind(paperTradingController))
+  );
+
+  return router;
+}
@@ -0,0 +1,91 @@
+// Pipeline Routes - Admin view of the analysis job queue and aggregation runs
+import { Router } from 'express';
+import { PipelineController } from '../controllers/pipeline.controller';
+import { validate } from '../middleware/validation.middleware';
+import { requireScope } from '../middleware/auth.middleware';
+import { asyncHandler } from '../middleware/error.middleware';
+import { tokenAddressSchema } from '../../utils/address';
+import { z } from 'zod';
+
+const pipelineJobIdSchema = z.object({
+  id: z.string().min(1, 'Job ID is required')
+});
+
+const listJobsQuerySchema = z.object({
+  status: z.enum(['pending', 'processing', 'completed', 'dead', 'all']).optional().default('all'),
+  page: z.string().transform(val => parseInt(val, 10)).pipe(z.number().min(1)).optional().default('1'),
+  limit: z.string().transform(val => parseInt(val, 10)).pipe(z.number().min(1).max(100)).optional().default('20')
+});
+
+const pipelineRunIdSchema = z.object({
+  id: z.string().min(1, 'Run ID is required')
+});
+
+const listRunsQuerySchema = z.object({
+  status: z.enum(['queued', 'running', 'completed', 'failed', 'all']).optional().default('all'),
+  trigger: z.enum(['scheduled', 'manual']).optional(),
+  token: tokenAddressSchema.optional(),
+  page: z.string().transform(val => parseInt(val, 10)).pipe(z.number().min(1)).optional().default('1'),
+  limit: z.string().transform(val => parseInt(val, 10)).pipe(z.number().min(1).max(100)).optional().default('20')
+});
+
+const runTokensQuerySchema = z.object({
+  outcome: z.enum(['passed', 'rejected', 'failed', 'pending', 'skipped']).optional()
+});
+
+export function createPipelineRoutes(pipelineController: PipelineController): Router {
+  const router = Router();
+
+  // Queue inspection, retries and run history need the admin scope
+  router.use(requireScope('admin'));
+
+  // GET /api/v1/pipeline/queue - Job counts per status
+  router.get(
+    '/queue',
+    asyncHandler(pipelineController.getQueueStats.bind(pipelineController))
+  );
+
+  // GET /api/v1/pipeline/jobs - List jobs, e.g. ?status=dead for the dead letters
+  router.get(
+    '/jobs',
+    validate(listJobsQuerySchema, 'query'),
+    asyncHandler(pipelineController.listJobs.bind(pipelineController))
+  );
+
+  // GET /api/v1/pipeline/jobs/:id - One job
+  router.get(
+    '/jobs/:id',
+    validate(pipelineJobIdSchema, 'params'),
+    asyncHandler(pipelineController.getJob.bind(pipelineController))
+  );
+
+  // POST /api/v1/pipeline/jobs/:id/retry - Requeue a dead-lettered job
+  router.post(
+    '/jobs/:id/retry',
+    validate(pipelineJobIdSchema, 'params'),
+    asyncHandler(pipelineController.retryJob.bind(pipelineController))
+  );
+
+  // GET /api/v1/pipeline/runs - Aggregation run history
+  router.get(
+    '/runs',
+    validate(listRunsQuerySchema, 'query'),
+    asyncHandler(pipelineController.listRuns.bind(pipelineController))
+  );
+
+  // POST /api/v1/pipeline/runs - Trigger a manual aggregation run
+  router.post(
+    '/runs',
+    asyncHandler(pipelineController.triggerRun.bind(pipelineController))
+  );
+
+  // GET /api/v1/pipeline/runs/:id - One run with its per-token outcomes
+  router.get(
+    '/runs/:id',
+    validate(pipelineRunIdSchema, 'params'),
+    validate(runTokensQuerySchema, 'query'),
+    asyncHandler(pipelineController.getRun.bind(pipelineController))
+  );
+
+  return router;
+}
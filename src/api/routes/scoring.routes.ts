@@ -0,0 +1,27 @@
+// Scoring Routes - Scoring profiles and rescoring
+import { Router } from 'express';
+import { ScoringController } from '../controllers/scoring.controller';
+import { validate } from '../middleware/validation.middleware';
+import { requireAuth } from '../middleware/auth.middleware';
+import { asyncHandler } from '../middleware/error.middleware';
+import { rescoreRequestSchema } from '../types/api.types';
+
+export function createScoringRoutes(scoringController: ScoringController): Router {
+  const router = Router();
+
+  // GET /api/v1/scoring/profile - Profile new analyses are scored with
+  router.get(
+    '/profile',
+    asyncHandler(scoringController.getActiveProfile.bind(scoringController))
+  );
+
+  // POST /api/v1/scoring/rescore - Compare stored analyses under the active and a candidate profile
+  router.post(
+    '/rescore',
+    requireAuth,
+    validate(rescoreRequestSchema, 'body'),
+    asyncHandler(scoringController.rescore.bind(scoringController))
+  );
+
+  return router;
+}
@@ -2,9 +2,9 @@
 import { Router } from 'express';
 import { TokensController } from '../controllers/tokens.controller';
 import { validate, validatePagination, validateTokenAddress } from '../middleware/validation.middleware';
-import { requireTier } from '../middleware/auth.middleware';
+import { requireScope, requireTier } from '../middleware/auth.middleware';
 import { asyncHandler } from '../middleware/error.middleware';
-import { tokenListQuerySchema } from '../types/api.types';
+import { analyzeTokenSchema, tokenListQuerySchema } from '../types/api.types';
 
 export function createTokenRoutes(tokensController: TokensController): Router {
   const router = Router();
@@ -38,20 +38,20 @@ export function createTokenRoutes(tokensController: TokensController): Router {
     asyncHandler(tokensController.createOrUpdateToken.bind(tokensController))
   );
 
-  // POST /api/v1/tokens/analyze - Manual token analysis (requires premium)
+  // POST /api/v1/tokens/analyze - Queue a manual analysis in the priority lane (requires premium)
   router.post(
     '/analyze',
+    requireScope('read:tokens'),
     requireTier('premium'),
-    validate(tokenListQuerySchema.pick({ search: true }), 'body'),
-    asyncHandler(async (req, res) => {
-      // This would trigger manual analysis of a token
-      res.json({
-        success: true,
-        message: 'Token analysis started',
-        timestamp: new Date().toISOString(),
-        version: '1.0.0'
-      });
-    })
+    validate(analyzeTokenSchema, 'body'),
+    asyncHandler(tokensController.analyzeToken.bind(tokensController))
+  );
+
+  // GET /api/v1/tokens/analyze/:jobId - Status and result of a queued analysis
+  router.get(
+    '/analyze/:jobId',
+    requireScope('read:tokens'),
+    asyncHandler(tokensController.getAnalysisJob.bind(tokensController))
   );
 
   // GET /api/v1/tokens/:address/price-history - Get price history
@@ -71,6 +71,13 @@ export function createTokenRoutes(tokensController: TokensController): Router {
     })
   );
 
+  // GET /api/v1/tokens/:address/pools - Pools across DEXes, including removed ones
+  router.get(
+    '/:address/pools',
+    validateTokenAddress,
+    asyncHandler(tokensController.getTokenPools.bind(tokensController))
+  );
+
   // GET /api/v1/tokens/:address/safety-score - Get safety analysis
   router.get(
     '/:address/safety-score',
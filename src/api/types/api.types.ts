@@ -1,6 +1,10 @@
 // API Types and Interfaces for Frontend Dashboard
 import { z } from 'zod';
 import { TokenData, PriceInfo, SafetyAnalysis, TradingSignal } from '../../backend/src/types';
+import { FilterGroup } from '../../types/filter';
+import { scoringProfileSchema } from '../../services/scoring/types';
+import { alertConditionSchema, AlertCondition, AlertMode } from '../../services/alerts/types';
+import { tokenAddressSchema } from '../../utils/address';
 
 // Request/Response Types
 export interface ApiResponse<T = any> {
@@ -56,12 +60,13 @@ export interface CustomFilter {
   id: string;
   name: string;
   description?: string;
-  criteria: FilterCriteria;
+  criteria: FilterDefinition;
   userId?: string;
   isPublic: boolean;
   createdAt: string;
   updatedAt: string;
   useCount: number;
+  lastExecutedAt?: string;
 }
 
 export interface FilterCriteria {
@@ -102,16 +107,32 @@ export interface FilterCriteria {
   };
 }
 
+// Saved filters are either a nested filter group or the older flat criteria
+export type FilterDefinition = FilterGroup | FilterCriteria;
+
 export interface CreateFilterRequest {
   name: string;
   description?: string;
-  criteria: FilterCriteria;
+  criteria: FilterDefinition;
   isPublic?: boolean;
 }
 
+export interface FilterPerformance {
+  totalExecutions: number; // every execute call, including cached results
+  evaluations: number; // executions that actually ran the filter
+  avgExecutionTime: number; // ms
+  avgResultCount: number;
+  popularityScore: number; // evaluations in the last 7 days
+  lastExecuted: string | null;
+  successRate: number; // percent of evaluations that completed
+}
+
 // Alert API Types
+// A fired alert: one firing of an alert rule, or a system alert
 export interface Alert {
   id: string;
+  alertId?: string; // rule that fired; absent for system alerts
+  subscriptionId?: string; // subscription that matched
   type: 'PRICE_ALERT' | 'VOLUME_ALERT' | 'SAFETY_ALERT' | 'SIGNAL_ALERT' | 'NEWS_ALERT';
   title: string;
   message: string;
@@ -120,21 +141,41 @@ export interface Alert {
   tokenSymbol?: string;
   triggeredAt: string;
   acknowledgedAt?: string;
+  dismissedAt?: string;
   isRead: boolean;
   metadata?: Record<string, any>;
 }
 
+export interface AlertRule {
+  id: string;
+  type: Alert['type'];
+  tokenAddress?: string;
+  tokenSymbol?: string;
+  userId?: string;
+  condition: AlertCondition;
+  severity: Alert['severity'];
+  message?: string;
+  mode: AlertMode;
+  cooldownSeconds: number;
+  hysteresis: number;
+  expiresAt?: string;
+  isActive: boolean;
+  isTriggered: boolean;
+  triggerCount: number;
+  lastTriggeredAt?: string;
+  createdAt: string;
+}
+
 export interface CreateAlertRequest {
   type: Alert['type'];
   tokenAddress?: string;
-  condition: {
-    metric: string;
-    operator: 'gt' | 'lt' | 'gte' | 'lte' | 'eq';
-    value: number;
-    period?: string;
-  };
+  condition: AlertCondition;
   message?: string;
   severity?: Alert['severity'];
+  mode?: AlertMode;
+  cooldownSeconds?: number;
+  hysteresis?: number;
+  expiresAt?: Date;
 }
 
 export interface AlertsQuery {
@@ -148,6 +189,15 @@ export interface AlertsQuery {
   endDate?: string;
 }
 
+export interface AlertHistoryQuery {
+  page: number;
+  limit: number;
+  type?: Alert['type'];
+  tokenAddress?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
 // Analytics API Types
 export interface DashboardSummary {
   totalTokens: number;
@@ -202,7 +252,7 @@ export interface PerformanceMetrics {
 // Export API Types
 export interface ExportQuery {
   format: 'csv' | 'json' | 'xlsx';
-  filters?: FilterCriteria;
+  filters?: FilterDefinition;
   fields?: string[];
   startDate?: string;
   endDate?: string;
@@ -264,10 +314,35 @@ export const tokenListQuerySchema = z.object({
   hasLiquidity: z.boolean().optional(),
 });
 
+const filterConditionSchema = z.object({
+  id: z.string().min(1),
+  field: z.string().min(1),
+  operator: z.enum(['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'not_in', 'contains', 'not_contains', 'between']),
+  value: z.union([
+    z.number(),
+    z.string(),
+    z.boolean(),
+    z.array(z.union([z.number(), z.string()]))
+  ]),
+  label: z.string().max(200).optional().default('')
+});
+
+// Field ids, operators and values are checked against the catalogue by validateFilterGroup
+export const filterGroupSchema: z.ZodType<FilterGroup, z.ZodTypeDef, unknown> = z.lazy(() => z.object({
+  id: z.string().min(1),
+  operator: z.enum(['AND', 'OR']),
+  conditions: z.array(filterConditionSchema).optional().default([]),
+  groups: z.array(filterGroupSchema).optional().default([])
+}));
+
+export const filterPreviewSchema = z.object({
+  filter: filterGroupSchema
+});
+
 export const createFilterSchema = z.object({
   name: z.string().min(1).max(100),
   description: z.string().max(500).optional(),
-  criteria: z.object({
+  criteria: z.union([filterGroupSchema, z.object({
     marketCap: z.object({
       min: z.number().min(0).optional(),
       max: z.number().min(0).optional(),
@@ -303,21 +378,66 @@ export const createFilterSchema = z.object({
       minStrength: z.number().min(0).max(1).optional(),
       minConfidence: z.number().min(0).max(1).optional(),
     }).optional(),
-  }),
+  })]),
   isPublic: z.boolean().optional().default(false),
 });
 
 export const createAlertSchema = z.object({
   type: z.enum(['PRICE_ALERT', 'VOLUME_ALERT', 'SAFETY_ALERT', 'SIGNAL_ALERT', 'NEWS_ALERT']),
   tokenAddress: z.string().optional(),
-  condition: z.object({
-    metric: z.string(),
-    operator: z.enum(['gt', 'lt', 'gte', 'lte', 'eq']),
-    value: z.number(),
-    period: z.string().optional(),
-  }),
+  condition: alertConditionSchema,
   message: z.string().max(500).optional(),
   severity: z.enum(['LOW', 'MEDIUM', 'HIGH', 'CRITICAL']).optional().default('MEDIUM'),
+  mode: z.enum(['one_shot', 'recurring']).optional().default('recurring'),
+  cooldownSeconds: z.number().int().min(0).max(7 * 24 * 3600).optional().default(900),
+  hysteresis: z.number().min(0).optional().default(0),
+  expiresAt: z.coerce.date().refine(date => date.getTime() > Date.now(), 'expiresAt must be in the future').optional(),
+});
+
+export const testAlertSchema = createAlertSchema.extend({
+  lookbackHours: z.number().int().min(1).max(168).optional().default(24),
+});
+
+export const backtestRequestSchema = z.object({
+  filterIds: z.array(z.string().min(1)).min(1).max(10).optional(),
+  criteria: z.object({
+    minAge: z.number().min(0).optional(),
+    maxAge: z.number().min(0).optional(),
+    minLiquidity: z.number().min(0).optional(),
+    minVolume: z.number().min(0).optional(),
+    minSafetyScore: z.number().min(0).max(10).optional(),
+    allowHoneypot: z.boolean().optional(),
+    maxSlippage: z.number().min(0).optional(),
+    minTradableSizeUsd: z.number().min(0).optional(),
+    maxTradeImpact: z.number().positive().max(100).optional(),
+    requireRouting: z.boolean().optional(),
+    allowBlacklisted: z.boolean().optional(),
+    maxCreatorRugs: z.number().min(0).optional(),
+    maxTopHoldersPercentage: z.number().min(0).max(100).optional(),
+    maxEffectiveTopHoldersPercentage: z.number().min(0).max(100).optional(),
+  }).optional(),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+  takeProfitPercent: z.number().positive().max(10000).optional().default(100),
+  stopLossPercent: z.number().positive().max(100).optional().default(30),
+  maxHoldHours: z.number().positive().max(24 * 90).optional().default(24),
+  positionSize: z.number().positive().optional().default(100),
+  initialCapital: z.number().positive().optional().default(10000),
+  allowReentry: z.boolean().optional().default(false),
+}).refine(body => body.filterIds !== undefined || body.criteria !== undefined, {
+  message: 'Provide filterIds, criteria or both',
+  path: ['filterIds'],
+});
+
+export const rescoreRequestSchema = z.object({
+  profile: scoringProfileSchema,
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+  limit: z.number().int().min(1).max(10000).optional().default(1000),
+});
+
+export const analyzeTokenSchema = z.object({
+  address: tokenAddressSchema,
 });
 
 export const alertsQuerySchema = z.object({
@@ -333,7 +453,7 @@ export const alertsQuerySchema = z.object({
 
 export const exportQuerySchema = z.object({
   format: z.enum(['csv', 'json', 'xlsx']),
-  filters: z.object({}).optional(), // Will be detailed based on FilterCriteria
+  filters: createFilterSchema.shape.criteria.optional(),
   fields: z.array(z.string()).optional(),
   startDate: z.string().optional(),
   endDate: z.string().optional(),
@@ -3,6 +3,7 @@ import { WebSocketServer, WebSocket } from 'ws';
 import { IncomingMessage } from 'http';
 import { PrismaClient } from '@prisma/client';
 import { Logger } from '../../utils/logger';
+import { parseChainAddress } from '../../utils/address';
 // Define interfaces locally to avoid import issues
 interface WebSocketMessage {
   type: string;
@@ -47,19 +48,28 @@ interface FilterResultMessage extends WebSocketMessage {
   data: FilterResultData;
 }
 
-interface AlertCondition {
-  metric: string;
-  operator: 'lt' | 'lte' | 'gt' | 'gte' | 'eq';
-  value: number;
-  period?: string;
+interface PaperTradeMessage extends WebSocketMessage {
+  type: 'paper_trade';
+  data: {
+    event: 'position_opened' | 'position_closed' | 'cycle_complete';
+    [key: string]: unknown;
+  };
 }
 
-interface Alert {
-  id: string;
-  type: string;
-  condition: AlertCondition;
-  isActive: boolean;
-  tokenId: string;
+interface TokenDegradedMessage extends WebSocketMessage {
+  type: 'token_degraded';
+  data: {
+    address: string;
+    [key: string]: unknown;
+  };
+}
+
+interface TokenPoolsChangedMessage extends WebSocketMessage {
+  type: 'token_pools_changed';
+  data: {
+    address: string;
+    [key: string]: unknown;
+  };
 }
 
 interface ClientConnection {
@@ -233,7 +243,7 @@ export class WebSocketManager {
     this.broadcastToChannel('tokens', message); // Also broadcast to general tokens channel
   }
 
-  public broadcastAlert(alert: Alert): void {
+  public broadcastAlert(alert: AlertData): void {
     const message: AlertMessage = {
       type: 'ALERT',
       payload: alert,
@@ -249,6 +259,27 @@ export class WebSocketManager {
     }
   }
 
+  public broadcastTokenDegraded(degradation: { address: string }): void {
+    const channel = `token:${degradation.address}`;
+    const message: TokenDegradedMessage = {
+      type: 'token_degraded',
+      data: { ...degradation },
+      timestamp: new Date().toISOString()
+    };
+
+    this.broadcastToChannel(channel, message);
+  }
+
+  public broadcastTokenPoolsChanged(poolChanges: { address: string }): void {
+    const message: TokenPoolsChangedMessage = {
+      type: 'token_pools_changed',
+      data: { ...poolChanges },
+      timestamp: new Date().toISOString()
+    };
+
+    this.broadcastToChannel(`token:${poolChanges.address}`, message);
+  }
+
   public broadcastFilterResults(filterId: string, data: Partial<FilterResultMessage>): void {
     const message: FilterResultMessage = {
       type: 'FILTER_RESULT',
@@ -265,6 +296,16 @@ export class WebSocketManager {
     this.broadcastToChannel('filters', message);
   }
 
+  public broadcastPaperTrade(event: PaperTradeMessage['data']['event'], data: object): void {
+    const message: PaperTradeMessage = {
+      type: 'paper_trade',
+      data: { event, ...data },
+      timestamp: new Date().toISOString()
+    };
+
+    this.broadcastToChannel('signals', message);
+  }
+
   public broadcastMarketUpdate(): void {
     // Broadcast general market updates periodically
     const message: WebSocketMessage = {
@@ -316,7 +357,9 @@ export class WebSocketManager {
     const client = this.clients.get(clientId);
     if (!client) return;
 
-    const validChannels = channels.filter(channel => this.isValidChannel(channel));
+    const validChannels = channels
+      .map(channel => this.normalizeChannel(channel))
+      .filter((channel): channel is string => channel !== null);
 
     validChannels.forEach(channel => {
       // Add client to channel
@@ -347,7 +390,8 @@ export class WebSocketManager {
     const client = this.clients.get(clientId);
     if (!client) return;
 
-    channels.forEach(channel => {
+    channels.forEach(requested => {
+      const channel = this.normalizeChannel(requested) ?? requested;
       client.subscriptions.delete(channel);
 
       const channelClients = this.channelSubscriptions.get(channel);
@@ -449,7 +493,17 @@ export class WebSocketManager {
     });
   }
 
-  private isValidChannel(channel: string): boolean {
+  /**
+   * Channel name as clients are subscribed under it, or null when invalid.
+   * Token channels carry the chain's canonical address, so an EVM address
+   * matches whatever case it was sent in and Solana mints are kept exact.
+   */
+  private normalizeChannel(channel: string): string | null {
+    if (channel.startsWith('token:')) {
+      const parsed = parseChainAddress(channel.slice('token:'.length));
+      return parsed ? `token:${parsed.address}` : null;
+    }
+
     const validChannels = [
       'tokens',
       'alerts',
@@ -460,13 +514,13 @@ export class WebSocketManager {
 
     // Check for valid channel patterns
     const channelPatterns = [
-      /^token:[a-zA-Z0-9]+$/,    // token:ADDRESS
       /^filter:[a-zA-Z0-9_]+$/,  // filter:FILTER_ID
       /^user:[a-zA-Z0-9_]+$/     // user:USER_ID
     ];
 
-    return validChannels.includes(channel) ||
-           channelPatterns.some(pattern => pattern.test(channel));
+    return validChannels.includes(channel) || channelPatterns.some(pattern => pattern.test(channel))
+      ? channel
+      : null;
   }
 
   private getAvailableChannels(): string[] {
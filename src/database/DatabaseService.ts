@@ -12,6 +12,7 @@ import {
   SolscanTokenData,
   TokenFilterCriteria
 } from '../types/api.types';
+import { isLikelyHoneypot } from '../services/rugcheck.service';
 
 // Extended database-specific interfaces
 export interface DexAnalysisData {
@@ -979,7 +980,7 @@ export class DatabaseService {
         price_usd: analysis.dexScreener.price.toString(),
         volume_24h: analysis.dexScreener.volume24h.toString(),
         is_scam: !analysis.passed && analysis.failedFilters.some(f => f.includes('scam')),
-        is_honeypot: analysis.rugCheck.honeypotRisk
+        is_honeypot: isLikelyHoneypot(analysis.rugCheck.honeypotRisk)
       };
 
       await this.createToken(tokenData);
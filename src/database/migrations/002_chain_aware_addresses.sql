@@ -0,0 +1,28 @@
+-- 002_chain_aware_addresses.sql - Record each token's chain and validate addresses per chain
+-- Solana mints are case-sensitive base58 (32-44 chars); EVM addresses are 0x-prefixed
+-- hex (42 chars, stored EIP-55 checksummed), so both fit the existing VARCHAR(44) key.
+--
+-- The format check is added NOT VALID: rows lowercased by earlier versions still pass
+-- until `npm run db:repair-addresses` has restored their casing, after which
+-- `ALTER TABLE tokens VALIDATE CONSTRAINT valid_token_address;` can be run.
+
+BEGIN;
+
+ALTER TABLE tokens ADD COLUMN IF NOT EXISTS chain VARCHAR(20) NOT NULL DEFAULT 'solana';
+
+COMMENT ON COLUMN tokens.address IS 'Canonical address for the chain: base58 mint (Solana) or EIP-55 checksummed hex (EVM)';
+
+ALTER TABLE tokens DROP CONSTRAINT IF EXISTS valid_token_address;
+ALTER TABLE tokens ADD CONSTRAINT valid_token_address CHECK (
+    CASE
+        WHEN chain = 'solana' THEN address ~ '^[1-9A-HJ-NP-Za-km-z]{32,44}$'
+        WHEN chain IN ('ethereum', 'bsc', 'base', 'arbitrum', 'polygon', 'avalanche', 'optimism') THEN address ~ '^0x[0-9a-fA-F]{40}$'
+        ELSE true
+    END
+) NOT VALID;
+
+CREATE INDEX IF NOT EXISTS idx_tokens_chain ON tokens(chain);
+
+COMMIT;
+
+SELECT 'Migration 002_chain_aware_addresses.sql completed successfully' as status;
@@ -0,0 +1,37 @@
+/**
+ * repair-addresses.ts - Restore the casing of Solana mints stored lowercased
+ * Usage: npm run db:repair-addresses [-- --dry-run]
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { AddressRepairService } from '../services/address-repair.service';
+
+async function repairAddresses(dryRun: boolean): Promise<void> {
+  const prisma = new PrismaClient();
+
+  try {
+    const report = await new AddressRepairService(prisma).repair({ dryRun });
+
+    console.log(`🔍 Scanned ${report.scanned} lowercased token address(es)${dryRun ? ' (dry run)' : ''}`);
+    for (const repair of report.repaired) {
+      const action = repair.mergedInto ? `merged into ${repair.mergedInto}` : 'renamed';
+      console.log(`✅ ${repair.from} -> ${repair.to} (${repair.source}, ${action})`);
+    }
+    for (const address of report.unresolved) {
+      console.log(`⚠️  ${address}: casing could not be recovered`);
+    }
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+if (require.main === module) {
+  repairAddresses(process.argv.includes('--dry-run'))
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('❌ Address repair failed:', error);
+      process.exit(1);
+    });
+}
+
+export { repairAddresses };
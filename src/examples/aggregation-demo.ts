@@ -9,7 +9,8 @@ import {
   DexScreenerService,
   RugCheckService,
   JupiterService,
-  SolscanService
+  SolscanService,
+  createOnChainProvider
 } from '../services';
 import { TokenFilterCriteria } from '../types/api.types';
 import { Logger } from '../utils/logger';
@@ -23,8 +24,8 @@ async function demonstrateTokenAggregation() {
 
   // Initialize all services
   const dexScreenerService = new DexScreenerService();
-  const rugCheckService = new RugCheckService();
   const jupiterService = new JupiterService();
+  const rugCheckService = new RugCheckService(createOnChainProvider(), jupiterService);
   const solscanService = new SolscanService();
 
   // Define comprehensive filter criteria
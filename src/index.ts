@@ -4,6 +4,7 @@
  */
 
 import dotenv from 'dotenv';
+import { PrismaClient } from '@prisma/client';
 import { Logger } from './utils/logger';
 import { DatabaseManager } from './config/database.config';
 import { TokenAggregatorService } from './services/token-aggregator.service';
@@ -11,6 +12,11 @@ import { DexScreenerService } from './services/dexscreener.service';
 import { RugCheckService } from './services/rugcheck.service';
 import { JupiterService } from './services/jupiter.service';
 import { SolscanService } from './services/solscan.service';
+import { createOnChainProvider } from './services/onchain';
+import { createDiscoverySource } from './services/discovery';
+import { PipelineJobService } from './services/pipeline-job.service';
+import { PipelineRunService } from './services/pipeline-run.service';
+import { CreatorReputationService } from './services/creator-reputation.service';
 import { HealthCheckService } from './services/health-check.service';
 
 // Load environment variables
@@ -19,6 +25,8 @@ dotenv.config();
 class MemecoinTradingSystem {
   private readonly logger = Logger.getInstance();
   private readonly dbManager = DatabaseManager.getInstance();
+  // Shared by the creator reputation and pipeline job and run services
+  private readonly prisma = new PrismaClient();
   private aggregatorService: TokenAggregatorService;
   private healthService: HealthCheckService;
 
@@ -26,17 +34,26 @@ class MemecoinTradingSystem {
     this.logger.info('Initializing Memecoin Trading Algorithm System');
 
     // Initialize API services
+    const onChainProvider = createOnChainProvider();
     const dexScreenerService = new DexScreenerService();
-    const rugCheckService = new RugCheckService();
     const jupiterService = new JupiterService();
-    const solscanService = new SolscanService();
+    const rugCheckService = new RugCheckService(onChainProvider, jupiterService);
+    const solscanService = new SolscanService(
+      undefined,
+      onChainProvider,
+      new CreatorReputationService(this.prisma, onChainProvider, dexScreenerService)
+    );
 
     // Initialize aggregator with all services
     this.aggregatorService = new TokenAggregatorService(
       dexScreenerService,
       rugCheckService,
       jupiterService,
-      solscanService
+      solscanService,
+      undefined,
+      createDiscoverySource(),
+      new PipelineJobService(this.prisma),
+      new PipelineRunService(this.prisma)
     );
 
     // Initialize health check service
@@ -141,7 +158,8 @@ class MemecoinTradingSystem {
         this.logger.info('Token aggregation service stopped');
       }
 
-      // Close database connections
+      // Close database connections once the aggregator no longer uses them
+      await this.prisma.$disconnect();
       await this.dbManager.close();
       this.logger.info('Database connections closed');
 
@@ -33,6 +33,19 @@ export const FILTER_FIELDS: FilterField[] = [
     min: 0,
     validation: { min: 0 }
   },
+  {
+    id: 'chain',
+    label: 'Chain',
+    type: 'select',
+    category: 'basic',
+    description: 'Blockchain the token trades on',
+    options: [
+      { value: 'solana', label: 'Solana' },
+      { value: 'ethereum', label: 'Ethereum' },
+      { value: 'base', label: 'Base' },
+      { value: 'bsc', label: 'BNB Chain' }
+    ]
+  },
 
   // Trading Metrics
   {
@@ -75,6 +88,16 @@ export const FILTER_FIELDS: FilterField[] = [
     min: -100,
     max: 1000
   },
+  {
+    id: 'price_change_7d',
+    label: '7d Price Change',
+    type: 'number',
+    category: 'trading',
+    description: '7-day price change percentage',
+    unit: '%',
+    min: -100,
+    max: 100000
+  },
   {
     id: 'buys_count',
     label: 'Buy Count',
@@ -102,6 +125,30 @@ export const FILTER_FIELDS: FilterField[] = [
     min: 0,
     validation: { min: 0 }
   },
+  {
+    id: 'signal_type',
+    label: 'Signal Type',
+    type: 'select',
+    category: 'trading',
+    description: 'Type of a recent trading signal',
+    options: [
+      { value: 'BUY', label: 'Buy' },
+      { value: 'STRONG_BUY', label: 'Strong Buy' },
+      { value: 'HOLD', label: 'Hold' },
+      { value: 'SELL', label: 'Sell' },
+      { value: 'STRONG_SELL', label: 'Strong Sell' }
+    ]
+  },
+  {
+    id: 'signal_strength',
+    label: 'Signal Strength',
+    type: 'number',
+    category: 'trading',
+    description: 'Strength of a recent trading signal (0-1)',
+    min: 0,
+    max: 1,
+    validation: { min: 0, max: 1 }
+  },
 
   // Safety Metrics
   {
@@ -145,6 +192,28 @@ export const FILTER_FIELDS: FilterField[] = [
     max: 100,
     validation: { min: 0, max: 100 }
   },
+  {
+    id: 'effective_top_holders',
+    label: 'Effective Top Holders',
+    type: 'number',
+    category: 'safety',
+    description: 'Top 3 holders percentage, with wallets sharing a funding source counted as one holder',
+    unit: '%',
+    min: 0,
+    max: 100,
+    validation: { min: 0, max: 100 }
+  },
+  {
+    id: 'clustered_supply',
+    label: 'Clustered Supply',
+    type: 'number',
+    category: 'safety',
+    description: 'Supply percentage held by holder wallets sharing a funding source',
+    unit: '%',
+    min: 0,
+    max: 100,
+    validation: { min: 0, max: 100 }
+  },
   {
     id: 'contract_verified',
     label: 'Contract Verified',
@@ -0,0 +1,447 @@
+/**
+ * Filter Engine
+ * Validates, compiles and evaluates nested AND/OR filter groups
+ *
+ * Shared by the API and the dashboard, so this module has no runtime
+ * dependencies beyond the field catalogue. A FilterGroup is evaluated against
+ * a FilterRecord - a flat map of catalogue field id to value.
+ *
+ * On the backend, conditions on fields that map to a column are compiled into
+ * a Prisma where-clause; everything else is checked in memory against the
+ * candidate rows. `compileFilterGroup` reports whether the where-clause alone
+ * is exact, so callers only post-filter when they have to.
+ */
+
+import { FILTER_FIELDS, OPERATORS } from '../constants/filter-fields';
+import { FilterCondition, FilterField, FilterGroup, FilterPreview } from '../../types/filter';
+
+export type FilterOperator = FilterCondition['operator'];
+
+export type FilterScalar = string | number | boolean | Date | null | undefined;
+
+/**
+ * Field id → value. Array values hold one entry per related row (e.g. every
+ * recent trading signal) and match when any entry matches.
+ */
+export type FilterRecord = Record<string, FilterScalar | FilterScalar[]>;
+
+/**
+ * How a catalogue field maps onto a database column.
+ * - `relation`: the column lives on a to-many relation, matched with `some`
+ * - `type: 'age'`: the field is an age in hours and the column the DateTime
+ *   it is measured from, so comparisons flip direction
+ */
+export interface FilterColumnBinding {
+  column: string;
+  relation?: string;
+  type?: 'value' | 'age';
+}
+
+export type FilterBindings = Record<string, FilterColumnBinding>;
+
+export type FilterWhere = Record<string, unknown>;
+
+export interface CompiledFilter {
+  where?: FilterWhere; // undefined when nothing could be pushed down
+  exact: boolean; // true when `where` alone selects exactly the matching rows
+}
+
+export interface FilterAnalysis {
+  conditionCount: number;
+  groupCount: number;
+  depth: number;
+  postFilterCount: number; // conditions that must be checked in memory
+  complexity: FilterPreview['performance']['complexity'];
+}
+
+export const MAX_FILTER_DEPTH = 5;
+export const MAX_FILTER_CONDITIONS = 50;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Rough cost model for FilterPreview.performance.estimatedTime
+const BASE_QUERY_MS = 5;
+const IN_MEMORY_CHECK_MS = 0.002;
+
+const VALID_OPERATORS: FilterOperator[] = [
+  'eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'not_in', 'contains', 'not_contains', 'between'
+];
+
+const RANGE_OPERATORS: FilterOperator[] = ['gt', 'gte', 'lt', 'lte', 'between'];
+
+export function isFilterGroup(value: unknown): value is FilterGroup {
+  if (!value || typeof value !== 'object') return false;
+
+  const candidate = value as Partial<FilterGroup>;
+  return (candidate.operator === 'AND' || candidate.operator === 'OR') &&
+    Array.isArray(candidate.conditions) &&
+    Array.isArray(candidate.groups);
+}
+
+export function getFilterField(fieldId: string, fields: FilterField[] = FILTER_FIELDS): FilterField | undefined {
+  return fields.find(field => field.id === fieldId);
+}
+
+/**
+ * Operators offered for a field. Dates and ranges compare like numbers.
+ */
+export function getOperatorsForField(field: FilterField): FilterOperator[] {
+  const type = field.type === 'date' || field.type === 'range' ? 'number' : field.type;
+  return OPERATORS[type].map(operator => operator.value as FilterOperator);
+}
+
+/**
+ * Check a filter group against the field catalogue. Returns human readable
+ * errors; an empty list means the group is valid.
+ */
+export function validateFilterGroup(group: FilterGroup, fields: FilterField[] = FILTER_FIELDS): string[] {
+  const errors: string[] = [];
+  const analysis = analyzeFilterGroup(group);
+
+  if (analysis.depth > MAX_FILTER_DEPTH) {
+    errors.push(`Filter groups can be nested at most ${MAX_FILTER_DEPTH} levels deep`);
+  }
+  if (analysis.conditionCount > MAX_FILTER_CONDITIONS) {
+    errors.push(`Filters can have at most ${MAX_FILTER_CONDITIONS} conditions`);
+  }
+
+  const visit = (current: FilterGroup): void => {
+    if (current.operator !== 'AND' && current.operator !== 'OR') {
+      errors.push(`Unknown group operator "${current.operator}"`);
+    }
+
+    for (const condition of current.conditions) {
+      errors.push(...validateCondition(condition, fields));
+    }
+
+    current.groups.forEach(visit);
+  };
+
+  visit(group);
+  return errors;
+}
+
+function validateCondition(condition: FilterCondition, fields: FilterField[]): string[] {
+  const field = getFilterField(condition.field, fields);
+
+  if (!field) {
+    return [`Unknown filter field "${condition.field}"`];
+  }
+  if (!VALID_OPERATORS.includes(condition.operator) || !getOperatorsForField(field).includes(condition.operator)) {
+    return [`${field.label}: operator "${condition.operator}" is not supported`];
+  }
+
+  const { operator, value } = condition;
+
+  if (operator === 'between') {
+    if (!Array.isArray(value) || value.length !== 2 || !value.every(isFiniteNumber)) {
+      return [`${field.label}: "between" expects [min, max]`];
+    }
+    if (value[0] > value[1]) {
+      return [`${field.label}: range minimum is greater than its maximum`];
+    }
+    return validateBounds(field, value);
+  }
+
+  if (operator === 'in' || operator === 'not_in') {
+    if (!Array.isArray(value) || value.length === 0) {
+      return [`${field.label}: "${operator}" expects a non-empty list`];
+    }
+    return validateOptions(field, value);
+  }
+
+  switch (field.type) {
+    case 'number':
+    case 'date':
+    case 'range':
+      if (!isFiniteNumber(value)) {
+        return [`${field.label}: expected a number`];
+      }
+      return validateBounds(field, [value]);
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${field.label}: expected true or false`];
+    case 'select':
+      return validateOptions(field, [value]);
+    default:
+      return typeof value === 'string' && value.length > 0 ? [] : [`${field.label}: expected a value`];
+  }
+}
+
+function validateBounds(field: FilterField, values: number[]): string[] {
+  const min = field.validation?.min;
+  const max = field.validation?.max;
+
+  if (values.some(value => (min !== undefined && value < min) || (max !== undefined && value > max))) {
+    const range = max !== undefined ? `between ${min ?? '-∞'} and ${max}` : `at least ${min}`;
+    return [`${field.label}: value must be ${range}`];
+  }
+  return [];
+}
+
+function validateOptions(field: FilterField, values: unknown[]): string[] {
+  if (!field.options) return [];
+
+  const allowed = field.options.map(option => option.value);
+  const invalid = values.filter(value => !allowed.includes(value as string));
+
+  return invalid.length > 0
+    ? [`${field.label}: unknown option ${invalid.map(value => `"${String(value)}"`).join(', ')}`]
+    : [];
+}
+
+/**
+ * Evaluate a filter group against a single record. Missing values never
+ * match, the same way NULL columns behave in SQL.
+ */
+export function evaluateFilterGroup(group: FilterGroup, record: FilterRecord): boolean {
+  const results = [
+    ...group.conditions.map(condition => () => evaluateCondition(condition, record)),
+    ...group.groups.map(child => () => evaluateFilterGroup(child, record))
+  ];
+
+  return group.operator === 'OR' && results.length > 0
+    ? results.some(result => result())
+    : results.every(result => result());
+}
+
+export function evaluateCondition(condition: FilterCondition, record: FilterRecord): boolean {
+  const actual = record[condition.field];
+
+  return Array.isArray(actual)
+    ? actual.some(entry => matchesValue(entry, condition.operator, condition.value))
+    : matchesValue(actual, condition.operator, condition.value);
+}
+
+function matchesValue(actual: FilterScalar, operator: FilterOperator, expected: unknown): boolean {
+  if (actual === null || actual === undefined) return false;
+
+  const value = actual instanceof Date ? actual.getTime() : actual;
+
+  switch (operator) {
+    case 'eq':
+      return value === coerceLike(value, expected);
+    case 'ne':
+      return value !== coerceLike(value, expected);
+    case 'gt':
+      return compareNumbers(value, expected, (a, b) => a > b);
+    case 'gte':
+      return compareNumbers(value, expected, (a, b) => a >= b);
+    case 'lt':
+      return compareNumbers(value, expected, (a, b) => a < b);
+    case 'lte':
+      return compareNumbers(value, expected, (a, b) => a <= b);
+    case 'between':
+      return Array.isArray(expected) &&
+        compareNumbers(value, expected[0], (a, b) => a >= b) &&
+        compareNumbers(value, expected[1], (a, b) => a <= b);
+    case 'in':
+      return Array.isArray(expected) && expected.some(option => value === coerceLike(value, option));
+    case 'not_in':
+      return Array.isArray(expected) && !expected.some(option => value === coerceLike(value, option));
+    case 'contains':
+      return String(value).toLowerCase().includes(String(expected).toLowerCase());
+    case 'not_contains':
+      return !String(value).toLowerCase().includes(String(expected).toLowerCase());
+    default:
+      return false;
+  }
+}
+
+// Form inputs hand over strings; compare them as the record's own type
+function coerceLike(actual: string | number | boolean, expected: unknown): unknown {
+  if (typeof actual === 'number' && typeof expected === 'string') return Number(expected);
+  if (typeof actual === 'boolean' && typeof expected === 'string') return expected === 'true';
+  return expected;
+}
+
+function compareNumbers(actual: unknown, expected: unknown, compare: (a: number, b: number) => boolean): boolean {
+  const a = typeof actual === 'number' ? actual : Number.NaN;
+  const b = typeof expected === 'number' ? expected : Number(expected);
+  return Number.isFinite(a) && Number.isFinite(b) && compare(a, b);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Compile a filter group into a Prisma where-clause over the bound columns.
+ *
+ * AND groups push down every child that compiles and stay exact only if all
+ * of them are exact. An OR group can only be pushed down when every branch
+ * compiles - otherwise any row might match through the missing branch.
+ */
+export function compileFilterGroup(group: FilterGroup, bindings: FilterBindings, now: Date = new Date()): CompiledFilter {
+  const children: CompiledFilter[] = [
+    ...group.conditions.map(condition => compileCondition(condition, bindings, now)),
+    ...group.groups.map(child => compileFilterGroup(child, bindings, now))
+  ];
+
+  if (children.length === 0) {
+    return { exact: true };
+  }
+
+  const exact = children.every(child => child.exact);
+
+  if (group.operator === 'OR') {
+    if (children.some(child => !child.where)) {
+      return { exact: false };
+    }
+    const clauses = children.map(child => child.where!);
+    return { where: clauses.length === 1 ? clauses[0] : { OR: clauses }, exact };
+  }
+
+  const clauses = children.filter(child => child.where).map(child => child.where!);
+
+  if (clauses.length === 0) {
+    return { exact };
+  }
+  return { where: clauses.length === 1 ? clauses[0] : { AND: clauses }, exact };
+}
+
+function compileCondition(condition: FilterCondition, bindings: FilterBindings, now: Date): CompiledFilter {
+  const binding = bindings[condition.field];
+  if (!binding) {
+    return { exact: false };
+  }
+
+  const filter = binding.type === 'age'
+    ? compileAgeFilter(condition, now)
+    : compileValueFilter(condition);
+
+  if (!filter) {
+    return { exact: false };
+  }
+
+  const where = { [binding.column]: filter };
+  return {
+    where: binding.relation ? { [binding.relation]: { some: where } } : where,
+    exact: true
+  };
+}
+
+function compileValueFilter({ operator, value }: FilterCondition): FilterWhere | undefined {
+  switch (operator) {
+    case 'eq':
+      return { equals: value };
+    case 'ne':
+      return { not: value };
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte':
+      return { [operator]: value };
+    case 'between':
+      return { gte: value[0], lte: value[1] };
+    case 'in':
+      return { in: value };
+    case 'not_in':
+      return { notIn: value };
+    case 'contains':
+      return { contains: String(value), mode: 'insensitive' };
+    case 'not_contains':
+      return { not: { contains: String(value), mode: 'insensitive' } };
+    default:
+      return undefined;
+  }
+}
+
+// Older than N hours means created before now - N hours
+function compileAgeFilter({ operator, value }: FilterCondition, now: Date): FilterWhere | undefined {
+  const hoursAgo = (hours: number) => new Date(now.getTime() - hours * HOUR_MS);
+
+  switch (operator) {
+    case 'gt':
+      return { lt: hoursAgo(value) };
+    case 'gte':
+      return { lte: hoursAgo(value) };
+    case 'lt':
+      return { gt: hoursAgo(value) };
+    case 'lte':
+      return { gte: hoursAgo(value) };
+    case 'between':
+      return { gte: hoursAgo(value[1]), lte: hoursAgo(value[0]) };
+    default:
+      return undefined; // exact ages are compared in memory
+  }
+}
+
+/**
+ * Size and shape of a filter group. Without bindings every condition counts
+ * as checked in memory, which is how the dashboard evaluates filters.
+ */
+export function analyzeFilterGroup(group: FilterGroup, bindings?: FilterBindings): FilterAnalysis {
+  let conditionCount = 0;
+  let groupCount = 0;
+  let postFilterCount = 0;
+
+  const visit = (current: FilterGroup, level: number): number => {
+    groupCount++;
+    conditionCount += current.conditions.length;
+    postFilterCount += current.conditions.filter(condition => {
+      const binding = bindings?.[condition.field];
+      return !binding || (binding.type === 'age' && !RANGE_OPERATORS.includes(condition.operator));
+    }).length;
+
+    return current.groups.reduce((depth, child) => Math.max(depth, visit(child, level + 1)), level);
+  };
+
+  const depth = visit(group, 1);
+  const score = conditionCount + (depth - 1) * 2 + (bindings ? postFilterCount * 2 : 0);
+
+  return {
+    conditionCount,
+    groupCount,
+    depth,
+    postFilterCount,
+    complexity: score <= 4 ? 'low' : score <= 10 ? 'medium' : 'high'
+  };
+}
+
+/**
+ * Build the preview shown while a filter is being edited. `scannedRecords` is
+ * how many rows have to be checked in memory to produce the result.
+ */
+export function buildFilterPreview(
+  group: FilterGroup,
+  estimate: { estimatedMatches: number; scannedRecords: number },
+  options: { fields?: FilterField[]; bindings?: FilterBindings } = {}
+): FilterPreview {
+  const errors = validateFilterGroup(group, options.fields);
+  const analysis = analyzeFilterGroup(group, options.bindings);
+  const checksPerRecord = Math.max(analysis.conditionCount, 1);
+
+  return {
+    estimatedMatches: errors.length === 0 ? Math.max(0, Math.round(estimate.estimatedMatches)) : 0,
+    isValid: errors.length === 0,
+    errors,
+    performance: {
+      complexity: analysis.complexity,
+      estimatedTime: Math.ceil(BASE_QUERY_MS + estimate.scannedRecords * checksPerRecord * IN_MEMORY_CHECK_MS)
+    }
+  };
+}
+
+/**
+ * One-line, human readable form of a filter group, e.g.
+ * `Liquidity > 5000 AND (Safety Score >= 60 OR Contract Verified = true)`
+ */
+export function describeFilterGroup(group: FilterGroup, fields: FilterField[] = FILTER_FIELDS): string {
+  const symbols: Record<FilterOperator, string> = {
+    eq: '=', ne: '≠', gt: '>', gte: '>=', lt: '<', lte: '<=',
+    in: 'in', not_in: 'not in', contains: 'contains', not_contains: 'does not contain', between: 'between'
+  };
+
+  const parts = [
+    ...group.conditions.map(condition => {
+      const label = getFilterField(condition.field, fields)?.label ?? condition.field;
+      const value = Array.isArray(condition.value)
+        ? condition.operator === 'between' ? condition.value.join(' and ') : `[${condition.value.join(', ')}]`
+        : String(condition.value);
+      return `${label} ${symbols[condition.operator] ?? condition.operator} ${value}`;
+    }),
+    ...group.groups.map(child => `(${describeFilterGroup(child, fields)})`)
+  ];
+
+  return parts.join(` ${group.operator} `);
+}
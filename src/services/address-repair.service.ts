@@ -0,0 +1,173 @@
+/**
+ * Address Repair Service
+ * One-off migration for Solana mints that were stored lowercased
+ *
+ * Earlier versions lowercased every token address before caching and
+ * upserting it, which turns a base58 mint into a different (usually invalid)
+ * key. For each such row the real casing is recovered from creator_tokens, a
+ * mixed-case duplicate in tokens, or a DexScreener search, and the row is
+ * renamed - or merged into the duplicate when one already exists. Rows whose
+ * casing cannot be recovered are reported and left alone.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { DexScreenerService } from './dexscreener.service';
+import { Logger } from '../utils/logger';
+import { isSolanaAddress, looksLowercased } from '../utils/address';
+
+export interface AddressRepair {
+  tokenId: string;
+  from: string;
+  to: string;
+  source: 'creator_tokens' | 'tokens' | 'dexscreener';
+  mergedInto?: string; // id of the existing correctly-cased token row
+}
+
+export interface AddressRepairReport {
+  dryRun: boolean;
+  scanned: number;
+  repaired: AddressRepair[];
+  unresolved: string[];
+}
+
+interface LowercasedToken {
+  id: string;
+  address: string;
+}
+
+type Transaction = Prisma.TransactionClient;
+
+export class AddressRepairService {
+  private readonly logger = Logger.getInstance();
+
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly dexScreener: Pick<DexScreenerService, 'searchTokenAddresses'> = new DexScreenerService()
+  ) {}
+
+  async repair(options: { dryRun?: boolean } = {}): Promise<AddressRepairReport> {
+    const dryRun = options.dryRun ?? false;
+    const candidates = await this.findLowercasedTokens();
+    const report: AddressRepairReport = { dryRun, scanned: candidates.length, repaired: [], unresolved: [] };
+
+    for (const token of candidates) {
+      const resolved = await this.resolveAddress(token.address);
+      if (!resolved) {
+        report.unresolved.push(token.address);
+        continue;
+      }
+
+      const existing = await this.prisma.token.findUnique({
+        where: { address: resolved.address },
+        select: { id: true }
+      });
+
+      const repair: AddressRepair = {
+        tokenId: token.id,
+        from: token.address,
+        to: resolved.address,
+        source: resolved.source,
+        ...(existing && { mergedInto: existing.id })
+      };
+
+      if (!dryRun) {
+        await this.prisma.$transaction(tx => existing
+          ? this.mergeToken(tx, token, existing.id, resolved.address)
+          : this.renameToken(tx, token, resolved.address));
+      }
+
+      report.repaired.push(repair);
+    }
+
+    this.logger.info('Address repair finished', {
+      dryRun,
+      scanned: report.scanned,
+      repaired: report.repaired.length,
+      unresolved: report.unresolved.length
+    });
+
+    return report;
+  }
+
+  private async findLowercasedTokens(): Promise<LowercasedToken[]> {
+    const rows = await this.prisma.$queryRaw<LowercasedToken[]>`
+      SELECT id, address FROM tokens
+      WHERE (chain IS NULL OR chain = 'solana') AND address = lower(address)
+    `;
+    return rows.filter(row => looksLowercased(row.address));
+  }
+
+  private async resolveAddress(lowercased: string): Promise<{ address: string; source: AddressRepair['source'] } | null> {
+    const matches = (candidates: string[]): string | undefined => candidates.find(candidate =>
+      candidate !== lowercased && candidate.toLowerCase() === lowercased && isSolanaAddress(candidate));
+
+    const mints = await this.prisma.$queryRaw<Array<{ mint: string }>>`
+      SELECT mint FROM creator_tokens WHERE lower(mint) = ${lowercased}
+    `;
+    const fromCreators = matches(mints.map(row => row.mint));
+    if (fromCreators) {
+      return { address: fromCreators, source: 'creator_tokens' };
+    }
+
+    const tokens = await this.prisma.$queryRaw<Array<{ address: string }>>`
+      SELECT address FROM tokens WHERE lower(address) = ${lowercased} AND address <> ${lowercased}
+    `;
+    const fromTokens = matches(tokens.map(row => row.address));
+    if (fromTokens) {
+      return { address: fromTokens, source: 'tokens' };
+    }
+
+    const search = await this.dexScreener.searchTokenAddresses(lowercased);
+    const fromSearch = search.success && search.data ? matches(search.data) : undefined;
+    if (fromSearch) {
+      return { address: fromSearch, source: 'dexscreener' };
+    }
+
+    return null;
+  }
+
+  private async renameToken(tx: Transaction, token: LowercasedToken, address: string): Promise<void> {
+    await tx.token.update({ where: { id: token.id }, data: { address } });
+    await this.moveSubscriptions(tx, token, token.id, address);
+  }
+
+  // Point everything at the correctly-cased row, then drop the lowercased one
+  private async mergeToken(tx: Transaction, token: LowercasedToken, targetId: string, address: string): Promise<void> {
+    const moved = { where: { tokenId: token.id }, data: { tokenId: targetId } };
+
+    await tx.tokenPrice.updateMany(moved);
+    await tx.tokenAnalysis.updateMany(moved);
+    await tx.alert.updateMany(moved);
+    await tx.alertEvent.updateMany(moved);
+    await tx.priceData.updateMany(moved);
+    await tx.tradingSignal.updateMany(moved);
+    await tx.safetyScore.updateMany(moved);
+    await tx.trade.updateMany(moved);
+    await this.moveSubscriptions(tx, token, targetId, address);
+
+    await tx.token.delete({ where: { id: token.id } });
+  }
+
+  // Token subscriptions are unique per user and address, so duplicates created under both casings are dropped
+  private async moveSubscriptions(tx: Transaction, token: LowercasedToken, targetId: string, address: string): Promise<void> {
+    const subscriptions = await tx.alertSubscription.findMany({
+      where: { OR: [{ tokenId: token.id }, { type: 'token', target: token.address }] }
+    });
+
+    for (const subscription of subscriptions) {
+      const target = subscription.type === 'token' ? address : subscription.target;
+      const duplicate = await tx.alertSubscription.findUnique({
+        where: { userId_type_target: { userId: subscription.userId, type: subscription.type, target } }
+      });
+
+      if (duplicate && duplicate.id !== subscription.id) {
+        await tx.alertSubscription.delete({ where: { id: subscription.id } });
+      } else {
+        await tx.alertSubscription.update({
+          where: { id: subscription.id },
+          data: { tokenId: targetId, target }
+        });
+      }
+    }
+  }
+}
@@ -0,0 +1,826 @@
+/**
+ * Alert Engine Service
+ * Persistent alert rules evaluated against every new token snapshot
+ *
+ * Rules are rows in the alerts table and every firing is a row in
+ * alert_events, so the feed, history and summary survive restarts. The loop
+ * looks for tokens with PriceData or SafetyScore rows newer than the last
+ * poll and evaluates the active rules watching them against the latest
+ * values. Each token's PriceData and SafetyScore history is merged into a
+ * metric series so conditions can look at changes, highs, lows and crosses
+ * over a period. A rule fires when its condition starts to hold:
+ * - once fired it stays disarmed until the metric moves back past the
+ *   threshold by the rule's hysteresis, so a value hovering at the threshold
+ *   fires once rather than on every snapshot
+ * - it never fires again within its cooldown
+ * - one_shot rules deactivate after firing, and any rule deactivates once
+ *   it expires
+ * Rules watching every token keep their arming state and cooldown per token
+ * in alert_token_states, so one token firing does not silence the others.
+ *
+ * System alerts, such as watchlist degradations, are stored as firings
+ * without a rule, and subscription matches as firings tagged with the
+ * subscription. replay() runs a proposed rule over stored history to
+ * estimate how often it would fire.
+ */
+
+import { EventEmitter } from 'events';
+import { PrismaClient, Prisma, AlertEvent, AlertTokenState } from '@prisma/client';
+import { Alert, AlertHistoryQuery, AlertRule, AlertsQuery, CreateAlertRequest } from '../../api/types/api.types';
+import { TokenDegradation } from '../watchlist-monitor.service';
+import { TokenPoolChanges } from '../token-market.service';
+import { Logger } from '../../utils/logger';
+import {
+  AlertCondition,
+  AlertEvaluation,
+  AlertMode,
+  AlertRuleState,
+  AlertSeverity,
+  AlertType,
+  MetricSample
+} from './types';
+import { buildMetricSeries, conditionLookbackMs, describeCondition, evaluateCondition } from './conditions';
+
+export interface AlertEngineConfig {
+  pollIntervalMs: number;
+  historySlackMs: number; // extra history loaded beyond the longest period, so crosses see a previous sample
+  replayTokenLimit: number; // tokens replayed when testing a rule that watches every token
+}
+
+export type TriggerFrequency = 'low' | 'medium' | 'high';
+
+export interface AlertReplayResult {
+  isValid: boolean;
+  lookbackHours: number;
+  tokensReplayed: number;
+  snapshotsReplayed: number;
+  conditionHeld: number; // snapshots where the condition held, fired or not
+  triggerCount: number;
+  triggersPerDay: number;
+  estimatedTriggerFrequency: TriggerFrequency;
+  triggers: Array<{ tokenAddress: string; tokenSymbol: string; triggeredAt: string; value: number | null }>;
+  potentialIssues: string[];
+  recommendation: string;
+}
+
+export interface RaiseAlertInput {
+  type: AlertType;
+  severity: AlertSeverity;
+  title: string;
+  message: string;
+  tokenId?: string | null;
+  alertId?: string | null;
+  subscriptionId?: string | null;
+  metadata?: Record<string, unknown>;
+  triggeredAt?: Date;
+}
+
+export interface AlertSummary {
+  total: number;
+  active: number; // unread
+  acknowledged: number;
+  bySeverity: Record<AlertSeverity, number>;
+  byType: Record<AlertType, number>;
+  rules: { active: number; triggered: number };
+  recent: Alert[];
+}
+
+export const DEFAULT_ALERT_ENGINE_CONFIG: AlertEngineConfig = {
+  pollIntervalMs: 15000,
+  historySlackMs: 60 * 60 * 1000,
+  replayTokenLimit: 20
+};
+
+// Replayed firings per day above which a rule counts as medium or high frequency
+const FREQUENCY_THRESHOLDS = { medium: 1, high: 12 };
+const MAX_REPLAY_TRIGGERS_LISTED = 20;
+
+const ALERT_SEVERITIES: AlertSeverity[] = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'];
+const ALERT_TYPES: AlertType[] = ['PRICE_ALERT', 'VOLUME_ALERT', 'SAFETY_ALERT', 'SIGNAL_ALERT', 'NEWS_ALERT'];
+
+/**
+ * Decide whether a rule fires at series[index] (the last sample by default) and what state it is left in
+ */
+export function evaluateAlertRule(
+  rule: AlertRuleState,
+  series: MetricSample[],
+  now: Date = new Date(),
+  index: number = series.length - 1
+): AlertEvaluation {
+  const unchanged = { fire: false, holds: null, value: null, isActive: rule.isActive, isTriggered: rule.isTriggered, changed: false };
+
+  if (!rule.isActive) {
+    return unchanged;
+  }
+
+  if (rule.expiresAt && rule.expiresAt <= now) {
+    return { ...unchanged, isActive: false, changed: true };
+  }
+
+  const { holds, value, margin } = evaluateCondition(rule.condition, series, index);
+  const evaluated = { ...unchanged, holds, value };
+
+  if (holds === null) {
+    return evaluated;
+  }
+
+  if (rule.isTriggered) {
+    // Re-arm once the condition stops holding and, for threshold comparisons, clears the hysteresis margin
+    const rearmed = !holds && (margin === null || margin >= rule.hysteresis);
+    return rearmed ? { ...evaluated, isTriggered: false, changed: true } : evaluated;
+  }
+
+  const coolingDown = rule.triggeredAt !== null && now.getTime() - rule.triggeredAt.getTime() < rule.cooldownSeconds * 1000;
+  if (!holds || coolingDown) {
+    return evaluated;
+  }
+
+  return { ...evaluated, fire: true, isActive: rule.mode === 'recurring', isTriggered: true, changed: true };
+}
+
+export function triggerFrequency(triggersPerDay: number): TriggerFrequency {
+  if (triggersPerDay > FREQUENCY_THRESHOLDS.high) return 'high';
+  if (triggersPerDay > FREQUENCY_THRESHOLDS.medium) return 'medium';
+  return 'low';
+}
+
+type SeriesToken = { id: string; address: string; symbol: string };
+
+type RuleWithToken = Prisma.AlertGetPayload<{ include: { token: { select: { address: true; symbol: true } } } }>;
+
+type EventWithToken = AlertEvent & { token: { address: string; symbol: string } | null };
+
+type TokenArming = Pick<AlertTokenState, 'isTriggered' | 'triggeredAt'>;
+
+const UNARMED: TokenArming = { isTriggered: false, triggeredAt: null };
+
+export class AlertEngineService extends EventEmitter {
+  private readonly logger = Logger.getInstance();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private isPolling = false;
+  private lastSnapshotAt: Date | null = null;
+
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly config: AlertEngineConfig = DEFAULT_ALERT_ENGINE_CONFIG
+  ) {
+    super();
+  }
+
+  start(): void {
+    if (this.pollTimer) {
+      return;
+    }
+
+    this.pollTimer = setInterval(() => {
+      void this.pollForSnapshots();
+    }, this.config.pollIntervalMs);
+
+    this.logger.info('Alert engine started', { pollIntervalMs: this.config.pollIntervalMs });
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+      this.logger.info('Alert engine stopped');
+    }
+  }
+
+  /**
+   * Evaluate rules for every token with a snapshot newer than the last poll.
+   * The first poll only sets the cursor, so history written before the engine
+   * started never fires. Returns the alerts fired.
+   */
+  async pollForSnapshots(now: Date = new Date()): Promise<Alert[]> {
+    if (this.isPolling) {
+      return [];
+    }
+
+    this.isPolling = true;
+
+    try {
+      const since = this.lastSnapshotAt;
+      this.lastSnapshotAt = now;
+
+      if (!since) {
+        return [];
+      }
+
+      const newer = { some: { timestamp: { gt: since, lte: now } } };
+      const tokens = await this.prisma.token.findMany({
+        where: { OR: [{ priceData: newer }, { safetyScores: newer }] },
+        select: { id: true, address: true, symbol: true }
+      });
+
+      if (tokens.length === 0) {
+        return [];
+      }
+
+      const rules = await this.prisma.alert.findMany({
+        where: { isActive: true, OR: [{ tokenId: { in: tokens.map(token => token.id) } }, { tokenId: null }] },
+        include: { token: { select: { address: true, symbol: true } } }
+      });
+
+      if (rules.length === 0) {
+        return [];
+      }
+
+      const lookbackMs = Math.max(...rules.map(rule => conditionLookbackMs(rule.condition as unknown as AlertCondition)));
+      const series = await this.loadSeries(
+        tokens.map(token => token.id),
+        new Date(now.getTime() - lookbackMs - this.config.historySlackMs),
+        now
+      );
+      const tokenStates = await this.loadTokenStates(
+        rules.filter(rule => rule.tokenId === null).map(rule => rule.id),
+        tokens.map(token => token.id)
+      );
+
+      const fired: Alert[] = [];
+      for (const token of tokens) {
+        const tokenSeries = series.get(token.id) ?? [];
+        for (const rule of rules.filter(entry => entry.tokenId === null || entry.tokenId === token.id)) {
+          const arming = rule.tokenId === null ? tokenStates.get(`${rule.id}:${token.id}`) ?? UNARMED : null;
+          const alert = await this.applyRule(rule, token, tokenSeries, now, arming);
+          if (alert) fired.push(alert);
+        }
+      }
+
+      return fired;
+    } catch (error) {
+      this.logger.error('Alert evaluation failed', { error: error instanceof Error ? error.message : String(error) });
+      return [];
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  /**
+   * Run a proposed rule over the last lookbackHours of stored snapshots, with
+   * its cooldown, hysteresis and mode applied, to estimate how often it would
+   * fire. Rules watching every token replay over the most recently updated
+   * tokens. Returns null when the token it names is not tracked.
+   */
+  async replay(input: CreateAlertRequest, lookbackHours: number, now: Date = new Date()): Promise<AlertReplayResult | null> {
+    const start = new Date(now.getTime() - lookbackHours * 60 * 60 * 1000);
+    const tokenSelect = { id: true, address: true, symbol: true } as const;
+
+    let tokens: SeriesToken[];
+    if (input.tokenAddress) {
+      const token = await this.prisma.token.findUnique({ where: { address: input.tokenAddress }, select: tokenSelect });
+      if (!token) {
+        return null;
+      }
+      tokens = [token];
+    } else {
+      tokens = await this.prisma.token.findMany({
+        where: { priceData: { some: { timestamp: { gte: start, lte: now } } } },
+        orderBy: { updatedAt: 'desc' },
+        take: this.config.replayTokenLimit,
+        select: tokenSelect
+      });
+    }
+
+    const series = await this.loadSeries(
+      tokens.map(token => token.id),
+      new Date(start.getTime() - conditionLookbackMs(input.condition) - this.config.historySlackMs),
+      now
+    );
+
+    const triggers: AlertReplayResult['triggers'] = [];
+    let snapshotsReplayed = 0;
+    let undecided = 0;
+    let conditionHeld = 0;
+
+    for (const token of tokens) {
+      const tokenSeries = series.get(token.id) ?? [];
+      const state: AlertRuleState = {
+        condition: input.condition,
+        mode: input.mode ?? 'recurring',
+        cooldownSeconds: input.cooldownSeconds ?? 900,
+        hysteresis: input.hysteresis ?? 0,
+        expiresAt: null,
+        isActive: true,
+        isTriggered: false,
+        triggeredAt: null
+      };
+
+      for (let index = 0; index < tokenSeries.length && state.isActive; index++) {
+        const sample = tokenSeries[index];
+        if (sample.at < start) {
+          continue;
+        }
+
+        const evaluation = evaluateAlertRule(state, tokenSeries, sample.at, index);
+        snapshotsReplayed++;
+        if (evaluation.holds === null) undecided++;
+        if (evaluation.holds) conditionHeld++;
+
+        state.isActive = evaluation.isActive;
+        state.isTriggered = evaluation.isTriggered;
+        if (evaluation.fire) {
+          state.triggeredAt = sample.at;
+          triggers.push({ tokenAddress: token.address, tokenSymbol: token.symbol, triggeredAt: sample.at.toISOString(), value: evaluation.value });
+        }
+      }
+    }
+
+    const triggersPerDay = Math.round((triggers.length / lookbackHours) * 24 * 100) / 100;
+    const estimatedTriggerFrequency = triggerFrequency(triggersPerDay);
+    const potentialIssues: string[] = [];
+
+    if (tokens.length === 0 || snapshotsReplayed === 0) {
+      potentialIssues.push('No snapshots in the lookback window to replay against');
+    } else if (undecided > snapshotsReplayed / 2) {
+      potentialIssues.push('Most snapshots lack the history this condition needs; check its metrics and periods');
+    }
+
+    if (snapshotsReplayed > 0 && conditionHeld === snapshotsReplayed) {
+      potentialIssues.push('Condition held on every snapshot and may be too loose');
+    }
+
+    if (estimatedTriggerFrequency === 'high') {
+      potentialIssues.push('Fires often; consider a tighter threshold, longer cooldown or more hysteresis');
+    }
+
+    let recommendation = 'Alert configuration looks good';
+    if (snapshotsReplayed > 0 && triggers.length === 0) {
+      recommendation = 'Alert would not have fired in the lookback window';
+    } else if (potentialIssues.length > 0) {
+      recommendation = potentialIssues[0];
+    }
+
+    return {
+      isValid: true,
+      lookbackHours,
+      tokensReplayed: tokens.length,
+      snapshotsReplayed,
+      conditionHeld,
+      triggerCount: triggers.length,
+      triggersPerDay,
+      estimatedTriggerFrequency,
+      triggers: triggers.slice(0, MAX_REPLAY_TRIGGERS_LISTED),
+      potentialIssues,
+      recommendation
+    };
+  }
+
+  /**
+   * Store a firing and announce it
+   */
+  async raise(input: RaiseAlertInput): Promise<Alert> {
+    const event = await this.prisma.alertEvent.create({
+      data: {
+        alertId: input.alertId ?? null,
+        subscriptionId: input.subscriptionId ?? null,
+        tokenId: input.tokenId ?? null,
+        type: input.type,
+        severity: input.severity,
+        title: input.title,
+        message: input.message,
+        metadata: input.metadata as Prisma.InputJsonObject | undefined,
+        triggeredAt: input.triggeredAt ?? new Date()
+      },
+      include: { token: { select: { address: true, symbol: true } } }
+    });
+
+    const alert = this.toAlert(event);
+    this.emit('alert:triggered', alert);
+    return alert;
+  }
+
+  async recordDegradation(degradation: TokenDegradation): Promise<Alert> {
+    return this.raise({
+      type: 'SAFETY_ALERT',
+      severity: degradation.severity,
+      title: `${degradation.symbol} degraded after passing filters`,
+      message: degradation.findings.map(finding => finding.detail).join('; '),
+      tokenId: degradation.tokenId,
+      triggeredAt: new Date(degradation.detectedAt),
+      metadata: {
+        findings: degradation.findings,
+        previous: degradation.previous,
+        current: degradation.current,
+        triggeredBy: 'watchlist'
+      }
+    });
+  }
+
+  // Pools draining or disappearing are a safety concern; new pools are news
+  async recordPoolChanges(poolChanges: TokenPoolChanges): Promise<Alert> {
+    const drained = poolChanges.changes.some(change => change.kind === 'main_pool_drained' || change.kind === 'pool_removed');
+
+    return this.raise({
+      type: drained ? 'SAFETY_ALERT' : 'NEWS_ALERT',
+      severity: poolChanges.severity,
+      title: `${poolChanges.symbol} pools changed`,
+      message: poolChanges.changes.map(change => change.detail).join('; '),
+      tokenId: poolChanges.tokenId,
+      triggeredAt: new Date(poolChanges.detectedAt),
+      metadata: {
+        changes: poolChanges.changes,
+        totalLiquidity: poolChanges.market.totalLiquidity,
+        liquidityByDex: poolChanges.market.liquidityByDex,
+        dominantPair: poolChanges.market.dominantPair,
+        triggeredBy: 'watchlist'
+      }
+    });
+  }
+
+  /**
+   * Create a rule. Returns null when the token it names is not tracked.
+   */
+  async createRule(input: CreateAlertRequest, userId?: string): Promise<AlertRule | null> {
+    let tokenId: string | null = null;
+
+    if (input.tokenAddress) {
+      const token = await this.prisma.token.findUnique({ where: { address: input.tokenAddress }, select: { id: true } });
+      if (!token) {
+        return null;
+      }
+      tokenId = token.id;
+    }
+
+    const rule = await this.prisma.alert.create({
+      data: {
+        tokenId,
+        userId: userId ?? null,
+        type: input.type,
+        condition: input.condition as unknown as Prisma.InputJsonValue,
+        severity: input.severity ?? 'MEDIUM',
+        message: input.message,
+        mode: input.mode ?? 'recurring',
+        cooldownSeconds: input.cooldownSeconds ?? 900,
+        hysteresis: input.hysteresis ?? 0,
+        expiresAt: input.expiresAt
+      },
+      include: { token: { select: { address: true, symbol: true } } }
+    });
+
+    return this.toRule(rule);
+  }
+
+  async listRules(userId: string, filters: { isActive?: boolean } = {}): Promise<AlertRule[]> {
+    const rules = await this.prisma.alert.findMany({
+      where: { isActive: filters.isActive, userId },
+      include: { token: { select: { address: true, symbol: true } } },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return rules.map(rule => this.toRule(rule));
+  }
+
+  /**
+   * Delete a rule; its firings stay in history
+   */
+  async deleteRule(userId: string, id: string): Promise<boolean> {
+    const { count } = await this.prisma.alert.deleteMany({ where: { id, userId } });
+    return count > 0;
+  }
+
+  /**
+   * Fired alerts in the user's feed, newest first. Dismissed alerts are left out.
+   */
+  async queryAlerts(query: AlertsQuery & { page: number; limit: number }, userId?: string): Promise<{ alerts: Alert[]; total: number }> {
+    const where = this.feedWhere(query, userId);
+    const [events, total] = await Promise.all([
+      this.prisma.alertEvent.findMany({
+        where,
+        include: { token: { select: { address: true, symbol: true } } },
+        orderBy: { triggeredAt: 'desc' },
+        skip: (query.page - 1) * query.limit,
+        take: query.limit
+      }),
+      this.prisma.alertEvent.count({ where })
+    ]);
+
+    return { alerts: events.map(event => this.toAlert(event)), total };
+  }
+
+  // Every fired alert in the user's feed matching filters, newest first (used by alert exports)
+  async listAlerts(filters: Partial<AlertsQuery> = {}, userId?: string): Promise<Alert[]> {
+    const events = await this.prisma.alertEvent.findMany({
+      where: this.feedWhere(filters, userId),
+      include: { token: { select: { address: true, symbol: true } } },
+      orderBy: { triggeredAt: 'desc' }
+    });
+
+    return events.map(event => this.toAlert(event));
+  }
+
+  /**
+   * Every firing the user can see, dismissed ones included, newest first
+   */
+  async getHistory(query: AlertHistoryQuery, userId?: string): Promise<{ alerts: Alert[]; total: number }> {
+    const where: Prisma.AlertEventWhereInput = {
+      ...this.visibleTo(userId),
+      type: query.type,
+      token: query.tokenAddress ? { address: query.tokenAddress } : undefined,
+      triggeredAt: {
+        gte: query.startDate ? new Date(query.startDate) : undefined,
+        lte: query.endDate ? new Date(query.endDate) : undefined
+      }
+    };
+
+    const [events, total] = await Promise.all([
+      this.prisma.alertEvent.findMany({
+        where,
+        include: { token: { select: { address: true, symbol: true } } },
+        orderBy: { triggeredAt: 'desc' },
+        skip: (query.page - 1) * query.limit,
+        take: query.limit
+      }),
+      this.prisma.alertEvent.count({ where })
+    ]);
+
+    return { alerts: events.map(event => this.toAlert(event)), total };
+  }
+
+  async getAlert(id: string, userId?: string): Promise<Alert | null> {
+    const event = await this.prisma.alertEvent.findFirst({
+      where: { id, ...this.visibleTo(userId) },
+      include: { token: { select: { address: true, symbol: true } } }
+    });
+
+    return event ? this.toAlert(event) : null;
+  }
+
+  /**
+   * The user who owns a fired alert through its subscription or rule. Null
+   * for system alerts, which go to everyone.
+   */
+  async findOwner(alert: Alert): Promise<string | null> {
+    if (alert.subscriptionId) {
+      const subscription = await this.prisma.alertSubscription.findUnique({ where: { id: alert.subscriptionId }, select: { userId: true } });
+      return subscription?.userId ?? null;
+    }
+
+    if (alert.alertId) {
+      const rule = await this.prisma.alert.findUnique({ where: { id: alert.alertId }, select: { userId: true } });
+      return rule?.userId ?? null;
+    }
+
+    return null;
+  }
+
+  async acknowledge(id: string, userId?: string): Promise<Alert | null> {
+    const { count } = await this.prisma.alertEvent.updateMany({
+      where: { id, acknowledgedAt: null, ...this.visibleTo(userId) },
+      data: { isRead: true, acknowledgedAt: new Date() }
+    });
+
+    const alert = await this.getAlert(id, userId);
+    return alert && (count > 0 || alert.acknowledgedAt) ? alert : null;
+  }
+
+  /**
+   * Remove an alert from the feed; it stays in history
+   */
+  async dismiss(id: string, userId?: string): Promise<boolean> {
+    const { count } = await this.prisma.alertEvent.updateMany({
+      where: { id, dismissedAt: null, ...this.visibleTo(userId) },
+      data: { dismissedAt: new Date() }
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Counts over the feed the user can see, and over their own rules
+   */
+  async getSummary(userId?: string): Promise<AlertSummary> {
+    const feed: Prisma.AlertEventWhereInput = { ...this.visibleTo(userId), dismissedAt: null };
+    const rules: Prisma.AlertWhereInput = { isActive: true, userId: userId ?? null };
+    const [total, unread, bySeverity, byType, activeRules, triggeredRules, recent] = await Promise.all([
+      this.prisma.alertEvent.count({ where: feed }),
+      this.prisma.alertEvent.count({ where: { ...feed, isRead: false } }),
+      this.prisma.alertEvent.groupBy({ by: ['severity'], where: feed, _count: { _all: true } }),
+      this.prisma.alertEvent.groupBy({ by: ['type'], where: feed, _count: { _all: true } }),
+      this.prisma.alert.count({ where: rules }),
+      this.prisma.alert.count({ where: { ...rules, isTriggered: true } }),
+      this.prisma.alertEvent.findMany({
+        where: feed,
+        include: { token: { select: { address: true, symbol: true } } },
+        orderBy: { triggeredAt: 'desc' },
+        take: 5
+      })
+    ]);
+
+    const countBy = <K extends string>(keys: K[], groups: Array<{ _count: { _all: number } } & Record<string, unknown>>, field: string) =>
+      Object.fromEntries(keys.map(key => [key, groups.find(group => group[field] === key)?._count._all ?? 0])) as Record<K, number>;
+
+    return {
+      total,
+      active: unread,
+      acknowledged: total - unread,
+      bySeverity: countBy(ALERT_SEVERITIES, bySeverity, 'severity'),
+      byType: countBy(ALERT_TYPES, byType, 'type'),
+      rules: { active: activeRules, triggered: triggeredRules },
+      recent: recent.map(event => this.toAlert(event))
+    };
+  }
+
+  /**
+   * Evaluate a rule for one token. arming is the token's own state for rules
+   * watching every token, and null for rules watching one token.
+   */
+  private async applyRule(
+    rule: RuleWithToken,
+    token: SeriesToken,
+    series: MetricSample[],
+    now: Date,
+    arming: TokenArming | null
+  ): Promise<Alert | null> {
+    const condition = rule.condition as unknown as AlertCondition;
+    const evaluation = evaluateAlertRule({
+      condition,
+      mode: rule.mode as AlertMode,
+      cooldownSeconds: rule.cooldownSeconds,
+      hysteresis: rule.hysteresis,
+      expiresAt: rule.expiresAt,
+      isActive: rule.isActive,
+      isTriggered: arming?.isTriggered ?? rule.isTriggered,
+      triggeredAt: arming ? arming.triggeredAt : rule.triggeredAt
+    }, series, now);
+
+    if (!evaluation.changed) {
+      return null;
+    }
+
+    if (arming) {
+      await this.prisma.alertTokenState.upsert({
+        where: { alertId_tokenId: { alertId: rule.id, tokenId: token.id } },
+        create: {
+          alertId: rule.id,
+          tokenId: token.id,
+          isTriggered: evaluation.isTriggered,
+          triggeredAt: evaluation.fire ? now : null
+        },
+        update: {
+          isTriggered: evaluation.isTriggered,
+          ...(evaluation.fire && { triggeredAt: now })
+        }
+      });
+    }
+
+    // The rule row keeps the last firing across tokens; its own arming only applies to single-token rules
+    if (!arming || evaluation.fire || evaluation.isActive !== rule.isActive) {
+      await this.prisma.alert.update({
+        where: { id: rule.id },
+        data: {
+          isActive: evaluation.isActive,
+          ...(!arming && { isTriggered: evaluation.isTriggered }),
+          ...(evaluation.fire && { triggeredAt: now, triggerCount: { increment: 1 } })
+        }
+      });
+    }
+
+    // Later tokens in the same poll see this rule's new state
+    rule.isActive = evaluation.isActive;
+    if (!arming) {
+      rule.isTriggered = evaluation.isTriggered;
+    }
+    if (evaluation.fire) {
+      rule.triggeredAt = now;
+    }
+
+    if (!evaluation.fire) {
+      return null;
+    }
+
+    const description = describeCondition(condition);
+    const observed = evaluation.value !== null ? ` (now ${evaluation.value})` : '';
+
+    return this.raise({
+      alertId: rule.id,
+      tokenId: token.id,
+      type: rule.type as AlertType,
+      severity: rule.severity as AlertSeverity,
+      title: `${token.symbol} ${description}`,
+      message: rule.message || `${token.symbol} ${description}${observed}`,
+      triggeredAt: now,
+      metadata: {
+        condition,
+        value: evaluation.value,
+        mode: rule.mode
+      }
+    });
+  }
+
+  /**
+   * Per-token state of the rules watching every token, keyed by rule and token id
+   */
+  private async loadTokenStates(alertIds: string[], tokenIds: string[]): Promise<Map<string, TokenArming>> {
+    if (alertIds.length === 0) {
+      return new Map();
+    }
+
+    const states = await this.prisma.alertTokenState.findMany({
+      where: { alertId: { in: alertIds }, tokenId: { in: tokenIds } },
+      select: { alertId: true, tokenId: true, isTriggered: true, triggeredAt: true }
+    });
+
+    return new Map(states.map(state => [`${state.alertId}:${state.tokenId}`, state]));
+  }
+
+  /**
+   * Metric series per token from PriceData and SafetyScore rows between from and to
+   */
+  private async loadSeries(tokenIds: string[], from: Date, to: Date): Promise<Map<string, MetricSample[]>> {
+    const series = new Map<string, MetricSample[]>();
+    if (tokenIds.length === 0) {
+      return series;
+    }
+
+    const where = { tokenId: { in: tokenIds }, timestamp: { gte: from, lte: to } };
+    const [prices, safety] = await Promise.all([
+      this.prisma.priceData.findMany({ where, orderBy: { timestamp: 'asc' } }),
+      this.prisma.safetyScore.findMany({
+        where,
+        orderBy: { timestamp: 'asc' },
+        select: { tokenId: true, timestamp: true, overallScore: true, details: true }
+      })
+    ]);
+
+    for (const tokenId of tokenIds) {
+      series.set(tokenId, buildMetricSeries(
+        prices.filter(row => row.tokenId === tokenId),
+        safety.filter(row => row.tokenId === tokenId)
+      ));
+    }
+
+    return series;
+  }
+
+  // Firings of the user's own rules and subscriptions, plus system alerts and
+  // firings of rules nobody owns
+  private visibleTo(userId?: string): Prisma.AlertEventWhereInput {
+    const owners: Prisma.AlertEventWhereInput[] = [
+      { alertId: null, subscriptionId: null },
+      { subscriptionId: null, alert: { userId: null } }
+    ];
+
+    if (userId) {
+      owners.push({ alert: { userId } }, { subscription: { userId } });
+    }
+
+    return { OR: owners };
+  }
+
+  private feedWhere(filters: Partial<AlertsQuery>, userId?: string): Prisma.AlertEventWhereInput {
+    return {
+      ...this.visibleTo(userId),
+      dismissedAt: null,
+      type: filters.type,
+      severity: filters.severity,
+      isRead: filters.isRead,
+      token: filters.tokenAddress ? { address: filters.tokenAddress } : undefined,
+      triggeredAt: {
+        gte: filters.startDate ? new Date(filters.startDate) : undefined,
+        lte: filters.endDate ? new Date(filters.endDate) : undefined
+      }
+    };
+  }
+
+  private toAlert(event: EventWithToken): Alert {
+    return {
+      id: event.id,
+      alertId: event.alertId ?? undefined,
+      subscriptionId: event.subscriptionId ?? undefined,
+      type: event.type as Alert['type'],
+      title: event.title,
+      message: event.message,
+      severity: event.severity as Alert['severity'],
+      tokenAddress: event.token?.address,
+      tokenSymbol: event.token?.symbol,
+      triggeredAt: event.triggeredAt.toISOString(),
+      acknowledgedAt: event.acknowledgedAt?.toISOString(),
+      dismissedAt: event.dismissedAt?.toISOString(),
+      isRead: event.isRead,
+      metadata: (event.metadata as Record<string, unknown> | null) ?? undefined
+    };
+  }
+
+  private toRule(rule: RuleWithToken): AlertRule {
+    return {
+      id: rule.id,
+      type: rule.type as AlertRule['type'],
+      tokenAddress: rule.token?.address,
+      tokenSymbol: rule.token?.symbol,
+      userId: rule.userId ?? undefined,
+      condition: rule.condition as unknown as AlertCondition,
+      severity: rule.severity as AlertRule['severity'],
+      message: rule.message ?? undefined,
+      mode: rule.mode as AlertMode,
+      cooldownSeconds: rule.cooldownSeconds,
+      hysteresis: rule.hysteresis,
+      expiresAt: rule.expiresAt?.toISOString(),
+      isActive: rule.isActive,
+      isTriggered: rule.isTriggered,
+      triggerCount: rule.triggerCount,
+      lastTriggeredAt: rule.triggeredAt?.toISOString(),
+      createdAt: rule.createdAt.toISOString()
+    };
+  }
+}
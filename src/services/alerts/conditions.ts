@@ -0,0 +1,246 @@
+/**
+ * Alert condition evaluation
+ *
+ * Conditions are evaluated against a token's metric series: PriceData and
+ * SafetyScore rows merged in time order, each sample carrying forward the
+ * values the other table last reported. The sample at the given index is the
+ * current one; windows look back from it.
+ */
+
+import { PriceData, SafetyScore } from '@prisma/client';
+import {
+  AlertComparison,
+  AlertCondition,
+  AlertMetric,
+  AlertMetricSnapshot,
+  AlertOperator,
+  ConditionResult,
+  MetricSample,
+  parsePeriodMs
+} from './types';
+
+export type PricePoint = Pick<PriceData, 'timestamp' | 'price' | 'change1h' | 'change24h' | 'volume' | 'liquidity' | 'marketCap' | 'buys5m' | 'sells5m'>;
+
+export type SafetyPoint = Pick<SafetyScore, 'timestamp' | 'overallScore' | 'details'>;
+
+// Price and safety rows written by the same poll land a few milliseconds apart
+const SAMPLE_MERGE_MS = 5000;
+
+const OPERATOR_TEXT: Record<AlertOperator, string> = {
+  gt: 'above',
+  gte: 'at or above',
+  lt: 'below',
+  lte: 'at or below',
+  eq: 'equal to',
+  crosses_above: 'crossed above',
+  crosses_below: 'crossed below'
+};
+
+const EMPTY_SNAPSHOT: AlertMetricSnapshot = {
+  price: null,
+  priceChange1h: null,
+  priceChange24h: null,
+  volume24h: null,
+  liquidity: null,
+  marketCap: null,
+  safetyScore: null,
+  holderConcentration: null,
+  buys5m: null,
+  sells5m: null,
+  sellBuyRatio5m: null
+};
+
+export function isComparison(condition: AlertCondition): condition is AlertComparison {
+  return 'metric' in condition;
+}
+
+/**
+ * Merge price and safety rows into one time-ordered series
+ */
+export function buildMetricSeries(prices: PricePoint[], safety: SafetyPoint[]): MetricSample[] {
+  const readings: Array<{ at: Date; metrics: Partial<AlertMetricSnapshot> }> = [
+    ...prices.map(row => ({
+      at: row.timestamp,
+      metrics: {
+        price: row.price,
+        priceChange1h: row.change1h,
+        priceChange24h: row.change24h,
+        volume24h: row.volume,
+        liquidity: row.liquidity,
+        marketCap: row.marketCap,
+        buys5m: row.buys5m,
+        sells5m: row.sells5m
+      }
+    })),
+    ...safety.map(row => {
+      const details = (row.details ?? {}) as Record<string, unknown>;
+      return {
+        at: row.timestamp,
+        metrics: {
+          safetyScore: row.overallScore / 10, // stored on the 0-100 scale
+          holderConcentration: typeof details.holder_concentration === 'number' ? details.holder_concentration : null
+        }
+      };
+    })
+  ].sort((a, b) => a.at.getTime() - b.at.getTime());
+
+  const series: MetricSample[] = [];
+
+  for (const reading of readings) {
+    const last = series[series.length - 1];
+    const sample = last && reading.at.getTime() - last.at.getTime() <= SAMPLE_MERGE_MS
+      ? last
+      : { at: reading.at, metrics: { ...(last?.metrics ?? EMPTY_SNAPSHOT) } };
+
+    for (const [metric, value] of Object.entries(reading.metrics) as Array<[AlertMetric, number | null | undefined]>) {
+      if (value !== null && value !== undefined) {
+        sample.metrics[metric] = value;
+      }
+    }
+
+    const { buys5m, sells5m } = sample.metrics;
+    sample.metrics.sellBuyRatio5m = buys5m !== null && sells5m !== null && buys5m > 0 ? sells5m / buys5m : null;
+
+    if (sample !== last) {
+      series.push(sample);
+    }
+  }
+
+  return series;
+}
+
+/**
+ * How far back a condition looks from the current sample
+ */
+export function conditionLookbackMs(condition: AlertCondition): number {
+  if (isComparison(condition)) {
+    return condition.period ? parsePeriodMs(condition.period) ?? 0 : 0;
+  }
+
+  const children = 'all' in condition ? condition.all : condition.any;
+  return Math.max(0, ...children.map(conditionLookbackMs));
+}
+
+/**
+ * Evaluate a condition at series[index] (the last sample by default)
+ */
+export function evaluateCondition(condition: AlertCondition, series: MetricSample[], index: number = series.length - 1): ConditionResult {
+  if (isComparison(condition)) {
+    return evaluateComparison(condition, series, index);
+  }
+
+  const results = ('all' in condition ? condition.all : condition.any).map(child => evaluateCondition(child, series, index));
+  const decisive = 'all' in condition ? false : true;
+
+  // Three-valued logic: one decisive child settles it, otherwise any unknown child leaves it unknown
+  const holds = results.some(result => result.holds === decisive)
+    ? decisive
+    : results.some(result => result.holds === null) ? null : !decisive;
+
+  return { holds, value: null, margin: null };
+}
+
+export function describeCondition(condition: AlertCondition): string {
+  if (!isComparison(condition)) {
+    const joiner = 'all' in condition ? ' and ' : ' or ';
+    return ('all' in condition ? condition.all : condition.any)
+      .map(child => isComparison(child) ? describeCondition(child) : `(${describeCondition(child)})`)
+      .join(joiner);
+  }
+
+  const subject = condition.change
+    ? `${condition.metric} ${condition.change === 'percent' ? '% change' : 'change'} over ${condition.period}`
+    : condition.metric;
+  const level = condition.reference ? `${condition.period} ${condition.reference}` : String(condition.value);
+
+  return `${subject} ${OPERATOR_TEXT[condition.operator]} ${level}`;
+}
+
+function evaluateComparison(comparison: AlertComparison, series: MetricSample[], index: number): ConditionResult {
+  const unknown: ConditionResult = { holds: null, value: null, margin: null };
+  const current = series[index];
+  if (!current) {
+    return unknown;
+  }
+
+  const windowStart = comparison.period ? current.at.getTime() - (parsePeriodMs(comparison.period) ?? 0) : null;
+  const value = observedValue(comparison, series, index, windowStart);
+  const level = comparison.reference ? referenceLevel(comparison, series, index, windowStart) : comparison.value ?? null;
+
+  if (value === null || level === null) {
+    return { ...unknown, value };
+  }
+
+  if (comparison.operator === 'crosses_above' || comparison.operator === 'crosses_below') {
+    const previous = index > 0 ? series[index - 1].metrics[comparison.metric] : null;
+    if (previous === null) {
+      return { ...unknown, value };
+    }
+
+    const holds = comparison.operator === 'crosses_above'
+      ? previous <= level && value > level
+      : previous >= level && value < level;
+    return { holds, value, margin: null };
+  }
+
+  return { holds: compare(comparison.operator, value, level), value, margin: Math.abs(value - level) };
+}
+
+// The metric's value at the sample, or its change since the first sample in the window
+function observedValue(comparison: AlertComparison, series: MetricSample[], index: number, windowStart: number | null): number | null {
+  const value = series[index].metrics[comparison.metric];
+  if (!comparison.change || value === null || windowStart === null) {
+    return value;
+  }
+
+  const baseline = windowValues(comparison.metric, series, index, windowStart)[0];
+  if (baseline === undefined) {
+    return null;
+  }
+
+  if (comparison.change === 'delta') {
+    return value - baseline;
+  }
+
+  return baseline === 0 ? null : ((value - baseline) / baseline) * 100;
+}
+
+// The period's high, low or average before the sample
+function referenceLevel(comparison: AlertComparison, series: MetricSample[], index: number, windowStart: number | null): number | null {
+  const values = windowStart === null ? [] : windowValues(comparison.metric, series, index, windowStart);
+  if (values.length === 0) {
+    return null;
+  }
+
+  switch (comparison.reference) {
+    case 'high': return Math.max(...values);
+    case 'low': return Math.min(...values);
+    case 'average': return values.reduce((sum, value) => sum + value, 0) / values.length;
+    default: return null;
+  }
+}
+
+// Known values of a metric from windowStart up to, but not including, the sample, oldest first
+function windowValues(metric: AlertMetric, series: MetricSample[], index: number, windowStart: number): number[] {
+  const values: number[] = [];
+
+  for (let i = index - 1; i >= 0 && series[i].at.getTime() >= windowStart; i--) {
+    const value = series[i].metrics[metric];
+    if (value !== null) {
+      values.push(value);
+    }
+  }
+
+  return values.reverse();
+}
+
+function compare(operator: AlertOperator, value: number, level: number): boolean {
+  switch (operator) {
+    case 'gt': return value > level;
+    case 'gte': return value >= level;
+    case 'lt': return value < level;
+    case 'lte': return value <= level;
+    case 'eq': return value === level;
+    default: return false;
+  }
+}
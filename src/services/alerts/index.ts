@@ -0,0 +1,4 @@
+export * from './types';
+export * from './conditions';
+export * from './alert-engine.service';
+export * from './subscription.service';
@@ -0,0 +1,471 @@
+/**
+ * Alert Subscription Service
+ * Per-user follows of a token, a saved filter, a creator wallet or a signal type
+ *
+ * Each poll looks at what happened since the previous one and raises an alert
+ * through the alert engine for every active subscription it matches, tagged
+ * with the subscription so the feed entry and notifications belong to its
+ * owner:
+ * - token: every new trading signal for the token
+ * - signal: every new trading signal of the type, optionally above a strength
+ * - creator: every new launch recorded for the creator wallet
+ * - filter: every token that newly matches the saved filter. Only tokens
+ *   discovered after the subscription was created count, so subscribing does
+ *   not replay every existing match, and each token notifies once.
+ *
+ * Active subscriptions count against the owner's tier quota.
+ */
+
+import { PrismaClient, AlertSubscription } from '@prisma/client';
+import { z } from 'zod';
+import { Alert, FilterDefinition } from '../../api/types/api.types';
+import { FilterQueryService, toFilterGroup } from '../filter-query.service';
+import { SIGNAL_TYPES } from '../signal.service';
+import { Logger } from '../../utils/logger';
+import { AlertEngineService } from './alert-engine.service';
+import { AlertSeverity } from './types';
+
+export const SUBSCRIPTION_TYPES = ['token', 'filter', 'creator', 'signal'] as const;
+
+export type SubscriptionType = typeof SUBSCRIPTION_TYPES[number];
+
+export type SubscriptionTier = 'free' | 'premium' | 'enterprise';
+
+// Active subscriptions allowed per user
+export const SUBSCRIPTION_QUOTAS: Record<SubscriptionTier, number> = {
+  free: 5,
+  premium: 50,
+  enterprise: 500
+};
+
+export const createSubscriptionSchema = z.object({
+  type: z.enum(SUBSCRIPTION_TYPES),
+  target: z.string().min(1).max(100), // token address, filter id, creator wallet or signal type
+  severity: z.enum(['LOW', 'MEDIUM', 'HIGH', 'CRITICAL']).default('MEDIUM'),
+  minStrength: z.number().min(0).max(1).optional() // signal and token subscriptions only
+})
+  .refine(input => input.type !== 'signal' || (SIGNAL_TYPES as readonly string[]).includes(input.target), {
+    message: `Signal subscriptions target one of ${SIGNAL_TYPES.join(', ')}`,
+    path: ['target']
+  })
+  .refine(input => input.minStrength === undefined || input.type === 'signal' || input.type === 'token', {
+    message: 'minStrength applies to signal and token subscriptions',
+    path: ['minStrength']
+  });
+
+export const updateSubscriptionSchema = z.object({
+  severity: z.enum(['LOW', 'MEDIUM', 'HIGH', 'CRITICAL']).optional(),
+  minStrength: z.number().min(0).max(1).nullable().optional(),
+  isActive: z.boolean().optional()
+});
+
+export type CreateSubscriptionInput = z.infer<typeof createSubscriptionSchema>;
+export type UpdateSubscriptionInput = z.infer<typeof updateSubscriptionSchema>;
+
+export type SubscriptionResult =
+  | { status: 'ok'; subscription: AlertSubscription }
+  | { status: 'not_found' } // the subscription, or the token or filter it targets
+  | { status: 'duplicate' }
+  | { status: 'quota_exceeded'; limit: number };
+
+export interface SubscriptionSummary {
+  tier: SubscriptionTier;
+  activeSubscriptions: number;
+  maxSubscriptions: number;
+  remaining: number;
+  subscriptionsByType: Record<SubscriptionType, number>;
+  subscriptions: AlertSubscription[];
+}
+
+export interface AlertSubscriptionConfig {
+  pollIntervalMs: number;
+  maxFilterMatches: number; // new matches raised per filter subscription and poll
+}
+
+export const DEFAULT_ALERT_SUBSCRIPTION_CONFIG: AlertSubscriptionConfig = {
+  pollIntervalMs: 30000,
+  maxFilterMatches: 25
+};
+
+type SignalWithToken = {
+  id: string;
+  tokenId: string;
+  type: string;
+  strength: number;
+  reason: string | null;
+  price: number | null;
+  token: { address: string; symbol: string };
+};
+
+export class AlertSubscriptionService {
+  private readonly logger = Logger.getInstance();
+  private readonly filterQuery: FilterQueryService;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private isPolling = false;
+  private lastPolledAt: Date | null = null;
+
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly alertEngine: AlertEngineService,
+    private readonly config: AlertSubscriptionConfig = DEFAULT_ALERT_SUBSCRIPTION_CONFIG
+  ) {
+    this.filterQuery = new FilterQueryService(prisma);
+  }
+
+  start(): void {
+    if (this.pollTimer) {
+      return;
+    }
+
+    this.pollTimer = setInterval(() => {
+      void this.poll();
+    }, this.config.pollIntervalMs);
+
+    this.logger.info('Alert subscriptions started', { pollIntervalMs: this.config.pollIntervalMs });
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+      this.logger.info('Alert subscriptions stopped');
+    }
+  }
+
+  async listSubscriptions(userId: string): Promise<AlertSubscription[]> {
+    return this.prisma.alertSubscription.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  async getSummary(userId: string, tier: SubscriptionTier): Promise<SubscriptionSummary> {
+    const subscriptions = await this.listSubscriptions(userId);
+    const active = subscriptions.filter(subscription => subscription.isActive);
+
+    const subscriptionsByType = Object.fromEntries(SUBSCRIPTION_TYPES.map(type => [type, 0])) as Record<SubscriptionType, number>;
+    for (const subscription of active) {
+      subscriptionsByType[subscription.type as SubscriptionType]++;
+    }
+
+    const maxSubscriptions = SUBSCRIPTION_QUOTAS[tier];
+
+    return {
+      tier,
+      activeSubscriptions: active.length,
+      maxSubscriptions,
+      remaining: Math.max(0, maxSubscriptions - active.length),
+      subscriptionsByType,
+      subscriptions
+    };
+  }
+
+  async createSubscription(userId: string, tier: SubscriptionTier, input: CreateSubscriptionInput): Promise<SubscriptionResult> {
+    const limit = SUBSCRIPTION_QUOTAS[tier];
+    if (await this.countActive(userId) >= limit) {
+      return { status: 'quota_exceeded', limit };
+    }
+
+    const target = await this.resolveTarget(userId, input.type, input.target);
+    if (target === null) {
+      return { status: 'not_found' };
+    }
+
+    const existing = await this.prisma.alertSubscription.findFirst({
+      where: { userId, type: input.type, target: target.target },
+      select: { id: true }
+    });
+    if (existing) {
+      return { status: 'duplicate' };
+    }
+
+    const subscription = await this.prisma.alertSubscription.create({
+      data: {
+        userId,
+        type: input.type,
+        target: target.target,
+        tokenId: target.tokenId,
+        filterId: target.filterId,
+        severity: input.severity,
+        minStrength: input.minStrength
+      }
+    });
+
+    this.logger.info('Alert subscription created', { subscriptionId: subscription.id, userId, type: subscription.type });
+
+    return { status: 'ok', subscription };
+  }
+
+  async updateSubscription(
+    userId: string,
+    tier: SubscriptionTier,
+    subscriptionId: string,
+    input: UpdateSubscriptionInput
+  ): Promise<SubscriptionResult> {
+    const subscription = await this.prisma.alertSubscription.findFirst({ where: { id: subscriptionId, userId } });
+    if (!subscription) {
+      return { status: 'not_found' };
+    }
+
+    // Re-activating a paused subscription takes a quota slot again
+    const limit = SUBSCRIPTION_QUOTAS[tier];
+    if (input.isActive && !subscription.isActive && await this.countActive(userId) >= limit) {
+      return { status: 'quota_exceeded', limit };
+    }
+
+    const updated = await this.prisma.alertSubscription.update({
+      where: { id: subscription.id },
+      data: input
+    });
+
+    return { status: 'ok', subscription: updated };
+  }
+
+  async deleteSubscription(userId: string, subscriptionId: string): Promise<boolean> {
+    const { count } = await this.prisma.alertSubscription.deleteMany({ where: { id: subscriptionId, userId } });
+    return count > 0;
+  }
+
+  /**
+   * Raise alerts for everything active subscriptions matched since the last
+   * poll. The first poll only sets the cursor. Returns the alerts raised.
+   */
+  async poll(now: Date = new Date()): Promise<Alert[]> {
+    if (this.isPolling) {
+      return [];
+    }
+
+    this.isPolling = true;
+
+    try {
+      const since = this.lastPolledAt;
+      this.lastPolledAt = now;
+
+      if (!since) {
+        return [];
+      }
+
+      const subscriptions = await this.prisma.alertSubscription.findMany({ where: { isActive: true } });
+      if (subscriptions.length === 0) {
+        return [];
+      }
+
+      const byType = (type: SubscriptionType) => subscriptions.filter(subscription => subscription.type === type);
+
+      const raised = [
+        ...await this.matchSignals([...byType('token'), ...byType('signal')], since, now),
+        ...await this.matchLaunches(byType('creator'), since, now),
+        ...await this.matchFilters(byType('filter'), since, now)
+      ];
+
+      if (raised.length > 0) {
+        this.logger.info('Alert subscriptions matched', { alerts: raised.length });
+      }
+
+      return raised;
+    } catch (error) {
+      this.logger.error('Alert subscription poll failed', { error: error instanceof Error ? error.message : String(error) });
+      return [];
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  private async matchSignals(subscriptions: AlertSubscription[], since: Date, now: Date): Promise<Alert[]> {
+    if (subscriptions.length === 0) {
+      return [];
+    }
+
+    const signals: SignalWithToken[] = await this.prisma.tradingSignal.findMany({
+      where: { timestamp: { gt: since, lte: now } },
+      orderBy: { timestamp: 'asc' },
+      select: {
+        id: true,
+        tokenId: true,
+        type: true,
+        strength: true,
+        reason: true,
+        price: true,
+        token: { select: { address: true, symbol: true } }
+      }
+    });
+
+    const raised: Alert[] = [];
+    for (const signal of signals) {
+      const matching = subscriptions.filter(subscription =>
+        (subscription.type === 'token' ? subscription.tokenId === signal.tokenId : subscription.target === signal.type) &&
+        signal.strength >= (subscription.minStrength ?? 0)
+      );
+
+      for (const subscription of matching) {
+        raised.push(await this.alertEngine.raise({
+          subscriptionId: subscription.id,
+          tokenId: signal.tokenId,
+          type: 'SIGNAL_ALERT',
+          severity: subscription.severity as AlertSeverity,
+          title: `${signal.token.symbol} ${signal.type} signal`,
+          message: `Strength ${signal.strength.toFixed(2)}${signal.reason ? `: ${signal.reason}` : ''}`,
+          metadata: {
+            subscription: { type: subscription.type, target: subscription.target },
+            signalId: signal.id,
+            strength: signal.strength,
+            price: signal.price
+          }
+        }));
+      }
+    }
+
+    return raised;
+  }
+
+  private async matchLaunches(subscriptions: AlertSubscription[], since: Date, now: Date): Promise<Alert[]> {
+    if (subscriptions.length === 0) {
+      return [];
+    }
+
+    const launches = await this.prisma.creatorToken.findMany({
+      where: {
+        createdAt: { gt: since, lte: now },
+        creator: { address: { in: Array.from(new Set(subscriptions.map(subscription => subscription.target))) } }
+      },
+      orderBy: { createdAt: 'asc' },
+      include: { creator: { select: { address: true, tokensCreated: true, ruggedTokens: true } } }
+    });
+
+    if (launches.length === 0) {
+      return [];
+    }
+
+    const tokens = new Map((await this.prisma.token.findMany({
+      where: { address: { in: launches.map(launch => launch.mint) } },
+      select: { id: true, address: true, symbol: true }
+    })).map(token => [token.address, token]));
+
+    const raised: Alert[] = [];
+    for (const launch of launches) {
+      const token = tokens.get(launch.mint);
+      const { creator } = launch;
+
+      for (const subscription of subscriptions.filter(entry => entry.target === creator.address)) {
+        raised.push(await this.alertEngine.raise({
+          subscriptionId: subscription.id,
+          tokenId: token?.id ?? null,
+          type: 'NEWS_ALERT',
+          severity: subscription.severity as AlertSeverity,
+          title: `Creator ${shorten(creator.address)} launched ${token?.symbol ?? shorten(launch.mint)}`,
+          message: `${creator.tokensCreated} tokens launched, ${creator.ruggedTokens} rugged`,
+          metadata: {
+            subscription: { type: subscription.type, target: subscription.target },
+            mint: launch.mint,
+            launchedAt: launch.launchedAt.toISOString()
+          }
+        }));
+      }
+    }
+
+    return raised;
+  }
+
+  private async matchFilters(subscriptions: AlertSubscription[], since: Date, now: Date): Promise<Alert[]> {
+    if (subscriptions.length === 0) {
+      return [];
+    }
+
+    // Matches only change when the aggregator stores new snapshots
+    const snapshot = await this.prisma.priceData.findFirst({
+      where: { timestamp: { gt: since, lte: now } },
+      select: { id: true }
+    });
+    if (!snapshot) {
+      return [];
+    }
+
+    const filters = new Map((await this.prisma.filter.findMany({
+      where: { id: { in: subscriptions.map(subscription => subscription.filterId).filter((id): id is string => id !== null) } }
+    })).map(filter => [filter.id, filter]));
+
+    const raised: Alert[] = [];
+    for (const subscription of subscriptions) {
+      const filter = subscription.filterId ? filters.get(subscription.filterId) : undefined;
+      if (!filter) continue;
+
+      try {
+        // Tokens already notified are excluded before the limit, so earlier matches cannot crowd out new ones
+        const fresh = await this.filterQuery.findTokenIds(
+          toFilterGroup(filter.criteria as unknown as FilterDefinition),
+          {
+            limit: this.config.maxFilterMatches,
+            where: {
+              createdAt: { gt: subscription.createdAt },
+              alertEvents: { none: { subscriptionId: subscription.id } }
+            }
+          }
+        );
+        if (fresh.length === 0) continue;
+
+        const tokens = await this.prisma.token.findMany({
+          where: { id: { in: fresh } },
+          select: { id: true, address: true, symbol: true }
+        });
+
+        for (const token of tokens) {
+          raised.push(await this.alertEngine.raise({
+            subscriptionId: subscription.id,
+            tokenId: token.id,
+            type: 'SIGNAL_ALERT',
+            severity: subscription.severity as AlertSeverity,
+            title: `${token.symbol} matches ${filter.name}`,
+            message: `${token.symbol} (${token.address}) now matches your saved filter "${filter.name}"`,
+            metadata: {
+              subscription: { type: subscription.type, target: subscription.target },
+              filterId: filter.id
+            }
+          }));
+        }
+      } catch (error) {
+        this.logger.warn('Filter subscription failed', {
+          subscriptionId: subscription.id,
+          filterId: filter.id,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    return raised;
+  }
+
+  private countActive(userId: string): Promise<number> {
+    return this.prisma.alertSubscription.count({ where: { userId, isActive: true } });
+  }
+
+  /**
+   * Check that the target exists and resolve the rows it points at. Creator
+   * wallets may be followed before their first launch is seen.
+   */
+  private async resolveTarget(
+    userId: string,
+    type: SubscriptionType,
+    target: string
+  ): Promise<{ target: string; tokenId: string | null; filterId: string | null } | null> {
+    switch (type) {
+      case 'token': {
+        const token = await this.prisma.token.findUnique({ where: { address: target }, select: { id: true } });
+        return token ? { target, tokenId: token.id, filterId: null } : null;
+      }
+      case 'filter': {
+        const filter = await this.prisma.filter.findFirst({
+          where: { id: target, OR: [{ userId }, { isPublic: true }] },
+          select: { id: true }
+        });
+        return filter ? { target, tokenId: null, filterId: filter.id } : null;
+      }
+      case 'creator':
+      case 'signal':
+        return { target, tokenId: null, filterId: null };
+    }
+  }
+}
+
+function shorten(address: string): string {
+  return address.length > 12 ? `${address.slice(0, 4)}...${address.slice(-4)}` : address;
+}
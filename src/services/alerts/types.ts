@@ -0,0 +1,137 @@
+/**
+ * Alert rule types
+ *
+ * An alert rule watches one token, or every token when it has none, and
+ * evaluates its condition against the token's price and safety time series
+ * each time a new snapshot arrives.
+ *
+ * A condition is a comparison or an all/any combination of conditions. A
+ * comparison checks a metric's latest value, or its change over a period,
+ * against a fixed value or against the period's high, low or average.
+ * crosses_above and crosses_below hold only on the snapshot where the metric
+ * moves from one side of the level to the other.
+ */
+
+import { z } from 'zod';
+
+export const ALERT_METRICS = [
+  'price',
+  'priceChange1h',
+  'priceChange24h',
+  'volume24h',
+  'liquidity',
+  'marketCap',
+  'safetyScore', // 0-10
+  'holderConcentration', // percentage held by top 10
+  'buys5m',
+  'sells5m',
+  'sellBuyRatio5m'
+] as const;
+
+export type AlertMetric = typeof ALERT_METRICS[number];
+
+export const ALERT_OPERATORS = ['gt', 'lt', 'gte', 'lte', 'eq', 'crosses_above', 'crosses_below'] as const;
+
+export type AlertOperator = typeof ALERT_OPERATORS[number];
+
+export const ALERT_REFERENCES = ['high', 'low', 'average'] as const;
+
+export type AlertReference = typeof ALERT_REFERENCES[number];
+
+// delta compares the change in the metric's units, percent the change relative to the period's first value
+export const ALERT_CHANGES = ['delta', 'percent'] as const;
+
+export type AlertChange = typeof ALERT_CHANGES[number];
+
+// Periods such as 5m, 1h or 7d
+export const ALERT_PERIOD_PATTERN = /^(\d+)(m|h|d)$/;
+
+export const MAX_ALERT_PERIOD_MS = 7 * 24 * 60 * 60 * 1000;
+
+const alertComparisonSchema = z.object({
+  metric: z.enum(ALERT_METRICS),
+  operator: z.enum(ALERT_OPERATORS),
+  value: z.number().optional(),
+  reference: z.enum(ALERT_REFERENCES).optional(),
+  change: z.enum(ALERT_CHANGES).optional(),
+  period: z.string().regex(ALERT_PERIOD_PATTERN, 'Period must look like 5m, 1h or 7d').optional()
+})
+  .refine(comparison => (comparison.value === undefined) !== (comparison.reference === undefined), {
+    message: 'Compare against either a value or a reference'
+  })
+  .refine(comparison => comparison.period !== undefined || (comparison.change === undefined && comparison.reference === undefined), {
+    message: 'change and reference need a period'
+  })
+  .refine(comparison => comparison.period === undefined || (parsePeriodMs(comparison.period) ?? Infinity) <= MAX_ALERT_PERIOD_MS, {
+    message: 'Period must be at most 7d'
+  })
+  .refine(comparison => !(comparison.change && comparison.operator.startsWith('crosses')), {
+    message: 'Crosses compare the metric itself, not its change'
+  });
+
+export type AlertComparison = z.infer<typeof alertComparisonSchema>;
+
+export type AlertCondition =
+  | AlertComparison
+  | { all: AlertCondition[] }
+  | { any: AlertCondition[] };
+
+export const alertConditionSchema: z.ZodType<AlertCondition> = z.lazy(() => z.union([
+  alertComparisonSchema,
+  z.object({ all: z.array(alertConditionSchema).min(1).max(10) }).strict(),
+  z.object({ any: z.array(alertConditionSchema).min(1).max(10) }).strict()
+]));
+
+export function parsePeriodMs(period: string): number | null {
+  const match = ALERT_PERIOD_PATTERN.exec(period);
+  if (!match) {
+    return null;
+  }
+
+  const unitMs = { m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 }[match[2] as 'm' | 'h' | 'd'];
+  return parseInt(match[1], 10) * unitMs;
+}
+
+// one_shot rules deactivate after their first firing; recurring rules re-arm
+export type AlertMode = 'one_shot' | 'recurring';
+
+export type AlertType = 'PRICE_ALERT' | 'VOLUME_ALERT' | 'SAFETY_ALERT' | 'SIGNAL_ALERT' | 'NEWS_ALERT';
+
+export type AlertSeverity = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+
+// Metric values of one token at a point in time; null where no snapshot supplied the value
+export type AlertMetricSnapshot = Record<AlertMetric, number | null>;
+
+export interface MetricSample {
+  at: Date;
+  metrics: AlertMetricSnapshot;
+}
+
+export interface ConditionResult {
+  holds: boolean | null; // null when the series lacks the data to decide
+  value: number | null; // the compared value for a single comparison
+  margin: number | null; // distance from the level, used for hysteresis; null re-arms as soon as it stops holding
+}
+
+/**
+ * The parts of a stored rule that decide whether it fires
+ */
+export interface AlertRuleState {
+  condition: AlertCondition;
+  mode: AlertMode;
+  cooldownSeconds: number;
+  hysteresis: number;
+  expiresAt: Date | null;
+  isActive: boolean;
+  isTriggered: boolean;
+  triggeredAt: Date | null;
+}
+
+export interface AlertEvaluation {
+  fire: boolean;
+  holds: boolean | null;
+  value: number | null;
+  isActive: boolean;
+  isTriggered: boolean;
+  changed: boolean; // the rule's stored state needs updating
+}
@@ -0,0 +1,353 @@
+/**
+ * API Key Service
+ * Hashed API keys with owner, tier, scopes and expiry, plus per-key usage metering
+ *
+ * Only the SHA-256 hash of a key is stored; the secret is returned once when
+ * the key is issued or rotated. Lookups of stored keys are cached briefly, so
+ * a revocation reaches other API processes within cacheTtlMs; unknown keys are
+ * never cached, so guessed keys cannot grow the cache. Requests are counted in
+ * memory and flushed to api_usage in hourly buckets, which is also when
+ * lastUsedAt is written.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { PrismaClient, ApiKey, ApiUsage } from '@prisma/client';
+import { z } from 'zod';
+import { Logger } from '../utils/logger';
+
+export const API_KEY_SCOPES = ['read:tokens', 'write:filters', 'export', 'admin'] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export type ApiKeyTier = 'free' | 'premium' | 'enterprise';
+
+export interface ApiKeyConfig {
+  cacheTtlMs: number;
+  usageFlushIntervalMs: number;
+}
+
+export const DEFAULT_API_KEY_CONFIG: ApiKeyConfig = {
+  cacheTtlMs: 60 * 1000,
+  usageFlushIntervalMs: 15 * 1000
+};
+
+const MAX_ROTATION_GRACE_SECONDS = 7 * 24 * 60 * 60;
+
+export const issueApiKeySchema = z.object({
+  userId: z.string().min(1).max(100),
+  name: z.string().min(1).max(100),
+  tier: z.enum(['free', 'premium', 'enterprise']).default('free'),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1).default(['read:tokens']),
+  expiresAt: z.string().datetime().optional()
+});
+
+export const rotateApiKeySchema = z.object({
+  // How long the old key keeps working, so clients can switch over
+  graceSeconds: z.number().int().min(0).max(MAX_ROTATION_GRACE_SECONDS).default(0)
+});
+
+export type IssueApiKeyInput = z.infer<typeof issueApiKeySchema>;
+
+// Key as returned by the API - the hash is never echoed back
+export type PublicApiKey = Omit<ApiKey, 'keyHash'>;
+
+export interface IssuedApiKey {
+  apiKey: PublicApiKey;
+  secret: string; // shown once
+}
+
+export interface AuthenticatedKey {
+  id: string;
+  userId: string;
+  name: string;
+  tier: ApiKeyTier;
+  scopes: ApiKeyScope[];
+}
+
+export type ApiKeyCheck =
+  | { status: 'valid'; key: AuthenticatedKey }
+  | { status: 'invalid' | 'revoked' | 'expired' };
+
+export interface ApiKeyUsageReport {
+  apiKey: PublicApiKey;
+  requests: number;
+  errors: number;
+  hourly: ApiUsage[];
+}
+
+const SECRET_PREFIX = 'mca_';
+const DISPLAY_PREFIX_LENGTH = SECRET_PREFIX.length + 6;
+
+export function hashApiKey(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+// Hourly usage bucket, e.g. 2024-03-01T12
+export function usageHour(date: Date): string {
+  return date.toISOString().slice(0, 13);
+}
+
+export class ApiKeyService {
+  private readonly logger = Logger.getInstance();
+  private readonly cache = new Map<string, { check: ApiKeyCheck; expiresAt: Date | null; cachedUntil: number }>();
+  private readonly pendingUsage = new Map<string, { apiKeyId: string; hour: string; requests: number; errors: number; lastUsedAt: Date }>();
+  private flushTimer: NodeJS.Timeout | null = null;
+  private nextCacheSweepAt = 0;
+
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly config: ApiKeyConfig = DEFAULT_API_KEY_CONFIG
+  ) {}
+
+  start(): void {
+    if (this.flushTimer) {
+      return;
+    }
+
+    this.flushTimer = setInterval(() => {
+      void this.flushUsage();
+    }, this.config.usageFlushIntervalMs);
+
+    this.logger.info('API key usage metering started', { flushIntervalMs: this.config.usageFlushIntervalMs });
+  }
+
+  async stop(): Promise<void> {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    await this.flushUsage();
+  }
+
+  async issueKey(input: IssueApiKeyInput): Promise<IssuedApiKey> {
+    const secret = `${SECRET_PREFIX}${randomBytes(24).toString('base64url')}`;
+
+    const apiKey = await this.prisma.apiKey.create({
+      data: {
+        name: input.name,
+        keyHash: hashApiKey(secret),
+        prefix: secret.slice(0, DISPLAY_PREFIX_LENGTH),
+        userId: input.userId,
+        tier: input.tier,
+        scopes: input.scopes,
+        expiresAt: input.expiresAt ? new Date(input.expiresAt) : null
+      }
+    });
+
+    this.logger.info('API key issued', { apiKeyId: apiKey.id, userId: apiKey.userId, tier: apiKey.tier, scopes: apiKey.scopes });
+
+    return { apiKey: this.toPublic(apiKey), secret };
+  }
+
+  /**
+   * Make sure a key with this secret exists, so a fresh deployment has an
+   * admin key to issue the others with
+   */
+  async ensureBootstrapKey(secret: string): Promise<void> {
+    const keyHash = hashApiKey(secret);
+    const existing = await this.prisma.apiKey.findUnique({ where: { keyHash }, select: { id: true } });
+    if (existing) {
+      return;
+    }
+
+    await this.prisma.apiKey.create({
+      data: {
+        name: 'Bootstrap admin key',
+        keyHash,
+        prefix: secret.slice(0, DISPLAY_PREFIX_LENGTH),
+        userId: 'admin',
+        tier: 'enterprise',
+        scopes: [...API_KEY_SCOPES]
+      }
+    });
+
+    this.logger.info('Bootstrap admin API key created');
+  }
+
+  async listKeys(userId?: string): Promise<PublicApiKey[]> {
+    const keys = await this.prisma.apiKey.findMany({
+      where: userId ? { userId } : undefined,
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return keys.map(key => this.toPublic(key));
+  }
+
+  /**
+   * Issue a replacement with the same owner, tier, scopes and expiry. The old
+   * key stops working now, or after the grace period. Returns null when the
+   * key does not exist or is already revoked.
+   */
+  async rotateKey(id: string, graceSeconds: number, now: Date = new Date()): Promise<IssuedApiKey | null> {
+    const current = await this.prisma.apiKey.findUnique({ where: { id } });
+    if (!current || current.revokedAt) {
+      return null;
+    }
+
+    const issued = await this.issueKey({
+      userId: current.userId,
+      name: current.name,
+      tier: current.tier as ApiKeyTier,
+      scopes: current.scopes as ApiKeyScope[],
+      expiresAt: current.expiresAt?.toISOString()
+    });
+
+    const graceEnds = new Date(now.getTime() + graceSeconds * 1000);
+    await this.prisma.apiKey.update({
+      where: { id },
+      data: graceSeconds > 0
+        ? { replacedById: issued.apiKey.id, expiresAt: current.expiresAt && current.expiresAt < graceEnds ? current.expiresAt : graceEnds }
+        : { replacedById: issued.apiKey.id, revokedAt: now }
+    });
+
+    this.forget(current.keyHash);
+    this.logger.info('API key rotated', { apiKeyId: id, replacedById: issued.apiKey.id, graceSeconds });
+
+    return issued;
+  }
+
+  async revokeKey(id: string, now: Date = new Date()): Promise<PublicApiKey | null> {
+    const current = await this.prisma.apiKey.findUnique({ where: { id } });
+    if (!current) {
+      return null;
+    }
+
+    const revoked = current.revokedAt
+      ? current
+      : await this.prisma.apiKey.update({ where: { id }, data: { revokedAt: now } });
+
+    this.forget(current.keyHash);
+    this.logger.info('API key revoked', { apiKeyId: id, userId: current.userId });
+
+    return this.toPublic(revoked);
+  }
+
+  async authenticate(secret: string, now: Date = new Date()): Promise<ApiKeyCheck> {
+    const keyHash = hashApiKey(secret);
+    const cached = this.cache.get(keyHash);
+
+    if (cached && cached.cachedUntil > now.getTime()) {
+      // A cached key can expire before its cache entry does
+      return cached.check.status === 'valid' && cached.expiresAt && cached.expiresAt <= now
+        ? { status: 'expired' }
+        : cached.check;
+    }
+
+    const apiKey = await this.prisma.apiKey.findUnique({ where: { keyHash } });
+    const check = this.check(apiKey, now);
+
+    if (apiKey) {
+      this.sweepCache(now);
+      this.cache.set(keyHash, { check, expiresAt: apiKey.expiresAt, cachedUntil: now.getTime() + this.config.cacheTtlMs });
+    }
+
+    return check;
+  }
+
+  /**
+   * Count a request made with a key; written out on the next flush
+   */
+  recordUsage(apiKeyId: string, statusCode: number, now: Date = new Date()): void {
+    const hour = usageHour(now);
+    const bucketKey = `${apiKeyId}:${hour}`;
+    const bucket = this.pendingUsage.get(bucketKey) ?? { apiKeyId, hour, requests: 0, errors: 0, lastUsedAt: now };
+
+    bucket.requests++;
+    if (statusCode >= 400) bucket.errors++;
+    bucket.lastUsedAt = now;
+
+    this.pendingUsage.set(bucketKey, bucket);
+  }
+
+  async flushUsage(): Promise<void> {
+    const buckets = Array.from(this.pendingUsage.values());
+    this.pendingUsage.clear();
+
+    for (const bucket of buckets) {
+      try {
+        await this.prisma.apiUsage.upsert({
+          where: { apiKeyId_hour: { apiKeyId: bucket.apiKeyId, hour: bucket.hour } },
+          update: { requestCount: { increment: bucket.requests }, errorCount: { increment: bucket.errors } },
+          create: { apiKeyId: bucket.apiKeyId, hour: bucket.hour, requestCount: bucket.requests, errorCount: bucket.errors }
+        });
+        await this.prisma.apiKey.update({ where: { id: bucket.apiKeyId }, data: { lastUsedAt: bucket.lastUsedAt } });
+      } catch (error) {
+        this.logger.warn('Failed to record API key usage', {
+          apiKeyId: bucket.apiKeyId,
+          hour: bucket.hour,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+  }
+
+  async getUsage(id: string, hours: number, now: Date = new Date()): Promise<ApiKeyUsageReport | null> {
+    const apiKey = await this.prisma.apiKey.findUnique({ where: { id } });
+    if (!apiKey) {
+      return null;
+    }
+
+    const hourly = await this.prisma.apiUsage.findMany({
+      where: { apiKeyId: id, hour: { gte: usageHour(new Date(now.getTime() - (hours - 1) * 60 * 60 * 1000)) } },
+      orderBy: { hour: 'desc' }
+    });
+
+    return {
+      apiKey: this.toPublic(apiKey),
+      requests: hourly.reduce((sum, row) => sum + row.requestCount, 0),
+      errors: hourly.reduce((sum, row) => sum + row.errorCount, 0),
+      hourly
+    };
+  }
+
+  private check(apiKey: ApiKey | null, now: Date): ApiKeyCheck {
+    if (!apiKey) {
+      return { status: 'invalid' };
+    }
+
+    if (apiKey.revokedAt && apiKey.revokedAt <= now) {
+      return { status: 'revoked' };
+    }
+
+    if (apiKey.expiresAt && apiKey.expiresAt <= now) {
+      return { status: 'expired' };
+    }
+
+    return {
+      status: 'valid',
+      key: {
+        id: apiKey.id,
+        userId: apiKey.userId,
+        name: apiKey.name,
+        tier: apiKey.tier as ApiKeyTier,
+        scopes: apiKey.scopes as ApiKeyScope[]
+      }
+    };
+  }
+
+  // Drop lapsed entries, so keys that stop being used do not stay cached
+  private sweepCache(now: Date): void {
+    if (now.getTime() < this.nextCacheSweepAt) {
+      return;
+    }
+
+    for (const [keyHash, entry] of this.cache) {
+      if (entry.cachedUntil <= now.getTime()) {
+        this.cache.delete(keyHash);
+      }
+    }
+
+    this.nextCacheSweepAt = now.getTime() + this.config.cacheTtlMs;
+  }
+
+  private forget(keyHash: string): void {
+    this.cache.delete(keyHash);
+  }
+
+  private toPublic(apiKey: ApiKey): PublicApiKey {
+    const publicKey: Partial<ApiKey> = { ...apiKey };
+    delete publicKey.keyHash;
+    return publicKey as PublicApiKey;
+  }
+}
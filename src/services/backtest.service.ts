@@ -0,0 +1,469 @@
+/**
+ * Backtest Service
+ * Replays filters over stored price and safety snapshots
+ *
+ * Every token is stepped through the aggregation ticks that wrote a PriceData,
+ * TokenPrice or SafetyScore row for it. At each tick the filter sees only what
+ * was known at that moment; the first tick it matches opens a position at the
+ * latest price, which is then closed on take-profit, stop-loss, max-hold or
+ * the end of the period. Each trade stakes the same amount.
+ *
+ * Snapshots are discrete, so exits happen at the first observed price past a
+ * threshold - a rug that gaps through the stop-loss is booked at the gap price.
+ */
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import { Logger } from '../utils/logger';
+import { evaluateFilterGroup, FilterRecord } from '../lib/filters/filter-engine';
+import { FilterGroup } from '../types/filter';
+import { extractDetailFields, toRugRisk } from './filter-query.service';
+
+export type BacktestExitReason = 'take_profit' | 'stop_loss' | 'max_hold' | 'end_of_data';
+
+export interface BacktestStrategy {
+  takeProfitPercent: number;
+  stopLossPercent: number;
+  maxHoldHours: number;
+  positionSize: number; // USD staked per trade
+  initialCapital: number; // USD, the base for total return and drawdown
+  allowReentry: boolean; // trade a token again after its position closes
+}
+
+export interface BacktestOptions extends BacktestStrategy {
+  startDate: Date;
+  endDate: Date;
+}
+
+export interface BacktestSubject {
+  id: string; // filter id, or a label for ad-hoc criteria
+  name: string;
+  filter: FilterGroup;
+  warnings?: string[];
+}
+
+export interface BacktestTrade {
+  tokenId: string;
+  address: string;
+  symbol: string;
+  entryAt: string;
+  entryPrice: number;
+  exitAt: string;
+  exitPrice: number;
+  exitReason: BacktestExitReason;
+  returnPercent: number;
+  pnl: number;
+  maxAdverseExcursionPercent: number; // worst drop below entry while held
+  rugged: boolean;
+  entryRugRisk?: string;
+}
+
+export interface BacktestResult {
+  filterId: string;
+  name: string;
+  period: { start: string; end: string };
+  strategy: BacktestStrategy;
+  tokensEvaluated: number;
+  ticksEvaluated: number;
+  trades: number;
+  wins: number;
+  losses: number;
+  winRate: number; // percent
+  totalPnl: number;
+  totalReturnPercent: number; // totalPnl relative to initialCapital
+  avgReturnPercent: number;
+  maxDrawdownPercent: number;
+  pnlDistribution: {
+    best: number;
+    worst: number;
+    percentiles: { p10: number; p25: number; p50: number; p75: number; p90: number };
+    buckets: Array<{ label: string; min: number; max: number | null; count: number }>;
+  };
+  exitReasons: Record<BacktestExitReason, number>;
+  rugExposure: {
+    ruggedTrades: number;
+    ruggedRate: number; // percent of trades
+    ruggedPnl: number;
+    highRiskEntries: number; // entries while rug risk was high or critical
+  };
+  warnings: string[];
+  tradeLog: BacktestTrade[]; // first trades by entry time, capped by maxTradesReported
+}
+
+export interface BacktestServiceConfig {
+  tokenBatchSize: number;
+  maxTokens: number;
+  lookbackMs: number; // history loaded before the start so the first tick has state
+  signalWindowMs: number;
+  rugDrawdownPercent: number; // a drop this deep below entry counts as a rug
+  maxTradesReported: number;
+}
+
+// Return buckets, in percent, for the PnL histogram
+const RETURN_BUCKETS: Array<[number, number | null]> = [
+  [-100, -50], [-50, -20], [-20, 0], [0, 20], [20, 50], [50, 100], [100, null]
+];
+
+// Fields with no stored history are read from the token's current values
+const CURRENT_VALUE_FIELDS = ['liquidity_usd'];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+interface Snapshot {
+  timestamp: Date;
+}
+
+interface OpenPosition {
+  entryAt: Date;
+  entryPrice: number;
+  minPrice: number;
+  entryRugRisk?: string;
+}
+
+interface SubjectState {
+  subject: BacktestSubject;
+  trades: BacktestTrade[];
+  tokensEvaluated: number;
+  ticksEvaluated: number;
+}
+
+/**
+ * Steps through time-ordered rows, returning the latest one at or before a
+ * given moment. Calls must use non-decreasing timestamps.
+ */
+class SnapshotCursor<T extends Snapshot> {
+  private index = -1;
+
+  constructor(private readonly rows: T[]) {}
+
+  at(time: Date): T | undefined {
+    while (this.index + 1 < this.rows.length && this.rows[this.index + 1].timestamp <= time) {
+      this.index++;
+    }
+    return this.index >= 0 ? this.rows[this.index] : undefined;
+  }
+}
+
+export class BacktestService {
+  private readonly logger = Logger.getInstance();
+
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly config: BacktestServiceConfig = {
+      tokenBatchSize: 100,
+      maxTokens: 2000,
+      lookbackMs: 7 * 24 * HOUR_MS,
+      signalWindowMs: 24 * HOUR_MS,
+      rugDrawdownPercent: 80,
+      maxTradesReported: 200
+    }
+  ) {}
+
+  /**
+   * Backtest one or more filters over the same period. Snapshots are loaded
+   * once per token batch and replayed for every filter.
+   */
+  async run(subjects: BacktestSubject[], options: BacktestOptions): Promise<BacktestResult[]> {
+    const startedAt = Date.now();
+    const states: SubjectState[] = subjects.map(subject => ({
+      subject,
+      trades: [],
+      tokensEvaluated: 0,
+      ticksEvaluated: 0
+    }));
+
+    let cursor: string | undefined;
+    let loaded = 0;
+
+    while (loaded < this.config.maxTokens) {
+      const tokens = await this.loadTokens(options, Math.min(this.config.tokenBatchSize, this.config.maxTokens - loaded), cursor);
+
+      for (const token of tokens) {
+        for (const state of states) {
+          this.replayToken(token, state, options);
+        }
+      }
+
+      loaded += tokens.length;
+      if (tokens.length < this.config.tokenBatchSize) break;
+      cursor = tokens[tokens.length - 1].id;
+    }
+
+    const truncated = loaded >= this.config.maxTokens;
+
+    this.logger.info('Backtest completed', {
+      filters: subjects.length,
+      tokens: loaded,
+      truncated,
+      durationMs: Date.now() - startedAt
+    });
+
+    return states.map(state => this.summarize(state, options, truncated));
+  }
+
+  private async loadTokens(options: BacktestOptions, take: number, cursor?: string) {
+    const historyStart = new Date(options.startDate.getTime() - this.config.lookbackMs);
+    const window = { gte: historyStart, lte: options.endDate };
+    const snapshotOrder = { timestamp: 'asc' } as const;
+
+    return this.prisma.token.findMany({
+      where: {
+        createdAt: { lte: options.endDate },
+        OR: [
+          { priceData: { some: { timestamp: { gte: options.startDate, lte: options.endDate } } } },
+          { prices: { some: { timestamp: { gte: options.startDate, lte: options.endDate } } } }
+        ]
+      },
+      include: {
+        priceData: { where: { timestamp: window }, orderBy: snapshotOrder },
+        prices: { where: { timestamp: window }, orderBy: snapshotOrder },
+        safetyScores: { where: { timestamp: window }, orderBy: snapshotOrder },
+        tradingSignals: {
+          where: { timestamp: { gte: new Date(options.startDate.getTime() - this.config.signalWindowMs), lte: options.endDate } },
+          orderBy: snapshotOrder
+        }
+      },
+      orderBy: { id: 'asc' },
+      take,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 })
+    });
+  }
+
+  private replayToken(token: BacktestToken, state: SubjectState, options: BacktestOptions): void {
+    const { startDate, endDate, takeProfitPercent, stopLossPercent, maxHoldHours } = options;
+    const prices = [
+      ...token.priceData.map(row => ({ timestamp: row.timestamp, price: row.price })),
+      ...token.prices.map(row => ({ timestamp: row.timestamp, price: row.price }))
+    ].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    const ticks = [...new Set(
+      [...prices, ...token.safetyScores]
+        .map(row => row.timestamp.getTime())
+        .filter(time => time >= startDate.getTime() && time <= endDate.getTime())
+    )].sort((a, b) => a - b).map(time => new Date(time));
+
+    if (ticks.length === 0) return;
+
+    const priceCursor = new SnapshotCursor(prices);
+    const marketCursor = new SnapshotCursor(token.prices);
+    const snapshotCursor = new SnapshotCursor(token.priceData);
+    const safetyCursor = new SnapshotCursor(token.safetyScores);
+
+    let position: OpenPosition | null = null;
+    let traded = false;
+    let lastPrice: { timestamp: Date; price: number } | undefined;
+
+    const close = (exitAt: Date, exitPrice: number, exitReason: BacktestExitReason) => {
+      const open = position!;
+      const returnPercent = (exitPrice / open.entryPrice - 1) * 100;
+      const minPrice = Math.min(open.minPrice, exitPrice);
+      const maxAdverseExcursionPercent = Math.min(0, (minPrice / open.entryPrice - 1) * 100);
+
+      state.trades.push({
+        tokenId: token.id,
+        address: token.address,
+        symbol: token.symbol,
+        entryAt: open.entryAt.toISOString(),
+        entryPrice: open.entryPrice,
+        exitAt: exitAt.toISOString(),
+        exitPrice,
+        exitReason,
+        returnPercent: round(returnPercent),
+        pnl: round(options.positionSize * returnPercent / 100),
+        maxAdverseExcursionPercent: round(maxAdverseExcursionPercent),
+        rugged: -maxAdverseExcursionPercent >= this.config.rugDrawdownPercent,
+        entryRugRisk: open.entryRugRisk
+      });
+      position = null;
+    };
+
+    state.tokensEvaluated++;
+
+    for (const tick of ticks) {
+      lastPrice = priceCursor.at(tick);
+      if (!lastPrice || lastPrice.price <= 0) continue;
+
+      if (position) {
+        const open: OpenPosition = position;
+        open.minPrice = Math.min(open.minPrice, lastPrice.price);
+        const returnPercent = (lastPrice.price / open.entryPrice - 1) * 100;
+
+        if (returnPercent >= takeProfitPercent) {
+          close(tick, lastPrice.price, 'take_profit');
+        } else if (returnPercent <= -stopLossPercent) {
+          close(tick, lastPrice.price, 'stop_loss');
+        } else if (tick.getTime() - open.entryAt.getTime() >= maxHoldHours * HOUR_MS) {
+          close(tick, lastPrice.price, 'max_hold');
+        }
+        continue;
+      }
+
+      if (traded && !options.allowReentry) continue;
+
+      state.ticksEvaluated++;
+      const record = this.buildSnapshotRecord(token, tick, {
+        market: marketCursor.at(tick),
+        snapshot: snapshotCursor.at(tick),
+        safety: safetyCursor.at(tick)
+      });
+
+      if (evaluateFilterGroup(state.subject.filter, record)) {
+        position = {
+          entryAt: tick,
+          entryPrice: lastPrice.price,
+          minPrice: lastPrice.price,
+          entryRugRisk: record.rug_risk as string | undefined
+        };
+        traded = true;
+      }
+    }
+
+    if (position && lastPrice) {
+      close(lastPrice.timestamp, lastPrice.price, 'end_of_data');
+    }
+  }
+
+  /**
+   * The filter record as the aggregator saw the token at `time`
+   */
+  private buildSnapshotRecord(
+    token: BacktestToken,
+    time: Date,
+    latest: {
+      market?: BacktestToken['prices'][number];
+      snapshot?: BacktestToken['priceData'][number];
+      safety?: BacktestToken['safetyScores'][number];
+    }
+  ): FilterRecord {
+    const { market, snapshot, safety } = latest;
+    const signals = token.tradingSignals.filter(signal =>
+      signal.timestamp <= time && signal.timestamp.getTime() > time.getTime() - this.config.signalWindowMs
+    );
+    const record = extractDetailFields(safety?.details ?? null);
+
+    return Object.assign(record, {
+      age_hours: (time.getTime() - token.createdAt.getTime()) / HOUR_MS,
+      chain: token.chain,
+      market_cap: market?.marketCap,
+      volume_24h: snapshot?.volume ?? market?.volume,
+      price_change_1h: snapshot?.change1h,
+      price_change_24h: snapshot?.change24h,
+      price_change_7d: snapshot?.change7d,
+      safety_score: safety?.overallScore,
+      rug_risk: safety ? toRugRisk(safety.rugScore) : record.rug_risk,
+      liquidity_usd: record.liquidity_usd ?? token.liquidity,
+      signal_type: signals.map(signal => signal.type),
+      signal_strength: signals.map(signal => signal.strength)
+    } satisfies FilterRecord);
+  }
+
+  private summarize(state: SubjectState, options: BacktestOptions, truncated: boolean): BacktestResult {
+    const { subject, trades } = state;
+    const returns = trades.map(trade => trade.returnPercent).sort((a, b) => a - b);
+    const wins = trades.filter(trade => trade.pnl > 0).length;
+    const totalPnl = trades.reduce((sum, trade) => sum + trade.pnl, 0);
+    const rugged = trades.filter(trade => trade.rugged);
+
+    const exitReasons: Record<BacktestExitReason, number> = { take_profit: 0, stop_loss: 0, max_hold: 0, end_of_data: 0 };
+    trades.forEach(trade => exitReasons[trade.exitReason]++);
+
+    const warnings = [...(subject.warnings ?? [])];
+    const usedCurrentValues = CURRENT_VALUE_FIELDS.filter(field => referencesField(subject.filter, field));
+    if (usedCurrentValues.length > 0) {
+      warnings.push(`No history is stored for ${usedCurrentValues.join(', ')}; current values were used`);
+    }
+    if (truncated) {
+      warnings.push(`Only the first ${this.config.maxTokens} tokens were replayed`);
+    }
+
+    return {
+      filterId: subject.id,
+      name: subject.name,
+      period: { start: options.startDate.toISOString(), end: options.endDate.toISOString() },
+      strategy: {
+        takeProfitPercent: options.takeProfitPercent,
+        stopLossPercent: options.stopLossPercent,
+        maxHoldHours: options.maxHoldHours,
+        positionSize: options.positionSize,
+        initialCapital: options.initialCapital,
+        allowReentry: options.allowReentry
+      },
+      tokensEvaluated: state.tokensEvaluated,
+      ticksEvaluated: state.ticksEvaluated,
+      trades: trades.length,
+      wins,
+      losses: trades.length - wins,
+      winRate: trades.length > 0 ? round((wins / trades.length) * 100) : 0,
+      totalPnl: round(totalPnl),
+      totalReturnPercent: round((totalPnl / options.initialCapital) * 100),
+      avgReturnPercent: returns.length > 0 ? round(returns.reduce((sum, value) => sum + value, 0) / returns.length) : 0,
+      maxDrawdownPercent: this.calculateMaxDrawdown(trades, options.initialCapital),
+      pnlDistribution: {
+        best: returns.length > 0 ? returns[returns.length - 1] : 0,
+        worst: returns.length > 0 ? returns[0] : 0,
+        percentiles: {
+          p10: percentile(returns, 10),
+          p25: percentile(returns, 25),
+          p50: percentile(returns, 50),
+          p75: percentile(returns, 75),
+          p90: percentile(returns, 90)
+        },
+        buckets: RETURN_BUCKETS.map(([min, max]) => ({
+          label: max === null ? `${min}%+` : `${min}% to ${max}%`,
+          min,
+          max,
+          count: returns.filter(value => value >= min && (max === null || value < max)).length
+        }))
+      },
+      exitReasons,
+      rugExposure: {
+        ruggedTrades: rugged.length,
+        ruggedRate: trades.length > 0 ? round((rugged.length / trades.length) * 100) : 0,
+        ruggedPnl: round(rugged.reduce((sum, trade) => sum + trade.pnl, 0)),
+        highRiskEntries: trades.filter(trade => trade.entryRugRisk === 'high' || trade.entryRugRisk === 'critical').length
+      },
+      warnings,
+      tradeLog: [...trades]
+        .sort((a, b) => a.entryAt.localeCompare(b.entryAt))
+        .slice(0, this.config.maxTradesReported)
+    };
+  }
+
+  /**
+   * Largest peak-to-trough fall of the equity curve, booking each trade's PnL
+   * when it closes
+   */
+  calculateMaxDrawdown(trades: Array<Pick<BacktestTrade, 'exitAt' | 'pnl'>>, initialCapital: number): number {
+    let equity = initialCapital;
+    let peak = initialCapital;
+    let maxDrawdown = 0;
+
+    for (const trade of [...trades].sort((a, b) => a.exitAt.localeCompare(b.exitAt))) {
+      equity += trade.pnl;
+      peak = Math.max(peak, equity);
+      if (peak > 0) {
+        maxDrawdown = Math.max(maxDrawdown, ((peak - equity) / peak) * 100);
+      }
+    }
+
+    return round(maxDrawdown);
+  }
+}
+
+type BacktestToken = Prisma.TokenGetPayload<{
+  include: { priceData: true; prices: true; safetyScores: true; tradingSignals: true };
+}>;
+
+function referencesField(group: FilterGroup, field: string): boolean {
+  return group.conditions.some(condition => condition.field === field) ||
+    group.groups.some(child => referencesField(child, field));
+}
+
+// Nearest-rank percentile of an ascending list
+function percentile(sorted: number[], rank: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil((rank / 100) * sorted.length) - 1))];
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
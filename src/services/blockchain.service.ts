@@ -5,6 +5,7 @@
 import axios, { AxiosInstance } from 'axios';
 import { TokenData, TokenMetrics, TokenSecurity } from '../types/tokens';
 import { Logger } from '../utils/logger';
+import { addressKey } from '../utils/address';
 
 export interface BlockchainAPIConfig {
   etherscan: string;
@@ -82,7 +83,7 @@ export class BlockchainService {
       if (!tokenInfo) return null;
 
       return {
-        address: tokenInfo.address.toLowerCase(),
+        address: addressKey(tokenInfo.address, network),
         symbol: tokenInfo.symbol,
         name: tokenInfo.name,
         decimals: tokenInfo.decimals,
@@ -121,7 +122,7 @@ export class BlockchainService {
       const topPair = (pairs as DexPair[]).sort((a, b) => (b.liquidity?.usd || 0) - (a.liquidity?.usd || 0))[0];
 
       return {
-        address: address.toLowerCase(),
+        address: addressKey(address, network),
         price: parseFloat(topPair.priceUsd || '0'),
         priceChange24h: parseFloat(topPair.priceChange?.h24 || '0'),
         volume24h: parseFloat(topPair.volume?.h24 || '0'),
@@ -142,7 +143,7 @@ export class BlockchainService {
       // This would integrate with security analysis APIs like GoPlus Security
       // For now, providing a basic structure
       const defaultSecurity: TokenSecurity = {
-        address: address.toLowerCase(),
+        address: addressKey(address, network),
         contractVerified: false,
         liquidityLocked: false,
         ownershipRenounced: false,
@@ -179,7 +180,7 @@ export class BlockchainService {
     } catch (error) {
       this.logger.error('Failed to fetch token security', { address, network, error });
       return {
-        address: address.toLowerCase(),
+        address: addressKey(address, network),
         contractVerified: false,
         liquidityLocked: false,
         ownershipRenounced: false,
@@ -211,7 +212,7 @@ export class BlockchainService {
       return (tokens as TrendingPair[])
         .filter((pair) => pair.chainId === network)
         .slice(0, limit)
-        .map((pair) => pair.baseToken.address.toLowerCase());
+        .map((pair) => addressKey(pair.baseToken.address, network));
     } catch (error) {
       this.logger.error('Failed to fetch new tokens', { network, error });
       return [];
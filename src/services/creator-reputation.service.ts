@@ -0,0 +1,452 @@
+/**
+ * Creator Reputation Service
+ * Evidence-based rug labels and per-creator records for token launchers
+ *
+ * Whenever the aggregator stores an analysis, the launching creator's record
+ * is brought up to date: the analysed token is observed from the analysis
+ * itself, and the creator's other tokens whose last check has gone stale are
+ * re-observed through DEXScreener. Every observation updates the token's
+ * running price, liquidity and market-cap peaks, and a token is labelled
+ * rugged once any of these rules fires:
+ * - liquidity_removed: pool liquidity fell far below its observed peak, or
+ *   a listed pool holds almost nothing, which only an LP withdrawal leaves
+ * - price_collapse: price fell far below its peak within the collapse window
+ * - dev_dump: the creator sold most of the balance they held
+ *
+ * Labels are sticky. Each rule is recorded once, with the numbers behind it.
+ */
+
+import { PrismaClient, Prisma, CreatorToken, Creator } from '@prisma/client';
+import { CombinedTokenAnalysis, DexScreenerTokenData } from '../types/api.types';
+import { DexScreenerService } from './dexscreener.service';
+import { createOnChainProvider, CreatorTokenFlow, OnChainDataProvider } from './onchain';
+import { Logger } from '../utils/logger';
+import { sameAddress } from '../utils/address';
+
+export type RugEvidenceKind = 'liquidity_removed' | 'price_collapse' | 'dev_dump';
+
+export type CreatorTokenStatus = 'active' | 'rugged' | 'unlisted';
+
+export interface RugEvidence {
+  kind: RugEvidenceKind;
+  detail: string;
+  observedAt: string;
+  metrics: Record<string, number>;
+}
+
+export interface TokenMarketObservation {
+  price: number;
+  liquidityUsd: number;
+  marketCap: number;
+  priceChange?: { h1?: number; h6?: number; h24?: number }; // percent
+  observedAt: Date;
+}
+
+// Running market state of one creator token
+export interface CreatorTokenState {
+  launchedAt: Date;
+  peakPrice: number | null;
+  peakPriceAt: Date | null;
+  peakLiquidity: number | null;
+  peakMarketCap: number | null;
+  lastPrice: number | null;
+  lastLiquidity: number | null;
+}
+
+export interface CreatorReputationConfig {
+  liquidityRemovalPercent: number; // drop from the observed peak that counts as a pull
+  minPeakLiquidityUsd: number; // shallower pools are not judged on liquidity drops
+  deadPoolLiquidityUsd: number; // a listed pool holding less has had its LP withdrawn
+  priceCollapsePercent: number;
+  collapseWindowHours: number; // the collapse must follow the peak within this window
+  devDumpPercent: number; // share of the creator's peak balance sold
+  refreshIntervalMs: number; // how long an observation of an older token stays fresh
+  maxRefreshPerUpdate: number; // older tokens re-observed per creator update
+}
+
+export interface CreatorTokenRecord {
+  mint: string;
+  launchedAt: string;
+  status: CreatorTokenStatus;
+  ruggedAt: string | null;
+  lifetimeHours: number | null;
+  peakPrice: number | null;
+  peakLiquidity: number | null;
+  peakMarketCap: number | null;
+  lastPrice: number | null;
+  lastLiquidity: number | null;
+  lastCheckedAt: string | null;
+  evidence: RugEvidence[];
+}
+
+export interface CreatorRecord {
+  address: string;
+  tokensCreated: number;
+  ruggedTokens: number;
+  rugRate: number | null; // percent of tokens rugged
+  medianLifetimeHours: number | null;
+  peakMarketCap: number | null;
+  firstTokenAt: string | null;
+  updatedAt: string;
+  tokens: CreatorTokenRecord[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// DEXScreener change windows, checked for single-observation collapses
+const CHANGE_WINDOWS = [
+  { key: 'h1', hours: 1 },
+  { key: 'h6', hours: 6 },
+  { key: 'h24', hours: 24 }
+] as const;
+
+export const DEFAULT_CREATOR_REPUTATION_CONFIG: CreatorReputationConfig = {
+  liquidityRemovalPercent: 80,
+  minPeakLiquidityUsd: 1000,
+  deadPoolLiquidityUsd: 100,
+  priceCollapsePercent: 90,
+  collapseWindowHours: 24,
+  devDumpPercent: 50,
+  refreshIntervalMs: 6 * HOUR_MS,
+  maxRefreshPerUpdate: 20
+};
+
+/**
+ * Judge one observation of a creator token against its running state.
+ * Returns the evidence it produced and the state with peaks updated.
+ */
+export function assessRugEvidence(
+  state: CreatorTokenState,
+  observation: TokenMarketObservation | null,
+  flow: CreatorTokenFlow | undefined,
+  config: CreatorReputationConfig,
+  now: Date = new Date()
+): { state: CreatorTokenState; evidence: RugEvidence[] } {
+  const evidence: RugEvidence[] = [];
+  const observedAt = (observation?.observedAt ?? now).toISOString();
+
+  if (observation) {
+    const { liquidityUsd, price } = observation;
+
+    // Liquidity removal
+    const peakLiquidity = state.peakLiquidity ?? 0;
+    const liquidityDrop = peakLiquidity > 0 ? (1 - liquidityUsd / peakLiquidity) * 100 : 0;
+    if (peakLiquidity >= config.minPeakLiquidityUsd && liquidityDrop >= config.liquidityRemovalPercent) {
+      evidence.push({
+        kind: 'liquidity_removed',
+        detail: `Liquidity fell ${liquidityDrop.toFixed(0)}% from its $${peakLiquidity.toFixed(0)} peak`,
+        observedAt,
+        metrics: { peakLiquidityUsd: peakLiquidity, liquidityUsd, dropPercent: round(liquidityDrop) }
+      });
+    } else if (liquidityUsd < config.deadPoolLiquidityUsd) {
+      evidence.push({
+        kind: 'liquidity_removed',
+        detail: `Pool holds only $${liquidityUsd.toFixed(2)} of liquidity`,
+        observedAt,
+        metrics: { liquidityUsd }
+      });
+    }
+
+    // Price collapse against the tracked peak
+    const peakPrice = state.peakPrice ?? 0;
+    const priceDrop = peakPrice > 0 ? (1 - price / peakPrice) * 100 : 0;
+    const hoursAfterPeak = state.peakPriceAt ? (observation.observedAt.getTime() - state.peakPriceAt.getTime()) / HOUR_MS : null;
+    const collapseWindow = CHANGE_WINDOWS.filter(window => window.hours <= config.collapseWindowHours)
+      .find(window => (observation.priceChange?.[window.key] ?? 0) <= -config.priceCollapsePercent);
+
+    if (hoursAfterPeak !== null && hoursAfterPeak <= config.collapseWindowHours && priceDrop >= config.priceCollapsePercent) {
+      evidence.push({
+        kind: 'price_collapse',
+        detail: `Price fell ${priceDrop.toFixed(0)}% within ${hoursAfterPeak.toFixed(1)}h of its peak`,
+        observedAt,
+        metrics: { peakPrice, price, dropPercent: round(priceDrop), hoursAfterPeak: round(hoursAfterPeak) }
+      });
+    } else if (collapseWindow) {
+      // No tracked peak yet - DEXScreener's own change windows still show a collapse
+      const change = observation.priceChange![collapseWindow.key]!;
+      evidence.push({
+        kind: 'price_collapse',
+        detail: `Price fell ${Math.abs(change).toFixed(0)}% in ${collapseWindow.hours}h`,
+        observedAt,
+        metrics: { changePercent: change, windowHours: collapseWindow.hours }
+      });
+    }
+  }
+
+  // Developer dumping
+  const peakBalance = flow ? Number(flow.peakBalance) : 0;
+  const soldPercent = peakBalance > 0 ? (Number(flow!.soldAmount) / peakBalance) * 100 : 0;
+  if (soldPercent >= config.devDumpPercent) {
+    evidence.push({
+      kind: 'dev_dump',
+      detail: `Creator sold ${soldPercent.toFixed(0)}% of their peak balance`,
+      observedAt,
+      metrics: { soldPercent: round(soldPercent) }
+    });
+  }
+
+  if (!observation) {
+    return { state, evidence };
+  }
+
+  const newPricePeak = state.peakPrice === null || observation.price > state.peakPrice;
+
+  return {
+    evidence,
+    state: {
+      launchedAt: state.launchedAt,
+      peakPrice: newPricePeak ? observation.price : state.peakPrice,
+      peakPriceAt: newPricePeak ? observation.observedAt : state.peakPriceAt,
+      peakLiquidity: Math.max(state.peakLiquidity ?? 0, observation.liquidityUsd),
+      peakMarketCap: Math.max(state.peakMarketCap ?? 0, observation.marketCap),
+      lastPrice: observation.price,
+      lastLiquidity: observation.liquidityUsd
+    }
+  };
+}
+
+export class CreatorReputationService {
+  private readonly logger = Logger.getInstance();
+
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly onChain: OnChainDataProvider = createOnChainProvider(),
+    private readonly dexScreener: Pick<DexScreenerService, 'getTokenData'> = new DexScreenerService(),
+    private readonly config: CreatorReputationConfig = DEFAULT_CREATOR_REPUTATION_CONFIG
+  ) {}
+
+  /**
+   * Bring the record of the analysed token's creator up to date. Resolves to
+   * null when the creator cannot be identified.
+   */
+  async recordAnalysis(analysis: CombinedTokenAnalysis, now: Date = new Date()): Promise<CreatorRecord | null> {
+    const history = await this.onChain.getCreatorHistory(analysis.address);
+    if (!history) {
+      this.logger.debug('Creator unknown, reputation not updated', { address: analysis.address });
+      return null;
+    }
+
+    const creator = await this.prisma.creator.upsert({
+      where: { address: history.creator },
+      update: {},
+      create: { address: history.creator }
+    });
+
+    const existing = await this.prisma.creatorToken.findMany({
+      where: { mint: { in: history.tokens.map(token => token.address) } }
+    });
+    const byMint = new Map(existing.map(row => [row.mint, row]));
+
+    // The analysed token is observed from the analysis; stale older tokens are looked up
+    const observations = new Map<string, TokenMarketObservation | null>([
+      [analysis.address, toObservation(analysis.dexScreener, now)]
+    ]);
+    const stale = history.tokens
+      .filter(token => token.address !== analysis.address)
+      .filter(token => {
+        const checkedAt = byMint.get(token.address)?.lastCheckedAt;
+        return !checkedAt || now.getTime() - checkedAt.getTime() >= this.config.refreshIntervalMs;
+      })
+      .sort((a, b) => (byMint.get(a.address)?.lastCheckedAt?.getTime() ?? 0) - (byMint.get(b.address)?.lastCheckedAt?.getTime() ?? 0))
+      .slice(0, this.config.maxRefreshPerUpdate);
+
+    for (const [address, observation] of await this.observe(stale.map(token => token.address), now)) {
+      observations.set(address, observation);
+    }
+
+    for (const token of history.tokens) {
+      const previous = byMint.get(token.address);
+      const observation = observations.get(token.address);
+      const { state, evidence } = assessRugEvidence(
+        previous ? toState(previous) : emptyState(token.createdAt),
+        observation ?? null,
+        token.creatorFlow,
+        this.config,
+        now
+      );
+
+      const priorEvidence = (previous?.rugEvidence ?? []) as unknown as RugEvidence[];
+      const allEvidence = [...priorEvidence, ...evidence.filter(item => !priorEvidence.some(prior => prior.kind === item.kind))];
+
+      let status: CreatorTokenStatus = (previous?.status as CreatorTokenStatus | undefined) ?? 'active';
+      if (allEvidence.length > 0) status = 'rugged';
+      else if (observation === null && state.lastPrice === null) status = 'unlisted';
+      else if (observation) status = 'active';
+
+      const data = {
+        ...state,
+        creatorId: creator.id,
+        launchedAt: token.createdAt,
+        status,
+        rugEvidence: allEvidence as unknown as Prisma.InputJsonArray,
+        ruggedAt: previous?.ruggedAt ?? (allEvidence.length > 0 ? new Date(allEvidence[0].observedAt) : null),
+        ...(observation !== undefined && { lastCheckedAt: now }),
+        ...(token.creatorFlow && {
+          creatorPeakBalance: token.creatorFlow.peakBalance,
+          creatorSold: token.creatorFlow.soldAmount
+        })
+      };
+
+      await this.prisma.creatorToken.upsert({
+        where: { mint: token.address },
+        update: data,
+        create: { ...data, mint: token.address }
+      });
+    }
+
+    return this.refreshCreatorStats(creator.id, now);
+  }
+
+  async getCreator(address: string): Promise<CreatorRecord | null> {
+    const creator = await this.prisma.creator.findUnique({
+      where: { address },
+      include: { tokens: { orderBy: { launchedAt: 'desc' } } }
+    });
+
+    return creator && toCreatorRecord(creator, creator.tokens, new Date());
+  }
+
+  /**
+   * Rug labels for the mints the store has judged. Unknown mints are absent.
+   */
+  async getRugLabels(mints: string[]): Promise<Map<string, boolean>> {
+    const rows = await this.prisma.creatorToken.findMany({
+      where: { mint: { in: mints } },
+      select: { mint: true, status: true }
+    });
+
+    return new Map(rows.map(row => [row.mint, row.status === 'rugged']));
+  }
+
+  /**
+   * Current DEXScreener state of each address, using its deepest pair.
+   * Addresses without a pair map to null; a failed lookup observes nothing.
+   */
+  private async observe(addresses: string[], now: Date): Promise<Map<string, TokenMarketObservation | null>> {
+    const observations = new Map<string, TokenMarketObservation | null>();
+    if (addresses.length === 0) {
+      return observations;
+    }
+
+    const response = await this.dexScreener.getTokenData(addresses);
+    if (!response.success || !response.data) {
+      this.logger.warn('Creator token lookup failed', { count: addresses.length, error: response.error });
+      return observations;
+    }
+
+    for (const address of addresses) {
+      const pairs = response.data.filter(pair => sameAddress(pair.address, address, pair.chain));
+      const deepest = pairs.reduce<DexScreenerTokenData | null>(
+        (best, pair) => (!best || pair.liquidity > best.liquidity ? pair : best),
+        null
+      );
+      observations.set(address, deepest && toObservation(deepest, now));
+    }
+
+    return observations;
+  }
+
+  private async refreshCreatorStats(creatorId: string, now: Date): Promise<CreatorRecord> {
+    const tokens = await this.prisma.creatorToken.findMany({
+      where: { creatorId },
+      orderBy: { launchedAt: 'desc' }
+    });
+
+    const lifetimes = tokens
+      .map(token => lifetimeHours(token, now))
+      .filter((hours): hours is number => hours !== null);
+    const peaks = tokens.map(token => token.peakMarketCap).filter((cap): cap is number => cap !== null);
+
+    const creator = await this.prisma.creator.update({
+      where: { id: creatorId },
+      data: {
+        tokensCreated: tokens.length,
+        ruggedTokens: tokens.filter(token => token.status === 'rugged').length,
+        medianLifetimeHours: median(lifetimes),
+        peakMarketCap: peaks.length > 0 ? Math.max(...peaks) : null,
+        firstTokenAt: tokens.length > 0 ? new Date(Math.min(...tokens.map(token => token.launchedAt.getTime()))) : null
+      }
+    });
+
+    return toCreatorRecord(creator, tokens, now);
+  }
+}
+
+function toObservation(data: DexScreenerTokenData, observedAt: Date): TokenMarketObservation {
+  return {
+    price: data.price,
+    liquidityUsd: data.liquidity,
+    marketCap: data.marketCap,
+    priceChange: data.priceChange,
+    observedAt
+  };
+}
+
+function emptyState(launchedAt: Date): CreatorTokenState {
+  return {
+    launchedAt,
+    peakPrice: null,
+    peakPriceAt: null,
+    peakLiquidity: null,
+    peakMarketCap: null,
+    lastPrice: null,
+    lastLiquidity: null
+  };
+}
+
+function toState(row: CreatorToken): CreatorTokenState {
+  return {
+    launchedAt: row.launchedAt,
+    peakPrice: row.peakPrice,
+    peakPriceAt: row.peakPriceAt,
+    peakLiquidity: row.peakLiquidity,
+    peakMarketCap: row.peakMarketCap,
+    lastPrice: row.lastPrice,
+    lastLiquidity: row.lastLiquidity
+  };
+}
+
+// Rugged tokens live until the rug, listed ones until their last check; unlisted ones never traded
+function lifetimeHours(token: CreatorToken, now: Date): number | null {
+  if (token.status === 'unlisted') return null;
+  const end = token.status === 'rugged' ? token.ruggedAt : token.lastCheckedAt ?? now;
+  return end ? round(Math.max(0, end.getTime() - token.launchedAt.getTime()) / HOUR_MS) : null;
+}
+
+function toCreatorRecord(creator: Creator, tokens: CreatorToken[], now: Date): CreatorRecord {
+  return {
+    address: creator.address,
+    tokensCreated: creator.tokensCreated,
+    ruggedTokens: creator.ruggedTokens,
+    rugRate: creator.tokensCreated > 0 ? round((creator.ruggedTokens / creator.tokensCreated) * 100) : null,
+    medianLifetimeHours: creator.medianLifetimeHours,
+    peakMarketCap: creator.peakMarketCap,
+    firstTokenAt: creator.firstTokenAt?.toISOString() ?? null,
+    updatedAt: creator.updatedAt.toISOString(),
+    tokens: tokens.map(token => ({
+      mint: token.mint,
+      launchedAt: token.launchedAt.toISOString(),
+      status: token.status as CreatorTokenStatus,
+      ruggedAt: token.ruggedAt?.toISOString() ?? null,
+      lifetimeHours: lifetimeHours(token, now),
+      peakPrice: token.peakPrice,
+      peakLiquidity: token.peakLiquidity,
+      peakMarketCap: token.peakMarketCap,
+      lastPrice: token.lastPrice,
+      lastLiquidity: token.lastLiquidity,
+      lastCheckedAt: token.lastCheckedAt?.toISOString() ?? null,
+      evidence: token.rugEvidence as unknown as RugEvidence[]
+    }))
+  };
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? round((sorted[middle - 1] + sorted[middle]) / 2) : sorted[middle];
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -5,8 +5,10 @@
 
 import axios, { AxiosInstance } from 'axios';
 import {
+  DexScreenerPair,
   DexScreenerResponse,
   DexScreenerTokenData,
+  TokenMarketView,
   ApiResponse,
   TokenFilterCriteria,
   ServiceHealthCheck
@@ -14,6 +16,8 @@ import {
 import { RateLimiter, DEFAULT_RATE_LIMITS, DEFAULT_RETRY_CONFIG } from '../utils/rate-limiter';
 import { globalCache } from '../utils/cache';
 import { Logger } from '../utils/logger';
+import { addressKey } from '../utils/address';
+import { buildTokenMarketView } from './token-market.service';
 
 export class DexScreenerService {
   private readonly client: AxiosInstance;
@@ -184,25 +188,43 @@ export class DexScreenerService {
     }
   }
 
+  /**
+   * One entry per token, merging every pool it trades in: liquidity, volume
+   * and transactions are summed, price is volume-weighted and price change
+   * comes from the deepest pool.
+   */
   private processTokenData(
     pairs: DexScreenerResponse['pairs'],
     filters?: TokenFilterCriteria
   ): DexScreenerTokenData[] {
     const now = Date.now();
+    const pairsByToken = new Map<string, DexScreenerPair[]>();
 
-    return pairs.map(pair => {
-      const ageHours = (now - (pair.pairCreatedAt * 1000)) / (1000 * 60 * 60);
+    for (const pair of pairs) {
+      const key = `${pair.chainId}:${addressKey(pair.baseToken.address, pair.chainId)}`;
+      pairsByToken.set(key, [...(pairsByToken.get(key) ?? []), pair]);
+    }
+
+    return [...pairsByToken.values()].map(tokenPairs => {
+      const market = buildTokenMarketView(tokenPairs);
+      const dominant = tokenPairs.find(pair => pair.pairAddress === market.dominantPair) ?? tokenPairs[0];
+      const launchTimestamp = Math.min(...tokenPairs.map(pair => pair.pairCreatedAt));
+      const ageHours = (now - (launchTimestamp * 1000)) / (1000 * 60 * 60);
 
       const tokenData: DexScreenerTokenData = {
-        address: pair.baseToken.address.toLowerCase(),
-        symbol: pair.baseToken.symbol,
-        name: pair.baseToken.name,
-        launchTimestamp: pair.pairCreatedAt,
-        price: parseFloat(pair.priceUsd || '0'),
-        marketCap: this.calculateMarketCap(pair),
-        volume24h: pair.volume?.h24 || 0,
-        liquidity: pair.liquidity?.usd || 0,
+        address: addressKey(dominant.baseToken.address, dominant.chainId),
+        chain: dominant.chainId,
+        symbol: dominant.baseToken.symbol,
+        name: dominant.baseToken.name,
+        launchTimestamp,
+        price: market.volumeWeightedPrice,
+        marketCap: this.calculateMarketCap(market),
+        volume24h: market.totalVolume24h,
+        liquidity: market.totalLiquidity,
         age: ageHours,
+        priceChange: dominant.priceChange,
+        txns: this.sumTxns(tokenPairs),
+        market,
         filtered: false
       };
 
@@ -217,16 +239,30 @@ export class DexScreenerService {
     });
   }
 
-  private calculateMarketCap(pair: DexScreenerResponse['pairs'][0]): number {
+  private calculateMarketCap(market: TokenMarketView): number {
     // Simplified market cap calculation
     // In practice, would need total supply data
-    const price = parseFloat(pair.priceUsd || '0');
-    const liquidity = pair.liquidity?.usd || 0;
+    const price = market.volumeWeightedPrice;
+    const liquidity = market.totalLiquidity;
 
     // Rough estimate: market cap ~ 10x liquidity for new tokens
     return price > 0 ? liquidity * 10 : 0;
   }
 
+  private sumTxns(pairs: DexScreenerPair[]): DexScreenerPair['txns'] | undefined {
+    const withTxns = pairs.filter(pair => pair.txns);
+    if (withTxns.length === 0) {
+      return undefined;
+    }
+
+    const window = (key: keyof DexScreenerPair['txns']) => ({
+      buys: withTxns.reduce((total, pair) => total + (pair.txns[key]?.buys || 0), 0),
+      sells: withTxns.reduce((total, pair) => total + (pair.txns[key]?.sells || 0), 0)
+    });
+
+    return { m5: window('m5'), h1: window('h1'), h6: window('h6'), h24: window('h24') };
+  }
+
   private applyFilters(
     token: DexScreenerTokenData,
     filters: TokenFilterCriteria
@@ -253,6 +289,49 @@ export class DexScreenerService {
     return { passed: true };
   }
 
+  /**
+   * Token addresses (base and quote) of the pairs matching a free-text query.
+   * The search is case-insensitive, so it can recover a mint's real casing.
+   */
+  async searchTokenAddresses(query: string): Promise<ApiResponse<string[]>> {
+    try {
+      const result = await this.rateLimiter.executeWithBackoff(
+        this.serviceName,
+        async () => {
+          const response = await this.client.get<DexScreenerResponse>('/search', { params: { q: query } });
+          return response.data;
+        },
+        DEFAULT_RETRY_CONFIG
+      );
+
+      const addresses = new Set<string>();
+      for (const pair of result.pairs || []) {
+        addresses.add(pair.baseToken.address);
+        addresses.add(pair.quoteToken.address);
+      }
+
+      return {
+        success: true,
+        data: [...addresses],
+        timestamp: new Date(),
+        source: this.serviceName
+      };
+
+    } catch (error) {
+      this.logger.error('Failed to search DEXScreener pairs', {
+        query,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date(),
+        source: this.serviceName
+      };
+    }
+  }
+
   async healthCheck(): Promise<ServiceHealthCheck> {
     const startTime = Date.now();
 
@@ -0,0 +1,160 @@
+/**
+ * Discovery Feed
+ * Queues pools from a discovery source into the pipeline with bounded concurrency
+ *
+ * Mints already processed by the aggregator, or seen recently on the feed,
+ * are skipped. When maxQueued mints are waiting the source is paused and
+ * further mints are dropped (the polling run picks them up later); it is
+ * resumed once the queue has drained to half.
+ */
+
+import { EventEmitter } from 'events';
+import { Logger } from '../../utils/logger';
+import { DiscoveredPool, DiscoveryFeedConfig, DiscoveryFeedStats, DiscoverySource } from './types';
+
+export const DEFAULT_DISCOVERY_FEED_CONFIG: DiscoveryFeedConfig = {
+  maxConcurrent: 3,
+  maxQueued: 50,
+  seenCacheSize: 5000
+};
+
+export class DiscoveryFeed extends EventEmitter {
+  private readonly logger = Logger.getInstance();
+  private readonly queue: DiscoveredPool[] = [];
+  private readonly seen = new Set<string>();
+  private readonly stats: Omit<DiscoveryFeedStats, 'queued' | 'inFlight' | 'paused'> = {
+    received: 0,
+    duplicates: 0,
+    dropped: 0,
+    processed: 0,
+    failed: 0
+  };
+
+  private inFlight = 0;
+  private paused = false;
+  private running = false;
+
+  constructor(
+    private readonly source: DiscoverySource,
+    private readonly processToken: (pool: DiscoveredPool) => Promise<void>,
+    private readonly isKnown: (mint: string) => boolean,
+    private readonly config: DiscoveryFeedConfig = DEFAULT_DISCOVERY_FEED_CONFIG
+  ) {
+    super();
+  }
+
+  async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    await this.source.start(pool => this.enqueue(pool));
+    this.logger.info(`Discovery feed started with source: ${this.source.name}`);
+  }
+
+  async stop(): Promise<void> {
+    if (!this.running) {
+      return;
+    }
+
+    this.running = false;
+    this.paused = false;
+    this.queue.length = 0;
+    await this.source.stop();
+    this.logger.info('Discovery feed stopped', { ...this.getStats() });
+  }
+
+  getStats(): DiscoveryFeedStats {
+    return {
+      ...this.stats,
+      queued: this.queue.length,
+      inFlight: this.inFlight,
+      paused: this.paused
+    };
+  }
+
+  private enqueue(pool: DiscoveredPool): void {
+    if (!this.running) {
+      return;
+    }
+
+    this.stats.received++;
+
+    if (this.seen.has(pool.mint) || this.isKnown(pool.mint)) {
+      this.stats.duplicates++;
+      return;
+    }
+
+    if (this.queue.length >= this.config.maxQueued) {
+      this.stats.dropped++;
+      this.pause();
+      return;
+    }
+
+    this.remember(pool.mint);
+    this.queue.push(pool);
+    this.emit('pool:discovered', pool);
+
+    if (this.queue.length >= this.config.maxQueued) {
+      this.pause();
+    }
+
+    this.drain();
+  }
+
+  private drain(): void {
+    while (this.running && this.inFlight < this.config.maxConcurrent && this.queue.length > 0) {
+      const pool = this.queue.shift()!;
+      this.inFlight++;
+
+      this.processToken(pool)
+        .then(() => {
+          this.stats.processed++;
+        })
+        .catch(error => {
+          this.stats.failed++;
+          this.logger.warn(`Discovered token processing failed: ${pool.mint}`, {
+            program: pool.program,
+            error: error instanceof Error ? error.message : String(error)
+          });
+        })
+        .finally(() => {
+          this.inFlight--;
+          this.drain();
+        });
+    }
+
+    if (this.paused && this.queue.length <= this.config.maxQueued / 2) {
+      this.resume();
+    }
+  }
+
+  private pause(): void {
+    if (this.paused) {
+      return;
+    }
+
+    this.paused = true;
+    this.source.pause();
+    this.logger.warn('Discovery feed saturated, pausing source', { queued: this.queue.length, inFlight: this.inFlight });
+    this.emit('feed:paused', this.getStats());
+  }
+
+  private resume(): void {
+    this.paused = false;
+    this.source.resume();
+    this.logger.info('Discovery feed resumed', { queued: this.queue.length });
+    this.emit('feed:resumed', this.getStats());
+  }
+
+  private remember(mint: string): void {
+    this.seen.add(mint);
+    if (this.seen.size > this.config.seenCacheSize) {
+      const oldest = this.seen.values().next().value;
+      if (oldest !== undefined) {
+        this.seen.delete(oldest);
+      }
+    }
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Token Discovery Sources
+ * Selected with DISCOVERY_SOURCE: 'polling' (default, the DEXScreener cron only) or 'logs'
+ */
+
+import { LogsSubscribeSource } from './logs-subscribe.source';
+import { DiscoveryMode, DiscoverySource } from './types';
+
+export * from './types';
+export { DiscoveryFeed, DEFAULT_DISCOVERY_FEED_CONFIG } from './feed';
+export {
+  LogsSubscribeSource,
+  DEFAULT_POOL_PROGRAMS,
+  type LogsSubscribeSourceConfig,
+  type PoolProgram
+} from './logs-subscribe.source';
+
+/**
+ * Returns null in polling mode, where new tokens only come from the cron run
+ */
+export function createDiscoverySource(
+  mode: DiscoveryMode = (process.env.DISCOVERY_SOURCE as DiscoveryMode) || 'polling'
+): DiscoverySource | null {
+  switch (mode) {
+    case 'polling':
+      return null;
+
+    case 'logs':
+      return new LogsSubscribeSource({
+        wsUrl: process.env.SOLANA_RPC_WEBSOCKET || 'wss://api.mainnet-beta.solana.com/',
+        rpcUrl: process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com'
+      });
+
+    default:
+      throw new Error(`Unknown discovery source: ${mode}`);
+  }
+}
@@ -0,0 +1,337 @@
+/**
+ * Solana logsSubscribe Discovery Source
+ * Streams pool-creation transactions of the configured DEX programs over the RPC WebSocket
+ *
+ * One logsSubscribe per program. A notification whose logs contain the
+ * program's pool-creation instruction is resolved with getTransaction, and
+ * the mints are read from that instruction's accounts. Quote tokens (SOL,
+ * USDC, USDT) are skipped. The socket reconnects with exponential backoff
+ * and re-subscribes; failed transactions and repeated signatures are ignored.
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import WebSocket from 'ws';
+import { Logger } from '../../utils/logger';
+import { DiscoveredPool, DiscoverySource } from './types';
+
+export interface PoolProgram {
+  name: string;
+  programId: string;
+  creationLog: RegExp; // log line that marks a pool-creation instruction
+  mintAccounts: number[]; // positions of the two pool mints in that instruction's accounts
+}
+
+export interface LogsSubscribeSourceConfig {
+  wsUrl: string;
+  rpcUrl: string;
+  commitment: 'confirmed' | 'finalized';
+  programs: PoolProgram[];
+  quoteMints: string[];
+  reconnectDelayMs: number;
+  maxReconnectDelayMs: number;
+  timeoutMs: number;
+}
+
+export const DEFAULT_POOL_PROGRAMS: PoolProgram[] = [
+  {
+    name: 'raydium-amm-v4',
+    programId: '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8',
+    creationLog: /initialize2/,
+    mintAccounts: [8, 9]
+  },
+  {
+    name: 'raydium-cpmm',
+    programId: 'CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C',
+    creationLog: /Instruction: Initialize$/,
+    mintAccounts: [4, 5]
+  },
+  {
+    name: 'meteora-dlmm',
+    programId: 'LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo',
+    creationLog: /Instruction: InitializeLbPair$/,
+    mintAccounts: [2, 3]
+  },
+  {
+    name: 'pump-fun',
+    programId: '6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P',
+    creationLog: /Instruction: Create$/,
+    mintAccounts: [0]
+  }
+];
+
+const QUOTE_MINTS = [
+  'So11111111111111111111111111111111111111112', // wrapped SOL
+  'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', // USDC
+  'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB' // USDT
+];
+
+const RECENT_SIGNATURES = 1000;
+
+interface LogsNotification {
+  method: 'logsNotification';
+  params: {
+    subscription: number;
+    result: {
+      context: { slot: number };
+      value: { signature: string; err: unknown; logs: string[] };
+    };
+  };
+}
+
+interface SubscribeReply {
+  id: number;
+  result?: number;
+  error?: { message: string };
+}
+
+interface RawInstruction {
+  programId: string;
+  accounts?: string[];
+}
+
+interface PoolTransaction {
+  slot: number;
+  transaction: { message: { instructions: RawInstruction[] } };
+  meta: { err: unknown; innerInstructions?: Array<{ instructions: RawInstruction[] }> } | null;
+}
+
+export class LogsSubscribeSource implements DiscoverySource {
+  readonly name = 'logs' as const;
+
+  private readonly logger = Logger.getInstance();
+  private readonly config: LogsSubscribeSourceConfig;
+  private readonly client: AxiosInstance;
+  private readonly quoteMints: Set<string>;
+  private readonly pendingSubscriptions = new Map<number, PoolProgram>();
+  private readonly subscriptions = new Map<number, PoolProgram>();
+  private readonly recentSignatures = new Set<string>();
+
+  private socket: WebSocket | null = null;
+  private onPool: ((pool: DiscoveredPool) => void) | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private reconnectAttempts = 0;
+  private requestId = 0;
+  private paused = false;
+  private stopped = true;
+
+  constructor(config: Partial<LogsSubscribeSourceConfig> = {}) {
+    this.config = {
+      wsUrl: 'wss://api.mainnet-beta.solana.com/',
+      rpcUrl: 'https://api.mainnet-beta.solana.com',
+      commitment: 'confirmed',
+      programs: DEFAULT_POOL_PROGRAMS,
+      quoteMints: QUOTE_MINTS,
+      reconnectDelayMs: 1000,
+      maxReconnectDelayMs: 30000,
+      timeoutMs: 10000,
+      ...config
+    };
+
+    this.quoteMints = new Set(this.config.quoteMints);
+    this.client = axios.create({
+      baseURL: this.config.rpcUrl,
+      timeout: this.config.timeoutMs,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  /**
+   * Resolves once the socket is open and subscriptions were requested.
+   * Later disconnects are retried in the background.
+   */
+  async start(onPool: (pool: DiscoveredPool) => void): Promise<void> {
+    this.onPool = onPool;
+    this.stopped = false;
+    await this.connect();
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    const socket = this.socket;
+    this.socket = null;
+    if (socket && socket.readyState !== WebSocket.CLOSED) {
+      await new Promise<void>(resolve => {
+        socket.once('close', () => resolve());
+        socket.close();
+      });
+    }
+  }
+
+  pause(): void {
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+  }
+
+  private connect(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(this.config.wsUrl);
+      this.socket = socket;
+      this.subscriptions.clear();
+      this.pendingSubscriptions.clear();
+
+      socket.once('open', () => {
+        this.reconnectAttempts = 0;
+        this.subscribe(socket);
+        this.logger.info('Discovery stream connected', {
+          url: this.config.wsUrl,
+          programs: this.config.programs.map(program => program.name)
+        });
+        resolve();
+      });
+
+      socket.on('message', data => this.handleMessage(data.toString()));
+
+      socket.on('error', error => {
+        this.logger.warn('Discovery stream error', { error: error.message });
+        reject(error);
+      });
+
+      socket.on('close', () => {
+        if (!this.stopped && this.socket === socket) {
+          this.scheduleReconnect();
+        }
+      });
+    });
+  }
+
+  private scheduleReconnect(): void {
+    const delay = Math.min(this.config.reconnectDelayMs * 2 ** this.reconnectAttempts, this.config.maxReconnectDelayMs);
+    this.reconnectAttempts++;
+
+    this.logger.warn('Discovery stream closed, reconnecting', { delayMs: delay, attempt: this.reconnectAttempts });
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect().catch(() => {
+        // the close handler schedules the next attempt
+      });
+    }, delay);
+  }
+
+  private subscribe(socket: WebSocket): void {
+    for (const program of this.config.programs) {
+      const id = ++this.requestId;
+      this.pendingSubscriptions.set(id, program);
+      socket.send(JSON.stringify({
+        jsonrpc: '2.0',
+        id,
+        method: 'logsSubscribe',
+        params: [{ mentions: [program.programId] }, { commitment: this.config.commitment }]
+      }));
+    }
+  }
+
+  private handleMessage(raw: string): void {
+    let message: LogsNotification | SubscribeReply;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      return;
+    }
+
+    if ('method' in message && message.method === 'logsNotification') {
+      void this.handleNotification(message);
+      return;
+    }
+
+    const reply = message as SubscribeReply;
+    const program = this.pendingSubscriptions.get(reply.id);
+    if (!program) {
+      return;
+    }
+
+    this.pendingSubscriptions.delete(reply.id);
+    if (reply.error || reply.result === undefined) {
+      this.logger.error('logsSubscribe rejected', { program: program.name, error: reply.error?.message });
+      return;
+    }
+
+    this.subscriptions.set(reply.result, program);
+  }
+
+  private async handleNotification(notification: LogsNotification): Promise<void> {
+    const program = this.subscriptions.get(notification.params.subscription);
+    const { context, value } = notification.params.result;
+
+    if (!program || value.err || this.paused || !value.logs.some(line => program.creationLog.test(line))) {
+      return;
+    }
+
+    if (this.recentSignatures.has(value.signature)) {
+      return;
+    }
+    this.rememberSignature(value.signature);
+
+    try {
+      const mints = await this.fetchPoolMints(value.signature, program);
+      for (const mint of mints) {
+        this.onPool?.({
+          mint,
+          program: program.name,
+          signature: value.signature,
+          slot: context.slot,
+          source: this.name,
+          discoveredAt: new Date()
+        });
+      }
+    } catch (error) {
+      this.logger.warn('Failed to resolve pool creation', {
+        program: program.name,
+        signature: value.signature,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private async fetchPoolMints(signature: string, program: PoolProgram): Promise<string[]> {
+    const response = await this.client.post('', {
+      jsonrpc: '2.0',
+      id: ++this.requestId,
+      method: 'getTransaction',
+      params: [signature, { encoding: 'jsonParsed', commitment: this.config.commitment, maxSupportedTransactionVersion: 0 }]
+    });
+
+    if (response.data.error) {
+      throw new Error(`Solana RPC getTransaction failed: ${response.data.error.message}`);
+    }
+
+    const transaction = response.data.result as PoolTransaction | null;
+    if (!transaction || transaction.meta?.err) {
+      return [];
+    }
+
+    // The pool may be created directly or through a router's inner instruction
+    const instructions = [
+      ...transaction.transaction.message.instructions,
+      ...(transaction.meta?.innerInstructions ?? []).flatMap(inner => inner.instructions)
+    ];
+    const creation = instructions.find(instruction =>
+      instruction.programId === program.programId && (instruction.accounts?.length ?? 0) > Math.max(...program.mintAccounts));
+
+    if (!creation?.accounts) {
+      return [];
+    }
+
+    const mints = program.mintAccounts.map(index => creation.accounts![index]);
+    return [...new Set(mints)].filter(mint => !this.quoteMints.has(mint));
+  }
+
+  private rememberSignature(signature: string): void {
+    this.recentSignatures.add(signature);
+    if (this.recentSignatures.size > RECENT_SIGNATURES) {
+      const oldest = this.recentSignatures.values().next().value;
+      if (oldest !== undefined) {
+        this.recentSignatures.delete(oldest);
+      }
+    }
+  }
+}
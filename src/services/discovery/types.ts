@@ -0,0 +1,45 @@
+/**
+ * Token Discovery Types
+ * Sources that hand newly created pools to the aggregator as they appear
+ */
+
+export type DiscoveryMode = 'polling' | 'logs';
+
+// A pool creation seen by a discovery source
+export interface DiscoveredPool {
+  mint: string; // the token being listed, never the quote token
+  program: string; // DEX program name, e.g. 'raydium-amm-v4'
+  signature: string; // transaction that created the pool
+  slot: number | null;
+  source: DiscoveryMode;
+  discoveredAt: Date;
+}
+
+/**
+ * Push-based feed of new pools. pause() and resume() let the consumer push
+ * back when it cannot keep up; a paused source drops what it sees.
+ */
+export interface DiscoverySource {
+  readonly name: DiscoveryMode;
+  start(onPool: (pool: DiscoveredPool) => void): Promise<void>;
+  stop(): Promise<void>;
+  pause(): void;
+  resume(): void;
+}
+
+export interface DiscoveryFeedConfig {
+  maxConcurrent: number; // mints analysed at once
+  maxQueued: number; // waiting mints before the source is paused
+  seenCacheSize: number; // recently seen mints remembered for de-duplication
+}
+
+export interface DiscoveryFeedStats {
+  received: number;
+  duplicates: number;
+  dropped: number; // arrived while the queue was full
+  processed: number;
+  failed: number;
+  queued: number;
+  inFlight: number;
+  paused: boolean;
+}
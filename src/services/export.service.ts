@@ -0,0 +1,876 @@
+/**
+ * Export Job Service
+ * Persistent, resumable export jobs for tokens, alerts and analytics reports
+ *
+ * Jobs live in the export_jobs table and are claimed by the runner with a
+ * conditional update, so they survive restarts and are never run twice:
+ * pending → processing → completed | failed
+ *
+ * After every page the runner stores a checkpoint (section, offset, bytes on
+ * disk). A job interrupted by a shutdown is put back to pending; a job whose
+ * process died is picked up again once its heartbeat is stale. Either way it
+ * resumes from the last checkpoint instead of starting over.
+ */
+
+import { EventEmitter } from 'events';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { PrismaClient, Prisma, ExportJob } from '@prisma/client';
+import { Logger } from '../utils/logger';
+import {
+  createExportWriter,
+  getFileExtension,
+  CompressionLevel,
+  ExportColumn,
+  ExportFormat,
+  ExportRecord,
+  ExportWriter
+} from '../utils/export-writers';
+import { FilterQueryService, toFilterGroup } from './filter-query.service';
+import { Alert, AlertsQuery, FilterDefinition } from '../api/types/api.types';
+
+export type ExportJobType = 'tokens' | 'alerts' | 'analytics';
+
+export type ExportJobStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+export interface ExportServiceConfig {
+  exportDir: string;
+  expiryMs: number;
+  pageSize: number;
+  maxConcurrentJobs: number;
+  pollIntervalMs: number;
+  staleAfterMs: number; // a processing job without a checkpoint for this long is considered orphaned
+}
+
+interface BaseExportOptions {
+  compressionLevel: CompressionLevel;
+  timezone: string;
+}
+
+export interface TokenExportOptions extends BaseExportOptions {
+  filters?: FilterDefinition;
+  fields?: string[];
+  startDate?: string;
+  endDate?: string;
+  limit: number;
+  includeHistory: boolean;
+  tokenIds?: string[]; // snapshot of the matched tokens, taken when the job first runs
+}
+
+export interface AlertExportOptions extends BaseExportOptions {
+  fields?: string[];
+  startDate?: string;
+  endDate?: string;
+  limit: number;
+  alertTypes?: Alert['type'][];
+  severity?: Alert['severity'][];
+  status: 'all' | 'acknowledged' | 'unacknowledged';
+}
+
+export interface AnalyticsExportOptions extends BaseExportOptions {
+  reportType: 'summary' | 'performance' | 'risk_analysis' | 'signals';
+  period: '24h' | '7d' | '30d' | '90d';
+  granularity: 'hour' | 'day' | 'week';
+  includeCharts: boolean; // accepted for API compatibility; exports contain tabular data only
+}
+
+export type ExportJobOptions = TokenExportOptions | AlertExportOptions | AnalyticsExportOptions;
+
+export interface CreateExportJobInput {
+  userId?: string;
+  type: ExportJobType;
+  format: ExportFormat;
+  options: ExportJobOptions;
+}
+
+export interface ExportJobsQuery {
+  page: number;
+  limit: number;
+  status: ExportJobStatus | 'all';
+}
+
+export interface ExportCheckpoint {
+  sectionIndex: number;
+  offset: number;
+  bytesWritten: number;
+}
+
+// Source of alerts for alert exports; implemented by the alert engine. Only
+// alerts the user can see in their own feed are listed.
+export interface AlertExportSource {
+  listAlerts(filters?: Partial<AlertsQuery>, userId?: string): Alert[] | Promise<Alert[]>;
+}
+
+interface ExportSource {
+  name: string;
+  columns: ExportColumn[];
+  count(): Promise<number>;
+  fetch(offset: number, limit: number): Promise<ExportRecord[]>;
+}
+
+const TOKEN_COLUMNS: ExportColumn[] = [
+  { key: 'address', header: 'Address' },
+  { key: 'symbol', header: 'Symbol' },
+  { key: 'name', header: 'Name' },
+  { key: 'chain', header: 'Chain' },
+  { key: 'decimals', header: 'Decimals' },
+  { key: 'price', header: 'Price' },
+  { key: 'marketCap', header: 'Market Cap' },
+  { key: 'volume24h', header: 'Volume 24h' },
+  { key: 'liquidity', header: 'Liquidity' },
+  { key: 'rugScore', header: 'Rug Score' },
+  { key: 'safetyScore', header: 'Safety Score' },
+  { key: 'liquidityScore', header: 'Liquidity Score' },
+  { key: 'volumeScore', header: 'Volume Score' },
+  { key: 'overallScore', header: 'Overall Score' },
+  { key: 'launchDate', header: 'Launch Date' },
+  { key: 'createdAt', header: 'Created At' },
+  { key: 'updatedAt', header: 'Updated At' }
+];
+
+const PRICE_HISTORY_COLUMNS: ExportColumn[] = [
+  { key: 'tokenAddress', header: 'Token Address' },
+  { key: 'timestamp', header: 'Timestamp' },
+  { key: 'price', header: 'Price' },
+  { key: 'high24h', header: 'High 24h' },
+  { key: 'low24h', header: 'Low 24h' },
+  { key: 'change1h', header: 'Change 1h' },
+  { key: 'change24h', header: 'Change 24h' },
+  { key: 'change7d', header: 'Change 7d' },
+  { key: 'volume', header: 'Volume' }
+];
+
+const SAFETY_HISTORY_COLUMNS: ExportColumn[] = [
+  { key: 'tokenAddress', header: 'Token Address' },
+  { key: 'timestamp', header: 'Timestamp' },
+  { key: 'rugScore', header: 'Rug Score' },
+  { key: 'liquidityScore', header: 'Liquidity Score' },
+  { key: 'ownershipScore', header: 'Ownership Score' },
+  { key: 'overallScore', header: 'Overall Score' },
+  { key: 'details', header: 'Details' }
+];
+
+const ALERT_COLUMNS: ExportColumn[] = [
+  { key: 'id', header: 'Alert ID' },
+  { key: 'type', header: 'Type' },
+  { key: 'severity', header: 'Severity' },
+  { key: 'title', header: 'Title' },
+  { key: 'message', header: 'Message' },
+  { key: 'tokenAddress', header: 'Token Address' },
+  { key: 'tokenSymbol', header: 'Token Symbol' },
+  { key: 'triggeredAt', header: 'Triggered At' },
+  { key: 'acknowledgedAt', header: 'Acknowledged At' },
+  { key: 'isRead', header: 'Read' },
+  { key: 'metadata', header: 'Metadata' }
+];
+
+const ANALYTICS_COLUMNS: Record<AnalyticsExportOptions['reportType'], ExportColumn[]> = {
+  summary: [
+    { key: 'periodStart', header: 'Period Start' },
+    { key: 'periodEnd', header: 'Period End' },
+    { key: 'newTokens', header: 'New Tokens' },
+    { key: 'priceUpdates', header: 'Price Updates' },
+    { key: 'totalVolume', header: 'Total Volume' },
+    { key: 'avgChange24h', header: 'Avg Change 24h' },
+    { key: 'avgSafetyScore', header: 'Avg Safety Score' },
+    { key: 'signals', header: 'Signals' }
+  ],
+  performance: [
+    { key: 'periodStart', header: 'Period Start' },
+    { key: 'periodEnd', header: 'Period End' },
+    { key: 'avgChange1h', header: 'Avg Change 1h' },
+    { key: 'avgChange24h', header: 'Avg Change 24h' },
+    { key: 'maxChange24h', header: 'Best Change 24h' },
+    { key: 'minChange24h', header: 'Worst Change 24h' },
+    { key: 'gainers', header: 'Gainers' },
+    { key: 'losers', header: 'Losers' },
+    { key: 'totalVolume', header: 'Total Volume' }
+  ],
+  risk_analysis: [
+    { key: 'periodStart', header: 'Period Start' },
+    { key: 'periodEnd', header: 'Period End' },
+    { key: 'scoredTokens', header: 'Scores Recorded' },
+    { key: 'avgOverallScore', header: 'Avg Overall Score' },
+    { key: 'minOverallScore', header: 'Min Overall Score' },
+    { key: 'avgRugScore', header: 'Avg Rug Score' },
+    { key: 'avgLiquidityScore', header: 'Avg Liquidity Score' },
+    { key: 'avgOwnershipScore', header: 'Avg Ownership Score' }
+  ],
+  signals: [
+    { key: 'periodStart', header: 'Period Start' },
+    { key: 'periodEnd', header: 'Period End' },
+    { key: 'totalSignals', header: 'Total Signals' },
+    { key: 'avgStrength', header: 'Avg Strength' },
+    { key: 'byType', header: 'Signals By Type' }
+  ]
+};
+
+const PERIOD_MS: Record<AnalyticsExportOptions['period'], number> = {
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+  '90d': 90 * 24 * 60 * 60 * 1000
+};
+
+const GRANULARITY_MS: Record<AnalyticsExportOptions['granularity'], number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000
+};
+
+export class ExportService extends EventEmitter {
+  private readonly logger = Logger.getInstance();
+  private readonly running = new Map<string, Promise<void>>();
+  private readonly filterQuery: FilterQueryService;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private isScheduling = false;
+  private stopping = false;
+
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly alertSource: AlertExportSource,
+    private readonly config: ExportServiceConfig = {
+      exportDir: process.env.EXPORT_DIR || path.join(process.cwd(), 'exports'),
+      expiryMs: 24 * 60 * 60 * 1000,
+      pageSize: 500,
+      maxConcurrentJobs: 2,
+      pollIntervalMs: 5000,
+      staleAfterMs: 5 * 60 * 1000
+    }
+  ) {
+    super();
+    this.filterQuery = new FilterQueryService(prisma);
+  }
+
+  /**
+   * Start the runner: resume interrupted jobs, then keep polling for new ones
+   */
+  async start(): Promise<void> {
+    if (this.pollTimer) {
+      return;
+    }
+
+    this.stopping = false;
+    await fs.mkdir(this.config.exportDir, { recursive: true });
+
+    this.pollTimer = setInterval(() => {
+      void this.tick();
+    }, this.config.pollIntervalMs);
+
+    this.logger.info('Export job runner started', {
+      exportDir: this.config.exportDir,
+      maxConcurrentJobs: this.config.maxConcurrentJobs
+    });
+
+    await this.tick();
+  }
+
+  /**
+   * Stop picking up work; running jobs stop after their current page and are
+   * put back to pending so the next start resumes them from the checkpoint
+   */
+  async stop(): Promise<void> {
+    this.stopping = true;
+
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+
+    const interruptedJobs = this.running.size;
+    await Promise.all(this.running.values());
+
+    this.logger.info('Export job runner stopped', { interruptedJobs });
+  }
+
+  async createJob(input: CreateExportJobInput): Promise<ExportJob> {
+    const job = await this.prisma.exportJob.create({
+      data: {
+        userId: input.userId,
+        type: input.type,
+        format: input.format,
+        options: input.options as unknown as Prisma.InputJsonValue,
+        expiresAt: new Date(Date.now() + this.config.expiryMs)
+      }
+    });
+
+    this.logger.info('Export job created', { jobId: job.id, type: job.type, format: job.format });
+
+    void this.processPendingJobs();
+
+    return job;
+  }
+
+  async getJob(userId: string, jobId: string): Promise<ExportJob | null> {
+    return this.prisma.exportJob.findFirst({ where: { id: jobId, userId } });
+  }
+
+  async listJobs(userId: string, query: ExportJobsQuery): Promise<{ jobs: ExportJob[]; total: number }> {
+    const where: Prisma.ExportJobWhereInput = {
+      userId,
+      ...(query.status !== 'all' && { status: query.status })
+    };
+
+    const [jobs, total] = await Promise.all([
+      this.prisma.exportJob.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (query.page - 1) * query.limit,
+        take: query.limit
+      }),
+      this.prisma.exportJob.count({ where })
+    ]);
+
+    return { jobs, total };
+  }
+
+  /**
+   * Delete a job and its file. A job that is currently running notices the
+   * missing row at its next checkpoint and discards its partial output.
+   */
+  async deleteJob(userId: string, jobId: string): Promise<boolean> {
+    const job = await this.prisma.exportJob.findFirst({ where: { id: jobId, userId } });
+    if (!job) {
+      return false;
+    }
+
+    await this.prisma.exportJob.delete({ where: { id: jobId } });
+    await this.removeFile(job.filePath);
+
+    this.logger.info('Export job deleted', { jobId, status: job.status });
+    return true;
+  }
+
+  /**
+   * Claim and run pending jobs, plus processing jobs whose runner has died,
+   * until the concurrency limit is reached
+   */
+  async processPendingJobs(): Promise<void> {
+    if (this.isScheduling || this.stopping) {
+      return;
+    }
+
+    this.isScheduling = true;
+
+    try {
+      while (this.running.size < this.config.maxConcurrentJobs && !this.stopping) {
+        const job = await this.prisma.exportJob.findFirst({
+          where: {
+            id: { notIn: Array.from(this.running.keys()) },
+            expiresAt: { gt: new Date() },
+            OR: [
+              { status: 'pending' },
+              { status: 'processing', updatedAt: { lt: new Date(Date.now() - this.config.staleAfterMs) } }
+            ]
+          },
+          orderBy: { createdAt: 'asc' }
+        });
+
+        if (!job) {
+          break;
+        }
+
+        const filePath = job.filePath ?? this.buildFilePath(job);
+
+        // Conditional claim - another instance may have taken the job since we read it
+        const claimed = await this.prisma.exportJob.updateMany({
+          where: { id: job.id, status: job.status, updatedAt: job.updatedAt },
+          data: { status: 'processing', startedAt: job.startedAt ?? new Date(), filePath }
+        });
+
+        if (claimed.count === 0) {
+          continue;
+        }
+
+        const run = this.runJob({ ...job, status: 'processing', filePath })
+          .finally(() => {
+            this.running.delete(job.id);
+            void this.processPendingJobs();
+          });
+        this.running.set(job.id, run);
+      }
+    } catch (error) {
+      this.logger.error('Error scheduling export jobs:', { error: error instanceof Error ? error.message : String(error) });
+    } finally {
+      this.isScheduling = false;
+    }
+  }
+
+  /**
+   * Remove expired jobs and their files
+   */
+  async cleanupExpiredJobs(): Promise<number> {
+    const expired = await this.prisma.exportJob.findMany({
+      where: { expiresAt: { lt: new Date() }, id: { notIn: Array.from(this.running.keys()) } },
+      select: { id: true, filePath: true }
+    });
+
+    if (expired.length === 0) {
+      return 0;
+    }
+
+    await Promise.all(expired.map(job => this.removeFile(job.filePath)));
+    await this.prisma.exportJob.deleteMany({ where: { id: { in: expired.map(job => job.id) } } });
+
+    this.logger.info('Expired export jobs removed', { count: expired.length });
+    return expired.length;
+  }
+
+  calculateProgress(processedRecords: number, totalRecords: number): number {
+    if (totalRecords <= 0) return 0;
+    // 100 is reserved for a completed job with a file on disk
+    return Math.min(99, Math.floor((processedRecords / totalRecords) * 100));
+  }
+
+  private async tick(): Promise<void> {
+    try {
+      await this.cleanupExpiredJobs();
+    } catch (error) {
+      this.logger.error('Error cleaning up export jobs:', { error: error instanceof Error ? error.message : String(error) });
+    }
+
+    await this.processPendingJobs();
+  }
+
+  private async runJob(job: ExportJob): Promise<void> {
+    const startTime = Date.now();
+    let writer: ExportWriter | null = null;
+
+    try {
+      let options = job.options as unknown as ExportJobOptions;
+
+      if (job.type === 'tokens' && !(options as TokenExportOptions).tokenIds) {
+        const tokenIds = await this.resolveTokenIds(options as TokenExportOptions);
+        options = { ...options, tokenIds };
+      }
+
+      const sources = this.buildSources(job.type as ExportJobType, options, job);
+      let checkpoint = job.checkpoint as unknown as ExportCheckpoint | null;
+      let processedRecords = job.processedRecords;
+
+      // Zip archives can't be appended to, so XLSX always restarts from the top;
+      // the same goes for a text export whose partial file is gone
+      if (checkpoint && (job.format === 'xlsx' || !(await this.fileExists(job.filePath)))) {
+        checkpoint = null;
+      }
+
+      let totalRecords = job.totalRecords;
+
+      if (!checkpoint) {
+        const counts = await Promise.all(sources.map(source => source.count()));
+        totalRecords = counts.reduce((sum, count) => sum + count, 0);
+        processedRecords = 0;
+        checkpoint = { sectionIndex: 0, offset: 0, bytesWritten: 0 };
+
+        await this.prisma.exportJob.update({
+          where: { id: job.id },
+          data: {
+            options: options as unknown as Prisma.InputJsonValue,
+            totalRecords,
+            processedRecords: 0,
+            progress: 0,
+            checkpoint: checkpoint as unknown as Prisma.InputJsonValue
+          }
+        });
+      } else {
+        this.logger.info('Resuming export job from checkpoint', { jobId: job.id, ...checkpoint, processedRecords });
+      }
+
+      const { compressionLevel, timezone } = options;
+      writer = await createExportWriter(job.format as ExportFormat, {
+        filePath: job.filePath!,
+        sections: sources.map(source => ({ name: source.name, columns: source.columns })),
+        compressionLevel,
+        timezone,
+        resumeFromBytes: checkpoint.bytesWritten
+      });
+
+      for (let sectionIndex = checkpoint.sectionIndex; sectionIndex < sources.length; sectionIndex++) {
+        const source = sources[sectionIndex];
+        let offset = sectionIndex === checkpoint.sectionIndex ? checkpoint.offset : 0;
+
+        for (;;) {
+          const rows = await source.fetch(offset, this.config.pageSize);
+          if (rows.length === 0) {
+            break;
+          }
+
+          await writer.writeRows(source.name, rows);
+          offset += rows.length;
+          processedRecords += rows.length;
+
+          const saved = await this.saveCheckpoint(job.id, {
+            sectionIndex,
+            offset,
+            bytesWritten: writer.bytesWritten
+          }, processedRecords, Math.max(totalRecords, processedRecords));
+
+          if (!saved) {
+            // Job was deleted while running
+            this.logger.info('Export job removed while running, discarding output', { jobId: job.id });
+            await writer.abort();
+            return;
+          }
+
+          if (this.stopping) {
+            await writer.close();
+            await this.prisma.exportJob.updateMany({
+              where: { id: job.id, status: 'processing' },
+              data: { status: 'pending' }
+            });
+            this.logger.info('Export job interrupted by shutdown', { jobId: job.id, processedRecords });
+            return;
+          }
+
+          if (rows.length < this.config.pageSize) {
+            break;
+          }
+        }
+      }
+
+      const fileSize = await writer.close();
+      writer = null;
+
+      const completed = await this.prisma.exportJob.updateMany({
+        where: { id: job.id, status: 'processing' },
+        data: {
+          status: 'completed',
+          progress: 100,
+          processedRecords,
+          totalRecords: processedRecords,
+          fileSize,
+          checkpoint: Prisma.DbNull,
+          completedAt: new Date()
+        }
+      });
+
+      if (completed.count === 0) {
+        await this.removeFile(job.filePath);
+        return;
+      }
+
+      this.emit('job:completed', { jobId: job.id, records: processedRecords, fileSize });
+      this.logger.info('Export job completed', {
+        jobId: job.id,
+        type: job.type,
+        format: job.format,
+        records: processedRecords,
+        fileSize,
+        durationMs: Date.now() - startTime
+      });
+
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      await writer?.abort();
+      await this.prisma.exportJob.updateMany({
+        where: { id: job.id, status: 'processing' },
+        data: { status: 'failed', error: message, checkpoint: Prisma.DbNull, completedAt: new Date() }
+      }).catch(() => undefined);
+
+      this.emit('job:failed', { jobId: job.id, error: message });
+      this.logger.error('Export job failed:', { jobId: job.id, error: message });
+    }
+  }
+
+  private async saveCheckpoint(
+    jobId: string,
+    checkpoint: ExportCheckpoint,
+    processedRecords: number,
+    totalRecords: number
+  ): Promise<boolean> {
+    const result = await this.prisma.exportJob.updateMany({
+      where: { id: jobId, status: 'processing' },
+      data: {
+        checkpoint: checkpoint as unknown as Prisma.InputJsonValue,
+        processedRecords,
+        totalRecords,
+        progress: this.calculateProgress(processedRecords, totalRecords)
+      }
+    });
+
+    return result.count > 0;
+  }
+
+  private buildSources(type: ExportJobType, options: ExportJobOptions, job: ExportJob): ExportSource[] {
+    switch (type) {
+      case 'tokens':
+        return this.buildTokenSources(options as TokenExportOptions, job.createdAt);
+      case 'alerts':
+        return [this.buildAlertSource(options as AlertExportOptions, job.userId)];
+      case 'analytics':
+        return [this.buildAnalyticsSource(options as AnalyticsExportOptions, job.createdAt)];
+      default:
+        throw new Error(`Unsupported export type: ${type}`);
+    }
+  }
+
+  private buildTokenSources(options: TokenExportOptions, createdAt: Date): ExportSource[] {
+    const tokenIds = options.tokenIds ?? [];
+    const requested = options.fields?.length
+      ? TOKEN_COLUMNS.filter(column => options.fields!.includes(column.key))
+      : [];
+
+    const sources: ExportSource[] = [{
+      name: 'tokens',
+      columns: requested.length > 0 ? requested : TOKEN_COLUMNS,
+      count: async () => tokenIds.length,
+      fetch: async (offset, limit) => {
+        const ids = tokenIds.slice(offset, offset + limit);
+        if (ids.length === 0) return [];
+
+        const tokens = await this.prisma.token.findMany({ where: { id: { in: ids } } });
+        const byId = new Map(tokens.map(token => [token.id, token]));
+
+        // Keep snapshot order; tokens deleted since the snapshot are skipped
+        return ids.map(id => byId.get(id)).filter((token): token is NonNullable<typeof token> => !!token);
+      }
+    }];
+
+    if (!options.includeHistory) {
+      return sources;
+    }
+
+    // History is bounded by the job creation time so paging stays stable while new rows arrive
+    const timestamp: Prisma.DateTimeFilter = {
+      lte: options.endDate ? new Date(options.endDate) : createdAt,
+      ...(options.startDate && { gte: new Date(options.startDate) })
+    };
+    const historyWhere = { tokenId: { in: tokenIds }, timestamp };
+
+    sources.push({
+      name: 'priceHistory',
+      columns: PRICE_HISTORY_COLUMNS,
+      count: () => this.prisma.priceData.count({ where: historyWhere }),
+      fetch: async (offset, limit) => {
+        const rows = await this.prisma.priceData.findMany({
+          where: historyWhere,
+          include: { token: { select: { address: true } } },
+          orderBy: [{ timestamp: 'asc' }, { id: 'asc' }],
+          skip: offset,
+          take: limit
+        });
+        return rows.map(({ token, ...row }) => ({ ...row, tokenAddress: token.address }));
+      }
+    });
+
+    sources.push({
+      name: 'safetyHistory',
+      columns: SAFETY_HISTORY_COLUMNS,
+      count: () => this.prisma.safetyScore.count({ where: historyWhere }),
+      fetch: async (offset, limit) => {
+        const rows = await this.prisma.safetyScore.findMany({
+          where: historyWhere,
+          include: { token: { select: { address: true } } },
+          orderBy: [{ timestamp: 'asc' }, { id: 'asc' }],
+          skip: offset,
+          take: limit
+        });
+        return rows.map(({ token, ...row }) => ({ ...row, tokenAddress: token.address }));
+      }
+    });
+
+    return sources;
+  }
+
+  private buildAlertSource(options: AlertExportOptions, userId: string | null): ExportSource {
+    const requested = options.fields?.length
+      ? ALERT_COLUMNS.filter(column => options.fields!.includes(column.key))
+      : [];
+
+    const load = async (): Promise<Alert[]> => {
+      const alerts = await this.alertSource.listAlerts({
+        startDate: options.startDate,
+        endDate: options.endDate
+      }, userId ?? undefined);
+
+      return alerts
+        .filter(alert => !options.alertTypes?.length || options.alertTypes.includes(alert.type))
+        .filter(alert => !options.severity?.length || options.severity.includes(alert.severity))
+        .filter(alert => options.status === 'all' || alert.isRead === (options.status === 'acknowledged'))
+        .slice(0, options.limit);
+    };
+
+    return {
+      name: 'alerts',
+      columns: requested.length > 0 ? requested : ALERT_COLUMNS,
+      count: async () => (await load()).length,
+      fetch: async (offset, limit) => {
+        const alerts = await load();
+        return alerts.slice(offset, offset + limit).map(alert => ({ ...alert }));
+      }
+    };
+  }
+
+  private buildAnalyticsSource(options: AnalyticsExportOptions, createdAt: Date): ExportSource {
+    // The report window is fixed at job creation so a resumed job produces the same buckets
+    const end = createdAt.getTime();
+    const start = end - PERIOD_MS[options.period];
+    const interval = GRANULARITY_MS[options.granularity];
+    const bucketCount = Math.ceil((end - start) / interval);
+
+    return {
+      name: options.reportType,
+      columns: ANALYTICS_COLUMNS[options.reportType],
+      count: async () => bucketCount,
+      fetch: async (offset, limit) => {
+        const rows: ExportRecord[] = [];
+
+        for (let i = offset; i < Math.min(bucketCount, offset + limit); i++) {
+          const bucketStart = new Date(start + i * interval);
+          const bucketEnd = new Date(Math.min(end, start + (i + 1) * interval));
+          rows.push(await this.buildAnalyticsRow(options.reportType, bucketStart, bucketEnd));
+        }
+
+        return rows;
+      }
+    };
+  }
+
+  private async buildAnalyticsRow(
+    reportType: AnalyticsExportOptions['reportType'],
+    periodStart: Date,
+    periodEnd: Date
+  ): Promise<ExportRecord> {
+    const timestamp = { gte: periodStart, lt: periodEnd };
+
+    switch (reportType) {
+      case 'summary': {
+        const [newTokens, prices, safety, signals] = await Promise.all([
+          this.prisma.token.count({ where: { createdAt: timestamp } }),
+          this.prisma.priceData.aggregate({
+            where: { timestamp },
+            _count: { _all: true },
+            _sum: { volume: true },
+            _avg: { change24h: true }
+          }),
+          this.prisma.safetyScore.aggregate({ where: { timestamp }, _avg: { overallScore: true } }),
+          this.prisma.tradingSignal.count({ where: { timestamp } })
+        ]);
+
+        return {
+          periodStart,
+          periodEnd,
+          newTokens,
+          priceUpdates: prices._count._all,
+          totalVolume: prices._sum.volume ?? 0,
+          avgChange24h: prices._avg.change24h,
+          avgSafetyScore: safety._avg.overallScore,
+          signals
+        };
+      }
+
+      case 'performance': {
+        const [prices, gainers, losers] = await Promise.all([
+          this.prisma.priceData.aggregate({
+            where: { timestamp },
+            _sum: { volume: true },
+            _avg: { change1h: true, change24h: true },
+            _max: { change24h: true },
+            _min: { change24h: true }
+          }),
+          this.prisma.priceData.count({ where: { timestamp, change24h: { gt: 0 } } }),
+          this.prisma.priceData.count({ where: { timestamp, change24h: { lt: 0 } } })
+        ]);
+
+        return {
+          periodStart,
+          periodEnd,
+          avgChange1h: prices._avg.change1h,
+          avgChange24h: prices._avg.change24h,
+          maxChange24h: prices._max.change24h,
+          minChange24h: prices._min.change24h,
+          gainers,
+          losers,
+          totalVolume: prices._sum.volume ?? 0
+        };
+      }
+
+      case 'risk_analysis': {
+        const safety = await this.prisma.safetyScore.aggregate({
+          where: { timestamp },
+          _count: { _all: true },
+          _avg: { overallScore: true, rugScore: true, liquidityScore: true, ownershipScore: true },
+          _min: { overallScore: true }
+        });
+
+        return {
+          periodStart,
+          periodEnd,
+          scoredTokens: safety._count._all,
+          avgOverallScore: safety._avg.overallScore,
+          minOverallScore: safety._min.overallScore,
+          avgRugScore: safety._avg.rugScore,
+          avgLiquidityScore: safety._avg.liquidityScore,
+          avgOwnershipScore: safety._avg.ownershipScore
+        };
+      }
+
+      case 'signals': {
+        const byType = await this.prisma.tradingSignal.groupBy({
+          by: ['type'],
+          where: { timestamp },
+          _count: { _all: true },
+          _sum: { strength: true }
+        });
+
+        const totalSignals = byType.reduce((sum, group) => sum + group._count._all, 0);
+        const totalStrength = byType.reduce((sum, group) => sum + (group._sum.strength ?? 0), 0);
+
+        return {
+          periodStart,
+          periodEnd,
+          totalSignals,
+          avgStrength: totalSignals > 0 ? totalStrength / totalSignals : null,
+          byType: Object.fromEntries(byType.map(group => [group.type, group._count._all]))
+        };
+      }
+    }
+  }
+
+  /**
+   * Resolve the token filter to a fixed list of token ids, largest market cap
+   * first, so a resumed job exports the same tokens it started with.
+   */
+  private async resolveTokenIds(options: TokenExportOptions): Promise<string[]> {
+    const where: Prisma.TokenWhereInput | undefined = options.startDate || options.endDate
+      ? {
+        createdAt: {
+          ...(options.startDate && { gte: new Date(options.startDate) }),
+          ...(options.endDate && { lte: new Date(options.endDate) })
+        }
+      }
+      : undefined;
+
+    return this.filterQuery.findTokenIds(toFilterGroup(options.filters), { limit: options.limit, where });
+  }
+
+  private buildFilePath(job: ExportJob): string {
+    const options = job.options as unknown as BaseExportOptions;
+    const extension = getFileExtension(job.format as ExportFormat, options.compressionLevel);
+    return path.join(this.config.exportDir, `${job.id}.${extension}`);
+  }
+
+  private async fileExists(filePath: string | null): Promise<boolean> {
+    if (!filePath) return false;
+
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async removeFile(filePath: string | null): Promise<void> {
+    if (!filePath) return;
+
+    try {
+      await fs.unlink(filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.warn('Failed to remove export file', { filePath, error: (error as Error).message });
+      }
+    }
+  }
+}
@@ -0,0 +1,360 @@
+/**
+ * Filter Query Service
+ * Runs nested filter groups against the tokens table
+ *
+ * Conditions on token columns are compiled into the Prisma query by the shared
+ * filter engine. Everything else - latest price changes, rug risk, recent
+ * signals and values from the latest safety analysis - is checked in memory
+ * against each candidate, paging through the table in a stable order.
+ */
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import { Logger } from '../utils/logger';
+import { FILTER_FIELDS } from '../lib/constants/filter-fields';
+import {
+  analyzeFilterGroup,
+  buildFilterPreview,
+  compileFilterGroup,
+  evaluateFilterGroup,
+  isFilterGroup,
+  validateFilterGroup,
+  FilterBindings,
+  FilterRecord,
+  FilterScalar
+} from '../lib/filters/filter-engine';
+import { FilterCondition, FilterGroup, FilterPreview } from '../types/filter';
+import { FilterCriteria } from '../api/types/api.types';
+import { TokenFilterCriteria } from '../types/api.types';
+
+export interface FilterQueryServiceConfig {
+  pageSize: number;
+  maxScan: number; // upper bound on rows checked in memory per query
+  previewSampleSize: number;
+}
+
+export interface FilterQueryOptions {
+  limit: number;
+  where?: Prisma.TokenWhereInput; // extra constraints ANDed with the filter
+}
+
+// Catalogue fields that map straight onto token columns
+export const TOKEN_FILTER_BINDINGS: FilterBindings = {
+  age_hours: { column: 'createdAt', type: 'age' },
+  market_cap: { column: 'marketCap' },
+  liquidity_usd: { column: 'liquidity' },
+  volume_24h: { column: 'volume24h' },
+  safety_score: { column: 'safetyScore' },
+  chain: { column: 'chain' },
+  signal_type: { column: 'type', relation: 'tradingSignals' },
+  signal_strength: { column: 'strength', relation: 'tradingSignals' }
+};
+
+const RECENT_SIGNALS = 10;
+
+export const FILTER_TOKEN_INCLUDE = {
+  priceData: { orderBy: { timestamp: 'desc' }, take: 1 },
+  safetyScores: { orderBy: { timestamp: 'desc' }, take: 1 },
+  tradingSignals: { orderBy: { timestamp: 'desc' }, take: RECENT_SIGNALS }
+} satisfies Prisma.TokenInclude;
+
+export type FilteredToken = Prisma.TokenGetPayload<{ include: typeof FILTER_TOKEN_INCLUDE }>;
+
+const TOKEN_ORDER: Prisma.TokenOrderByWithRelationInput[] = [
+  { marketCap: { sort: 'desc', nulls: 'last' } },
+  { id: 'asc' }
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const DEFAULT_CONFIG: FilterQueryServiceConfig = {
+  pageSize: 500,
+  maxScan: 10000,
+  previewSampleSize: 500
+};
+
+export class FilterQueryService {
+  private readonly logger = Logger.getInstance();
+
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly config: FilterQueryServiceConfig = DEFAULT_CONFIG
+  ) {}
+
+  /**
+   * Tokens matching the filter, largest market cap first
+   */
+  public async findTokens(group: FilterGroup, options: FilterQueryOptions): Promise<FilteredToken[]> {
+    const now = new Date();
+    const compiled = compileFilterGroup(group, TOKEN_FILTER_BINDINGS, now);
+    const where = this.combineWhere(compiled.where as Prisma.TokenWhereInput | undefined, options.where);
+
+    if (compiled.exact) {
+      return this.prisma.token.findMany({
+        where,
+        include: FILTER_TOKEN_INCLUDE,
+        orderBy: TOKEN_ORDER,
+        take: options.limit
+      });
+    }
+
+    return this.scanTokens(group, where, options.limit, now);
+  }
+
+  /**
+   * Ids of the tokens matching the filter. Skips loading related rows when
+   * the query alone is exact.
+   */
+  public async findTokenIds(group: FilterGroup, options: FilterQueryOptions): Promise<string[]> {
+    const now = new Date();
+    const compiled = compileFilterGroup(group, TOKEN_FILTER_BINDINGS, now);
+    const where = this.combineWhere(compiled.where as Prisma.TokenWhereInput | undefined, options.where);
+
+    if (compiled.exact) {
+      const tokens = await this.prisma.token.findMany({
+        where,
+        select: { id: true },
+        orderBy: TOKEN_ORDER,
+        take: options.limit
+      });
+      return tokens.map(token => token.id);
+    }
+
+    const tokens = await this.scanTokens(group, where, options.limit, now);
+    return tokens.map(token => token.id);
+  }
+
+  /**
+   * Estimate how many tokens a filter matches. Exact filters are counted by
+   * the database; otherwise the match rate of a sample of the candidates is
+   * extrapolated to all of them.
+   */
+  public async preview(group: FilterGroup): Promise<FilterPreview> {
+    const options = { bindings: TOKEN_FILTER_BINDINGS };
+
+    if (validateFilterGroup(group).length > 0) {
+      return buildFilterPreview(group, { estimatedMatches: 0, scannedRecords: 0 }, options);
+    }
+
+    const now = new Date();
+    const compiled = compileFilterGroup(group, TOKEN_FILTER_BINDINGS, now);
+    const where = compiled.where as Prisma.TokenWhereInput | undefined;
+    const candidates = await this.prisma.token.count({ where });
+
+    if (compiled.exact || candidates === 0) {
+      return buildFilterPreview(group, { estimatedMatches: candidates, scannedRecords: 0 }, options);
+    }
+
+    const sample = await this.prisma.token.findMany({
+      where,
+      include: FILTER_TOKEN_INCLUDE,
+      orderBy: TOKEN_ORDER,
+      take: this.config.previewSampleSize
+    });
+    const matches = sample.filter(token => evaluateFilterGroup(group, buildTokenFilterRecord(token, now))).length;
+
+    return buildFilterPreview(group, {
+      estimatedMatches: sample.length > 0 ? (candidates * matches) / sample.length : 0,
+      scannedRecords: Math.min(candidates, this.config.maxScan)
+    }, options);
+  }
+
+  private async scanTokens(
+    group: FilterGroup,
+    where: Prisma.TokenWhereInput | undefined,
+    limit: number,
+    now: Date
+  ): Promise<FilteredToken[]> {
+    const matched: FilteredToken[] = [];
+    let scanned = 0;
+    let cursor: string | undefined;
+
+    while (matched.length < limit && scanned < this.config.maxScan) {
+      const batch = await this.prisma.token.findMany({
+        where,
+        include: FILTER_TOKEN_INCLUDE,
+        orderBy: TOKEN_ORDER,
+        take: Math.min(this.config.pageSize, this.config.maxScan - scanned),
+        ...(cursor && { cursor: { id: cursor }, skip: 1 })
+      });
+
+      scanned += batch.length;
+
+      for (const token of batch) {
+        if (evaluateFilterGroup(group, buildTokenFilterRecord(token, now))) {
+          matched.push(token);
+          if (matched.length >= limit) break;
+        }
+      }
+
+      if (batch.length < this.config.pageSize) break;
+      cursor = batch[batch.length - 1].id;
+    }
+
+    if (scanned >= this.config.maxScan && matched.length < limit) {
+      this.logger.warn('Filter scan stopped at the row limit', {
+        scanned,
+        matched: matched.length,
+        postFiltered: analyzeFilterGroup(group, TOKEN_FILTER_BINDINGS).postFilterCount
+      });
+    }
+
+    return matched;
+  }
+
+  private combineWhere(
+    filterWhere: Prisma.TokenWhereInput | undefined,
+    extra: Prisma.TokenWhereInput | undefined
+  ): Prisma.TokenWhereInput | undefined {
+    if (filterWhere && extra) return { AND: [filterWhere, extra] };
+    return filterWhere ?? extra;
+  }
+}
+
+/**
+ * Flatten a token and its latest related rows into the filter catalogue.
+ * Catalogue fields without a column of their own are read from the latest
+ * safety analysis details, keyed by field id.
+ */
+export function buildTokenFilterRecord(token: FilteredToken, now: Date = new Date()): FilterRecord {
+  const price = token.priceData[0];
+  const record = extractDetailFields(token.safetyScores[0]?.details ?? null);
+
+  return Object.assign(record, {
+    age_hours: (now.getTime() - token.createdAt.getTime()) / HOUR_MS,
+    market_cap: token.marketCap,
+    liquidity_usd: token.liquidity,
+    volume_24h: token.volume24h,
+    safety_score: token.safetyScore,
+    chain: token.chain,
+    price_change_1h: price?.change1h,
+    price_change_24h: price?.change24h,
+    price_change_7d: price?.change7d,
+    rug_risk: toRugRisk(token.rugScore) ?? record.rug_risk,
+    signal_type: token.tradingSignals.map(signal => signal.type),
+    signal_strength: token.tradingSignals.map(signal => signal.strength)
+  } satisfies FilterRecord);
+}
+
+/**
+ * Catalogue values stored in a safety analysis `details` blob, keyed by field id
+ */
+export function extractDetailFields(details: Prisma.JsonValue | null): FilterRecord {
+  const record: FilterRecord = {};
+
+  if (!details || typeof details !== 'object' || Array.isArray(details)) {
+    return record;
+  }
+
+  for (const field of FILTER_FIELDS) {
+    const value = details[field.id];
+    if (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean') {
+      record[field.id] = value;
+    }
+  }
+
+  return record;
+}
+
+// rugScore runs 0-100, higher is riskier
+export function toRugRisk(rugScore: number | null): FilterScalar {
+  if (rugScore === null || rugScore === undefined) return undefined;
+  if (rugScore < 25) return 'low';
+  if (rugScore < 50) return 'medium';
+  if (rugScore < 75) return 'high';
+  return 'critical';
+}
+
+/**
+ * Filters saved before nested groups existed use the flat FilterCriteria
+ * shape; run those through the same engine.
+ */
+export function toFilterGroup(definition: FilterCriteria | FilterGroup | undefined): FilterGroup {
+  return isFilterGroup(definition) ? definition : filterCriteriaToGroup(definition ?? {});
+}
+
+/**
+ * Translate flat criteria into an AND group over the catalogue.
+ * `signals.minConfidence` has no counterpart - signals carry no confidence.
+ */
+export function filterCriteriaToGroup(criteria: FilterCriteria): FilterGroup {
+  const conditions: FilterCondition[] = [];
+
+  const add = (field: string, operator: FilterCondition['operator'], value: unknown, label: string) => {
+    conditions.push({ id: `${field}_${operator}`, field, operator, value, label });
+  };
+
+  const addRange = (field: string, range: { min?: number; max?: number } | undefined, label: string) => {
+    if (range?.min !== undefined) add(field, 'gte', range.min, `${label} at least ${range.min}`);
+    if (range?.max !== undefined) add(field, 'lte', range.max, `${label} at most ${range.max}`);
+  };
+
+  addRange('market_cap', criteria.marketCap, 'Market cap');
+  addRange('volume_24h', criteria.volume24h, '24h volume');
+  if (criteria.priceChange) {
+    addRange(`price_change_${criteria.priceChange.period}`, criteria.priceChange, `${criteria.priceChange.period} price change`);
+  }
+  addRange('safety_score', criteria.safetyScore, 'Safety score');
+  addRange('holders_count', criteria.holderCount, 'Holders');
+
+  if (criteria.riskLevel?.length) {
+    const levels = { VERY_LOW: 'low', LOW: 'low', MEDIUM: 'medium', HIGH: 'high', VERY_HIGH: 'critical' };
+    const risks = [...new Set(criteria.riskLevel.map(level => levels[level]))];
+    add('rug_risk', 'in', risks, `Rug risk ${risks.join(' or ')}`);
+  }
+
+  if (criteria.liquidity?.required) add('liquidity_usd', 'gt', 0, 'Has liquidity');
+  addRange('liquidity_usd', { min: criteria.liquidity?.min }, 'Liquidity');
+
+  if (criteria.contractAge?.minDays !== undefined) {
+    add('age_hours', 'gte', criteria.contractAge.minDays * 24, `At least ${criteria.contractAge.minDays} days old`);
+  }
+  if (criteria.chain?.length) {
+    add('chain', 'in', criteria.chain, `Chain ${criteria.chain.join(' or ')}`);
+  }
+  if (criteria.signals?.types?.length) {
+    add('signal_type', 'in', criteria.signals.types, `Signal ${criteria.signals.types.join(' or ')}`);
+  }
+  if (criteria.signals?.minStrength !== undefined) {
+    add('signal_strength', 'gte', criteria.signals.minStrength, `Signal strength at least ${criteria.signals.minStrength}`);
+  }
+
+  return { id: 'root', operator: 'AND', conditions, groups: [] };
+}
+
+/**
+ * Translate the aggregation pipeline's TokenFilterCriteria into a filter
+ * group. Checks that depend on live quotes or creator history have no stored
+ * counterpart and are returned as `unsupported` instead.
+ */
+export function tokenFilterCriteriaToGroup(criteria: TokenFilterCriteria): { group: FilterGroup; unsupported: string[] } {
+  const conditions: FilterCondition[] = [];
+
+  const add = (field: string, operator: FilterCondition['operator'], value: number, label: string) => {
+    conditions.push({ id: `${field}_${operator}`, field, operator, value, label });
+  };
+
+  if (criteria.minAge !== undefined) add('age_hours', 'gte', criteria.minAge, `At least ${criteria.minAge}h old`);
+  if (criteria.maxAge !== undefined) add('age_hours', 'lte', criteria.maxAge, `At most ${criteria.maxAge}h old`);
+  if (criteria.minLiquidity !== undefined) add('liquidity_usd', 'gte', criteria.minLiquidity, `Liquidity at least ${criteria.minLiquidity}`);
+  if (criteria.minVolume !== undefined) add('volume_24h', 'gte', criteria.minVolume, `24h volume at least ${criteria.minVolume}`);
+  if (criteria.minSafetyScore !== undefined) {
+    // Criteria score safety 0-10, the catalogue field is 0-100
+    add('safety_score', 'gte', criteria.minSafetyScore * 10, `Safety score at least ${criteria.minSafetyScore}/10`);
+  }
+  if (criteria.maxTopHoldersPercentage !== undefined) {
+    add('holder_concentration', 'lte', criteria.maxTopHoldersPercentage, `Top holders at most ${criteria.maxTopHoldersPercentage}%`);
+  }
+  if (criteria.maxEffectiveTopHoldersPercentage !== undefined) {
+    add(
+      'effective_top_holders',
+      'lte',
+      criteria.maxEffectiveTopHoldersPercentage,
+      `Effective top holders at most ${criteria.maxEffectiveTopHoldersPercentage}%`
+    );
+  }
+
+  const unsupported = (['allowHoneypot', 'maxSlippage', 'minTradableSizeUsd', 'requireRouting', 'allowBlacklisted', 'maxCreatorRugs'] as const)
+    .filter(key => criteria[key] !== undefined);
+
+  return { group: { id: 'root', operator: 'AND', conditions, groups: [] }, unsupported };
+}
@@ -9,11 +9,135 @@ export { RugCheckService } from './rugcheck.service';
 export { JupiterService } from './jupiter.service';
 export { SolscanService } from './solscan.service';
 
+// On-chain Data Providers
+export {
+  createOnChainProvider,
+  SolanaRpcProvider,
+  FixtureOnChainProvider,
+  SimulatedOnChainProvider,
+  type OnChainDataProvider,
+  type OnChainProviderMode
+} from './onchain';
+
+// New Pool Discovery
+export {
+  createDiscoverySource,
+  DiscoveryFeed,
+  LogsSubscribeSource,
+  type DiscoverySource,
+  type DiscoveredPool,
+  type DiscoveryMode
+} from './discovery';
+
 // Aggregation Services
-export { TokenPipelineService, type PipelineConfig, type PipelineStats } from './token-pipeline.service';
-export { TokenAggregatorService, type AggregatorConfig, type AggregatorStats } from './token-aggregator.service';
+export {
+  TokenPipelineService,
+  PIPELINE_STAGES,
+  type PipelineConfig,
+  type PipelineStage,
+  type PipelineStats
+} from './token-pipeline.service';
+export {
+  TokenAggregatorService,
+  type AggregatorConfig,
+  type AggregatorStats,
+  type AggregationRun
+} from './token-aggregator.service';
+
+// Pipeline Job Queue
+export {
+  PipelineJobService,
+  DEFAULT_PIPELINE_JOB_CONFIG,
+  LANE_PRIORITY,
+  toPublicJob,
+  type PipelineJobLane,
+  type PipelineJobStatus,
+  type PublicPipelineJob
+} from './pipeline-job.service';
+
+// Aggregation Run History
+export {
+  PipelineRunService,
+  countRejections,
+  rejectionReason,
+  type AggregationRunTrigger,
+  type AggregationRunStatus,
+  type AggregationRunToken,
+  type RunTokenOutcome
+} from './pipeline-run.service';
+
+// Scoring Profiles
+export {
+  DEFAULT_SCORING_PROFILE,
+  ScoringProfileService,
+  scoringProfileService,
+  RescoringService,
+  type ScoringProfile
+} from './scoring';
+
+// Alerts
+export {
+  AlertEngineService,
+  AlertSubscriptionService,
+  DEFAULT_ALERT_ENGINE_CONFIG,
+  SUBSCRIPTION_QUOTAS,
+  evaluateAlertRule,
+  ALERT_METRICS,
+  type AlertEngineConfig,
+  type AlertCondition,
+  type AlertMetricSnapshot
+} from './alerts';
+
+// Notifications
+export {
+  NotificationService,
+  createNotificationAdapters,
+  NOTIFICATION_CHANNEL_TYPES,
+  type NotificationChannelAdapter,
+  type NotificationChannelType
+} from './notifications';
+
+// API Keys
+export {
+  ApiKeyService,
+  API_KEY_SCOPES,
+  DEFAULT_API_KEY_CONFIG,
+  type ApiKeyScope,
+  type ApiKeyTier
+} from './api-key.service';
+
+// Rate Limiting
+export {
+  RateLimitService,
+  createRateLimitStore,
+  DEFAULT_RATE_LIMIT_POLICY,
+  MemoryRateLimitStore,
+  RedisRateLimitStore,
+  type RateLimitPolicy,
+  type RateLimitStore,
+  type RateLimitTier
+} from './rate-limit';
+
+// Address Repair
+export { AddressRepairService, type AddressRepair, type AddressRepairReport } from './address-repair.service';
+
+// Multi-pool Market View
+export {
+  TokenMarketService,
+  buildTokenMarketView,
+  detectPoolChanges,
+  DEFAULT_TOKEN_MARKET_CONFIG,
+  type PoolChange,
+  type TokenPoolChanges
+} from './token-market.service';
 
 // Health and Monitoring
+export {
+  WatchlistMonitorService,
+  DEFAULT_WATCHLIST_MONITOR_CONFIG,
+  type WatchlistMonitorConfig,
+  type TokenDegradation
+} from './watchlist-monitor.service';
 export { HealthCheckService, healthCheckService, type ApiService, type SystemHealthReport } from './health-check.service';
 
 // Blockchain Service (existing)
@@ -23,9 +147,12 @@ export { BlockchainService, type BlockchainAPIConfig } from './blockchain.servic
 import { DexScreenerService } from './dexscreener.service';
 import { RugCheckService } from './rugcheck.service';
 import { JupiterService } from './jupiter.service';
-import { SolscanService } from './solscan.service';
+import { SolscanService, clusterHolders } from './solscan.service';
+import { createOnChainProvider } from './onchain';
 import { healthCheckService } from './health-check.service';
+import { extractScoringInputs, scoreAnalysis, scoringProfileService } from './scoring';
 import { Logger } from '../utils/logger';
+import { addressKey } from '../utils/address';
 import {
   CombinedTokenAnalysis,
   TokenFilterCriteria,
@@ -45,8 +172,8 @@ export class TokenAnalysisService {
 
   constructor() {
     this.dexScreener = new DexScreenerService();
-    this.rugCheck = new RugCheckService();
     this.jupiter = new JupiterService();
+    this.rugCheck = new RugCheckService(createOnChainProvider(), this.jupiter);
     this.solscan = new SolscanService();
 
     this.logger.info('TokenAnalysisService initialized with all API services');
@@ -135,63 +262,27 @@ export class TokenAnalysisService {
     filters?: TokenFilterCriteria
   ): CombinedTokenAnalysis {
     const failedFilters: string[] = [];
-    let totalScore = 0;
-    let scoreComponents = 0;
-
-    // DEXScreener scoring (25 points max)
-    if (dexData && !dexData.filtered) {
-      totalScore += 25;
-      scoreComponents++;
-    } else if (dexData?.filterReason) {
-      failedFilters.push(`DEX: ${dexData.filterReason}`);
-    }
-
-    // RugCheck scoring (30 points max)
-    if (rugData && !rugData.filtered) {
-      const rugScore = (rugData.safetyScore / 10) * 30;
-      totalScore += rugScore;
-      scoreComponents++;
-    } else if (rugData?.filterReason) {
-      failedFilters.push(`Security: ${rugData.filterReason}`);
-    }
+    if (dexData?.filterReason) failedFilters.push(`DEX: ${dexData.filterReason}`);
+    if (rugData?.filterReason) failedFilters.push(`Security: ${rugData.filterReason}`);
+    if (jupiterData?.filterReason) failedFilters.push(`Routing: ${jupiterData.filterReason}`);
+    if (solscanData?.filterReason) failedFilters.push(`Creator: ${solscanData.filterReason}`);
 
-    // Jupiter scoring (25 points max)
-    if (jupiterData && !jupiterData.filtered) {
-      let jupiterScore = 25;
-      if (jupiterData.slippageEstimate > 10) jupiterScore -= 10;
-      if (jupiterData.blacklisted) jupiterScore -= 15;
-      totalScore += Math.max(0, jupiterScore);
-      scoreComponents++;
-    } else if (jupiterData?.filterReason) {
-      failedFilters.push(`Routing: ${jupiterData.filterReason}`);
-    }
-
-    // Solscan scoring (20 points max)
-    if (solscanData && !solscanData.filtered) {
-      let solscanScore = 20;
-      if (solscanData.creatorInfo.ruggedTokens > 0) {
-        solscanScore -= solscanData.creatorInfo.ruggedTokens * 5;
-      }
-      if (solscanData.topHoldersPercentage > 50) {
-        solscanScore -= 10;
-      }
-      totalScore += Math.max(0, solscanScore);
-      scoreComponents++;
-    } else if (solscanData?.filterReason) {
-      failedFilters.push(`Creator: ${solscanData.filterReason}`);
-    }
+    const stages = {
+      dexScreener: dexData || this.getDefaultDexData(tokenAddress),
+      rugCheck: rugData || this.getDefaultRugData(tokenAddress),
+      jupiter: jupiterData || this.getDefaultJupiterData(tokenAddress),
+      solscan: solscanData || this.getDefaultSolscanData(tokenAddress)
+    };
 
-    // Normalize score to 0-100
-    const overallScore = scoreComponents > 0 ? totalScore : 0;
+    // Same scoring profile as the pipeline
+    const { overallScore, scoring } = scoreAnalysis(extractScoringInputs(stages), scoringProfileService.getActiveProfile());
     const passed = overallScore >= 60 && failedFilters.length === 0;
 
     return {
-      address: tokenAddress.toLowerCase(),
-      dexScreener: dexData || this.getDefaultDexData(tokenAddress),
-      rugCheck: rugData || this.getDefaultRugData(tokenAddress),
-      jupiter: jupiterData || this.getDefaultJupiterData(tokenAddress),
-      solscan: solscanData || this.getDefaultSolscanData(tokenAddress),
+      address: addressKey(tokenAddress),
+      ...stages,
       overallScore,
+      scoring,
       passed,
       failedFilters,
       timestamp: new Date()
@@ -217,14 +308,17 @@ export class TokenAnalysisService {
   private getDefaultRugData(address: string): RugCheckResult {
     return {
       address,
-      honeypotRisk: true,
+      honeypotRisk: 'unknown',
+      honeypotEvidence: { score: 0, reasons: ['Data unavailable'], roundTrip: null, impliedTaxPercent: null },
       mintAuthority: true,
       freezeAuthority: true,
       liquidityLocked: false,
       holderConcentration: 100,
+      suspiciousName: false,
       safetyScore: 0,
       risks: ['Data unavailable'],
       warnings: [],
+      dataSources: { metadata: 'unavailable', holders: 'unavailable', liquidity: 'unavailable' },
       filtered: true,
       filterReason: 'Data unavailable'
     };
@@ -235,6 +329,8 @@ export class TokenAnalysisService {
       address,
       routingAvailable: false,
       slippageEstimate: 100,
+      slippageCurve: [],
+      depthAtImpact: [],
       spread: 100,
       volume24h: 0,
       blacklisted: false,
@@ -259,7 +355,8 @@ export class TokenAnalysisService {
       },
       topHolders: [],
       topHoldersPercentage: 100,
-      fundingPattern: 'suspicious' as const,
+      holderClusters: clusterHolders([], [], 0, null),
+      dataSources: { tokenInfo: 'unavailable', holders: 'unavailable', creator: 'unavailable', funding: 'unavailable' },
       filtered: true,
       filterReason: 'Data unavailable'
     };
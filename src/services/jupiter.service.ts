@@ -3,10 +3,13 @@
  * Hive Mind Integration - DEX Routing and Slippage Analysis
  */
 
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosError, AxiosInstance } from 'axios';
 import {
+  DepthAtImpact,
   JupiterQuoteResponse,
+  JupiterRoundTripQuote,
   JupiterTokenData,
+  SlippageCurvePoint,
   ApiResponse,
   TokenFilterCriteria,
   ServiceHealthCheck
@@ -14,6 +17,7 @@ import {
 import { RateLimiter, DEFAULT_RATE_LIMITS, DEFAULT_RETRY_CONFIG } from '../utils/rate-limiter';
 import { globalCache } from '../utils/cache';
 import { Logger } from '../utils/logger';
+import { addressKey } from '../utils/address';
 
 export interface JupiterToken {
   address: string;
@@ -55,14 +59,47 @@ export interface JupiterRoute {
   }>;
 }
 
+/**
+ * Largest trade, in USD, whose price impact stays within `maxImpactPercent`,
+ * interpolated linearly between ladder sizes. `both` takes the smaller of the
+ * buy and sell sides. A size past the top of the ladder cannot be observed, so
+ * the result is capped there.
+ */
+export function maxTradableSize(
+  curve: SlippageCurvePoint[],
+  maxImpactPercent: number,
+  side: 'buy' | 'sell' | 'both' = 'both'
+): number {
+  if (side === 'both') {
+    return Math.min(maxTradableSize(curve, maxImpactPercent, 'buy'), maxTradableSize(curve, maxImpactPercent, 'sell'));
+  }
+
+  let previous = { sizeUsd: 0, impact: 0 };
+  for (const point of curve) {
+    const impact = side === 'buy' ? point.buyImpactPercent : point.sellImpactPercent;
+    if (impact === null) {
+      break;
+    }
+    if (impact > maxImpactPercent) {
+      const fraction = (maxImpactPercent - previous.impact) / (impact - previous.impact);
+      return Math.floor(previous.sizeUsd + (point.sizeUsd - previous.sizeUsd) * fraction);
+    }
+    previous = { sizeUsd: point.sizeUsd, impact };
+  }
+
+  return previous.sizeUsd;
+}
+
 export class JupiterService {
   private readonly client: AxiosInstance;
   private readonly rateLimiter: RateLimiter;
   private readonly logger = Logger.getInstance();
   private readonly serviceName = 'jupiter';
 
-  // Standard test amounts for slippage analysis
-  private readonly testAmounts = [100, 500, 1000, 5000]; // USD values
+  // Trade sizes quoted on both sides for the slippage curve
+  private readonly slippageLadder = [50, 100, 250, 500, 1000, 2500, 5000, 10000]; // USD values
+  private readonly slippageReferenceUsd = 500; // size reported as slippageEstimate
+  private readonly depthImpactLevels = [1, 2, 5, 10]; // percentages
   private readonly usdcMint = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
   private readonly solMint = 'So11111111111111111111111111111111111111112';
 
@@ -124,7 +161,7 @@ export class JupiterService {
 
       tokens.forEach(token => {
         if (token.tags.includes('blacklisted') || token.tags.includes('community-blacklisted')) {
-          this.blacklistedTokens.add(token.address.toLowerCase());
+          this.blacklistedTokens.add(addressKey(token.address));
         }
       });
 
@@ -139,7 +176,7 @@ export class JupiterService {
     filters?: TokenFilterCriteria
   ): Promise<ApiResponse<JupiterTokenData>> {
     try {
-      const cacheKey = `jupiter:analysis:${tokenAddress.toLowerCase()}`;
+      const cacheKey = `jupiter:analysis:${addressKey(tokenAddress)}`;
 
       // Check cache first
       const cached = globalCache.get<JupiterTokenData>(cacheKey);
@@ -188,7 +225,8 @@ export class JupiterService {
       await this.storeInHiveMemory('routing-analysis', {
         address: tokenAddress,
         routingAvailable: analysis.routingAvailable,
-        slippage: analysis.slippageEstimate
+        slippage: analysis.slippageEstimate,
+        depthAtImpact: analysis.depthAtImpact
       });
 
       return {
@@ -248,47 +286,49 @@ export class JupiterService {
     }
   }
 
-  private async analyzeSlippage(tokenAddress: string): Promise<{
-    estimates: Array<{ amount: number; slippage: number }>;
-    averageSlippage: number;
-  }> {
-    const estimates: Array<{ amount: number; slippage: number }> = [];
-
-    for (const testAmount of this.testAmounts) {
-      try {
-        const amountInUsdc = testAmount * 1000000; // Convert to USDC units
-
-        const response = await this.client.get<JupiterQuoteResponse>('/quote', {
-          params: {
-            inputMint: this.usdcMint,
-            outputMint: tokenAddress,
-            amount: amountInUsdc.toString(),
-            slippageBps: 1000, // 10% max slippage for testing
-            onlyDirectRoutes: false
-          }
-        });
+  /**
+   * Quote every ladder size as a USDC buy and as a sell of the same USD value
+   * of the token. Sell amounts are converted at the spot rate implied by the
+   * smallest routable buy, so both sides of the curve share a price.
+   */
+  private async analyzeSlippage(tokenAddress: string): Promise<SlippageCurvePoint[]> {
+    const buys: Array<JupiterQuoteResponse | null> = [];
+    for (const sizeUsd of this.slippageLadder) {
+      buys.push(await this.getQuoteOrNoRoute(this.usdcMint, tokenAddress, sizeUsd * 1000000));
+    }
 
-        const priceImpact = parseFloat(response.data.priceImpactPct || '0');
-        estimates.push({
-          amount: testAmount,
-          slippage: Math.abs(priceImpact)
-        });
+    const tokensPerUsd = this.spotTokensPerUsd(buys);
+    const curve: SlippageCurvePoint[] = [];
 
-        // Small delay between requests
-        await new Promise(resolve => setTimeout(resolve, 100));
+    for (const [index, sizeUsd] of this.slippageLadder.entries()) {
+      const sell = tokensPerUsd === null
+        ? null
+        : await this.getQuoteOrNoRoute(tokenAddress, this.usdcMint, BigInt(Math.round(sizeUsd * tokensPerUsd)).toString());
 
-      } catch (error) {
-        // If we can't get a quote for this amount, record high slippage
-        estimates.push({
-          amount: testAmount,
-          slippage: 50 // 50% as penalty for unavailable routing
-        });
-      }
+      curve.push({
+        sizeUsd,
+        buyImpactPercent: this.impactPercent(buys[index]),
+        sellImpactPercent: this.impactPercent(sell)
+      });
     }
 
-    const averageSlippage = estimates.reduce((sum, est) => sum + est.slippage, 0) / estimates.length;
+    return curve;
+  }
 
-    return { estimates, averageSlippage };
+  private spotTokensPerUsd(buys: Array<JupiterQuoteResponse | null>): number | null {
+    for (const [index, buy] of buys.entries()) {
+      const received = buy ? parseInt(buy.outAmount, 10) : 0;
+      if (received > 0) {
+        const impact = this.impactPercent(buy) ?? 0;
+        return received / (this.slippageLadder[index] * (1 - Math.min(impact, 99) / 100));
+      }
+    }
+    return null;
+  }
+
+  private impactPercent(quote: JupiterQuoteResponse | null): number | null {
+    // Jupiter reports price impact as a fraction
+    return quote ? Math.abs(parseFloat(quote.priceImpactPct || '0')) * 100 : null;
   }
 
   private async analyzeVolume(tokenAddress: string): Promise<{ volume24h: number; spread: number }> {
@@ -323,10 +363,65 @@ export class JupiterService {
     }
   }
 
+  /**
+   * Quote buying `notionalUsd` of the token with USDC, then selling every token
+   * received straight back. A leg without a route is reported rather than
+   * thrown; the promise only rejects when Jupiter itself cannot be reached.
+   */
+  async simulateRoundTrip(tokenAddress: string, notionalUsd = 100): Promise<JupiterRoundTripQuote> {
+    const amountIn = Math.round(notionalUsd * 1000000); // USDC has 6 decimals
+    const buy = await this.getQuoteOrNoRoute(this.usdcMint, tokenAddress, amountIn);
+
+    if (!buy || buy.outAmount === '0') {
+      return {
+        notionalUsd,
+        buyRoutable: false,
+        sellRoutable: null,
+        tokensReceived: null,
+        usdcReturned: null,
+        roundTripLossPercent: null,
+        buyPriceImpactPercent: null,
+        sellPriceImpactPercent: null
+      };
+    }
+
+    const sell = await this.getQuoteOrNoRoute(tokenAddress, this.usdcMint, buy.outAmount);
+    const usdcReturned = sell ? parseInt(sell.outAmount, 10) / 1000000 : null;
+
+    return {
+      notionalUsd,
+      buyRoutable: true,
+      sellRoutable: sell !== null,
+      tokensReceived: buy.outAmount,
+      usdcReturned,
+      roundTripLossPercent: usdcReturned !== null ? (1 - usdcReturned / notionalUsd) * 100 : null,
+      buyPriceImpactPercent: this.impactPercent(buy),
+      sellPriceImpactPercent: this.impactPercent(sell)
+    };
+  }
+
+  private async getQuoteOrNoRoute(
+    inputMint: string,
+    outputMint: string,
+    amount: number | string
+  ): Promise<JupiterQuoteResponse | null> {
+    await this.rateLimiter.waitForSlot(this.serviceName);
+
+    try {
+      return await this.getQuote(inputMint, outputMint, amount);
+    } catch (error) {
+      // Jupiter answers 400 (COULD_NOT_FIND_ANY_ROUTE, TOKEN_NOT_TRADABLE) when no route exists
+      if ((error as AxiosError).response?.status === 400) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
   private async getQuote(
     inputMint: string,
     outputMint: string,
-    amount: number
+    amount: number | string
   ): Promise<JupiterQuoteResponse> {
     const response = await this.client.get<JupiterQuoteResponse>('/quote', {
       params: {
@@ -344,16 +439,25 @@ export class JupiterService {
     tokenAddress: string,
     data: {
       routing: { available: boolean; routeCount: number; bestRoute?: JupiterRoute } | null;
-      slippage: { estimates: Array<{ amount: number; slippage: number }>; averageSlippage: number } | null;
+      slippage: SlippageCurvePoint[] | null;
       volume: { volume24h: number; spread: number } | null;
     }
   ): JupiterTokenData {
-    const blacklisted = this.blacklistedTokens.has(tokenAddress.toLowerCase());
+    const blacklisted = this.blacklistedTokens.has(addressKey(tokenAddress));
+    const curve = data.slippage ?? [];
+    const reference = curve.find(point => point.sizeUsd === this.slippageReferenceUsd);
+    const depthAtImpact: DepthAtImpact[] = curve.length === 0 ? [] : this.depthImpactLevels.map(impactPercent => ({
+      impactPercent,
+      buyUsd: maxTradableSize(curve, impactPercent, 'buy'),
+      sellUsd: maxTradableSize(curve, impactPercent, 'sell')
+    }));
 
     return {
-      address: tokenAddress.toLowerCase(),
+      address: addressKey(tokenAddress),
       routingAvailable: data.routing?.available || false,
-      slippageEstimate: data.slippage?.averageSlippage || 100,
+      slippageEstimate: reference?.buyImpactPercent ?? 100,
+      slippageCurve: curve,
+      depthAtImpact,
       spread: data.volume?.spread || 100,
       volume24h: data.volume?.volume24h || 0,
       blacklisted,
@@ -379,6 +483,18 @@ export class JupiterService {
       };
     }
 
+    // Depth filter
+    if (filters.minTradableSizeUsd !== undefined) {
+      const maxImpact = filters.maxTradeImpact ?? 2;
+      const tradable = maxTradableSize(analysis.slippageCurve, maxImpact);
+      if (tradable < filters.minTradableSizeUsd) {
+        return {
+          passed: false,
+          reason: `Only $${tradable} tradable within ${maxImpact}% impact < $${filters.minTradableSizeUsd}`
+        };
+      }
+    }
+
     // Blacklist filter
     if (filters.allowBlacklisted === false && analysis.blacklisted) {
       return { passed: false, reason: 'Token is blacklisted on Jupiter' };
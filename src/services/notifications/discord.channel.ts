@@ -0,0 +1,46 @@
+/**
+ * Discord notification channel
+ * Posts an embed to a channel webhook
+ */
+
+import { AxiosInstance } from 'axios';
+import { postJson } from './http.channel';
+import { AlertSeverity } from '../alerts/types';
+import { ChannelConfig, DiscordChannelConfig, NotificationChannelAdapter, RenderedNotification } from './types';
+
+const SEVERITY_COLORS: Record<AlertSeverity, number> = {
+  LOW: 0x3498db,
+  MEDIUM: 0xf1c40f,
+  HIGH: 0xe67e22,
+  CRITICAL: 0xe74c3c
+};
+
+// Discord caps embed descriptions at 4096 characters
+const MAX_DESCRIPTION_LENGTH = 4096;
+
+export class DiscordNotificationChannel implements NotificationChannelAdapter {
+  readonly type = 'discord' as const;
+
+  constructor(private readonly client: AxiosInstance) {}
+
+  async send(config: ChannelConfig, notification: RenderedNotification): Promise<void> {
+    const { webhookUrl } = config as DiscordChannelConfig;
+    const { context } = notification;
+
+    await postJson(this.client, webhookUrl, {
+      username: 'Memecoin Alerts',
+      embeds: [{
+        title: notification.subject,
+        description: notification.text.slice(0, MAX_DESCRIPTION_LENGTH),
+        url: context.dexscreenerUrl.startsWith('https://') ? context.dexscreenerUrl : undefined,
+        color: SEVERITY_COLORS[notification.severity],
+        fields: [
+          { name: 'Token', value: `${context.symbol} \`${context.address}\``, inline: false },
+          { name: 'Safety score', value: context.score, inline: true },
+          { name: 'Liquidity', value: context.liquidity, inline: true }
+        ],
+        timestamp: context.triggeredAt
+      }]
+    });
+  }
+}
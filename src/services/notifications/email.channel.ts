@@ -0,0 +1,197 @@
+/**
+ * Email notification channel
+ * Minimal SMTP client: EHLO, optional STARTTLS and AUTH PLAIN, one message per connection
+ */
+
+import { connect as connectTcp, Socket } from 'net';
+import { connect as connectTls, TLSSocket } from 'tls';
+import { hostname } from 'os';
+import { ChannelConfig, EmailChannelConfig, NotificationChannelAdapter, RenderedNotification } from './types';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean; // implicit TLS (port 465); otherwise STARTTLS is used when the server offers it
+  user?: string;
+  password?: string;
+  from: string;
+  timeoutMs: number;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Reads SMTP replies off a socket. A reply ends at the line whose code is
+ * followed by a space; "250-" lines are continuations.
+ */
+class SmtpConnection {
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(private socket: Socket | TLSSocket, private readonly timeoutMs: number) {
+    this.attach(socket);
+  }
+
+  upgrade(socket: TLSSocket): void {
+    this.socket.removeAllListeners('data');
+    this.socket = socket;
+    this.buffer = '';
+    this.attach(socket);
+  }
+
+  get raw(): Socket | TLSSocket {
+    return this.socket;
+  }
+
+  async command(line: string | null, expected: number[]): Promise<SmtpReply> {
+    if (line !== null) {
+      this.socket.write(`${line}\r\n`);
+    }
+
+    const reply = await this.nextReply();
+    if (!expected.includes(reply.code)) {
+      const sent = line?.startsWith('AUTH') ? 'AUTH' : line;
+      throw new Error(`SMTP ${sent ?? 'greeting'} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+
+    return reply;
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+
+  private attach(socket: Socket | TLSSocket): void {
+    socket.setEncoding('utf8');
+    socket.setTimeout(this.timeoutMs, () => this.fail(new Error('SMTP connection timed out')));
+    socket.on('data', (chunk: string) => this.receive(chunk));
+    socket.on('error', error => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private receive(chunk: string): void {
+    this.buffer += chunk;
+
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\r\n')) >= 0) {
+      const line = this.buffer.slice(0, newline);
+      this.buffer = this.buffer.slice(newline + 2);
+      this.lines.push(line);
+
+      if (/^\d{3}( |$)/.test(line)) {
+        this.replies.push({ code: parseInt(line.slice(0, 3), 10), lines: this.lines.map(entry => entry.slice(4)) });
+        this.lines = [];
+      }
+    }
+
+    if (this.waiting && this.replies.length > 0) {
+      const { resolve } = this.waiting;
+      this.waiting = null;
+      resolve(this.replies.shift() as SmtpReply);
+    }
+  }
+
+  private nextReply(): Promise<SmtpReply> {
+    const queued = this.replies.shift();
+    if (queued) {
+      return Promise.resolve(queued);
+    }
+
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = null;
+      reject(error);
+    }
+  }
+}
+
+export class EmailNotificationChannel implements NotificationChannelAdapter {
+  readonly type = 'email' as const;
+
+  constructor(private readonly options: SmtpOptions | null) {}
+
+  async send(config: ChannelConfig, notification: RenderedNotification): Promise<void> {
+    if (!this.options) {
+      throw new Error('SMTP is not configured');
+    }
+
+    const { to } = config as EmailChannelConfig;
+    const options = this.options;
+    const connection = new SmtpConnection(await this.open(), options.timeoutMs);
+
+    try {
+      await connection.command(null, [220]);
+      const features = await connection.command(`EHLO ${hostname()}`, [250]);
+
+      if (!options.secure && features.lines.some(line => line.toUpperCase() === 'STARTTLS')) {
+        await connection.command('STARTTLS', [220]);
+        connection.upgrade(connectTls({ socket: connection.raw as Socket, servername: options.host }));
+        await connection.command(`EHLO ${hostname()}`, [250]);
+      }
+
+      if (options.user) {
+        const credentials = Buffer.from(`\u0000${options.user}\u0000${options.password ?? ''}`).toString('base64');
+        await connection.command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      await connection.command(`MAIL FROM:<${options.from}>`, [250]);
+      await connection.command(`RCPT TO:<${to}>`, [250, 251]);
+      await connection.command('DATA', [354]);
+      await connection.command(`${buildMessage(options.from, to, notification)}\r\n.`, [250]);
+      await connection.command('QUIT', [221]).catch(() => undefined);
+    } finally {
+      connection.close();
+    }
+  }
+
+  private open(): Promise<Socket | TLSSocket> {
+    const { host, port, secure, timeoutMs } = this.options as SmtpOptions;
+
+    return new Promise((resolve, reject) => {
+      const socket = secure
+        ? connectTls({ host, port, servername: host, timeout: timeoutMs }, () => resolve(socket))
+        : connectTcp({ host, port, timeout: timeoutMs }, () => resolve(socket));
+      socket.once('error', reject);
+    });
+  }
+}
+
+/**
+ * RFC 5322 message with a UTF-8 plain text body; lines starting with "." are dot-stuffed
+ */
+export function buildMessage(from: string, to: string, notification: RenderedNotification, date: Date = new Date()): string {
+  const body = notification.text
+    .replace(/\r?\n/g, '\r\n')
+    .split('\r\n')
+    .map(line => line.startsWith('.') ? `.${line}` : line)
+    .join('\r\n');
+
+  return [
+    `From: ${from}`,
+    `To: ${to}`,
+    `Subject: =?UTF-8?B?${Buffer.from(notification.subject).toString('base64')}?=`,
+    `Date: ${date.toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+    '',
+    body
+  ].join('\r\n');
+}
@@ -0,0 +1,70 @@
+/**
+ * Generic HTTP notification channel
+ * POSTs the alert, token details and rendered text as JSON to any URL
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { ChannelConfig, HttpChannelConfig, NotificationChannelAdapter, RenderedNotification } from './types';
+
+export function createChannelHttpClient(timeoutMs: number): AxiosInstance {
+  return axios.create({
+    timeout: timeoutMs,
+    headers: {
+      'User-Agent': 'memecoin-trading-algo/1.0.0',
+      'Content-Type': 'application/json'
+    },
+    // Non-2xx responses are reported by postJson with the receiver's status
+    validateStatus: () => true
+  });
+}
+
+export async function postJson<T = unknown>(
+  client: AxiosInstance,
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {}
+): Promise<T> {
+  const response = await client.post<T>(url, body, { headers });
+
+  if (response.status < 200 || response.status >= 300) {
+    throw new Error(`Receiver responded with HTTP ${response.status}`);
+  }
+
+  return response.data;
+}
+
+export class HttpNotificationChannel implements NotificationChannelAdapter {
+  readonly type = 'http' as const;
+
+  constructor(private readonly client: AxiosInstance) {}
+
+  async send(config: ChannelConfig, notification: RenderedNotification): Promise<void> {
+    const { url, headers } = config as HttpChannelConfig;
+    const { context } = notification;
+
+    await postJson(this.client, url, {
+      event: 'alert.triggered',
+      severity: notification.severity,
+      subject: notification.subject,
+      text: notification.text,
+      alert: {
+        type: context.type,
+        title: context.title,
+        message: context.message,
+        triggeredAt: context.triggeredAt
+      },
+      token: {
+        symbol: context.symbol,
+        address: context.address,
+        score: context.score,
+        price: context.price,
+        liquidity: context.liquidity
+      },
+      links: {
+        dexscreener: context.dexscreenerUrl,
+        birdeye: context.birdeyeUrl,
+        solscan: context.solscanUrl
+      }
+    }, headers);
+  }
+}
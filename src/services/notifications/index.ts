@@ -0,0 +1,45 @@
+/**
+ * Notification Channels
+ * Telegram, Discord, email (SMTP) and generic HTTP adapters configured from the environment
+ */
+
+import { createChannelHttpClient, HttpNotificationChannel } from './http.channel';
+import { TelegramNotificationChannel } from './telegram.channel';
+import { DiscordNotificationChannel } from './discord.channel';
+import { EmailNotificationChannel, SmtpOptions } from './email.channel';
+import { NotificationAdapters } from './notification.service';
+
+export * from './types';
+export * from './templates';
+export { NotificationService, type NotificationAdapters, type PublicNotificationChannel } from './notification.service';
+export { HttpNotificationChannel, postJson } from './http.channel';
+export { TelegramNotificationChannel, type TelegramChannelOptions } from './telegram.channel';
+export { DiscordNotificationChannel } from './discord.channel';
+export { EmailNotificationChannel, buildMessage, type SmtpOptions } from './email.channel';
+
+export function createNotificationAdapters(env: NodeJS.ProcessEnv = process.env): NotificationAdapters {
+  const timeoutMs = parseInt(env.NOTIFICATION_TIMEOUT_MS || '10000', 10);
+  const client = createChannelHttpClient(timeoutMs);
+
+  const smtp: SmtpOptions | null = env.SMTP_HOST
+    ? {
+      host: env.SMTP_HOST,
+      port: parseInt(env.SMTP_PORT || '587', 10),
+      secure: env.SMTP_SECURE === 'true',
+      user: env.SMTP_USER || undefined,
+      password: env.SMTP_PASSWORD || undefined,
+      from: env.SMTP_FROM || 'alerts@localhost',
+      timeoutMs
+    }
+    : null;
+
+  return {
+    telegram: new TelegramNotificationChannel(client, {
+      apiUrl: env.TELEGRAM_API_URL || 'https://api.telegram.org',
+      botToken: env.TELEGRAM_BOT_TOKEN || undefined
+    }),
+    discord: new DiscordNotificationChannel(client),
+    email: new EmailNotificationChannel(smtp),
+    http: new HttpNotificationChannel(client)
+  };
+}
@@ -0,0 +1,258 @@
+/**
+ * Notification Service
+ * Delivers fired alerts to users' Telegram, Discord, email and HTTP channels
+ *
+ * An alert from a rule or subscription goes to the channels of its owner;
+ * alerts with no owner, such as watchlist degradations, go to every active
+ * channel. Each
+ * channel applies its own severity threshold, quiet hours (CRITICAL alerts
+ * still go out) and hourly rate limit. Every send, failure and suppression is
+ * recorded in notification_deliveries, which is also what the rate limit
+ * counts.
+ */
+
+import { PrismaClient, Prisma, NotificationChannel, NotificationDelivery } from '@prisma/client';
+import { Alert } from '../../api/types/api.types';
+import { AlertSeverity } from '../alerts/types';
+import { Logger } from '../../utils/logger';
+import { isWithinQuietHours, meetsSeverity, NotificationToken, renderNotification } from './templates';
+import {
+  ChannelConfig,
+  ChannelSettings,
+  CreateChannelInput,
+  NotificationChannelAdapter,
+  NotificationChannelType,
+  NotificationDeliveryStatus
+} from './types';
+
+// Channel as returned by the API - bot tokens and HTTP header values are never echoed back
+export type PublicNotificationChannel = Omit<NotificationChannel, 'config'> & { config: Record<string, unknown> };
+
+export type NotificationAdapters = Record<NotificationChannelType, NotificationChannelAdapter>;
+
+const HOUR_MS = 60 * 60 * 1000;
+const REDACTED = '[redacted]';
+
+export class NotificationService {
+  private readonly logger = Logger.getInstance();
+
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly adapters: NotificationAdapters
+  ) {}
+
+  async createChannel(userId: string, input: CreateChannelInput): Promise<PublicNotificationChannel> {
+    const channel = await this.prisma.notificationChannel.create({
+      data: {
+        userId,
+        type: input.type,
+        name: input.name,
+        config: input.config as Prisma.InputJsonObject,
+        minSeverity: input.minSeverity,
+        template: input.template,
+        rateLimitPerHour: input.rateLimitPerHour,
+        quietHoursStart: input.quietHoursStart,
+        quietHoursEnd: input.quietHoursEnd,
+        timezone: input.timezone,
+        isActive: input.isActive
+      }
+    });
+
+    this.logger.info('Notification channel created', { channelId: channel.id, userId, type: channel.type });
+
+    return this.toPublic(channel);
+  }
+
+  async listChannels(userId: string): Promise<PublicNotificationChannel[]> {
+    const channels = await this.prisma.notificationChannel.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return channels.map(channel => this.toPublic(channel));
+  }
+
+  async updateChannel(userId: string, channelId: string, settings: ChannelSettings): Promise<PublicNotificationChannel | null> {
+    const { count } = await this.prisma.notificationChannel.updateMany({
+      where: { id: channelId, userId },
+      data: settings
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    const channel = await this.prisma.notificationChannel.findUnique({ where: { id: channelId } });
+    return channel ? this.toPublic(channel) : null;
+  }
+
+  async deleteChannel(userId: string, channelId: string): Promise<boolean> {
+    const { count } = await this.prisma.notificationChannel.deleteMany({ where: { id: channelId, userId } });
+    return count > 0;
+  }
+
+  async listDeliveries(userId: string, channelId: string, limit: number): Promise<NotificationDelivery[] | null> {
+    const channel = await this.prisma.notificationChannel.findFirst({ where: { id: channelId, userId }, select: { id: true } });
+    if (!channel) {
+      return null;
+    }
+
+    return this.prisma.notificationDelivery.findMany({
+      where: { channelId },
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    });
+  }
+
+  /**
+   * Send a fired alert to every channel that should hear about it. Never
+   * throws - alert handling must not fail because a channel is down.
+   * Returns the number of notifications sent.
+   */
+  async notify(alert: Alert, now: Date = new Date()): Promise<number> {
+    try {
+      const ownerId = await this.findOwner(alert);
+
+      const channels = await this.prisma.notificationChannel.findMany({
+        where: { isActive: true, ...(ownerId && { userId: ownerId }) }
+      });
+
+      const eligible = channels.filter(channel => meetsSeverity(alert.severity, channel.minSeverity as AlertSeverity));
+      if (eligible.length === 0) {
+        return 0;
+      }
+
+      const token = await this.findToken(alert.tokenAddress);
+      const results = await Promise.all(eligible.map(channel => this.deliver(channel, alert, token, now)));
+
+      return results.filter(status => status === 'sent').length;
+
+    } catch (error) {
+      this.logger.error('Failed to send alert notifications', {
+        alertId: alert.id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return 0;
+    }
+  }
+
+  /**
+   * Send a sample alert through one channel, ignoring its threshold, quiet hours and rate limit
+   */
+  async sendTest(userId: string, channelId: string): Promise<NotificationDelivery | null> {
+    const channel = await this.prisma.notificationChannel.findFirst({ where: { id: channelId, userId } });
+    if (!channel) {
+      return null;
+    }
+
+    const alert: Alert = {
+      id: `test_${Date.now()}`,
+      type: 'SAFETY_ALERT',
+      title: 'Test notification',
+      message: `This is a test of your ${channel.type} notification channel`,
+      severity: 'HIGH',
+      tokenAddress: 'So11111111111111111111111111111111111111112',
+      tokenSymbol: 'SOL',
+      triggeredAt: new Date().toISOString(),
+      isRead: false
+    };
+
+    const error = await this.send(channel, alert, null);
+    return this.record(channel.id, null, error ? 'failed' : 'sent', null, error);
+  }
+
+  private async deliver(channel: NotificationChannel, alert: Alert, token: NotificationToken | null, now: Date): Promise<NotificationDeliveryStatus> {
+    if (alert.severity !== 'CRITICAL' && isWithinQuietHours(now, channel.quietHoursStart, channel.quietHoursEnd, channel.timezone)) {
+      await this.record(channel.id, alert.id, 'suppressed', 'quiet_hours');
+      return 'suppressed';
+    }
+
+    const sentLastHour = await this.prisma.notificationDelivery.count({
+      where: { channelId: channel.id, status: 'sent', createdAt: { gt: new Date(now.getTime() - HOUR_MS) } }
+    });
+
+    if (sentLastHour >= channel.rateLimitPerHour) {
+      await this.record(channel.id, alert.id, 'suppressed', 'rate_limited');
+      return 'suppressed';
+    }
+
+    const error = await this.send(channel, alert, token);
+    await this.record(channel.id, alert.id, error ? 'failed' : 'sent', null, error);
+
+    return error ? 'failed' : 'sent';
+  }
+
+  // Returns the failure message, or null when the channel accepted the notification
+  private async send(channel: NotificationChannel, alert: Alert, token: NotificationToken | null): Promise<string | null> {
+    const adapter = this.adapters[channel.type as NotificationChannelType];
+    if (!adapter) {
+      return `Unknown channel type: ${channel.type}`;
+    }
+
+    try {
+      await adapter.send(channel.config as unknown as ChannelConfig, renderNotification(alert, token, channel.template));
+      return null;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn('Notification delivery failed', { channelId: channel.id, type: channel.type, error: message });
+      return message;
+    }
+  }
+
+  private record(
+    channelId: string,
+    alertEventId: string | null,
+    status: NotificationDeliveryStatus,
+    reason: string | null,
+    error: string | null = null
+  ): Promise<NotificationDelivery> {
+    return this.prisma.notificationDelivery.create({
+      data: {
+        channelId,
+        alertEventId,
+        status,
+        reason,
+        error
+      }
+    });
+  }
+
+  private async findOwner(alert: Alert): Promise<string | null> {
+    if (alert.subscriptionId) {
+      const subscription = await this.prisma.alertSubscription.findUnique({ where: { id: alert.subscriptionId }, select: { userId: true } });
+      return subscription?.userId ?? null;
+    }
+
+    if (alert.alertId) {
+      const rule = await this.prisma.alert.findUnique({ where: { id: alert.alertId }, select: { userId: true } });
+      return rule?.userId ?? null;
+    }
+
+    return null;
+  }
+
+  private async findToken(address: string | undefined): Promise<NotificationToken | null> {
+    if (!address) {
+      return null;
+    }
+
+    return this.prisma.token.findUnique({
+      where: { address },
+      select: { symbol: true, address: true, safetyScore: true, price: true, liquidity: true }
+    });
+  }
+
+  private toPublic(channel: NotificationChannel): PublicNotificationChannel {
+    const config = { ...(channel.config as Record<string, unknown>) };
+
+    if ('botToken' in config) {
+      config.botToken = REDACTED;
+    }
+
+    if (config.headers && typeof config.headers === 'object') {
+      config.headers = Object.fromEntries(Object.keys(config.headers).map(name => [name, REDACTED]));
+    }
+
+    return { ...channel, config };
+  }
+}
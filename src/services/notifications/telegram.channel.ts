@@ -0,0 +1,45 @@
+/**
+ * Telegram notification channel
+ * Sends through the Bot API; the bot must be a member of the target chat
+ */
+
+import { AxiosInstance } from 'axios';
+import { postJson } from './http.channel';
+import { ChannelConfig, NotificationChannelAdapter, RenderedNotification, TelegramChannelConfig } from './types';
+
+export interface TelegramChannelOptions {
+  apiUrl: string;
+  botToken?: string; // used when a channel does not bring its own bot
+}
+
+export class TelegramNotificationChannel implements NotificationChannelAdapter {
+  readonly type = 'telegram' as const;
+
+  constructor(
+    private readonly client: AxiosInstance,
+    private readonly options: TelegramChannelOptions
+  ) {}
+
+  async send(config: ChannelConfig, notification: RenderedNotification): Promise<void> {
+    const { chatId, botToken } = config as TelegramChannelConfig;
+    const token = botToken ?? this.options.botToken;
+
+    if (!token) {
+      throw new Error('Telegram bot token is not configured');
+    }
+
+    const result = await postJson<{ ok: boolean; description?: string }>(
+      this.client,
+      `${this.options.apiUrl}/bot${token}/sendMessage`,
+      {
+        chat_id: chatId,
+        text: notification.text,
+        disable_web_page_preview: true
+      }
+    );
+
+    if (!result?.ok) {
+      throw new Error(`Telegram rejected the message: ${result?.description ?? 'unknown error'}`);
+    }
+  }
+}
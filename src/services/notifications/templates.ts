@@ -0,0 +1,88 @@
+/**
+ * Notification templates, severity thresholds and quiet hours
+ */
+
+import { Alert } from '../../api/types/api.types';
+import { AlertSeverity } from '../alerts/types';
+import { NotificationContext, RenderedNotification, TEMPLATE_TOKEN, TemplatePlaceholder } from './types';
+
+export interface NotificationToken {
+  symbol: string;
+  address: string;
+  safetyScore: number | null; // 0-100 as stored on the token
+  price: number | null;
+  liquidity: number | null;
+}
+
+export const DEFAULT_TEMPLATE = [
+  '[{{severity}}] {{title}}',
+  '{{message}}',
+  '',
+  'Token: {{symbol}} ({{address}})',
+  'Safety score: {{score}}',
+  'Price: {{price}} | Liquidity: {{liquidity}}',
+  'DexScreener: {{dexscreenerUrl}}',
+  'Birdeye: {{birdeyeUrl}}'
+].join('\n');
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = { LOW: 0, MEDIUM: 1, HIGH: 2, CRITICAL: 3 };
+
+export function meetsSeverity(severity: AlertSeverity, minSeverity: AlertSeverity): boolean {
+  return SEVERITY_RANK[severity] >= SEVERITY_RANK[minSeverity];
+}
+
+/**
+ * Whether `now` falls within the daily quiet window in the given timezone.
+ * A window whose end is before its start runs past midnight (22:00-07:00).
+ */
+export function isWithinQuietHours(now: Date, start: string | null, end: string | null, timezone: string): boolean {
+  if (!start || !end || start === end) {
+    return false;
+  }
+
+  const parts = new Intl.DateTimeFormat('en-GB', { timeZone: timezone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' })
+    .formatToParts(now);
+  const local = `${parts.find(part => part.type === 'hour')?.value}:${parts.find(part => part.type === 'minute')?.value}`;
+
+  return start < end
+    ? local >= start && local < end
+    : local >= start || local < end;
+}
+
+export function buildNotificationContext(alert: Alert, token: NotificationToken | null): NotificationContext {
+  const address = token?.address ?? alert.tokenAddress ?? '';
+  const unknown = 'n/a';
+
+  return {
+    title: alert.title,
+    message: alert.message,
+    severity: alert.severity,
+    type: alert.type,
+    symbol: token?.symbol ?? alert.tokenSymbol ?? unknown,
+    address: address || unknown,
+    score: token?.safetyScore != null ? `${(token.safetyScore / 10).toFixed(1)}/10` : unknown,
+    price: token?.price != null ? `$${token.price.toPrecision(4)}` : unknown,
+    liquidity: token?.liquidity != null ? `$${Math.round(token.liquidity).toLocaleString('en-US')}` : unknown,
+    triggeredAt: alert.triggeredAt,
+    dexscreenerUrl: address ? `https://dexscreener.com/solana/${address}` : unknown,
+    birdeyeUrl: address ? `https://birdeye.so/token/${address}?chain=solana` : unknown,
+    solscanUrl: address ? `https://solscan.io/token/${address}` : unknown
+  };
+}
+
+export function renderTemplate(template: string, context: NotificationContext): string {
+  return template.replace(TEMPLATE_TOKEN, (match, name: string) =>
+    name in context ? context[name as TemplatePlaceholder] : match
+  );
+}
+
+export function renderNotification(alert: Alert, token: NotificationToken | null, template: string | null): RenderedNotification {
+  const context = buildNotificationContext(alert, token);
+
+  return {
+    subject: `[${alert.severity}] ${context.symbol}: ${alert.title}`,
+    text: renderTemplate(template ?? DEFAULT_TEMPLATE, context),
+    severity: alert.severity,
+    context
+  };
+}
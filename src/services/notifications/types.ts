@@ -0,0 +1,115 @@
+/**
+ * Notification Channel Types
+ * Shared contract for the Telegram, Discord, email and HTTP adapters
+ */
+
+import { z } from 'zod';
+import { AlertSeverity } from '../alerts/types';
+
+export const NOTIFICATION_CHANNEL_TYPES = ['telegram', 'discord', 'email', 'http'] as const;
+
+export type NotificationChannelType = typeof NOTIFICATION_CHANNEL_TYPES[number];
+
+export type NotificationDeliveryStatus = 'sent' | 'failed' | 'suppressed';
+
+// Placeholders a message template may use, e.g. "{{symbol}} score {{score}}"
+export const TEMPLATE_PLACEHOLDERS = [
+  'title',
+  'message',
+  'severity',
+  'type',
+  'symbol',
+  'address',
+  'score',
+  'price',
+  'liquidity',
+  'triggeredAt',
+  'dexscreenerUrl',
+  'birdeyeUrl',
+  'solscanUrl'
+] as const;
+
+export type TemplatePlaceholder = typeof TEMPLATE_PLACEHOLDERS[number];
+
+export type NotificationContext = Record<TemplatePlaceholder, string>;
+
+export const TEMPLATE_TOKEN = /{{\s*(\w+)\s*}}/g;
+
+const QUIET_HOURS_TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const telegramConfigSchema = z.object({
+  chatId: z.string().min(1),
+  botToken: z.string().min(1).optional() // defaults to TELEGRAM_BOT_TOKEN
+});
+
+export const discordConfigSchema = z.object({
+  webhookUrl: z.string().url()
+});
+
+export const emailConfigSchema = z.object({
+  to: z.string().email()
+});
+
+export const httpConfigSchema = z.object({
+  url: z.string().url(),
+  headers: z.record(z.string()).optional()
+});
+
+export type TelegramChannelConfig = z.infer<typeof telegramConfigSchema>;
+export type DiscordChannelConfig = z.infer<typeof discordConfigSchema>;
+export type EmailChannelConfig = z.infer<typeof emailConfigSchema>;
+export type HttpChannelConfig = z.infer<typeof httpConfigSchema>;
+
+export const channelSettingsSchema = z.object({
+  name: z.string().max(100).optional(),
+  minSeverity: z.enum(['LOW', 'MEDIUM', 'HIGH', 'CRITICAL']).optional(),
+  template: z.string().max(2000)
+    .refine(
+      template => Array.from(template.matchAll(TEMPLATE_TOKEN)).every(([, name]) => (TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name)),
+      { message: `Template placeholders must be one of ${TEMPLATE_PLACEHOLDERS.join(', ')}` }
+    )
+    .nullable()
+    .optional(),
+  rateLimitPerHour: z.number().int().min(1).max(1000).optional(),
+  quietHoursStart: z.string().regex(QUIET_HOURS_TIME, 'Use HH:MM').nullable().optional(),
+  quietHoursEnd: z.string().regex(QUIET_HOURS_TIME, 'Use HH:MM').nullable().optional(),
+  timezone: z.string().refine(isValidTimezone, 'Unknown timezone').optional(),
+  isActive: z.boolean().optional()
+});
+
+export type ChannelSettings = z.infer<typeof channelSettingsSchema>;
+
+export const createChannelSchema = z.discriminatedUnion('type', [
+  channelSettingsSchema.extend({ type: z.literal('telegram'), config: telegramConfigSchema }),
+  channelSettingsSchema.extend({ type: z.literal('discord'), config: discordConfigSchema }),
+  channelSettingsSchema.extend({ type: z.literal('email'), config: emailConfigSchema }),
+  channelSettingsSchema.extend({ type: z.literal('http'), config: httpConfigSchema })
+]);
+
+export type CreateChannelInput = z.infer<typeof createChannelSchema>;
+
+export type ChannelConfig = CreateChannelInput['config'];
+
+export interface RenderedNotification {
+  subject: string;
+  text: string; // the channel template rendered with the alert's context
+  severity: AlertSeverity;
+  context: NotificationContext;
+}
+
+/**
+ * Sends one rendered notification. Throws when the channel rejects it.
+ */
+export interface NotificationChannelAdapter {
+  readonly type: NotificationChannelType;
+  send(config: ChannelConfig, notification: RenderedNotification): Promise<void>;
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
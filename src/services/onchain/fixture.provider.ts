@@ -0,0 +1,83 @@
+/**
+ * Fixture-backed On-chain Data Provider
+ * Serves recorded token state from memory or a JSON file, for tests and offline runs
+ */
+
+import { readFileSync } from 'fs';
+import {
+  CreatorHistory,
+  CreatorTokenFlow,
+  HolderAccount,
+  LiquidityLockInfo,
+  MintInfo,
+  OnChainDataProvider,
+  WalletFunding
+} from './types';
+
+export interface OnChainFixture {
+  mint?: MintInfo;
+  holders?: HolderAccount[];
+  liquidity?: LiquidityLockInfo;
+  creator?: {
+    creator: string;
+    mintCreatedAt: string | null; // ISO timestamp
+    tokens: Array<{ address: string; createdAt: string; rugged?: boolean; creatorFlow?: CreatorTokenFlow }>;
+  };
+  // Keyed by wallet; fundedAt is an ISO timestamp
+  funding?: Record<string, { funder: string | null; slot: number | null; fundedAt: string | null }>;
+}
+
+// Keyed by mint address
+export type OnChainFixtures = Record<string, OnChainFixture>;
+
+export class FixtureOnChainProvider implements OnChainDataProvider {
+  readonly source = 'fixture' as const;
+
+  constructor(private readonly fixtures: OnChainFixtures) {}
+
+  static fromFile(path: string): FixtureOnChainProvider {
+    return new FixtureOnChainProvider(JSON.parse(readFileSync(path, 'utf8')) as OnChainFixtures);
+  }
+
+  async getMintInfo(mint: string): Promise<MintInfo | null> {
+    return this.fixtures[mint]?.mint ?? null;
+  }
+
+  async getHolderAccounts(mint: string, limit: number): Promise<HolderAccount[] | null> {
+    return this.fixtures[mint]?.holders?.slice(0, limit) ?? null;
+  }
+
+  async getLiquidityLock(mint: string): Promise<LiquidityLockInfo | null> {
+    return this.fixtures[mint]?.liquidity ?? null;
+  }
+
+  async getCreatorHistory(mint: string): Promise<CreatorHistory | null> {
+    const creator = this.fixtures[mint]?.creator;
+    if (!creator) {
+      return null;
+    }
+
+    return {
+      creator: creator.creator,
+      mintCreatedAt: creator.mintCreatedAt ? new Date(creator.mintCreatedAt) : null,
+      tokens: creator.tokens.map(token => ({ ...token, createdAt: new Date(token.createdAt) }))
+    };
+  }
+
+  async getWalletFunding(wallets: string[]): Promise<WalletFunding[] | null> {
+    const funding = Object.assign({}, ...Object.values(this.fixtures).map(fixture => fixture.funding ?? {}));
+    if (!wallets.some(wallet => funding[wallet])) {
+      return null;
+    }
+
+    return wallets.map(wallet => {
+      const entry = funding[wallet];
+      return {
+        wallet,
+        funder: entry?.funder ?? null,
+        slot: entry?.slot ?? null,
+        fundedAt: entry?.fundedAt ? new Date(entry.fundedAt) : null
+      };
+    });
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * On-chain Data Providers
+ * Selected with ONCHAIN_DATA_PROVIDER: 'rpc' (default), 'fixture' or 'simulated'
+ */
+
+import { Logger } from '../../utils/logger';
+import { FixtureOnChainProvider } from './fixture.provider';
+import { SimulatedOnChainProvider } from './simulated.provider';
+import { SolanaRpcProvider } from './solana-rpc.provider';
+import { OnChainDataProvider, OnChainProviderMode, SourcedData } from './types';
+
+export * from './types';
+export { SolanaRpcProvider, type SolanaRpcProviderConfig } from './solana-rpc.provider';
+export { FixtureOnChainProvider, type OnChainFixture, type OnChainFixtures } from './fixture.provider';
+export { SimulatedOnChainProvider } from './simulated.provider';
+
+export function createOnChainProvider(
+  mode: OnChainProviderMode = (process.env.ONCHAIN_DATA_PROVIDER as OnChainProviderMode) || 'rpc'
+): OnChainDataProvider {
+  switch (mode) {
+    case 'rpc':
+      return new SolanaRpcProvider({
+        rpcUrl: process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com',
+        lpLockerOwners: (process.env.ONCHAIN_LP_LOCKER_OWNERS || '').split(',').map(owner => owner.trim()).filter(Boolean)
+      });
+
+    case 'fixture': {
+      const path = process.env.ONCHAIN_FIXTURES_PATH;
+      if (!path) {
+        throw new Error('ONCHAIN_FIXTURES_PATH is required for the fixture on-chain provider');
+      }
+      return FixtureOnChainProvider.fromFile(path);
+    }
+
+    case 'simulated':
+      Logger.getInstance().warn('Using simulated on-chain data - safety scores will be random');
+      return new SimulatedOnChainProvider();
+
+    default:
+      throw new Error(`Unknown on-chain data provider: ${mode}`);
+  }
+}
+
+/**
+ * Run a provider lookup and tag the result with the provider's source.
+ * Missing data and failed lookups both come back as `empty`, tagged 'unavailable'.
+ */
+export async function fetchFromProvider<T>(
+  provider: OnChainDataProvider,
+  lookup: string,
+  address: string,
+  empty: T,
+  fetch: () => Promise<T | null>
+): Promise<SourcedData<T>> {
+  try {
+    const data = await fetch();
+    if (data !== null) {
+      return { data, source: provider.source };
+    }
+  } catch (error) {
+    Logger.getInstance().warn(`On-chain ${lookup} lookup failed`, {
+      address,
+      provider: provider.source,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+
+  return { data: empty, source: 'unavailable' };
+}
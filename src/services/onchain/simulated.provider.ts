@@ -0,0 +1,91 @@
+/**
+ * Simulated On-chain Data Provider
+ * Random but plausible token state for demos. Only used when explicitly selected.
+ */
+
+import {
+  CreatedToken,
+  CreatorHistory,
+  HolderAccount,
+  LiquidityLockInfo,
+  MintInfo,
+  OnChainDataProvider,
+  WalletFunding
+} from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class SimulatedOnChainProvider implements OnChainDataProvider {
+  readonly source = 'simulated' as const;
+
+  async getMintInfo(mint: string): Promise<MintInfo | null> {
+    return {
+      address: mint,
+      decimals: 9,
+      supply: '1000000000000000000',
+      mintAuthority: Math.random() > 0.6 ? null : 'some-authority-address',
+      freezeAuthority: Math.random() > 0.7 ? null : 'some-freeze-address'
+    };
+  }
+
+  async getHolderAccounts(mint: string, limit: number): Promise<HolderAccount[]> {
+    const holderCount = Math.min(limit, Math.floor(Math.random() * 50) + 10);
+    const holders: HolderAccount[] = [];
+
+    for (let i = 0; i < holderCount; i++) {
+      holders.push({
+        address: `holder-${i}-${mint.slice(0, 8)}`,
+        owner: `owner-${i}`,
+        amount: Math.floor(Math.random() * 1000000 * (holderCount - i)).toString(),
+        decimals: 9
+      });
+    }
+
+    return holders;
+  }
+
+  async getLiquidityLock(mint: string): Promise<LiquidityLockInfo | null> {
+    const percentage = Math.floor(Math.random() * 100);
+
+    return {
+      poolAddress: `pool-${mint.slice(0, 8)}`,
+      lpMint: `lp-${mint.slice(0, 8)}`,
+      locked: Math.random() > 0.3,
+      percentage
+    };
+  }
+
+  async getCreatorHistory(mint: string): Promise<CreatorHistory | null> {
+    const creator = `creator-${mint.slice(0, 8)}`;
+    const now = Date.now();
+    const tokenCount = Math.floor(Math.random() * 8) + 1;
+    const tokens: CreatedToken[] = [];
+
+    for (let i = 0; i < tokenCount; i++) {
+      const createdAt = new Date(now - Math.random() * 90 * DAY_MS);
+      tokens.push({
+        address: i === 0 ? mint : `token-${i}-${creator}`,
+        createdAt,
+        rugged: now - createdAt.getTime() > 7 * DAY_MS && Math.random() < 0.3
+      });
+    }
+
+    return { creator, mintCreatedAt: tokens[0].createdAt, tokens };
+  }
+
+  async getWalletFunding(wallets: string[]): Promise<WalletFunding[]> {
+    const now = Date.now();
+    const baseSlot = 250000000;
+
+    // Roughly a third of holders share one of two funders, as a bundled launch would
+    return wallets.map(wallet => {
+      const bundled = Math.random() < 0.3;
+      return {
+        wallet,
+        funder: bundled ? `bundler-${Math.floor(Math.random() * 2)}` : `funder-${wallet}`,
+        slot: bundled ? baseSlot : baseSlot - Math.floor(Math.random() * 1000000),
+        fundedAt: new Date(now - Math.random() * 30 * DAY_MS)
+      };
+    });
+  }
+}
@@ -0,0 +1,497 @@
+/**
+ * Solana JSON-RPC On-chain Data Provider
+ * Reads mint state, holders, Raydium LP locks, creator history and wallet funding straight from the chain
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { RateLimiter, DEFAULT_RATE_LIMITS } from '../../utils/rate-limiter';
+import { globalCache } from '../../utils/cache';
+import { Logger } from '../../utils/logger';
+import {
+  CreatedToken,
+  CreatorHistory,
+  HolderAccount,
+  LiquidityLockInfo,
+  MintInfo,
+  OnChainDataProvider,
+  WalletFunding
+} from './types';
+
+export interface SolanaRpcProviderConfig {
+  rpcUrl: string;
+  timeoutMs: number;
+  commitment: 'confirmed' | 'finalized';
+  lockThresholdPercent: number; // LP share that must be burned or locked
+  lpLockerOwners: string[]; // wallets/programs whose LP holdings count as locked
+  maxMintSignaturePages: number; // pages walked back to find a mint's creation
+  creatorSignatureLimit: number; // creator transactions scanned for other mints
+  creatorCacheTtlSeconds: number;
+  maxFundingSignaturePages: number; // pages walked back to find a wallet's first transaction
+  fundingCacheTtlSeconds: number;
+}
+
+interface ParsedAccount {
+  data: { parsed?: { type: string; info: Record<string, unknown> } } | [string, string];
+}
+
+interface SignatureInfo {
+  signature: string;
+  slot?: number;
+  blockTime: number | null;
+  err: unknown;
+}
+
+interface ParsedInstruction {
+  program?: string;
+  parsed?: { type: string; info: Record<string, unknown> };
+}
+
+interface ParsedTransaction {
+  slot?: number;
+  blockTime: number | null;
+  transaction: {
+    message: {
+      accountKeys: Array<{ pubkey: string; signer: boolean }>;
+      instructions: ParsedInstruction[];
+    };
+  };
+  meta: {
+    innerInstructions?: Array<{ instructions: ParsedInstruction[] }>;
+    preBalances?: number[];
+    postBalances?: number[];
+    preTokenBalances?: TokenBalance[];
+    postTokenBalances?: TokenBalance[];
+  } | null;
+}
+
+interface TokenBalance {
+  mint: string;
+  owner?: string;
+  uiTokenAmount: { amount: string };
+}
+
+interface RaydiumPool {
+  address: string;
+  lpMint: string;
+  lpReserve: bigint;
+}
+
+// Raydium AMM v4 pool state layout
+const RAYDIUM_AMM_V4_PROGRAM = '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8';
+const RAYDIUM_POOL_SIZE = 752;
+const RAYDIUM_BASE_MINT_OFFSET = 400;
+const RAYDIUM_QUOTE_MINT_OFFSET = 432;
+const RAYDIUM_LP_MINT_OFFSET = 464;
+const RAYDIUM_LP_RESERVE_OFFSET = 720;
+
+const SIGNATURE_PAGE_SIZE = 1000;
+const TOKEN_PROGRAMS = new Set(['spl-token', 'spl-token-2022']);
+const MINT_INIT_TYPES = new Set(['initializeMint', 'initializeMint2']);
+const FUNDING_TYPES = new Set(['transfer', 'transferWithSeed', 'createAccount', 'createAccountWithSeed']);
+const WRAPPED_SOL_MINT = 'So11111111111111111111111111111111111111112';
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+export class SolanaRpcProvider implements OnChainDataProvider {
+  readonly source = 'solana-rpc' as const;
+
+  private readonly client: AxiosInstance;
+  private readonly rateLimiter = new RateLimiter(DEFAULT_RATE_LIMITS);
+  private readonly logger = Logger.getInstance();
+  private readonly config: SolanaRpcProviderConfig;
+  private requestId = 0;
+
+  constructor(config: Partial<SolanaRpcProviderConfig> = {}) {
+    this.config = {
+      rpcUrl: 'https://api.mainnet-beta.solana.com',
+      timeoutMs: 20000,
+      commitment: 'confirmed',
+      lockThresholdPercent: 90,
+      lpLockerOwners: [],
+      maxMintSignaturePages: 5,
+      creatorSignatureLimit: 50,
+      creatorCacheTtlSeconds: 3600,
+      maxFundingSignaturePages: 2,
+      fundingCacheTtlSeconds: 86400,
+      ...config
+    };
+
+    this.client = axios.create({
+      baseURL: this.config.rpcUrl,
+      timeout: this.config.timeoutMs,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  async getMintInfo(mint: string): Promise<MintInfo | null> {
+    const account = await this.rpc<{ value: ParsedAccount | null }>('getAccountInfo', [
+      mint,
+      { encoding: 'jsonParsed', commitment: this.config.commitment }
+    ]);
+
+    const info = this.parsedInfo(account.value, 'mint');
+    if (!info) {
+      return null;
+    }
+
+    return {
+      address: mint,
+      decimals: info.decimals as number,
+      supply: info.supply as string,
+      mintAuthority: (info.mintAuthority as string | undefined) ?? null,
+      freezeAuthority: (info.freezeAuthority as string | undefined) ?? null
+    };
+  }
+
+  async getHolderAccounts(mint: string, limit: number): Promise<HolderAccount[]> {
+    // The RPC only exposes the 20 largest accounts, which is what concentration checks need
+    const largest = await this.rpc<{ value: Array<{ address: string; amount: string; decimals: number }> }>(
+      'getTokenLargestAccounts',
+      [mint, { commitment: this.config.commitment }]
+    );
+
+    const accounts = largest.value.slice(0, limit);
+    if (accounts.length === 0) {
+      return [];
+    }
+
+    const owners = await this.rpc<{ value: Array<ParsedAccount | null> }>('getMultipleAccounts', [
+      accounts.map(account => account.address),
+      { encoding: 'jsonParsed', commitment: this.config.commitment }
+    ]);
+
+    return accounts.map((account, index) => ({
+      address: account.address,
+      owner: (this.parsedInfo(owners.value[index], 'account')?.owner as string | undefined) ?? 'unknown',
+      amount: account.amount,
+      decimals: account.decimals
+    }));
+  }
+
+  async getLiquidityLock(mint: string): Promise<LiquidityLockInfo | null> {
+    const pool = await this.findRaydiumPool(mint);
+    if (!pool) {
+      return null;
+    }
+
+    const lockers = new Set(this.config.lpLockerOwners);
+    const [supply, holders] = await Promise.all([
+      this.rpc<{ value: { amount: string } }>('getTokenSupply', [pool.lpMint, { commitment: this.config.commitment }]),
+      lockers.size > 0 ? this.getHolderAccounts(pool.lpMint, 20) : Promise.resolve([])
+    ]);
+
+    // Burning LP tokens lowers the mint supply below the pool's LP reserve
+    const outstanding = BigInt(supply.value.amount);
+    const burned = pool.lpReserve > outstanding ? pool.lpReserve - outstanding : BigInt(0);
+    const lockerHeld = holders
+      .filter(holder => lockers.has(holder.owner))
+      .reduce((sum, holder) => sum + BigInt(holder.amount), BigInt(0));
+
+    const percentage = pool.lpReserve > BigInt(0)
+      ? Math.min(100, Number(((burned + lockerHeld) * BigInt(10000)) / pool.lpReserve) / 100)
+      : 0;
+
+    return {
+      poolAddress: pool.address,
+      lpMint: pool.lpMint,
+      locked: percentage >= this.config.lockThresholdPercent,
+      percentage
+    };
+  }
+
+  async getCreatorHistory(mint: string): Promise<CreatorHistory | null> {
+    const cacheKey = `onchain:creator:${mint}`;
+    const cached = globalCache.get<CreatorHistory>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const creation = await this.findCreation(mint);
+    if (!creation) {
+      return null;
+    }
+
+    const { tokens, flows } = await this.findCreatedMints(creation.creator);
+    if (!tokens.some(token => token.address === mint)) {
+      tokens.push({ address: mint, createdAt: creation.createdAt });
+    }
+
+    const history: CreatorHistory = {
+      creator: creation.creator,
+      mintCreatedAt: creation.createdAt,
+      tokens: tokens.map(token => {
+        const flow = flows.get(token.address);
+        return flow
+          ? { ...token, creatorFlow: { peakBalance: flow.peak.toString(), soldAmount: flow.sold.toString() } }
+          : token;
+      })
+    };
+
+    globalCache.set(cacheKey, history, this.config.creatorCacheTtlSeconds);
+    return history;
+  }
+
+  async getWalletFunding(wallets: string[]): Promise<WalletFunding[]> {
+    const fundings: WalletFunding[] = [];
+    for (const wallet of wallets) {
+      fundings.push(await this.findFunding(wallet));
+    }
+    return fundings;
+  }
+
+  /**
+   * Find the Raydium AMM v4 pool with the deepest LP reserve that trades the mint
+   * on either side.
+   */
+  private async findRaydiumPool(mint: string): Promise<RaydiumPool | null> {
+    for (const offset of [RAYDIUM_BASE_MINT_OFFSET, RAYDIUM_QUOTE_MINT_OFFSET]) {
+      const accounts = await this.rpc<Array<{ pubkey: string; account: { data: [string, string] } }>>(
+        'getProgramAccounts',
+        [RAYDIUM_AMM_V4_PROGRAM, {
+          encoding: 'base64',
+          commitment: this.config.commitment,
+          dataSlice: { offset: RAYDIUM_LP_MINT_OFFSET, length: RAYDIUM_LP_RESERVE_OFFSET + 8 - RAYDIUM_LP_MINT_OFFSET },
+          filters: [{ dataSize: RAYDIUM_POOL_SIZE }, { memcmp: { offset, bytes: mint } }]
+        }]
+      );
+
+      const pools = accounts.map(({ pubkey, account }) => {
+        const data = Buffer.from(account.data[0], 'base64');
+        return {
+          address: pubkey,
+          lpMint: encodeBase58(data.subarray(0, 32)),
+          lpReserve: data.readBigUInt64LE(RAYDIUM_LP_RESERVE_OFFSET - RAYDIUM_LP_MINT_OFFSET)
+        };
+      });
+
+      if (pools.length > 0) {
+        return pools.reduce((deepest, pool) => (pool.lpReserve > deepest.lpReserve ? pool : deepest));
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Walk the mint's signatures back to its first transaction, whose fee payer
+   * is the creator. Gives up on mints with more history than the page budget.
+   */
+  private async findCreation(mint: string): Promise<{ creator: string; createdAt: Date } | null> {
+    let oldest: SignatureInfo | undefined;
+
+    for (let page = 0; page < this.config.maxMintSignaturePages; page++) {
+      const signatures = await this.rpc<SignatureInfo[]>('getSignaturesForAddress', [
+        mint,
+        { limit: SIGNATURE_PAGE_SIZE, before: oldest?.signature, commitment: this.config.commitment }
+      ]);
+
+      if (signatures.length > 0) {
+        oldest = signatures[signatures.length - 1];
+      }
+
+      if (signatures.length < SIGNATURE_PAGE_SIZE) {
+        if (!oldest) {
+          return null;
+        }
+
+        const transaction = await this.getParsedTransaction(oldest.signature);
+        const feePayer = transaction?.transaction.message.accountKeys[0]?.pubkey;
+        const blockTime = transaction?.blockTime ?? oldest.blockTime;
+
+        return feePayer && blockTime ? { creator: feePayer, createdAt: new Date(blockTime * 1000) } : null;
+      }
+    }
+
+    this.logger.debug('Mint history exceeds signature page budget', { mint });
+    return null;
+  }
+
+  /**
+   * Mints initialised in the creator's recent transactions, and the creator's
+   * balance flows for every mint those transactions touched
+   */
+  private async findCreatedMints(creator: string): Promise<{
+    tokens: CreatedToken[];
+    flows: Map<string, { peak: bigint; sold: bigint }>;
+  }> {
+    const signatures = await this.rpc<SignatureInfo[]>('getSignaturesForAddress', [
+      creator,
+      { limit: this.config.creatorSignatureLimit, commitment: this.config.commitment }
+    ]);
+
+    const tokens: CreatedToken[] = [];
+    const flows = new Map<string, { peak: bigint; sold: bigint }>();
+
+    for (const { signature, err } of signatures) {
+      if (err) continue;
+
+      const transaction = await this.getParsedTransaction(signature);
+      if (!transaction?.blockTime) continue;
+
+      this.recordCreatorFlows(flows, creator, transaction);
+
+      const instructions = [
+        ...transaction.transaction.message.instructions,
+        ...(transaction.meta?.innerInstructions ?? []).flatMap(inner => inner.instructions)
+      ];
+
+      for (const instruction of instructions) {
+        if (
+          instruction.program && TOKEN_PROGRAMS.has(instruction.program) &&
+          instruction.parsed && MINT_INIT_TYPES.has(instruction.parsed.type)
+        ) {
+          tokens.push({
+            address: instruction.parsed.info.mint as string,
+            createdAt: new Date(transaction.blockTime * 1000)
+          });
+        }
+      }
+    }
+
+    return { tokens, flows };
+  }
+
+  /**
+   * Track the creator's peak balance of each mint and how much of it left
+   * their accounts in transactions that also paid them SOL, i.e. sells rather
+   * than transfers or liquidity deposits.
+   */
+  private recordCreatorFlows(
+    flows: Map<string, { peak: bigint; sold: bigint }>,
+    creator: string,
+    transaction: ParsedTransaction
+  ): void {
+    const meta = transaction.meta;
+    if (!meta) return;
+
+    const balancesByMint = (balances: TokenBalance[] = []) => {
+      const totals = new Map<string, bigint>();
+      for (const balance of balances) {
+        if (balance.owner !== creator) continue;
+        totals.set(balance.mint, (totals.get(balance.mint) ?? BigInt(0)) + BigInt(balance.uiTokenAmount.amount));
+      }
+      return totals;
+    };
+
+    const before = balancesByMint(meta.preTokenBalances);
+    const after = balancesByMint(meta.postTokenBalances);
+
+    const creatorIndex = transaction.transaction.message.accountKeys.findIndex(key => key.pubkey === creator);
+    const lamportsGained = creatorIndex >= 0 &&
+      (meta.postBalances?.[creatorIndex] ?? 0) > (meta.preBalances?.[creatorIndex] ?? 0);
+    const wrappedSolGained = (after.get(WRAPPED_SOL_MINT) ?? BigInt(0)) > (before.get(WRAPPED_SOL_MINT) ?? BigInt(0));
+
+    for (const mint of new Set([...before.keys(), ...after.keys()])) {
+      if (mint === WRAPPED_SOL_MINT) continue;
+
+      const pre = before.get(mint) ?? BigInt(0);
+      const post = after.get(mint) ?? BigInt(0);
+      const flow = flows.get(mint) ?? { peak: BigInt(0), sold: BigInt(0) };
+
+      flow.peak = [flow.peak, pre, post].reduce((max, value) => (value > max ? value : max));
+      if (post < pre && (lamportsGained || wrappedSolGained)) {
+        flow.sold += pre - post;
+      }
+      flows.set(mint, flow);
+    }
+  }
+
+  /**
+   * A wallet's first transaction is the SOL transfer that created it. Wallets
+   * with more history than the page budget are reported without a funder.
+   */
+  private async findFunding(wallet: string): Promise<WalletFunding> {
+    const cacheKey = `onchain:funding:${wallet}`;
+    const cached = globalCache.get<WalletFunding>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const funding: WalletFunding = { wallet, funder: null, slot: null, fundedAt: null };
+    let oldest: SignatureInfo | undefined;
+
+    for (let page = 0; page < this.config.maxFundingSignaturePages; page++) {
+      const signatures = await this.rpc<SignatureInfo[]>('getSignaturesForAddress', [
+        wallet,
+        { limit: SIGNATURE_PAGE_SIZE, before: oldest?.signature, commitment: this.config.commitment }
+      ]);
+
+      if (signatures.length > 0) {
+        oldest = signatures[signatures.length - 1];
+      }
+
+      if (signatures.length < SIGNATURE_PAGE_SIZE) {
+        const transaction = oldest && await this.getParsedTransaction(oldest.signature);
+        const transfer = transaction && [
+          ...transaction.transaction.message.instructions,
+          ...(transaction.meta?.innerInstructions ?? []).flatMap(inner => inner.instructions)
+        ].find(instruction =>
+          instruction.program === 'system' &&
+          instruction.parsed && FUNDING_TYPES.has(instruction.parsed.type) &&
+          (instruction.parsed.info.destination ?? instruction.parsed.info.newAccount) === wallet
+        );
+
+        if (transaction && transfer?.parsed) {
+          const blockTime = transaction.blockTime ?? oldest?.blockTime;
+          funding.funder = transfer.parsed.info.source as string;
+          funding.slot = transaction.slot ?? oldest?.slot ?? null;
+          funding.fundedAt = blockTime ? new Date(blockTime * 1000) : null;
+        }
+
+        globalCache.set(cacheKey, funding, this.config.fundingCacheTtlSeconds);
+        return funding;
+      }
+    }
+
+    this.logger.debug('Wallet history exceeds signature page budget', { wallet });
+    globalCache.set(cacheKey, funding, this.config.fundingCacheTtlSeconds);
+    return funding;
+  }
+
+  private async getParsedTransaction(signature: string): Promise<ParsedTransaction | null> {
+    return this.rpc<ParsedTransaction | null>('getTransaction', [
+      signature,
+      { encoding: 'jsonParsed', maxSupportedTransactionVersion: 0, commitment: this.config.commitment }
+    ]);
+  }
+
+  private parsedInfo(account: ParsedAccount | null, type: string): Record<string, unknown> | null {
+    if (!account || Array.isArray(account.data) || account.data.parsed?.type !== type) {
+      return null;
+    }
+    return account.data.parsed.info;
+  }
+
+  private async rpc<T>(method: string, params: unknown[]): Promise<T> {
+    await this.rateLimiter.waitForSlot('solana-rpc');
+
+    const response = await this.client.post('', {
+      jsonrpc: '2.0',
+      id: ++this.requestId,
+      method,
+      params
+    });
+
+    if (response.data.error) {
+      throw new Error(`Solana RPC ${method} failed: ${response.data.error.message}`);
+    }
+
+    return response.data.result as T;
+  }
+}
+
+function encodeBase58(bytes: Uint8Array): string {
+  let value = BigInt(`0x${Buffer.from(bytes).toString('hex') || '0'}`);
+  let encoded = '';
+
+  while (value > BigInt(0)) {
+    encoded = BASE58_ALPHABET[Number(value % BigInt(58))] + encoded;
+    value /= BigInt(58);
+  }
+
+  for (const byte of bytes) {
+    if (byte !== 0) break;
+    encoded = `1${encoded}`;
+  }
+
+  return encoded;
+}
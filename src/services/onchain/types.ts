@@ -0,0 +1,75 @@
+/**
+ * On-chain Data Provider Types
+ * Shared contract for the RPC, fixture and simulated providers
+ */
+
+import { OnChainDataSource } from '../../types/api.types';
+
+export type OnChainProviderMode = 'rpc' | 'fixture' | 'simulated';
+
+export interface MintInfo {
+  address: string;
+  decimals: number;
+  supply: string; // raw units
+  mintAuthority: string | null;
+  freezeAuthority: string | null;
+}
+
+export interface HolderAccount {
+  address: string; // token account
+  owner: string;
+  amount: string; // raw units
+  decimals: number;
+}
+
+export interface LiquidityLockInfo {
+  poolAddress: string | null;
+  lpMint: string | null;
+  locked: boolean;
+  percentage: number; // share of LP tokens burned or held by lockers
+}
+
+// The creator's own balance of a mint, over the transactions scanned for their history
+export interface CreatorTokenFlow {
+  peakBalance: string; // raw units
+  soldAmount: string; // raw units sent out in transactions that paid the creator SOL
+}
+
+export interface CreatedToken {
+  address: string;
+  createdAt: Date;
+  rugged?: boolean; // undefined when the provider cannot tell
+  creatorFlow?: CreatorTokenFlow;
+}
+
+export interface CreatorHistory {
+  creator: string;
+  mintCreatedAt: Date | null;
+  tokens: CreatedToken[];
+}
+
+// A wallet's first inbound SOL transfer, taken as its funding source
+export interface WalletFunding {
+  wallet: string;
+  funder: string | null; // null when no funding transfer was found
+  slot: number | null;
+  fundedAt: Date | null;
+}
+
+export interface SourcedData<T> {
+  data: T;
+  source: OnChainDataSource;
+}
+
+/**
+ * Source of raw token state. Methods resolve to null when the provider has
+ * no such data, and reject when the lookup itself fails.
+ */
+export interface OnChainDataProvider {
+  readonly source: OnChainDataSource;
+  getMintInfo(mint: string): Promise<MintInfo | null>;
+  getHolderAccounts(mint: string, limit: number): Promise<HolderAccount[] | null>;
+  getLiquidityLock(mint: string): Promise<LiquidityLockInfo | null>;
+  getCreatorHistory(mint: string): Promise<CreatorHistory | null>;
+  getWalletFunding(wallets: string[]): Promise<WalletFunding[] | null>;
+}
@@ -0,0 +1,590 @@
+/**
+ * Paper Trading Service
+ * Simulated positions opened from trading signals and saved filter matches
+ *
+ * Each aggregation run writes a fresh PriceData snapshot per token. When the
+ * loop sees a newer snapshot it runs one cycle: open positions are marked to
+ * market and closed on take-profit, stop-loss, max-hold or a sell signal, then
+ * new entries are opened from unconsumed BUY signals and from tokens matching
+ * the followed filters. Positions are rows in the trades table, so the book
+ * survives restarts and a signal is never traded twice.
+ */
+
+import { EventEmitter } from 'events';
+import { PrismaClient, Prisma, Trade } from '@prisma/client';
+import { Logger } from '../utils/logger';
+import { FilterDefinition } from '../api/types/api.types';
+import { FilterQueryService, toFilterGroup } from './filter-query.service';
+
+export type PaperExitReason = 'take_profit' | 'stop_loss' | 'max_hold' | 'sell_signal';
+
+export type PaperTradeStatus = 'open' | 'closed';
+
+/**
+ * How much of the bankroll a new position takes. Percentages apply to
+ * current equity (bankroll plus realized PnL).
+ */
+export type PositionSizingRule =
+  | { type: 'fixed'; amountUsd: number }
+  | { type: 'percent_of_equity'; percent: number }
+  | { type: 'signal_strength'; maxPercent: number }; // percent scaled by signal strength (0-1)
+
+export interface PaperTradingConfig {
+  bankroll: number; // starting USD balance
+  sizing: PositionSizingRule;
+  maxPositionUsd: number;
+  minPositionUsd: number;
+  maxOpenPositions: number;
+  takeProfitPercent: number;
+  stopLossPercent: number;
+  maxHoldHours: number;
+  entrySignalTypes: string[];
+  exitSignalTypes: string[];
+  minSignalStrength: number;
+  signalMaxAgeMs: number; // older signals are never traded
+  filterIds: string[]; // saved filters whose matches are bought
+  maxFilterMatches: number;
+  pollIntervalMs: number;
+}
+
+export interface PaperPositionsQuery {
+  status?: PaperTradeStatus | 'all';
+  strategy?: string;
+  page: number;
+  limit: number;
+}
+
+export interface PaperPosition {
+  id: string;
+  tokenId: string;
+  address: string;
+  symbol: string;
+  strategy: string | null;
+  status: PaperTradeStatus;
+  signalId: string | null;
+  amount: number;
+  sizeUsd: number;
+  entryPrice: number;
+  markPrice: number | null;
+  exitPrice: number | null;
+  pnl: number;
+  pnlPercentage: number;
+  exitReason: PaperExitReason | null;
+  openedAt: string;
+  markedAt: string | null;
+  closedAt: string | null;
+}
+
+export interface StrategyPerformance {
+  strategy: string;
+  trades: number;
+  openPositions: number;
+  closedPositions: number;
+  wins: number;
+  losses: number;
+  winRate: number; // percent of closed positions
+  realizedPnl: number;
+  unrealizedPnl: number;
+  avgReturnPercent: number; // over closed positions
+  bestReturnPercent: number;
+  worstReturnPercent: number;
+}
+
+export interface PaperPortfolio {
+  bankroll: number;
+  equity: number; // bankroll + realized + unrealized
+  cash: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  openPositions: number;
+  exposureUsd: number;
+}
+
+export interface PaperTradingCycle {
+  markedAt: string;
+  marked: number;
+  opened: number;
+  closed: number;
+  portfolio: PaperPortfolio;
+}
+
+type TradeWithToken = Trade & { token: { address: string; symbol: string } };
+
+interface EntryCandidate {
+  tokenId: string;
+  strategy: string;
+  strength: number;
+  signalId?: string;
+}
+
+interface BookState {
+  realizedPnl: number;
+  exposureUsd: number;
+  openPositions: number;
+  openKeys: Set<string>; // strategy:tokenId
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export class PaperTradingService extends EventEmitter {
+  private readonly logger = Logger.getInstance();
+  private readonly filterQuery: FilterQueryService;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private isPolling = false;
+  private lastSnapshotAt: Date | null = null;
+
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly config: PaperTradingConfig = {
+      bankroll: parseFloat(process.env.PAPER_TRADING_BANKROLL || '10000'),
+      sizing: { type: 'percent_of_equity', percent: 2 },
+      maxPositionUsd: parseFloat(process.env.MAX_POSITION_SIZE || '1000'),
+      minPositionUsd: 10,
+      maxOpenPositions: 25,
+      takeProfitPercent: 100,
+      stopLossPercent: 30,
+      maxHoldHours: 24,
+      entrySignalTypes: ['BUY', 'STRONG_BUY'],
+      exitSignalTypes: ['SELL', 'STRONG_SELL'],
+      minSignalStrength: 0.3,
+      signalMaxAgeMs: HOUR_MS,
+      filterIds: (process.env.PAPER_TRADING_FILTER_IDS || '').split(',').map(id => id.trim()).filter(Boolean),
+      maxFilterMatches: 50,
+      pollIntervalMs: 30000
+    }
+  ) {
+    super();
+    this.filterQuery = new FilterQueryService(prisma);
+  }
+
+  /**
+   * Start the loop that waits for new aggregation snapshots
+   */
+  start(): void {
+    if (this.pollTimer) {
+      return;
+    }
+
+    this.pollTimer = setInterval(() => {
+      void this.pollForSnapshots();
+    }, this.config.pollIntervalMs);
+
+    this.logger.info('Paper trading loop started', {
+      bankroll: this.config.bankroll,
+      sizing: this.config.sizing.type,
+      filters: this.config.filterIds.length
+    });
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+      this.logger.info('Paper trading loop stopped');
+    }
+  }
+
+  /**
+   * Run a cycle when an aggregation run has stored snapshots since the last one
+   */
+  async pollForSnapshots(): Promise<PaperTradingCycle | null> {
+    if (this.isPolling) {
+      return null;
+    }
+
+    this.isPolling = true;
+
+    try {
+      const latest = await this.prisma.priceData.findFirst({
+        orderBy: { timestamp: 'desc' },
+        select: { timestamp: true }
+      });
+
+      if (!latest || (this.lastSnapshotAt && latest.timestamp <= this.lastSnapshotAt)) {
+        return null;
+      }
+
+      const cycle = await this.runCycle();
+      this.lastSnapshotAt = latest.timestamp;
+      return cycle;
+    } catch (error) {
+      this.logger.error('Paper trading cycle failed', { error: error instanceof Error ? error.message : String(error) });
+      return null;
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  /**
+   * Mark, close and open positions against the latest prices
+   */
+  async runCycle(now: Date = new Date()): Promise<PaperTradingCycle> {
+    const openTrades = await this.prisma.trade.findMany({
+      where: { status: 'open' },
+      include: { token: { select: { address: true, symbol: true } } }
+    });
+
+    const prices = await this.getLatestPrices(openTrades.map(trade => trade.tokenId));
+    const exitSignals = await this.getExitSignals(openTrades);
+
+    let marked = 0;
+    let closed = 0;
+
+    for (const trade of openTrades) {
+      const price = prices.get(trade.tokenId);
+      if (!price) continue;
+
+      const exitReason = this.getExitReason(trade, price, now, exitSignals.get(trade.tokenId));
+      const updated = await this.markTrade(trade, price, now, exitReason);
+      marked++;
+
+      if (exitReason) {
+        closed++;
+        this.emit('position:closed', this.toPosition(updated));
+      }
+    }
+
+    const book = await this.getBookState();
+    const opened = await this.openPositions(await this.findEntryCandidates(now), book, now);
+
+    const portfolio = await this.getPortfolio();
+    const cycle: PaperTradingCycle = { markedAt: now.toISOString(), marked, opened, closed, portfolio };
+
+    this.emit('cycle:complete', cycle);
+    this.logger.info('Paper trading cycle completed', { marked, opened, closed, equity: portfolio.equity });
+
+    return cycle;
+  }
+
+  async listPositions(query: PaperPositionsQuery): Promise<{ positions: PaperPosition[]; total: number }> {
+    const where: Prisma.TradeWhereInput = {
+      ...(query.status && query.status !== 'all' && { status: query.status }),
+      ...(query.strategy && { strategyUsed: query.strategy })
+    };
+
+    const [trades, total] = await Promise.all([
+      this.prisma.trade.findMany({
+        where,
+        include: { token: { select: { address: true, symbol: true } } },
+        orderBy: { createdAt: 'desc' },
+        skip: (query.page - 1) * query.limit,
+        take: query.limit
+      }),
+      this.prisma.trade.count({ where })
+    ]);
+
+    return { positions: trades.map(trade => this.toPosition(trade)), total };
+  }
+
+  async getPortfolio(): Promise<PaperPortfolio> {
+    const [closedTotals, openTotals] = await Promise.all([
+      this.prisma.trade.aggregate({ where: { status: 'closed' }, _sum: { pnl: true } }),
+      this.prisma.trade.aggregate({ where: { status: 'open' }, _sum: { pnl: true, totalValue: true }, _count: true })
+    ]);
+
+    const realizedPnl = closedTotals._sum.pnl ?? 0;
+    const unrealizedPnl = openTotals._sum.pnl ?? 0;
+    const exposureUsd = openTotals._sum.totalValue ?? 0;
+
+    return {
+      bankroll: this.config.bankroll,
+      equity: round(this.config.bankroll + realizedPnl + unrealizedPnl),
+      cash: round(this.config.bankroll + realizedPnl - exposureUsd),
+      realizedPnl: round(realizedPnl),
+      unrealizedPnl: round(unrealizedPnl),
+      openPositions: openTotals._count,
+      exposureUsd: round(exposureUsd)
+    };
+  }
+
+  async getStrategyPerformance(): Promise<StrategyPerformance[]> {
+    const trades = await this.prisma.trade.findMany({
+      select: { strategyUsed: true, status: true, pnl: true, pnlPercentage: true }
+    });
+
+    const byStrategy = new Map<string, typeof trades>();
+    for (const trade of trades) {
+      const strategy = trade.strategyUsed ?? 'manual';
+      byStrategy.set(strategy, [...(byStrategy.get(strategy) ?? []), trade]);
+    }
+
+    return [...byStrategy.entries()].map(([strategy, rows]) => {
+      const closedRows = rows.filter(row => row.status === 'closed');
+      const returns = closedRows.map(row => row.pnlPercentage ?? 0);
+      const wins = closedRows.filter(row => (row.pnl ?? 0) > 0).length;
+
+      return {
+        strategy,
+        trades: rows.length,
+        openPositions: rows.length - closedRows.length,
+        closedPositions: closedRows.length,
+        wins,
+        losses: closedRows.length - wins,
+        winRate: closedRows.length > 0 ? round((wins / closedRows.length) * 100) : 0,
+        realizedPnl: round(closedRows.reduce((sum, row) => sum + (row.pnl ?? 0), 0)),
+        unrealizedPnl: round(rows.filter(row => row.status === 'open').reduce((sum, row) => sum + (row.pnl ?? 0), 0)),
+        avgReturnPercent: returns.length > 0 ? round(returns.reduce((sum, value) => sum + value, 0) / returns.length) : 0,
+        bestReturnPercent: returns.length > 0 ? round(Math.max(...returns)) : 0,
+        worstReturnPercent: returns.length > 0 ? round(Math.min(...returns)) : 0
+      };
+    }).sort((a, b) => b.realizedPnl - a.realizedPnl);
+  }
+
+  /**
+   * Size a new position from the configured bankroll rule, capped by the
+   * position limits and the cash left in the book
+   */
+  calculatePositionSize(equity: number, cash: number, strength: number): number {
+    const { sizing } = this.config;
+    let size: number;
+
+    switch (sizing.type) {
+      case 'fixed':
+        size = sizing.amountUsd;
+        break;
+      case 'percent_of_equity':
+        size = equity * sizing.percent / 100;
+        break;
+      case 'signal_strength':
+        size = equity * sizing.maxPercent / 100 * Math.min(Math.max(strength, 0), 1);
+        break;
+    }
+
+    size = Math.min(size, this.config.maxPositionUsd, cash);
+    return size >= this.config.minPositionUsd ? round(size) : 0;
+  }
+
+  private async getLatestPrices(tokenIds: string[]): Promise<Map<string, number>> {
+    const prices = new Map<string, number>();
+    if (tokenIds.length === 0) return prices;
+
+    const tokens = await this.prisma.token.findMany({
+      where: { id: { in: [...new Set(tokenIds)] } },
+      select: {
+        id: true,
+        price: true,
+        priceData: { orderBy: { timestamp: 'desc' }, take: 1, select: { price: true } }
+      }
+    });
+
+    for (const token of tokens) {
+      const price = token.priceData[0]?.price ?? token.price;
+      if (price && price > 0) {
+        prices.set(token.id, price);
+      }
+    }
+
+    return prices;
+  }
+
+  // Latest sell signal per token, for tokens with open positions
+  private async getExitSignals(openTrades: Trade[]): Promise<Map<string, Date>> {
+    const exits = new Map<string, Date>();
+    if (openTrades.length === 0 || this.config.exitSignalTypes.length === 0) return exits;
+
+    const signals = await this.prisma.tradingSignal.findMany({
+      where: {
+        tokenId: { in: [...new Set(openTrades.map(trade => trade.tokenId))] },
+        type: { in: this.config.exitSignalTypes },
+        strength: { gte: this.config.minSignalStrength },
+        timestamp: { gte: new Date(Math.min(...openTrades.map(trade => trade.createdAt.getTime()))) }
+      },
+      select: { tokenId: true, timestamp: true }
+    });
+
+    for (const signal of signals) {
+      const current = exits.get(signal.tokenId);
+      if (!current || signal.timestamp > current) {
+        exits.set(signal.tokenId, signal.timestamp);
+      }
+    }
+
+    return exits;
+  }
+
+  private getExitReason(trade: Trade, price: number, now: Date, lastExitSignal?: Date): PaperExitReason | null {
+    const returnPercent = (price / trade.price - 1) * 100;
+
+    if (returnPercent >= this.config.takeProfitPercent) return 'take_profit';
+    if (returnPercent <= -this.config.stopLossPercent) return 'stop_loss';
+    if (lastExitSignal && lastExitSignal > trade.createdAt) return 'sell_signal';
+    if (now.getTime() - trade.createdAt.getTime() >= this.config.maxHoldHours * HOUR_MS) return 'max_hold';
+
+    return null;
+  }
+
+  private async markTrade(
+    trade: TradeWithToken,
+    price: number,
+    now: Date,
+    exitReason: PaperExitReason | null
+  ): Promise<TradeWithToken> {
+    const pnl = trade.amount * price - trade.totalValue;
+
+    return this.prisma.trade.update({
+      where: { id: trade.id },
+      data: {
+        markPrice: price,
+        markedAt: now,
+        pnl: round(pnl),
+        pnlPercentage: round((pnl / trade.totalValue) * 100),
+        ...(exitReason && { status: 'closed', exitPrice: price, exitReason, closedAt: now })
+      },
+      include: { token: { select: { address: true, symbol: true } } }
+    });
+  }
+
+  private async getBookState(): Promise<BookState> {
+    const [closedTotals, openTrades] = await Promise.all([
+      this.prisma.trade.aggregate({ where: { status: 'closed' }, _sum: { pnl: true } }),
+      this.prisma.trade.findMany({
+        where: { status: 'open' },
+        select: { tokenId: true, strategyUsed: true, totalValue: true }
+      })
+    ]);
+
+    return {
+      realizedPnl: closedTotals._sum.pnl ?? 0,
+      exposureUsd: openTrades.reduce((sum, trade) => sum + trade.totalValue, 0),
+      openPositions: openTrades.length,
+      openKeys: new Set(openTrades.map(trade => `${trade.strategyUsed}:${trade.tokenId}`))
+    };
+  }
+
+  /**
+   * Unconsumed BUY signals first, strongest first, then filter matches
+   */
+  private async findEntryCandidates(now: Date): Promise<EntryCandidate[]> {
+    const candidates: EntryCandidate[] = [];
+
+    const signals = await this.prisma.tradingSignal.findMany({
+      where: {
+        type: { in: this.config.entrySignalTypes },
+        strength: { gte: this.config.minSignalStrength },
+        timestamp: { gte: new Date(now.getTime() - this.config.signalMaxAgeMs), lte: now }
+      },
+      orderBy: [{ strength: 'desc' }, { timestamp: 'asc' }],
+      select: { id: true, tokenId: true, type: true, strength: true }
+    });
+
+    const consumed = signals.length > 0
+      ? new Set((await this.prisma.trade.findMany({
+        where: { signalId: { in: signals.map(signal => signal.id) } },
+        select: { signalId: true }
+      })).map(trade => trade.signalId))
+      : new Set<string | null>();
+
+    for (const signal of signals) {
+      if (consumed.has(signal.id)) continue;
+      candidates.push({ tokenId: signal.tokenId, strategy: `signal:${signal.type}`, strength: signal.strength, signalId: signal.id });
+    }
+
+    if (this.config.filterIds.length === 0) {
+      return candidates;
+    }
+
+    const filters = await this.prisma.filter.findMany({
+      where: { id: { in: this.config.filterIds }, isActive: true }
+    });
+
+    for (const filter of filters) {
+      try {
+        const strategy = `filter:${filter.id}`;
+
+        // A filter keeps matching the same tokens, so each is bought once; traded
+        // tokens are excluded before the limit so they cannot crowd out new matches
+        const tokenIds = await this.filterQuery.findTokenIds(
+          toFilterGroup(filter.criteria as unknown as FilterDefinition),
+          { limit: this.config.maxFilterMatches, where: { trades: { none: { strategyUsed: strategy } } } }
+        );
+
+        for (const tokenId of tokenIds) {
+          candidates.push({ tokenId, strategy, strength: 1 });
+        }
+      } catch (error) {
+        this.logger.warn('Paper trading filter failed', {
+          filterId: filter.id,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    return candidates;
+  }
+
+  private async openPositions(candidates: EntryCandidate[], book: BookState, now: Date): Promise<number> {
+    if (candidates.length === 0) return 0;
+
+    const prices = await this.getLatestPrices(candidates.map(candidate => candidate.tokenId));
+    let opened = 0;
+
+    for (const candidate of candidates) {
+      if (book.openPositions >= this.config.maxOpenPositions) break;
+
+      const key = `${candidate.strategy}:${candidate.tokenId}`;
+      const price = prices.get(candidate.tokenId);
+      if (!price || book.openKeys.has(key)) continue;
+
+      const equity = this.config.bankroll + book.realizedPnl;
+      const size = this.calculatePositionSize(equity, equity - book.exposureUsd, candidate.strength);
+      if (size === 0) continue;
+
+      const trade = await this.prisma.trade.create({
+        data: {
+          tokenId: candidate.tokenId,
+          action: 'BUY',
+          amount: size / price,
+          price,
+          totalValue: size,
+          status: 'open',
+          executedAt: now,
+          entryPrice: price,
+          markPrice: price,
+          markedAt: now,
+          pnl: 0,
+          pnlPercentage: 0,
+          strategyUsed: candidate.strategy,
+          signalId: candidate.signalId,
+          notes: 'paper'
+        },
+        include: { token: { select: { address: true, symbol: true } } }
+      });
+
+      book.openKeys.add(key);
+      book.openPositions++;
+      book.exposureUsd += size;
+      opened++;
+
+      this.emit('position:opened', this.toPosition(trade));
+    }
+
+    return opened;
+  }
+
+  private toPosition(trade: TradeWithToken): PaperPosition {
+    return {
+      id: trade.id,
+      tokenId: trade.tokenId,
+      address: trade.token.address,
+      symbol: trade.token.symbol,
+      strategy: trade.strategyUsed,
+      status: trade.status as PaperTradeStatus,
+      signalId: trade.signalId,
+      amount: trade.amount,
+      sizeUsd: trade.totalValue,
+      entryPrice: trade.entryPrice ?? trade.price,
+      markPrice: trade.markPrice,
+      exitPrice: trade.exitPrice,
+      pnl: trade.pnl ?? 0,
+      pnlPercentage: trade.pnlPercentage ?? 0,
+      exitReason: trade.exitReason as PaperExitReason | null,
+      openedAt: trade.createdAt.toISOString(),
+      markedAt: trade.markedAt?.toISOString() ?? null,
+      closedAt: trade.closedAt?.toISOString() ?? null
+    };
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,529 @@
+/**
+ * Pipeline Job Service
+ * Durable work queue for token analyses, backed by the pipeline_jobs table
+ *
+ * Every token the aggregator or a user wants analysed becomes a job, and a
+ * token has at most one live job: enqueueing it again returns that job,
+ * raising its priority when a manual request joins a scheduled one. Jobs are
+ * claimed with a conditional update, highest priority first:
+ * pending → processing → completed | dead
+ *
+ * A job runs the pipeline one stage at a time and stores each stage's output
+ * as a checkpoint. A job interrupted by a shutdown is put back to pending; a
+ * job whose process died is picked up again once its heartbeat is stale.
+ * Either way it resumes after the last finished stage. A stage that fails with
+ * an API error is retried with exponential backoff, and after maxAttempts the
+ * job is dead-lettered with the failure. A token filtered out by a stage
+ * completes normally.
+ */
+
+import { EventEmitter } from 'events';
+import { PipelineJob, Prisma, PrismaClient } from '@prisma/client';
+import { CombinedTokenAnalysis, TokenFilterCriteria } from '../types/api.types';
+import { Logger } from '../utils/logger';
+import { canonicalizeAddress } from '../utils/address';
+import {
+  PIPELINE_STAGES,
+  PipelineStage,
+  PipelineStageData,
+  PipelineStageResult,
+  TokenPipelineService
+} from './token-pipeline.service';
+
+export type PipelineJobLane = 'manual' | 'scheduled';
+
+export type PipelineJobStatus = 'pending' | 'processing' | 'completed' | 'dead';
+
+// Manual requests are claimed before anything the scheduler queued
+export const LANE_PRIORITY: Record<PipelineJobLane, number> = {
+  manual: 100,
+  scheduled: 0
+};
+
+export interface PipelineJobServiceConfig {
+  maxConcurrentJobs: number;
+  pollIntervalMs: number;
+  staleAfterMs: number; // a processing job without a heartbeat for this long is considered orphaned
+  stageTimeoutMs: number;
+  maxAttempts: number; // per stage
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+}
+
+export const DEFAULT_PIPELINE_JOB_CONFIG: PipelineJobServiceConfig = {
+  maxConcurrentJobs: 5,
+  pollIntervalMs: 2000,
+  staleAfterMs: 5 * 60 * 1000,
+  stageTimeoutMs: 60000,
+  maxAttempts: 5,
+  retryBaseDelayMs: 5000,
+  retryMaxDelayMs: 5 * 60 * 1000
+};
+
+export interface EnqueueOptions {
+  lane: PipelineJobLane;
+  filters?: TokenFilterCriteria; // defaults to the runner's filters
+  requestedBy?: string;
+}
+
+// Summary of the finished analysis, kept on the job
+export interface PipelineJobResult {
+  passed: boolean;
+  overallScore: number;
+  failedFilters: string[];
+}
+
+export interface PipelineJobRunner {
+  pipeline: Pick<TokenPipelineService, 'runStage' | 'completeAnalysis' | 'failAnalysis'>;
+  filters: TokenFilterCriteria;
+  // Awaited before the job is marked completed, so a crash in between repeats it instead of losing the analysis
+  onAnalysis(analysis: CombinedTokenAnalysis, job: PipelineJob): Promise<void>;
+}
+
+export interface PipelineJobsQuery {
+  page: number;
+  limit: number;
+  status: PipelineJobStatus | 'all';
+}
+
+export type PipelineQueueStats = Record<PipelineJobStatus, number>;
+
+// Job as returned by the API, without stage outputs
+export type PublicPipelineJob = Omit<PipelineJob, 'checkpoint' | 'activeKey'>;
+
+export function toPublicJob(job: PipelineJob): PublicPipelineJob {
+  const publicJob: Partial<PipelineJob> = { ...job };
+  delete publicJob.checkpoint;
+  delete publicJob.activeKey;
+  return publicJob as PublicPipelineJob;
+}
+
+/**
+ * Backoff before the next attempt, doubling from retryBaseDelayMs
+ */
+export function retryDelayMs(attempts: number, config: PipelineJobServiceConfig): number {
+  return Math.min(config.retryBaseDelayMs * 2 ** Math.max(0, attempts - 1), config.retryMaxDelayMs);
+}
+
+export class PipelineJobService extends EventEmitter {
+  private readonly logger = Logger.getInstance();
+  private readonly running = new Map<string, Promise<void>>();
+  private runner: PipelineJobRunner | null = null;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private isScheduling = false;
+  private stopping = false;
+
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly config: PipelineJobServiceConfig = DEFAULT_PIPELINE_JOB_CONFIG
+  ) {
+    super();
+  }
+
+  /**
+   * Start running jobs in this process: resume interrupted ones, then keep
+   * polling. Processes that only enqueue never call this.
+   */
+  async start(runner: PipelineJobRunner): Promise<void> {
+    if (this.pollTimer) {
+      return;
+    }
+
+    this.runner = runner;
+    this.stopping = false;
+
+    this.pollTimer = setInterval(() => {
+      void this.processPendingJobs();
+    }, this.config.pollIntervalMs);
+
+    this.logger.info('Pipeline job runner started', { maxConcurrentJobs: this.config.maxConcurrentJobs });
+
+    await this.processPendingJobs();
+  }
+
+  /**
+   * Stop picking up work; running jobs stop after their current stage and are
+   * put back to pending so the next start resumes them from the checkpoint
+   */
+  async stop(): Promise<void> {
+    this.stopping = true;
+
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+
+    const interruptedJobs = this.running.size;
+    await Promise.all(this.running.values());
+
+    this.logger.info('Pipeline job runner stopped', { interruptedJobs });
+  }
+
+  /**
+   * Queue tokens for analysis. Tokens that already have a live job return
+   * that job; invalid mints are skipped.
+   */
+  async enqueue(tokenAddresses: string[], options: EnqueueOptions): Promise<PipelineJob[]> {
+    const jobs: PipelineJob[] = [];
+
+    for (const rawAddress of tokenAddresses) {
+      const address = canonicalizeAddress(rawAddress, 'solana');
+      if (!address) {
+        this.logger.warn(`Skipping invalid Solana mint: ${rawAddress}`);
+        continue;
+      }
+
+      jobs.push(await this.enqueueToken(address, options));
+    }
+
+    if (jobs.length > 0) {
+      void this.processPendingJobs();
+    }
+
+    return jobs;
+  }
+
+  async getJob(jobId: string): Promise<PipelineJob | null> {
+    return this.prisma.pipelineJob.findUnique({ where: { id: jobId } });
+  }
+
+  async listJobs(query: PipelineJobsQuery): Promise<{ jobs: PipelineJob[]; total: number }> {
+    const where: Prisma.PipelineJobWhereInput = query.status !== 'all' ? { status: query.status } : {};
+
+    const [jobs, total] = await Promise.all([
+      this.prisma.pipelineJob.findMany({
+        where,
+        orderBy: { updatedAt: 'desc' },
+        skip: (query.page - 1) * query.limit,
+        take: query.limit
+      }),
+      this.prisma.pipelineJob.count({ where })
+    ]);
+
+    return { jobs, total };
+  }
+
+  /**
+   * Put a dead-lettered job back in the queue at the stage it failed. Returns
+   * the token's live job if it was queued again in the meantime, or null when
+   * the job is not dead.
+   */
+  async retryJob(jobId: string): Promise<PipelineJob | null> {
+    const job = await this.prisma.pipelineJob.findUnique({ where: { id: jobId } });
+    if (!job || job.status !== 'dead') {
+      return null;
+    }
+
+    try {
+      const requeued = await this.prisma.pipelineJob.updateMany({
+        where: { id: jobId, status: 'dead' },
+        data: {
+          status: 'pending',
+          activeKey: job.tokenAddress,
+          attempts: 0,
+          runAfter: new Date(),
+          completedAt: null
+        }
+      });
+
+      if (requeued.count === 0) {
+        return null;
+      }
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return this.prisma.pipelineJob.findUnique({ where: { activeKey: job.tokenAddress } });
+      }
+      throw error;
+    }
+
+    this.logger.info('Dead-lettered pipeline job requeued', { jobId, tokenAddress: job.tokenAddress, stage: job.stage });
+    void this.processPendingJobs();
+
+    return this.getJob(jobId);
+  }
+
+  async getStats(): Promise<PipelineQueueStats> {
+    const statuses: PipelineJobStatus[] = ['pending', 'processing', 'completed', 'dead'];
+    const counts = await Promise.all(statuses.map(status => this.prisma.pipelineJob.count({ where: { status } })));
+
+    return Object.fromEntries(statuses.map((status, i) => [status, counts[i]])) as PipelineQueueStats;
+  }
+
+  /**
+   * Tokens whose analysis completed since `since`, to rebuild the processed set after a restart
+   */
+  async getCompletedTokens(since: Date): Promise<string[]> {
+    const jobs = await this.prisma.pipelineJob.findMany({
+      where: { status: 'completed', completedAt: { gte: since } },
+      select: { tokenAddress: true },
+      distinct: ['tokenAddress']
+    });
+
+    return jobs.map(job => job.tokenAddress);
+  }
+
+  /**
+   * Wait until the jobs have completed or been dead-lettered, or the timeout
+   * passes. Returns the finished jobs; the rest keep running in the background.
+   */
+  async waitForJobs(jobIds: string[], timeoutMs: number): Promise<PipelineJob[]> {
+    const deadline = Date.now() + timeoutMs;
+
+    for (;;) {
+      const jobs = await this.prisma.pipelineJob.findMany({ where: { id: { in: jobIds } } });
+      const finished = jobs.filter(job => job.status === 'completed' || job.status === 'dead');
+
+      if (finished.length === jobs.length || Date.now() >= deadline) {
+        return finished;
+      }
+
+      await new Promise(resolve => setTimeout(resolve, this.config.pollIntervalMs));
+    }
+  }
+
+  /**
+   * Claim and run pending jobs, plus processing jobs whose runner has died,
+   * until the concurrency limit is reached
+   */
+  async processPendingJobs(): Promise<void> {
+    if (!this.runner || !this.pollTimer || this.isScheduling || this.stopping) {
+      return;
+    }
+
+    this.isScheduling = true;
+
+    try {
+      while (this.running.size < this.config.maxConcurrentJobs && !this.stopping) {
+        const now = new Date();
+        const job = await this.prisma.pipelineJob.findFirst({
+          where: {
+            id: { notIn: Array.from(this.running.keys()) },
+            OR: [
+              { status: 'pending', runAfter: { lte: now } },
+              { status: 'processing', updatedAt: { lt: new Date(now.getTime() - this.config.staleAfterMs) } }
+            ]
+          },
+          orderBy: [{ priority: 'desc' }, { runAfter: 'asc' }]
+        });
+
+        if (!job) {
+          break;
+        }
+
+        // Conditional claim - another instance may have taken the job since we read it
+        const claimed = await this.prisma.pipelineJob.updateMany({
+          where: { id: job.id, status: job.status, updatedAt: job.updatedAt },
+          data: { status: 'processing', startedAt: job.startedAt ?? now }
+        });
+
+        if (claimed.count === 0) {
+          continue;
+        }
+
+        if (job.status === 'processing') {
+          this.logger.warn('Recovering orphaned pipeline job', { jobId: job.id, tokenAddress: job.tokenAddress, stage: job.stage });
+        }
+
+        const run = this.runJob({ ...job, status: 'processing' }, this.runner)
+          .finally(() => {
+            this.running.delete(job.id);
+            void this.processPendingJobs();
+          });
+        this.running.set(job.id, run);
+      }
+    } catch (error) {
+      this.logger.error('Error scheduling pipeline jobs:', { error: error instanceof Error ? error.message : String(error) });
+    } finally {
+      this.isScheduling = false;
+    }
+  }
+
+  private async enqueueToken(address: string, options: EnqueueOptions): Promise<PipelineJob> {
+    const priority = LANE_PRIORITY[options.lane];
+
+    const existing = await this.prisma.pipelineJob.findUnique({ where: { activeKey: address } });
+    if (existing) {
+      if (existing.priority >= priority) {
+        return existing;
+      }
+
+      return this.prisma.pipelineJob.update({
+        where: { id: existing.id },
+        data: { lane: options.lane, priority, requestedBy: options.requestedBy ?? existing.requestedBy }
+      });
+    }
+
+    try {
+      const job = await this.prisma.pipelineJob.create({
+        data: {
+          tokenAddress: address,
+          activeKey: address,
+          lane: options.lane,
+          priority,
+          maxAttempts: this.config.maxAttempts,
+          requestedBy: options.requestedBy,
+          ...(options.filters && { filters: options.filters as unknown as Prisma.InputJsonValue })
+        }
+      });
+
+      this.logger.debug('Pipeline job queued', { jobId: job.id, tokenAddress: address, lane: options.lane });
+      return job;
+    } catch (error) {
+      // Queued by another process between the lookup and the insert
+      if (isUniqueViolation(error)) {
+        const job = await this.prisma.pipelineJob.findUnique({ where: { activeKey: address } });
+        if (job) {
+          return job;
+        }
+      }
+      throw error;
+    }
+  }
+
+  private async runJob(job: PipelineJob, runner: PipelineJobRunner): Promise<void> {
+    const filters = (job.filters as TokenFilterCriteria | null) ?? runner.filters;
+    const stages = (job.checkpoint ?? {}) as Partial<PipelineStageData>;
+    let attempts = job.attempts;
+    let stage = job.stage as PipelineStage;
+
+    try {
+      for (const next of PIPELINE_STAGES) {
+        // Finished before a restart
+        if (stages[next]) {
+          continue;
+        }
+
+        stage = next;
+        const result = await this.runStageWithTimeout(runner, stage, job.tokenAddress, filters);
+
+        if (!result.success && result.error) {
+          await this.failStage(job, stage, attempts + 1, result.error);
+          return;
+        }
+
+        if (!result.success || result.filtered) {
+          await this.finishJob(job, runner, runner.pipeline.failAnalysis(job.tokenAddress, stage, result.filterReason || result.error));
+          return;
+        }
+
+        Object.assign(stages, { [stage]: result.data });
+        attempts = 0;
+
+        const saved = await this.prisma.pipelineJob.updateMany({
+          where: { id: job.id, status: 'processing' },
+          data: { stage, attempts, checkpoint: stages as unknown as Prisma.InputJsonValue }
+        });
+
+        if (saved.count === 0) {
+          this.logger.info('Pipeline job taken over while running, stopping', { jobId: job.id, stage });
+          return;
+        }
+
+        if (this.stopping) {
+          await this.prisma.pipelineJob.updateMany({
+            where: { id: job.id, status: 'processing' },
+            data: { status: 'pending' }
+          });
+          this.logger.info('Pipeline job interrupted by shutdown', { jobId: job.id, stage });
+          return;
+        }
+      }
+
+      await this.finishJob(job, runner, runner.pipeline.completeAnalysis(job.tokenAddress, stages as PipelineStageData));
+
+    } catch (error) {
+      // Database or storage failure - retried like a failed stage
+      await this.failStage(job, stage, attempts + 1, error instanceof Error ? error.message : String(error))
+        .catch(() => undefined);
+    }
+  }
+
+  private async runStageWithTimeout(
+    runner: PipelineJobRunner,
+    stage: PipelineStage,
+    tokenAddress: string,
+    filters: TokenFilterCriteria
+  ): Promise<PipelineStageResult<unknown>> {
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      return await Promise.race([
+        runner.pipeline.runStage(stage, tokenAddress, filters),
+        new Promise<PipelineStageResult<unknown>>(resolve => {
+          timer = setTimeout(() => resolve({
+            success: false,
+            filtered: true,
+            processingTime: this.config.stageTimeoutMs,
+            error: `Stage timed out after ${this.config.stageTimeoutMs}ms`
+          }), this.config.stageTimeoutMs);
+        })
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async finishJob(job: PipelineJob, runner: PipelineJobRunner, analysis: CombinedTokenAnalysis): Promise<void> {
+    await runner.onAnalysis(analysis, job);
+
+    const result: PipelineJobResult = {
+      passed: analysis.passed,
+      overallScore: analysis.overallScore,
+      failedFilters: analysis.failedFilters
+    };
+
+    const completed = await this.prisma.pipelineJob.updateMany({
+      where: { id: job.id, status: 'processing' },
+      data: {
+        status: 'completed',
+        activeKey: null,
+        result: result as unknown as Prisma.InputJsonValue,
+        checkpoint: Prisma.DbNull,
+        error: null,
+        failedStage: null,
+        completedAt: new Date()
+      }
+    });
+
+    if (completed.count === 0) {
+      return;
+    }
+
+    this.emit('job:completed', { jobId: job.id, tokenAddress: job.tokenAddress, lane: job.lane, ...result });
+    this.logger.info('Pipeline job completed', { jobId: job.id, tokenAddress: job.tokenAddress, passed: result.passed });
+  }
+
+  private async failStage(job: PipelineJob, stage: PipelineStage, attempts: number, error: string): Promise<void> {
+    if (attempts >= job.maxAttempts) {
+      const dead = await this.prisma.pipelineJob.updateMany({
+        where: { id: job.id, status: 'processing' },
+        data: { status: 'dead', activeKey: null, stage, attempts, error, failedStage: stage, completedAt: new Date() }
+      });
+
+      if (dead.count > 0) {
+        this.emit('job:dead', { jobId: job.id, tokenAddress: job.tokenAddress, stage, error });
+        this.logger.warn('Pipeline job dead-lettered', { jobId: job.id, tokenAddress: job.tokenAddress, stage, attempts, error });
+      }
+      return;
+    }
+
+    const delay = retryDelayMs(attempts, this.config);
+    await this.prisma.pipelineJob.updateMany({
+      where: { id: job.id, status: 'processing' },
+      data: {
+        status: 'pending',
+        stage,
+        attempts,
+        error,
+        failedStage: stage,
+        runAfter: new Date(Date.now() + delay)
+      }
+    });
+
+    this.logger.info('Pipeline stage failed, retrying', { jobId: job.id, tokenAddress: job.tokenAddress, stage, attempts, delayMs: delay, error });
+  }
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
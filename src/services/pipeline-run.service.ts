@@ -0,0 +1,242 @@
+/**
+ * Pipeline Run Service
+ * Persists aggregation runs to the pipeline_runs table
+ *
+ * Every run is stored with its phase timings, counts, errors and rejection
+ * counts per filter reason, plus one row per token it looked at with what it
+ * decided, so you can check later why a token was or was not surfaced.
+ *
+ * Manual runs requested through the API are stored as queued; the aggregator
+ * process claims them with a conditional update and runs them, the same way
+ * pipeline jobs are claimed.
+ */
+
+import { PipelineRun, PipelineRunToken, Prisma, PrismaClient } from '@prisma/client';
+import { Logger } from '../utils/logger';
+
+export type AggregationRunTrigger = 'scheduled' | 'manual';
+
+export type AggregationRunStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export type AggregationRunStage = 'healthCheck' | 'discovery' | 'processing' | 'storage';
+
+// skipped: already processed or blacklisted; pending: its queued job was still running when the run ended
+export type RunTokenOutcome = 'passed' | 'rejected' | 'failed' | 'pending' | 'skipped';
+
+export interface AggregationRunToken {
+  address: string;
+  outcome: RunTokenOutcome;
+  reason?: string;
+  overallScore?: number;
+  failedFilters: string[];
+}
+
+export interface AggregationRun {
+  id: string;
+  trigger: AggregationRunTrigger;
+  startTime: Date;
+  endTime?: Date;
+  tokensDiscovered: number;
+  tokensSkipped: number;
+  tokensProcessed: number;
+  tokensPassed: number;
+  tokensFailed: number;
+  stageTimings: Partial<Record<AggregationRunStage, number>>; // milliseconds
+  rejections: Record<string, number>;
+  tokens: AggregationRunToken[];
+  errors: string[];
+  status: 'running' | 'completed' | 'failed';
+}
+
+export interface PipelineRunsQuery {
+  page: number;
+  limit: number;
+  status: AggregationRunStatus | 'all';
+  trigger?: AggregationRunTrigger;
+  token?: string; // only runs that looked at this token, with its outcome
+}
+
+export type PipelineRunWithTokens = PipelineRun & { tokens: PipelineRunToken[] };
+
+// A run left running this long was interrupted by a restart
+const INTERRUPTED_RUN_AFTER_MS = 30 * 60 * 1000;
+
+/**
+ * Group key of a failed filter: its category and reason without the measured
+ * values, e.g. "DEX: Insufficient liquidity: $3200 < $5000" → "DEX: Insufficient liquidity"
+ */
+export function rejectionReason(failedFilter: string): string {
+  return failedFilter.split(': ').slice(0, 2).join(': ');
+}
+
+export function countRejections(tokens: AggregationRunToken[]): Record<string, number> {
+  const rejections: Record<string, number> = {};
+
+  for (const token of tokens) {
+    if (token.outcome !== 'rejected') {
+      continue;
+    }
+
+    for (const failedFilter of token.failedFilters) {
+      const reason = rejectionReason(failedFilter);
+      rejections[reason] = (rejections[reason] ?? 0) + 1;
+    }
+  }
+
+  return rejections;
+}
+
+export class PipelineRunService {
+  private readonly logger = Logger.getInstance();
+
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /**
+   * Record the start of a run so it shows up as running; returns its id
+   */
+  async startRun(trigger: AggregationRunTrigger): Promise<string> {
+    const run = await this.prisma.pipelineRun.create({
+      data: { trigger, status: 'running', startedAt: new Date() }
+    });
+
+    return run.id;
+  }
+
+  /**
+   * Queue a manual run for the aggregator. A manual run that is still queued
+   * is returned instead of queueing another.
+   */
+  async requestRun(requestedBy?: string): Promise<{ run: PipelineRun; created: boolean }> {
+    const queued = await this.prisma.pipelineRun.findFirst({
+      where: { status: 'queued' },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    if (queued) {
+      return { run: queued, created: false };
+    }
+
+    const run = await this.prisma.pipelineRun.create({
+      data: { trigger: 'manual', status: 'queued', requestedBy }
+    });
+
+    this.logger.info('Manual aggregation run requested', { runId: run.id, requestedBy });
+    return { run, created: true };
+  }
+
+  /**
+   * Claim the oldest queued manual run; null when there is none or another
+   * process claimed it first
+   */
+  async claimRequestedRun(): Promise<PipelineRun | null> {
+    const queued = await this.prisma.pipelineRun.findFirst({
+      where: { status: 'queued' },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    if (!queued) {
+      return null;
+    }
+
+    const startedAt = new Date();
+    const claimed = await this.prisma.pipelineRun.updateMany({
+      where: { id: queued.id, status: 'queued' },
+      data: { status: 'running', startedAt }
+    });
+
+    return claimed.count > 0 ? { ...queued, status: 'running', startedAt } : null;
+  }
+
+  /**
+   * Mark runs a previous process left running as failed
+   */
+  async failInterruptedRuns(): Promise<number> {
+    const interrupted = await this.prisma.pipelineRun.updateMany({
+      where: { status: 'running', updatedAt: { lt: new Date(Date.now() - INTERRUPTED_RUN_AFTER_MS) } },
+      data: { status: 'failed', errors: { set: ['Interrupted before the run finished'] }, completedAt: new Date() }
+    });
+
+    if (interrupted.count > 0) {
+      this.logger.warn('Marked interrupted aggregation runs as failed', { count: interrupted.count });
+    }
+
+    return interrupted.count;
+  }
+
+  /**
+   * Store the outcome of a finished run, replacing its token rows
+   */
+  async saveRun(run: AggregationRun): Promise<void> {
+    await this.prisma.$transaction(async (tx) => {
+      await tx.pipelineRun.update({
+        where: { id: run.id },
+        data: {
+          status: run.status,
+          tokensDiscovered: run.tokensDiscovered,
+          tokensSkipped: run.tokensSkipped,
+          tokensProcessed: run.tokensProcessed,
+          tokensPassed: run.tokensPassed,
+          tokensFailed: run.tokensFailed,
+          stageTimings: run.stageTimings as Prisma.InputJsonValue,
+          rejections: run.rejections as Prisma.InputJsonValue,
+          errors: run.errors,
+          startedAt: run.startTime,
+          completedAt: run.endTime,
+          duration: run.endTime ? run.endTime.getTime() - run.startTime.getTime() : null
+        }
+      });
+
+      await tx.pipelineRunToken.deleteMany({ where: { runId: run.id } });
+
+      if (run.tokens.length > 0) {
+        await tx.pipelineRunToken.createMany({
+          data: run.tokens.map(token => ({
+            runId: run.id,
+            tokenAddress: token.address,
+            outcome: token.outcome,
+            reason: token.reason,
+            overallScore: token.overallScore,
+            failedFilters: token.failedFilters
+          })),
+          skipDuplicates: true
+        });
+      }
+    });
+  }
+
+  async listRuns(query: PipelineRunsQuery): Promise<{ runs: PipelineRun[]; total: number }> {
+    const where: Prisma.PipelineRunWhereInput = {
+      ...(query.status !== 'all' && { status: query.status }),
+      ...(query.trigger && { trigger: query.trigger }),
+      ...(query.token && { tokens: { some: { tokenAddress: query.token } } })
+    };
+
+    const [runs, total] = await Promise.all([
+      this.prisma.pipelineRun.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (query.page - 1) * query.limit,
+        take: query.limit,
+        ...(query.token && { include: { tokens: { where: { tokenAddress: query.token } } } })
+      }),
+      this.prisma.pipelineRun.count({ where })
+    ]);
+
+    return { runs, total };
+  }
+
+  /**
+   * A run with its tokens, optionally only those with one outcome
+   */
+  async getRun(runId: string, outcome?: RunTokenOutcome): Promise<PipelineRunWithTokens | null> {
+    return this.prisma.pipelineRun.findUnique({
+      where: { id: runId },
+      include: {
+        tokens: {
+          where: outcome ? { outcome } : {},
+          orderBy: [{ outcome: 'asc' }, { overallScore: 'desc' }]
+        }
+      }
+    });
+  }
+}
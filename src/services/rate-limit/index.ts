@@ -0,0 +1,41 @@
+/**
+ * Rate Limiting
+ * Selected with RATE_LIMIT_STORE: 'memory' (default, one process) or 'redis' (shared)
+ */
+
+import Redis from 'ioredis';
+import { MemoryRateLimitStore } from './memory.store';
+import { RedisRateLimitStore } from './redis.store';
+import { RateLimitStore } from './types';
+
+export * from './types';
+export { RateLimitService, DEFAULT_RATE_LIMIT_POLICY, type RateLimitRequest } from './rate-limit.service';
+export { MemoryRateLimitStore } from './memory.store';
+export { RedisRateLimitStore } from './redis.store';
+
+export function createRateLimitStore(env: NodeJS.ProcessEnv = process.env): RateLimitStore {
+  const mode = env.RATE_LIMIT_STORE || 'memory';
+
+  switch (mode) {
+    case 'memory':
+      return new MemoryRateLimitStore();
+
+    case 'redis': {
+      // Fail fast while Redis is unreachable; the middleware then lets requests through
+      const options = { maxRetriesPerRequest: 1 };
+      const redis = env.RATE_LIMIT_REDIS_URL
+        ? new Redis(env.RATE_LIMIT_REDIS_URL, options)
+        : new Redis({
+          host: env.REDIS_HOST || 'localhost',
+          port: parseInt(env.REDIS_PORT || '6379', 10),
+          password: env.REDIS_PASSWORD || undefined,
+          db: parseInt(env.REDIS_DB || '0', 10),
+          ...options
+        });
+      return new RedisRateLimitStore(redis);
+    }
+
+    default:
+      throw new Error(`Unknown rate limit store: ${mode}`);
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * In-memory Rate Limit Store
+ * Counters for a single API server process
+ */
+
+import { RateLimitStore } from './types';
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory';
+  private readonly counters = new Map<string, { count: number; expiresAt: number }>();
+  private nextSweepAt = 0;
+
+  constructor(private readonly clock: () => number = Date.now) {}
+
+  async increment(key: string, cost: number, ttlMs: number): Promise<number> {
+    const now = this.clock();
+    this.sweep(now);
+
+    const counter = this.counters.get(key);
+    if (!counter || counter.expiresAt <= now) {
+      this.counters.set(key, { count: cost, expiresAt: now + ttlMs });
+      return cost;
+    }
+
+    counter.count += cost;
+    return counter.count;
+  }
+
+  async close(): Promise<void> {
+    this.counters.clear();
+  }
+
+  private sweep(now: number): void {
+    if (now < this.nextSweepAt) {
+      return;
+    }
+
+    for (const [key, counter] of this.counters) {
+      if (counter.expiresAt <= now) {
+        this.counters.delete(key);
+      }
+    }
+
+    this.nextSweepAt = now + SWEEP_INTERVAL_MS;
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * Rate Limit Service
+ * Tier-aware, weighted request limits per API key (or IP) and route group
+ *
+ * Each caller gets one fixed-window bucket per route group. A request adds
+ * its endpoint's cost to the bucket and is rejected once the bucket holds
+ * more than the caller's tier allows for that group.
+ *
+ * Rejected API keys are charged to the IP that sent them, in a bucket checked
+ * before the key lookup, so guessing keys is limited even though it never
+ * reaches a keyed bucket.
+ */
+
+import { Logger } from '../../utils/logger';
+import {
+  RateLimitDecision,
+  RateLimitGroup,
+  RateLimitPolicy,
+  RateLimitStore,
+  RateLimitTier
+} from './types';
+
+export interface RateLimitRequest {
+  // API key id for authenticated callers, IP address otherwise
+  identity: string;
+  tier: RateLimitTier;
+  method: string;
+  path: string;
+}
+
+const MINUTE = 60 * 1000;
+
+export const DEFAULT_RATE_LIMIT_POLICY: RateLimitPolicy = {
+  groups: [
+    {
+      name: 'standard',
+      paths: ['/api/v1'],
+      windowMs: MINUTE,
+      limits: { anonymous: 60, free: 120, premium: 600, enterprise: 3000 }
+    },
+    {
+      name: 'analytics',
+      paths: ['/api/v1/analytics', '/api/v1/backtests', '/api/v1/scoring/rescore'],
+      windowMs: MINUTE,
+      limits: { anonymous: 20, free: 40, premium: 200, enterprise: 1000 }
+    },
+    {
+      name: 'export',
+      paths: ['/api/v1/export'],
+      windowMs: 15 * MINUTE,
+      limits: { anonymous: 20, free: 60, premium: 300, enterprise: 1500 }
+    }
+  ],
+  costs: [
+    { method: 'POST', path: /^\/api\/v1\/export\/(tokens|alerts|analytics)$/, cost: 10 },
+    { method: 'GET', path: /^\/api\/v1\/export\/download\/[^/]+$/, cost: 5 },
+    { method: 'GET', path: /^\/api\/v1\/analytics\/correlation$/, cost: 10 },
+    { method: 'POST', path: /^\/api\/v1\/backtests$/, cost: 10 },
+    { method: 'POST', path: /^\/api\/v1\/scoring\/rescore$/, cost: 10 },
+    { method: 'POST', path: /^\/api\/v1\/tokens\/analyze$/, cost: 5 }
+  ],
+  exempt: ['/api/v1/health'],
+  authFailures: { windowMs: 15 * MINUTE, limit: 20 }
+};
+
+export class RateLimitService {
+  private readonly logger = Logger.getInstance();
+
+  constructor(
+    private readonly store: RateLimitStore,
+    private readonly policy: RateLimitPolicy = DEFAULT_RATE_LIMIT_POLICY
+  ) {}
+
+  get storeName(): string {
+    return this.store.name;
+  }
+
+  /**
+   * Charge a request to its caller's bucket. Returns null for paths outside
+   * every route group and for exempt paths.
+   */
+  async consume(request: RateLimitRequest, now: Date = new Date()): Promise<RateLimitDecision | null> {
+    const path = normalizePath(request.path);
+    if (this.policy.exempt.includes(path)) {
+      return null;
+    }
+
+    const group = this.findGroup(path);
+    if (!group) {
+      return null;
+    }
+
+    const cost = this.getCost(request.method, path);
+    const limit = group.limits[request.tier];
+    const { used, decision } = await this.charge(group.name, request.identity, cost, limit, group.windowMs, now);
+
+    if (!decision.allowed) {
+      this.logger.warn('Rate limit exceeded', {
+        identity: request.identity,
+        tier: request.tier,
+        group: group.name,
+        used,
+        limit
+      });
+    }
+
+    return decision;
+  }
+
+  /**
+   * Whether an IP may still present API keys. Read before the key lookup, so
+   * guessing keys stops costing database queries once the IP is cut off.
+   */
+  async checkAuthFailures(ip: string, now: Date = new Date()): Promise<RateLimitDecision> {
+    return this.chargeAuthFailures(ip, 0, now);
+  }
+
+  // Charge a rejected API key to the IP that presented it
+  async recordAuthFailure(ip: string, now: Date = new Date()): Promise<RateLimitDecision> {
+    const decision = await this.chargeAuthFailures(ip, 1, now);
+
+    if (!decision.allowed) {
+      this.logger.warn('Too many failed API key authentications', { ip, limit: decision.limit });
+    }
+
+    return decision;
+  }
+
+  async close(): Promise<void> {
+    await this.store.close();
+  }
+
+  getCost(method: string, path: string): number {
+    const rule = this.policy.costs.find(cost => cost.method === method.toUpperCase() && cost.path.test(path));
+    return rule?.cost ?? 1;
+  }
+
+  private async chargeAuthFailures(ip: string, cost: number, now: Date): Promise<RateLimitDecision> {
+    const { windowMs, limit } = this.policy.authFailures;
+    const { used, decision } = await this.charge('auth', `ip:${ip}`, cost, limit, windowMs, now);
+
+    // Checking adds nothing, so an IP is cut off once it has used up its failures
+    return cost === 0 ? { ...decision, allowed: used < limit } : decision;
+  }
+
+  private async charge(
+    group: string,
+    identity: string,
+    cost: number,
+    limit: number,
+    windowMs: number,
+    now: Date
+  ): Promise<{ used: number; decision: RateLimitDecision }> {
+    const windowStart = Math.floor(now.getTime() / windowMs) * windowMs;
+    const resetAt = new Date(windowStart + windowMs);
+
+    const used = await this.store.increment(
+      `${group}:${identity}:${windowStart}`,
+      cost,
+      Math.max(1, resetAt.getTime() - now.getTime())
+    );
+
+    return {
+      used,
+      decision: {
+        allowed: used <= limit,
+        group,
+        limit,
+        remaining: Math.max(0, limit - used),
+        cost,
+        resetAt,
+        windowMs
+      }
+    };
+  }
+
+  private findGroup(path: string): RateLimitGroup | null {
+    let match: { group: RateLimitGroup; length: number } | null = null;
+
+    for (const group of this.policy.groups) {
+      for (const prefix of group.paths) {
+        if ((path === prefix || path.startsWith(`${prefix}/`)) && (!match || prefix.length > match.length)) {
+          match = { group, length: prefix.length };
+        }
+      }
+    }
+
+    return match?.group ?? null;
+  }
+}
+
+// Express routes paths case-insensitively, so /API/V1/Export must land in the export group too
+function normalizePath(path: string): string {
+  const lower = path.toLowerCase();
+  return lower.length > 1 && lower.endsWith('/') ? lower.slice(0, -1) : lower;
+}
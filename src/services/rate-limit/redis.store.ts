@@ -0,0 +1,43 @@
+/**
+ * Redis Rate Limit Store
+ * Counters shared by every API server process pointed at the same Redis
+ *
+ * Uses only SET NX PX and INCRBY inside MULTI, so any Redis-compatible
+ * server (a local redis-server, KeyDB, Dragonfly, ...) works as a stand-in.
+ */
+
+import Redis from 'ioredis';
+import { RateLimitStore } from './types';
+
+const KEY_PREFIX = 'ratelimit:';
+
+export class RedisRateLimitStore implements RateLimitStore {
+  readonly name = 'redis';
+
+  constructor(private readonly redis: Redis) {}
+
+  async increment(key: string, cost: number, ttlMs: number): Promise<number> {
+    const redisKey = `${KEY_PREFIX}${key}`;
+
+    const results = await this.redis
+      .multi()
+      .set(redisKey, 0, 'PX', ttlMs, 'NX')
+      .incrby(redisKey, cost)
+      .exec();
+
+    if (!results) {
+      throw new Error('Rate limit transaction was aborted');
+    }
+
+    const [error, count] = results[1];
+    if (error) {
+      throw error;
+    }
+
+    return Number(count);
+  }
+
+  async close(): Promise<void> {
+    await this.redis.quit();
+  }
+}
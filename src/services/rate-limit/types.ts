@@ -0,0 +1,56 @@
+/**
+ * Rate Limit Types
+ * Tiers, route groups and the counter store shared by every API server process
+ */
+
+import { ApiKeyTier } from '../api-key.service';
+
+// Requests without an API key are limited per IP as 'anonymous'
+export type RateLimitTier = ApiKeyTier | 'anonymous';
+
+export interface RateLimitGroup {
+  name: string;
+  // Path prefixes this group covers; the longest matching prefix wins
+  paths: string[];
+  windowMs: number;
+  // Cost units allowed per window for each tier
+  limits: Record<RateLimitTier, number>;
+}
+
+export interface RateLimitCost {
+  method: string;
+  path: RegExp;
+  cost: number;
+}
+
+export interface RateLimitPolicy {
+  groups: RateLimitGroup[];
+  // Endpoints that count for more than one unit; anything unlisted costs 1
+  costs: RateLimitCost[];
+  // Paths that are never limited
+  exempt: string[];
+  // Failed API key authentications allowed per IP and window; past the limit
+  // the IP's keys are rejected without being looked up
+  authFailures: { windowMs: number; limit: number };
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  group: string;
+  limit: number;
+  remaining: number;
+  cost: number;
+  resetAt: Date;
+  windowMs: number;
+}
+
+/**
+ * Fixed-window counters. `increment` adds `cost` to the counter under `key`,
+ * creating it with a TTL of `ttlMs` when it does not exist yet, and returns
+ * the new total.
+ */
+export interface RateLimitStore {
+  readonly name: string;
+  increment(key: string, cost: number, ttlMs: number): Promise<number>;
+  close(): Promise<void>;
+}
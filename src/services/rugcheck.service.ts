@@ -6,13 +6,21 @@
 import axios, { AxiosInstance } from 'axios';
 import {
   RugCheckResult,
+  HoneypotEvidence,
+  HoneypotRiskLevel,
+  JupiterRoundTripQuote,
   ApiResponse,
   TokenFilterCriteria,
-  ServiceHealthCheck
+  ServiceHealthCheck,
+  SecurityPenalty
 } from '../types/api.types';
 import { RateLimiter, DEFAULT_RATE_LIMITS, DEFAULT_RETRY_CONFIG } from '../utils/rate-limiter';
 import { globalCache } from '../utils/cache';
 import { Logger } from '../utils/logger';
+import { addressKey } from '../utils/address';
+import { createOnChainProvider, fetchFromProvider, OnChainDataProvider, SourcedData } from './onchain';
+import { JupiterService } from './jupiter.service';
+import { scoreSecurity, ScoringProfileService, scoringProfileService } from './scoring';
 
 export interface TokenMetadata {
   address: string;
@@ -30,6 +38,16 @@ export interface TokenAccount {
   owner: string;
 }
 
+export interface LiquidityAnalysis {
+  locked: boolean;
+  percentage: number;
+}
+
+// Medium and high risk tokens are treated as honeypots by filters and signals
+export function isLikelyHoneypot(level: HoneypotRiskLevel): boolean {
+  return level === 'high' || level === 'medium';
+}
+
 export class RugCheckService {
   private readonly client: AxiosInstance;
   private readonly rateLimiter: RateLimiter;
@@ -54,7 +72,20 @@ export class RugCheckService {
     'blacklist'
   ];
 
-  constructor() {
+  // Round-trip quote thresholds for honeypot grading
+  private readonly honeypotConfig = {
+    notionalUsd: 100,
+    feeAllowancePercent: 2, // pool fees across both legs
+    extremeTaxPercent: 50,
+    highTaxPercent: 20,
+    taxPercent: 5
+  };
+
+  constructor(
+    private readonly onChain: OnChainDataProvider = createOnChainProvider(),
+    private readonly jupiter?: Pick<JupiterService, 'simulateRoundTrip'>,
+    private readonly scoringProfiles: Pick<ScoringProfileService, 'getActiveProfile'> = scoringProfileService
+  ) {
     this.client = axios.create({
       baseURL: 'https://api.rugcheck.xyz/v1',
       timeout: 20000,
@@ -105,7 +136,7 @@ export class RugCheckService {
     filters?: TokenFilterCriteria
   ): Promise<ApiResponse<RugCheckResult>> {
     try {
-      const cacheKey = `rugcheck:analysis:${tokenAddress.toLowerCase()}`;
+      const cacheKey = `rugcheck:analysis:${addressKey(tokenAddress)}`;
 
       // Check cache first (longer TTL for security analysis)
       const cached = globalCache.get<RugCheckResult>(cacheKey);
@@ -122,27 +153,31 @@ export class RugCheckService {
       const result = await this.rateLimiter.executeWithBackoff(
         this.serviceName,
         async () => {
-          // Perform comprehensive security analysis
-          const [metadata, accounts, liquidityAnalysis] = await Promise.allSettled([
+          // Perform comprehensive security analysis; each lookup falls back
+          // to the on-chain provider and never rejects
+          const [metadata, accounts, liquidity, roundTrip] = await Promise.all([
             this.getTokenMetadata(tokenAddress),
             this.getTokenAccounts(tokenAddress),
-            this.analyzeLiquidity(tokenAddress)
+            this.analyzeLiquidity(tokenAddress),
+            this.quoteRoundTrip(tokenAddress)
           ]);
 
-          return {
-            metadata: metadata.status === 'fulfilled' ? metadata.value : null,
-            accounts: accounts.status === 'fulfilled' ? accounts.value : [],
-            liquidity: liquidityAnalysis.status === 'fulfilled' ? liquidityAnalysis.value : null
-          };
+          return { metadata, accounts, liquidity, roundTrip };
         },
         DEFAULT_RETRY_CONFIG
       );
 
       const analysis = this.performSecurityAnalysis(
         tokenAddress,
-        result.metadata,
-        result.accounts,
-        result.liquidity
+        result.metadata.data,
+        result.accounts.data,
+        result.liquidity.data,
+        result.roundTrip,
+        {
+          metadata: result.metadata.source,
+          holders: result.accounts.source,
+          liquidity: result.liquidity.source
+        }
       );
 
       // Apply filters
@@ -184,33 +219,52 @@ export class RugCheckService {
     }
   }
 
-  private async getTokenMetadata(address: string): Promise<TokenMetadata | null> {
+  private async getTokenMetadata(address: string): Promise<SourcedData<TokenMetadata | null>> {
     try {
       const response = await this.client.get(`/tokens/${address}/metadata`);
-      return response.data;
+      return { data: response.data, source: this.serviceName };
     } catch (error) {
-      // Fallback to alternative method or simulation
-      return this.simulateTokenMetadata(address);
+      return fetchFromProvider(this.onChain, 'mint info', address, null, async () => {
+        const mint = await this.onChain.getMintInfo(address);
+        return mint && { ...mint, symbol: '', name: '' };
+      });
     }
   }
 
-  private async getTokenAccounts(address: string): Promise<TokenAccount[]> {
+  private async getTokenAccounts(address: string): Promise<SourcedData<TokenAccount[]>> {
     try {
       const response = await this.client.get(`/tokens/${address}/accounts`);
-      return response.data?.accounts || [];
+      return { data: response.data?.accounts || [], source: this.serviceName };
     } catch (error) {
-      // Fallback to simulated data for demonstration
-      return this.simulateTokenAccounts(address);
+      return fetchFromProvider(this.onChain, 'holder accounts', address, [], () => this.onChain.getHolderAccounts(address, 20));
     }
   }
 
-  private async analyzeLiquidity(address: string): Promise<{ locked: boolean; percentage: number } | null> {
+  private async analyzeLiquidity(address: string): Promise<SourcedData<LiquidityAnalysis | null>> {
     try {
       const response = await this.client.get(`/tokens/${address}/liquidity`);
-      return response.data;
+      return { data: response.data, source: this.serviceName };
     } catch (error) {
-      // Fallback analysis
-      return this.simulateLiquidityAnalysis(address);
+      return fetchFromProvider(this.onChain, 'liquidity lock', address, null, async () => {
+        const lock = await this.onChain.getLiquidityLock(address);
+        return lock && { locked: lock.locked, percentage: lock.percentage };
+      });
+    }
+  }
+
+  private async quoteRoundTrip(address: string): Promise<JupiterRoundTripQuote | null> {
+    if (!this.jupiter) {
+      return null;
+    }
+
+    try {
+      return await this.jupiter.simulateRoundTrip(address, this.honeypotConfig.notionalUsd);
+    } catch (error) {
+      this.logger.warn('Round-trip honeypot quote failed', {
+        address,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return null;
     }
   }
 
@@ -218,82 +272,107 @@ export class RugCheckService {
     address: string,
     metadata: TokenMetadata | null,
     accounts: TokenAccount[],
-    liquidity: { locked: boolean; percentage: number } | null
+    liquidity: LiquidityAnalysis | null,
+    roundTrip: JupiterRoundTripQuote | null,
+    dataSources: RugCheckResult['dataSources']
   ): RugCheckResult {
     const risks: string[] = [];
     const warnings: string[] = [];
-    let safetyScore = 10; // Start with perfect score
 
-    // Check mint authority
     const mintAuthority = metadata?.mintAuthority !== null;
-    if (mintAuthority) {
-      risks.push('Mint authority not renounced - unlimited minting possible');
-      safetyScore -= 2;
-    }
-
-    // Check freeze authority
     const freezeAuthority = metadata?.freezeAuthority !== null;
-    if (freezeAuthority) {
-      risks.push('Freeze authority not renounced - accounts can be frozen');
-      safetyScore -= 2;
+
+    if (dataSources.metadata === 'unavailable') {
+      warnings.push('Token metadata unavailable - authorities assumed active');
     }
 
-    // Analyze holder concentration
-    const holderConcentration = this.calculateHolderConcentration(accounts);
-    if (holderConcentration > 60) {
-      risks.push(`High holder concentration: ${holderConcentration.toFixed(1)}%`);
-      safetyScore -= 3;
-    } else if (holderConcentration > 40) {
-      warnings.push(`Moderate holder concentration: ${holderConcentration.toFixed(1)}%`);
-      safetyScore -= 1;
+    if (dataSources.holders === 'unavailable') {
+      warnings.push('Holder accounts unavailable - concentration assumed 100%');
     }
 
-    // Check liquidity status
+    const holderConcentration = this.calculateHolderConcentration(accounts, metadata?.supply);
+
     const liquidityLocked = liquidity?.locked || false;
-    if (!liquidityLocked) {
-      risks.push('Liquidity not locked - rug pull risk');
-      safetyScore -= 3;
+    if (dataSources.liquidity === 'unavailable') {
+      warnings.push('Liquidity lock state unknown');
     }
 
     // Check for suspicious token name/symbol patterns
     const suspiciousName = this.checkSuspiciousName(metadata?.name, metadata?.symbol);
-    if (suspiciousName) {
-      warnings.push(`Suspicious token name pattern detected`);
-      safetyScore -= 1;
-    }
 
-    // Honeypot detection (simplified)
-    const honeypotRisk = this.detectHoneypotRisk(metadata, accounts);
+    // Honeypot detection from round-trip quotes and holder heuristics
+    const { level: honeypotRisk, evidence: honeypotEvidence } = this.assessHoneypotRisk(
+      metadata,
+      dataSources.holders === 'unavailable' ? null : accounts,
+      holderConcentration,
+      roundTrip
+    );
+
+    // Penalty points and concentration tiers come from the active scoring profile
+    const { safetyScore, penalties } = scoreSecurity(
+      { mintAuthority, freezeAuthority, holderConcentration, liquidityLocked, suspiciousName, honeypotRisk },
+      this.scoringProfiles.getActiveProfile().security
+    );
 
-    // Ensure score doesn't go below 0
-    safetyScore = Math.max(0, safetyScore);
+    for (const penalty of penalties) {
+      const findings = penalty.severity === 'risk' ? risks : warnings;
+      findings.push(this.describePenalty(penalty, holderConcentration, honeypotEvidence));
+    }
 
     return {
-      address: address.toLowerCase(),
+      address: addressKey(address),
       honeypotRisk,
+      honeypotEvidence,
       mintAuthority,
       freezeAuthority,
       liquidityLocked,
       holderConcentration,
+      suspiciousName,
       safetyScore,
       risks,
       warnings,
+      dataSources,
       filtered: false
     };
   }
 
-  private calculateHolderConcentration(accounts: TokenAccount[]): number {
+  private describePenalty(penalty: SecurityPenalty, holderConcentration: number, honeypotEvidence: HoneypotEvidence): string {
+    switch (penalty.check) {
+      case 'mintAuthority':
+        return 'Mint authority not renounced - unlimited minting possible';
+      case 'freezeAuthority':
+        return 'Freeze authority not renounced - accounts can be frozen';
+      case 'holderConcentration':
+        return penalty.severity === 'risk'
+          ? `High holder concentration: ${holderConcentration.toFixed(1)}%`
+          : `Moderate holder concentration: ${holderConcentration.toFixed(1)}%`;
+      case 'liquidityUnlocked':
+        return 'Liquidity not locked - rug pull risk';
+      case 'suspiciousName':
+        return 'Suspicious token name pattern detected';
+      case 'honeypot':
+        return penalty.severity === 'risk'
+          ? `Honeypot risk: ${honeypotEvidence.reasons.join('; ')}`
+          : `Possible honeypot: ${honeypotEvidence.reasons.join('; ')}`;
+    }
+  }
+
+  private calculateHolderConcentration(accounts: TokenAccount[], supply?: string): number {
     if (accounts.length === 0) return 100; // Assume worst case
 
     // Sort by balance and get top 10 holders
-    const sortedAccounts = accounts
+    const sortedAccounts = [...accounts]
       .sort((a, b) => parseFloat(b.amount) - parseFloat(a.amount))
       .slice(0, 10);
 
-    const totalSupply = accounts.reduce((sum, acc) => sum + parseFloat(acc.amount), 0);
+    // Prefer the mint supply: providers only return the largest accounts
+    const mintSupply = supply ? parseFloat(supply) : 0;
+    const totalSupply = mintSupply > 0
+      ? mintSupply
+      : accounts.reduce((sum, acc) => sum + parseFloat(acc.amount), 0);
     const top10Supply = sortedAccounts.reduce((sum, acc) => sum + parseFloat(acc.amount), 0);
 
-    return totalSupply > 0 ? (top10Supply / totalSupply) * 100 : 100;
+    return totalSupply > 0 ? Math.min(100, (top10Supply / totalSupply) * 100) : 100;
   }
 
   private checkSuspiciousName(name?: string, symbol?: string): boolean {
@@ -303,26 +382,76 @@ export class RugCheckService {
     );
   }
 
-  private detectHoneypotRisk(metadata: TokenMetadata | null, accounts: TokenAccount[]): boolean {
-    // Simplified honeypot detection
-    // In reality, would analyze contract bytecode and transaction patterns
+  /**
+   * Grade honeypot risk. A buy route without a sell route, or a round trip
+   * that loses far more than price impact and fees explain (a sell tax), is
+   * direct evidence; holder and name patterns are weaker hints.
+   */
+  private assessHoneypotRisk(
+    metadata: TokenMetadata | null,
+    accounts: TokenAccount[] | null,
+    concentration: number,
+    roundTrip: JupiterRoundTripQuote | null
+  ): { level: HoneypotRiskLevel; evidence: HoneypotEvidence } {
+    const config = this.honeypotConfig;
+    const reasons: string[] = [];
+    let quoteScore = 0;
+    let heuristicScore = 0;
+    let impliedTaxPercent: number | null = null;
+
+    if (roundTrip?.buyRoutable && roundTrip.sellRoutable === false) {
+      reasons.push('Buy route exists but no sell route');
+      quoteScore = 100;
+    }
 
-    // Check for suspicious holder patterns
-    if (accounts.length < 5) return true; // Too few holders
+    if (roundTrip?.roundTripLossPercent != null) {
+      const expectedLoss = (roundTrip.buyPriceImpactPercent ?? 0) +
+        (roundTrip.sellPriceImpactPercent ?? 0) +
+        config.feeAllowancePercent;
+      impliedTaxPercent = Math.max(0, roundTrip.roundTripLossPercent - expectedLoss);
+
+      if (impliedTaxPercent >= config.taxPercent) {
+        reasons.push(`Round trip loses ${roundTrip.roundTripLossPercent.toFixed(1)}% (${impliedTaxPercent.toFixed(1)}% implied tax)`);
+        quoteScore = Math.max(quoteScore,
+          impliedTaxPercent >= config.extremeTaxPercent ? 90 :
+          impliedTaxPercent >= config.highTaxPercent ? 60 : 25);
+      }
+    }
 
-    // Check for extreme concentration
-    const concentration = this.calculateHolderConcentration(accounts);
-    if (concentration > 90) return true;
+    // Holder checks only apply when the holder list is known (null = unavailable)
+    if (accounts) {
+      if (accounts.length < 5) {
+        reasons.push(`Only ${accounts.length} holder accounts`);
+        heuristicScore = Math.max(heuristicScore, 40);
+      }
+      if (concentration > 90) {
+        reasons.push(`Top holders own ${concentration.toFixed(1)}%`);
+        heuristicScore = Math.max(heuristicScore, 40);
+      }
+    }
 
     // Check token name for honeypot indicators
-    if (metadata?.name) {
-      const nameCheck = metadata.name.toLowerCase();
-      if (this.honeypotIndicators.some(indicator => nameCheck.includes(indicator))) {
-        return true;
-      }
+    const nameCheck = metadata?.name?.toLowerCase() ?? '';
+    if (this.honeypotIndicators.some(indicator => nameCheck.includes(indicator))) {
+      reasons.push('Token name matches a honeypot indicator');
+      heuristicScore = Math.max(heuristicScore, 50);
     }
 
-    return false;
+    // A clean round trip shows sells work, so heuristics alone stay low risk
+    const sellConfirmed = roundTrip?.sellRoutable === true && impliedTaxPercent !== null &&
+      impliedTaxPercent < config.taxPercent;
+    const score = Math.max(quoteScore, sellConfirmed ? Math.min(heuristicScore, 20) : heuristicScore);
+
+    const level: HoneypotRiskLevel =
+      score >= 70 ? 'high' :
+      score >= 40 ? 'medium' :
+      score >= 15 ? 'low' :
+      sellConfirmed ? 'none' : 'unknown';
+
+    return {
+      level,
+      evidence: { score, reasons, roundTrip, impliedTaxPercent }
+    };
   }
 
   private applySecurityFilters(
@@ -338,50 +467,16 @@ export class RugCheckService {
     }
 
     // Honeypot filter
-    if (filters.allowHoneypot === false && analysis.honeypotRisk) {
-      return { passed: false, reason: 'Honeypot risk detected' };
+    if (filters.allowHoneypot === false && isLikelyHoneypot(analysis.honeypotRisk)) {
+      return {
+        passed: false,
+        reason: `Honeypot risk ${analysis.honeypotRisk}: ${analysis.honeypotEvidence.reasons.join('; ')}`
+      };
     }
 
     return { passed: true };
   }
 
-  // Fallback simulation methods for when API is unavailable
-  private simulateTokenMetadata(address: string): TokenMetadata {
-    // Generate realistic but randomized metadata for testing
-    return {
-      address,
-      symbol: 'TEST',
-      name: 'Test Token',
-      decimals: 9,
-      supply: '1000000000000000000',
-      mintAuthority: Math.random() > 0.6 ? null : 'some-authority-address',
-      freezeAuthority: Math.random() > 0.7 ? null : 'some-freeze-address'
-    };
-  }
-
-  private simulateTokenAccounts(address: string): TokenAccount[] {
-    // Generate realistic holder distribution
-    const accountCount = Math.floor(Math.random() * 100) + 10;
-    const accounts: TokenAccount[] = [];
-
-    for (let i = 0; i < accountCount; i++) {
-      accounts.push({
-        address: `holder-${i}`,
-        amount: Math.floor(Math.random() * 1000000).toString(),
-        owner: `owner-${i}`
-      });
-    }
-
-    return accounts;
-  }
-
-  private simulateLiquidityAnalysis(address: string): { locked: boolean; percentage: number } {
-    return {
-      locked: Math.random() > 0.3,
-      percentage: Math.floor(Math.random() * 100)
-    };
-  }
-
   async healthCheck(): Promise<ServiceHealthCheck> {
     const startTime = Date.now();
 
@@ -0,0 +1,9 @@
+/**
+ * Scoring
+ * Versioned, declarative scoring profiles for safety and overall scores
+ */
+
+export * from './types';
+export * from './scoring-model';
+export * from './scoring-profile.service';
+export * from './rescoring.service';
@@ -0,0 +1,114 @@
+/**
+ * Rescoring Service
+ * Re-scores stored analyses under a candidate profile so its score
+ * distribution can be compared with the active profile's before switching
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { Logger } from '../../utils/logger';
+import { ScoreBreakdown } from '../../types/api.types';
+import { OVERALL_SCORE_ANALYSIS, scoreAnalysis, ScoreDistribution, summarizeScores } from './scoring-model';
+import { ScoringProfileService, scoringProfileService } from './scoring-profile.service';
+import { ScoringInputs, ScoringProfile } from './types';
+
+// TokenAnalysis.data of an overall score
+export interface StoredScoringData {
+  profileVersion: string;
+  inputs: ScoringInputs;
+  breakdown: ScoreBreakdown;
+}
+
+export interface RescoreOptions {
+  startDate?: Date;
+  endDate?: Date;
+  limit: number; // most recent analyses, one per token
+}
+
+export interface RescoredToken {
+  address: string;
+  storedScore: number;
+  baselineScore: number;
+  candidateScore: number;
+  delta: number; // candidate - baseline
+}
+
+export interface RescoreComparison {
+  sampleSize: number;
+  storedVersions: Record<string, number>; // analyses per profile version they were scored with
+  baseline: { version: string; distribution: ScoreDistribution };
+  candidate: { version: string; distribution: ScoreDistribution };
+  changes: {
+    meanDelta: number;
+    raised: number;
+    lowered: number;
+    unchanged: number;
+  };
+  largestChanges: RescoredToken[];
+}
+
+// Scores within this distance count as unchanged
+const SCORE_EPSILON = 0.01;
+const LARGEST_CHANGES = 10;
+
+export class RescoringService {
+  private readonly logger = Logger.getInstance();
+
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly scoringProfiles: ScoringProfileService = scoringProfileService
+  ) {}
+
+  async rescore(candidate: ScoringProfile, options: RescoreOptions): Promise<RescoreComparison> {
+    const baseline = await this.scoringProfiles.refresh(this.prisma);
+
+    const rows = await this.prisma.tokenAnalysis.findMany({
+      where: {
+        analysisType: OVERALL_SCORE_ANALYSIS,
+        timestamp: { gte: options.startDate, lte: options.endDate }
+      },
+      orderBy: { timestamp: 'desc' },
+      take: options.limit,
+      select: { tokenId: true, score: true, data: true, token: { select: { address: true } } }
+    });
+
+    const seen = new Set<string>();
+    const storedVersions: Record<string, number> = {};
+    const tokens: RescoredToken[] = [];
+
+    for (const row of rows) {
+      if (seen.has(row.tokenId)) continue;
+      seen.add(row.tokenId);
+
+      const stored = row.data as unknown as StoredScoringData;
+      storedVersions[stored.profileVersion] = (storedVersions[stored.profileVersion] ?? 0) + 1;
+
+      const baselineScore = scoreAnalysis(stored.inputs, baseline).overallScore;
+      const candidateScore = scoreAnalysis(stored.inputs, candidate).overallScore;
+      tokens.push({
+        address: row.token.address,
+        storedScore: row.score,
+        baselineScore,
+        candidateScore,
+        delta: candidateScore - baselineScore
+      });
+    }
+
+    this.logger.info(`Re-scored ${tokens.length} analyses under ${candidate.version}`, { baseline: baseline.version });
+
+    return {
+      sampleSize: tokens.length,
+      storedVersions,
+      baseline: { version: baseline.version, distribution: summarizeScores(tokens.map(token => token.baselineScore)) },
+      candidate: { version: candidate.version, distribution: summarizeScores(tokens.map(token => token.candidateScore)) },
+      changes: {
+        meanDelta: tokens.length > 0 ? tokens.reduce((sum, token) => sum + token.delta, 0) / tokens.length : 0,
+        raised: tokens.filter(token => token.delta > SCORE_EPSILON).length,
+        lowered: tokens.filter(token => token.delta < -SCORE_EPSILON).length,
+        unchanged: tokens.filter(token => Math.abs(token.delta) <= SCORE_EPSILON).length
+      },
+      largestChanges: [...tokens]
+        .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta))
+        .slice(0, LARGEST_CHANGES)
+    };
+  }
+}
@@ -0,0 +1,289 @@
+/**
+ * Scoring Model
+ * Applies a scoring profile to security checks and combined analyses
+ *
+ * Everything here is pure, so live pipeline scores and re-scored stored
+ * analyses come out of the same code.
+ */
+
+import { evaluateCondition, FilterRecord } from '../../lib/filters/filter-engine';
+import { CombinedTokenAnalysis, ComponentScore, ScoreBreakdown, SecurityPenalty } from '../../types/api.types';
+import {
+  ScoringComponentDefinition,
+  ScoringInputs,
+  ScoringProfile,
+  SecurityChecks,
+  SecurityScoring
+} from './types';
+
+// TokenAnalysis.analysisType of stored overall scores
+export const OVERALL_SCORE_ANALYSIS = 'overall_score';
+
+/**
+ * The original pipeline rules, with the funding pattern check replaced by
+ * the share of supply held by funding clusters
+ */
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  version: 'default-v2',
+  description: 'Original pipeline weights: DEX 25, security 35, routing 20, creator 20',
+  components: {
+    dexScreener: {
+      weight: 25,
+      base: 50,
+      rules: [
+        { id: 'liquidity', steps: [{ when: [{ field: 'liquidity', operator: 'gt', value: 10000 }], points: 20 }] },
+        { id: 'volume', steps: [{ when: [{ field: 'volume24h', operator: 'gt', value: 5000 }], points: 15 }] },
+        {
+          id: 'early_age',
+          steps: [{
+            when: [{ field: 'ageHours', operator: 'gt', value: 1 }, { field: 'ageHours', operator: 'lt', value: 24 }],
+            points: 15
+          }]
+        }
+      ]
+    },
+    rugCheck: {
+      weight: 35,
+      base: { field: 'safetyScore', multiplier: 10 },
+      rules: []
+    },
+    jupiter: {
+      weight: 20,
+      base: 0,
+      rules: [
+        { id: 'routing', steps: [{ when: [{ field: 'routingAvailable', operator: 'eq', value: true }], points: 60 }] },
+        {
+          id: 'slippage',
+          steps: [
+            { when: [{ field: 'slippageEstimate', operator: 'lt', value: 5 }], points: 25 },
+            { when: [{ field: 'slippageEstimate', operator: 'lt', value: 10 }], points: 15 }
+          ]
+        },
+        { id: 'not_blacklisted', steps: [{ when: [{ field: 'blacklisted', operator: 'eq', value: false }], points: 15 }] }
+      ]
+    },
+    solscan: {
+      weight: 20,
+      base: 50,
+      rules: [
+        {
+          id: 'creator_rugs',
+          steps: [
+            { when: [{ field: 'creatorRugs', operator: 'eq', value: 0 }], points: 25 },
+            { when: [{ field: 'creatorRugs', operator: 'lte', value: 1 }], points: 10 }
+          ]
+        },
+        {
+          id: 'holder_concentration',
+          steps: [
+            { when: [{ field: 'topHoldersPercentage', operator: 'lt', value: 40 }], points: 15 },
+            { when: [{ field: 'topHoldersPercentage', operator: 'lt', value: 60 }], points: 5 }
+          ]
+        },
+        {
+          id: 'unclustered_supply',
+          steps: [{ when: [{ field: 'clusteredSupplyPercentage', operator: 'lt', value: 10 }], points: 10 }]
+        }
+      ]
+    }
+  },
+  security: {
+    maxScore: 10,
+    penalties: {
+      mintAuthority: 2,
+      freezeAuthority: 2,
+      liquidityUnlocked: 3,
+      suspiciousName: 1,
+      honeypotHigh: 5,
+      honeypotMedium: 2
+    },
+    holderConcentration: [
+      { abovePercent: 60, points: 3, severity: 'risk' },
+      { abovePercent: 40, points: 1, severity: 'warning' }
+    ]
+  }
+};
+
+export interface SecurityScore {
+  safetyScore: number; // 0 to security.maxScore
+  penalties: SecurityPenalty[]; // every failed check, in check order
+}
+
+export interface ProfileScore {
+  overallScore: number;
+  scoring: ScoreBreakdown;
+}
+
+export interface ScoreDistribution {
+  count: number;
+  mean: number;
+  median: number;
+  p10: number;
+  p90: number;
+  min: number;
+  max: number;
+  histogram: number[]; // counts per 10-point bucket, 0-9 through 90-100
+}
+
+/**
+ * Deduct the profile's penalty points for each failed security check
+ */
+export function scoreSecurity(checks: SecurityChecks, security: SecurityScoring): SecurityScore {
+  const { penalties: points } = security;
+  const penalties: SecurityPenalty[] = [];
+
+  if (checks.mintAuthority) {
+    penalties.push({ check: 'mintAuthority', points: points.mintAuthority, severity: 'risk' });
+  }
+  if (checks.freezeAuthority) {
+    penalties.push({ check: 'freezeAuthority', points: points.freezeAuthority, severity: 'risk' });
+  }
+
+  const concentrationTier = [...security.holderConcentration]
+    .sort((a, b) => b.abovePercent - a.abovePercent)
+    .find(tier => checks.holderConcentration > tier.abovePercent);
+  if (concentrationTier) {
+    penalties.push({ check: 'holderConcentration', points: concentrationTier.points, severity: concentrationTier.severity });
+  }
+
+  if (!checks.liquidityLocked) {
+    penalties.push({ check: 'liquidityUnlocked', points: points.liquidityUnlocked, severity: 'risk' });
+  }
+  if (checks.suspiciousName) {
+    penalties.push({ check: 'suspiciousName', points: points.suspiciousName, severity: 'warning' });
+  }
+
+  if (checks.honeypotRisk === 'high') {
+    penalties.push({ check: 'honeypot', points: points.honeypotHigh, severity: 'risk' });
+  } else if (checks.honeypotRisk === 'medium') {
+    penalties.push({ check: 'honeypot', points: points.honeypotMedium, severity: 'warning' });
+  }
+
+  const deducted = penalties.reduce((sum, penalty) => sum + penalty.points, 0);
+  return { safetyScore: Math.max(0, security.maxScore - deducted), penalties };
+}
+
+/**
+ * Flatten the stage results into the fields a profile can score
+ */
+export function extractScoringInputs(
+  analysis: Pick<CombinedTokenAnalysis, 'dexScreener' | 'rugCheck' | 'jupiter' | 'solscan'>
+): ScoringInputs {
+  const { dexScreener, rugCheck, jupiter, solscan } = analysis;
+
+  return {
+    liquidity: dexScreener.liquidity,
+    volume24h: dexScreener.volume24h,
+    marketCap: dexScreener.marketCap,
+    ageHours: dexScreener.age,
+    mintAuthority: rugCheck.mintAuthority,
+    freezeAuthority: rugCheck.freezeAuthority,
+    holderConcentration: rugCheck.holderConcentration,
+    liquidityLocked: rugCheck.liquidityLocked,
+    suspiciousName: rugCheck.suspiciousName,
+    honeypotRisk: rugCheck.honeypotRisk,
+    routingAvailable: jupiter.routingAvailable,
+    slippageEstimate: jupiter.slippageEstimate,
+    blacklisted: jupiter.blacklisted,
+    routeCount: jupiter.routeCount,
+    creatorTokens: solscan.creatorInfo.createdTokens,
+    creatorRugs: solscan.creatorInfo.ruggedTokens,
+    topHoldersPercentage: solscan.topHoldersPercentage,
+    effectiveTopHoldersPercentage: solscan.holderClusters.effectiveTopHoldersPercentage,
+    clusteredSupplyPercentage: solscan.holderClusters.clusteredSupplyPercentage
+  };
+}
+
+/**
+ * Score inputs under a profile. The safety score is re-derived from the
+ * security checks so a candidate profile's penalties apply too.
+ */
+export function scoreAnalysis(inputs: ScoringInputs, profile: ScoringProfile): ProfileScore {
+  const security = scoreSecurity(inputs, profile.security);
+  const record: FilterRecord = { ...inputs, safetyScore: security.safetyScore };
+
+  const totalWeight = Object.values(profile.components).reduce((sum, component) => sum + component.weight, 0);
+  const components: Record<string, ComponentScore> = {};
+  let overallScore = 0;
+
+  for (const [name, component] of Object.entries(profile.components)) {
+    const { score, matchedRules } = scoreComponent(component, record);
+    const contribution = (score * component.weight) / totalWeight;
+
+    components[name] = { score, weight: component.weight, contribution, matchedRules };
+    overallScore += contribution;
+  }
+
+  return {
+    overallScore: Math.min(100, Math.max(0, overallScore)),
+    scoring: {
+      profileVersion: profile.version,
+      safetyScore: security.safetyScore,
+      safetyPenalties: security.penalties,
+      components
+    }
+  };
+}
+
+/**
+ * Breakdown for analyses that never reached scoring
+ */
+export function emptyScoreBreakdown(profile: ScoringProfile): ScoreBreakdown {
+  const components: Record<string, ComponentScore> = {};
+  for (const [name, component] of Object.entries(profile.components)) {
+    components[name] = { score: 0, weight: component.weight, contribution: 0, matchedRules: [] };
+  }
+
+  return { profileVersion: profile.version, safetyScore: 0, safetyPenalties: [], components };
+}
+
+export function summarizeScores(scores: number[]): ScoreDistribution {
+  const histogram = new Array<number>(10).fill(0);
+  if (scores.length === 0) {
+    return { count: 0, mean: 0, median: 0, p10: 0, p90: 0, min: 0, max: 0, histogram };
+  }
+
+  const sorted = [...scores].sort((a, b) => a - b);
+  for (const score of sorted) {
+    histogram[Math.min(9, Math.floor(score / 10))]++;
+  }
+
+  return {
+    count: sorted.length,
+    mean: sorted.reduce((sum, score) => sum + score, 0) / sorted.length,
+    median: percentile(sorted, 50),
+    p10: percentile(sorted, 10),
+    p90: percentile(sorted, 90),
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    histogram
+  };
+}
+
+function scoreComponent(
+  component: ScoringComponentDefinition,
+  record: FilterRecord
+): Pick<ComponentScore, 'score' | 'matchedRules'> {
+  let score = typeof component.base === 'number'
+    ? component.base
+    : Number(record[component.base.field] ?? 0) * component.base.multiplier;
+  const matchedRules: ComponentScore['matchedRules'] = [];
+
+  for (const rule of component.rules) {
+    const step = rule.steps.find(candidate => candidate.when.every(condition =>
+      evaluateCondition({ id: rule.id, label: rule.id, ...condition }, record)
+    ));
+
+    if (step) {
+      score += step.points;
+      matchedRules.push({ id: rule.id, points: step.points });
+    }
+  }
+
+  return { score: Math.min(100, Math.max(0, score)), matchedRules };
+}
+
+// Nearest-rank percentile of an ascending list
+function percentile(sorted: number[], rank: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil((rank / 100) * sorted.length) - 1))];
+}
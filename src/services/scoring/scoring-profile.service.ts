@@ -0,0 +1,84 @@
+/**
+ * Scoring Profile Service
+ * Holds the active scoring profile shared by RugCheck and the pipeline
+ *
+ * Resolution order: the `scoring_profile` SystemConfig row, the JSON file at
+ * SCORING_PROFILE_PATH, then the built-in default. An invalid profile is
+ * logged and ignored so scoring keeps the last good one.
+ */
+
+import { readFileSync } from 'fs';
+import { PrismaClient } from '@prisma/client';
+import { Logger } from '../../utils/logger';
+import { DEFAULT_SCORING_PROFILE } from './scoring-model';
+import { ScoringProfile, scoringProfileSchema } from './types';
+
+export const SCORING_PROFILE_CONFIG_KEY = 'scoring_profile';
+
+export function parseScoringProfile(value: unknown, source: string): ScoringProfile {
+  const result = scoringProfileSchema.safeParse(value);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.') || 'profile'}: ${issue.message}`);
+    throw new Error(`Invalid scoring profile from ${source}: ${issues.join('; ')}`);
+  }
+  return result.data;
+}
+
+export class ScoringProfileService {
+  private readonly logger = Logger.getInstance();
+  private active: ScoringProfile | null = null;
+
+  constructor(private readonly profilePath: string | undefined = process.env.SCORING_PROFILE_PATH) {}
+
+  getActiveProfile(): ScoringProfile {
+    if (!this.active) {
+      this.activate(this.loadFromFile() ?? DEFAULT_SCORING_PROFILE, this.profilePath ?? 'default');
+    }
+    return this.active!;
+  }
+
+  /**
+   * Re-read the profile, picking up changes made in SystemConfig
+   */
+  async refresh(prisma: Pick<PrismaClient, 'systemConfig'>): Promise<ScoringProfile> {
+    try {
+      const row = await prisma.systemConfig.findUnique({ where: { key: SCORING_PROFILE_CONFIG_KEY } });
+
+      if (row) {
+        this.activate(parseScoringProfile(row.value, `system config ${SCORING_PROFILE_CONFIG_KEY}`), 'system config');
+      } else {
+        this.activate(this.loadFromFile() ?? DEFAULT_SCORING_PROFILE, this.profilePath ?? 'default');
+      }
+    } catch (error) {
+      this.logger.warn('Failed to refresh scoring profile, keeping the current one', {
+        version: this.getActiveProfile().version,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+
+    return this.getActiveProfile();
+  }
+
+  private loadFromFile(): ScoringProfile | null {
+    if (!this.profilePath) return null;
+
+    try {
+      return parseScoringProfile(JSON.parse(readFileSync(this.profilePath, 'utf8')), this.profilePath);
+    } catch (error) {
+      this.logger.error('Failed to load scoring profile file, using the default', {
+        path: this.profilePath,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return null;
+    }
+  }
+
+  private activate(profile: ScoringProfile, source: string): void {
+    if (this.active?.version !== profile.version) {
+      this.logger.info(`Scoring profile ${profile.version} active`, { source });
+    }
+    this.active = profile;
+  }
+}
+
+export const scoringProfileService = new ScoringProfileService();
@@ -0,0 +1,139 @@
+/**
+ * Scoring profile types
+ *
+ * A scoring profile declares how an analysis is turned into a safety score and
+ * an overall score. Components are weighted 0-100 sub-scores built from a base
+ * plus rule points; each rule awards the points of its first matching step.
+ * Conditions use the filter engine's operators over the flat scoring inputs.
+ */
+
+import { z } from 'zod';
+import { HoneypotRiskLevel } from '../../types/api.types';
+
+export const SCORING_FIELDS = [
+  // DEXScreener
+  'liquidity',
+  'volume24h',
+  'marketCap',
+  'ageHours',
+  // Security checks and the safety score derived from them
+  'safetyScore',
+  'mintAuthority',
+  'freezeAuthority',
+  'holderConcentration',
+  'liquidityLocked',
+  'suspiciousName',
+  'honeypotRisk',
+  // Jupiter
+  'routingAvailable',
+  'slippageEstimate',
+  'blacklisted',
+  'routeCount',
+  // Solscan
+  'creatorTokens',
+  'creatorRugs',
+  'topHoldersPercentage',
+  'effectiveTopHoldersPercentage',
+  'clusteredSupplyPercentage'
+] as const;
+
+export type ScoringField = typeof SCORING_FIELDS[number];
+
+const conditionValueSchema = z.union([
+  z.number(),
+  z.string(),
+  z.boolean(),
+  z.array(z.union([z.number(), z.string(), z.boolean()])).max(50)
+]);
+
+export const scoringConditionSchema = z.object({
+  field: z.enum(SCORING_FIELDS),
+  operator: z.enum(['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'not_in', 'between']),
+  value: conditionValueSchema
+});
+
+export const scoringRuleSchema = z.object({
+  id: z.string().min(1).max(64),
+  steps: z.array(z.object({
+    when: z.array(scoringConditionSchema).min(1).max(10), // all must match
+    points: z.number()
+  })).min(1).max(10)
+});
+
+export const scoringComponentSchema = z.object({
+  weight: z.number().min(0),
+  base: z.union([
+    z.number(),
+    z.object({ field: z.enum(SCORING_FIELDS), multiplier: z.number() })
+  ]),
+  rules: z.array(scoringRuleSchema).max(50).default([])
+});
+
+const penaltyPoints = z.number().min(0);
+
+export const securityScoringSchema = z.object({
+  maxScore: z.number().positive(),
+  penalties: z.object({
+    mintAuthority: penaltyPoints,
+    freezeAuthority: penaltyPoints,
+    liquidityUnlocked: penaltyPoints,
+    suspiciousName: penaltyPoints,
+    honeypotHigh: penaltyPoints,
+    honeypotMedium: penaltyPoints
+  }),
+  // The highest tier the concentration exceeds applies
+  holderConcentration: z.array(z.object({
+    abovePercent: z.number().min(0).max(100),
+    points: penaltyPoints,
+    severity: z.enum(['risk', 'warning'])
+  })).max(10)
+});
+
+export const scoringProfileSchema = z.object({
+  version: z.string().min(1).max(64),
+  description: z.string().max(500).optional(),
+  components: z.record(z.string().min(1).max(64), scoringComponentSchema)
+    .refine(components => Object.keys(components).length > 0, { message: 'At least one component is required' })
+    .refine(components => Object.values(components).some(component => component.weight > 0), {
+      message: 'At least one component needs a positive weight'
+    }),
+  security: securityScoringSchema
+});
+
+export type ScoringCondition = z.infer<typeof scoringConditionSchema>;
+export type ScoringRule = z.infer<typeof scoringRuleSchema>;
+export type ScoringComponentDefinition = z.infer<typeof scoringComponentSchema>;
+export type SecurityScoring = z.infer<typeof securityScoringSchema>;
+export type ScoringProfile = z.infer<typeof scoringProfileSchema>;
+
+/**
+ * Security checks a safety score is derived from
+ */
+export interface SecurityChecks {
+  mintAuthority: boolean;
+  freezeAuthority: boolean;
+  holderConcentration: number;
+  liquidityLocked: boolean;
+  suspiciousName: boolean;
+  honeypotRisk: HoneypotRiskLevel;
+}
+
+/**
+ * Everything a profile can score, stored with each overall score so stored
+ * analyses can be re-scored under another profile
+ */
+export interface ScoringInputs extends SecurityChecks {
+  liquidity: number;
+  volume24h: number;
+  marketCap: number;
+  ageHours: number;
+  routingAvailable: boolean;
+  slippageEstimate: number;
+  blacklisted: boolean;
+  routeCount: number;
+  creatorTokens: number;
+  creatorRugs: number;
+  topHoldersPercentage: number;
+  effectiveTopHoldersPercentage: number;
+  clusteredSupplyPercentage: number;
+}
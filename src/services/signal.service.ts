@@ -0,0 +1,414 @@
+/**
+ * Signal Service
+ * Trading signals derived from pipeline analyses, scored against realised prices
+ *
+ * A signal blends four components, each normalised to -1..1:
+ * momentum (5m and 1h price change), order flow (buy/sell transaction
+ * imbalance over 5m and 1h), liquidity change and safety-score change since
+ * the token's previous snapshot. A liquidity pull, a safety collapse or a
+ * honeypot overrides the blend with a STRONG_SELL.
+ *
+ * Once the evaluation horizon has passed, each signal is compared with the
+ * price observed at that point: buys are correct when the price rose, sells
+ * when it fell and holds when it stayed within the hold band.
+ */
+
+import { PrismaClient, Prisma, TradingSignal } from '@prisma/client';
+import { Logger } from '../utils/logger';
+import { CombinedTokenAnalysis } from '../types/api.types';
+
+export const SIGNAL_TYPES = ['STRONG_BUY', 'BUY', 'HOLD', 'SELL', 'STRONG_SELL'] as const;
+
+export type SignalType = typeof SIGNAL_TYPES[number];
+
+export interface SignalServiceConfig {
+  weights: { momentum: number; flow: number; liquidity: number; safety: number };
+  buyThreshold: number; // blended score for BUY, negated for SELL
+  strongThreshold: number; // blended score for STRONG_BUY, negated for STRONG_SELL
+  minTxnsForFlow: number; // fewer transactions in a window carry no flow signal
+  liquidityPullPercent: number; // a drop this large forces STRONG_SELL
+  safetyDropPoints: number; // a drop this large (0-100 scale) forces STRONG_SELL
+  evaluationHorizonMs: number;
+  evaluationGraceMs: number; // how long after the horizon a late snapshot still counts
+  holdBandPercent: number;
+  evaluationBatchSize: number;
+}
+
+// The token's state before the current analysis was stored
+export interface SignalBaseline {
+  liquidity: number | null;
+  safetyScore: number | null; // 0-100
+}
+
+export interface SignalComponents {
+  momentum: number;
+  flow: number;
+  liquidity: number;
+  safety: number;
+}
+
+export interface GeneratedSignal {
+  type: SignalType;
+  strength: number; // 0-1, confidence in the emitted type
+  reason: string;
+  score: number; // blended -1..1
+  components: SignalComponents;
+}
+
+export interface SignalsOverviewQuery {
+  period: '1h' | '24h' | '7d';
+  signalType?: SignalType;
+  chain?: string;
+}
+
+export interface SignalsOverview {
+  period: string;
+  totalSignals: number;
+  evaluatedSignals: number;
+  pendingSignals: number;
+  signalBreakdown: Record<SignalType, number>;
+  accuracy: {
+    overall: number | null; // percent, null until a signal has been scored
+    byType: Record<SignalType, number | null>;
+  };
+  averageReturn: Record<SignalType, number | null>;
+  topPerformingSignals: OverviewSignal[];
+  recentSignals: OverviewSignal[];
+}
+
+export interface OverviewSignal {
+  id: string;
+  tokenAddress: string;
+  symbol: string;
+  signalType: string;
+  strength: number;
+  reason: string | null;
+  price: number | null;
+  performance: number | null; // realised % return
+  correct: boolean | null;
+  timestamp: string;
+}
+
+const PERIOD_MS: Record<SignalsOverviewQuery['period'], number> = {
+  '1h': 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000
+};
+
+export class SignalService {
+  private readonly logger = Logger.getInstance();
+
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly config: SignalServiceConfig = {
+      weights: { momentum: 0.35, flow: 0.3, liquidity: 0.2, safety: 0.15 },
+      buyThreshold: 0.2,
+      strongThreshold: 0.5,
+      minTxnsForFlow: 10,
+      liquidityPullPercent: 50,
+      safetyDropPoints: 30,
+      evaluationHorizonMs: 4 * 60 * 60 * 1000,
+      evaluationGraceMs: 20 * 60 * 60 * 1000,
+      holdBandPercent: 10,
+      evaluationBatchSize: 200
+    }
+  ) {}
+
+  /**
+   * Derive a signal from a completed analysis and the token's previous state
+   */
+  generateSignal(analysis: CombinedTokenAnalysis, baseline: SignalBaseline | null): GeneratedSignal {
+    const { dexScreener, rugCheck } = analysis;
+    const reasons: string[] = [];
+
+    // Momentum - the 1h move dominates, 5m confirms direction
+    const change1h = dexScreener.priceChange?.h1 ?? 0;
+    const change5m = dexScreener.priceChange?.m5 ?? 0;
+    const momentum = clamp((change1h * 0.7 + change5m * 0.3) / 30);
+    if (dexScreener.priceChange) {
+      reasons.push(`price ${formatPercent(change1h)} 1h, ${formatPercent(change5m)} 5m`);
+    }
+
+    // Order flow - buy share of transactions, centred on zero
+    const imbalance = (window?: { buys: number; sells: number }) => {
+      const total = (window?.buys ?? 0) + (window?.sells ?? 0);
+      return total >= this.config.minTxnsForFlow ? (window!.buys - window!.sells) / total : 0;
+    };
+    const flow = clamp(imbalance(dexScreener.txns?.h1) * 0.6 + imbalance(dexScreener.txns?.m5) * 0.4);
+    if (dexScreener.txns) {
+      const { buys, sells } = dexScreener.txns.h1;
+      reasons.push(`${buys} buys / ${sells} sells 1h`);
+    }
+
+    // Liquidity change since the previous snapshot
+    let liquidityChange: number | null = null;
+    if (baseline?.liquidity && baseline.liquidity > 0) {
+      liquidityChange = (dexScreener.liquidity / baseline.liquidity - 1) * 100;
+      reasons.push(`liquidity ${formatPercent(liquidityChange)}`);
+    }
+    const liquidity = liquidityChange === null ? 0 : clamp(liquidityChange / 50);
+
+    // Safety-score change, in points on the 0-100 scale
+    const safetyScore = rugCheck.safetyScore * 10;
+    let safetyDelta: number | null = null;
+    if (baseline?.safetyScore !== null && baseline?.safetyScore !== undefined) {
+      safetyDelta = safetyScore - baseline.safetyScore;
+      if (safetyDelta !== 0) reasons.push(`safety ${safetyDelta > 0 ? '+' : ''}${round(safetyDelta)} pts`);
+    }
+    const safety = safetyDelta === null ? 0 : clamp(safetyDelta / 20);
+
+    const components = { momentum: round(momentum), flow: round(flow), liquidity: round(liquidity), safety: round(safety) };
+    const { weights } = this.config;
+    const score = round(clamp(
+      momentum * weights.momentum + flow * weights.flow + liquidity * weights.liquidity + safety * weights.safety
+    ));
+
+    // Exit conditions that no amount of momentum outweighs
+    const overrides: string[] = [];
+    if (rugCheck.honeypotRisk === 'high') overrides.push('honeypot risk');
+    if (liquidityChange !== null && liquidityChange <= -this.config.liquidityPullPercent) {
+      overrides.push(`liquidity pulled ${formatPercent(liquidityChange)}`);
+    }
+    if (safetyDelta !== null && safetyDelta <= -this.config.safetyDropPoints) {
+      overrides.push(`safety dropped ${round(-safetyDelta)} pts`);
+    }
+
+    if (overrides.length > 0) {
+      return { type: 'STRONG_SELL', strength: 1, reason: capitalize(overrides.join('; ')), score, components };
+    }
+
+    const { buyThreshold, strongThreshold } = this.config;
+    let type: SignalType = 'HOLD';
+    if (score >= strongThreshold) type = 'STRONG_BUY';
+    else if (score >= buyThreshold) type = 'BUY';
+    else if (score <= -strongThreshold) type = 'STRONG_SELL';
+    else if (score <= -buyThreshold) type = 'SELL';
+
+    const strength = type === 'HOLD'
+      ? round(1 - Math.abs(score) / buyThreshold)
+      : round(Math.abs(score));
+
+    return {
+      type,
+      strength,
+      reason: capitalize(reasons.length > 0 ? reasons.join('; ') : 'no momentum, flow or change data'),
+      score,
+      components
+    };
+  }
+
+  /**
+   * Generate and store the signal for a token whose analysis was just stored
+   */
+  async recordSignal(
+    client: Prisma.TransactionClient,
+    tokenId: string,
+    analysis: CombinedTokenAnalysis,
+    baseline: SignalBaseline | null
+  ): Promise<TradingSignal> {
+    const signal = this.generateSignal(analysis, baseline);
+
+    return client.tradingSignal.create({
+      data: {
+        tokenId,
+        type: signal.type,
+        strength: signal.strength,
+        reason: signal.reason,
+        price: analysis.dexScreener.price,
+        data: {
+          score: signal.score,
+          components: { ...signal.components },
+          priceChange: analysis.dexScreener.priceChange ?? null,
+          txns: analysis.dexScreener.txns ?? null,
+          liquidity: analysis.dexScreener.liquidity,
+          previousLiquidity: baseline?.liquidity ?? null,
+          safetyScore: analysis.rugCheck.safetyScore * 10,
+          previousSafetyScore: baseline?.safetyScore ?? null
+        }
+      }
+    });
+  }
+
+  /**
+   * Score signals whose horizon has passed against the price observed there.
+   * Returns the number of signals scored.
+   */
+  async evaluateSignals(now: Date = new Date()): Promise<number> {
+    const { evaluationHorizonMs, evaluationGraceMs } = this.config;
+
+    const signals = await this.prisma.tradingSignal.findMany({
+      where: {
+        evaluatedAt: null,
+        timestamp: { lte: new Date(now.getTime() - evaluationHorizonMs) }
+      },
+      orderBy: { timestamp: 'asc' },
+      take: this.config.evaluationBatchSize
+    });
+
+    let evaluated = 0;
+
+    for (const signal of signals) {
+      const horizon = new Date(signal.timestamp.getTime() + evaluationHorizonMs);
+      const windowEnd = new Date(horizon.getTime() + evaluationGraceMs);
+
+      const snapshots = await this.prisma.priceData.findMany({
+        where: { tokenId: signal.tokenId, timestamp: { gt: signal.timestamp, lte: windowEnd } },
+        orderBy: { timestamp: 'asc' },
+        select: { price: true, timestamp: true }
+      });
+
+      // First snapshot at or past the horizon, else the last one before it
+      const outcome = snapshots.find(snapshot => snapshot.timestamp >= horizon) ??
+        (now >= windowEnd ? snapshots[snapshots.length - 1] : undefined);
+
+      if (!outcome && now < windowEnd) {
+        continue; // a later snapshot may still arrive
+      }
+
+      const entryPrice = signal.price;
+      const outcomeReturn = outcome && entryPrice && entryPrice > 0
+        ? round((outcome.price / entryPrice - 1) * 100)
+        : null;
+
+      await this.prisma.tradingSignal.update({
+        where: { id: signal.id },
+        data: {
+          evaluatedAt: now,
+          outcomePrice: outcome?.price ?? null,
+          outcomeReturn,
+          correct: outcomeReturn === null ? null : this.isCorrect(signal.type, outcomeReturn)
+        }
+      });
+
+      evaluated++;
+    }
+
+    if (evaluated > 0) {
+      this.logger.info('Trading signals evaluated', { evaluated, pending: signals.length - evaluated });
+    }
+
+    return evaluated;
+  }
+
+  isCorrect(type: string, outcomeReturn: number): boolean {
+    switch (type) {
+      case 'BUY':
+      case 'STRONG_BUY':
+        return outcomeReturn > 0;
+      case 'SELL':
+      case 'STRONG_SELL':
+        return outcomeReturn < 0;
+      default:
+        return Math.abs(outcomeReturn) <= this.config.holdBandPercent;
+    }
+  }
+
+  async getOverview(query: SignalsOverviewQuery, now: Date = new Date()): Promise<SignalsOverview> {
+    const where: Prisma.TradingSignalWhereInput = {
+      timestamp: { gte: new Date(now.getTime() - PERIOD_MS[query.period]) },
+      ...(query.signalType && { type: query.signalType }),
+      ...(query.chain && { token: { chain: query.chain } })
+    };
+    const scored: Prisma.TradingSignalWhereInput = { ...where, correct: { not: null } };
+    const include = { token: { select: { address: true, symbol: true } } } as const;
+
+    const [byType, scoredByType, pendingSignals, topSignals, recentSignals] = await Promise.all([
+      this.prisma.tradingSignal.groupBy({ by: ['type'], where, _count: { _all: true } }),
+      this.prisma.tradingSignal.groupBy({ by: ['type', 'correct'], where: scored, _count: { _all: true }, _avg: { outcomeReturn: true } }),
+      this.prisma.tradingSignal.count({ where: { ...where, evaluatedAt: null } }),
+      this.prisma.tradingSignal.findMany({
+        where: { ...scored, type: query.signalType ?? { in: ['BUY', 'STRONG_BUY'] } },
+        orderBy: { outcomeReturn: 'desc' },
+        take: 5,
+        include
+      }),
+      this.prisma.tradingSignal.findMany({ where, orderBy: { timestamp: 'desc' }, take: 10, include })
+    ]);
+
+    const signalBreakdown = emptyByType(0);
+    for (const row of byType) {
+      if (isSignalType(row.type)) signalBreakdown[row.type] = row._count._all;
+    }
+
+    // Correct and incorrect rows per type, with their return sums for averaging
+    const totals = emptyByType<{ correct: number; total: number; returnSum: number } | null>(null);
+    for (const row of scoredByType) {
+      if (!isSignalType(row.type)) continue;
+      const entry = totals[row.type] ?? { correct: 0, total: 0, returnSum: 0 };
+      entry.total += row._count._all;
+      entry.returnSum += (row._avg.outcomeReturn ?? 0) * row._count._all;
+      if (row.correct) entry.correct += row._count._all;
+      totals[row.type] = entry;
+    }
+
+    const byTypeAccuracy = emptyByType<number | null>(null);
+    const averageReturn = emptyByType<number | null>(null);
+    let correct = 0;
+    let evaluatedSignals = 0;
+
+    for (const type of SIGNAL_TYPES) {
+      const entry = totals[type];
+      if (!entry) continue;
+      byTypeAccuracy[type] = round((entry.correct / entry.total) * 100);
+      averageReturn[type] = round(entry.returnSum / entry.total);
+      correct += entry.correct;
+      evaluatedSignals += entry.total;
+    }
+
+    return {
+      period: query.period,
+      totalSignals: Object.values(signalBreakdown).reduce((sum, count) => sum + count, 0),
+      evaluatedSignals,
+      pendingSignals,
+      signalBreakdown,
+      accuracy: {
+        overall: evaluatedSignals > 0 ? round((correct / evaluatedSignals) * 100) : null,
+        byType: byTypeAccuracy
+      },
+      averageReturn,
+      topPerformingSignals: topSignals.map(toOverviewSignal),
+      recentSignals: recentSignals.map(toOverviewSignal)
+    };
+  }
+}
+
+type SignalWithToken = TradingSignal & { token: { address: string; symbol: string } };
+
+function toOverviewSignal(signal: SignalWithToken): OverviewSignal {
+  return {
+    id: signal.id,
+    tokenAddress: signal.token.address,
+    symbol: signal.token.symbol,
+    signalType: signal.type,
+    strength: signal.strength,
+    reason: signal.reason,
+    price: signal.price,
+    performance: signal.outcomeReturn,
+    correct: signal.correct,
+    timestamp: signal.timestamp.toISOString()
+  };
+}
+
+function isSignalType(type: string): type is SignalType {
+  return (SIGNAL_TYPES as readonly string[]).includes(type);
+}
+
+function emptyByType<T>(value: T): Record<SignalType, T> {
+  return Object.fromEntries(SIGNAL_TYPES.map(type => [type, value])) as Record<SignalType, T>;
+}
+
+function clamp(value: number): number {
+  return Math.max(-1, Math.min(1, value));
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function formatPercent(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(1)}%`;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -8,6 +8,9 @@ import {
   SolscanTokenData,
   SolscanCreatorInfo,
   SolscanTokenHolder,
+  HolderCluster,
+  HolderClusterReason,
+  HolderClusterReport,
   ApiResponse,
   TokenFilterCriteria,
   ServiceHealthCheck
@@ -15,6 +18,16 @@ import {
 import { RateLimiter, DEFAULT_RATE_LIMITS, DEFAULT_RETRY_CONFIG } from '../utils/rate-limiter';
 import { globalCache } from '../utils/cache';
 import { Logger } from '../utils/logger';
+import { addressKey } from '../utils/address';
+import {
+  createOnChainProvider,
+  CreatorHistory,
+  fetchFromProvider,
+  OnChainDataProvider,
+  SourcedData,
+  WalletFunding
+} from './onchain';
+import { CreatorReputationService } from './creator-reputation.service';
 
 export interface SolscanTransaction {
   signature: string;
@@ -50,24 +63,129 @@ export interface SolscanAccountTokens {
   };
 }
 
+export interface HolderClusterConfig {
+  maxTracedHolders: number; // largest holders whose funding is traced
+  fundingSlotWindow: number; // wallets funded this many slots apart or closer are linked
+  ignoredFunders: string[]; // e.g. exchange hot wallets that fund unrelated users
+}
+
+export const DEFAULT_HOLDER_CLUSTER_CONFIG: HolderClusterConfig = {
+  maxTracedHolders: 20,
+  fundingSlotWindow: 5,
+  ignoredFunders: []
+};
+
+/**
+ * Group holder wallets that share a funder, were funded by another holder or
+ * were funded within the same slot window, and measure the supply each group
+ * controls. Token accounts are merged per owner first. A wallet funded by the
+ * creator forms a cluster on its own.
+ */
+export function clusterHolders(
+  holders: SolscanTokenHolder[],
+  fundings: WalletFunding[],
+  totalSupply: number,
+  creator: string | null,
+  config: Pick<HolderClusterConfig, 'fundingSlotWindow' | 'ignoredFunders'> = DEFAULT_HOLDER_CLUSTER_CONFIG
+): HolderClusterReport {
+  const balances = new Map<string, number>();
+  for (const holder of holders) {
+    const wallet = holder.owner && holder.owner !== 'unknown' ? holder.owner : holder.address;
+    balances.set(wallet, (balances.get(wallet) ?? 0) + parseFloat(holder.amount));
+  }
+
+  const ignored = new Set(config.ignoredFunders);
+  const traced = fundings.filter(funding =>
+    balances.has(funding.wallet) && funding.funder !== null && !ignored.has(funding.funder)
+  );
+
+  // Union-find over wallets, remembering why each pair was joined
+  const parent = new Map<string, string>([...balances.keys()].map(wallet => [wallet, wallet]));
+  const find = (wallet: string): string => {
+    const root = parent.get(wallet)!;
+    if (root === wallet) return wallet;
+    const top = find(root);
+    parent.set(wallet, top);
+    return top;
+  };
+  const links: Array<{ wallet: string; reason: HolderClusterReason }> = [];
+  const link = (a: string, b: string, reason: HolderClusterReason) => {
+    parent.set(find(a), find(b));
+    links.push({ wallet: a, reason }, { wallet: b, reason });
+  };
+
+  const byFunder = new Map<string, string[]>();
+  for (const { wallet, funder } of traced) {
+    byFunder.set(funder!, [...(byFunder.get(funder!) ?? []), wallet]);
+    if (balances.has(funder!)) link(wallet, funder!, 'funded_by_holder');
+    if (funder === creator) links.push({ wallet, reason: 'creator_funded' });
+  }
+  for (const wallets of byFunder.values()) {
+    wallets.slice(1).forEach(wallet => link(wallets[0], wallet, 'shared_funder'));
+  }
+
+  const bySlot = traced.filter(funding => funding.slot !== null).sort((a, b) => a.slot! - b.slot!);
+  for (let i = 1; i < bySlot.length; i++) {
+    if (bySlot[i].slot! - bySlot[i - 1].slot! <= config.fundingSlotWindow) {
+      link(bySlot[i - 1].wallet, bySlot[i].wallet, 'same_slot_window');
+    }
+  }
+
+  const share = (amount: number) => (totalSupply > 0 ? Math.min(100, (amount / totalSupply) * 100) : 100);
+  const groups = new Map<string, string[]>();
+  for (const wallet of balances.keys()) {
+    groups.set(find(wallet), [...(groups.get(find(wallet)) ?? []), wallet]);
+  }
+
+  const clusters: HolderCluster[] = [];
+  const entityAmounts: number[] = [];
+  for (const wallets of groups.values()) {
+    const members = new Set(wallets);
+    const amount = wallets.reduce((sum, wallet) => sum + balances.get(wallet)!, 0);
+    const reasons = [...new Set(links.filter(entry => members.has(entry.wallet)).map(entry => entry.reason))];
+    entityAmounts.push(amount);
+
+    if (wallets.length > 1 || reasons.includes('creator_funded')) {
+      clusters.push({
+        wallets: wallets.sort((a, b) => balances.get(b)! - balances.get(a)!),
+        funders: [...new Set(traced.filter(funding => members.has(funding.wallet)).map(funding => funding.funder!))],
+        reasons,
+        supplyPercentage: share(amount)
+      });
+    }
+  }
+  clusters.sort((a, b) => b.supplyPercentage - a.supplyPercentage);
+
+  const topEntities = entityAmounts.sort((a, b) => b - a).slice(0, 3);
+
+  return {
+    clusters,
+    clusteredSupplyPercentage: Math.min(100, clusters.reduce((sum, cluster) => sum + cluster.supplyPercentage, 0)),
+    largestClusterPercentage: clusters[0]?.supplyPercentage ?? 0,
+    effectiveTopHoldersPercentage: share(topEntities.reduce((sum, amount) => sum + amount, 0)),
+    analyzedHolders: balances.size,
+    tracedHolders: fundings.filter(funding => balances.has(funding.wallet) && funding.funder !== null).length
+  };
+}
+
 export class SolscanService {
   private readonly client: AxiosInstance;
   private readonly rateLimiter: RateLimiter;
   private readonly logger = Logger.getInstance();
   private readonly serviceName = 'solscan';
 
-  // Known patterns for suspicious behavior
-  private readonly suspiciousWalletPatterns = [
-    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i, // UUID pattern
-    /^test/i,
-    /^temp/i,
-    /^fake/i
-  ];
-
   // Minimum age for established creators (30 days)
   private readonly minCreatorAge = 30 * 24 * 60 * 60 * 1000;
 
-  constructor(private readonly apiKey?: string) {
+  constructor(
+    private readonly apiKey?: string,
+    private readonly onChain: OnChainDataProvider = createOnChainProvider(),
+    private readonly creatorRecords?: Pick<CreatorReputationService, 'getRugLabels'>,
+    private readonly clusterConfig: HolderClusterConfig = {
+      ...DEFAULT_HOLDER_CLUSTER_CONFIG,
+      ignoredFunders: (process.env.HOLDER_CLUSTER_IGNORED_FUNDERS || '').split(',').map(funder => funder.trim()).filter(Boolean)
+    }
+  ) {
     this.client = axios.create({
       baseURL: 'https://public-api.solscan.io',
       timeout: 20000,
@@ -119,7 +237,7 @@ export class SolscanService {
     filters?: TokenFilterCriteria
   ): Promise<ApiResponse<SolscanTokenData>> {
     try {
-      const cacheKey = `solscan:analysis:${tokenAddress.toLowerCase()}`;
+      const cacheKey = `solscan:analysis:${addressKey(tokenAddress)}`;
 
       // Check cache first
       const cached = globalCache.get<SolscanTokenData>(cacheKey);
@@ -136,27 +254,34 @@ export class SolscanService {
       const result = await this.rateLimiter.executeWithBackoff(
         this.serviceName,
         async () => {
-          // Perform comprehensive creator and holder analysis
-          const [tokenInfo, holders, creatorAnalysis] = await Promise.allSettled([
+          // Perform comprehensive creator and holder analysis; each lookup
+          // falls back to the on-chain provider and never rejects
+          const [tokenInfo, holders, creatorInfo] = await Promise.all([
             this.getTokenInfo(tokenAddress),
             this.getTokenHolders(tokenAddress),
             this.analyzeCreator(tokenAddress)
           ]);
 
-          return {
-            tokenInfo: tokenInfo.status === 'fulfilled' ? tokenInfo.value : null,
-            holders: holders.status === 'fulfilled' ? holders.value : [],
-            creatorInfo: creatorAnalysis.status === 'fulfilled' ? creatorAnalysis.value : null
-          };
+          // Funding traces need the holder list first
+          const funding = await this.traceHolderFunding(tokenAddress, holders.data);
+
+          return { tokenInfo, holders, creatorInfo, funding };
         },
         DEFAULT_RETRY_CONFIG
       );
 
       const analysis = await this.buildTokenAnalysis(
         tokenAddress,
-        result.tokenInfo,
-        result.holders,
-        result.creatorInfo
+        result.tokenInfo.data,
+        result.holders.data,
+        result.creatorInfo.data,
+        result.funding.data,
+        {
+          tokenInfo: result.tokenInfo.source,
+          holders: result.holders.source,
+          creator: result.creatorInfo.source,
+          funding: result.funding.source
+        }
       );
 
       // Apply filters
@@ -174,7 +299,8 @@ export class SolscanService {
         address: tokenAddress,
         creatorRugs: analysis.creatorInfo.ruggedTokens,
         successRate: analysis.creatorInfo.successRate,
-        topHoldersPercentage: analysis.topHoldersPercentage
+        topHoldersPercentage: analysis.topHoldersPercentage,
+        effectiveTopHoldersPercentage: analysis.holderClusters.effectiveTopHoldersPercentage
       });
 
       return {
@@ -199,19 +325,30 @@ export class SolscanService {
     }
   }
 
-  private async getTokenInfo(address: string): Promise<SolscanTokenInfo | null> {
+  private async getTokenInfo(address: string): Promise<SourcedData<SolscanTokenInfo | null>> {
     try {
       const response = await this.client.get(`/token/meta`, {
         params: { tokenAddress: address }
       });
-      return response.data;
+      return { data: response.data, source: this.serviceName };
     } catch (error) {
-      // Fallback to simulation for testing
-      return this.simulateTokenInfo(address);
+      return fetchFromProvider(this.onChain, 'mint info', address, null, async () => {
+        const mint = await this.onChain.getMintInfo(address);
+        // Creator comes from the provider's creator history instead
+        return mint && {
+          address,
+          symbol: '',
+          name: '',
+          decimals: mint.decimals,
+          supply: mint.supply,
+          creator: '',
+          createdTime: 0
+        };
+      });
     }
   }
 
-  private async getTokenHolders(address: string): Promise<SolscanTokenHolder[]> {
+  private async getTokenHolders(address: string): Promise<SourcedData<SolscanTokenHolder[]>> {
     try {
       const response = await this.client.get(`/token/holders`, {
         params: {
@@ -221,7 +358,7 @@ export class SolscanService {
         }
       });
 
-      return response.data?.data?.map((holder: Record<string, unknown>, index: number) => ({
+      const holders = response.data?.data?.map((holder: Record<string, unknown>, index: number) => ({
         address: holder.address as string,
         amount: holder.amount as string,
         decimals: holder.decimals as number,
@@ -229,80 +366,92 @@ export class SolscanService {
         rank: index + 1
       })) || [];
 
+      return { data: holders, source: this.serviceName };
+
     } catch (error) {
-      // Fallback to simulation
-      return this.simulateTokenHolders(address);
+      return fetchFromProvider(this.onChain, 'holder accounts', address, [], async () => {
+        const accounts = await this.onChain.getHolderAccounts(address, 50);
+        return accounts && accounts.map((account, index) => ({ ...account, rank: index + 1 }));
+      });
     }
   }
 
-  private async analyzeCreator(tokenAddress: string): Promise<SolscanCreatorInfo | null> {
-    try {
-      // First get token info to find creator
-      const tokenInfo = await this.getTokenInfo(tokenAddress);
-      if (!tokenInfo?.creator) {
-        return null;
-      }
+  /**
+   * Solscan's public API has no "tokens created by" lookup, so creator
+   * history always comes from the on-chain provider. Rug labels come from
+   * the creator reputation store where it has judged a token.
+   */
+  private async analyzeCreator(tokenAddress: string): Promise<SourcedData<SolscanCreatorInfo | null>> {
+    return fetchFromProvider(this.onChain, 'creator history', tokenAddress, null, async () => {
+      const history = await this.onChain.getCreatorHistory(tokenAddress);
+      return history && this.analyzeCreatorBehavior(await this.applyRugLabels(history));
+    });
+  }
 
-      // Get creator's token history
-      const creatorTokens = await this.getCreatorTokenHistory(tokenInfo.creator);
-      const analysis = this.analyzeCreatorBehavior(tokenInfo.creator, creatorTokens);
+  /**
+   * Funding sources of the largest holders' owner wallets. Like creator
+   * history, this only comes from the on-chain provider.
+   */
+  private async traceHolderFunding(
+    tokenAddress: string,
+    holders: SolscanTokenHolder[]
+  ): Promise<SourcedData<WalletFunding[]>> {
+    const wallets = [...new Set(holders
+      .slice(0, this.clusterConfig.maxTracedHolders)
+      .map(holder => (holder.owner && holder.owner !== 'unknown' ? holder.owner : holder.address)))];
+
+    if (wallets.length === 0) {
+      return { data: [], source: 'unavailable' };
+    }
 
-      return analysis;
+    return fetchFromProvider(this.onChain, 'wallet funding', tokenAddress, [], () => this.onChain.getWalletFunding(wallets));
+  }
 
-    } catch (error) {
-      this.logger.warn('Failed to analyze creator', { tokenAddress, error });
-      return this.simulateCreatorInfo();
+  private async applyRugLabels(history: CreatorHistory): Promise<CreatorHistory> {
+    if (!this.creatorRecords) {
+      return history;
     }
-  }
 
-  private async getCreatorTokenHistory(creatorAddress: string): Promise<SolscanTokenInfo[]> {
     try {
-      // Get account's SPL token transactions to find created tokens
-      const response = await this.client.get(`/account/splTransfers`, {
-        params: {
-          account: creatorAddress,
-          limit: 100
-        }
-      });
-
-      // This would need more sophisticated analysis in practice
-      // For now, return simulation data
-      return this.simulateCreatorTokens(creatorAddress);
-
+      const labels = await this.creatorRecords.getRugLabels(history.tokens.map(token => token.address));
+      return {
+        ...history,
+        tokens: history.tokens.map(token => ({ ...token, rugged: labels.get(token.address) ?? token.rugged }))
+      };
     } catch (error) {
-      return this.simulateCreatorTokens(creatorAddress);
+      this.logger.warn('Creator rug labels unavailable', {
+        creator: history.creator,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return history;
     }
   }
 
-  private analyzeCreatorBehavior(
-    creatorAddress: string,
-    tokens: SolscanTokenInfo[]
-  ): SolscanCreatorInfo {
+  private analyzeCreatorBehavior(history: CreatorHistory): SolscanCreatorInfo {
     const now = Date.now();
+    const tokens = history.tokens;
 
     // Calculate metrics
     const createdTokens = tokens.length;
-    const firstToken = tokens.sort((a, b) => a.createdTime - b.createdTime)[0];
-    const firstTokenDate = firstToken ? new Date(firstToken.createdTime * 1000) : new Date();
+    const firstTokenDate = tokens.reduce<Date | null>(
+      (earliest, token) => (!earliest || token.createdAt < earliest ? token.createdAt : earliest),
+      null
+    ) ?? history.mintCreatedAt ?? new Date();
 
-    // Simulate rug detection (in practice would analyze price/liquidity history)
-    const ruggedTokens = tokens.filter(token => {
-      // Simulate rug detection logic
-      const age = (now - token.createdTime * 1000) / (1000 * 60 * 60 * 24); // days
-      return age > 7 && Math.random() < 0.3; // 30% chance of being rugged after 7 days
-    }).length;
+    // Only tokens positively identified as rugs count
+    const ruggedTokens = tokens.filter(token => token.rugged === true).length;
 
     const successfulTokens = createdTokens - ruggedTokens;
     const successRate = createdTokens > 0 ? (successfulTokens / createdTokens) * 100 : 0;
 
     // Calculate average holding time (simplified)
     const averageHolding = tokens.reduce((sum, token) => {
-      const holdingDays = (now - token.createdTime * 1000) / (1000 * 60 * 60 * 24);
+      const holdingDays = (now - token.createdAt.getTime()) / (1000 * 60 * 60 * 24);
       return sum + Math.min(holdingDays, 30); // Cap at 30 days
     }, 0) / Math.max(tokens.length, 1);
 
     return {
-      address: creatorAddress,
+      address: history.creator,
       createdTokens,
       ruggedTokens,
       successfulTokens,
@@ -316,11 +465,16 @@ export class SolscanService {
     tokenAddress: string,
     tokenInfo: SolscanTokenInfo | null,
     holders: SolscanTokenHolder[],
-    creatorInfo: SolscanCreatorInfo | null
+    creatorInfo: SolscanCreatorInfo | null,
+    funding: WalletFunding[],
+    dataSources: SolscanTokenData['dataSources']
   ): Promise<SolscanTokenData> {
     // Calculate top holders percentage (top 3)
     const topHolders = holders.slice(0, 3);
-    const totalSupply = holders.reduce((sum, holder) => {
+
+    // Prefer the mint supply: the holder list only covers the largest accounts
+    const mintSupply = tokenInfo?.supply ? parseFloat(tokenInfo.supply) : 0;
+    const totalSupply = mintSupply > 0 ? mintSupply : holders.reduce((sum, holder) => {
       return sum + parseFloat(holder.amount);
     }, 0);
 
@@ -328,47 +482,30 @@ export class SolscanService {
       return sum + parseFloat(holder.amount);
     }, 0);
 
-    const topHoldersPercentage = totalSupply > 0 ? (topHoldersAmount / totalSupply) * 100 : 100;
+    const topHoldersPercentage = totalSupply > 0 ? Math.min(100, (topHoldersAmount / totalSupply) * 100) : 100;
 
-    // Analyze funding patterns
-    const fundingPattern = this.analyzeFundingPattern(holders);
+    // Cluster holders by funding source
+    const creatorWallet = tokenInfo?.creator || creatorInfo?.address || 'unknown';
+    const holderClusters = clusterHolders(
+      holders.slice(0, this.clusterConfig.maxTracedHolders),
+      funding,
+      totalSupply,
+      creatorWallet === 'unknown' ? null : creatorWallet,
+      this.clusterConfig
+    );
 
     return {
-      address: tokenAddress.toLowerCase(),
-      creatorWallet: tokenInfo?.creator || 'unknown',
-      creatorInfo: creatorInfo || this.simulateCreatorInfo(),
+      address: addressKey(tokenAddress),
+      creatorWallet,
+      creatorInfo: creatorInfo || this.unknownCreatorInfo(),
       topHolders,
       topHoldersPercentage,
-      fundingPattern,
+      holderClusters,
+      dataSources,
       filtered: false
     };
   }
 
-  private analyzeFundingPattern(holders: SolscanTokenHolder[]): 'organic' | 'suspicious' | 'coordinated' {
-    // Analyze distribution patterns
-    if (holders.length < 10) return 'suspicious';
-
-    // Check for unusual concentration patterns
-    const amounts = holders.map(h => parseFloat(h.amount));
-    const sortedAmounts = [...amounts].sort((a, b) => b - a);
-
-    // If top holder has more than 50%, it's suspicious
-    if (sortedAmounts[0] / amounts.reduce((sum, amt) => sum + amt, 0) > 0.5) {
-      return 'suspicious';
-    }
-
-    // Check for coordinated wallets (similar amounts, suspicious addresses)
-    const suspiciousCount = holders.filter(holder =>
-      this.suspiciousWalletPatterns.some(pattern => pattern.test(holder.address))
-    ).length;
-
-    if (suspiciousCount > holders.length * 0.3) {
-      return 'coordinated';
-    }
-
-    return 'organic';
-  }
-
   private applyCreatorFilters(
     analysis: SolscanTokenData,
     filters: TokenFilterCriteria
@@ -391,75 +528,31 @@ export class SolscanService {
       };
     }
 
-    return { passed: true };
-  }
-
-  // Simulation methods for testing when API is unavailable
-  private simulateTokenInfo(address: string): SolscanTokenInfo {
-    return {
-      address,
-      symbol: 'TEST',
-      name: 'Test Token',
-      decimals: 9,
-      supply: '1000000000000000000',
-      creator: `creator-${address.slice(0, 8)}`,
-      createdTime: Date.now() / 1000 - Math.random() * 86400 * 30 // Random time in last 30 days
-    };
-  }
-
-  private simulateTokenHolders(address: string): SolscanTokenHolder[] {
-    const holderCount = Math.floor(Math.random() * 50) + 10;
-    const holders: SolscanTokenHolder[] = [];
-
-    for (let i = 0; i < holderCount; i++) {
-      const amount = Math.floor(Math.random() * 1000000 * (holderCount - i)).toString();
-      holders.push({
-        address: `holder-${i}-${address.slice(0, 8)}`,
-        amount,
-        decimals: 9,
-        owner: `owner-${i}`,
-        rank: i + 1
-      });
+    // Same check with funding clusters counted as one holder
+    const effectiveShare = analysis.holderClusters.effectiveTopHoldersPercentage;
+    if (filters.maxEffectiveTopHoldersPercentage !== undefined &&
+        effectiveShare > filters.maxEffectiveTopHoldersPercentage) {
+      return {
+        passed: false,
+        reason: `Effective top holders concentration too high: ${effectiveShare.toFixed(1)}% > ${filters.maxEffectiveTopHoldersPercentage}%`
+      };
     }
 
-    return holders;
+    return { passed: true };
   }
 
-  private simulateCreatorInfo(): SolscanCreatorInfo {
-    const createdTokens = Math.floor(Math.random() * 10) + 1;
-    const ruggedTokens = Math.floor(Math.random() * createdTokens * 0.4);
-    const successfulTokens = createdTokens - ruggedTokens;
-
+  private unknownCreatorInfo(): SolscanCreatorInfo {
     return {
-      address: 'simulated-creator',
-      createdTokens,
-      ruggedTokens,
-      successfulTokens,
-      successRate: (successfulTokens / createdTokens) * 100,
-      firstTokenDate: new Date(Date.now() - Math.random() * 365 * 24 * 60 * 60 * 1000),
-      averageHolding: Math.random() * 30
+      address: 'unknown',
+      createdTokens: 0,
+      ruggedTokens: 0,
+      successfulTokens: 0,
+      successRate: 0,
+      firstTokenDate: new Date(),
+      averageHolding: 0
     };
   }
 
-  private simulateCreatorTokens(creatorAddress: string): SolscanTokenInfo[] {
-    const tokenCount = Math.floor(Math.random() * 8) + 1;
-    const tokens: SolscanTokenInfo[] = [];
-
-    for (let i = 0; i < tokenCount; i++) {
-      tokens.push({
-        address: `token-${i}-${creatorAddress}`,
-        symbol: `TOK${i}`,
-        name: `Token ${i}`,
-        decimals: 9,
-        supply: '1000000000000000000',
-        creator: creatorAddress,
-        createdTime: Date.now() / 1000 - Math.random() * 86400 * 90 // Random time in last 90 days
-      });
-    }
-
-    return tokens;
-  }
-
   async healthCheck(): Promise<ServiceHealthCheck> {
     const startTime = Date.now();
 
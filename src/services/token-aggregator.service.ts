@@ -4,14 +4,18 @@
  *
  * Coordinates all API services every 5 minutes:
  * - Discovers new tokens via DEXScreener
+ * - Optionally streams newly created pools from a discovery source between runs
+ * - Optionally runs analyses through the durable pipeline job queue
  * - Processes through TokenPipelineService
  * - Applies comprehensive filter pipeline
  * - Stores results in database
+ * - Optionally records every run, and the outcome per token, in pipeline_runs
  * - Emits real-time events for frontend
  */
 
 import { EventEmitter } from 'events';
 import * as cron from 'node-cron';
+import { PipelineJob, Prisma, PrismaClient } from '@prisma/client';
 import {
   CombinedTokenAnalysis,
   TokenFilterCriteria,
@@ -20,12 +24,26 @@ import {
 } from '../types/api.types';
 import { TokenPipelineService, PipelineConfig } from './token-pipeline.service';
 import { DexScreenerService } from './dexscreener.service';
-import { RugCheckService } from './rugcheck.service';
+import { RugCheckService, isLikelyHoneypot } from './rugcheck.service';
 import { JupiterService } from './jupiter.service';
 import { SolscanService } from './solscan.service';
 import { HealthCheckService } from './health-check.service';
+import { SignalService } from './signal.service';
+import { CreatorReputationService } from './creator-reputation.service';
+import { extractScoringInputs, OVERALL_SCORE_ANALYSIS, scoringProfileService, StoredScoringData } from './scoring';
 import { Logger } from '../utils/logger';
 import { globalCache } from '../utils/cache';
+import { addressKey } from '../utils/address';
+import { DiscoveredPool, DiscoveryFeed, DiscoveryFeedStats, DiscoverySource } from './discovery';
+import {
+  AggregationRun,
+  AggregationRunStage,
+  AggregationRunToken,
+  AggregationRunTrigger,
+  countRejections,
+  PipelineRunService
+} from './pipeline-run.service';
+import { PipelineJobResult, PipelineJobService } from './pipeline-job.service';
 
 export interface AggregatorConfig {
   cronSchedule: string; // Default: '*/5 * * * *' (every 5 minutes)
@@ -53,27 +71,33 @@ export interface AggregatorStats {
 
 export interface TokenDiscoveryResult {
   newTokens: string[];
+  skippedTokens: AggregationRunToken[];
   totalDiscovered: number;
   alreadyProcessed: number;
   discoveryTime: number;
+  error?: string;
 }
 
-export interface AggregationRun {
-  id: string;
-  startTime: Date;
-  endTime?: Date;
-  tokensDiscovered: number;
-  tokensProcessed: number;
-  tokensPassed: number;
-  errors: string[];
-  status: 'running' | 'completed' | 'failed';
+export type { AggregationRun } from './pipeline-run.service';
+
+export interface AggregationRunOptions {
+  trigger?: AggregationRunTrigger;
+  runId?: string; // id of a run already recorded as queued
 }
 
+// How long a run waits for its queued jobs; ones still running are stored when they finish but not counted
+const QUEUED_RUN_WAIT_MS = 4 * 60 * 1000;
+const PROCESSED_TOKENS_TTL_MS = 24 * 60 * 60 * 1000;
+const RUN_REQUEST_POLL_MS = 10000;
+
 export class TokenAggregatorService extends EventEmitter {
   private readonly logger = Logger.getInstance();
   private cronJob: cron.ScheduledTask | null = null;
+  private runRequestTimer: NodeJS.Timeout | null = null;
   private readonly tokenPipeline: TokenPipelineService;
   private readonly healthCheck: HealthCheckService;
+  private readonly discoveryFeed: DiscoveryFeed | null;
+  private storageClient: PrismaClient | null = null;
 
   private readonly stats: AggregatorStats = {
     totalRuns: 0,
@@ -117,7 +141,8 @@ export class TokenAggregatorService extends EventEmitter {
 
     // Creator filters: < 3 rugs, Top 3 holders < 60%
     maxCreatorRugs: 2,
-    maxTopHoldersPercentage: 60
+    maxTopHoldersPercentage: 60,
+    maxEffectiveTopHoldersPercentage: 60
   };
 
   private readonly processedTokens = new Set<string>();
@@ -142,7 +167,10 @@ export class TokenAggregatorService extends EventEmitter {
         retryAttempts: 2,
         cacheResults: true
       }
-    }
+    },
+    discoverySource: DiscoverySource | null = null,
+    private readonly jobQueue: PipelineJobService | null = null,
+    private readonly runStore: PipelineRunService | null = null
   ) {
     super();
 
@@ -165,6 +193,14 @@ export class TokenAggregatorService extends EventEmitter {
       this.solscanService
     ]);
 
+    this.discoveryFeed = discoverySource
+      ? new DiscoveryFeed(
+        discoverySource,
+        pool => this.processDiscoveredToken(pool),
+        mint => this.processedTokens.has(addressKey(mint)) || this.blacklistedTokens.has(addressKey(mint))
+      )
+      : null;
+
     this.setupEventListeners();
     this.loadProcessedTokens();
   }
@@ -235,6 +271,21 @@ export class TokenAggregatorService extends EventEmitter {
 
     this.cronJob.start();
 
+    if (this.jobQueue) {
+      void this.startJobQueue(this.jobQueue);
+    }
+
+    if (this.runStore) {
+      this.startRunRequests(this.runStore);
+    }
+
+    // Stream new pools between runs; the cron keeps running if the stream cannot connect
+    this.discoveryFeed?.start().catch(error => {
+      this.logger.error('Failed to start discovery feed', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    });
+
     // Calculate next run time
     this.updateNextRunTime();
 
@@ -254,6 +305,22 @@ export class TokenAggregatorService extends EventEmitter {
     if (this.cronJob) {
       this.cronJob.stop();
       this.cronJob = null;
+      this.discoveryFeed?.stop().catch(error => {
+        this.logger.warn('Failed to stop discovery feed', {
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+      if (this.runRequestTimer) {
+        clearInterval(this.runRequestTimer);
+        this.runRequestTimer = null;
+      }
+      this.jobQueue?.stop()
+        .then(() => this.storageClient?.$disconnect())
+        .catch(error => {
+          this.logger.warn('Failed to stop pipeline job runner', {
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        });
       this.logger.info('Token aggregation service stopped');
 
       this.emit('service:stopped', {
@@ -266,30 +333,43 @@ export class TokenAggregatorService extends EventEmitter {
   /**
    * Run a single aggregation cycle
    */
-  async runAggregation(): Promise<AggregationRun> {
-    const runId = `run-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  async runAggregation(options: AggregationRunOptions = {}): Promise<AggregationRun> {
     const startTime = Date.now();
+    const trigger = options.trigger ?? 'scheduled';
+    const recordedId = options.runId ?? await this.recordRunStart(trigger);
 
     const run: AggregationRun = {
-      id: runId,
+      id: recordedId ?? `run-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      trigger,
       startTime: new Date(),
       tokensDiscovered: 0,
+      tokensSkipped: 0,
       tokensProcessed: 0,
       tokensPassed: 0,
+      tokensFailed: 0,
+      stageTimings: {},
+      rejections: {},
+      tokens: [],
       errors: [],
       status: 'running'
     };
+    const runId = run.id;
 
     this.emit('run:start', runId);
 
     try {
       // Check service health before proceeding
-      await this.verifyServiceHealth();
+      await this.timeStage(run, 'healthCheck', () => this.verifyServiceHealth());
 
       // Phase 1: Token Discovery
       this.logger.info('Phase 1: Token Discovery');
-      const discoveryResult = await this.discoverNewTokens();
+      const discoveryResult = await this.timeStage(run, 'discovery', () => this.discoverNewTokens());
       run.tokensDiscovered = discoveryResult.newTokens.length;
+      run.tokensSkipped = discoveryResult.skippedTokens.length;
+      run.tokens.push(...discoveryResult.skippedTokens);
+      if (discoveryResult.error) {
+        run.errors.push(discoveryResult.error);
+      }
 
       this.emit('token:discovered', discoveryResult.newTokens);
 
@@ -297,38 +377,64 @@ export class TokenAggregatorService extends EventEmitter {
         this.logger.info('No new tokens discovered, ending run');
         run.status = 'completed';
         run.endTime = new Date();
+        this.summarizeRunTokens(run);
         this.emit('run:complete', run);
         return run;
       }
 
+      // Pick up scoring profile changes made in SystemConfig since the last run
+      if (this.config.enableDatabaseStorage) {
+        await this.refreshScoringProfile();
+      }
+
       // Phase 2: Token Processing
       this.logger.info(`Phase 2: Processing ${discoveryResult.newTokens.length} tokens`);
-      const analysisResults = await this.tokenPipeline.processBatch(
-        discoveryResult.newTokens,
-        this.config.filters
-      );
 
-      run.tokensProcessed = analysisResults.length;
+      if (this.jobQueue) {
+        const jobQueue = this.jobQueue;
 
-      // Phase 3: Filter and Store Results
-      this.logger.info('Phase 3: Filtering and Storage');
-      const passedTokens = analysisResults.filter(analysis => analysis.passed);
-      run.tokensPassed = passedTokens.length;
+        // Queued jobs store their own results and survive a restart; the run only counts them
+        const finished = await this.timeStage(run, 'processing', async () => {
+          const jobs = await jobQueue.enqueue(discoveryResult.newTokens, { lane: 'scheduled', filters: this.config.filters });
+          return jobQueue.waitForJobs(jobs.map(job => job.id), QUEUED_RUN_WAIT_MS);
+        });
 
-      // Store passed tokens
-      if (this.config.enableDatabaseStorage) {
-        await this.storeTokenAnalyses(passedTokens);
-      }
+        run.tokensProcessed = finished.filter(job => job.status === 'completed').length;
+        run.tokensPassed = finished.filter(job => (job.result as PipelineJobResult | null)?.passed).length;
+        run.tokens.push(...this.queuedRunTokens(discoveryResult.newTokens, finished));
 
-      // Emit real-time events
-      if (this.config.enableRealTimeEvents) {
-        for (const analysis of passedTokens) {
-          this.emit('token:passed', analysis);
+        if (this.config.enableDatabaseStorage) {
+          await this.evaluateQueuedSignals();
+        }
+      } else {
+        const analysisResults = await this.timeStage(run, 'processing', () => this.tokenPipeline.processBatch(
+          discoveryResult.newTokens,
+          this.config.filters
+        ));
+
+        run.tokensProcessed = analysisResults.length;
+        run.tokens.push(...this.batchRunTokens(discoveryResult.newTokens, analysisResults));
+
+        // Phase 3: Filter and Store Results
+        this.logger.info('Phase 3: Filtering and Storage');
+        const passedTokens = analysisResults.filter(analysis => analysis.passed);
+        run.tokensPassed = passedTokens.length;
+
+        // Store passed tokens
+        if (this.config.enableDatabaseStorage) {
+          await this.timeStage(run, 'storage', () => this.storeTokenAnalyses(passedTokens));
         }
-      }
 
-      // Update processed tokens cache
-      this.updateProcessedTokensCache(discoveryResult.newTokens);
+        // Emit real-time events
+        if (this.config.enableRealTimeEvents) {
+          for (const analysis of passedTokens) {
+            this.emit('token:passed', analysis);
+          }
+        }
+
+        // Update processed tokens cache
+        this.updateProcessedTokensCache(discoveryResult.newTokens);
+      }
 
       // Mark run as completed
       run.status = 'completed';
@@ -338,6 +444,7 @@ export class TokenAggregatorService extends EventEmitter {
       this.stats.lastRunAt = new Date();
       this.updateNextRunTime();
 
+      this.summarizeRunTokens(run);
       this.emit('run:complete', run);
 
       return run;
@@ -354,6 +461,7 @@ export class TokenAggregatorService extends EventEmitter {
       });
 
       this.stats.errorCount++;
+      this.summarizeRunTokens(run);
       this.emit('run:complete', run);
 
       return run;
@@ -367,6 +475,137 @@ export class TokenAggregatorService extends EventEmitter {
       // Record run time
       const runTime = Date.now() - startTime;
       this.recordRunTime(runTime);
+
+      if (recordedId) {
+        await this.recordRunEnd(run);
+      }
+    }
+  }
+
+  private summarizeRunTokens(run: AggregationRun): void {
+    run.tokensFailed = run.tokens.filter(token => token.outcome === 'failed').length;
+    run.rejections = countRejections(run.tokens);
+  }
+
+  private async timeStage<T>(run: AggregationRun, stage: AggregationRunStage, fn: () => Promise<T>): Promise<T> {
+    const stageStart = Date.now();
+
+    try {
+      return await fn();
+    } finally {
+      run.stageTimings[stage] = Date.now() - stageStart;
+    }
+  }
+
+  /**
+   * Outcome per token of a batch run; tokens without an analysis errored or timed out
+   */
+  private batchRunTokens(tokenAddresses: string[], analyses: CombinedTokenAnalysis[]): AggregationRunToken[] {
+    const byAddress = new Map(analyses.map(analysis => [analysis.address, analysis]));
+
+    return tokenAddresses.map(address => {
+      const analysis = byAddress.get(address);
+      if (!analysis) {
+        return { address, outcome: 'failed', reason: 'Analysis failed or timed out', failedFilters: [] };
+      }
+
+      return {
+        address,
+        outcome: analysis.passed ? 'passed' : 'rejected',
+        overallScore: analysis.overallScore,
+        failedFilters: analysis.failedFilters
+      };
+    });
+  }
+
+  /**
+   * Outcome per token of a queued run, from the jobs that finished in time
+   */
+  private queuedRunTokens(tokenAddresses: string[], finished: PipelineJob[]): AggregationRunToken[] {
+    const byAddress = new Map(finished.map(job => [job.tokenAddress, job]));
+
+    return tokenAddresses.map(address => {
+      const job = byAddress.get(addressKey(address));
+      if (!job) {
+        return { address, outcome: 'pending', failedFilters: [] };
+      }
+
+      if (job.status === 'dead') {
+        return { address, outcome: 'failed', reason: job.error ?? undefined, failedFilters: [] };
+      }
+
+      const result = job.result as PipelineJobResult | null;
+      return {
+        address,
+        outcome: result?.passed ? 'passed' : 'rejected',
+        overallScore: result?.overallScore,
+        failedFilters: result?.failedFilters ?? []
+      };
+    });
+  }
+
+  /**
+   * Record the run as started; null when runs are not stored or the insert fails
+   */
+  private async recordRunStart(trigger: AggregationRunTrigger): Promise<string | null> {
+    if (!this.runStore) {
+      return null;
+    }
+
+    try {
+      return await this.runStore.startRun(trigger);
+    } catch (error) {
+      this.logger.warn('Failed to record aggregation run start', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return null;
+    }
+  }
+
+  private async recordRunEnd(run: AggregationRun): Promise<void> {
+    if (!this.runStore) {
+      return;
+    }
+
+    try {
+      await this.runStore.saveRun(run);
+    } catch (error) {
+      this.logger.warn(`Failed to store aggregation run: ${run.id}`, {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Run manual runs requested through the API, one at a time between cron runs
+   */
+  private startRunRequests(runStore: PipelineRunService): void {
+    runStore.failInterruptedRuns().catch(error => {
+      this.logger.warn('Failed to close interrupted aggregation runs', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    });
+
+    this.runRequestTimer = setInterval(() => {
+      void this.runRequestedAggregation(runStore);
+    }, RUN_REQUEST_POLL_MS);
+  }
+
+  private async runRequestedAggregation(runStore: PipelineRunService): Promise<void> {
+    if (this.stats.isRunning) {
+      return;
+    }
+
+    try {
+      const requested = await runStore.claimRequestedRun();
+      if (requested) {
+        this.logger.info('Starting requested aggregation run', { runId: requested.id, requestedBy: requested.requestedBy });
+        await this.runAggregation({ trigger: 'manual', runId: requested.id });
+      }
+    } catch (error) {
+      this.logger.error('Failed to run requested aggregation', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
     }
   }
 
@@ -386,14 +625,21 @@ export class TokenAggregatorService extends EventEmitter {
 
       const allTokens = response.data;
       const newTokens: string[] = [];
+      const skippedTokens: AggregationRunToken[] = [];
       let alreadyProcessed = 0;
 
       // Filter out already processed and blacklisted tokens
       for (const tokenData of allTokens) {
-        const address = tokenData.address.toLowerCase();
+        const address = tokenData.address;
 
         if (this.processedTokens.has(address) || this.blacklistedTokens.has(address)) {
           alreadyProcessed++;
+          skippedTokens.push({
+            address,
+            outcome: 'skipped',
+            reason: this.blacklistedTokens.has(address) ? 'blacklisted' : 'already_processed',
+            failedFilters: []
+          });
           continue;
         }
 
@@ -411,6 +657,7 @@ export class TokenAggregatorService extends EventEmitter {
 
       return {
         newTokens,
+        skippedTokens,
         totalDiscovered: allTokens.length,
         alreadyProcessed,
         discoveryTime
@@ -423,13 +670,105 @@ export class TokenAggregatorService extends EventEmitter {
 
       return {
         newTokens: [],
+        skippedTokens: [],
         totalDiscovered: 0,
         alreadyProcessed: 0,
-        discoveryTime: Date.now() - startTime
+        discoveryTime: Date.now() - startTime,
+        error: error instanceof Error ? error.message : 'Unknown error'
       };
     }
   }
 
+  /**
+   * Analyse a mint pushed by the discovery source. Only mints that pass are
+   * marked processed: a pool seconds old is often not indexed by DEXScreener
+   * yet, so a failed analysis leaves the mint to the next polling run.
+   */
+  private async processDiscoveredToken(pool: DiscoveredPool): Promise<void> {
+    // The minimum age filter keeps the polled list clear of just-launched
+    // tokens; a pushed pool is just-launched by definition
+    const analysis = await this.tokenPipeline.processToken(pool.mint, { ...this.config.filters, minAge: 0 });
+
+    this.stats.tokensDiscovered++;
+
+    if (!analysis?.passed) {
+      return;
+    }
+
+    if (this.config.enableDatabaseStorage) {
+      await this.storeTokenAnalyses([analysis]);
+    }
+
+    this.updateProcessedTokensCache([analysis.address]);
+  }
+
+  /**
+   * Rebuild the processed set from jobs completed in the last day, then start
+   * running queued jobs, including any a previous process left unfinished
+   */
+  private async startJobQueue(jobQueue: PipelineJobService): Promise<void> {
+    try {
+      const completed = await jobQueue.getCompletedTokens(new Date(Date.now() - PROCESSED_TOKENS_TTL_MS));
+      completed.forEach(address => this.processedTokens.add(addressKey(address)));
+
+      await jobQueue.start({
+        pipeline: this.tokenPipeline,
+        filters: this.config.filters,
+        onAnalysis: analysis => this.recordQueuedAnalysis(analysis)
+      });
+    } catch (error) {
+      this.logger.error('Failed to start pipeline job runner', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Store a queued analysis as its job finishes. Filtered tokens count as
+   * processed too, like tokens of a batch run.
+   */
+  private async recordQueuedAnalysis(analysis: CombinedTokenAnalysis): Promise<void> {
+    if (analysis.passed && this.config.enableDatabaseStorage) {
+      // A failed write rejects, so the job is retried instead of completed
+      await this.writeTokenAnalysis(this.getStorageClient(), analysis);
+    }
+
+    this.updateProcessedTokensCache([analysis.address]);
+  }
+
+  /**
+   * Score earlier signals once per queued run; jobs store their analyses
+   * one at a time and leave this to the run
+   */
+  private async evaluateQueuedSignals(): Promise<void> {
+    try {
+      await new SignalService(this.getStorageClient()).evaluateSignals();
+    } catch (error) {
+      this.logger.error('Failed to evaluate signals', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // One client shared by every queued job, instead of one per stored analysis
+  private getStorageClient(): PrismaClient {
+    if (!this.storageClient) {
+      this.storageClient = new PrismaClient();
+    }
+
+    return this.storageClient;
+  }
+
+  private async refreshScoringProfile(): Promise<void> {
+    const prisma = new PrismaClient();
+
+    try {
+      await scoringProfileService.refresh(prisma);
+    } finally {
+      await prisma.$disconnect();
+    }
+  }
+
   /**
    * Verify that all services are healthy before processing
    */
@@ -467,72 +806,24 @@ export class TokenAggregatorService extends EventEmitter {
   }
 
   /**
-   * Store token analyses in database
+   * Store token analyses in database, with a trading signal for each one.
+   * Errors are logged; a batch run goes on without its storage phase.
    */
   private async storeTokenAnalyses(analyses: CombinedTokenAnalysis[]): Promise<void> {
     try {
-      const { PrismaClient } = await import('@prisma/client');
       const prisma = new PrismaClient();
 
-      for (const analysis of analyses) {
-        await prisma.$transaction(async (tx) => {
-          // Upsert token with latest data
-          const token = await tx.token.upsert({
-            where: { address: analysis.address },
-            update: {
-              symbol: analysis.symbol,
-              name: analysis.name,
-              price: analysis.currentPrice,
-              marketCap: analysis.marketCap,
-              volume24h: analysis.volume24h,
-              liquidity: analysis.liquidity,
-              rugScore: analysis.rugScore,
-              safetyScore: analysis.safetyScore,
-              overallScore: analysis.overallScore,
-              updatedAt: new Date()
-            },
-            create: {
-              address: analysis.address,
-              symbol: analysis.symbol,
-              name: analysis.name,
-              decimals: analysis.decimals || 9,
-              price: analysis.currentPrice,
-              marketCap: analysis.marketCap,
-              volume24h: analysis.volume24h,
-              liquidity: analysis.liquidity,
-              rugScore: analysis.rugScore,
-              safetyScore: analysis.safetyScore,
-              overallScore: analysis.overallScore,
-              chain: 'solana'
-            }
-          });
-
-          // Store price snapshot
-          await tx.priceData.create({
-            data: {
-              tokenId: token.id,
-              price: analysis.currentPrice,
-              change24h: analysis.priceChange24h,
-              volume: analysis.volume24h
-            }
-          });
-
-          // Store safety assessment
-          await tx.safetyScore.create({
-            data: {
-              tokenId: token.id,
-              rugScore: analysis.rugScore || 0,
-              liquidityScore: analysis.liquidityScore || 0,
-              ownershipScore: analysis.holderScore || 0,
-              overallScore: analysis.safetyScore || 0
-            }
-          });
-        });
+      try {
+        for (const analysis of analyses) {
+          await this.writeTokenAnalysis(prisma, analysis);
+        }
 
-        this.emit('token:stored', analysis);
+        // Score earlier signals now that this run has added fresh prices
+        await new SignalService(prisma).evaluateSignals();
+      } finally {
+        await prisma.$disconnect();
       }
 
-      await prisma.$disconnect();
       this.logger.info(`Stored ${analyses.length} token analyses in database`);
 
     } catch (error) {
@@ -543,12 +834,134 @@ export class TokenAggregatorService extends EventEmitter {
     }
   }
 
+  /**
+   * Store one analysis with its trading signal; throws when the write fails.
+   * The signal compares against the token's state before this write.
+   * The analysis also updates its creator's reputation record.
+   */
+  private async writeTokenAnalysis(prisma: PrismaClient, analysis: CombinedTokenAnalysis): Promise<void> {
+    const signalService = new SignalService(prisma);
+    const creatorReputation = new CreatorReputationService(prisma, undefined, this.dexScreenerService);
+
+    const { dexScreener, rugCheck, solscan } = analysis;
+    const safetyScore = rugCheck.safetyScore * 10; // stored on the 0-100 scale
+    const rugScore = 100 - safetyScore;
+
+    const signal = await prisma.$transaction(async (tx) => {
+      const previous = await tx.token.findUnique({
+        where: { address: analysis.address },
+        select: {
+          liquidity: true,
+          safetyScores: { orderBy: { timestamp: 'desc' }, take: 1, select: { overallScore: true } }
+        }
+      });
+
+      // Upsert token with latest data
+      const tokenData = {
+        symbol: dexScreener.symbol,
+        name: dexScreener.name,
+        price: dexScreener.price,
+        marketCap: dexScreener.marketCap,
+        volume24h: dexScreener.volume24h,
+        liquidity: dexScreener.liquidity,
+        rugScore,
+        safetyScore,
+        overallScore: analysis.overallScore
+      };
+
+      const token = await tx.token.upsert({
+        where: { address: analysis.address },
+        update: { ...tokenData, updatedAt: new Date() },
+        create: {
+          ...tokenData,
+          address: analysis.address,
+          decimals: 9,
+          chain: 'solana',
+          launchDate: dexScreener.launchTimestamp ? new Date(dexScreener.launchTimestamp) : undefined
+        }
+      });
+
+      // Store price snapshot
+      await tx.priceData.create({
+        data: {
+          tokenId: token.id,
+          price: dexScreener.price,
+          change1h: dexScreener.priceChange?.h1,
+          change24h: dexScreener.priceChange?.h24,
+          volume: dexScreener.volume24h,
+          liquidity: dexScreener.liquidity,
+          marketCap: dexScreener.marketCap,
+          buys5m: dexScreener.txns?.m5.buys,
+          sells5m: dexScreener.txns?.m5.sells
+        }
+      });
+
+      // Store safety assessment - details carry catalogue fields so filters can read them
+      await tx.safetyScore.create({
+        data: {
+          tokenId: token.id,
+          rugScore,
+          liquidityScore: rugCheck.liquidityLocked ? 100 : 0,
+          ownershipScore: Math.max(0, 100 - solscan.topHoldersPercentage),
+          overallScore: safetyScore,
+          details: {
+            liquidity_usd: dexScreener.liquidity,
+            honeypot_detected: isLikelyHoneypot(rugCheck.honeypotRisk),
+            liquidity_locked: rugCheck.liquidityLocked,
+            holder_concentration: rugCheck.holderConcentration,
+            mint_authority: rugCheck.mintAuthority,
+            freeze_authority: rugCheck.freezeAuthority,
+            effective_top_holders: solscan.holderClusters.effectiveTopHoldersPercentage,
+            clustered_supply: solscan.holderClusters.clusteredSupplyPercentage,
+            ...(dexScreener.txns && {
+              buys_count: dexScreener.txns.h1.buys,
+              sells_count: dexScreener.txns.h1.sells
+            })
+          }
+        }
+      });
+
+      // Keep the scoring inputs so stored analyses can be re-scored under other profiles
+      const scoringData: StoredScoringData = {
+        profileVersion: analysis.scoring.profileVersion,
+        inputs: extractScoringInputs(analysis),
+        breakdown: analysis.scoring
+      };
+      await tx.tokenAnalysis.create({
+        data: {
+          tokenId: token.id,
+          analysisType: OVERALL_SCORE_ANALYSIS,
+          score: analysis.overallScore,
+          data: scoringData as unknown as Prisma.InputJsonValue
+        }
+      });
+
+      return signalService.recordSignal(tx, token.id, analysis, previous && {
+        liquidity: previous.liquidity,
+        safetyScore: previous.safetyScores[0]?.overallScore ?? null
+      });
+    });
+
+    this.emit('token:stored', analysis);
+    this.emit('signal:generated', signal);
+
+    // Reputation is best-effort; a failure must not hold up storage
+    try {
+      await creatorReputation.recordAnalysis(analysis);
+    } catch (error) {
+      this.logger.warn('Failed to update creator reputation', {
+        address: analysis.address,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
   /**
    * Update processed tokens cache
    */
   private updateProcessedTokensCache(tokenAddresses: string[]): void {
     for (const address of tokenAddresses) {
-      this.processedTokens.add(address.toLowerCase());
+      this.processedTokens.add(addressKey(address));
     }
 
     // Store in persistent cache
@@ -607,7 +1020,7 @@ export class TokenAggregatorService extends EventEmitter {
    * Add token to blacklist
    */
   addToBlacklist(tokenAddress: string, reason?: string): void {
-    const address = tokenAddress.toLowerCase();
+    const address = addressKey(tokenAddress);
     this.blacklistedTokens.add(address);
 
     this.logger.info(`Token blacklisted: ${address}`, { reason });
@@ -622,7 +1035,7 @@ export class TokenAggregatorService extends EventEmitter {
    * Remove token from blacklist
    */
   removeFromBlacklist(tokenAddress: string): boolean {
-    const address = tokenAddress.toLowerCase();
+    const address = addressKey(tokenAddress);
     const removed = this.blacklistedTokens.delete(address);
 
     if (removed) {
@@ -642,7 +1055,7 @@ export class TokenAggregatorService extends EventEmitter {
    */
   async runManualAggregation(): Promise<AggregationRun> {
     this.logger.info('Starting manual aggregation run');
-    return await this.runAggregation();
+    return await this.runAggregation({ trigger: 'manual' });
   }
 
   /**
@@ -769,6 +1182,7 @@ export class TokenAggregatorService extends EventEmitter {
       processedTokens: number;
       blacklistedTokens: number;
     };
+    discovery: DiscoveryFeedStats | null;
   } {
     const healthStatus = this.healthCheck.getOverallHealth();
     const services = healthStatus.services || [];
@@ -784,7 +1198,8 @@ export class TokenAggregatorService extends EventEmitter {
       caches: {
         processedTokens: this.processedTokens.size,
         blacklistedTokens: this.blacklistedTokens.size
-      }
+      },
+      discovery: this.discoveryFeed?.getStats() ?? null
     };
   }
 }
\ No newline at end of file
@@ -0,0 +1,253 @@
+/**
+ * Token Market Service
+ * Merges every pool a token trades in and tracks pools appearing and draining
+ *
+ * DEXScreener reports one entry per pair, so a token with a Raydium and a
+ * Meteora pool shows up twice. buildTokenMarketView folds the pairs into one
+ * view: total and per-DEX liquidity, volume-weighted price and the dominant
+ * (deepest) pool. Each observed view is stored in token_pools, and comparing
+ * it with the stored pools yields the changes worth alerting on:
+ * - pool_added: a new pool on a DEX the token already trades on
+ * - new_dex_pool: a new pool on a DEX the token did not trade on
+ * - pool_removed: a pool disappeared from the listing
+ * - main_pool_drained: the dominant pool lost the configured share of its liquidity, or disappeared
+ *
+ * The first observation of a token only records its pools.
+ */
+
+import { PrismaClient, TokenPool } from '@prisma/client';
+import { DexPoolData, DexScreenerPair, TokenMarketView } from '../types/api.types';
+import { Logger } from '../utils/logger';
+
+export type PoolChangeKind = 'pool_added' | 'new_dex_pool' | 'pool_removed' | 'main_pool_drained';
+
+export interface PoolChange {
+  kind: PoolChangeKind;
+  pairAddress: string;
+  dexId: string;
+  detail: string;
+  metrics: Record<string, number>;
+}
+
+export interface TokenPoolChanges {
+  tokenId: string;
+  address: string;
+  symbol: string;
+  severity: 'MEDIUM' | 'HIGH' | 'CRITICAL';
+  changes: PoolChange[];
+  market: TokenMarketView;
+  detectedAt: string;
+}
+
+export interface TokenMarketConfig {
+  mainPoolDrainPercent: number;
+  minPoolLiquidityUsd: number; // pools shallower than this are not reported as added
+}
+
+export const DEFAULT_TOKEN_MARKET_CONFIG: TokenMarketConfig = {
+  mainPoolDrainPercent: 80,
+  minPoolLiquidityUsd: 1000
+};
+
+// Pool as last stored, enough to compare with a new view
+export type StoredPool = Pick<TokenPool, 'pairAddress' | 'dexId' | 'liquidity' | 'removedAt'>;
+
+/**
+ * Merge the pairs of one token into a market view. Price is weighted by 24h
+ * volume, or by liquidity when no pool traded.
+ */
+export function buildTokenMarketView(pairs: DexScreenerPair[]): TokenMarketView {
+  const pools: DexPoolData[] = pairs
+    .map(pair => ({
+      pairAddress: pair.pairAddress,
+      dexId: pair.dexId,
+      quoteSymbol: pair.quoteToken.symbol,
+      price: parseFloat(pair.priceUsd || '0'),
+      liquidity: pair.liquidity?.usd || 0,
+      volume24h: pair.volume?.h24 || 0,
+      pairCreatedAt: pair.pairCreatedAt
+    }))
+    .sort((a, b) => b.liquidity - a.liquidity);
+
+  const liquidityByDex: Record<string, number> = {};
+  for (const pool of pools) {
+    liquidityByDex[pool.dexId] = (liquidityByDex[pool.dexId] ?? 0) + pool.liquidity;
+  }
+
+  const priced = pools.filter(pool => pool.price > 0);
+  const byVolume = weightedAverage(priced, pool => pool.volume24h);
+  const byLiquidity = weightedAverage(priced, pool => pool.liquidity);
+
+  return {
+    pools,
+    totalLiquidity: sum(pools, pool => pool.liquidity),
+    liquidityByDex,
+    totalVolume24h: sum(pools, pool => pool.volume24h),
+    volumeWeightedPrice: byVolume ?? byLiquidity ?? priced[0]?.price ?? 0,
+    dominantPair: pools[0]?.pairAddress ?? null
+  };
+}
+
+/**
+ * Compare the stored pools of a token with a new view of its market
+ */
+export function detectPoolChanges(
+  previous: StoredPool[],
+  current: TokenMarketView,
+  config: TokenMarketConfig
+): PoolChange[] {
+  const active = previous.filter(pool => pool.removedAt === null);
+  if (active.length === 0) {
+    return [];
+  }
+
+  const changes: PoolChange[] = [];
+  const knownPairs = new Set(previous.map(pool => pool.pairAddress));
+  const activeDexes = new Set(active.map(pool => pool.dexId));
+
+  for (const pool of current.pools) {
+    if (knownPairs.has(pool.pairAddress) || pool.liquidity < config.minPoolLiquidityUsd) {
+      continue;
+    }
+
+    const newDex = !activeDexes.has(pool.dexId);
+    changes.push({
+      kind: newDex ? 'new_dex_pool' : 'pool_added',
+      pairAddress: pool.pairAddress,
+      dexId: pool.dexId,
+      detail: `New ${pool.dexId} pool${newDex ? ' on a DEX the token did not trade on' : ''} with $${pool.liquidity.toFixed(0)} liquidity`,
+      metrics: { liquidityUsd: pool.liquidity }
+    });
+  }
+
+  const currentPools = new Map(current.pools.map(pool => [pool.pairAddress, pool]));
+  const main = active.reduce((deepest, pool) => pool.liquidity > deepest.liquidity ? pool : deepest);
+
+  for (const pool of active) {
+    if (!currentPools.has(pool.pairAddress) && pool !== main) {
+      changes.push({
+        kind: 'pool_removed',
+        pairAddress: pool.pairAddress,
+        dexId: pool.dexId,
+        detail: `${pool.dexId} pool is no longer listed`,
+        metrics: { previousLiquidityUsd: pool.liquidity }
+      });
+    }
+  }
+
+  const mainLiquidity = currentPools.get(main.pairAddress)?.liquidity ?? 0;
+  const drop = main.liquidity > 0 ? (1 - mainLiquidity / main.liquidity) * 100 : 0;
+  if (drop >= config.mainPoolDrainPercent) {
+    changes.push({
+      kind: 'main_pool_drained',
+      pairAddress: main.pairAddress,
+      dexId: main.dexId,
+      detail: currentPools.has(main.pairAddress)
+        ? `Main ${main.dexId} pool drained ${drop.toFixed(0)}% from $${main.liquidity.toFixed(0)} to $${mainLiquidity.toFixed(0)}`
+        : `Main ${main.dexId} pool with $${main.liquidity.toFixed(0)} liquidity is no longer listed`,
+      metrics: { previousLiquidityUsd: main.liquidity, liquidityUsd: mainLiquidity, dropPercent: round(drop) }
+    });
+  }
+
+  return changes;
+}
+
+function sum<T>(items: T[], value: (item: T) => number): number {
+  return items.reduce((total, item) => total + value(item), 0);
+}
+
+function weightedAverage(pools: DexPoolData[], weight: (pool: DexPoolData) => number): number | null {
+  const totalWeight = sum(pools, weight);
+  return totalWeight > 0 ? sum(pools, pool => pool.price * weight(pool)) / totalWeight : null;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export class TokenMarketService {
+  private readonly logger = Logger.getInstance();
+
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly config: TokenMarketConfig = DEFAULT_TOKEN_MARKET_CONFIG
+  ) {}
+
+  /**
+   * Store a token's pools as observed now and report what changed since the
+   * last observation. Returns null when nothing did.
+   */
+  async recordPools(
+    token: { id: string; address: string; symbol: string },
+    market: TokenMarketView,
+    now: Date = new Date()
+  ): Promise<TokenPoolChanges | null> {
+    const previous = await this.prisma.tokenPool.findMany({ where: { tokenId: token.id } });
+    const changes = detectPoolChanges(previous, market, this.config);
+    const listed = new Set(market.pools.map(pool => pool.pairAddress));
+
+    await this.prisma.$transaction(async (tx) => {
+      for (const pool of market.pools) {
+        const data = {
+          dexId: pool.dexId,
+          quoteSymbol: pool.quoteSymbol,
+          price: pool.price,
+          liquidity: pool.liquidity,
+          volume24h: pool.volume24h,
+          lastSeenAt: now,
+          removedAt: null
+        };
+
+        await tx.tokenPool.upsert({
+          where: { tokenId_pairAddress: { tokenId: token.id, pairAddress: pool.pairAddress } },
+          create: {
+            ...data,
+            tokenId: token.id,
+            pairAddress: pool.pairAddress,
+            pairCreatedAt: pool.pairCreatedAt ? new Date(pool.pairCreatedAt) : null,
+            firstSeenAt: now
+          },
+          update: data
+        });
+      }
+
+      const removed = previous
+        .filter(pool => pool.removedAt === null && !listed.has(pool.pairAddress))
+        .map(pool => pool.id);
+      if (removed.length > 0) {
+        await tx.tokenPool.updateMany({ where: { id: { in: removed } }, data: { removedAt: now } });
+      }
+    });
+
+    if (changes.length === 0) {
+      return null;
+    }
+
+    this.logger.info('Token pools changed', {
+      address: token.address,
+      changes: changes.map(change => `${change.kind}:${change.dexId}`)
+    });
+
+    return {
+      tokenId: token.id,
+      address: token.address,
+      symbol: token.symbol,
+      severity: changes.some(change => change.kind === 'main_pool_drained')
+        ? 'CRITICAL'
+        : changes.some(change => change.kind === 'pool_removed') ? 'HIGH' : 'MEDIUM',
+      changes,
+      market,
+      detectedAt: now.toISOString()
+    };
+  }
+
+  /**
+   * Pools of a token as last observed, including removed ones, deepest first
+   */
+  async getPools(tokenId: string): Promise<TokenPool[]> {
+    return this.prisma.tokenPool.findMany({
+      where: { tokenId },
+      orderBy: [{ removedAt: { sort: 'asc', nulls: 'first' } }, { liquidity: 'desc' }]
+    });
+  }
+}
@@ -19,9 +19,18 @@ import {
 import { DexScreenerService } from './dexscreener.service';
 import { RugCheckService } from './rugcheck.service';
 import { JupiterService } from './jupiter.service';
-import { SolscanService } from './solscan.service';
+import { SolscanService, clusterHolders } from './solscan.service';
+import {
+  emptyScoreBreakdown,
+  extractScoringInputs,
+  ProfileScore,
+  scoreAnalysis,
+  ScoringProfileService,
+  scoringProfileService
+} from './scoring';
 import { Logger } from '../utils/logger';
 import { globalCache } from '../utils/cache';
+import { canonicalizeAddress } from '../utils/address';
 
 export interface PipelineConfig {
   batchSize: number;
@@ -40,6 +49,18 @@ export interface PipelineStats {
   lastProcessedAt: Date;
 }
 
+export type PipelineStage = 'dexscreener' | 'rugcheck' | 'jupiter' | 'solscan';
+
+export const PIPELINE_STAGES: PipelineStage[] = ['dexscreener', 'rugcheck', 'jupiter', 'solscan'];
+
+// Output of each stage, keyed by stage
+export interface PipelineStageData {
+  dexscreener: DexScreenerTokenData;
+  rugcheck: RugCheckResult;
+  jupiter: JupiterTokenData;
+  solscan: SolscanTokenData;
+}
+
 export interface PipelineStageResult<T> {
   success: boolean;
   data?: T;
@@ -74,7 +95,8 @@ export class TokenPipelineService extends EventEmitter {
       timeoutMs: 60000,
       retryAttempts: 2,
       cacheResults: true
-    }
+    },
+    private readonly scoringProfiles: Pick<ScoringProfileService, 'getActiveProfile'> = scoringProfileService
   ) {
     super();
     this.setupEventListeners();
@@ -109,11 +131,18 @@ export class TokenPipelineService extends EventEmitter {
    * Process a single token through the complete pipeline
    */
   async processToken(
-    tokenAddress: string,
+    rawAddress: string,
     filters: TokenFilterCriteria
   ): Promise<CombinedTokenAnalysis | null> {
     const startTime = Date.now();
 
+    // Mints are case-sensitive base58 - keep them exactly as the chain has them
+    const tokenAddress = canonicalizeAddress(rawAddress, 'solana');
+    if (!tokenAddress) {
+      this.logger.warn(`Skipping invalid Solana mint: ${rawAddress}`);
+      return this.createFailedAnalysis(rawAddress.trim(), 'validation', 'Invalid Solana mint address');
+    }
+
     try {
       this.logger.info(`Starting pipeline processing for token: ${tokenAddress}`);
 
@@ -126,37 +155,22 @@ export class TokenPipelineService extends EventEmitter {
         }
       }
 
-      // Stage 1: DEXScreener Analysis
-      const dexResult = await this.processDexScreenerStage(tokenAddress, filters);
-      if (!dexResult.success || dexResult.filtered) {
-        return this.createFailedAnalysis(tokenAddress, 'dexscreener', dexResult.filterReason || dexResult.error);
-      }
-
-      // Stage 2: RugCheck Security Analysis
-      const rugResult = await this.processRugCheckStage(tokenAddress, filters);
-      if (!rugResult.success || rugResult.filtered) {
-        return this.createFailedAnalysis(tokenAddress, 'rugcheck', rugResult.filterReason || rugResult.error);
-      }
-
-      // Stage 3: Jupiter Routing Analysis
-      const jupiterResult = await this.processJupiterStage(tokenAddress, filters);
-      if (!jupiterResult.success || jupiterResult.filtered) {
-        return this.createFailedAnalysis(tokenAddress, 'jupiter', jupiterResult.filterReason || jupiterResult.error);
-      }
-
-      // Stage 4: Solscan Creator Analysis
-      const solscanResult = await this.processSolscanStage(tokenAddress, filters);
-      if (!solscanResult.success || solscanResult.filtered) {
-        return this.createFailedAnalysis(tokenAddress, 'solscan', solscanResult.filterReason || solscanResult.error);
+      const stages: Partial<PipelineStageData> = {};
+      for (const stage of PIPELINE_STAGES) {
+        const result = await this.runStage(stage, tokenAddress, filters);
+        if (!result.success || result.filtered) {
+          return this.createFailedAnalysis(tokenAddress, stage, result.filterReason || result.error);
+        }
+        this.setStageData(stages, stage, result.data!);
       }
 
       // Create combined analysis
       const analysis = this.createCombinedAnalysis(
         tokenAddress,
-        dexResult.data!,
-        rugResult.data!,
-        jupiterResult.data!,
-        solscanResult.data!
+        stages.dexscreener!,
+        stages.rugcheck!,
+        stages.jupiter!,
+        stages.solscan!
       );
 
       // Calculate processing time
@@ -194,6 +208,57 @@ export class TokenPipelineService extends EventEmitter {
     }
   }
 
+  /**
+   * Run one stage on its own. A failed result with an `error` is an API or
+   * network failure worth retrying; without one the token was filtered out.
+   */
+  async runStage<S extends PipelineStage>(
+    stage: S,
+    tokenAddress: string,
+    filters: TokenFilterCriteria
+  ): Promise<PipelineStageResult<PipelineStageData[S]>> {
+    switch (stage) {
+      case 'dexscreener':
+        return this.processDexScreenerStage(tokenAddress, filters) as Promise<PipelineStageResult<PipelineStageData[S]>>;
+      case 'rugcheck':
+        return this.processRugCheckStage(tokenAddress, filters) as Promise<PipelineStageResult<PipelineStageData[S]>>;
+      case 'jupiter':
+        return this.processJupiterStage(tokenAddress, filters) as Promise<PipelineStageResult<PipelineStageData[S]>>;
+      case 'solscan':
+        return this.processSolscanStage(tokenAddress, filters) as Promise<PipelineStageResult<PipelineStageData[S]>>;
+      default:
+        throw new Error(`Unknown pipeline stage: ${stage}`);
+    }
+  }
+
+  /**
+   * Combine stage outputs produced by runStage into a scored analysis, the
+   * same way processToken finishes
+   */
+  completeAnalysis(tokenAddress: string, stages: PipelineStageData): CombinedTokenAnalysis {
+    const analysis = this.createCombinedAnalysis(
+      tokenAddress,
+      stages.dexscreener,
+      stages.rugcheck,
+      stages.jupiter,
+      stages.solscan
+    );
+
+    if (this.config.cacheResults) {
+      this.cacheAnalysis(tokenAddress, analysis);
+    }
+
+    this.emit('token:complete', analysis);
+    return analysis;
+  }
+
+  /**
+   * Analysis for a token that stopped at `stage`
+   */
+  failAnalysis(tokenAddress: string, stage: PipelineStage, reason?: string): CombinedTokenAnalysis {
+    return this.createFailedAnalysis(tokenAddress, stage, reason);
+  }
+
   /**
    * Process multiple tokens in parallel batches
    */
@@ -479,6 +544,10 @@ export class TokenPipelineService extends EventEmitter {
     }
   }
 
+  private setStageData<S extends PipelineStage>(stages: Partial<PipelineStageData>, stage: S, data: PipelineStageData[S]): void {
+    stages[stage] = data;
+  }
+
   private createCombinedAnalysis(
     tokenAddress: string,
     dexScreener: DexScreenerTokenData,
@@ -486,8 +555,8 @@ export class TokenPipelineService extends EventEmitter {
     jupiter: JupiterTokenData,
     solscan: SolscanTokenData
   ): CombinedTokenAnalysis {
-    // Calculate overall score (0-100)
-    const overallScore = this.calculateOverallScore(dexScreener, rugCheck, jupiter, solscan);
+    // Calculate overall score (0-100) under the active scoring profile
+    const { overallScore, scoring } = this.calculateOverallScore(dexScreener, rugCheck, jupiter, solscan);
 
     // Determine if token passed all filters
     const passed = !dexScreener.filtered && !rugCheck.filtered && !jupiter.filtered && !solscan.filtered;
@@ -500,12 +569,13 @@ export class TokenPipelineService extends EventEmitter {
     if (solscan.filterReason) failedFilters.push(`Creator: ${solscan.filterReason}`);
 
     return {
-      address: tokenAddress.toLowerCase(),
+      address: tokenAddress,
       dexScreener,
       rugCheck,
       jupiter,
       solscan,
       overallScore,
+      scoring,
       passed,
       failedFilters,
       timestamp: new Date()
@@ -517,56 +587,9 @@ export class TokenPipelineService extends EventEmitter {
     rugCheck: RugCheckResult,
     jupiter: JupiterTokenData,
     solscan: SolscanTokenData
-  ): number {
-    let score = 0;
-    let weights = 0;
-
-    // DEXScreener contribution (25% weight)
-    const dexWeight = 25;
-    let dexScore = 50; // Base score
-
-    if (dexScreener.liquidity > 10000) dexScore += 20;
-    if (dexScreener.volume24h > 5000) dexScore += 15;
-    if (dexScreener.age < 24 && dexScreener.age > 1) dexScore += 15;
-
-    score += (dexScore * dexWeight) / 100;
-    weights += dexWeight;
-
-    // RugCheck contribution (35% weight - most important)
-    const rugWeight = 35;
-    const rugScore = Math.max(0, Math.min(100, (rugCheck.safetyScore / 10) * 100));
-
-    score += (rugScore * rugWeight) / 100;
-    weights += rugWeight;
-
-    // Jupiter contribution (20% weight)
-    const jupiterWeight = 20;
-    let jupiterScore = jupiter.routingAvailable ? 60 : 0;
-
-    if (jupiter.slippageEstimate < 5) jupiterScore += 25;
-    else if (jupiter.slippageEstimate < 10) jupiterScore += 15;
-
-    if (!jupiter.blacklisted) jupiterScore += 15;
-
-    score += (jupiterScore * jupiterWeight) / 100;
-    weights += jupiterWeight;
-
-    // Solscan contribution (20% weight)
-    const solscanWeight = 20;
-    let solscanScore = 50; // Base score
-
-    if (solscan.creatorInfo.ruggedTokens === 0) solscanScore += 25;
-    else if (solscan.creatorInfo.ruggedTokens <= 1) solscanScore += 10;
-
-    if (solscan.topHoldersPercentage < 40) solscanScore += 15;
-    else if (solscan.topHoldersPercentage < 60) solscanScore += 5;
-
-    if (solscan.fundingPattern === 'organic') solscanScore += 10;
-
-    score += (solscanScore * solscanWeight) / 100;
-    weights += solscanWeight;
-
-    return Math.min(100, Math.max(0, score));
+  ): ProfileScore {
+    const inputs = extractScoringInputs({ dexScreener, rugCheck, jupiter, solscan });
+    return scoreAnalysis(inputs, this.scoringProfiles.getActiveProfile());
   }
 
   private createFailedAnalysis(
@@ -578,9 +601,9 @@ export class TokenPipelineService extends EventEmitter {
     const timestamp = new Date();
 
     return {
-      address: tokenAddress.toLowerCase(),
+      address: tokenAddress,
       dexScreener: {
-        address: tokenAddress.toLowerCase(),
+        address: tokenAddress,
         symbol: 'UNKNOWN',
         name: 'Unknown Token',
         launchTimestamp: 0,
@@ -593,22 +616,27 @@ export class TokenPipelineService extends EventEmitter {
         filterReason: failedStage === 'dexscreener' ? reason : 'Failed before DEXScreener analysis'
       },
       rugCheck: {
-        address: tokenAddress.toLowerCase(),
-        honeypotRisk: true,
+        address: tokenAddress,
+        honeypotRisk: 'unknown',
+        honeypotEvidence: { score: 0, reasons: ['Analysis failed'], roundTrip: null, impliedTaxPercent: null },
         mintAuthority: true,
         freezeAuthority: true,
         liquidityLocked: false,
         holderConcentration: 100,
+        suspiciousName: false,
         safetyScore: 0,
         risks: ['Analysis failed'],
         warnings: [],
+        dataSources: { metadata: 'unavailable', holders: 'unavailable', liquidity: 'unavailable' },
         filtered: true,
         filterReason: failedStage === 'rugcheck' ? reason : 'Failed before security analysis'
       },
       jupiter: {
-        address: tokenAddress.toLowerCase(),
+        address: tokenAddress,
         routingAvailable: false,
         slippageEstimate: 100,
+        slippageCurve: [],
+        depthAtImpact: [],
         spread: 100,
         volume24h: 0,
         blacklisted: true,
@@ -617,7 +645,7 @@ export class TokenPipelineService extends EventEmitter {
         filterReason: failedStage === 'jupiter' ? reason : 'Failed before routing analysis'
       },
       solscan: {
-        address: tokenAddress.toLowerCase(),
+        address: tokenAddress,
         creatorWallet: 'unknown',
         creatorInfo: {
           address: 'unknown',
@@ -630,11 +658,13 @@ export class TokenPipelineService extends EventEmitter {
         },
         topHolders: [],
         topHoldersPercentage: 100,
-        fundingPattern: 'suspicious',
+        holderClusters: clusterHolders([], [], 0, null),
+        dataSources: { tokenInfo: 'unavailable', holders: 'unavailable', creator: 'unavailable', funding: 'unavailable' },
         filtered: true,
         filterReason: failedStage === 'solscan' ? reason : 'Failed before creator analysis'
       },
       overallScore: 0,
+      scoring: emptyScoreBreakdown(this.scoringProfiles.getActiveProfile()),
       passed: false,
       failedFilters: [`${failedStage}: ${reason || 'Analysis failed'}`],
       timestamp
@@ -642,11 +672,11 @@ export class TokenPipelineService extends EventEmitter {
   }
 
   private getCachedAnalysis(tokenAddress: string): CombinedTokenAnalysis | null {
-    return globalCache.get<CombinedTokenAnalysis>(`pipeline:analysis:${tokenAddress.toLowerCase()}`);
+    return globalCache.get<CombinedTokenAnalysis>(`pipeline:analysis:${tokenAddress}`);
   }
 
   private cacheAnalysis(tokenAddress: string, analysis: CombinedTokenAnalysis): void {
-    globalCache.set(`pipeline:analysis:${tokenAddress.toLowerCase()}`, analysis, 600); // 10 minutes
+    globalCache.set(`pipeline:analysis:${tokenAddress}`, analysis, 600); // 10 minutes
   }
 
   private updateStats(analysis: CombinedTokenAnalysis): void {
@@ -0,0 +1,564 @@
+/**
+ * Watchlist Monitor Service
+ * Re-polls tokens after they pass the pipeline and flags when they degrade
+ *
+ * The aggregator analyses a token once. Every token it stored is a passed
+ * token, so the monitor watches stored tokens from the moment they were first
+ * stored, polling on a decaying schedule: every minute at first, hourly later,
+ * and not at all once the schedule runs out. Each poll re-reads DEXScreener
+ * and RugCheck, writes a fresh PriceData and SafetyScore row, and compares it
+ * with the previous snapshot. A token has degraded when any of these fire:
+ * - liquidity_drop: liquidity fell by the configured share since the last poll
+ * - safety_score_drop: the safety score fell by the configured points
+ * - holder_concentration_jump: the top-10 holder share rose by the configured points
+ * - authority_enabled: mint or freeze authority came back after being renounced
+ * - delisted: the token has no pair on DEXScreener and no pools were tracked
+ *
+ * Each poll also records the token's pools, so a new pool on another DEX or
+ * a drained main pool is reported as a pool change alongside.
+ *
+ * A failed poll is recorded on the token so its schedule moves on. Only polls
+ * that find the token unlisted count towards maxFailedPolls, after which it
+ * is dropped; an upstream outage just delays the next poll. A token that is
+ * no longer listed at all has its pools marked removed and is reported once,
+ * as a drained main pool or, when none was tracked, as delisted.
+ *
+ * The schedule is read from the stored rows, so a restart picks up where the
+ * last process stopped.
+ */
+
+import { EventEmitter } from 'events';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { DexScreenerTokenData, RugCheckResult } from '../types/api.types';
+import { DexScreenerService } from './dexscreener.service';
+import { RugCheckService, isLikelyHoneypot } from './rugcheck.service';
+import { buildTokenMarketView, TokenMarketService } from './token-market.service';
+import { Logger } from '../utils/logger';
+import { sameAddress } from '../utils/address';
+
+export type DegradationKind = 'liquidity_drop' | 'safety_score_drop' | 'holder_concentration_jump' | 'authority_enabled' | 'delisted';
+
+export interface DegradationFinding {
+  kind: DegradationKind;
+  detail: string;
+  metrics: Record<string, number>;
+}
+
+// Market and security state of a watched token at one poll
+export interface WatchSnapshot {
+  price: number;
+  liquidity: number;
+  volume24h: number;
+  marketCap: number;
+  safetyScore: number | null; // 0-100, null when no security data was read
+  holderConcentration: number | null; // percentage held by top 10
+  mintAuthority: boolean | null;
+  freezeAuthority: boolean | null;
+  observedAt: string;
+}
+
+export interface TokenDegradation {
+  tokenId: string;
+  address: string;
+  symbol: string;
+  severity: 'HIGH' | 'CRITICAL';
+  findings: DegradationFinding[];
+  previous: WatchSnapshot;
+  current: WatchSnapshot;
+  detectedAt: string;
+}
+
+export interface PollTier {
+  untilHours: number; // applies while the token has been watched for less than this
+  intervalMinutes: number;
+}
+
+export interface WatchlistMonitorConfig {
+  schedule: PollTier[]; // ascending; tokens watched past the last tier are dropped
+  liquidityDropPercent: number;
+  criticalLiquidityDropPercent: number;
+  safetyScoreDrop: number; // points on the stored 0-100 scale
+  holderConcentrationJump: number; // percentage points
+  maxTokensPerTick: number;
+  maxFailedPolls: number; // polls in a row finding the token unlisted before it is no longer watched
+  tickIntervalMs: number;
+}
+
+export interface WatchlistTick {
+  watched: number;
+  due: number;
+  polled: number;
+  degraded: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const POLL_SLACK_MS = 5000; // ticks drift by a few ms; a poll this close to due is taken now
+
+// DEXScreener answered but has no pair for the token
+class TokenNotListedError extends Error {
+  constructor() {
+    super('Token not listed on DEXScreener');
+  }
+}
+
+export const DEFAULT_WATCHLIST_MONITOR_CONFIG: WatchlistMonitorConfig = {
+  schedule: [
+    { untilHours: 1, intervalMinutes: 1 },
+    { untilHours: 6, intervalMinutes: 5 },
+    { untilHours: 24, intervalMinutes: 15 },
+    { untilHours: 7 * 24, intervalMinutes: 60 }
+  ],
+  liquidityDropPercent: 30,
+  criticalLiquidityDropPercent: 80,
+  safetyScoreDrop: 20,
+  holderConcentrationJump: 10,
+  maxTokensPerTick: 50,
+  maxFailedPolls: 5,
+  tickIntervalMs: MINUTE_MS
+};
+
+/**
+ * Minutes between polls for a token watched this long, or null once the
+ * schedule has run out
+ */
+export function pollIntervalMinutes(watchedHours: number, schedule: PollTier[]): number | null {
+  return schedule.find(tier => watchedHours < tier.untilHours)?.intervalMinutes ?? null;
+}
+
+/**
+ * Compare two polls of a token. Checks whose inputs are missing from either
+ * snapshot are skipped.
+ */
+export function detectDegradation(
+  previous: WatchSnapshot,
+  current: WatchSnapshot,
+  config: WatchlistMonitorConfig
+): DegradationFinding[] {
+  const findings: DegradationFinding[] = [];
+
+  const liquidityDrop = previous.liquidity > 0 ? (1 - current.liquidity / previous.liquidity) * 100 : 0;
+  if (liquidityDrop >= config.liquidityDropPercent) {
+    findings.push({
+      kind: 'liquidity_drop',
+      detail: `Liquidity fell ${liquidityDrop.toFixed(0)}% from $${previous.liquidity.toFixed(0)} to $${current.liquidity.toFixed(0)}`,
+      metrics: { previousLiquidityUsd: previous.liquidity, liquidityUsd: current.liquidity, dropPercent: round(liquidityDrop) }
+    });
+  }
+
+  if (previous.safetyScore !== null && current.safetyScore !== null && previous.safetyScore - current.safetyScore >= config.safetyScoreDrop) {
+    findings.push({
+      kind: 'safety_score_drop',
+      detail: `Safety score fell from ${previous.safetyScore.toFixed(0)} to ${current.safetyScore.toFixed(0)}`,
+      metrics: { previousScore: previous.safetyScore, score: current.safetyScore, drop: round(previous.safetyScore - current.safetyScore) }
+    });
+  }
+
+  if (previous.holderConcentration !== null && current.holderConcentration !== null &&
+      current.holderConcentration - previous.holderConcentration >= config.holderConcentrationJump) {
+    findings.push({
+      kind: 'holder_concentration_jump',
+      detail: `Top holders went from ${previous.holderConcentration.toFixed(1)}% to ${current.holderConcentration.toFixed(1)}% of supply`,
+      metrics: {
+        previousPercent: previous.holderConcentration,
+        percent: current.holderConcentration,
+        jump: round(current.holderConcentration - previous.holderConcentration)
+      }
+    });
+  }
+
+  for (const [authority, label] of [['mintAuthority', 'Mint'], ['freezeAuthority', 'Freeze']] as const) {
+    if (previous[authority] === false && current[authority] === true) {
+      findings.push({ kind: 'authority_enabled', detail: `${label} authority re-enabled`, metrics: {} });
+    }
+  }
+
+  return findings;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+type WatchedToken = Prisma.TokenGetPayload<{
+  select: {
+    id: true;
+    address: true;
+    symbol: true;
+    createdAt: true;
+    price: true;
+    liquidity: true;
+    volume24h: true;
+    marketCap: true;
+    watchFailedPolls: true;
+    watchLastFailedAt: true;
+    priceData: { select: { timestamp: true } };
+    safetyScores: { select: { overallScore: true; ownershipScore: true; details: true; timestamp: true } };
+  };
+}>;
+
+export class WatchlistMonitorService extends EventEmitter {
+  private readonly logger = Logger.getInstance();
+  private tickTimer: NodeJS.Timeout | null = null;
+  private isTicking = false;
+
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly dexScreenerService: DexScreenerService,
+    private readonly rugCheckService: RugCheckService,
+    private readonly config: WatchlistMonitorConfig = DEFAULT_WATCHLIST_MONITOR_CONFIG,
+    private readonly tokenMarketService: TokenMarketService = new TokenMarketService(prisma)
+  ) {
+    super();
+  }
+
+  start(): void {
+    if (this.tickTimer) {
+      return;
+    }
+
+    this.tickTimer = setInterval(() => {
+      void this.tick();
+    }, this.config.tickIntervalMs);
+
+    this.logger.info('Watchlist monitor started', {
+      tiers: this.config.schedule.length,
+      watchHours: this.watchWindowHours()
+    });
+  }
+
+  stop(): void {
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = null;
+      this.logger.info('Watchlist monitor stopped');
+    }
+  }
+
+  /**
+   * Poll every watched token whose next poll is due, most overdue first
+   */
+  async tick(now: Date = new Date()): Promise<WatchlistTick | null> {
+    if (this.isTicking) {
+      return null;
+    }
+
+    this.isTicking = true;
+
+    try {
+      const tokens = await this.prisma.token.findMany({
+        where: {
+          createdAt: { gte: new Date(now.getTime() - this.watchWindowHours() * HOUR_MS) },
+          watchFailedPolls: { lt: this.config.maxFailedPolls }
+        },
+        select: {
+          id: true,
+          address: true,
+          symbol: true,
+          createdAt: true,
+          price: true,
+          liquidity: true,
+          volume24h: true,
+          marketCap: true,
+          watchFailedPolls: true,
+          watchLastFailedAt: true,
+          priceData: { orderBy: { timestamp: 'desc' }, take: 1, select: { timestamp: true } },
+          safetyScores: {
+            orderBy: { timestamp: 'desc' },
+            take: 1,
+            select: { overallScore: true, ownershipScore: true, details: true, timestamp: true }
+          }
+        }
+      });
+
+      const due = tokens
+        .map(token => ({ token, overdueMs: this.overdueMs(token, now) }))
+        .filter((entry): entry is { token: WatchedToken; overdueMs: number } => entry.overdueMs !== null && entry.overdueMs >= -POLL_SLACK_MS)
+        .sort((a, b) => b.overdueMs - a.overdueMs)
+        .slice(0, this.config.maxTokensPerTick);
+
+      let polled = 0;
+      let degraded = 0;
+
+      for (const { token } of due) {
+        try {
+          const degradation = await this.pollToken(token, now);
+          polled++;
+
+          if (degradation) {
+            degraded++;
+            this.emit('token:degraded', degradation);
+          }
+        } catch (error) {
+          this.logger.warn('Watchlist poll failed', {
+            address: token.address,
+            error: error instanceof Error ? error.message : String(error)
+          });
+          await this.recordFailedPoll(token, now, error instanceof TokenNotListedError);
+        }
+      }
+
+      const result: WatchlistTick = { watched: tokens.length, due: due.length, polled, degraded };
+      if (due.length > 0) {
+        this.logger.debug('Watchlist tick completed', { ...result });
+      }
+
+      return result;
+    } catch (error) {
+      this.logger.error('Watchlist tick failed', { error: error instanceof Error ? error.message : String(error) });
+      return null;
+    } finally {
+      this.isTicking = false;
+    }
+  }
+
+  /**
+   * Re-read a token, store the new snapshot and compare it with the last one
+   */
+  private async pollToken(token: WatchedToken, now: Date): Promise<TokenDegradation | null> {
+    const market = await this.dexScreenerService.getTokenData(token.address);
+
+    if (!market.success) {
+      throw new Error(market.error || 'DEXScreener request failed');
+    }
+
+    const pair = market.data?.find(entry => sameAddress(entry.address, token.address, entry.chain));
+
+    if (!pair) {
+      // Reported on the first miss only; later misses just count towards maxFailedPolls
+      if (token.watchFailedPolls === 0) {
+        await this.reportDelisted(token, now);
+      }
+      throw new TokenNotListedError();
+    }
+
+    const security = await this.rugCheckService.analyzeToken(token.address);
+    const rugCheck = security.success ? security.data ?? null : null;
+
+    const lastSafety = token.safetyScores[0];
+    const lastDetails = (lastSafety?.details ?? {}) as Record<string, unknown>;
+    const previous = this.lastSnapshot(token);
+    const current = this.toSnapshot(pair, rugCheck, now);
+    const findings = detectDegradation(previous, current, this.config);
+
+    await this.recordSnapshot(token, pair, rugCheck, current, previous, lastDetails, lastSafety?.ownershipScore, findings);
+
+    if (pair.market) {
+      const poolChanges = await this.tokenMarketService.recordPools(token, pair.market, now);
+      if (poolChanges) {
+        this.emit('token:pools-changed', poolChanges);
+      }
+    }
+
+    if (findings.length === 0) {
+      return null;
+    }
+
+    const critical = findings.some(finding => finding.kind === 'authority_enabled' ||
+      (finding.kind === 'liquidity_drop' && finding.metrics.dropPercent >= this.config.criticalLiquidityDropPercent));
+
+    return {
+      tokenId: token.id,
+      address: token.address,
+      symbol: token.symbol,
+      severity: critical ? 'CRITICAL' : 'HIGH',
+      findings,
+      previous,
+      current,
+      detectedAt: now.toISOString()
+    };
+  }
+
+  /**
+   * Mark the pools of a token that is no longer listed as removed. A tracked
+   * main pool is reported as drained; without one the token is reported as
+   * delisted.
+   */
+  private async reportDelisted(token: WatchedToken, now: Date): Promise<void> {
+    const poolChanges = await this.tokenMarketService.recordPools(token, buildTokenMarketView([]), now);
+
+    if (poolChanges) {
+      this.emit('token:pools-changed', poolChanges);
+      return;
+    }
+
+    const previous = this.lastSnapshot(token);
+    const degradation: TokenDegradation = {
+      tokenId: token.id,
+      address: token.address,
+      symbol: token.symbol,
+      severity: 'CRITICAL',
+      findings: [{
+        kind: 'delisted',
+        detail: `No longer listed on DEXScreener, last seen with $${previous.liquidity.toFixed(0)} liquidity`,
+        metrics: { previousLiquidityUsd: previous.liquidity }
+      }],
+      previous,
+      current: { ...previous, liquidity: 0, volume24h: 0, observedAt: now.toISOString() },
+      detectedAt: now.toISOString()
+    };
+
+    this.emit('token:degraded', degradation);
+  }
+
+  /**
+   * Move a failed poll's schedule on, so the token does not stay the most
+   * overdue and take a slot every tick. Only a poll that found the token
+   * unlisted counts towards maxFailedPolls; DEXScreener or RugCheck being
+   * down says nothing about the token.
+   */
+  private async recordFailedPoll(token: WatchedToken, now: Date, notListed: boolean): Promise<void> {
+    try {
+      const { watchFailedPolls } = await this.prisma.token.update({
+        where: { id: token.id },
+        data: { ...(notListed && { watchFailedPolls: { increment: 1 } }), watchLastFailedAt: now },
+        select: { watchFailedPolls: true }
+      });
+
+      if (watchFailedPolls >= this.config.maxFailedPolls) {
+        this.logger.warn('Token dropped from the watchlist after failed polls', {
+          address: token.address,
+          failedPolls: watchFailedPolls
+        });
+      }
+    } catch (error) {
+      this.logger.error('Failed to record watchlist poll failure', {
+        address: token.address,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Write the poll as the token's latest price and safety rows. Details carry
+   * forward fields this poll does not re-read, so catalogue filters keep working.
+   */
+  private async recordSnapshot(
+    token: WatchedToken,
+    pair: DexScreenerTokenData,
+    rugCheck: RugCheckResult | null,
+    current: WatchSnapshot,
+    previous: WatchSnapshot,
+    lastDetails: Record<string, unknown>,
+    lastOwnershipScore: number | undefined,
+    findings: DegradationFinding[]
+  ): Promise<void> {
+    const observedAt = new Date(current.observedAt);
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.priceData.create({
+        data: {
+          tokenId: token.id,
+          price: pair.price,
+          change1h: pair.priceChange?.h1,
+          change24h: pair.priceChange?.h24,
+          volume: pair.volume24h,
+          liquidity: pair.liquidity,
+          marketCap: pair.marketCap,
+          buys5m: pair.txns?.m5.buys,
+          sells5m: pair.txns?.m5.sells,
+          timestamp: observedAt
+        }
+      });
+
+      if (rugCheck && current.safetyScore !== null) {
+        await tx.safetyScore.create({
+          data: {
+            tokenId: token.id,
+            rugScore: 100 - current.safetyScore,
+            liquidityScore: rugCheck.liquidityLocked ? 100 : 0,
+            ownershipScore: lastOwnershipScore ?? Math.max(0, 100 - rugCheck.holderConcentration),
+            overallScore: current.safetyScore,
+            timestamp: observedAt,
+            details: {
+              ...lastDetails,
+              liquidity_usd: pair.liquidity,
+              honeypot_detected: isLikelyHoneypot(rugCheck.honeypotRisk),
+              liquidity_locked: rugCheck.liquidityLocked,
+              holder_concentration: rugCheck.holderConcentration,
+              mint_authority: rugCheck.mintAuthority,
+              freeze_authority: rugCheck.freezeAuthority,
+              ...(pair.txns && {
+                buys_count: pair.txns.h1.buys,
+                sells_count: pair.txns.h1.sells
+              }),
+              watch_deltas: {
+                liquidity_change_pct: previous.liquidity > 0 ? round((current.liquidity / previous.liquidity - 1) * 100) : null,
+                safety_score_change: previous.safetyScore !== null ? round(current.safetyScore - previous.safetyScore) : null,
+                holder_concentration_change: previous.holderConcentration !== null
+                  ? round(rugCheck.holderConcentration - previous.holderConcentration)
+                  : null,
+                degradations: findings.map(finding => finding.kind)
+              }
+            } as Prisma.InputJsonObject
+          }
+        });
+      }
+
+      await tx.token.update({
+        where: { id: token.id },
+        data: {
+          price: pair.price,
+          liquidity: pair.liquidity,
+          volume24h: pair.volume24h,
+          marketCap: pair.marketCap,
+          ...(current.safetyScore !== null && { safetyScore: current.safetyScore, rugScore: 100 - current.safetyScore }),
+          ...(token.watchFailedPolls > 0 && { watchFailedPolls: 0 })
+        }
+      });
+    });
+  }
+
+  // The token as stored by its last poll, or by the pipeline before the first
+  private lastSnapshot(token: WatchedToken): WatchSnapshot {
+    const details = (token.safetyScores[0]?.details ?? {}) as Record<string, unknown>;
+
+    return {
+      price: token.price ?? 0,
+      liquidity: token.liquidity ?? 0,
+      volume24h: token.volume24h ?? 0,
+      marketCap: token.marketCap ?? 0,
+      safetyScore: token.safetyScores[0]?.overallScore ?? null,
+      holderConcentration: typeof details.holder_concentration === 'number' ? details.holder_concentration : null,
+      mintAuthority: typeof details.mint_authority === 'boolean' ? details.mint_authority : null,
+      freezeAuthority: typeof details.freeze_authority === 'boolean' ? details.freeze_authority : null,
+      observedAt: (token.priceData[0]?.timestamp ?? token.createdAt).toISOString()
+    };
+  }
+
+  private toSnapshot(pair: DexScreenerTokenData, rugCheck: RugCheckResult | null, now: Date): WatchSnapshot {
+    return {
+      price: pair.price,
+      liquidity: pair.liquidity,
+      volume24h: pair.volume24h,
+      marketCap: pair.marketCap,
+      safetyScore: rugCheck ? rugCheck.safetyScore * 10 : null, // stored on the 0-100 scale
+      holderConcentration: rugCheck?.holderConcentration ?? null,
+      mintAuthority: rugCheck?.mintAuthority ?? null,
+      freezeAuthority: rugCheck?.freezeAuthority ?? null,
+      observedAt: now.toISOString()
+    };
+  }
+
+  /**
+   * How long past its next poll a token is; negative when not yet due,
+   * null once it is no longer watched
+   */
+  private overdueMs(token: WatchedToken, now: Date): number | null {
+    const interval = pollIntervalMinutes((now.getTime() - token.createdAt.getTime()) / HOUR_MS, this.config.schedule);
+    if (interval === null) {
+      return null;
+    }
+
+    // A failed poll moves the schedule on like a successful one
+    const lastPolledAt = Math.max(
+      (token.priceData[0]?.timestamp ?? token.createdAt).getTime(),
+      token.watchLastFailedAt?.getTime() ?? 0
+    );
+    return now.getTime() - lastPolledAt - interval * MINUTE_MS;
+  }
+
+  private watchWindowHours(): number {
+    return Math.max(0, ...this.config.schedule.map(tier => tier.untilHours));
+  }
+}
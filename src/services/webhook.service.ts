@@ -0,0 +1,455 @@
+/**
+ * Webhook Delivery Service
+ * Signed, persistent webhook delivery for alert events
+ *
+ * Every dispatched event is written to the webhook_deliveries table before any
+ * network call is made, so a delivery survives restarts and can be replayed:
+ * dispatch → pending → delivered | failed (retry with backoff) → dead_letter
+ */
+
+import { EventEmitter } from 'events';
+import { createHmac } from 'crypto';
+import axios, { AxiosInstance } from 'axios';
+import { PrismaClient, Prisma, Webhook, WebhookDelivery } from '@prisma/client';
+import { Logger } from '../utils/logger';
+
+export const WEBHOOK_EVENTS = ['alert.created', 'alert.triggered', 'alert.acknowledged'] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed' | 'dead_letter';
+
+// Only undelivered attempts can be sent again; a delivered or in-flight one
+// would reach the receiver twice
+const REDELIVERABLE_STATUSES: WebhookDeliveryStatus[] = ['failed', 'dead_letter'];
+
+export type RedeliveryResult =
+  | { status: 'ok'; delivery: WebhookDelivery }
+  | { status: 'not_found' }
+  | { status: 'not_redeliverable'; deliveryStatus: WebhookDeliveryStatus };
+
+export interface WebhookDeliveryConfig {
+  maxAttempts: number; // attempts before a delivery is moved to dead_letter
+  baseDelayMs: number;
+  maxDelayMs: number;
+  backoffFactor: number;
+  timeoutMs: number;
+  pollIntervalMs: number;
+  batchSize: number;
+}
+
+export interface CreateWebhookInput {
+  url: string;
+  secret: string;
+  events: WebhookEvent[];
+}
+
+export interface DeliveryHistoryQuery {
+  status?: WebhookDeliveryStatus;
+  event?: WebhookEvent;
+  since?: string;
+  page: number;
+  limit: number;
+}
+
+export interface WebhookPayload {
+  id: string; // delivery id, stable across retries so receivers can de-duplicate
+  event: string;
+  createdAt: string;
+  data: Prisma.JsonValue;
+}
+
+// Webhook as returned by the API - the signing secret is never echoed back
+export type PublicWebhook = Omit<Webhook, 'secret'>;
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+export class WebhookService extends EventEmitter {
+  private readonly logger = Logger.getInstance();
+  private readonly client: AxiosInstance;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private isPolling = false;
+
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly config: WebhookDeliveryConfig = {
+      maxAttempts: 6,
+      baseDelayMs: 30000, // 30s, 1m, 2m, 4m, 8m
+      maxDelayMs: 60 * 60 * 1000,
+      backoffFactor: 2,
+      timeoutMs: 10000,
+      pollIntervalMs: 15000,
+      batchSize: 50
+    }
+  ) {
+    super();
+
+    this.client = axios.create({
+      timeout: this.config.timeoutMs,
+      headers: {
+        'User-Agent': 'memecoin-trading-algo/1.0.0',
+        'Content-Type': 'application/json'
+      },
+      // Any HTTP status is recorded on the delivery; only 2xx counts as delivered
+      validateStatus: () => true
+    });
+  }
+
+  /**
+   * Compute the signature receivers use to verify a payload:
+   * `sha256=` + hex HMAC-SHA256 of the raw request body keyed by the webhook secret
+   */
+  static sign(secret: string, body: string): string {
+    return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+  }
+
+  /**
+   * Start the background loop that retries failed and pending deliveries
+   */
+  start(): void {
+    if (this.pollTimer) {
+      return;
+    }
+
+    this.pollTimer = setInterval(() => {
+      void this.processDueDeliveries();
+    }, this.config.pollIntervalMs);
+
+    this.logger.info('Webhook delivery loop started', {
+      pollIntervalMs: this.config.pollIntervalMs,
+      maxAttempts: this.config.maxAttempts
+    });
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+      this.logger.info('Webhook delivery loop stopped');
+    }
+  }
+
+  async createWebhook(userId: string, input: CreateWebhookInput): Promise<PublicWebhook> {
+    const webhook = await this.prisma.webhook.create({
+      data: {
+        userId,
+        url: input.url,
+        secret: input.secret,
+        events: input.events
+      }
+    });
+
+    this.logger.info('Webhook registered', { webhookId: webhook.id, userId, events: input.events });
+
+    return this.toPublic(webhook);
+  }
+
+  async listWebhooks(userId: string): Promise<PublicWebhook[]> {
+    const webhooks = await this.prisma.webhook.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return webhooks.map(webhook => this.toPublic(webhook));
+  }
+
+  async getWebhook(userId: string, webhookId: string): Promise<PublicWebhook | null> {
+    const webhook = await this.prisma.webhook.findFirst({
+      where: { id: webhookId, userId }
+    });
+
+    return webhook ? this.toPublic(webhook) : null;
+  }
+
+  async deleteWebhook(userId: string, webhookId: string): Promise<boolean> {
+    const result = await this.prisma.webhook.deleteMany({
+      where: { id: webhookId, userId }
+    });
+
+    if (result.count > 0) {
+      this.logger.info('Webhook deleted', { webhookId, userId });
+    }
+
+    return result.count > 0;
+  }
+
+  /**
+   * Record a delivery for every active webhook of the alert's owner subscribed
+   * to the event and attempt each one immediately. Alerts without an owner
+   * (system alerts) go to every subscribed webhook. Never throws - alert
+   * handling must not fail because a receiver is down.
+   */
+  async dispatch(event: WebhookEvent, data: unknown, ownerId: string | null): Promise<number> {
+    try {
+      const webhooks = await this.prisma.webhook.findMany({
+        where: { isActive: true, events: { has: event }, ...(ownerId && { userId: ownerId }) }
+      });
+
+      if (webhooks.length === 0) {
+        return 0;
+      }
+
+      const payload = JSON.parse(JSON.stringify(data)) as Prisma.InputJsonValue;
+
+      const deliveries = await Promise.all(webhooks.map(webhook =>
+        this.prisma.webhookDelivery.create({
+          data: {
+            webhookId: webhook.id,
+            event,
+            payload,
+            status: 'pending',
+            nextAttemptAt: new Date()
+          }
+        })
+      ));
+
+      this.logger.debug('Webhook event dispatched', { event, deliveries: deliveries.length });
+
+      await Promise.allSettled(deliveries.map(delivery => this.attemptDelivery(delivery.id)));
+
+      return deliveries.length;
+
+    } catch (error) {
+      this.logger.error('Failed to dispatch webhook event', {
+        event,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return 0;
+    }
+  }
+
+  /**
+   * Retry every pending or failed delivery whose backoff has elapsed
+   */
+  async processDueDeliveries(): Promise<number> {
+    if (this.isPolling) {
+      return 0;
+    }
+
+    this.isPolling = true;
+
+    try {
+      const due = await this.prisma.webhookDelivery.findMany({
+        where: {
+          status: { in: ['pending', 'failed'] },
+          nextAttemptAt: { lte: new Date() }
+        },
+        orderBy: { nextAttemptAt: 'asc' },
+        take: this.config.batchSize,
+        select: { id: true }
+      });
+
+      for (const { id } of due) {
+        await this.attemptDelivery(id);
+      }
+
+      return due.length;
+
+    } catch (error) {
+      this.logger.error('Webhook retry loop failed', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return 0;
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  /**
+   * Attempt a single delivery. The row is leased by pushing nextAttemptAt past
+   * the request timeout, so concurrent API processes never send it twice and a
+   * crash mid-request simply lets the lease expire and the retry loop pick it up.
+   */
+  async attemptDelivery(deliveryId: string): Promise<WebhookDelivery | null> {
+    const now = new Date();
+    const claimed = await this.prisma.webhookDelivery.updateMany({
+      where: {
+        id: deliveryId,
+        status: { in: ['pending', 'failed'] },
+        nextAttemptAt: { lte: now }
+      },
+      data: {
+        nextAttemptAt: new Date(now.getTime() + this.config.timeoutMs * 2)
+      }
+    });
+
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    const delivery = await this.prisma.webhookDelivery.findUnique({
+      where: { id: deliveryId },
+      include: { webhook: true }
+    });
+
+    if (!delivery) {
+      return null;
+    }
+
+    if (!delivery.webhook.isActive) {
+      return this.prisma.webhookDelivery.update({
+        where: { id: deliveryId },
+        data: { status: 'dead_letter', nextAttemptAt: null, lastError: 'Webhook is inactive' }
+      });
+    }
+
+    const body = JSON.stringify(this.buildPayload(delivery));
+    const attempts = delivery.attempts + 1;
+    let responseStatus: number | null = null;
+    let lastError: string | null = null;
+
+    try {
+      const response = await this.client.post(delivery.webhook.url, body, {
+        headers: {
+          [SIGNATURE_HEADER]: WebhookService.sign(delivery.webhook.secret, body),
+          'X-Webhook-Id': delivery.webhookId,
+          'X-Webhook-Delivery': delivery.id,
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Attempt': String(attempts)
+        }
+      });
+
+      responseStatus = response.status;
+      if (response.status < 200 || response.status >= 300) {
+        lastError = `Receiver responded with HTTP ${response.status}`;
+      }
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    if (lastError === null) {
+      const delivered = await this.prisma.webhookDelivery.update({
+        where: { id: deliveryId },
+        data: {
+          status: 'delivered',
+          attempts,
+          responseStatus,
+          lastError: null,
+          nextAttemptAt: null,
+          deliveredAt: new Date()
+        }
+      });
+
+      this.emit('delivery:delivered', delivered);
+      return delivered;
+    }
+
+    const deadLetter = attempts >= this.config.maxAttempts;
+    const failed = await this.prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: {
+        status: deadLetter ? 'dead_letter' : 'failed',
+        attempts,
+        responseStatus,
+        lastError,
+        nextAttemptAt: deadLetter ? null : new Date(Date.now() + this.calculateBackoffDelay(attempts))
+      }
+    });
+
+    this.logger.warn(`Webhook delivery attempt ${attempts} failed`, {
+      deliveryId,
+      webhookId: delivery.webhookId,
+      event: delivery.event,
+      responseStatus,
+      error: lastError,
+      deadLetter
+    });
+
+    this.emit(deadLetter ? 'delivery:dead_letter' : 'delivery:failed', failed);
+    return failed;
+  }
+
+  /**
+   * Delivery history for one of the caller's webhooks, newest first
+   */
+  async getDeliveries(
+    userId: string,
+    webhookId: string,
+    query: DeliveryHistoryQuery
+  ): Promise<{ deliveries: WebhookDelivery[]; total: number } | null> {
+    const webhook = await this.prisma.webhook.findFirst({
+      where: { id: webhookId, userId },
+      select: { id: true }
+    });
+
+    if (!webhook) {
+      return null;
+    }
+
+    const where: Prisma.WebhookDeliveryWhereInput = {
+      webhookId,
+      ...(query.status && { status: query.status }),
+      ...(query.event && { event: query.event }),
+      ...(query.since && { createdAt: { gte: new Date(query.since) } })
+    };
+
+    const [deliveries, total] = await Promise.all([
+      this.prisma.webhookDelivery.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (query.page - 1) * query.limit,
+        take: query.limit
+      }),
+      this.prisma.webhookDelivery.count({ where })
+    ]);
+
+    return { deliveries, total };
+  }
+
+  /**
+   * Re-queue a failed or dead-lettered delivery for immediate sending.
+   * Delivered and pending deliveries are left alone.
+   */
+  async redeliver(userId: string, webhookId: string, deliveryId: string): Promise<RedeliveryResult> {
+    const delivery = await this.prisma.webhookDelivery.findFirst({
+      where: { id: deliveryId, webhookId, webhook: { userId } }
+    });
+
+    if (!delivery) {
+      return { status: 'not_found' };
+    }
+
+    // Guarded on the status, so two concurrent redeliveries re-queue it once
+    const { count } = await this.prisma.webhookDelivery.updateMany({
+      where: { id: deliveryId, status: { in: REDELIVERABLE_STATUSES } },
+      data: {
+        status: 'pending',
+        // Give a dead-lettered delivery a fresh retry budget
+        attempts: delivery.status === 'dead_letter' ? 0 : delivery.attempts,
+        nextAttemptAt: new Date()
+      }
+    });
+
+    if (count === 0) {
+      return { status: 'not_redeliverable', deliveryStatus: delivery.status as WebhookDeliveryStatus };
+    }
+
+    return { status: 'ok', delivery: (await this.attemptDelivery(deliveryId)) ?? delivery };
+  }
+
+  calculateBackoffDelay(attempts: number): number {
+    const delay = this.config.baseDelayMs * Math.pow(this.config.backoffFactor, attempts - 1);
+    return Math.min(delay, this.config.maxDelayMs);
+  }
+
+  private buildPayload(delivery: WebhookDelivery): WebhookPayload {
+    return {
+      id: delivery.id,
+      event: delivery.event,
+      createdAt: delivery.createdAt.toISOString(),
+      data: delivery.payload
+    };
+  }
+
+  private toPublic(webhook: Webhook): PublicWebhook {
+    return {
+      id: webhook.id,
+      userId: webhook.userId,
+      url: webhook.url,
+      events: webhook.events,
+      isActive: webhook.isActive,
+      createdAt: webhook.createdAt,
+      updatedAt: webhook.updatedAt
+    };
+  }
+}
@@ -74,31 +74,75 @@ export interface DexScreenerResponse {
   pairs: DexScreenerPair[];
 }
 
+// One pool (pair) a token trades in
+export interface DexPoolData {
+  pairAddress: string;
+  dexId: string; // e.g. 'raydium', 'meteora'
+  quoteSymbol: string;
+  price: number; // USD
+  liquidity: number; // USD
+  volume24h: number; // USD
+  pairCreatedAt: number;
+}
+
+// A token's market merged across every pool it trades in
+export interface TokenMarketView {
+  pools: DexPoolData[]; // highest liquidity first
+  totalLiquidity: number;
+  liquidityByDex: Record<string, number>;
+  totalVolume24h: number;
+  volumeWeightedPrice: number; // liquidity-weighted when no pool traded
+  dominantPair: string | null; // pair address of the deepest pool
+}
+
 export interface DexScreenerTokenData {
-  address: string;
+  address: string; // canonical for the chain (see utils/address)
+  chain?: string; // DexScreener chain id, e.g. 'solana'
   symbol: string;
   name: string;
-  launchTimestamp: number;
-  price: number;
+  launchTimestamp: number; // oldest pool
+  price: number; // volume-weighted across pools
   marketCap: number;
-  volume24h: number;
-  liquidity: number;
+  volume24h: number; // all pools
+  liquidity: number; // all pools
   age: number; // hours since launch
+  priceChange?: DexScreenerPair['priceChange']; // percent, dominant pool
+  txns?: DexScreenerPair['txns']; // all pools
+  market?: TokenMarketView;
   filtered: boolean;
   filterReason?: string;
 }
 
+// Where a piece of on-chain token data came from. 'unavailable' means every source failed.
+export type OnChainDataSource = 'rugcheck' | 'solscan' | 'solana-rpc' | 'fixture' | 'simulated' | 'unavailable';
+
 // RugCheck Types
+export type HoneypotRiskLevel = 'none' | 'low' | 'medium' | 'high' | 'unknown';
+
+export interface HoneypotEvidence {
+  score: number; // 0-100, higher is more likely a honeypot
+  reasons: string[];
+  roundTrip: JupiterRoundTripQuote | null; // null when quotes could not be requested
+  impliedTaxPercent: number | null; // round-trip loss not explained by price impact and fees
+}
+
 export interface RugCheckResult {
   address: string;
-  honeypotRisk: boolean;
+  honeypotRisk: HoneypotRiskLevel;
+  honeypotEvidence: HoneypotEvidence;
   mintAuthority: boolean;
   freezeAuthority: boolean;
   liquidityLocked: boolean;
   holderConcentration: number; // percentage held by top 10
-  safetyScore: number; // 0-10 scale
+  suspiciousName: boolean;
+  safetyScore: number; // 0-10 scale, scored by the active scoring profile
   risks: string[];
   warnings: string[];
+  dataSources: {
+    metadata: OnChainDataSource;
+    holders: OnChainDataSource;
+    liquidity: OnChainDataSource;
+  };
   filtered: boolean;
   filterReason?: string;
 }
@@ -132,10 +176,38 @@ export interface JupiterQuoteResponse {
   }>;
 }
 
+// Buy `notionalUsd` of a token with USDC, then sell everything received back to USDC
+export interface JupiterRoundTripQuote {
+  notionalUsd: number;
+  buyRoutable: boolean;
+  sellRoutable: boolean | null; // null when there was nothing to sell
+  tokensReceived: string | null; // raw units
+  usdcReturned: number | null;
+  roundTripLossPercent: number | null;
+  buyPriceImpactPercent: number | null;
+  sellPriceImpactPercent: number | null;
+}
+
+// Price impact of one trade size on the slippage ladder; null when that side has no route
+export interface SlippageCurvePoint {
+  sizeUsd: number;
+  buyImpactPercent: number | null;
+  sellImpactPercent: number | null;
+}
+
+// Largest trade that stays within `impactPercent` price impact on each side
+export interface DepthAtImpact {
+  impactPercent: number;
+  buyUsd: number;
+  sellUsd: number;
+}
+
 export interface JupiterTokenData {
   address: string;
   routingAvailable: boolean;
-  slippageEstimate: number; // percentage
+  slippageEstimate: number; // percentage, buy side at $500
+  slippageCurve: SlippageCurvePoint[]; // ascending by size
+  depthAtImpact: DepthAtImpact[];
   spread: number;
   volume24h: number;
   blacklisted: boolean;
@@ -163,13 +235,37 @@ export interface SolscanCreatorInfo {
   averageHolding: number; // days
 }
 
+export type HolderClusterReason = 'shared_funder' | 'funded_by_holder' | 'same_slot_window' | 'creator_funded';
+
+export interface HolderCluster {
+  wallets: string[]; // holder owner wallets, largest holding first
+  funders: string[];
+  reasons: HolderClusterReason[];
+  supplyPercentage: number;
+}
+
+export interface HolderClusterReport {
+  clusters: HolderCluster[]; // largest share first
+  clusteredSupplyPercentage: number; // held by wallets in any cluster
+  largestClusterPercentage: number;
+  effectiveTopHoldersPercentage: number; // top 3 holders with each cluster counted as one holder
+  analyzedHolders: number;
+  tracedHolders: number; // holders whose funding source was found
+}
+
 export interface SolscanTokenData {
   address: string;
   creatorWallet: string;
   creatorInfo: SolscanCreatorInfo;
   topHolders: SolscanTokenHolder[];
   topHoldersPercentage: number; // top 3 holders percentage
-  fundingPattern: 'organic' | 'suspicious' | 'coordinated';
+  holderClusters: HolderClusterReport;
+  dataSources: {
+    tokenInfo: OnChainDataSource;
+    holders: OnChainDataSource;
+    creator: OnChainDataSource;
+    funding: OnChainDataSource;
+  };
   filtered: boolean;
   filterReason?: string;
 }
@@ -188,12 +284,44 @@ export interface TokenFilterCriteria {
 
   // Jupiter filters
   maxSlippage?: number; // percentage
+  minTradableSizeUsd?: number; // USD tradable both ways within maxTradeImpact
+  maxTradeImpact?: number; // percentage, defaults to 2
   requireRouting?: boolean;
   allowBlacklisted?: boolean;
 
   // Solscan filters
   maxCreatorRugs?: number;
   maxTopHoldersPercentage?: number; // percentage
+  maxEffectiveTopHoldersPercentage?: number; // percentage, funding clusters counted as one holder
+}
+
+// Scoring Types
+export type SecurityCheck =
+  | 'mintAuthority'
+  | 'freezeAuthority'
+  | 'holderConcentration'
+  | 'liquidityUnlocked'
+  | 'suspiciousName'
+  | 'honeypot';
+
+export interface SecurityPenalty {
+  check: SecurityCheck;
+  points: number; // deducted from the profile's maximum safety score
+  severity: 'risk' | 'warning';
+}
+
+export interface ComponentScore {
+  score: number; // 0-100
+  weight: number;
+  contribution: number; // points added to the overall score
+  matchedRules: Array<{ id: string; points: number }>;
+}
+
+export interface ScoreBreakdown {
+  profileVersion: string;
+  safetyScore: number; // 0-10 scale
+  safetyPenalties: SecurityPenalty[];
+  components: Record<string, ComponentScore>;
 }
 
 // Combined Token Analysis
@@ -204,6 +332,7 @@ export interface CombinedTokenAnalysis {
   jupiter: JupiterTokenData;
   solscan: SolscanTokenData;
   overallScore: number; // 0-100 composite score
+  scoring: ScoreBreakdown;
   passed: boolean;
   failedFilters: string[];
   timestamp: Date;
@@ -0,0 +1,249 @@
+/**
+ * Chain-aware Token Addresses
+ * Per-chain validation and canonical forms for mint and contract addresses
+ *
+ * Solana mints are base58 and case-sensitive: lowercasing one yields a
+ * different (usually invalid) key, so they are only trimmed and checked to
+ * decode to 32 bytes. EVM addresses are case-insensitive hex; their canonical
+ * form is the EIP-55 mixed-case checksum. Addresses on chains without rules
+ * here are passed through trimmed.
+ */
+
+import { z } from 'zod';
+
+export const EVM_CHAINS = ['ethereum', 'bsc', 'base', 'arbitrum', 'polygon', 'avalanche', 'optimism'] as const;
+
+export const SUPPORTED_CHAINS = ['solana', ...EVM_CHAINS] as const;
+
+export type Chain = typeof SUPPORTED_CHAINS[number];
+
+export interface ChainAddress {
+  chain: Chain;
+  address: string; // canonical form for the chain
+}
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const BASE58_PATTERN = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+const EVM_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+const SOLANA_KEY_BYTES = 32;
+
+// Characters any supported chain's address can contain - used for route params and WebSocket channels
+export const ADDRESS_PATTERN = /^(?:[1-9A-HJ-NP-Za-km-z]{32,44}|0x[0-9a-fA-F]{40})$/;
+
+export function isEvmChain(chain: string): boolean {
+  return (EVM_CHAINS as readonly string[]).includes(chain);
+}
+
+/**
+ * Map a chain id as reported by DexScreener and friends ('solana', 'BSC', ...)
+ * onto a supported chain, or null when there are no address rules for it
+ */
+export function normalizeChain(chainId: string | null | undefined): Chain | null {
+  const chain = (chainId ?? '').trim().toLowerCase();
+  return (SUPPORTED_CHAINS as readonly string[]).includes(chain) ? chain as Chain : null;
+}
+
+/**
+ * Guess the chain from the address format. EVM addresses are reported as
+ * 'ethereum' since the format does not say which EVM chain they belong to.
+ */
+export function detectChain(address: string): Chain | null {
+  const trimmed = address.trim();
+  if (EVM_PATTERN.test(trimmed)) return 'ethereum';
+  if (isSolanaAddress(trimmed)) return 'solana';
+  return null;
+}
+
+/**
+ * Canonical form of an address on a chain, or null when it is not a valid
+ * address there. Unknown chains get the trimmed address back.
+ */
+export function canonicalizeAddress(address: string, chainId: string = 'solana'): string | null {
+  const trimmed = address.trim();
+  const chain = normalizeChain(chainId);
+
+  if (!chain) {
+    return trimmed.length > 0 ? trimmed : null;
+  }
+
+  if (chain === 'solana') {
+    return isSolanaAddress(trimmed) ? trimmed : null;
+  }
+
+  return EVM_PATTERN.test(trimmed) ? toChecksumAddress(trimmed) : null;
+}
+
+export function isValidAddress(address: string, chainId: string = 'solana'): boolean {
+  return canonicalizeAddress(address, chainId) !== null;
+}
+
+/**
+ * Resolve an address to its chain and canonical form; the chain is detected
+ * from the format when not given
+ */
+export function parseChainAddress(address: string, chainId?: string): ChainAddress | null {
+  const chain = chainId ? normalizeChain(chainId) : detectChain(address);
+  if (!chain) {
+    return null;
+  }
+
+  const canonical = canonicalizeAddress(address, chain);
+  return canonical ? { chain, address: canonical } : null;
+}
+
+/**
+ * Key for caches and in-memory sets. Canonical where the address is valid,
+ * otherwise the trimmed input, so lookups never merge two Solana mints.
+ */
+export function addressKey(address: string, chainId: string = 'solana'): string {
+  return canonicalizeAddress(address, chainId) ?? address.trim();
+}
+
+// Compare two addresses the way their chain does - exact for Solana, case-insensitive for EVM
+export function sameAddress(a: string, b: string, chainId: string = 'solana'): boolean {
+  return addressKey(a, chainId) === addressKey(b, chainId);
+}
+
+// True when an address has no uppercase letters although the format is mixed-case base58 - i.e. it was lowercased
+export function looksLowercased(address: string): boolean {
+  return /[a-z]/.test(address) && address === address.toLowerCase() && !EVM_PATTERN.test(address);
+}
+
+// Zod schema for a token or wallet address in any supported format, output in canonical form
+export const tokenAddressSchema = z.string().trim().transform((value, ctx) => {
+  const parsed = parseChainAddress(value);
+  if (!parsed) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid token address format' });
+    return z.NEVER;
+  }
+  return parsed.address;
+});
+
+export function isSolanaAddress(address: string): boolean {
+  if (!BASE58_PATTERN.test(address)) {
+    return false;
+  }
+
+  return decodeBase58(address)?.length === SOLANA_KEY_BYTES;
+}
+
+export function decodeBase58(value: string): Uint8Array | null {
+  let number = 0n;
+  for (const char of value) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit < 0) {
+      return null;
+    }
+    number = number * 58n + BigInt(digit);
+  }
+
+  const bytes: number[] = [];
+  while (number > 0n) {
+    bytes.unshift(Number(number & 0xffn));
+    number >>= 8n;
+  }
+
+  // Each leading '1' encodes a leading zero byte
+  const leadingZeros = value.length - value.replace(/^1+/, '').length;
+  return Uint8Array.from([...new Array<number>(leadingZeros).fill(0), ...bytes]);
+}
+
+// EIP-55: uppercase each hex letter whose nibble in keccak256(lowercase address) is >= 8
+export function toChecksumAddress(address: string): string {
+  const hex = address.slice(2).toLowerCase();
+  const hash = keccak256(Buffer.from(hex, 'ascii'));
+
+  let checksummed = '0x';
+  for (let i = 0; i < hex.length; i++) {
+    const nibble = (hash[i >> 1] >> (i % 2 === 0 ? 4 : 0)) & 0x0f;
+    checksummed += nibble >= 8 ? hex[i].toUpperCase() : hex[i];
+  }
+
+  return checksummed;
+}
+
+const MASK_64 = (1n << 64n) - 1n;
+const KECCAK_RATE_BYTES = 136;
+
+const KECCAK_ROUND_CONSTANTS = [
+  0x0000000000000001n, 0x0000000000008082n, 0x800000000000808an, 0x8000000080008000n,
+  0x000000000000808bn, 0x0000000080000001n, 0x8000000080008081n, 0x8000000000008009n,
+  0x000000000000008an, 0x0000000000000088n, 0x0000000080008009n, 0x000000008000000an,
+  0x000000008000808bn, 0x800000000000008bn, 0x8000000000008089n, 0x8000000000008003n,
+  0x8000000000008002n, 0x8000000000000080n, 0x000000000000800an, 0x800000008000000an,
+  0x8000000080008081n, 0x8000000000008080n, 0x0000000080000001n, 0x8000000080008008n
+];
+
+// Rotation offsets indexed by x + 5y
+const KECCAK_ROTATIONS = [
+  0, 1, 62, 28, 27,
+  36, 44, 6, 55, 20,
+  3, 10, 43, 25, 39,
+  41, 45, 15, 21, 8,
+  18, 2, 61, 56, 14
+];
+
+/**
+ * Keccak-256 as used by Ethereum (original Keccak padding, not SHA3-256).
+ * Only used for checksums, so it favours brevity over speed.
+ */
+export function keccak256(data: Uint8Array): Uint8Array {
+  const padded = new Uint8Array(Math.ceil((data.length + 1) / KECCAK_RATE_BYTES) * KECCAK_RATE_BYTES);
+  padded.set(data);
+  padded[data.length] ^= 0x01;
+  padded[padded.length - 1] ^= 0x80;
+
+  const state = new Array<bigint>(25).fill(0n);
+
+  for (let offset = 0; offset < padded.length; offset += KECCAK_RATE_BYTES) {
+    for (let lane = 0; lane < KECCAK_RATE_BYTES / 8; lane++) {
+      let value = 0n;
+      for (let byte = 7; byte >= 0; byte--) {
+        value = (value << 8n) | BigInt(padded[offset + lane * 8 + byte]);
+      }
+      state[lane] ^= value;
+    }
+    keccakPermute(state);
+  }
+
+  const output = new Uint8Array(32);
+  for (let i = 0; i < 32; i++) {
+    output[i] = Number((state[i >> 3] >> BigInt((i % 8) * 8)) & 0xffn);
+  }
+
+  return output;
+}
+
+function keccakPermute(state: bigint[]): void {
+  const rotate = (value: bigint, shift: number): bigint =>
+    shift === 0 ? value : ((value << BigInt(shift)) | (value >> BigInt(64 - shift))) & MASK_64;
+
+  for (const roundConstant of KECCAK_ROUND_CONSTANTS) {
+    // Theta
+    const columns = [0, 1, 2, 3, 4].map(x => state[x] ^ state[x + 5] ^ state[x + 10] ^ state[x + 15] ^ state[x + 20]);
+    for (let x = 0; x < 5; x++) {
+      const d = columns[(x + 4) % 5] ^ rotate(columns[(x + 1) % 5], 1);
+      for (let y = 0; y < 25; y += 5) {
+        state[x + y] ^= d;
+      }
+    }
+
+    // Rho and pi
+    const moved = new Array<bigint>(25);
+    for (let x = 0; x < 5; x++) {
+      for (let y = 0; y < 5; y++) {
+        moved[y + 5 * ((2 * x + 3 * y) % 5)] = rotate(state[x + 5 * y], KECCAK_ROTATIONS[x + 5 * y]);
+      }
+    }
+
+    // Chi
+    for (let y = 0; y < 25; y += 5) {
+      for (let x = 0; x < 5; x++) {
+        state[x + y] = moved[x + y] ^ (~moved[((x + 1) % 5) + y] & MASK_64 & moved[((x + 2) % 5) + y]);
+      }
+    }
+
+    // Iota
+    state[0] ^= roundConstant;
+  }
+}
@@ -0,0 +1,359 @@
+/**
+ * Export File Writers
+ * Streaming CSV, NDJSON and XLSX writers used by the export job runner
+ *
+ * Rows are written page by page so an export never has to hold the whole
+ * result set in memory. The text writers (CSV/NDJSON) report the exact number
+ * of bytes on disk after every page; a resumed job truncates the file back to
+ * that offset and keeps appending. When compression is enabled each page is
+ * written as its own gzip member - concatenated members are a valid gzip stream.
+ */
+
+import { promises as fs } from 'fs';
+import { gzipSync } from 'zlib';
+import ExcelJS from 'exceljs';
+
+export type ExportFormat = 'csv' | 'json' | 'xlsx';
+
+export type CompressionLevel = 'none' | 'low' | 'medium' | 'high';
+
+export const COMPRESSION_LEVELS: Record<CompressionLevel, number> = {
+  none: 0,
+  low: 1,
+  medium: 6,
+  high: 9
+};
+
+export interface ExportColumn {
+  key: string;
+  header: string;
+}
+
+export interface ExportSection {
+  name: string;
+  columns: ExportColumn[];
+}
+
+export type ExportRecord = Record<string, unknown>;
+
+export interface ExportWriterOptions {
+  filePath: string;
+  sections: ExportSection[];
+  compressionLevel: CompressionLevel;
+  timezone: string;
+  resumeFromBytes?: number; // text formats only
+}
+
+export interface ExportWriter {
+  readonly bytesWritten: number;
+  writeRows(section: string, rows: ExportRecord[]): Promise<void>;
+  close(): Promise<number>;
+  abort(): Promise<void>;
+}
+
+/**
+ * Check that a timezone is a valid IANA name accepted by Intl
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Format dates as ISO 8601 local time with offset, e.g. 2024-03-01T14:30:00+05:30
+ */
+export function createDateFormatter(timeZone: string): (date: Date) => string {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    timeZoneName: 'longOffset'
+  } as Intl.DateTimeFormatOptions);
+
+  return (date: Date): string => {
+    const parts: Record<string, string> = {};
+    for (const part of formatter.formatToParts(date)) {
+      parts[part.type] = part.value;
+    }
+
+    const offset = parts.timeZoneName === 'GMT' ? '+00:00' : parts.timeZoneName.replace('GMT', '');
+
+    return `${parts.year}-${parts.month}-${parts.day}T${parts.hour}:${parts.minute}:${parts.second}${offset}`;
+  };
+}
+
+/**
+ * Convert a raw value into something every output format can represent
+ */
+export function normalizeValue(value: unknown, formatDate: (date: Date) => string): string | number | boolean | null {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return formatDate(value);
+  if (typeof value === 'bigint') return value.toString();
+  if (typeof value === 'number' || typeof value === 'boolean' || typeof value === 'string') return value;
+  return JSON.stringify(value);
+}
+
+export function escapeCsvValue(value: string | number | boolean | null): string {
+  if (value === null) return '';
+
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function getFileExtension(format: ExportFormat, compressionLevel: CompressionLevel): string {
+  if (format === 'xlsx') return 'xlsx';
+
+  const extension = format === 'csv' ? 'csv' : 'ndjson';
+  return compressionLevel === 'none' ? extension : `${extension}.gz`;
+}
+
+export function getContentType(format: ExportFormat, compressionLevel: CompressionLevel): string {
+  if (format === 'xlsx') return 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+  if (compressionLevel !== 'none') return 'application/gzip';
+  return format === 'csv' ? 'text/csv' : 'application/x-ndjson';
+}
+
+export async function createExportWriter(format: ExportFormat, options: ExportWriterOptions): Promise<ExportWriter> {
+  switch (format) {
+    case 'csv':
+      return TextExportWriter.open(new CsvEncoder(options.sections), options);
+    case 'json':
+      return TextExportWriter.open(new NdjsonEncoder(options.sections), options);
+    case 'xlsx':
+      return new XlsxExportWriter(options);
+  }
+}
+
+interface RowEncoder {
+  header(): string;
+  encode(section: string, row: Record<string, string | number | boolean | null>): string;
+  columnsFor(section: string): ExportColumn[];
+}
+
+/**
+ * Single CSV file; with more than one section the columns are the union of all
+ * sections, prefixed by a record_type column naming the section of each row
+ */
+class CsvEncoder implements RowEncoder {
+  private readonly columns: ExportColumn[];
+  private readonly sectionColumns: Map<string, ExportColumn[]>;
+  private readonly multiSection: boolean;
+
+  constructor(sections: ExportSection[]) {
+    this.multiSection = sections.length > 1;
+    this.sectionColumns = new Map(sections.map(section => [section.name, section.columns]));
+
+    const seen = new Set<string>();
+    this.columns = [];
+    for (const section of sections) {
+      for (const column of section.columns) {
+        if (!seen.has(column.key)) {
+          seen.add(column.key);
+          this.columns.push(column);
+        }
+      }
+    }
+  }
+
+  header(): string {
+    const headers = this.columns.map(column => escapeCsvValue(column.header));
+    return `${(this.multiSection ? ['record_type', ...headers] : headers).join(',')}\n`;
+  }
+
+  encode(section: string, row: Record<string, string | number | boolean | null>): string {
+    const values = this.columns.map(column => escapeCsvValue(column.key in row ? row[column.key] : null));
+    return `${(this.multiSection ? [escapeCsvValue(section), ...values] : values).join(',')}\n`;
+  }
+
+  columnsFor(section: string): ExportColumn[] {
+    return this.sectionColumns.get(section) ?? [];
+  }
+}
+
+/**
+ * One JSON object per line; with more than one section each object carries a recordType key
+ */
+class NdjsonEncoder implements RowEncoder {
+  private readonly sectionColumns: Map<string, ExportColumn[]>;
+  private readonly multiSection: boolean;
+
+  constructor(sections: ExportSection[]) {
+    this.multiSection = sections.length > 1;
+    this.sectionColumns = new Map(sections.map(section => [section.name, section.columns]));
+  }
+
+  header(): string {
+    return '';
+  }
+
+  encode(section: string, row: Record<string, string | number | boolean | null>): string {
+    return `${JSON.stringify(this.multiSection ? { recordType: section, ...row } : row)}\n`;
+  }
+
+  columnsFor(section: string): ExportColumn[] {
+    return this.sectionColumns.get(section) ?? [];
+  }
+}
+
+class TextExportWriter implements ExportWriter {
+  private offset: number;
+
+  private constructor(
+    private readonly handle: fs.FileHandle,
+    private readonly encoder: RowEncoder,
+    private readonly filePath: string,
+    private readonly gzipLevel: number,
+    private readonly formatDate: (date: Date) => string,
+    offset: number
+  ) {
+    this.offset = offset;
+  }
+
+  static async open(encoder: RowEncoder, options: ExportWriterOptions): Promise<TextExportWriter> {
+    const resumeFrom = options.resumeFromBytes ?? 0;
+    let handle: fs.FileHandle;
+
+    if (resumeFrom > 0) {
+      // Anything past the checkpoint belongs to a page that was never acknowledged
+      handle = await fs.open(options.filePath, 'r+');
+      await handle.truncate(resumeFrom);
+    } else {
+      handle = await fs.open(options.filePath, 'w');
+    }
+
+    const writer = new TextExportWriter(
+      handle,
+      encoder,
+      options.filePath,
+      COMPRESSION_LEVELS[options.compressionLevel],
+      createDateFormatter(options.timezone),
+      resumeFrom
+    );
+
+    if (resumeFrom === 0) {
+      const header = encoder.header();
+      if (header) {
+        await writer.append(header);
+      }
+    }
+
+    return writer;
+  }
+
+  get bytesWritten(): number {
+    return this.offset;
+  }
+
+  async writeRows(section: string, rows: ExportRecord[]): Promise<void> {
+    if (rows.length === 0) return;
+
+    const columns = this.encoder.columnsFor(section);
+    const chunk = rows.map(row => {
+      const normalized: Record<string, string | number | boolean | null> = {};
+      for (const column of columns) {
+        normalized[column.key] = normalizeValue(row[column.key], this.formatDate);
+      }
+      return this.encoder.encode(section, normalized);
+    }).join('');
+
+    await this.append(chunk);
+  }
+
+  async close(): Promise<number> {
+    await this.handle.sync();
+    await this.handle.close();
+    return this.offset;
+  }
+
+  async abort(): Promise<void> {
+    await this.handle.close().catch(() => undefined);
+    await fs.unlink(this.filePath).catch(() => undefined);
+  }
+
+  private async append(text: string): Promise<void> {
+    const raw = Buffer.from(text, 'utf8');
+    const buffer = this.gzipLevel > 0 ? gzipSync(raw, { level: this.gzipLevel }) : raw;
+
+    await this.handle.write(buffer, 0, buffer.length, this.offset);
+    this.offset += buffer.length;
+  }
+}
+
+/**
+ * Streaming XLSX workbook with one worksheet per section. Zip archives can't be
+ * appended to, so an interrupted XLSX export restarts from the first row.
+ */
+class XlsxExportWriter implements ExportWriter {
+  private readonly workbook: ExcelJS.stream.xlsx.WorkbookWriter;
+  private readonly sections: Map<string, ExportColumn[]>;
+  private readonly formatDate: (date: Date) => string;
+  private readonly createdSheets = new Set<string>();
+  private currentSheet: { name: string; sheet: ExcelJS.Worksheet } | null = null;
+
+  constructor(private readonly options: ExportWriterOptions) {
+    this.sections = new Map(options.sections.map(section => [section.name, section.columns]));
+    this.formatDate = createDateFormatter(options.timezone);
+    this.workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+      filename: options.filePath,
+      useStyles: false,
+      useSharedStrings: false,
+      zip: { zlib: { level: COMPRESSION_LEVELS[options.compressionLevel] } }
+    });
+  }
+
+  get bytesWritten(): number {
+    return 0;
+  }
+
+  async writeRows(section: string, rows: ExportRecord[]): Promise<void> {
+    const sheet = this.getSheet(section);
+    const columns = this.sections.get(section) ?? [];
+
+    for (const row of rows) {
+      sheet.addRow(columns.map(column => normalizeValue(row[column.key], this.formatDate))).commit();
+    }
+  }
+
+  async close(): Promise<number> {
+    // Sections without rows still get a worksheet with headers
+    for (const section of this.sections.keys()) {
+      if (!this.createdSheets.has(section)) {
+        this.getSheet(section);
+      }
+    }
+    this.currentSheet?.sheet.commit();
+    await this.workbook.commit();
+
+    const stats = await fs.stat(this.options.filePath);
+    return stats.size;
+  }
+
+  async abort(): Promise<void> {
+    await this.workbook.commit().catch(() => undefined);
+    await fs.unlink(this.options.filePath).catch(() => undefined);
+  }
+
+  private getSheet(section: string): ExcelJS.Worksheet {
+    if (this.currentSheet?.name === section) {
+      return this.currentSheet.sheet;
+    }
+
+    this.currentSheet?.sheet.commit();
+
+    const sheet = this.workbook.addWorksheet(section);
+    sheet.columns = (this.sections.get(section) ?? []).map(column => ({ header: column.header, key: column.key }));
+    this.currentSheet = { name: section, sheet };
+    this.createdSheets.add(section);
+
+    return sheet;
+  }
+}
@@ -157,6 +157,12 @@ export const DEFAULT_RATE_LIMITS: Map<string, RateLimitConfig> = new Map([
     windowMs: 60000, // 1 minute
     backoffMs: 1500,
     maxRetries: 4
+  }],
+  ['solana-rpc', {
+    maxRequests: 300,
+    windowMs: 60000, // 1 minute
+    backoffMs: 1000,
+    maxRetries: 3
   }]
 ]);
 
@@ -0,0 +1,176 @@
+import { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { FiltersController } from '@/api/controllers/filters.controller';
+import { WebSocketManager } from '@/api/websocket/websocket-manager';
+
+describe('FiltersController', () => {
+  const createFilter = (overrides: Record<string, unknown> = {}) => ({
+    id: 'filter_1',
+    userId: 'user_1',
+    name: 'Liquid memes',
+    description: null,
+    criteria: { liquidity: { min: 10000 } },
+    isPublic: false,
+    isActive: true,
+    useCount: 0,
+    lastExecutedAt: null,
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+    ...overrides
+  });
+
+  // Only the key's owner id is read from the request; the x-user-id header is ignored
+  const request = (userId: string | null, overrides: Partial<Request> = {}): Request => ({
+    params: {},
+    query: {},
+    body: {},
+    headers: { 'x-user-id': 'spoofed_user' },
+    ...(userId && { user: { id: userId, apiKeyId: 'key_1', tier: 'free', scopes: ['read'] } }),
+    ...overrides
+  }) as unknown as Request;
+
+  const response = () => {
+    const res = { status: jest.fn(), json: jest.fn() };
+    res.status.mockReturnValue(res);
+    return res;
+  };
+
+  let prisma: { filter: Record<string, jest.Mock> };
+  let controller: FiltersController;
+
+  beforeEach(() => {
+    prisma = {
+      filter: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        findMany: jest.fn().mockResolvedValue([]),
+        count: jest.fn().mockResolvedValue(0),
+        create: jest.fn().mockImplementation(({ data }) => Promise.resolve(createFilter({ name: data.name, isPublic: data.isPublic }))),
+        update: jest.fn().mockImplementation(({ data }) => Promise.resolve(createFilter(data))),
+        deleteMany: jest.fn().mockResolvedValue({ count: 1 })
+      }
+    };
+
+    controller = new FiltersController(
+      prisma as unknown as PrismaClient,
+      { broadcastFilterResults: jest.fn() } as unknown as WebSocketManager
+    );
+  });
+
+  describe('ownership', () => {
+    it('should create the filter for the caller of the API key', async () => {
+      const res = response();
+
+      await controller.createFilter(request('user_1', {
+        body: { name: 'Liquid memes', criteria: { liquidity: { min: 10000 } } }
+      }), res as unknown as Response);
+
+      expect(res.status).toHaveBeenCalledWith(201);
+      expect(prisma.filter.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          name: 'Liquid memes',
+          isPublic: false,
+          user: { connectOrCreate: { where: { id: 'user_1' }, create: { id: 'user_1' } } }
+        })
+      });
+    });
+
+    it('should only let the owner update a filter', async () => {
+      prisma.filter.findUnique.mockResolvedValue(createFilter());
+      const body = { name: 'Renamed' };
+
+      const forbidden = response();
+      await controller.updateFilter(request('user_2', { params: { id: 'filter_1' }, body }), forbidden as unknown as Response);
+      expect(forbidden.status).toHaveBeenCalledWith(403);
+      expect(prisma.filter.update).not.toHaveBeenCalled();
+
+      const anonymous = response();
+      await controller.updateFilter(request(null, { params: { id: 'filter_1' }, body }), anonymous as unknown as Response);
+      expect(anonymous.status).toHaveBeenCalledWith(403);
+
+      const res = response();
+      await controller.updateFilter(request('user_1', { params: { id: 'filter_1' }, body }), res as unknown as Response);
+      expect(prisma.filter.update).toHaveBeenCalledWith({ where: { id: 'filter_1' }, data: { name: 'Renamed' } });
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ success: true, data: expect.objectContaining({ name: 'Renamed' }) }));
+    });
+
+    it('should only let the owner delete a filter', async () => {
+      prisma.filter.findUnique.mockResolvedValue(createFilter());
+
+      const forbidden = response();
+      await controller.deleteFilter(request('user_2', { params: { id: 'filter_1' } }), forbidden as unknown as Response);
+      expect(forbidden.status).toHaveBeenCalledWith(403);
+      expect(prisma.filter.deleteMany).not.toHaveBeenCalled();
+
+      const res = response();
+      await controller.deleteFilter(request('user_1', { params: { id: 'filter_1' } }), res as unknown as Response);
+      expect(prisma.filter.deleteMany).toHaveBeenCalledWith({ where: { id: 'filter_1', userId: 'user_1' } });
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ success: true }));
+
+      // Deleted concurrently between the lookup and the delete
+      prisma.filter.deleteMany.mockResolvedValue({ count: 0 });
+      const gone = response();
+      await controller.deleteFilter(request('user_1', { params: { id: 'filter_1' } }), gone as unknown as Response);
+      expect(gone.status).toHaveBeenCalledWith(404);
+    });
+  });
+
+  describe('visibility', () => {
+    it('should hide a private filter from everyone but its owner', async () => {
+      prisma.filter.findUnique.mockResolvedValue(createFilter());
+
+      const other = response();
+      await controller.getFilter(request('user_2', { params: { id: 'filter_1' } }), other as unknown as Response);
+      expect(other.status).toHaveBeenCalledWith(404);
+
+      const anonymous = response();
+      await controller.getFilter(request(null, { params: { id: 'filter_1' } }), anonymous as unknown as Response);
+      expect(anonymous.status).toHaveBeenCalledWith(404);
+
+      const owner = response();
+      await controller.getFilter(request('user_1', { params: { id: 'filter_1' } }), owner as unknown as Response);
+      expect(owner.json).toHaveBeenCalledWith(expect.objectContaining({ success: true, data: expect.objectContaining({ id: 'filter_1' }) }));
+
+      prisma.filter.findUnique.mockResolvedValue(createFilter({ isPublic: true }));
+      const publicFilter = response();
+      await controller.getFilter(request('user_2', { params: { id: 'filter_1' } }), publicFilter as unknown as Response);
+      expect(publicFilter.json).toHaveBeenCalledWith(expect.objectContaining({ success: true }));
+    });
+
+    it('should list public filters plus the caller\'s own private ones', async () => {
+      await controller.listFilters(request('user_1'), response() as unknown as Response);
+      expect(prisma.filter.findMany.mock.calls[0][0].where).toEqual({
+        isActive: true,
+        OR: [{ isPublic: true }, { userId: 'user_1' }]
+      });
+
+      await controller.listFilters(request(null), response() as unknown as Response);
+      expect(prisma.filter.findMany.mock.calls[1][0].where).toEqual({
+        isActive: true,
+        OR: [{ isPublic: true }]
+      });
+    });
+  });
+
+  describe('getPopularFilters', () => {
+    it('should rank active public filters by use, then by their last execution', async () => {
+      prisma.filter.findMany.mockResolvedValue([
+        createFilter({ id: 'filter_2', isPublic: true, useCount: 12 }),
+        createFilter({ id: 'filter_3', isPublic: true, useCount: 3 })
+      ]);
+      prisma.filter.count.mockResolvedValue(2);
+      const res = response();
+
+      await controller.getPopularFilters(request(null, { query: { page: '1', limit: '10' } }), res as unknown as Response);
+
+      expect(prisma.filter.findMany).toHaveBeenCalledWith({
+        where: { isPublic: true, isActive: true },
+        orderBy: [{ useCount: 'desc' }, { lastExecutedAt: { sort: 'desc', nulls: 'last' } }, { id: 'asc' }],
+        skip: 0,
+        take: 10
+      });
+      const [body] = res.json.mock.calls[0];
+      expect(body.data.map((filter: { id: string }) => filter.id)).toEqual(['filter_2', 'filter_3']);
+      expect(body.pagination).toMatchObject({ total: 2, hasNext: false });
+    });
+  });
+});
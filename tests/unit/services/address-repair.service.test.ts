@@ -0,0 +1,150 @@
+import { PrismaClient } from '@prisma/client';
+import { AddressRepairService } from '@/services/address-repair.service';
+import {
+  addressKey,
+  canonicalizeAddress,
+  looksLowercased,
+  parseChainAddress,
+  sameAddress,
+  tokenAddressSchema
+} from '@/utils/address';
+
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+const WIF = 'EKpQGSJtjMFqKZ9KQanSqYXRcF8fBopzLHYxdM65zcjm';
+
+describe('chain-aware addresses', () => {
+  it('should keep Solana mints as they are and reject lowercased ones', () => {
+    expect(canonicalizeAddress(` ${USDC} `, 'solana')).toBe(USDC);
+    expect(canonicalizeAddress(USDC.toLowerCase(), 'solana')).toBeNull();
+    expect(canonicalizeAddress('not-a-mint', 'solana')).toBeNull();
+
+    expect(sameAddress(USDC, USDC.toLowerCase())).toBe(false);
+    expect(addressKey(USDC.toLowerCase())).toBe(USDC.toLowerCase());
+    expect(looksLowercased(USDC.toLowerCase())).toBe(true);
+    expect(looksLowercased(USDC)).toBe(false);
+  });
+
+  it('should checksum EVM addresses per EIP-55', () => {
+    expect(canonicalizeAddress('0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed', 'ethereum'))
+      .toBe('0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed');
+    expect(canonicalizeAddress('0xFB6916095CA1DF60BB79CE92CE3EA74C37C5D359', 'bsc'))
+      .toBe('0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359');
+    expect(sameAddress('0xdbf03b407c01e7cd3cbea99509d93f8dddc8c6fb', '0xDBF03B407C01E7CD3CBEA99509D93F8DDDC8C6FB', 'base')).toBe(true);
+    expect(canonicalizeAddress(USDC, 'ethereum')).toBeNull();
+  });
+
+  it('should detect the chain for route params and channels', () => {
+    expect(parseChainAddress(BONK)).toEqual({ chain: 'solana', address: BONK });
+    expect(parseChainAddress('0xd9145cce52d386f254917e481eb44e9943f39138'))
+      .toEqual({ chain: 'ethereum', address: '0xd9145CCE52D386f254917e481eB44e9943F39138' });
+    expect(canonicalizeAddress(' ABC ', 'tron')).toBe('ABC');
+
+    expect(tokenAddressSchema.parse(` ${BONK}`)).toBe(BONK);
+    expect(tokenAddressSchema.safeParse(BONK.toLowerCase()).success).toBe(false);
+  });
+});
+
+describe('AddressRepairService', () => {
+  const tx = {
+    token: { update: jest.fn(), delete: jest.fn() },
+    tokenPrice: { updateMany: jest.fn() },
+    tokenAnalysis: { updateMany: jest.fn() },
+    alert: { updateMany: jest.fn() },
+    alertEvent: { updateMany: jest.fn() },
+    priceData: { updateMany: jest.fn() },
+    tradingSignal: { updateMany: jest.fn() },
+    safetyScore: { updateMany: jest.fn() },
+    trade: { updateMany: jest.fn() },
+    alertSubscription: { findMany: jest.fn(), findUnique: jest.fn(), update: jest.fn(), delete: jest.fn() }
+  };
+
+  let tokens: Array<{ id: string; address: string; chain: string | null }>;
+  let creatorMints: string[];
+
+  // Answers the service's raw queries from the in-memory tables above
+  const queryRaw = jest.fn((strings: TemplateStringsArray, ...values: string[]) => {
+    const sql = strings.join('?');
+    if (sql.includes('FROM creator_tokens')) {
+      return Promise.resolve(creatorMints.filter(mint => mint.toLowerCase() === values[0]).map(mint => ({ mint })));
+    }
+    if (sql.includes('lower(address) =')) {
+      return Promise.resolve(tokens.filter(token => token.address.toLowerCase() === values[0] && token.address !== values[1]));
+    }
+    return Promise.resolve(tokens.filter(token => (token.chain ?? 'solana') === 'solana' && token.address === token.address.toLowerCase()));
+  });
+
+  const prisma = {
+    $queryRaw: queryRaw,
+    $transaction: jest.fn((run: (client: typeof tx) => Promise<void>) => run(tx)),
+    token: {
+      findUnique: jest.fn(({ where }: { where: { address: string } }) =>
+        Promise.resolve(tokens.find(token => token.address === where.address) ?? null))
+    }
+  };
+  const dexScreener = { searchTokenAddresses: jest.fn() };
+
+  const service = new AddressRepairService(prisma as unknown as PrismaClient, dexScreener);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tokens = [
+      { id: 'tok_usdc', address: USDC.toLowerCase(), chain: 'solana' },
+      { id: 'tok_bonk_lower', address: BONK.toLowerCase(), chain: null },
+      { id: 'tok_bonk', address: BONK, chain: 'solana' },
+      { id: 'tok_wif', address: WIF.toLowerCase(), chain: 'solana' },
+      { id: 'tok_pepe', address: '0x6982508145454ce325ddbe47a25d4ec3d2311933', chain: 'ethereum' },
+      { id: 'tok_gone', address: '7xkxtg2cw87d97txjsdpbd5jbkhetqa83tzrujosgasu', chain: 'solana' }
+    ];
+    creatorMints = [USDC];
+    tx.alertSubscription.findMany.mockResolvedValue([]);
+    dexScreener.searchTokenAddresses.mockImplementation((query: string) => Promise.resolve({
+      success: true,
+      data: query === WIF.toLowerCase() ? [WIF, 'So11111111111111111111111111111111111111112'] : [],
+      timestamp: new Date(),
+      source: 'dexscreener'
+    }));
+  });
+
+  it('should only report what it would change on a dry run', async () => {
+    const report = await service.repair({ dryRun: true });
+
+    expect(report).toMatchObject({ dryRun: true, scanned: 4, unresolved: ['7xkxtg2cw87d97txjsdpbd5jbkhetqa83tzrujosgasu'] });
+    expect(report.repaired).toEqual([
+      { tokenId: 'tok_usdc', from: USDC.toLowerCase(), to: USDC, source: 'creator_tokens' },
+      { tokenId: 'tok_bonk_lower', from: BONK.toLowerCase(), to: BONK, source: 'tokens', mergedInto: 'tok_bonk' },
+      { tokenId: 'tok_wif', from: WIF.toLowerCase(), to: WIF, source: 'dexscreener' }
+    ]);
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('should rename rows in place and merge them into an existing correctly-cased row', async () => {
+    tx.alertSubscription.findMany.mockImplementation(({ where }) => Promise.resolve(
+      where.OR[1].target === BONK.toLowerCase()
+        ? [
+          { id: 'sub_dup', userId: 'user_1', type: 'token', target: BONK.toLowerCase(), tokenId: 'tok_bonk_lower' },
+          { id: 'sub_move', userId: 'user_2', type: 'token', target: BONK.toLowerCase(), tokenId: 'tok_bonk_lower' }
+        ]
+        : []
+    ));
+    tx.alertSubscription.findUnique.mockImplementation(({ where }) => Promise.resolve(
+      where.userId_type_target.userId === 'user_1' ? { id: 'sub_existing' } : null
+    ));
+
+    await service.repair();
+
+    expect(tx.token.update).toHaveBeenCalledWith({ where: { id: 'tok_usdc' }, data: { address: USDC } });
+    expect(tx.token.update).toHaveBeenCalledWith({ where: { id: 'tok_wif' }, data: { address: WIF } });
+
+    // The lowercased BONK row is folded into the existing one
+    expect(tx.priceData.updateMany).toHaveBeenCalledWith({ where: { tokenId: 'tok_bonk_lower' }, data: { tokenId: 'tok_bonk' } });
+    expect(tx.trade.updateMany).toHaveBeenCalledWith({ where: { tokenId: 'tok_bonk_lower' }, data: { tokenId: 'tok_bonk' } });
+    expect(tx.alertSubscription.delete).toHaveBeenCalledWith({ where: { id: 'sub_dup' } });
+    expect(tx.alertSubscription.update).toHaveBeenCalledWith({
+      where: { id: 'sub_move' },
+      data: { tokenId: 'tok_bonk', target: BONK }
+    });
+    expect(tx.token.delete).toHaveBeenCalledWith({ where: { id: 'tok_bonk_lower' } });
+    expect(tx.token.delete).toHaveBeenCalledTimes(1);
+  });
+});
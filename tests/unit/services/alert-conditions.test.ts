@@ -0,0 +1,96 @@
+import {
+  alertConditionSchema,
+  buildMetricSeries,
+  conditionLookbackMs,
+  describeCondition,
+  evaluateCondition,
+  PricePoint
+} from '@/services/alerts';
+
+const MINUTE_MS = 60 * 1000;
+const now = new Date('2024-03-01T12:00:00Z');
+const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * MINUTE_MS);
+
+const price = (minutes: number, overrides: Partial<PricePoint> = {}): PricePoint => ({
+  timestamp: minutesAgo(minutes),
+  price: 1,
+  change1h: null,
+  change24h: null,
+  volume: 5000,
+  liquidity: 20000,
+  marketCap: 200000,
+  buys5m: 10,
+  sells5m: 10,
+  ...overrides
+});
+
+describe('alert conditions', () => {
+  it('should merge price and safety rows and carry values forward', () => {
+    const series = buildMetricSeries(
+      [price(20, { price: 1 }), price(10, { price: 2, buys5m: 5, sells5m: 15 })],
+      [
+        { timestamp: new Date(minutesAgo(20).getTime() + 1000), overallScore: 70, details: { holder_concentration: 30 } },
+        { timestamp: minutesAgo(5), overallScore: 50, details: null }
+      ]
+    );
+
+    expect(series.map(sample => [sample.metrics.price, sample.metrics.safetyScore, sample.metrics.holderConcentration])).toEqual([
+      [1, 7, 30], // merged: written by the same poll
+      [2, 7, 30],
+      [2, 5, 30]
+    ]);
+    expect(series[1].metrics.sellBuyRatio5m).toBe(3);
+  });
+
+  it('should compare percent and delta changes against the first value in the period', () => {
+    const series = buildMetricSeries(
+      [price(30, { liquidity: 30000 }), price(8, { liquidity: 20000 }), price(0, { liquidity: 12000 })],
+      [{ timestamp: minutesAgo(50), overallScore: 80, details: {} }, { timestamp: minutesAgo(0), overallScore: 55, details: {} }]
+    );
+
+    expect(evaluateCondition({ metric: 'liquidity', change: 'percent', period: '10m', operator: 'lte', value: -30 }, series))
+      .toEqual({ holds: true, value: -40, margin: 10 });
+    expect(evaluateCondition({ metric: 'safetyScore', change: 'delta', period: '1h', operator: 'lte', value: -2 }, series).holds)
+      .toBe(true);
+    // Nothing earlier in a 5-minute window to compare with
+    expect(evaluateCondition({ metric: 'liquidity', change: 'percent', period: '5m', operator: 'lte', value: -30 }, series).holds)
+      .toBeNull();
+  });
+
+  it('should hold a cross only on the snapshot that crosses the period high', () => {
+    const series = buildMetricSeries([price(50, { price: 1.5 }), price(30, { price: 1.2 }), price(10, { price: 1.6 }), price(0, { price: 1.55 })], []);
+    const breakout = { metric: 'price' as const, operator: 'crosses_above' as const, reference: 'high' as const, period: '1h' };
+
+    expect(evaluateCondition(breakout, series, 2).holds).toBe(true);
+    expect(evaluateCondition(breakout, series, 3).holds).toBe(false); // back under the new high
+    expect(evaluateCondition(breakout, series, 0).holds).toBeNull();
+  });
+
+  it('should combine conditions with three-valued all/any logic', () => {
+    const series = buildMetricSeries([price(0, { price: 3, buys5m: 0 })], []);
+    const priceAbove = { metric: 'price' as const, operator: 'gt' as const, value: 2 };
+    const sellPressure = { metric: 'sellBuyRatio5m' as const, operator: 'gt' as const, value: 2 }; // unknown: no buys
+
+    expect(evaluateCondition({ all: [priceAbove, sellPressure] }, series).holds).toBeNull();
+    expect(evaluateCondition({ any: [priceAbove, sellPressure] }, series).holds).toBe(true);
+    expect(evaluateCondition({ all: [{ ...priceAbove, value: 5 }, sellPressure] }, series).holds).toBe(false);
+  });
+
+  it('should validate, describe and size conditions', () => {
+    const condition = {
+      any: [
+        { metric: 'price', operator: 'crosses_below', reference: 'low', period: '1h' },
+        { all: [{ metric: 'liquidity', change: 'percent', period: '2d', operator: 'lt', value: -50 }, { metric: 'safetyScore', operator: 'lt', value: 4 }] }
+      ]
+    };
+
+    expect(alertConditionSchema.safeParse(condition).success).toBe(true);
+    expect(describeCondition(alertConditionSchema.parse(condition)))
+      .toBe('price crossed below 1h low or (liquidity % change over 2d below -50 and safetyScore below 4)');
+    expect(conditionLookbackMs(alertConditionSchema.parse(condition))).toBe(2 * 24 * 60 * MINUTE_MS);
+
+    expect(alertConditionSchema.safeParse({ metric: 'price', operator: 'gt', reference: 'high' }).success).toBe(false);
+    expect(alertConditionSchema.safeParse({ metric: 'price', operator: 'crosses_above', change: 'delta', value: 1, period: '1h' }).success).toBe(false);
+    expect(alertConditionSchema.safeParse({ metric: 'price', operator: 'gt', value: 1, period: '30d' }).success).toBe(false);
+  });
+});
@@ -0,0 +1,385 @@
+import { PrismaClient } from '@prisma/client';
+import {
+  AlertEngineService,
+  AlertMetricSnapshot,
+  AlertRuleState,
+  evaluateAlertRule,
+  MetricSample
+} from '@/services/alerts';
+import { Alert } from '@/api/types/api.types';
+
+const now = new Date('2024-03-01T12:00:00Z');
+const secondsAgo = (seconds: number) => new Date(now.getTime() - seconds * 1000);
+
+const snapshot = (overrides: Partial<AlertMetricSnapshot> = {}): AlertMetricSnapshot => ({
+  price: 1,
+  priceChange1h: 0,
+  priceChange24h: 0,
+  volume24h: 5000,
+  liquidity: 20000,
+  marketCap: 200000,
+  safetyScore: 8,
+  holderConcentration: 40,
+  buys5m: 10,
+  sells5m: 10,
+  sellBuyRatio5m: 1,
+  ...overrides
+});
+
+const latest = (overrides: Partial<AlertMetricSnapshot> = {}): MetricSample[] => [{ at: now, metrics: snapshot(overrides) }];
+
+// Fires when the price rises above 2
+const rule = (overrides: Partial<AlertRuleState> = {}): AlertRuleState => ({
+  condition: { metric: 'price', operator: 'gt', value: 2 },
+  mode: 'recurring',
+  cooldownSeconds: 600,
+  hysteresis: 0.2,
+  expiresAt: null,
+  isActive: true,
+  isTriggered: false,
+  triggeredAt: null,
+  ...overrides
+});
+
+describe('AlertEngineService', () => {
+  describe('evaluateAlertRule', () => {
+    it('should fire an armed rule once its condition holds', () => {
+      expect(evaluateAlertRule(rule(), latest({ price: 1.5 }), now)).toMatchObject({ fire: false, changed: false });
+      expect(evaluateAlertRule(rule(), latest({ price: 2.5 }), now)).toEqual({
+        fire: true,
+        holds: true,
+        value: 2.5,
+        isActive: true,
+        isTriggered: true,
+        changed: true
+      });
+    });
+
+    it('should stay disarmed until the metric clears the hysteresis band', () => {
+      const fired = rule({ isTriggered: true, triggeredAt: secondsAgo(3600) });
+
+      expect(evaluateAlertRule(fired, latest({ price: 2.5 }), now)).toMatchObject({ fire: false, changed: false });
+      expect(evaluateAlertRule(fired, latest({ price: 1.9 }), now)).toMatchObject({ isTriggered: true, changed: false });
+      expect(evaluateAlertRule(fired, latest({ price: 1.7 }), now)).toMatchObject({ fire: false, isTriggered: false, changed: true });
+    });
+
+    it('should not fire again within the cooldown', () => {
+      const rearmed = rule({ triggeredAt: secondsAgo(300) });
+
+      expect(evaluateAlertRule(rearmed, latest({ price: 2.5 }), now)).toMatchObject({ fire: false, changed: false });
+      expect(evaluateAlertRule({ ...rearmed, triggeredAt: secondsAgo(900) }, latest({ price: 2.5 }), now)).toMatchObject({ fire: true });
+    });
+
+    it('should deactivate one-shot rules after firing and any rule once expired', () => {
+      expect(evaluateAlertRule(rule({ mode: 'one_shot' }), latest({ price: 3 }), now)).toMatchObject({ fire: true, isActive: false });
+      expect(evaluateAlertRule(rule({ expiresAt: secondsAgo(1) }), latest({ price: 3 }), now)).toMatchObject({
+        fire: false,
+        isActive: false,
+        changed: true
+      });
+    });
+
+    it('should leave the rule alone when the snapshot lacks its metric', () => {
+      const safetyRule = rule({ condition: { metric: 'safetyScore', operator: 'lt', value: 5 } });
+
+      expect(evaluateAlertRule(safetyRule, latest({ safetyScore: null }), now)).toMatchObject({ fire: false, changed: false });
+    });
+  });
+
+  describe('pollForSnapshots', () => {
+    const prisma = {
+      token: { findMany: jest.fn() },
+      priceData: { findMany: jest.fn() },
+      safetyScore: { findMany: jest.fn() },
+      alert: { findMany: jest.fn(), update: jest.fn() },
+      alertTokenState: { findMany: jest.fn(), upsert: jest.fn() },
+      alertEvent: { create: jest.fn() }
+    };
+
+    const token = { id: 'token_1', address: 'Mint111', symbol: 'MEME' };
+
+    const priceRow = (secondsBefore: number, price: number, liquidity: number, tokenId = 'token_1') => ({
+      tokenId,
+      timestamp: secondsAgo(secondsBefore),
+      price,
+      change1h: null,
+      change24h: null,
+      volume: 6000,
+      liquidity,
+      marketCap: 200000,
+      buys5m: 10,
+      sells5m: 30
+    });
+
+    const storedRule = (id: string, overrides: Record<string, unknown> = {}) => ({
+      id,
+      tokenId: 'token_1',
+      userId: null,
+      type: 'PRICE_ALERT',
+      condition: { metric: 'price', operator: 'gt', value: 2 },
+      severity: 'HIGH',
+      message: null,
+      mode: 'recurring',
+      cooldownSeconds: 600,
+      hysteresis: 0,
+      expiresAt: null,
+      isActive: true,
+      isTriggered: false,
+      triggerCount: 0,
+      triggeredAt: null,
+      createdAt: secondsAgo(7200),
+      updatedAt: secondsAgo(7200),
+      token: { address: 'Mint111', symbol: 'MEME' },
+      ...overrides
+    });
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      prisma.alertTokenState.findMany.mockResolvedValue([]);
+      prisma.priceData.findMany.mockResolvedValue([priceRow(600, 1.8, 20000), priceRow(0, 2.5, 12000)]);
+      prisma.safetyScore.findMany.mockResolvedValue([
+        { tokenId: 'token_1', timestamp: secondsAgo(600), overallScore: 60, details: { holder_concentration: 40 } },
+        { tokenId: 'token_1', timestamp: secondsAgo(0), overallScore: 35, details: { holder_concentration: 55 } }
+      ]);
+      prisma.alertEvent.create.mockImplementation(({ data }) => Promise.resolve({
+        id: 'event_1',
+        isRead: false,
+        acknowledgedAt: null,
+        dismissedAt: null,
+        ...data,
+        token: { address: 'Mint111', symbol: 'MEME' }
+      }));
+    });
+
+    it('should only set its cursor on the first poll', async () => {
+      const engine = new AlertEngineService(prisma as unknown as PrismaClient);
+
+      await expect(engine.pollForSnapshots(now)).resolves.toEqual([]);
+      expect(prisma.token.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should store and emit firings for rules whose condition holds on the new snapshot', async () => {
+      prisma.token.findMany.mockResolvedValue([token]);
+      prisma.alert.findMany.mockResolvedValue([
+        storedRule('price_rule'),
+        storedRule('rug_rule', {
+          tokenId: null,
+          type: 'SAFETY_ALERT',
+          condition: {
+            all: [
+              { metric: 'liquidity', change: 'percent', period: '10m', operator: 'lte', value: -30 },
+              { metric: 'sellBuyRatio5m', operator: 'gt', value: 2 }
+            ]
+          },
+          token: null
+        }),
+        storedRule('cooling_rule', { triggeredAt: secondsAgo(60) })
+      ]);
+      const engine = new AlertEngineService(prisma as unknown as PrismaClient);
+      const emitted: Alert[] = [];
+      engine.on('alert:triggered', (alert: Alert) => emitted.push(alert));
+
+      await engine.pollForSnapshots(secondsAgo(15));
+      const fired = await engine.pollForSnapshots(now);
+
+      expect(fired.map(alert => alert.title)).toEqual([
+        'MEME price above 2',
+        'MEME liquidity % change over 10m at or below -30 and sellBuyRatio5m above 2'
+      ]);
+      expect(emitted).toEqual(fired);
+      expect(prisma.priceData.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { tokenId: { in: ['token_1'] }, timestamp: { gte: secondsAgo(600 + 3600), lte: now } }
+      }));
+      expect(prisma.alertEvent.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({
+          alertId: 'price_rule',
+          tokenId: 'token_1',
+          severity: 'HIGH',
+          message: 'MEME price above 2 (now 2.5)',
+          metadata: { condition: { metric: 'price', operator: 'gt', value: 2 }, value: 2.5, mode: 'recurring' }
+        })
+      }));
+      expect(prisma.alert.update).toHaveBeenCalledWith({
+        where: { id: 'price_rule' },
+        data: { isActive: true, isTriggered: true, triggeredAt: now, triggerCount: { increment: 1 } }
+      });
+      // Rules watching every token keep their arming per token
+      expect(prisma.alertTokenState.upsert).toHaveBeenCalledWith({
+        where: { alertId_tokenId: { alertId: 'rug_rule', tokenId: 'token_1' } },
+        create: { alertId: 'rug_rule', tokenId: 'token_1', isTriggered: true, triggeredAt: now },
+        update: { isTriggered: true, triggeredAt: now }
+      });
+      expect(prisma.alert.update).toHaveBeenCalledWith({
+        where: { id: 'rug_rule' },
+        data: { isActive: true, triggeredAt: now, triggerCount: { increment: 1 } }
+      });
+      expect(prisma.alert.update).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fire a rule watching every token for each token matching in the same poll', async () => {
+      const other = { id: 'token_2', address: 'Mint222', symbol: 'PEPE' };
+      prisma.token.findMany.mockResolvedValue([token, other]);
+      prisma.priceData.findMany.mockResolvedValue([
+        priceRow(600, 1.8, 20000), priceRow(0, 2.5, 12000),
+        priceRow(600, 1.9, 20000, 'token_2'), priceRow(0, 3, 12000, 'token_2')
+      ]);
+      prisma.safetyScore.findMany.mockResolvedValue([]);
+      prisma.alert.findMany.mockResolvedValue([
+        storedRule('global_rule', { tokenId: null, token: null, triggeredAt: secondsAgo(60) })
+      ]);
+      const engine = new AlertEngineService(prisma as unknown as PrismaClient);
+
+      await engine.pollForSnapshots(secondsAgo(15));
+      const fired = await engine.pollForSnapshots(now);
+
+      // The rule's last firing, a minute ago, was for another token and does not hold these back
+      expect(fired.map(alert => alert.title)).toEqual(['MEME price above 2', 'PEPE price above 2']);
+      expect(prisma.alertTokenState.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { alertId: { in: ['global_rule'] }, tokenId: { in: ['token_1', 'token_2'] } }
+      }));
+      expect(prisma.alertTokenState.upsert.mock.calls.map(([args]) => args.where.alertId_tokenId.tokenId))
+        .toEqual(['token_1', 'token_2']);
+
+      // Each token is then held by its own arming and cooldown
+      prisma.alertTokenState.findMany.mockResolvedValue([
+        { alertId: 'global_rule', tokenId: 'token_1', isTriggered: true, triggeredAt: now },
+        { alertId: 'global_rule', tokenId: 'token_2', isTriggered: false, triggeredAt: now }
+      ]);
+      const later = new Date(now.getTime() + 30 * 1000);
+      await expect(engine.pollForSnapshots(later)).resolves.toEqual([]);
+    });
+  });
+
+  describe('replay', () => {
+    const prisma = {
+      token: { findUnique: jest.fn() },
+      priceData: { findMany: jest.fn() },
+      safetyScore: { findMany: jest.fn() }
+    };
+
+    const engine = new AlertEngineService(prisma as unknown as PrismaClient);
+
+    const rows = (prices: number[]) => prices.map((price, i) => ({
+      tokenId: 'token_1',
+      timestamp: secondsAgo((prices.length - 1 - i) * 3600),
+      price,
+      change1h: null,
+      change24h: null,
+      volume: null,
+      liquidity: null,
+      marketCap: null,
+      buys5m: null,
+      sells5m: null
+    }));
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      prisma.token.findUnique.mockResolvedValue({ id: 'token_1', address: 'Mint111', symbol: 'MEME' });
+      prisma.safetyScore.findMany.mockResolvedValue([]);
+    });
+
+    it('should count firings over history with cooldown and hysteresis applied', async () => {
+      // Hourly prices oscillating around 2; hysteresis keeps 1.95 from re-arming
+      prisma.priceData.findMany.mockResolvedValue(rows([1, 2.5, 1.95, 2.5, 1, 2.5, 1, 1]));
+
+      const result = await engine.replay({
+        type: 'PRICE_ALERT',
+        tokenAddress: 'Mint111',
+        condition: { metric: 'price', operator: 'gt', value: 2 },
+        cooldownSeconds: 0,
+        hysteresis: 0.2
+      }, 24, now);
+
+      expect(result).toMatchObject({
+        tokensReplayed: 1,
+        snapshotsReplayed: 8,
+        conditionHeld: 3,
+        triggerCount: 2,
+        triggersPerDay: 2,
+        estimatedTriggerFrequency: 'medium',
+        potentialIssues: []
+      });
+      expect(result?.triggers.map(trigger => trigger.triggeredAt)).toEqual([secondsAgo(6 * 3600).toISOString(), secondsAgo(2 * 3600).toISOString()]);
+    });
+
+    it('should return null for an unknown token and flag an empty history', async () => {
+      prisma.token.findUnique.mockResolvedValueOnce(null);
+      const input = { type: 'PRICE_ALERT' as const, tokenAddress: 'Unknown', condition: { metric: 'price' as const, operator: 'gt' as const, value: 2 } };
+
+      await expect(engine.replay(input, 24, now)).resolves.toBeNull();
+
+      prisma.priceData.findMany.mockResolvedValue([]);
+      await expect(engine.replay({ ...input, tokenAddress: 'Mint111' }, 24, now)).resolves.toMatchObject({
+        triggerCount: 0,
+        potentialIssues: ['No snapshots in the lookback window to replay against']
+      });
+    });
+  });
+
+  describe('ownership', () => {
+    const prisma = {
+      alert: { count: jest.fn(), deleteMany: jest.fn() },
+      alertEvent: { count: jest.fn(), groupBy: jest.fn(), findMany: jest.fn() }
+    };
+
+    const engine = new AlertEngineService(prisma as unknown as PrismaClient);
+
+    const visibleToUser = {
+      OR: [
+        { alertId: null, subscriptionId: null },
+        { subscriptionId: null, alert: { userId: null } },
+        { alert: { userId: 'user_1' } },
+        { subscription: { userId: 'user_1' } }
+      ]
+    };
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      prisma.alert.count.mockResolvedValue(0);
+      prisma.alert.deleteMany.mockResolvedValue({ count: 0 });
+      prisma.alertEvent.count.mockResolvedValue(0);
+      prisma.alertEvent.groupBy.mockResolvedValue([]);
+      prisma.alertEvent.findMany.mockResolvedValue([]);
+    });
+
+    it('should only delete the caller\'s own rule', async () => {
+      await expect(engine.deleteRule('user_2', 'rule_1')).resolves.toBe(false);
+      expect(prisma.alert.deleteMany).toHaveBeenCalledWith({ where: { id: 'rule_1', userId: 'user_2' } });
+    });
+
+    it('should summarise only the caller\'s firings, system alerts and rules', async () => {
+      await engine.getSummary('user_1');
+
+      expect(prisma.alertEvent.count).toHaveBeenCalledWith({ where: { ...visibleToUser, dismissedAt: null } });
+      expect(prisma.alert.count).toHaveBeenCalledWith({ where: { isActive: true, userId: 'user_1' } });
+
+      // Anonymous callers only see alerts nobody owns
+      await engine.getSummary();
+      expect(prisma.alertEvent.count).toHaveBeenLastCalledWith({
+        where: { OR: visibleToUser.OR.slice(0, 2), dismissedAt: null, isRead: false }
+      });
+      expect(prisma.alert.count).toHaveBeenLastCalledWith({ where: { isActive: true, userId: null, isTriggered: true } });
+    });
+
+    it('should keep other users\' subscription matches out of the feed', async () => {
+      await engine.queryAlerts({ page: 1, limit: 20 }, 'user_1');
+
+      expect(prisma.alertEvent.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ ...visibleToUser, dismissedAt: null })
+      }));
+
+      await engine.listAlerts({}, undefined);
+      expect(prisma.alertEvent.findMany).toHaveBeenLastCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ OR: visibleToUser.OR.slice(0, 2) })
+      }));
+    });
+
+    it('should scope history to the caller', async () => {
+      await engine.getHistory({ page: 1, limit: 20 }, 'user_1');
+
+      expect(prisma.alertEvent.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining(visibleToUser)
+      }));
+    });
+  });
+});
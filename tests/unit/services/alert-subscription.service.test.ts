@@ -0,0 +1,204 @@
+import { PrismaClient } from '@prisma/client';
+import { AlertEngineService, AlertSubscriptionService, createSubscriptionSchema } from '@/services/alerts';
+import { FilterQueryService } from '@/services/filter-query.service';
+
+const now = new Date('2024-03-01T12:00:00Z');
+const secondsAgo = (seconds: number) => new Date(now.getTime() - seconds * 1000);
+
+describe('AlertSubscriptionService', () => {
+  const prisma = {
+    alertSubscription: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn()
+    },
+    token: { findUnique: jest.fn(), findMany: jest.fn() },
+    filter: { findFirst: jest.fn(), findMany: jest.fn() },
+    tradingSignal: { findMany: jest.fn() },
+    creatorToken: { findMany: jest.fn() },
+    priceData: { findFirst: jest.fn() },
+    alertEvent: { findMany: jest.fn() }
+  };
+  const alertEngine = { raise: jest.fn() };
+
+  const service = new AlertSubscriptionService(prisma as unknown as PrismaClient, alertEngine as unknown as AlertEngineService);
+
+  const subscription = (id: string, overrides: Record<string, unknown> = {}) => ({
+    id,
+    userId: 'user_1',
+    type: 'signal',
+    target: 'STRONG_BUY',
+    tokenId: null,
+    filterId: null,
+    severity: 'MEDIUM',
+    minStrength: null,
+    isActive: true,
+    createdAt: secondsAgo(3600),
+    updatedAt: secondsAgo(3600),
+    ...overrides
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    alertEngine.raise.mockImplementation(input => Promise.resolve({ id: `event_${input.subscriptionId}`, ...input }));
+    prisma.alertSubscription.create.mockImplementation(({ data }) => Promise.resolve({ id: 'sub_new', ...data }));
+  });
+
+  describe('quotas', () => {
+    it('should reject new subscriptions once the tier quota is used', async () => {
+      prisma.alertSubscription.count.mockResolvedValue(5);
+
+      await expect(service.createSubscription('user_1', 'free', { type: 'signal', target: 'BUY', severity: 'MEDIUM' }))
+        .resolves.toEqual({ status: 'quota_exceeded', limit: 5 });
+      expect(prisma.alertSubscription.create).not.toHaveBeenCalled();
+
+      prisma.alertSubscription.findFirst.mockResolvedValue(null);
+      await expect(service.createSubscription('user_1', 'premium', { type: 'signal', target: 'BUY', severity: 'MEDIUM' }))
+        .resolves.toMatchObject({ status: 'ok', subscription: { type: 'signal', target: 'BUY' } });
+    });
+
+    it('should resolve targets and refuse unknown tokens, foreign filters and duplicates', async () => {
+      prisma.alertSubscription.count.mockResolvedValue(0);
+      prisma.alertSubscription.findFirst.mockResolvedValue(null);
+      prisma.token.findUnique.mockResolvedValue(null);
+      prisma.filter.findFirst.mockResolvedValue({ id: 'filter_1' });
+
+      await expect(service.createSubscription('user_1', 'free', { type: 'token', target: 'Unknown', severity: 'HIGH' }))
+        .resolves.toEqual({ status: 'not_found' });
+
+      await expect(service.createSubscription('user_1', 'free', { type: 'filter', target: 'filter_1', severity: 'HIGH' }))
+        .resolves.toMatchObject({ status: 'ok', subscription: { filterId: 'filter_1', tokenId: null } });
+      expect(prisma.filter.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'filter_1', OR: [{ userId: 'user_1' }, { isPublic: true }] }
+      }));
+
+      prisma.alertSubscription.findFirst.mockResolvedValue({ id: 'sub_1' });
+      await expect(service.createSubscription('user_1', 'free', { type: 'creator', target: 'Creator111', severity: 'HIGH' }))
+        .resolves.toEqual({ status: 'duplicate' });
+    });
+
+    it('should count re-activation against the quota', async () => {
+      prisma.alertSubscription.findFirst.mockResolvedValue(subscription('sub_1', { isActive: false }));
+      prisma.alertSubscription.count.mockResolvedValue(5);
+
+      await expect(service.updateSubscription('user_1', 'free', 'sub_1', { isActive: true }))
+        .resolves.toEqual({ status: 'quota_exceeded', limit: 5 });
+      expect(prisma.alertSubscription.update).not.toHaveBeenCalled();
+    });
+
+    it('should report active subscriptions by type against the quota', async () => {
+      prisma.alertSubscription.findMany.mockResolvedValue([
+        subscription('sub_1'),
+        subscription('sub_2', { type: 'token', target: 'Mint111' }),
+        subscription('sub_3', { type: 'token', target: 'Mint222' }),
+        subscription('sub_4', { type: 'creator', target: 'Creator111', isActive: false })
+      ]);
+
+      await expect(service.getSummary('user_1', 'premium')).resolves.toMatchObject({
+        tier: 'premium',
+        activeSubscriptions: 3,
+        maxSubscriptions: 50,
+        remaining: 47,
+        subscriptionsByType: { token: 2, filter: 0, creator: 0, signal: 1 }
+      });
+    });
+
+    it('should validate signal targets', () => {
+      expect(createSubscriptionSchema.safeParse({ type: 'signal', target: 'MOON' }).success).toBe(false);
+      expect(createSubscriptionSchema.safeParse({ type: 'creator', target: 'Creator111', minStrength: 0.5 }).success).toBe(false);
+      expect(createSubscriptionSchema.parse({ type: 'signal', target: 'BUY' })).toEqual({ type: 'signal', target: 'BUY', severity: 'MEDIUM' });
+    });
+  });
+
+  describe('poll', () => {
+    it('should only set its cursor on the first poll', async () => {
+      const fresh = new AlertSubscriptionService(prisma as unknown as PrismaClient, alertEngine as unknown as AlertEngineService);
+
+      await expect(fresh.poll(now)).resolves.toEqual([]);
+      expect(prisma.alertSubscription.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should raise owned alerts for new signals, launches and filter matches', async () => {
+      const findTokenIds = jest.spyOn(FilterQueryService.prototype, 'findTokenIds').mockResolvedValue(['token_3']);
+      const poller = new AlertSubscriptionService(prisma as unknown as PrismaClient, alertEngine as unknown as AlertEngineService);
+
+      prisma.alertSubscription.findMany.mockResolvedValue([
+        subscription('signal_sub', { minStrength: 0.8 }),
+        subscription('token_sub', { type: 'token', target: 'Mint111', tokenId: 'token_1' }),
+        subscription('creator_sub', { type: 'creator', target: 'Creator111', severity: 'HIGH' }),
+        subscription('filter_sub', { type: 'filter', target: 'filter_1', filterId: 'filter_1' })
+      ]);
+      prisma.tradingSignal.findMany.mockResolvedValue([
+        { id: 'sig_1', tokenId: 'token_1', type: 'STRONG_BUY', strength: 0.9, reason: 'Momentum', price: 1, token: { address: 'Mint111', symbol: 'MEME' } },
+        { id: 'sig_2', tokenId: 'token_9', type: 'STRONG_BUY', strength: 0.5, reason: null, price: 1, token: { address: 'Mint999', symbol: 'WEAK' } }
+      ]);
+      prisma.creatorToken.findMany.mockResolvedValue([
+        { mint: 'Mint444', launchedAt: secondsAgo(20), creator: { address: 'Creator111', tokensCreated: 4, ruggedTokens: 1 } }
+      ]);
+      prisma.token.findMany
+        .mockResolvedValueOnce([{ id: 'token_4', address: 'Mint444', symbol: 'NEW' }])
+        .mockResolvedValueOnce([{ id: 'token_3', address: 'Mint333', symbol: 'GEM' }]);
+      prisma.priceData.findFirst.mockResolvedValue({ id: 'price_1' });
+      prisma.filter.findMany.mockResolvedValue([{ id: 'filter_1', name: 'Fresh gems', criteria: {} }]);
+
+      await poller.poll(secondsAgo(30));
+      const raised = await poller.poll(now);
+
+      expect(raised.map(alert => alert.title)).toEqual([
+        'MEME STRONG_BUY signal',
+        'MEME STRONG_BUY signal',
+        'Creator Creator111 launched NEW',
+        'GEM matches Fresh gems'
+      ]);
+      expect(alertEngine.raise.mock.calls.map(([input]) => input.subscriptionId)).toEqual([
+        'token_sub',
+        'signal_sub',
+        'creator_sub',
+        'filter_sub'
+      ]);
+      expect(alertEngine.raise).toHaveBeenCalledWith(expect.objectContaining({
+        subscriptionId: 'creator_sub',
+        tokenId: 'token_4',
+        type: 'NEWS_ALERT',
+        severity: 'HIGH'
+      }));
+      // Only tokens discovered after the subscription and not notified yet count as new filter matches
+      expect(findTokenIds).toHaveBeenCalledWith(expect.anything(), {
+        limit: 25,
+        where: { createdAt: { gt: secondsAgo(3600) }, alertEvents: { none: { subscriptionId: 'filter_sub' } } }
+      });
+
+      findTokenIds.mockRestore();
+    });
+
+    it('should keep reporting new low-cap matches after more than maxFilterMatches were notified', async () => {
+      // 30 matching tokens by market cap; the 28 largest were notified by earlier polls
+      const tokens = Array.from({ length: 30 }, (_, i) => ({
+        id: `token_${i}`,
+        address: `Mint${i}`,
+        symbol: `T${i}`,
+        marketCap: 1000000 - i * 1000,
+        notified: i < 28
+      }));
+      const poller = new AlertSubscriptionService(prisma as unknown as PrismaClient, alertEngine as unknown as AlertEngineService);
+
+      prisma.alertSubscription.findMany.mockResolvedValue([
+        subscription('filter_sub', { type: 'filter', target: 'filter_1', filterId: 'filter_1' })
+      ]);
+      prisma.priceData.findFirst.mockResolvedValue({ id: 'price_1' });
+      prisma.filter.findMany.mockResolvedValue([{ id: 'filter_1', name: 'Liquid', criteria: { marketCap: { min: 1000 } } }]);
+      prisma.token.findMany.mockImplementation(({ where, take }) => {
+        const excludesNotified = JSON.stringify(where).includes('"alertEvents":{"none":{"subscriptionId":"filter_sub"}}');
+        const rows = tokens.filter(token => !(excludesNotified && token.notified)).slice(0, take);
+        return Promise.resolve(where.id?.in ? tokens.filter(token => where.id.in.includes(token.id)) : rows);
+      });
+
+      await poller.poll(secondsAgo(30));
+      const raised = await poller.poll(now);
+
+      expect(raised.map(alert => alert.tokenId)).toEqual(['token_28', 'token_29']);
+    });
+  });
+});
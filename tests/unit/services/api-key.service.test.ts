@@ -0,0 +1,190 @@
+import { PrismaClient } from '@prisma/client';
+import { Request, Response } from 'express';
+import { ApiKeyService, hashApiKey, usageHour } from '@/services/api-key.service';
+import { createAuthMiddleware, getUserId } from '@/api/middleware/auth.middleware';
+import { MemoryRateLimitStore, RateLimitService, DEFAULT_RATE_LIMIT_POLICY } from '@/services/rate-limit';
+
+const now = new Date('2024-03-01T12:30:00Z');
+const minutesFrom = (minutes: number) => new Date(now.getTime() + minutes * 60 * 1000);
+
+describe('ApiKeyService', () => {
+  const prisma = {
+    apiKey: { create: jest.fn(), findUnique: jest.fn(), findMany: jest.fn(), update: jest.fn() },
+    apiUsage: { upsert: jest.fn(), findMany: jest.fn() }
+  };
+
+  const storedKey = (overrides: Record<string, unknown> = {}) => ({
+    id: 'key_1',
+    name: 'Trading bot',
+    keyHash: 'hash',
+    prefix: 'mca_abcdef',
+    userId: 'user_1',
+    tier: 'premium',
+    scopes: ['read:tokens', 'export'],
+    expiresAt: null,
+    lastUsedAt: null,
+    revokedAt: null,
+    replacedById: null,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides
+  });
+
+  let service: ApiKeyService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new ApiKeyService(prisma as unknown as PrismaClient, { cacheTtlMs: 60000, usageFlushIntervalMs: 15000 });
+    prisma.apiKey.create.mockImplementation(({ data }) => Promise.resolve(storedKey({ id: 'key_new', ...data })));
+  });
+
+  it('should store only the hash of an issued key and return the secret once', async () => {
+    const { apiKey, secret } = await service.issueKey({ userId: 'user_1', name: 'Trading bot', tier: 'premium', scopes: ['export'] });
+
+    expect(secret).toMatch(/^mca_[\w-]{32}$/);
+    expect(prisma.apiKey.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ keyHash: hashApiKey(secret), prefix: secret.slice(0, 10), scopes: ['export'], expiresAt: null })
+    });
+    expect(apiKey).not.toHaveProperty('keyHash');
+  });
+
+  it('should reject unknown, revoked and expired keys', async () => {
+    prisma.apiKey.findUnique.mockResolvedValueOnce(null);
+    await expect(service.authenticate('mca_unknown', now)).resolves.toEqual({ status: 'invalid' });
+
+    prisma.apiKey.findUnique.mockResolvedValueOnce(storedKey({ revokedAt: minutesFrom(-1) }));
+    await expect(service.authenticate('mca_revoked', now)).resolves.toEqual({ status: 'revoked' });
+
+    prisma.apiKey.findUnique.mockResolvedValueOnce(storedKey({ expiresAt: minutesFrom(-1) }));
+    await expect(service.authenticate('mca_expired', now)).resolves.toEqual({ status: 'expired' });
+  });
+
+  it('should cache lookups until a key expires or is revoked', async () => {
+    prisma.apiKey.findUnique.mockResolvedValue(storedKey({ expiresAt: minutesFrom(0.5) }));
+
+    await expect(service.authenticate('mca_live', now)).resolves.toEqual({
+      status: 'valid',
+      key: { id: 'key_1', userId: 'user_1', name: 'Trading bot', tier: 'premium', scopes: ['read:tokens', 'export'] }
+    });
+    await expect(service.authenticate('mca_live', minutesFrom(0.25))).resolves.toMatchObject({ status: 'valid' });
+    // Expires while still cached
+    await expect(service.authenticate('mca_live', minutesFrom(0.75))).resolves.toEqual({ status: 'expired' });
+    expect(prisma.apiKey.findUnique).toHaveBeenCalledTimes(1);
+
+    prisma.apiKey.findUnique.mockResolvedValue(storedKey({ keyHash: hashApiKey('mca_live') }));
+    prisma.apiKey.update.mockResolvedValue(storedKey({ revokedAt: now }));
+    await service.revokeKey('key_1', now);
+
+    prisma.apiKey.findUnique.mockResolvedValue(storedKey({ revokedAt: now }));
+    await expect(service.authenticate('mca_live', minutesFrom(0.25))).resolves.toEqual({ status: 'revoked' });
+  });
+
+  it('should not cache unknown keys and drop lapsed cache entries', async () => {
+    const cache = (service as unknown as { cache: Map<string, unknown> }).cache;
+
+    prisma.apiKey.findUnique.mockResolvedValue(null);
+    await service.authenticate('mca_guess', now);
+    await service.authenticate('mca_guess', now);
+    expect(prisma.apiKey.findUnique).toHaveBeenCalledTimes(2);
+    expect(cache.size).toBe(0);
+
+    prisma.apiKey.findUnique.mockResolvedValue(storedKey());
+    await service.authenticate('mca_first', now);
+    expect(cache.size).toBe(1);
+
+    // The first entry has lapsed by the time the next key is cached
+    await service.authenticate('mca_second', minutesFrom(2));
+    expect(cache.size).toBe(1);
+  });
+
+  it('should rotate a key, keeping the old one alive for the grace period', async () => {
+    prisma.apiKey.findUnique.mockResolvedValue(storedKey());
+
+    const rotated = await service.rotateKey('key_1', 3600, now);
+
+    expect(rotated?.apiKey).toMatchObject({ id: 'key_new', userId: 'user_1', tier: 'premium', scopes: ['read:tokens', 'export'] });
+    expect(prisma.apiKey.update).toHaveBeenCalledWith({
+      where: { id: 'key_1' },
+      data: { replacedById: 'key_new', expiresAt: minutesFrom(60) }
+    });
+
+    await service.rotateKey('key_1', 0, now);
+    expect(prisma.apiKey.update).toHaveBeenLastCalledWith({
+      where: { id: 'key_1' },
+      data: { replacedById: 'key_new', revokedAt: now }
+    });
+
+    prisma.apiKey.findUnique.mockResolvedValue(storedKey({ revokedAt: now }));
+    await expect(service.rotateKey('key_1', 0, now)).resolves.toBeNull();
+  });
+
+  it('should meter requests per key and hour and flush them as increments', async () => {
+    service.recordUsage('key_1', 200, now);
+    service.recordUsage('key_1', 429, minutesFrom(10));
+    service.recordUsage('key_1', 200, minutesFrom(40));
+
+    await service.flushUsage();
+
+    expect(prisma.apiUsage.upsert).toHaveBeenCalledWith({
+      where: { apiKeyId_hour: { apiKeyId: 'key_1', hour: '2024-03-01T12' } },
+      update: { requestCount: { increment: 2 }, errorCount: { increment: 1 } },
+      create: { apiKeyId: 'key_1', hour: '2024-03-01T12', requestCount: 2, errorCount: 1 }
+    });
+    expect(prisma.apiUsage.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { apiKeyId_hour: { apiKeyId: 'key_1', hour: usageHour(minutesFrom(40)) } }
+    }));
+    expect(prisma.apiKey.update).toHaveBeenLastCalledWith({ where: { id: 'key_1' }, data: { lastUsedAt: minutesFrom(40) } });
+
+    prisma.apiUsage.upsert.mockClear();
+    await service.flushUsage();
+    expect(prisma.apiUsage.upsert).not.toHaveBeenCalled();
+  });
+
+  describe('createAuthMiddleware', () => {
+    const request = (headers: Record<string, string>) =>
+      ({ path: '/api/v1/filters', method: 'GET', ip: '127.0.0.1', headers, query: {} }) as unknown as Request;
+    const response = { on: jest.fn(), status: jest.fn().mockReturnThis(), json: jest.fn() } as unknown as Response;
+
+    it('should ignore a client-sent user id and take it from the verified key only', async () => {
+      const authenticate = jest.spyOn(service, 'authenticate').mockResolvedValue({ status: 'valid', key: storedKey() as never });
+      const middleware = createAuthMiddleware(service);
+      const next = jest.fn();
+
+      const anonymous = request({ 'x-user-id': 'user_victim' });
+      await middleware(anonymous, response, next);
+
+      expect(next).toHaveBeenCalledTimes(1);
+      expect(anonymous.headers['x-user-id']).toBeUndefined();
+      expect(getUserId(anonymous)).toBeUndefined();
+
+      const authenticated = request({ 'x-user-id': 'user_victim', 'x-api-key': 'mca_secret' });
+      await middleware(authenticated, response, next);
+
+      expect(authenticate).toHaveBeenCalledWith('mca_secret');
+      expect(authenticated.headers['x-user-id']).toBe('user_1');
+      expect(getUserId(authenticated)).toBe('user_1');
+    });
+
+    it('should charge rejected keys to the client IP and stop looking keys up once it has failed too often', async () => {
+      const authenticate = jest.spyOn(service, 'authenticate').mockResolvedValue({ status: 'invalid' });
+      const rateLimitService = new RateLimitService(new MemoryRateLimitStore(), {
+        ...DEFAULT_RATE_LIMIT_POLICY,
+        authFailures: { windowMs: 60 * 1000, limit: 2 }
+      });
+      const middleware = createAuthMiddleware(service, rateLimitService);
+      const status = response.status as jest.Mock;
+      status.mockClear();
+
+      for (let i = 0; i < 3; i++) {
+        await middleware(request({ 'x-api-key': `mca_guess_${i}` }), response, jest.fn());
+      }
+
+      expect(authenticate).toHaveBeenCalledTimes(2);
+      expect(status.mock.calls.map(([code]) => code)).toEqual([401, 401, 429]);
+
+      // Other IPs are unaffected
+      await middleware({ ...request({ 'x-api-key': 'mca_guess' }), ip: '10.0.0.2' } as unknown as Request, response, jest.fn());
+      expect(authenticate).toHaveBeenCalledTimes(3);
+    });
+  });
+});
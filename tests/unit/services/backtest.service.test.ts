@@ -0,0 +1,166 @@
+import { PrismaClient } from '@prisma/client';
+import { BacktestOptions, BacktestService } from '@/services/backtest.service';
+import { tokenFilterCriteriaToGroup } from '@/services/filter-query.service';
+import { FilterCondition, FilterGroup } from '@/types/filter';
+
+const HOUR_MS = 60 * 60 * 1000;
+const start = new Date('2024-03-01T00:00:00Z');
+const at = (hours: number) => new Date(start.getTime() + hours * HOUR_MS);
+
+const condition = (field: string, operator: FilterCondition['operator'], value: unknown): FilterCondition => ({
+  id: `${field}_${operator}`,
+  field,
+  operator,
+  value,
+  label: ''
+});
+
+const filter = (...conditions: FilterCondition[]): FilterGroup => ({ id: 'root', operator: 'AND', conditions, groups: [] });
+
+// One PriceData row per hour from the given prices
+const createToken = (id: string, prices: number[], overrides: Record<string, unknown> = {}) => ({
+  id,
+  address: `${id}_address`,
+  symbol: id.toUpperCase(),
+  chain: 'solana',
+  liquidity: 20000,
+  createdAt: at(-2),
+  priceData: prices.map((price, hour) => ({ price, volume: 50000, change1h: null, change24h: null, change7d: null, timestamp: at(hour) })),
+  prices: [],
+  safetyScores: [],
+  tradingSignals: [],
+  ...overrides
+});
+
+describe('BacktestService', () => {
+  const options: BacktestOptions = {
+    startDate: start,
+    endDate: at(48),
+    takeProfitPercent: 100,
+    stopLossPercent: 30,
+    maxHoldHours: 24,
+    positionSize: 100,
+    initialCapital: 1000,
+    allowReentry: false
+  };
+
+  let prisma: { token: Record<string, jest.Mock> };
+  let service: BacktestService;
+
+  beforeEach(() => {
+    prisma = { token: { findMany: jest.fn() } };
+    service = new BacktestService(prisma as unknown as PrismaClient, {
+      tokenBatchSize: 10,
+      maxTokens: 100,
+      lookbackMs: 24 * HOUR_MS,
+      signalWindowMs: 24 * HOUR_MS,
+      rugDrawdownPercent: 80,
+      maxTradesReported: 50
+    });
+  });
+
+  it('should exit on take-profit, stop-loss, max-hold and end of data', async () => {
+    prisma.token.findMany.mockResolvedValueOnce([
+      createToken('moon', [1, 1.5, 2.2, 3]),
+      createToken('dump', [1, 0.9, 0.6]),
+      createToken('flat', Array.from({ length: 30 }, () => 1.1)),
+      createToken('late', [1, 1.2])
+    ]);
+
+    const [result] = await service.run([{ id: 'all', name: 'All', filter: filter() }], options);
+
+    expect(result.tradeLog.map(trade => [trade.symbol, trade.exitReason, trade.returnPercent])).toEqual([
+      ['MOON', 'take_profit', 120],
+      ['DUMP', 'stop_loss', -40],
+      ['FLAT', 'max_hold', 0],
+      ['LATE', 'end_of_data', 20]
+    ]);
+    expect(result).toMatchObject({
+      trades: 4,
+      wins: 2,
+      losses: 2,
+      winRate: 50,
+      totalPnl: 100,
+      totalReturnPercent: 10,
+      exitReasons: { take_profit: 1, stop_loss: 1, max_hold: 1, end_of_data: 1 }
+    });
+  });
+
+  it('should only enter once the filter matches at a tick', async () => {
+    prisma.token.findMany.mockResolvedValueOnce([
+      createToken('tok', [1, 2, 2.4, 4], {
+        safetyScores: [
+          { rugScore: 10, overallScore: 40, details: null, timestamp: at(0) },
+          { rugScore: 10, overallScore: 80, details: null, timestamp: at(1) }
+        ]
+      })
+    ]);
+
+    const [result] = await service.run([{ id: 'safe', name: 'Safe', filter: filter(condition('safety_score', 'gte', 70)) }], options);
+
+    expect(result.tradeLog).toEqual([expect.objectContaining({
+      entryAt: at(1).toISOString(),
+      entryPrice: 2,
+      exitPrice: 4,
+      returnPercent: 100,
+      exitReason: 'take_profit',
+      entryRugRisk: 'low'
+    })]);
+  });
+
+  it('should report rug exposure when a position gaps through the stop-loss', async () => {
+    prisma.token.findMany.mockResolvedValueOnce([
+      createToken('rug', [1, 0.05], {
+        safetyScores: [{ rugScore: 90, overallScore: 20, details: null, timestamp: at(0) }]
+      }),
+      createToken('ok', [1, 1.5, 2])
+    ]);
+
+    const [result] = await service.run([{ id: 'all', name: 'All', filter: filter() }], options);
+
+    expect(result.rugExposure).toEqual({ ruggedTrades: 1, ruggedRate: 50, ruggedPnl: -95, highRiskEntries: 1 });
+    expect(result.pnlDistribution).toMatchObject({ best: 100, worst: -95 });
+    expect(result.pnlDistribution.buckets.find(bucket => bucket.min === -100)?.count).toBe(1);
+  });
+
+  it('should replay every filter against a single load of snapshots', async () => {
+    prisma.token.findMany.mockResolvedValueOnce([createToken('tok', [1, 2], { liquidity: 500 })]);
+
+    const results = await service.run([
+      { id: 'any', name: 'Any', filter: filter() },
+      { id: 'liquid', name: 'Liquid', filter: filter(condition('liquidity_usd', 'gte', 1000)) }
+    ], options);
+
+    expect(prisma.token.findMany).toHaveBeenCalledTimes(1);
+    expect(results.map(result => result.trades)).toEqual([1, 0]);
+    expect(results[1].warnings).toEqual(['No history is stored for liquidity_usd; current values were used']);
+  });
+
+  it('should measure drawdown on the equity curve in exit order', () => {
+    const drawdown = service.calculateMaxDrawdown([
+      { exitAt: at(3).toISOString(), pnl: -300 },
+      { exitAt: at(1).toISOString(), pnl: 500 },
+      { exitAt: at(2).toISOString(), pnl: -150 }
+    ], 1000);
+
+    // 1000 -> 1500 -> 1350 -> 1050
+    expect(drawdown).toBe(30);
+  });
+
+  it('should translate pipeline criteria and list the ones without history', () => {
+    const { group, unsupported } = tokenFilterCriteriaToGroup({
+      minLiquidity: 10000,
+      minSafetyScore: 6,
+      maxAge: 48,
+      allowHoneypot: false,
+      maxCreatorRugs: 0
+    });
+
+    expect(group.conditions.map(({ field, operator, value }) => [field, operator, value])).toEqual([
+      ['age_hours', 'lte', 48],
+      ['liquidity_usd', 'gte', 10000],
+      ['safety_score', 'gte', 60]
+    ]);
+    expect(unsupported).toEqual(['allowHoneypot', 'maxCreatorRugs']);
+  });
+});
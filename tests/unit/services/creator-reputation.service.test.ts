@@ -0,0 +1,234 @@
+import axios from 'axios';
+import { PrismaClient } from '@prisma/client';
+import {
+  assessRugEvidence,
+  CreatorReputationService,
+  CreatorTokenState,
+  DEFAULT_CREATOR_REPUTATION_CONFIG
+} from '@/services/creator-reputation.service';
+import { FixtureOnChainProvider, OnChainFixtures } from '@/services/onchain';
+import { SolscanService } from '@/services/solscan.service';
+import { CombinedTokenAnalysis, DexScreenerTokenData } from '@/types/api.types';
+import { globalCache } from '@/utils/cache';
+
+jest.mock('axios');
+
+const HOUR_MS = 60 * 60 * 1000;
+const now = new Date('2024-03-01T12:00:00Z');
+const hoursAgo = (hours: number) => new Date(now.getTime() - hours * HOUR_MS);
+const config = DEFAULT_CREATOR_REPUTATION_CONFIG;
+
+const CREATOR = 'CreatorWallet111111111111111111111111111111';
+const MINT = 'newmint';
+
+const state = (overrides: Partial<CreatorTokenState> = {}): CreatorTokenState => ({
+  launchedAt: hoursAgo(48),
+  peakPrice: null,
+  peakPriceAt: null,
+  peakLiquidity: null,
+  peakMarketCap: null,
+  lastPrice: null,
+  lastLiquidity: null,
+  ...overrides
+});
+
+const observation = (overrides: Record<string, unknown> = {}) => ({
+  price: 1,
+  liquidityUsd: 20000,
+  marketCap: 200000,
+  priceChange: { h1: 0, h6: 0, h24: 0 },
+  observedAt: now,
+  ...overrides
+});
+
+const dexData = (address: string, overrides: Partial<DexScreenerTokenData> = {}): DexScreenerTokenData => ({
+  address,
+  symbol: 'TKN',
+  name: 'Token',
+  launchTimestamp: 0,
+  price: 1,
+  marketCap: 200000,
+  volume24h: 5000,
+  liquidity: 20000,
+  age: 2,
+  priceChange: { m5: 0, h1: 0, h6: 0, h24: 0 },
+  filtered: false,
+  ...overrides
+});
+
+describe('CreatorReputationService', () => {
+  describe('assessRugEvidence', () => {
+    it('should find no evidence on a healthy token and raise its peaks', () => {
+      const result = assessRugEvidence(state({ peakPrice: 0.5, peakLiquidity: 10000 }), observation(), undefined, config, now);
+
+      expect(result.evidence).toEqual([]);
+      expect(result.state).toMatchObject({ peakPrice: 1, peakPriceAt: now, peakLiquidity: 20000, lastPrice: 1 });
+    });
+
+    it('should label liquidity pulled from its observed peak', () => {
+      const result = assessRugEvidence(state({ peakLiquidity: 50000 }), observation({ liquidityUsd: 5000 }), undefined, config, now);
+
+      expect(result.evidence).toEqual([expect.objectContaining({
+        kind: 'liquidity_removed',
+        metrics: { peakLiquidityUsd: 50000, liquidityUsd: 5000, dropPercent: 90 }
+      })]);
+      expect(result.state.peakLiquidity).toBe(50000);
+    });
+
+    it('should label a listed pool that holds almost nothing', () => {
+      const result = assessRugEvidence(state(), observation({ liquidityUsd: 12 }), undefined, config, now);
+
+      expect(result.evidence.map(item => item.kind)).toEqual(['liquidity_removed']);
+    });
+
+    it('should label a price collapse only within the window after the peak', () => {
+      const fast = assessRugEvidence(state({ peakPrice: 1, peakPriceAt: hoursAgo(6) }), observation({ price: 0.05 }), undefined, config, now);
+      const slow = assessRugEvidence(state({ peakPrice: 1, peakPriceAt: hoursAgo(72) }), observation({ price: 0.05 }), undefined, config, now);
+
+      expect(fast.evidence).toEqual([expect.objectContaining({
+        kind: 'price_collapse',
+        metrics: { peakPrice: 1, price: 0.05, dropPercent: 95, hoursAfterPeak: 6 }
+      })]);
+      expect(slow.evidence).toEqual([]);
+    });
+
+    it('should use DEXScreener change windows when no peak is tracked yet', () => {
+      const result = assessRugEvidence(state(), observation({ priceChange: { h1: -10, h6: -93, h24: -95 } }), undefined, config, now);
+
+      expect(result.evidence).toEqual([expect.objectContaining({
+        kind: 'price_collapse',
+        metrics: { changePercent: -93, windowHours: 6 }
+      })]);
+    });
+
+    it('should label a creator who sold most of their balance', () => {
+      const dumped = assessRugEvidence(state(), null, { peakBalance: '1000', soldAmount: '800' }, config, now);
+      const held = assessRugEvidence(state(), null, { peakBalance: '1000', soldAmount: '100' }, config, now);
+
+      expect(dumped.evidence).toEqual([expect.objectContaining({ kind: 'dev_dump', metrics: { soldPercent: 80 } })]);
+      expect(held.evidence).toEqual([]);
+    });
+  });
+
+  describe('recordAnalysis', () => {
+    let rows: Map<string, Record<string, unknown>>;
+    let prisma: Record<string, Record<string, jest.Mock>>;
+    let dexScreener: { getTokenData: jest.Mock };
+
+    const fixtures: OnChainFixtures = {
+      [MINT]: {
+        creator: {
+          creator: CREATOR,
+          mintCreatedAt: hoursAgo(2).toISOString(),
+          tokens: [
+            { address: MINT, createdAt: hoursAgo(2).toISOString() },
+            { address: 'pulledmint', createdAt: hoursAgo(240).toISOString() },
+            { address: 'dumpedmint', createdAt: hoursAgo(120).toISOString(), creatorFlow: { peakBalance: '1000', soldAmount: '900' } },
+            { address: 'goodmint', createdAt: hoursAgo(48).toISOString() },
+            { address: 'ghostmint', createdAt: hoursAgo(24).toISOString() }
+          ]
+        }
+      }
+    };
+
+    beforeEach(() => {
+      rows = new Map();
+      prisma = {
+        creator: {
+          upsert: jest.fn().mockResolvedValue({ id: 'creator_1', address: CREATOR }),
+          update: jest.fn().mockImplementation(({ data }) => Promise.resolve({
+            id: 'creator_1', address: CREATOR, updatedAt: now, ...data
+          }))
+        },
+        creatorToken: {
+          findMany: jest.fn().mockImplementation(() => Promise.resolve([...rows.values()])),
+          upsert: jest.fn().mockImplementation(({ where, create, update }) => {
+            const row = { ...(rows.get(where.mint) ?? create), ...update, mint: where.mint };
+            rows.set(where.mint, row);
+            return Promise.resolve(row);
+          })
+        }
+      };
+      dexScreener = {
+        getTokenData: jest.fn().mockResolvedValue({
+          success: true,
+          data: [
+            dexData('pulledmint', { liquidity: 15 }),
+            dexData('goodmint', { liquidity: 900 }),
+            dexData('goodmint', { liquidity: 30000, marketCap: 900000 })
+          ]
+        })
+      };
+    });
+
+    const createService = () => new CreatorReputationService(
+      prisma as unknown as PrismaClient,
+      new FixtureOnChainProvider(fixtures),
+      dexScreener,
+      config
+    );
+
+    it('should label each creator token from evidence and aggregate the record', async () => {
+      const analysis = { address: MINT, dexScreener: dexData(MINT) } as CombinedTokenAnalysis;
+
+      const record = await createService().recordAnalysis(analysis, now);
+
+      expect(dexScreener.getTokenData).toHaveBeenCalledWith(['pulledmint', 'dumpedmint', 'goodmint', 'ghostmint']);
+      expect(rows.get('pulledmint')).toMatchObject({ status: 'rugged', ruggedAt: now, rugEvidence: [expect.objectContaining({ kind: 'liquidity_removed' })] });
+      expect(rows.get('dumpedmint')).toMatchObject({ status: 'rugged', creatorSold: '900', rugEvidence: [expect.objectContaining({ kind: 'dev_dump' })] });
+      expect(rows.get('goodmint')).toMatchObject({ status: 'active', peakLiquidity: 30000, lastCheckedAt: now });
+      expect(rows.get('ghostmint')).toMatchObject({ status: 'unlisted' });
+      expect(prisma.creator.update).toHaveBeenCalledWith({
+        where: { id: 'creator_1' },
+        data: {
+          tokensCreated: 5,
+          ruggedTokens: 2,
+          medianLifetimeHours: 84, // 2h, 48h, 120h, 240h
+          peakMarketCap: 900000,
+          firstTokenAt: hoursAgo(240)
+        }
+      });
+      expect(record).toMatchObject({ address: CREATOR, tokensCreated: 5, ruggedTokens: 2, rugRate: 40 });
+    });
+
+    it('should skip fresh tokens and keep rug labels once set', async () => {
+      const analysis = { address: MINT, dexScreener: dexData(MINT) } as CombinedTokenAnalysis;
+      const service = createService();
+      await service.recordAnalysis(analysis, now);
+
+      dexScreener.getTokenData.mockClear();
+      dexScreener.getTokenData.mockResolvedValue({ success: true, data: [dexData('pulledmint', { liquidity: 50000 })] });
+      await service.recordAnalysis(analysis, new Date(now.getTime() + 7 * HOUR_MS));
+
+      expect(dexScreener.getTokenData).toHaveBeenCalledWith(['pulledmint', 'dumpedmint', 'goodmint', 'ghostmint']);
+      expect(rows.get('pulledmint')).toMatchObject({ status: 'rugged', ruggedAt: now });
+      expect(rows.get('pulledmint')!.rugEvidence).toHaveLength(1);
+
+      dexScreener.getTokenData.mockClear();
+      await service.recordAnalysis(analysis, new Date(now.getTime() + 8 * HOUR_MS));
+      expect(dexScreener.getTokenData).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should feed stored rug labels into the Solscan creator filter', async () => {
+    const client = { get: jest.fn().mockRejectedValue(new Error('API unavailable')), interceptors: { request: { use: jest.fn() }, response: { use: jest.fn() } } };
+    (axios.create as jest.Mock).mockReturnValue(client);
+    globalCache.clear();
+
+    const creatorRecords = { getRugLabels: jest.fn().mockResolvedValue(new Map([['old_a', true], ['old_b', true], ['old_c', false]])) };
+    const service = new SolscanService(undefined, new FixtureOnChainProvider({
+      [MINT]: {
+        creator: {
+          creator: CREATOR,
+          mintCreatedAt: null,
+          tokens: ['old_a', 'old_b', 'old_c', MINT].map(address => ({ address, createdAt: hoursAgo(10).toISOString() }))
+        }
+      }
+    }), creatorRecords);
+
+    const result = await service.analyzeToken(MINT, { maxCreatorRugs: 1 });
+
+    expect(result.data?.creatorInfo).toMatchObject({ createdTokens: 4, ruggedTokens: 2 });
+    expect(result.data?.filterReason).toBe('Creator has too many rugs: 2 > 1');
+  });
+});
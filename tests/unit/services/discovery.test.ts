@@ -0,0 +1,208 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket, WebSocketServer } from 'ws';
+import {
+  createDiscoverySource,
+  DiscoveredPool,
+  DiscoveryFeed,
+  DiscoverySource,
+  LogsSubscribeSource
+} from '@/services/discovery';
+
+const RAYDIUM = '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8';
+const WSOL = 'So11111111111111111111111111111111111111112';
+const MINT = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+const pool = (mint: string): DiscoveredPool => ({
+  mint,
+  program: 'raydium-amm-v4',
+  signature: `sig_${mint}`,
+  slot: 1,
+  source: 'logs',
+  discoveredAt: new Date()
+});
+
+// Raydium initialize2 accounts: the pool mints sit at positions 8 and 9
+const initialize2 = (coinMint: string, pcMint: string) => ({
+  slot: 250000000,
+  meta: { err: null, innerInstructions: [] },
+  transaction: {
+    message: {
+      instructions: [
+        { programId: 'ComputeBudget111111111111111111111111111111', accounts: [] },
+        { programId: RAYDIUM, accounts: [...Array.from({ length: 8 }, (_, i) => `account_${i}`), coinMint, pcMint, 'account_10'] }
+      ]
+    }
+  }
+});
+
+// Serves getTransaction over HTTP and logsSubscribe over WebSocket on the same port
+function startRpcStub(transactions: Record<string, unknown>): Promise<{
+  server: Server;
+  sockets: WebSocketServer;
+  rpcUrl: string;
+  wsUrl: string;
+  subscribed: string[];
+  notify: (signature: string, logs: string[], err?: unknown) => void;
+}> {
+  const subscribed: string[] = [];
+  const clients: WebSocket[] = [];
+
+  const server = createServer((req, res) => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => {
+      const { id, params } = JSON.parse(data);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ jsonrpc: '2.0', id, result: transactions[params[0]] ?? null }));
+    });
+  });
+
+  const sockets = new WebSocketServer({ server });
+  sockets.on('connection', socket => {
+    clients.push(socket);
+    socket.on('message', raw => {
+      const { id, params } = JSON.parse(raw.toString());
+      subscribed.push(params[0].mentions[0]);
+      socket.send(JSON.stringify({ jsonrpc: '2.0', id, result: subscribed.length }));
+    });
+  });
+
+  // Subscription 1 is the first program subscribed, Raydium AMM v4
+  const notify = (signature: string, logs: string[], err: unknown = null) => {
+    for (const client of clients) {
+      client.send(JSON.stringify({
+        jsonrpc: '2.0',
+        method: 'logsNotification',
+        params: { subscription: 1, result: { context: { slot: 250000000 }, value: { signature, err, logs } } }
+      }));
+    }
+  };
+
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => {
+    const { port } = server.address() as AddressInfo;
+    resolve({ server, sockets, rpcUrl: `http://127.0.0.1:${port}`, wsUrl: `ws://127.0.0.1:${port}`, subscribed, notify });
+  }));
+}
+
+const waitFor = async (condition: () => boolean, timeoutMs = 2000): Promise<void> => {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+const flushPromises = async (): Promise<void> => {
+  for (let i = 0; i < 5; i++) {
+    await Promise.resolve();
+  }
+};
+
+describe('Discovery', () => {
+  describe('LogsSubscribeSource', () => {
+    it('should emit the listed mint of each new pool and skip the rest', async () => {
+      // ws and axios run on real sockets
+      jest.useRealTimers();
+      const stub = await startRpcStub({
+        sig_created: initialize2(MINT, WSOL),
+        sig_paused: initialize2('7GCihgDB8fe6KNjn2MYtkzZcRjQy3t9GHdC8uHYmW2hr', WSOL)
+      });
+      const source = new LogsSubscribeSource({ wsUrl: stub.wsUrl, rpcUrl: stub.rpcUrl });
+      const pools: DiscoveredPool[] = [];
+
+      try {
+        await source.start(discovered => pools.push(discovered));
+        await waitFor(() => stub.subscribed.length === 4);
+        expect(stub.subscribed[0]).toBe(RAYDIUM);
+
+        stub.notify('sig_swap', [`Program ${RAYDIUM} invoke [1]`, 'Program log: ray_log: swap']);
+        stub.notify('sig_failed', ['Program log: initialize2: InitializeInstruction2'], { InstructionError: [1, 'Custom'] });
+        stub.notify('sig_created', ['Program log: initialize2: InitializeInstruction2']);
+        stub.notify('sig_created', ['Program log: initialize2: InitializeInstruction2']);
+        await waitFor(() => pools.length === 1);
+
+        source.pause();
+        stub.notify('sig_paused', ['Program log: initialize2: InitializeInstruction2']);
+        await new Promise(resolve => setTimeout(resolve, 100));
+
+        expect(pools).toEqual([expect.objectContaining({
+          mint: MINT,
+          program: 'raydium-amm-v4',
+          signature: 'sig_created',
+          slot: 250000000,
+          source: 'logs'
+        })]);
+      } finally {
+        await source.stop();
+        stub.sockets.close();
+        await new Promise(resolve => stub.server.close(resolve));
+      }
+    });
+  });
+
+  describe('DiscoveryFeed', () => {
+    const fakeSource = () => {
+      let emit: (pool: DiscoveredPool) => void = () => undefined;
+      const source: DiscoverySource & { push: (mint: string) => void } = {
+        name: 'logs',
+        start: jest.fn(async (onPool: (pool: DiscoveredPool) => void) => { emit = onPool; }),
+        stop: jest.fn(async () => undefined),
+        pause: jest.fn(),
+        resume: jest.fn(),
+        push: (mint: string) => emit(pool(mint))
+      };
+      return source;
+    };
+
+    it('should skip mints that were processed or already seen', async () => {
+      const source = fakeSource();
+      const processToken = jest.fn(async () => undefined);
+      const feed = new DiscoveryFeed(source, processToken, mint => mint === 'known');
+
+      await feed.start();
+      source.push('known');
+      source.push('fresh');
+      source.push('fresh');
+      await flushPromises();
+
+      expect(processToken).toHaveBeenCalledTimes(1);
+      expect(processToken).toHaveBeenCalledWith(expect.objectContaining({ mint: 'fresh' }));
+      expect(feed.getStats()).toMatchObject({ received: 3, duplicates: 2 });
+    });
+
+    it('should pause the source when saturated and resume once the queue drains', async () => {
+      const source = fakeSource();
+      const pending: Array<() => void> = [];
+      const processToken = jest.fn(() => new Promise<void>(resolve => pending.push(resolve)));
+      const feed = new DiscoveryFeed(source, processToken, () => false, { maxConcurrent: 1, maxQueued: 2, seenCacheSize: 10 });
+
+      await feed.start();
+      ['a', 'b', 'c', 'd'].forEach(mint => source.push(mint));
+
+      expect(processToken).toHaveBeenCalledTimes(1);
+      expect(source.pause).toHaveBeenCalledTimes(1);
+      expect(feed.getStats()).toMatchObject({ received: 4, dropped: 1, queued: 2, inFlight: 1, paused: true });
+
+      pending.shift()!();
+      await flushPromises();
+
+      expect(source.resume).toHaveBeenCalledTimes(1);
+      expect(processToken).toHaveBeenCalledTimes(2);
+      expect(feed.getStats()).toMatchObject({ processed: 1, queued: 1, paused: false });
+
+      await feed.stop();
+      expect(source.stop).toHaveBeenCalled();
+    });
+  });
+
+  describe('createDiscoverySource', () => {
+    it('should poll only by default and reject unknown sources', () => {
+      expect(createDiscoverySource('polling')).toBeNull();
+      expect(createDiscoverySource('logs')).toBeInstanceOf(LogsSubscribeSource);
+      expect(() => createDiscoverySource('geyser' as never)).toThrow('Unknown discovery source: geyser');
+    });
+  });
+});
@@ -0,0 +1,239 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { gunzipSync } from 'zlib';
+import { PrismaClient } from '@prisma/client';
+import { ExportService, ExportServiceConfig } from '@/services/export.service';
+import { createDateFormatter, escapeCsvValue, isValidTimeZone } from '@/utils/export-writers';
+
+describe('ExportService', () => {
+  let exportDir: string;
+  let config: ExportServiceConfig;
+
+  const tokens = [
+    { id: 'tok_1', address: 'So11111111111111111111111111111111111111112', symbol: 'SOL', name: 'Wrapped SOL', marketCap: 1000 },
+    { id: 'tok_2', address: 'PEPEjHzQqHQQfH5JnJLVKzPdqrGqqLxgN4VJ3Rnpump', symbol: 'PEPE', name: 'Pepe, "the" frog', marketCap: 500 },
+    { id: 'tok_3', address: 'DGFzH5FEcLJcr8T2Dv9jMKV9BxPGvXdLyKLv5qV8pump', symbol: 'DOGE', name: 'Dogecoin', marketCap: 250 }
+  ];
+
+  const createJob = (overrides: Record<string, unknown> = {}) => ({
+    id: 'job_1',
+    userId: 'user_1',
+    type: 'tokens',
+    format: 'csv',
+    status: 'pending',
+    options: { limit: 1000, includeHistory: false, compressionLevel: 'none', timezone: 'UTC', fields: ['address', 'symbol', 'name'] },
+    progress: 0,
+    totalRecords: 0,
+    processedRecords: 0,
+    checkpoint: null,
+    filePath: null,
+    fileSize: null,
+    error: null,
+    startedAt: null,
+    completedAt: null,
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+    ...overrides
+  });
+
+  let prisma: {
+    exportJob: Record<string, jest.Mock>;
+    token: Record<string, jest.Mock>;
+  };
+  let service: ExportService;
+
+  const runNextJob = async (): Promise<{ event: string; payload: Record<string, unknown> }> => {
+    const finished = new Promise<{ event: string; payload: Record<string, unknown> }>(resolve => {
+      service.once('job:completed', payload => resolve({ event: 'completed', payload }));
+      service.once('job:failed', payload => resolve({ event: 'failed', payload }));
+    });
+    await service.processPendingJobs();
+    return finished;
+  };
+
+  beforeEach(() => {
+    exportDir = mkdtempSync(path.join(tmpdir(), 'export-test-'));
+    config = {
+      exportDir,
+      expiryMs: 60 * 60 * 1000,
+      pageSize: 2,
+      maxConcurrentJobs: 1,
+      pollIntervalMs: 1000,
+      staleAfterMs: 60000
+    };
+
+    prisma = {
+      exportJob: {
+        findFirst: jest.fn().mockResolvedValueOnce(createJob()).mockResolvedValue(null),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        update: jest.fn().mockResolvedValue({})
+      },
+      token: {
+        findMany: jest.fn().mockImplementation(({ where, select }) => {
+          if (select) {
+            return Promise.resolve(tokens.map(token => ({ id: token.id })));
+          }
+          return Promise.resolve(tokens.filter(token => where.id.in.includes(token.id)));
+        })
+      }
+    };
+
+    service = new ExportService(prisma as unknown as PrismaClient, { listAlerts: () => [] }, config);
+  });
+
+  afterEach(() => {
+    rmSync(exportDir, { recursive: true, force: true });
+  });
+
+  it('should page tokens into a CSV file and record a checkpoint per page', async () => {
+    const { event, payload } = await runNextJob();
+
+    expect(event).toBe('completed');
+    expect(payload.records).toBe(3);
+
+    const csv = readFileSync(path.join(exportDir, 'job_1.csv'), 'utf8');
+    expect(csv).toBe([
+      'Address,Symbol,Name',
+      'So11111111111111111111111111111111111111112,SOL,Wrapped SOL',
+      'PEPEjHzQqHQQfH5JnJLVKzPdqrGqqLxgN4VJ3Rnpump,PEPE,"Pepe, ""the"" frog"',
+      'DGFzH5FEcLJcr8T2Dv9jMKV9BxPGvXdLyKLv5qV8pump,DOGE,Dogecoin',
+      ''
+    ].join('\n'));
+
+    const checkpoints = prisma.exportJob.updateMany.mock.calls
+      .map(([args]) => args.data)
+      .filter(data => data.checkpoint && !data.status);
+    expect(checkpoints.map(data => data.progress)).toEqual([66, 99]);
+    expect(checkpoints[0].checkpoint).toEqual({ sectionIndex: 0, offset: 2, bytesWritten: expect.any(Number) });
+
+    const completion = prisma.exportJob.updateMany.mock.calls.at(-1)[0].data;
+    expect(completion).toMatchObject({ status: 'completed', progress: 100, processedRecords: 3 });
+  });
+
+  it('should resume a text export from its checkpoint, discarding unacknowledged bytes', async () => {
+    const filePath = path.join(exportDir, 'job_1.csv');
+    const acknowledged = 'Address,Symbol,Name\nSo11111111111111111111111111111111111111112,SOL,Wrapped SOL\n' +
+      'PEPEjHzQqHQQfH5JnJLVKzPdqrGqqLxgN4VJ3Rnpump,PEPE,"Pepe, ""the"" frog"\n';
+    writeFileSync(filePath, `${acknowledged}half-written-row`);
+
+    prisma.exportJob.findFirst.mockReset().mockResolvedValueOnce(createJob({
+      status: 'processing',
+      filePath,
+      totalRecords: 3,
+      processedRecords: 2,
+      options: { ...createJob().options, tokenIds: ['tok_1', 'tok_2', 'tok_3'] },
+      checkpoint: { sectionIndex: 0, offset: 2, bytesWritten: Buffer.byteLength(acknowledged) }
+    })).mockResolvedValue(null);
+
+    const { event } = await runNextJob();
+
+    expect(event).toBe('completed');
+    expect(readFileSync(filePath, 'utf8')).toBe(
+      `${acknowledged}DGFzH5FEcLJcr8T2Dv9jMKV9BxPGvXdLyKLv5qV8pump,DOGE,Dogecoin\n`
+    );
+    // The token snapshot is reused rather than re-running the filter
+    expect(prisma.token.findMany).toHaveBeenCalledTimes(1);
+    expect(prisma.exportJob.update).not.toHaveBeenCalled();
+  });
+
+  it('should write gzip members that decompress to NDJSON', async () => {
+    prisma.exportJob.findFirst.mockReset().mockResolvedValueOnce(createJob({
+      format: 'json',
+      options: { ...createJob().options, compressionLevel: 'high', fields: ['symbol', 'marketCap'] }
+    })).mockResolvedValue(null);
+
+    const { event } = await runNextJob();
+
+    expect(event).toBe('completed');
+    const lines = gunzipSync(readFileSync(path.join(exportDir, 'job_1.ndjson.gz'))).toString('utf8').trim().split('\n');
+    expect(lines.map(line => JSON.parse(line))).toEqual([
+      { symbol: 'SOL', marketCap: 1000 },
+      { symbol: 'PEPE', marketCap: 500 },
+      { symbol: 'DOGE', marketCap: 250 }
+    ]);
+  });
+
+  it('should discard partial output when the job is deleted while running', async () => {
+    prisma.exportJob.updateMany
+      .mockResolvedValueOnce({ count: 1 }) // claim
+      .mockResolvedValueOnce({ count: 0 }); // first checkpoint - row is gone
+
+    const completed = jest.fn();
+    service.on('job:completed', completed);
+
+    await service.processPendingJobs();
+    await service.stop();
+
+    expect(completed).not.toHaveBeenCalled();
+    expect(existsSync(path.join(exportDir, 'job_1.csv'))).toBe(false);
+  });
+
+  it('should mark the job failed when the data source errors', async () => {
+    prisma.token.findMany.mockRejectedValue(new Error('connection refused'));
+
+    const { event, payload } = await runNextJob();
+
+    expect(event).toBe('failed');
+    expect(payload.error).toBe('connection refused');
+    expect(prisma.exportJob.updateMany).toHaveBeenLastCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ status: 'failed', error: 'connection refused' })
+    }));
+  });
+
+  it('should only export alerts visible to the job\'s owner', async () => {
+    const listAlerts = jest.fn().mockResolvedValue([
+      { id: 'alert_1', type: 'PRICE_ALERT', severity: 'HIGH', title: 'PEPE above 2', isRead: false }
+    ]);
+    service = new ExportService(prisma as unknown as PrismaClient, { listAlerts }, config);
+    prisma.exportJob.findFirst.mockReset().mockResolvedValueOnce(createJob({
+      type: 'alerts',
+      options: { limit: 1000, status: 'all', compressionLevel: 'none', timezone: 'UTC', fields: ['id', 'title'] }
+    })).mockResolvedValue(null);
+
+    const { event, payload } = await runNextJob();
+
+    expect(event).toBe('completed');
+    expect(payload.records).toBe(1);
+    expect(listAlerts).toHaveBeenCalledWith({ startDate: undefined, endDate: undefined }, 'user_1');
+  });
+
+  it('should only look up jobs owned by the caller', async () => {
+    prisma.exportJob.findFirst.mockReset().mockResolvedValue(null);
+
+    await expect(service.getJob('user_2', 'job_1')).resolves.toBeNull();
+    expect(prisma.exportJob.findFirst).toHaveBeenCalledWith({ where: { id: 'job_1', userId: 'user_2' } });
+  });
+
+  describe('calculateProgress', () => {
+    it('should hold at 99 until the job completes', () => {
+      expect(service.calculateProgress(0, 0)).toBe(0);
+      expect(service.calculateProgress(1, 4)).toBe(25);
+      expect(service.calculateProgress(4, 4)).toBe(99);
+    });
+  });
+});
+
+describe('export writers', () => {
+  it('should format dates in the requested timezone with an offset', () => {
+    const date = new Date('2024-03-01T12:00:00Z');
+
+    expect(createDateFormatter('UTC')(date)).toBe('2024-03-01T12:00:00+00:00');
+    expect(createDateFormatter('Asia/Kolkata')(date)).toBe('2024-03-01T17:30:00+05:30');
+    expect(createDateFormatter('America/New_York')(date)).toBe('2024-03-01T07:00:00-05:00');
+  });
+
+  it('should reject unknown timezones', () => {
+    expect(isValidTimeZone('Europe/Vilnius')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+  });
+
+  it('should quote CSV values containing separators, quotes or newlines', () => {
+    expect(escapeCsvValue('plain')).toBe('plain');
+    expect(escapeCsvValue('a,b')).toBe('"a,b"');
+    expect(escapeCsvValue('say "hi"')).toBe('"say ""hi"""');
+    expect(escapeCsvValue('line\nbreak')).toBe('"line\nbreak"');
+    expect(escapeCsvValue(null)).toBe('');
+  });
+});
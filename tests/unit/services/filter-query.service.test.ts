@@ -0,0 +1,293 @@
+import { PrismaClient } from '@prisma/client';
+import {
+  FilterQueryService,
+  TOKEN_FILTER_BINDINGS,
+  filterCriteriaToGroup,
+  toFilterGroup
+} from '@/services/filter-query.service';
+import {
+  analyzeFilterGroup,
+  buildFilterPreview,
+  compileFilterGroup,
+  evaluateFilterGroup,
+  validateFilterGroup
+} from '@/lib/filters/filter-engine';
+import { FilterCondition, FilterGroup } from '@/types/filter';
+
+const condition = (field: string, operator: FilterCondition['operator'], value: unknown): FilterCondition => ({
+  id: `${field}_${operator}`,
+  field,
+  operator,
+  value,
+  label: ''
+});
+
+const group = (
+  operator: FilterGroup['operator'],
+  conditions: FilterCondition[],
+  groups: FilterGroup[] = []
+): FilterGroup => ({ id: `group_${operator}`, operator, conditions, groups });
+
+describe('filter engine', () => {
+  const now = new Date('2024-03-01T12:00:00Z');
+
+  describe('compileFilterGroup', () => {
+    it('should push column conditions into an exact where-clause', () => {
+      const compiled = compileFilterGroup(group('AND', [
+        condition('market_cap', 'between', [1000, 5000]),
+        condition('chain', 'in', ['solana']),
+        condition('signal_type', 'eq', 'BUY')
+      ]), TOKEN_FILTER_BINDINGS, now);
+
+      expect(compiled).toEqual({
+        exact: true,
+        where: {
+          AND: [
+            { marketCap: { gte: 1000, lte: 5000 } },
+            { chain: { in: ['solana'] } },
+            { tradingSignals: { some: { type: { equals: 'BUY' } } } }
+          ]
+        }
+      });
+    });
+
+    it('should flip age comparisons onto the creation date', () => {
+      const compiled = compileFilterGroup(group('AND', [condition('age_hours', 'lt', 24)]), TOKEN_FILTER_BINDINGS, now);
+
+      expect(compiled.where).toEqual({ createdAt: { gt: new Date('2024-02-29T12:00:00Z') } });
+    });
+
+    it('should keep the column part of an AND group and post-filter the rest', () => {
+      const compiled = compileFilterGroup(group('AND', [
+        condition('liquidity_usd', 'gt', 0),
+        condition('price_change_24h', 'gte', 10)
+      ]), TOKEN_FILTER_BINDINGS, now);
+
+      expect(compiled).toEqual({ where: { liquidity: { gt: 0 } }, exact: false });
+    });
+
+    it('should not push down an OR group with a branch that only runs in memory', () => {
+      const compiled = compileFilterGroup(group('OR', [
+        condition('liquidity_usd', 'gt', 0),
+        condition('honeypot_detected', 'eq', false)
+      ]), TOKEN_FILTER_BINDINGS, now);
+
+      expect(compiled).toEqual({ exact: false });
+    });
+  });
+
+  describe('evaluateFilterGroup', () => {
+    const filter = group('AND', [condition('liquidity_usd', 'gte', 5000)], [
+      group('OR', [
+        condition('safety_score', 'gte', 7),
+        condition('signal_type', 'in', ['BUY', 'STRONG_BUY'])
+      ])
+    ]);
+
+    it('should combine nested AND and OR groups', () => {
+      expect(evaluateFilterGroup(filter, { liquidity_usd: 8000, safety_score: 8, signal_type: [] })).toBe(true);
+      expect(evaluateFilterGroup(filter, { liquidity_usd: 8000, safety_score: 3, signal_type: ['SELL', 'BUY'] })).toBe(true);
+      expect(evaluateFilterGroup(filter, { liquidity_usd: 8000, safety_score: 3, signal_type: ['SELL'] })).toBe(false);
+      expect(evaluateFilterGroup(filter, { liquidity_usd: 100, safety_score: 9, signal_type: [] })).toBe(false);
+    });
+
+    it('should never match missing values, even for negative operators', () => {
+      expect(evaluateFilterGroup(group('AND', [condition('market_cap', 'ne', 5)]), {})).toBe(false);
+      expect(evaluateFilterGroup(group('AND', [condition('chain', 'not_in', ['bsc'])]), { chain: null })).toBe(false);
+      expect(evaluateFilterGroup(group('AND', []), {})).toBe(true);
+    });
+  });
+
+  describe('validateFilterGroup', () => {
+    it('should report unknown fields, unsupported operators and bad values', () => {
+      const errors = validateFilterGroup(group('AND', [
+        condition('moon_factor', 'gt', 1),
+        condition('rug_risk', 'gt', 'low'),
+        condition('market_cap', 'between', [5000, 1000]),
+        condition('chain', 'in', ['solana', 'moonchain']),
+        condition('safety_score', 'gte', 150)
+      ]));
+
+      expect(errors).toEqual([
+        'Unknown filter field "moon_factor"',
+        'Rug Risk: operator "gt" is not supported',
+        'Market Cap: range minimum is greater than its maximum',
+        'Chain: unknown option "moonchain"',
+        'Safety Score: value must be between 0 and 100'
+      ]);
+    });
+
+    it('should reject groups nested too deeply', () => {
+      let nested = group('AND', [condition('market_cap', 'gt', 0)]);
+      for (let level = 0; level < 5; level++) {
+        nested = group('OR', [], [nested]);
+      }
+
+      expect(validateFilterGroup(nested)).toContain('Filter groups can be nested at most 5 levels deep');
+    });
+  });
+
+  it('should rate complexity from size, depth and in-memory conditions', () => {
+    const simple = group('AND', [condition('market_cap', 'gt', 0)]);
+    const mixed = group('AND', [condition('market_cap', 'gt', 0), condition('price_change_1h', 'gt', 5)], [
+      group('OR', [condition('holders_count', 'gt', 100), condition('trending_score', 'gt', 50)])
+    ]);
+
+    expect(analyzeFilterGroup(simple, TOKEN_FILTER_BINDINGS).complexity).toBe('low');
+    expect(analyzeFilterGroup(mixed, TOKEN_FILTER_BINDINGS)).toMatchObject({
+      conditionCount: 4,
+      depth: 2,
+      postFilterCount: 3,
+      complexity: 'high'
+    });
+
+    const preview = buildFilterPreview(group('AND', [condition('nope', 'eq', 1)]), { estimatedMatches: 12, scannedRecords: 0 });
+    expect(preview).toMatchObject({ isValid: false, estimatedMatches: 0, errors: ['Unknown filter field "nope"'] });
+  });
+});
+
+describe('FilterQueryService', () => {
+  const now = Date.now();
+
+  const createToken = (id: string, overrides: Record<string, unknown> = {}) => ({
+    id,
+    address: `${id}_address`,
+    symbol: id.toUpperCase(),
+    name: id,
+    decimals: 9,
+    marketCap: 1000,
+    liquidity: 5000,
+    volume24h: 100,
+    safetyScore: 7,
+    rugScore: 10,
+    chain: 'solana',
+    createdAt: new Date(now - 48 * 60 * 60 * 1000),
+    priceData: [],
+    safetyScores: [],
+    tradingSignals: [],
+    ...overrides
+  });
+
+  let prisma: { token: Record<string, jest.Mock> };
+  let service: FilterQueryService;
+
+  beforeEach(() => {
+    prisma = { token: { findMany: jest.fn(), count: jest.fn() } };
+    service = new FilterQueryService(prisma as unknown as PrismaClient, {
+      pageSize: 2,
+      maxScan: 100,
+      previewSampleSize: 10
+    });
+  });
+
+  it('should answer exact filters with a single id query', async () => {
+    prisma.token.findMany.mockResolvedValue([{ id: 'tok_1' }, { id: 'tok_2' }]);
+
+    const ids = await service.findTokenIds(group('AND', [condition('market_cap', 'gt', 500)]), { limit: 10 });
+
+    expect(ids).toEqual(['tok_1', 'tok_2']);
+    expect(prisma.token.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { marketCap: { gt: 500 } },
+      select: { id: true },
+      take: 10
+    }));
+  });
+
+  it('should page through candidates and post-filter on the latest price data', async () => {
+    prisma.token.findMany
+      .mockResolvedValueOnce([
+        createToken('tok_1', { priceData: [{ change24h: 25 }] }),
+        createToken('tok_2', { priceData: [{ change24h: 2 }] })
+      ])
+      .mockResolvedValueOnce([
+        createToken('tok_3', { priceData: [] }),
+        createToken('tok_4', { priceData: [{ change24h: 40 }], rugScore: 90 })
+      ])
+      .mockResolvedValueOnce([createToken('tok_5', { priceData: [{ change24h: 15 }] })]);
+
+    const filter = group('AND', [
+      condition('liquidity_usd', 'gt', 0),
+      condition('price_change_24h', 'gte', 10),
+      condition('rug_risk', 'ne', 'critical')
+    ]);
+    const tokens = await service.findTokens(filter, { limit: 10 });
+
+    expect(tokens.map(token => token.id)).toEqual(['tok_1', 'tok_5']);
+    expect(prisma.token.findMany).toHaveBeenCalledTimes(3);
+    expect(prisma.token.findMany.mock.calls[1][0]).toMatchObject({
+      where: { liquidity: { gt: 0 } },
+      cursor: { id: 'tok_2' },
+      skip: 1
+    });
+  });
+
+  it('should extrapolate the preview from a sample when post-filtering', async () => {
+    prisma.token.count.mockResolvedValue(200);
+    prisma.token.findMany.mockResolvedValue([
+      createToken('tok_1', { rugScore: 10 }),
+      createToken('tok_2', { rugScore: 60 }),
+      createToken('tok_3', { rugScore: 20 }),
+      createToken('tok_4', { rugScore: 90 })
+    ]);
+
+    const preview = await service.preview(group('AND', [condition('rug_risk', 'in', ['low'])]));
+
+    expect(preview).toMatchObject({ isValid: true, errors: [], estimatedMatches: 100 });
+    expect(prisma.token.count).toHaveBeenCalledWith({ where: undefined });
+  });
+
+  it('should read catalogue fields without a column from the latest safety details', async () => {
+    prisma.token.findMany.mockResolvedValueOnce([
+      createToken('tok_1', { safetyScores: [{ details: { contract_verified: true, holders_count: 900 } }] }),
+      createToken('tok_2', { safetyScores: [{ details: { contract_verified: false, holders_count: 5000 } }] }),
+      createToken('tok_3')
+    ]).mockResolvedValue([]);
+
+    const tokens = await service.findTokens(group('OR', [
+      condition('contract_verified', 'eq', true),
+      condition('holders_count', 'gte', 1000)
+    ]), { limit: 10 });
+
+    expect(tokens.map(token => token.id)).toEqual(['tok_1', 'tok_2']);
+    expect(prisma.token.findMany.mock.calls[0][0].where).toBeUndefined();
+  });
+
+  it('should skip the database when previewing an invalid filter', async () => {
+    const preview = await service.preview(group('AND', [condition('safety_score', 'between', [1])]));
+
+    expect(preview.isValid).toBe(false);
+    expect(preview.errors).toEqual(['Safety Score: "between" expects [min, max]']);
+    expect(prisma.token.count).not.toHaveBeenCalled();
+  });
+
+  describe('legacy criteria', () => {
+    it('should translate flat criteria into an AND group over the catalogue', () => {
+      const converted = filterCriteriaToGroup({
+        marketCap: { min: 1000, max: 5000 },
+        riskLevel: ['VERY_LOW', 'LOW', 'HIGH'],
+        liquidity: { required: true },
+        contractAge: { minDays: 2 },
+        signals: { types: ['BUY'], minStrength: 0.7, minConfidence: 0.9 }
+      });
+
+      expect(converted.operator).toBe('AND');
+      expect(converted.conditions.map(({ field, operator, value }) => [field, operator, value])).toEqual([
+        ['market_cap', 'gte', 1000],
+        ['market_cap', 'lte', 5000],
+        ['rug_risk', 'in', ['low', 'high']],
+        ['liquidity_usd', 'gt', 0],
+        ['age_hours', 'gte', 48],
+        ['signal_type', 'in', ['BUY']],
+        ['signal_strength', 'gte', 0.7]
+      ]);
+      expect(validateFilterGroup(converted)).toEqual([]);
+    });
+
+    it('should pass filter groups through unchanged', () => {
+      const filter = group('OR', [condition('chain', 'eq', 'base')]);
+
+      expect(toFilterGroup(filter)).toBe(filter);
+      expect(toFilterGroup(undefined)).toEqual({ id: 'root', operator: 'AND', conditions: [], groups: [] });
+    });
+  });
+});
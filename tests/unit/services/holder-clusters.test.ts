@@ -0,0 +1,100 @@
+import axios from 'axios';
+import { FixtureOnChainProvider } from '@/services/onchain';
+import { clusterHolders, SolscanService } from '@/services/solscan.service';
+import { SolscanTokenHolder } from '@/types/api.types';
+import { globalCache } from '@/utils/cache';
+
+jest.mock('axios');
+
+const MINT = 'ClusterMint11111111111111111111111111111111';
+const CREATOR = 'CreatorWallet111111111111111111111111111111';
+
+const holder = (address: string, owner: string, amount: number, rank: number): SolscanTokenHolder => ({
+  address,
+  owner,
+  amount: String(amount),
+  decimals: 6,
+  rank
+});
+
+const holders = [
+  holder('acc_1', 'wallet_1', 200, 1),
+  holder('acc_2', 'wallet_2', 150, 2),
+  holder('acc_3', 'wallet_3', 100, 3),
+  holder('acc_4', 'wallet_4', 50, 4),
+  holder('acc_5', 'wallet_5', 50, 5),
+  holder('acc_6', 'wallet_1', 50, 6) // second account of wallet_1
+];
+
+const funding = (wallet: string, funder: string | null, slot: number | null) => ({
+  wallet,
+  funder,
+  slot,
+  fundedAt: slot === null ? null : new Date(slot * 400)
+});
+
+const fundings = [
+  funding('wallet_1', 'funder_a', 100),
+  funding('wallet_2', 'funder_a', 5000),
+  funding('wallet_3', 'funder_b', 102), // two slots after wallet_1
+  funding('wallet_4', 'wallet_2', 9000),
+  funding('wallet_5', CREATOR, 20000)
+];
+
+describe('Holder funding clusters', () => {
+  describe('clusterHolders', () => {
+    it('should join wallets sharing a funder, funded by a holder or funded in the same slot window', () => {
+      const report = clusterHolders(holders, fundings, 1000, CREATOR);
+
+      expect(report.clusters).toHaveLength(2);
+      expect(report.clusters[0].wallets).toEqual(['wallet_1', 'wallet_2', 'wallet_3', 'wallet_4']);
+      expect(report.clusters[0].supplyPercentage).toBeCloseTo(55);
+      expect([...report.clusters[0].reasons].sort()).toEqual(['funded_by_holder', 'same_slot_window', 'shared_funder']);
+      expect([...report.clusters[0].funders].sort()).toEqual(['funder_a', 'funder_b', 'wallet_2']);
+      expect(report.clusters[1]).toEqual({ wallets: ['wallet_5'], funders: [CREATOR], reasons: ['creator_funded'], supplyPercentage: 5 });
+      expect(report.clusteredSupplyPercentage).toBeCloseTo(60);
+      expect(report.largestClusterPercentage).toBeCloseTo(55);
+      expect(report.effectiveTopHoldersPercentage).toBeCloseTo(60); // the 55% cluster and one 5% wallet
+      expect(report).toMatchObject({ analyzedHolders: 5, tracedHolders: 5 });
+    });
+
+    it('should not link wallets through ignored funders', () => {
+      const report = clusterHolders(holders, fundings, 1000, null, { fundingSlotWindow: 5, ignoredFunders: ['funder_a'] });
+
+      expect(report.clusters).toEqual([
+        { wallets: ['wallet_2', 'wallet_4'], funders: ['wallet_2'], reasons: ['funded_by_holder'], supplyPercentage: 20 }
+      ]);
+      expect(report.effectiveTopHoldersPercentage).toBeCloseTo(55); // wallet_1 25%, the 20% cluster and wallet_3 10%
+      expect(report.tracedHolders).toBe(5);
+    });
+
+    it('should leave untraced holders unclustered', () => {
+      const report = clusterHolders(holders, fundings.map(entry => ({ ...entry, funder: null, slot: null })), 1000, CREATOR);
+
+      expect(report).toMatchObject({ clusters: [], clusteredSupplyPercentage: 0, effectiveTopHoldersPercentage: 50, tracedHolders: 0 });
+    });
+  });
+
+  it('should filter Solscan analyses on the effective top-holder share', async () => {
+    (axios.create as jest.Mock).mockReturnValue({
+      get: jest.fn().mockRejectedValue(new Error('API unavailable')),
+      interceptors: { request: { use: jest.fn() }, response: { use: jest.fn() } }
+    });
+    globalCache.clear();
+
+    const service = new SolscanService(undefined, new FixtureOnChainProvider({
+      [MINT]: {
+        mint: { address: MINT, decimals: 6, supply: '1000', mintAuthority: null, freezeAuthority: null },
+        holders: holders.map(({ address, owner, amount, decimals }) => ({ address, owner, amount, decimals })),
+        funding: Object.fromEntries(fundings.map(({ wallet, funder, slot }) => [wallet, { funder, slot, fundedAt: null }]))
+      }
+    }));
+
+    const result = await service.analyzeToken(MINT, { maxTopHoldersPercentage: 50, maxEffectiveTopHoldersPercentage: 50 });
+
+    expect(result.data?.topHoldersPercentage).toBeCloseTo(45);
+    expect(result.data?.dataSources.funding).toBe('fixture');
+    expect(result.data?.holderClusters.effectiveTopHoldersPercentage).toBeCloseTo(60);
+    expect(result.data?.filterReason).toBe('Effective top holders concentration too high: 60.0% > 50%');
+  });
+});
@@ -0,0 +1,149 @@
+import axios from 'axios';
+import { FixtureOnChainProvider, OnChainFixtures } from '@/services/onchain';
+import { JupiterService } from '@/services/jupiter.service';
+import { RugCheckService } from '@/services/rugcheck.service';
+import { JupiterRoundTripQuote } from '@/types/api.types';
+import { globalCache } from '@/utils/cache';
+
+jest.mock('axios');
+
+const MINT = 'HoneyMint111111111111111111111111111111111';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+const client = {
+  get: jest.fn(),
+  interceptors: { request: { use: jest.fn() }, response: { use: jest.fn() } }
+};
+
+const fixtures: OnChainFixtures = {
+  [MINT]: {
+    mint: { address: MINT, decimals: 6, supply: '1000', mintAuthority: null, freezeAuthority: null },
+    holders: Array.from({ length: 20 }, (_, i) => ({ address: `account_${i}`, owner: `owner_${i}`, amount: '20', decimals: 6 })),
+    liquidity: { poolAddress: 'pool', lpMint: 'lp', locked: true, percentage: 100 }
+  }
+};
+
+const roundTrip = (overrides: Partial<JupiterRoundTripQuote>): JupiterRoundTripQuote => ({
+  notionalUsd: 100,
+  buyRoutable: true,
+  sellRoutable: true,
+  tokensReceived: '5000000',
+  usdcReturned: 97,
+  roundTripLossPercent: 3,
+  buyPriceImpactPercent: 0.5,
+  sellPriceImpactPercent: 0.5,
+  ...overrides
+});
+
+describe('Honeypot detection', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    globalCache.clear();
+    (axios.create as jest.Mock).mockReturnValue(client);
+    client.get.mockRejectedValue(new Error('API unavailable'));
+  });
+
+  describe('RugCheckService grading', () => {
+    const analyze = async (quote: JupiterRoundTripQuote | Error) => {
+      const jupiter = {
+        simulateRoundTrip: jest.fn().mockImplementation(() => (quote instanceof Error ? Promise.reject(quote) : Promise.resolve(quote)))
+      };
+      const service = new RugCheckService(new FixtureOnChainProvider(fixtures), jupiter);
+      const result = await service.analyzeToken(MINT, { allowHoneypot: false });
+      return result.data!;
+    };
+
+    it('should clear tokens whose round trip loses only price impact and fees', async () => {
+      const result = await analyze(roundTrip({}));
+
+      expect(result.honeypotRisk).toBe('none');
+      expect(result.honeypotEvidence).toMatchObject({ score: 0, reasons: [], impliedTaxPercent: 0 });
+      expect(result.filtered).toBe(false);
+    });
+
+    it('should grade implied sell tax by size', async () => {
+      const taxed = await analyze(roundTrip({ usdcReturned: 70, roundTripLossPercent: 30 }));
+      expect(taxed.honeypotRisk).toBe('medium');
+      expect(taxed.honeypotEvidence.impliedTaxPercent).toBeCloseTo(27);
+      expect(taxed.filterReason).toBe('Honeypot risk medium: Round trip loses 30.0% (27.0% implied tax)');
+
+      globalCache.clear();
+      const extreme = await analyze(roundTrip({ usdcReturned: 20, roundTripLossPercent: 80 }));
+      expect(extreme.honeypotRisk).toBe('high');
+      expect(extreme.risks).toContain('Honeypot risk: Round trip loses 80.0% (77.0% implied tax)');
+    });
+
+    it('should flag a buyable token with no sell route as high risk', async () => {
+      const result = await analyze(roundTrip({
+        sellRoutable: false,
+        usdcReturned: null,
+        roundTripLossPercent: null,
+        sellPriceImpactPercent: null
+      }));
+
+      expect(result.honeypotRisk).toBe('high');
+      expect(result.honeypotEvidence.score).toBe(100);
+      expect(result.honeypotEvidence.reasons).toEqual(['Buy route exists but no sell route']);
+    });
+
+    it('should report unknown risk when quotes are unavailable', async () => {
+      const result = await analyze(new Error('Jupiter down'));
+
+      expect(result.honeypotRisk).toBe('unknown');
+      expect(result.honeypotEvidence.roundTrip).toBeNull();
+      expect(result.filtered).toBe(false);
+    });
+  });
+
+  describe('JupiterService.simulateRoundTrip', () => {
+    const noRoute = Object.assign(new Error('Request failed with status code 400'), { response: { status: 400 } });
+
+    beforeEach(() => {
+      client.get.mockImplementation((url: string) =>
+        url === '/tokens' ? Promise.resolve({ data: [] }) : Promise.reject(new Error('unexpected'))
+      );
+    });
+
+    it('should sell back exactly what the buy leg returns', async () => {
+      client.get.mockImplementation((url: string, config?: { params: Record<string, string> }) => {
+        if (url === '/tokens') return Promise.resolve({ data: [] });
+        return Promise.resolve({
+          data: config!.params.inputMint === USDC
+            ? { outAmount: '123456789', priceImpactPct: '0.01' }
+            : { outAmount: '88000000', priceImpactPct: '0.02' }
+        });
+      });
+
+      const quote = await new JupiterService().simulateRoundTrip(MINT, 100);
+
+      expect(client.get).toHaveBeenLastCalledWith('/quote', expect.objectContaining({
+        params: expect.objectContaining({ inputMint: MINT, outputMint: USDC, amount: '123456789' })
+      }));
+      expect(quote).toMatchObject({
+        buyRoutable: true,
+        sellRoutable: true,
+        usdcReturned: 88,
+        buyPriceImpactPercent: 1,
+        sellPriceImpactPercent: 2
+      });
+      expect(quote.roundTripLossPercent).toBeCloseTo(12);
+    });
+
+    it('should report a missing sell route instead of throwing', async () => {
+      client.get.mockImplementation((url: string, config?: { params: Record<string, string> }) => {
+        if (url === '/tokens') return Promise.resolve({ data: [] });
+        return config!.params.inputMint === USDC
+          ? Promise.resolve({ data: { outAmount: '500', priceImpactPct: '0' } })
+          : Promise.reject(noRoute);
+      });
+
+      const quote = await new JupiterService().simulateRoundTrip(MINT);
+
+      expect(quote).toMatchObject({ buyRoutable: true, sellRoutable: false, roundTripLossPercent: null });
+    });
+
+    it('should reject when Jupiter is unreachable', async () => {
+      await expect(new JupiterService().simulateRoundTrip(MINT)).rejects.toThrow('unexpected');
+    });
+  });
+});
@@ -0,0 +1,283 @@
+import { createServer as createHttpServer, IncomingMessage, Server } from 'http';
+import { AddressInfo, createServer as createTcpServer, Server as TcpServer, Socket } from 'net';
+import { PrismaClient } from '@prisma/client';
+import {
+  createNotificationAdapters,
+  isWithinQuietHours,
+  NotificationService,
+  renderNotification
+} from '@/services/notifications';
+import { Alert } from '@/api/types/api.types';
+
+const now = new Date('2024-03-01T12:00:00Z');
+
+const alert = (overrides: Partial<Alert> = {}): Alert => ({
+  id: 'event_1',
+  alertId: 'rule_1',
+  type: 'PRICE_ALERT',
+  title: 'MEME price above 2',
+  message: 'MEME price above 2 (now 2.5)',
+  severity: 'HIGH',
+  tokenAddress: 'Mint111',
+  tokenSymbol: 'MEME',
+  triggeredAt: now.toISOString(),
+  isRead: false,
+  ...overrides
+});
+
+const token = { symbol: 'MEME', address: 'Mint111', safetyScore: 72, price: 2.5, liquidity: 12000.4 };
+
+interface ReceivedRequest {
+  url: string;
+  headers: IncomingMessage['headers'];
+  body: Record<string, unknown>;
+}
+
+// Records every JSON POST and answers with the given status and body
+function startHttpStub(status = 200, reply: unknown = { ok: true }): Promise<{ server: Server; url: string; received: ReceivedRequest[] }> {
+  const received: ReceivedRequest[] = [];
+  const server = createHttpServer((req, res) => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => {
+      received.push({ url: req.url ?? '', headers: req.headers, body: JSON.parse(data) });
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(reply));
+    });
+  });
+
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => {
+    const { port } = server.address() as AddressInfo;
+    resolve({ server, url: `http://127.0.0.1:${port}`, received });
+  }));
+}
+
+// Accepts one message per connection and keeps the commands and DATA it was sent
+function startSmtpStub(): Promise<{ server: TcpServer; port: number; commands: string[]; messages: string[] }> {
+  const commands: string[] = [];
+  const messages: string[] = [];
+
+  const server = createTcpServer((socket: Socket) => {
+    let buffer = '';
+    let data: string | null = null;
+    socket.setEncoding('utf8');
+    socket.write('220 stub ESMTP\r\n');
+
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      let newline: number;
+      while ((newline = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+
+        if (data !== null) {
+          if (line === '.') {
+            messages.push(data);
+            data = null;
+            socket.write('250 queued\r\n');
+          } else {
+            data += `${line}\r\n`;
+          }
+          continue;
+        }
+
+        commands.push(line);
+        if (line.startsWith('EHLO')) {
+          socket.write('250-stub\r\n250 AUTH PLAIN\r\n');
+        } else if (line.startsWith('AUTH')) {
+          socket.write('235 ok\r\n');
+        } else if (line === 'DATA') {
+          data = '';
+          socket.write('354 go ahead\r\n');
+        } else if (line === 'QUIT') {
+          socket.end('221 bye\r\n');
+        } else {
+          socket.write('250 ok\r\n');
+        }
+      }
+    });
+  });
+
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => {
+    resolve({ server, port: (server.address() as AddressInfo).port, commands, messages });
+  }));
+}
+
+const close = (server: Server | TcpServer) => new Promise(resolve => server.close(resolve));
+
+describe('NotificationService', () => {
+  describe('templates', () => {
+    it('should render token symbol, address, score and DEX links', () => {
+      const rendered = renderNotification(alert(), token, '{{symbol}} {{address}} {{score}} {{liquidity}} {{dexscreenerUrl}} {{unknown}}');
+
+      expect(rendered.subject).toBe('[HIGH] MEME: MEME price above 2');
+      expect(rendered.text).toBe('MEME Mint111 7.2/10 $12,000 https://dexscreener.com/solana/Mint111 {{unknown}}');
+    });
+
+    it('should treat quiet hours in the channel timezone and across midnight', () => {
+      // 12:00 UTC is 21:00 in Tokyo
+      expect(isWithinQuietHours(now, '20:00', '07:00', 'Asia/Tokyo')).toBe(true);
+      expect(isWithinQuietHours(now, '22:00', '07:00', 'Asia/Tokyo')).toBe(false);
+      expect(isWithinQuietHours(now, '11:00', '13:00', 'UTC')).toBe(true);
+      expect(isWithinQuietHours(now, null, '13:00', 'UTC')).toBe(false);
+    });
+  });
+
+  describe('channels', () => {
+    it('should deliver to Telegram, Discord and HTTP stubs', async () => {
+      const telegram = await startHttpStub(200, { ok: true });
+      const receiver = await startHttpStub(204, {});
+      const adapters = createNotificationAdapters({ TELEGRAM_API_URL: telegram.url, TELEGRAM_BOT_TOKEN: 'bot-secret' });
+      const notification = renderNotification(alert(), token, null);
+
+      try {
+        await adapters.telegram.send({ chatId: '42' }, notification);
+        await adapters.discord.send({ webhookUrl: `${receiver.url}/discord` }, notification);
+        await adapters.http.send({ url: `${receiver.url}/hook`, headers: { 'X-Signature': 'abc' } }, notification);
+
+        expect(telegram.received[0]).toMatchObject({ url: '/botbot-secret/sendMessage', body: { chat_id: '42' } });
+        expect(telegram.received[0].body.text).toContain('DexScreener: https://dexscreener.com/solana/Mint111');
+        expect(receiver.received[0].body).toMatchObject({
+          embeds: [expect.objectContaining({ title: '[HIGH] MEME: MEME price above 2', url: 'https://dexscreener.com/solana/Mint111' })]
+        });
+        expect(receiver.received[1]).toMatchObject({
+          url: '/hook',
+          headers: expect.objectContaining({ 'x-signature': 'abc' }),
+          body: { event: 'alert.triggered', token: { symbol: 'MEME', score: '7.2/10' } }
+        });
+      } finally {
+        await close(telegram.server);
+        await close(receiver.server);
+      }
+    });
+
+    it('should surface receiver errors', async () => {
+      const telegram = await startHttpStub(200, { ok: false, description: 'chat not found' });
+      const receiver = await startHttpStub(500, {});
+      const adapters = createNotificationAdapters({ TELEGRAM_API_URL: telegram.url, TELEGRAM_BOT_TOKEN: 'bot-secret' });
+      const notification = renderNotification(alert(), token, null);
+
+      try {
+        await expect(adapters.telegram.send({ chatId: '42' }, notification)).rejects.toThrow('chat not found');
+        await expect(adapters.http.send({ url: receiver.url }, notification)).rejects.toThrow('HTTP 500');
+        await expect(createNotificationAdapters({}).email.send({ to: 'a@b.co' }, notification)).rejects.toThrow('SMTP is not configured');
+      } finally {
+        await close(telegram.server);
+        await close(receiver.server);
+      }
+    });
+
+    it('should send email through an SMTP stub', async () => {
+      const smtp = await startSmtpStub();
+      const adapters = createNotificationAdapters({
+        SMTP_HOST: '127.0.0.1',
+        SMTP_PORT: String(smtp.port),
+        SMTP_USER: 'user',
+        SMTP_PASSWORD: 'pass',
+        SMTP_FROM: 'alerts@example.com'
+      });
+
+      try {
+        await adapters.email.send({ to: 'trader@example.com' }, renderNotification(alert(), token, '.{{symbol}}'));
+
+        expect(smtp.commands).toEqual([
+          expect.stringMatching(/^EHLO /),
+          `AUTH PLAIN ${Buffer.from('\u0000user\u0000pass').toString('base64')}`,
+          'MAIL FROM:<alerts@example.com>',
+          'RCPT TO:<trader@example.com>',
+          'DATA',
+          'QUIT'
+        ]);
+        expect(smtp.messages[0]).toContain('To: trader@example.com\r\n');
+        expect(smtp.messages[0]).toMatch(/\r\n\r\n\.\.MEME\r\n$/);
+      } finally {
+        await close(smtp.server);
+      }
+    });
+  });
+
+  describe('notify', () => {
+    const prisma = {
+      alert: { findUnique: jest.fn() },
+      token: { findUnique: jest.fn() },
+      notificationChannel: { findMany: jest.fn() },
+      notificationDelivery: { count: jest.fn(), create: jest.fn() }
+    };
+    const send = jest.fn();
+    const service = new NotificationService(prisma as unknown as PrismaClient, {
+      telegram: { type: 'telegram', send },
+      discord: { type: 'discord', send },
+      email: { type: 'email', send },
+      http: { type: 'http', send }
+    });
+
+    const channel = (id: string, overrides: Record<string, unknown> = {}) => ({
+      id,
+      userId: 'user_1',
+      type: 'http',
+      config: { url: 'http://127.0.0.1/hook' },
+      minSeverity: 'MEDIUM',
+      template: null,
+      rateLimitPerHour: 5,
+      quietHoursStart: null,
+      quietHoursEnd: null,
+      timezone: 'UTC',
+      isActive: true,
+      ...overrides
+    });
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      prisma.alert.findUnique.mockResolvedValue({ userId: 'user_1' });
+      prisma.token.findUnique.mockResolvedValue(token);
+      prisma.notificationDelivery.count.mockResolvedValue(0);
+      prisma.notificationDelivery.create.mockResolvedValue({});
+      send.mockResolvedValue(undefined);
+    });
+
+    const recorded = () => prisma.notificationDelivery.create.mock.calls.map(([{ data }]) => [data.channelId, data.status, data.reason]);
+
+    it('should apply severity thresholds, quiet hours and rate limits per channel', async () => {
+      prisma.notificationChannel.findMany.mockResolvedValue([
+        channel('open'),
+        channel('critical_only', { minSeverity: 'CRITICAL' }),
+        channel('sleeping', { quietHoursStart: '11:00', quietHoursEnd: '13:00' }),
+        channel('busy')
+      ]);
+      prisma.notificationDelivery.count.mockImplementation(({ where }) => Promise.resolve(where.channelId === 'busy' ? 5 : 0));
+
+      await expect(service.notify(alert(), now)).resolves.toBe(1);
+
+      expect(prisma.notificationChannel.findMany).toHaveBeenCalledWith({ where: { isActive: true, userId: 'user_1' } });
+      expect(send).toHaveBeenCalledTimes(1);
+      // Channels are delivered to concurrently, so records land in any order
+      expect(recorded()).toHaveLength(3);
+      expect(recorded()).toEqual(expect.arrayContaining([
+        ['open', 'sent', null],
+        ['sleeping', 'suppressed', 'quiet_hours'],
+        ['busy', 'suppressed', 'rate_limited']
+      ]));
+    });
+
+    it('should send critical alerts during quiet hours and record failures without throwing', async () => {
+      prisma.notificationChannel.findMany.mockResolvedValue([channel('sleeping', { quietHoursStart: '11:00', quietHoursEnd: '13:00' })]);
+      send.mockRejectedValue(new Error('Receiver responded with HTTP 502'));
+
+      await expect(service.notify(alert({ severity: 'CRITICAL' }), now)).resolves.toBe(0);
+
+      expect(send).toHaveBeenCalledTimes(1);
+      expect(prisma.notificationDelivery.create).toHaveBeenCalledWith({
+        data: { channelId: 'sleeping', alertEventId: 'event_1', status: 'failed', reason: null, error: 'Receiver responded with HTTP 502' }
+      });
+    });
+
+    it('should notify every active channel for alerts without an owner', async () => {
+      prisma.notificationChannel.findMany.mockResolvedValue([]);
+
+      await service.notify(alert({ alertId: undefined }), now);
+
+      expect(prisma.alert.findUnique).not.toHaveBeenCalled();
+      expect(prisma.notificationChannel.findMany).toHaveBeenCalledWith({ where: { isActive: true } });
+    });
+  });
+});
@@ -0,0 +1,232 @@
+import axios from 'axios';
+import { FixtureOnChainProvider, OnChainFixtures, SolanaRpcProvider } from '@/services/onchain';
+import { RugCheckService } from '@/services/rugcheck.service';
+import { SolscanService } from '@/services/solscan.service';
+import { globalCache } from '@/utils/cache';
+
+jest.mock('axios');
+
+const MINT = 'MintAddress1111111111111111111111111111111';
+const CREATOR = 'CreatorWallet111111111111111111111111111111';
+
+const client = {
+  get: jest.fn(),
+  post: jest.fn(),
+  interceptors: { request: { use: jest.fn() }, response: { use: jest.fn() } }
+};
+
+const fixtures: OnChainFixtures = {
+  [MINT]: {
+    mint: { address: MINT, decimals: 6, supply: '1000', mintAuthority: null, freezeAuthority: null },
+    holders: Array.from({ length: 8 }, (_, i) => ({
+      address: `account_${i}`,
+      owner: `owner_${i}`,
+      amount: String(i === 0 ? 300 : 50),
+      decimals: 6
+    })),
+    liquidity: { poolAddress: 'pool', lpMint: 'lp', locked: true, percentage: 100 },
+    creator: {
+      creator: CREATOR,
+      mintCreatedAt: '2024-02-20T00:00:00Z',
+      tokens: [
+        { address: MINT, createdAt: '2024-02-20T00:00:00Z' },
+        { address: 'old_rug', createdAt: '2024-01-01T00:00:00Z', rugged: true },
+        { address: 'old_ok', createdAt: '2024-01-10T00:00:00Z', rugged: false }
+      ]
+    }
+  }
+};
+
+describe('On-chain data providers', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    globalCache.clear();
+    (axios.create as jest.Mock).mockReturnValue(client);
+    client.get.mockRejectedValue(new Error('API unavailable'));
+  });
+
+  describe('RugCheckService fallback', () => {
+    it('should score from provider data and tag every field with its source', async () => {
+      const service = new RugCheckService(new FixtureOnChainProvider(fixtures));
+
+      const result = await service.analyzeToken(MINT);
+
+      expect(result.data).toMatchObject({
+        mintAuthority: false,
+        freezeAuthority: false,
+        liquidityLocked: true,
+        holderConcentration: 65, // top 10 of 8 accounts against the 1000 supply
+        honeypotRisk: 'unknown', // no round-trip quote source
+        dataSources: { metadata: 'fixture', holders: 'fixture', liquidity: 'fixture' }
+      });
+    });
+
+    it('should mark data missing from every source as unavailable', async () => {
+      const service = new RugCheckService(new FixtureOnChainProvider({}));
+
+      const result = await service.analyzeToken('unknown_mint');
+
+      expect(result.data?.dataSources).toEqual({ metadata: 'unavailable', holders: 'unavailable', liquidity: 'unavailable' });
+      expect(result.data?.honeypotRisk).toBe('unknown');
+      expect(result.data?.warnings).toEqual(expect.arrayContaining(['Liquidity lock state unknown']));
+    });
+
+    it('should prefer the RugCheck API when it answers', async () => {
+      client.get.mockImplementation((url: string) => {
+        if (url.endsWith('/liquidity')) return Promise.resolve({ data: { locked: false, percentage: 0 } });
+        return Promise.reject(new Error('API unavailable'));
+      });
+      const service = new RugCheckService(new FixtureOnChainProvider(fixtures));
+
+      const result = await service.analyzeToken(MINT);
+
+      expect(result.data?.liquidityLocked).toBe(false);
+      expect(result.data?.dataSources.liquidity).toBe('rugcheck');
+    });
+  });
+
+  it('should build creator history for Solscan from the provider', async () => {
+    const service = new SolscanService(undefined, new FixtureOnChainProvider(fixtures));
+
+    const result = await service.analyzeToken(MINT);
+
+    expect(result.data).toMatchObject({
+      creatorWallet: CREATOR,
+      creatorInfo: { address: CREATOR, createdTokens: 3, ruggedTokens: 1, successfulTokens: 2, firstTokenDate: new Date('2024-01-01T00:00:00Z') },
+      topHoldersPercentage: 40,
+      dataSources: { tokenInfo: 'fixture', holders: 'fixture', creator: 'fixture' }
+    });
+  });
+
+  describe('SolanaRpcProvider', () => {
+    const respond = (results: Record<string, unknown | ((params: unknown[]) => unknown)>) => {
+      client.post.mockImplementation((_url: string, body: { method: string; params: unknown[] }) => {
+        const result = results[body.method];
+        return Promise.resolve({ data: { result: typeof result === 'function' ? result(body.params) : result } });
+      });
+    };
+
+    it('should read mint authorities and holder owners', async () => {
+      respond({
+        getAccountInfo: { value: { data: { parsed: { type: 'mint', info: { decimals: 9, supply: '5000', mintAuthority: 'auth', freezeAuthority: null } } } } },
+        getTokenLargestAccounts: { value: [{ address: 'acc_1', amount: '3000', decimals: 9 }, { address: 'acc_2', amount: '1000', decimals: 9 }] },
+        getMultipleAccounts: { value: [{ data: { parsed: { type: 'account', info: { owner: 'wallet_1' } } } }, null] }
+      });
+      const provider = new SolanaRpcProvider();
+
+      await expect(provider.getMintInfo(MINT)).resolves.toEqual({
+        address: MINT, decimals: 9, supply: '5000', mintAuthority: 'auth', freezeAuthority: null
+      });
+      await expect(provider.getHolderAccounts(MINT, 20)).resolves.toEqual([
+        { address: 'acc_1', owner: 'wallet_1', amount: '3000', decimals: 9 },
+        { address: 'acc_2', owner: 'unknown', amount: '1000', decimals: 9 }
+      ]);
+    });
+
+    it('should treat LP tokens burned below the pool reserve as locked', async () => {
+      const poolSlice = Buffer.alloc(264); // lpMint (all zero bytes) through lpReserve
+      poolSlice.writeBigUInt64LE(BigInt(1000), 256);
+      respond({
+        getProgramAccounts: (params: unknown[]) => {
+          const { filters } = params[1] as { filters: Array<{ memcmp?: { offset: number } }> };
+          return filters[1].memcmp?.offset === 400 ? [] : [{ pubkey: 'pool_1', account: { data: [poolSlice.toString('base64'), 'base64'] } }];
+        },
+        getTokenSupply: { value: { amount: '50' } }
+      });
+
+      const lock = await new SolanaRpcProvider().getLiquidityLock(MINT);
+
+      expect(lock).toEqual({ poolAddress: 'pool_1', lpMint: '11111111111111111111111111111111', locked: true, percentage: 95 });
+      expect(client.post.mock.calls.map(([, body]) => body.params[0])).toContain('11111111111111111111111111111111');
+    });
+
+    it('should find the creator from the first mint transaction and their other mints', async () => {
+      const initializeMint = (mint: string) => ({ program: 'spl-token', parsed: { type: 'initializeMint2', info: { mint } } });
+      const transactions: Record<string, unknown> = {
+        sig_create: {
+          blockTime: 1708387200,
+          transaction: { message: { accountKeys: [{ pubkey: CREATOR, signer: true }], instructions: [initializeMint(MINT)] } },
+          meta: { innerInstructions: [] }
+        },
+        sig_other: {
+          blockTime: 1704067200,
+          transaction: { message: { accountKeys: [{ pubkey: CREATOR, signer: true }], instructions: [] } },
+          meta: { innerInstructions: [{ instructions: [initializeMint('other_mint')] }] }
+        }
+      };
+      respond({
+        getSignaturesForAddress: (params: unknown[]) => params[0] === MINT
+          ? [{ signature: 'sig_trade', blockTime: 1708390000, err: null }, { signature: 'sig_create', blockTime: 1708387200, err: null }]
+          : [{ signature: 'sig_create', blockTime: 1708387200, err: null }, { signature: 'sig_failed', blockTime: 1, err: {} }, { signature: 'sig_other', blockTime: 1704067200, err: null }],
+        getTransaction: (params: unknown[]) => transactions[params[0] as string] ?? null
+      });
+
+      const history = await new SolanaRpcProvider().getCreatorHistory(MINT);
+
+      expect(history).toEqual({
+        creator: CREATOR,
+        mintCreatedAt: new Date(1708387200 * 1000),
+        tokens: [
+          { address: MINT, createdAt: new Date(1708387200 * 1000) },
+          { address: 'other_mint', createdAt: new Date(1704067200 * 1000) }
+        ]
+      });
+    });
+
+    it('should count creator token outflows as sold only when the creator was paid SOL', async () => {
+      const balance = (amount: string) => ({ mint: MINT, owner: CREATOR, uiTokenAmount: { amount } });
+      const transfer = (pre: string, post: string, lamports: [number, number]) => ({
+        blockTime: 1708390000,
+        transaction: { message: { accountKeys: [{ pubkey: CREATOR, signer: true }], instructions: [] } },
+        meta: { preBalances: [lamports[0]], postBalances: [lamports[1]], preTokenBalances: [balance(pre)], postTokenBalances: [balance(post)] }
+      });
+      const transactions: Record<string, unknown> = {
+        sig_create: {
+          blockTime: 1708387200,
+          transaction: { message: { accountKeys: [{ pubkey: CREATOR, signer: true }], instructions: [{ program: 'spl-token', parsed: { type: 'initializeMint2', info: { mint: MINT } } }] } },
+          meta: { postTokenBalances: [balance('1000')] }
+        },
+        sig_deposit: transfer('1000', '400', [5000, 1000]), // liquidity deposit pays SOL out
+        sig_sell: transfer('400', '100', [1000, 9000])
+      };
+      respond({
+        getSignaturesForAddress: (params: unknown[]) => params[0] === MINT
+          ? [{ signature: 'sig_create', blockTime: 1708387200, err: null }]
+          : ['sig_sell', 'sig_deposit', 'sig_create'].map(signature => ({ signature, blockTime: 1708387200, err: null })),
+        getTransaction: (params: unknown[]) => transactions[params[0] as string] ?? null
+      });
+
+      const history = await new SolanaRpcProvider().getCreatorHistory(MINT);
+
+      expect(history?.tokens).toEqual([
+        { address: MINT, createdAt: new Date(1708387200 * 1000), creatorFlow: { peakBalance: '1000', soldAmount: '300' } }
+      ]);
+    });
+
+    it('should take a wallet funder from the SOL transfer in its first transaction', async () => {
+      respond({
+        getSignaturesForAddress: (params: unknown[]) => params[0] === 'holder_wallet'
+          ? [{ signature: 'sig_swap', slot: 250000100, blockTime: 1708390000, err: null }, { signature: 'sig_fund', slot: 250000000, blockTime: 1708387200, err: null }]
+          : [],
+        getTransaction: (params: unknown[]) => params[0] === 'sig_fund' ? {
+          slot: 250000000,
+          blockTime: 1708387200,
+          transaction: {
+            message: {
+              accountKeys: [{ pubkey: 'funder_wallet', signer: true }],
+              instructions: [{ program: 'system', parsed: { type: 'transfer', info: { source: 'funder_wallet', destination: 'holder_wallet', lamports: 10000000 } } }]
+            }
+          },
+          meta: {}
+        } : null
+      });
+
+      const fundings = await new SolanaRpcProvider().getWalletFunding(['holder_wallet', 'empty_wallet']);
+
+      expect(fundings).toEqual([
+        { wallet: 'holder_wallet', funder: 'funder_wallet', slot: 250000000, fundedAt: new Date(1708387200 * 1000) },
+        { wallet: 'empty_wallet', funder: null, slot: null, fundedAt: null }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,210 @@
+import { PrismaClient } from '@prisma/client';
+import { PaperTradingConfig, PaperTradingService } from '@/services/paper-trading.service';
+
+const HOUR_MS = 60 * 60 * 1000;
+const now = new Date('2024-03-01T12:00:00Z');
+const hoursAgo = (hours: number) => new Date(now.getTime() - hours * HOUR_MS);
+
+const config: PaperTradingConfig = {
+  bankroll: 10000,
+  sizing: { type: 'percent_of_equity', percent: 2 },
+  maxPositionUsd: 1000,
+  minPositionUsd: 10,
+  maxOpenPositions: 10,
+  takeProfitPercent: 100,
+  stopLossPercent: 30,
+  maxHoldHours: 24,
+  entrySignalTypes: ['BUY', 'STRONG_BUY'],
+  exitSignalTypes: ['SELL', 'STRONG_SELL'],
+  minSignalStrength: 0.6,
+  signalMaxAgeMs: HOUR_MS,
+  filterIds: [],
+  maxFilterMatches: 50,
+  pollIntervalMs: 1000
+};
+
+const createTrade = (id: string, tokenId: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  tokenId,
+  action: 'BUY',
+  amount: 100,
+  price: 1,
+  totalValue: 100,
+  status: 'open',
+  executedAt: hoursAgo(2),
+  closedAt: null,
+  entryPrice: 1,
+  exitPrice: null,
+  markPrice: 1,
+  markedAt: hoursAgo(2),
+  pnl: 0,
+  pnlPercentage: 0,
+  exitReason: null,
+  strategyUsed: 'signal:BUY',
+  signalId: null,
+  notes: 'paper',
+  createdAt: hoursAgo(2),
+  updatedAt: hoursAgo(2),
+  token: { address: `${tokenId}_address`, symbol: tokenId.toUpperCase() },
+  ...overrides
+});
+
+describe('PaperTradingService', () => {
+  let prisma: Record<string, Record<string, jest.Mock>>;
+  let openTrades: ReturnType<typeof createTrade>[];
+  let latestPrices: Record<string, number>;
+
+  const createService = (overrides: Partial<PaperTradingConfig> = {}) =>
+    new PaperTradingService(prisma as unknown as PrismaClient, { ...config, ...overrides });
+
+  beforeEach(() => {
+    openTrades = [];
+    latestPrices = {};
+
+    prisma = {
+      trade: {
+        findMany: jest.fn().mockImplementation(args => (args.include ? openTrades : [])),
+        update: jest.fn().mockImplementation(({ where, data }) => ({
+          ...openTrades.find(trade => trade.id === where.id),
+          ...data
+        })),
+        create: jest.fn().mockImplementation(({ data }) => ({
+          ...createTrade('new', data.tokenId),
+          ...data,
+          createdAt: now
+        })),
+        aggregate: jest.fn().mockResolvedValue({ _sum: { pnl: null, totalValue: null }, _count: 0 })
+      },
+      token: {
+        findMany: jest.fn().mockImplementation(({ where }) =>
+          (where.id.in as string[])
+            .filter(id => latestPrices[id] !== undefined)
+            .map(id => ({ id, price: null, priceData: [{ price: latestPrices[id] }] }))
+        )
+      },
+      tradingSignal: { findMany: jest.fn().mockResolvedValue([]) },
+      filter: { findMany: jest.fn().mockResolvedValue([]) }
+    };
+  });
+
+  it('should close positions on take-profit, stop-loss, sell signals and max hold', async () => {
+    openTrades = [
+      createTrade('t_moon', 'moon'),
+      createTrade('t_dump', 'dump'),
+      createTrade('t_sold', 'sold'),
+      createTrade('t_stale', 'stale', { createdAt: hoursAgo(30) }),
+      createTrade('t_hold', 'hold')
+    ];
+    latestPrices = { moon: 2.5, dump: 0.6, sold: 1.1, stale: 1.05, hold: 1.2 };
+    prisma.tradingSignal.findMany.mockImplementation(({ where }) =>
+      where.type.in.includes('SELL') ? [{ tokenId: 'sold', timestamp: hoursAgo(1) }] : []
+    );
+
+    const service = createService();
+    const closed: string[] = [];
+    service.on('position:closed', position => closed.push(`${position.symbol}:${position.exitReason}`));
+
+    const cycle = await service.runCycle(now);
+
+    expect(cycle).toMatchObject({ marked: 5, closed: 4, opened: 0 });
+    expect(closed).toEqual(['MOON:take_profit', 'DUMP:stop_loss', 'SOLD:sell_signal', 'STALE:max_hold']);
+    expect(prisma.trade.update).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 't_hold' },
+      data: { markPrice: 1.2, markedAt: now, pnl: 20, pnlPercentage: 20 }
+    }));
+    expect(prisma.trade.update.mock.calls[1][0].data).toMatchObject({
+      status: 'closed',
+      exitPrice: 0.6,
+      exitReason: 'stop_loss',
+      pnl: -40
+    });
+  });
+
+  it('should open one position per unconsumed signal and strategy', async () => {
+    latestPrices = { tok_a: 0.5, tok_b: 2 };
+    prisma.tradingSignal.findMany.mockResolvedValue([
+      { id: 'sig_1', tokenId: 'tok_a', type: 'STRONG_BUY', strength: 0.9 },
+      { id: 'sig_2', tokenId: 'tok_b', type: 'BUY', strength: 0.8 },
+      { id: 'sig_3', tokenId: 'tok_a', type: 'STRONG_BUY', strength: 0.7 }
+    ]);
+    prisma.trade.findMany.mockImplementation(({ where }) =>
+      where.signalId ? [{ signalId: 'sig_2' }] : []
+    );
+    prisma.trade.aggregate.mockResolvedValue({ _sum: { pnl: 500, totalValue: null }, _count: 0 });
+
+    const service = createService();
+    const cycle = await service.runCycle(now);
+
+    expect(cycle.opened).toBe(1);
+    expect(prisma.trade.create).toHaveBeenCalledTimes(1);
+    expect(prisma.trade.create.mock.calls[0][0].data).toMatchObject({
+      tokenId: 'tok_a',
+      signalId: 'sig_1',
+      strategyUsed: 'signal:STRONG_BUY',
+      price: 0.5,
+      totalValue: 210, // 2% of 10000 bankroll + 500 realized
+      amount: 420,
+      status: 'open'
+    });
+  });
+
+  it('should buy tokens matched by followed filters once', async () => {
+    // More tokens were already bought through the filter than one cycle looks at
+    const matches = Array.from({ length: 60 }, (_, i) => `tok_${i}`);
+    const traded = new Set(matches.slice(0, 59));
+    latestPrices = { tok_59: 1 };
+    prisma.filter.findMany.mockResolvedValue([{
+      id: 'filter_1',
+      criteria: { id: 'root', operator: 'AND', conditions: [{ id: 'c', field: 'market_cap', operator: 'gt', value: 0, label: '' }], groups: [] }
+    }]);
+    prisma.token.findMany.mockImplementation(({ where, select, take }) => {
+      if (select.price) {
+        return (where.id.in as string[]).map(id => ({ id, price: latestPrices[id], priceData: [] }));
+      }
+      const excludesTraded = JSON.stringify(where).includes('"trades":{"none":{"strategyUsed":"filter:filter_1"}}');
+      return matches.filter(id => !(excludesTraded && traded.has(id))).slice(0, take).map(id => ({ id }));
+    });
+
+    const cycle = await createService({ filterIds: ['filter_1'] }).runCycle(now);
+
+    expect(cycle.opened).toBe(1);
+    expect(prisma.trade.create.mock.calls[0][0].data).toMatchObject({ tokenId: 'tok_59', strategyUsed: 'filter:filter_1' });
+  });
+
+  it('should size positions by the configured rule within the limits', () => {
+    expect(createService({ sizing: { type: 'fixed', amountUsd: 250 } }).calculatePositionSize(10000, 10000, 1)).toBe(250);
+    expect(createService({ sizing: { type: 'percent_of_equity', percent: 20 } }).calculatePositionSize(10000, 10000, 1)).toBe(1000);
+    expect(createService({ sizing: { type: 'signal_strength', maxPercent: 5 } }).calculatePositionSize(10000, 10000, 0.5)).toBe(250);
+    expect(createService({ sizing: { type: 'fixed', amountUsd: 250 } }).calculatePositionSize(10000, 120, 1)).toBe(120);
+    expect(createService({ sizing: { type: 'fixed', amountUsd: 250 } }).calculatePositionSize(10000, 5, 1)).toBe(0);
+  });
+
+  it('should report performance per strategy', async () => {
+    prisma.trade.findMany.mockResolvedValue([
+      { strategyUsed: 'signal:BUY', status: 'closed', pnl: 50, pnlPercentage: 50 },
+      { strategyUsed: 'signal:BUY', status: 'closed', pnl: -30, pnlPercentage: -30 },
+      { strategyUsed: 'signal:BUY', status: 'open', pnl: 5, pnlPercentage: 5 },
+      { strategyUsed: 'filter:f1', status: 'closed', pnl: -10, pnlPercentage: -10 }
+    ]);
+
+    const performance = await createService().getStrategyPerformance();
+
+    expect(performance).toEqual([
+      {
+        strategy: 'signal:BUY',
+        trades: 3,
+        openPositions: 1,
+        closedPositions: 2,
+        wins: 1,
+        losses: 1,
+        winRate: 50,
+        realizedPnl: 20,
+        unrealizedPnl: 5,
+        avgReturnPercent: 10,
+        bestReturnPercent: 50,
+        worstReturnPercent: -30
+      },
+      expect.objectContaining({ strategy: 'filter:f1', realizedPnl: -10, winRate: 0 })
+    ]);
+  });
+});
@@ -0,0 +1,194 @@
+import { PrismaClient } from '@prisma/client';
+import {
+  DEFAULT_PIPELINE_JOB_CONFIG,
+  PipelineJobRunner,
+  PipelineJobService,
+  retryDelayMs
+} from '@/services/pipeline-job.service';
+
+const MINT = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+const flushPromises = async (): Promise<void> => {
+  for (let i = 0; i < 50; i++) {
+    await Promise.resolve();
+  }
+};
+
+describe('PipelineJobService', () => {
+  const createJob = (overrides: Record<string, unknown> = {}) => ({
+    id: 'job_1',
+    tokenAddress: MINT,
+    activeKey: MINT,
+    lane: 'scheduled',
+    priority: 0,
+    status: 'pending',
+    stage: null,
+    filters: null,
+    checkpoint: null,
+    attempts: 0,
+    maxAttempts: 3,
+    runAfter: new Date('2024-01-01T00:00:00Z'),
+    error: null,
+    failedStage: null,
+    result: null,
+    requestedBy: null,
+    startedAt: null,
+    completedAt: null,
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+    ...overrides
+  });
+
+  const stageResult = (stage: string) => ({ success: true, filtered: false, data: { stage }, processingTime: 1 });
+
+  let prisma: { pipelineJob: Record<string, jest.Mock> };
+  let runner: PipelineJobRunner & { pipeline: Record<string, jest.Mock>; onAnalysis: jest.Mock };
+  let service: PipelineJobService;
+
+  const updates = () => prisma.pipelineJob.updateMany.mock.calls.map(([args]) => args.data);
+
+  const runJob = async (job: ReturnType<typeof createJob>): Promise<void> => {
+    prisma.pipelineJob.findFirst.mockResolvedValueOnce(job).mockResolvedValue(null);
+    await service.start(runner);
+    await flushPromises();
+    await service.stop();
+  };
+
+  beforeEach(() => {
+    prisma = {
+      pipelineJob: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        findFirst: jest.fn().mockResolvedValue(null),
+        create: jest.fn().mockImplementation(({ data }) => Promise.resolve(createJob(data))),
+        update: jest.fn().mockImplementation(({ data }) => Promise.resolve(createJob(data))),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 })
+      }
+    };
+
+    runner = {
+      pipeline: {
+        runStage: jest.fn().mockImplementation(async (stage: string) => stageResult(stage)),
+        completeAnalysis: jest.fn().mockReturnValue({ passed: true, overallScore: 82, failedFilters: [] }),
+        failAnalysis: jest.fn().mockReturnValue({ passed: false, overallScore: 0, failedFilters: ['rugcheck'] })
+      },
+      filters: {} as PipelineJobRunner['filters'],
+      onAnalysis: jest.fn().mockResolvedValue(undefined)
+    };
+
+    service = new PipelineJobService(prisma as unknown as PrismaClient, {
+      ...DEFAULT_PIPELINE_JOB_CONFIG,
+      maxConcurrentJobs: 1,
+      maxAttempts: 3
+    });
+  });
+
+  describe('enqueue', () => {
+    it('should create one job per valid mint and skip invalid ones', async () => {
+      const jobs = await service.enqueue([MINT, 'not-a-mint'], { lane: 'scheduled' });
+
+      expect(jobs).toHaveLength(1);
+      expect(prisma.pipelineJob.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ tokenAddress: MINT, activeKey: MINT, lane: 'scheduled', priority: 0 })
+      });
+    });
+
+    it('should return the live job and raise it to the manual lane', async () => {
+      prisma.pipelineJob.findUnique.mockResolvedValue(createJob({ status: 'processing' }));
+
+      const [scheduled] = await service.enqueue([MINT], { lane: 'scheduled' });
+      expect(scheduled.id).toBe('job_1');
+      expect(prisma.pipelineJob.update).not.toHaveBeenCalled();
+
+      await service.enqueue([MINT], { lane: 'manual', requestedBy: 'user_1' });
+      expect(prisma.pipelineJob.create).not.toHaveBeenCalled();
+      expect(prisma.pipelineJob.update).toHaveBeenCalledWith({
+        where: { id: 'job_1' },
+        data: { lane: 'manual', priority: 100, requestedBy: 'user_1' }
+      });
+    });
+  });
+
+  describe('running jobs', () => {
+    it('should checkpoint every stage and store the analysis before completing', async () => {
+      const completed = jest.fn();
+      service.on('job:completed', completed);
+
+      await runJob(createJob());
+
+      expect(runner.pipeline.runStage.mock.calls.map(([stage]) => stage)).toEqual(['dexscreener', 'rugcheck', 'jupiter', 'solscan']);
+      expect(updates().filter(data => data.checkpoint && !data.status).map(data => data.stage))
+        .toEqual(['dexscreener', 'rugcheck', 'jupiter', 'solscan']);
+      expect(runner.onAnalysis).toHaveBeenCalledWith(expect.objectContaining({ passed: true }), expect.objectContaining({ id: 'job_1' }));
+      expect(updates().at(-1)).toMatchObject({ status: 'completed', activeKey: null, result: { passed: true, overallScore: 82, failedFilters: [] } });
+      expect(completed).toHaveBeenCalledWith(expect.objectContaining({ jobId: 'job_1', passed: true }));
+    });
+
+    it('should retry the job instead of completing it when storing the analysis fails', async () => {
+      const completed = jest.fn();
+      service.on('job:completed', completed);
+      runner.onAnalysis.mockRejectedValue(new Error('Connection terminated'));
+
+      await runJob(createJob());
+
+      expect(updates().at(-1)).toMatchObject({ status: 'pending', stage: 'solscan', attempts: 1, error: 'Connection terminated' });
+      expect(updates().some(data => data.status === 'completed')).toBe(false);
+      expect(completed).not.toHaveBeenCalled();
+    });
+
+    it('should resume after the last checkpointed stage', async () => {
+      await runJob(createJob({
+        status: 'processing',
+        stage: 'rugcheck',
+        checkpoint: { dexscreener: { stage: 'dexscreener' }, rugcheck: { stage: 'rugcheck' } }
+      }));
+
+      expect(runner.pipeline.runStage.mock.calls.map(([stage]) => stage)).toEqual(['jupiter', 'solscan']);
+      expect(runner.pipeline.completeAnalysis).toHaveBeenCalledWith(MINT, expect.objectContaining({
+        dexscreener: { stage: 'dexscreener' },
+        solscan: { stage: 'solscan' }
+      }));
+    });
+
+    it('should complete a token filtered out by a stage without retrying', async () => {
+      runner.pipeline.runStage.mockImplementation(async (stage: string) => stage === 'rugcheck'
+        ? { success: true, filtered: true, filterReason: 'Risk score too high', processingTime: 1 }
+        : stageResult(stage));
+
+      await runJob(createJob());
+
+      expect(runner.pipeline.failAnalysis).toHaveBeenCalledWith(MINT, 'rugcheck', 'Risk score too high');
+      expect(updates().at(-1)).toMatchObject({ status: 'completed', result: { passed: false } });
+    });
+
+    it('should retry a failed stage with backoff and dead-letter it after maxAttempts', async () => {
+      const dead = jest.fn();
+      service.on('job:dead', dead);
+      runner.pipeline.runStage.mockImplementation(async (stage: string) => stage === 'jupiter'
+        ? { success: false, filtered: true, error: 'Jupiter API unavailable', processingTime: 1 }
+        : stageResult(stage));
+
+      await runJob(createJob());
+
+      expect(updates().at(-1)).toMatchObject({ status: 'pending', stage: 'jupiter', attempts: 1, failedStage: 'jupiter' });
+      expect(runner.onAnalysis).not.toHaveBeenCalled();
+
+      await runJob(createJob({
+        status: 'pending',
+        stage: 'jupiter',
+        attempts: 2,
+        checkpoint: { dexscreener: { stage: 'dexscreener' }, rugcheck: { stage: 'rugcheck' } }
+      }));
+
+      expect(updates().at(-1)).toMatchObject({ status: 'dead', activeKey: null, attempts: 3, error: 'Jupiter API unavailable' });
+      expect(dead).toHaveBeenCalledWith(expect.objectContaining({ jobId: 'job_1', stage: 'jupiter' }));
+    });
+  });
+
+  describe('retryDelayMs', () => {
+    it('should double from the base delay up to the cap', () => {
+      const config = { ...DEFAULT_PIPELINE_JOB_CONFIG, retryBaseDelayMs: 1000, retryMaxDelayMs: 5000 };
+
+      expect([1, 2, 3, 4].map(attempts => retryDelayMs(attempts, config))).toEqual([1000, 2000, 4000, 5000]);
+    });
+  });
+});
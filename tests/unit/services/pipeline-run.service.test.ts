@@ -0,0 +1,147 @@
+import { PrismaClient } from '@prisma/client';
+import {
+  AggregationRun,
+  countRejections,
+  PipelineRunService,
+  rejectionReason
+} from '@/services/pipeline-run.service';
+
+describe('PipelineRunService', () => {
+  const createRun = (overrides: Record<string, unknown> = {}) => ({
+    id: 'run_1',
+    trigger: 'manual',
+    status: 'queued',
+    requestedBy: 'user_1',
+    tokensDiscovered: 0,
+    tokensSkipped: 0,
+    tokensProcessed: 0,
+    tokensPassed: 0,
+    tokensFailed: 0,
+    stageTimings: null,
+    rejections: null,
+    errors: [],
+    startedAt: null,
+    completedAt: null,
+    duration: null,
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+    ...overrides
+  });
+
+  let prisma: {
+    pipelineRun: Record<string, jest.Mock>;
+    pipelineRunToken: Record<string, jest.Mock>;
+    $transaction: jest.Mock;
+  };
+  let service: PipelineRunService;
+
+  beforeEach(() => {
+    prisma = {
+      pipelineRun: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        create: jest.fn().mockImplementation(({ data }) => Promise.resolve(createRun(data))),
+        update: jest.fn().mockResolvedValue({}),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 })
+      },
+      pipelineRunToken: {
+        deleteMany: jest.fn().mockResolvedValue({ count: 0 }),
+        createMany: jest.fn().mockResolvedValue({ count: 0 })
+      },
+      $transaction: jest.fn()
+    };
+    prisma.$transaction.mockImplementation(fn => fn(prisma));
+
+    service = new PipelineRunService(prisma as unknown as PrismaClient);
+  });
+
+  describe('rejections', () => {
+    it('should group failed filters by reason without their measured values', () => {
+      expect(rejectionReason('DEX: Insufficient liquidity: $3200 < $5000')).toBe('DEX: Insufficient liquidity');
+      expect(rejectionReason('Routing: No routing available through Jupiter')).toBe('Routing: No routing available through Jupiter');
+
+      expect(countRejections([
+        { address: 'a', outcome: 'rejected', failedFilters: ['DEX: Insufficient liquidity: $3200 < $5000'] },
+        { address: 'b', outcome: 'rejected', failedFilters: ['DEX: Insufficient liquidity: $10 < $5000', 'Security: Safety score too low: 3 < 6'] },
+        { address: 'c', outcome: 'passed', failedFilters: [] },
+        { address: 'd', outcome: 'skipped', reason: 'already_processed', failedFilters: [] }
+      ])).toEqual({
+        'DEX: Insufficient liquidity': 2,
+        'Security: Safety score too low': 1
+      });
+    });
+  });
+
+  describe('manual runs', () => {
+    it('should return the queued run instead of queueing another', async () => {
+      const first = await service.requestRun('user_1');
+      expect(first.created).toBe(true);
+      expect(prisma.pipelineRun.create).toHaveBeenCalledWith({
+        data: { trigger: 'manual', status: 'queued', requestedBy: 'user_1' }
+      });
+
+      prisma.pipelineRun.findFirst.mockResolvedValue(first.run);
+      const second = await service.requestRun('user_2');
+
+      expect(second).toEqual({ run: first.run, created: false });
+      expect(prisma.pipelineRun.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should claim a queued run only once', async () => {
+      prisma.pipelineRun.findFirst.mockResolvedValue(createRun());
+
+      const claimed = await service.claimRequestedRun();
+      expect(claimed).toMatchObject({ id: 'run_1', status: 'running' });
+      expect(prisma.pipelineRun.updateMany).toHaveBeenCalledWith({
+        where: { id: 'run_1', status: 'queued' },
+        data: { status: 'running', startedAt: expect.any(Date) }
+      });
+
+      prisma.pipelineRun.updateMany.mockResolvedValue({ count: 0 });
+      expect(await service.claimRequestedRun()).toBeNull();
+    });
+  });
+
+  describe('saveRun', () => {
+    it('should store the run summary and replace its token outcomes', async () => {
+      const run: AggregationRun = {
+        id: 'run_1',
+        trigger: 'scheduled',
+        startTime: new Date('2024-01-01T00:00:00Z'),
+        endTime: new Date('2024-01-01T00:00:42Z'),
+        tokensDiscovered: 2,
+        tokensSkipped: 1,
+        tokensProcessed: 2,
+        tokensPassed: 1,
+        tokensFailed: 0,
+        stageTimings: { healthCheck: 120, discovery: 900, processing: 40000, storage: 300 },
+        rejections: { 'DEX: Insufficient volume': 1 },
+        tokens: [
+          { address: 'passed_mint', outcome: 'passed', overallScore: 81, failedFilters: [] },
+          { address: 'rejected_mint', outcome: 'rejected', overallScore: 40, failedFilters: ['DEX: Insufficient volume: $20 < $1000'] },
+          { address: 'known_mint', outcome: 'skipped', reason: 'already_processed', failedFilters: [] }
+        ],
+        errors: [],
+        status: 'completed'
+      };
+
+      await service.saveRun(run);
+
+      expect(prisma.pipelineRun.update).toHaveBeenCalledWith({
+        where: { id: 'run_1' },
+        data: expect.objectContaining({
+          status: 'completed',
+          tokensSkipped: 1,
+          stageTimings: run.stageTimings,
+          rejections: { 'DEX: Insufficient volume': 1 },
+          duration: 42000
+        })
+      });
+      expect(prisma.pipelineRunToken.deleteMany).toHaveBeenCalledWith({ where: { runId: 'run_1' } });
+      expect(prisma.pipelineRunToken.createMany.mock.calls[0][0].data).toEqual([
+        expect.objectContaining({ runId: 'run_1', tokenAddress: 'passed_mint', outcome: 'passed', overallScore: 81 }),
+        expect.objectContaining({ tokenAddress: 'rejected_mint', outcome: 'rejected', failedFilters: ['DEX: Insufficient volume: $20 < $1000'] }),
+        expect.objectContaining({ tokenAddress: 'known_mint', outcome: 'skipped', reason: 'already_processed' })
+      ]);
+    });
+  });
+});
@@ -0,0 +1,209 @@
+import { AddressInfo, createServer, Server, Socket } from 'net';
+import {
+  createRateLimitStore,
+  MemoryRateLimitStore,
+  RateLimitRequest,
+  RateLimitService,
+  RateLimitStore
+} from '@/services/rate-limit';
+
+const now = new Date('2024-03-01T12:00:10Z');
+const secondsFrom = (seconds: number) => new Date(now.getTime() + seconds * 1000);
+
+const request = (overrides: Partial<RateLimitRequest> = {}): RateLimitRequest => ({
+  identity: 'key:key_1',
+  tier: 'free',
+  method: 'GET',
+  path: '/api/v1/tokens',
+  ...overrides
+});
+
+// Just enough RESP to serve MULTI / SET NX PX / INCRBY / EXEC and QUIT, like a local redis-server would
+function startRedisStub(): Promise<{ server: Server; url: string; commands: string[][] }> {
+  const commands: string[][] = [];
+  const values = new Map<string, { value: number; expiresAt: number }>();
+
+  const execute = ([name, key, ...args]: string[]): string => {
+    const entry = values.get(key);
+    const live = entry && entry.expiresAt > Date.now() ? entry : undefined;
+
+    switch (name.toUpperCase()) {
+      case 'SET': {
+        if (live) return '$-1\r\n';
+        values.set(key, { value: Number(args[0]), expiresAt: Date.now() + Number(args[2]) });
+        return '+OK\r\n';
+      }
+      case 'INCRBY': {
+        const next = (live?.value ?? 0) + Number(args[0]);
+        values.set(key, { value: next, expiresAt: live?.expiresAt ?? Infinity });
+        return `:${next}\r\n`;
+      }
+      default:
+        return '+OK\r\n';
+    }
+  };
+
+  const server = createServer((socket: Socket) => {
+    let buffer = '';
+    let queued: string[][] | null = null;
+
+    socket.on('data', chunk => {
+      buffer += chunk.toString();
+
+      for (;;) {
+        const lines = buffer.split('\r\n');
+        if (!lines[0].startsWith('*')) return;
+        const argc = Number(lines[0].slice(1));
+        if (lines.length < 1 + argc * 2 + 1) return;
+
+        const command = Array.from({ length: argc }, (_, i) => lines[2 + i * 2]);
+        buffer = lines.slice(1 + argc * 2).join('\r\n');
+        commands.push(command);
+
+        const name = command[0].toUpperCase();
+        if (name === 'QUIT') {
+          socket.end('+OK\r\n');
+          return;
+        } else if (name === 'INFO') {
+          const info = '# Server\r\nredis_version:7.2.0\r\nloading:0';
+          socket.write(`$${info.length}\r\n${info}\r\n`);
+        } else if (name === 'MULTI') {
+          queued = [];
+          socket.write('+OK\r\n');
+        } else if (name === 'EXEC') {
+          const replies = (queued ?? []).map(execute);
+          queued = null;
+          socket.write(`*${replies.length}\r\n${replies.join('')}`);
+        } else if (queued) {
+          queued.push(command);
+          socket.write('+QUEUED\r\n');
+        } else {
+          socket.write(execute(command));
+        }
+      }
+    });
+  });
+
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => {
+    const { port } = server.address() as AddressInfo;
+    resolve({ server, url: `redis://127.0.0.1:${port}`, commands });
+  }));
+}
+
+describe('RateLimitService', () => {
+  let clock = now.getTime();
+  let service: RateLimitService;
+
+  beforeEach(() => {
+    clock = now.getTime();
+    service = new RateLimitService(new MemoryRateLimitStore(() => clock));
+  });
+
+  it('should limit each tier to its own allowance and report what is left', async () => {
+    for (let i = 0; i < 119; i++) {
+      await service.consume(request(), now);
+    }
+
+    await expect(service.consume(request(), now)).resolves.toMatchObject({
+      allowed: true,
+      group: 'standard',
+      limit: 120,
+      remaining: 0,
+      resetAt: new Date('2024-03-01T12:01:00Z')
+    });
+    await expect(service.consume(request(), now)).resolves.toMatchObject({ allowed: false, remaining: 0 });
+
+    // Other keys and tiers have their own buckets
+    await expect(service.consume(request({ identity: 'key:key_2', tier: 'premium' }), now))
+      .resolves.toMatchObject({ allowed: true, limit: 600, remaining: 599 });
+    await expect(service.consume(request({ identity: 'ip:10.0.0.1', tier: 'anonymous' }), now))
+      .resolves.toMatchObject({ allowed: true, limit: 60, remaining: 59 });
+  });
+
+  it('should keep separate buckets per route group and weight expensive endpoints', async () => {
+    await service.consume(request(), now);
+
+    await expect(service.consume(request({ method: 'POST', path: '/api/v1/export/tokens' }), now)).resolves.toMatchObject({
+      group: 'export',
+      cost: 10,
+      limit: 60,
+      remaining: 50,
+      resetAt: new Date('2024-03-01T12:15:00Z')
+    });
+    await expect(service.consume(request({ path: '/api/v1/export/status/job_1' }), now))
+      .resolves.toMatchObject({ group: 'export', cost: 1, remaining: 49 });
+    await expect(service.consume(request({ path: '/api/v1/analytics/correlation' }), now))
+      .resolves.toMatchObject({ group: 'analytics', cost: 10, remaining: 30 });
+    await expect(service.consume(request({ path: '/api/v1/tokens/' }), now))
+      .resolves.toMatchObject({ group: 'standard', remaining: 118 });
+
+    // Express matches routes case-insensitively, so a mixed-case path hits the same bucket
+    await expect(service.consume(request({ method: 'POST', path: '/API/V1/Export/tokens' }), now))
+      .resolves.toMatchObject({ group: 'export', cost: 10, remaining: 39 });
+
+    // A request costing more than what is left is rejected
+    for (let i = 0; i < 3; i++) {
+      await service.consume(request({ path: '/api/v1/analytics/correlation' }), now);
+    }
+    await expect(service.consume(request({ path: '/api/v1/analytics/correlation' }), now))
+      .resolves.toMatchObject({ allowed: false });
+  });
+
+  it('should start a new window and skip exempt or unknown paths', async () => {
+    for (let i = 0; i < 4; i++) {
+      await service.consume(request({ method: 'POST', path: '/api/v1/backtests' }), now);
+    }
+    await expect(service.consume(request({ method: 'POST', path: '/api/v1/backtests' }), now))
+      .resolves.toMatchObject({ allowed: false });
+
+    clock = secondsFrom(50).getTime();
+    await expect(service.consume(request({ method: 'POST', path: '/api/v1/backtests' }), secondsFrom(50)))
+      .resolves.toMatchObject({ allowed: true, remaining: 30 });
+
+    await expect(service.consume(request({ path: '/api/v1/health' }), now)).resolves.toBeNull();
+    await expect(service.consume(request({ path: '/health' }), now)).resolves.toBeNull();
+  });
+
+  it('should cut an IP off after too many failed API key authentications', async () => {
+    for (let i = 0; i < 19; i++) {
+      await service.recordAuthFailure('10.0.0.1', now);
+    }
+
+    await expect(service.checkAuthFailures('10.0.0.1', now)).resolves.toMatchObject({ allowed: true, group: 'auth', remaining: 1 });
+    await expect(service.recordAuthFailure('10.0.0.1', now)).resolves.toMatchObject({ allowed: true, remaining: 0 });
+    await expect(service.checkAuthFailures('10.0.0.1', now)).resolves.toMatchObject({
+      allowed: false,
+      resetAt: new Date('2024-03-01T12:15:00Z')
+    });
+    await expect(service.checkAuthFailures('10.0.0.2', now)).resolves.toMatchObject({ allowed: true, remaining: 20 });
+  });
+
+  it('should share counters between processes through Redis', async () => {
+    // ioredis schedules its connection handling on timers
+    jest.useRealTimers();
+    const { server, url, commands } = await startRedisStub();
+    const stores: RateLimitStore[] = [
+      createRateLimitStore({ RATE_LIMIT_STORE: 'redis', RATE_LIMIT_REDIS_URL: url }),
+      createRateLimitStore({ RATE_LIMIT_STORE: 'redis', RATE_LIMIT_REDIS_URL: url })
+    ];
+    const [first, second] = stores.map(store => new RateLimitService(store));
+
+    try {
+      await expect(first.consume(request({ method: 'POST', path: '/api/v1/export/tokens' }), now))
+        .resolves.toMatchObject({ remaining: 50 });
+      await expect(second.consume(request({ method: 'POST', path: '/api/v1/export/tokens' }), now))
+        .resolves.toMatchObject({ remaining: 40 });
+
+      const windowStart = Date.parse('2024-03-01T12:00:00Z');
+      expect(commands).toContainEqual(['set', `ratelimit:export:key:key_1:${windowStart}`, '0', 'PX', String(890 * 1000), 'NX']);
+      expect(commands).toContainEqual(['incrby', `ratelimit:export:key:key_1:${windowStart}`, '10']);
+    } finally {
+      await Promise.all([first.close(), second.close()]);
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+
+  it('should reject unknown stores', () => {
+    expect(() => createRateLimitStore({ RATE_LIMIT_STORE: 'memcached' })).toThrow('Unknown rate limit store: memcached');
+  });
+});
@@ -0,0 +1,211 @@
+import axios from 'axios';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PrismaClient } from '@prisma/client';
+import { FixtureOnChainProvider } from '@/services/onchain';
+import { RugCheckService } from '@/services/rugcheck.service';
+import {
+  DEFAULT_SCORING_PROFILE,
+  parseScoringProfile,
+  RescoringService,
+  scoreAnalysis,
+  scoreSecurity,
+  ScoringInputs,
+  ScoringProfile,
+  ScoringProfileService
+} from '@/services/scoring';
+import { globalCache } from '@/utils/cache';
+
+jest.mock('axios');
+
+const inputs = (overrides: Partial<ScoringInputs> = {}): ScoringInputs => ({
+  liquidity: 20000,
+  volume24h: 8000,
+  marketCap: 150000,
+  ageHours: 6,
+  mintAuthority: false,
+  freezeAuthority: false,
+  holderConcentration: 45,
+  liquidityLocked: true,
+  suspiciousName: false,
+  honeypotRisk: 'none',
+  routingAvailable: true,
+  slippageEstimate: 7,
+  blacklisted: false,
+  routeCount: 3,
+  creatorTokens: 4,
+  creatorRugs: 1,
+  topHoldersPercentage: 50,
+  effectiveTopHoldersPercentage: 55,
+  clusteredSupplyPercentage: 5,
+  ...overrides
+});
+
+// Security-heavy candidate that drops routing and creator components
+const candidate: ScoringProfile = {
+  ...DEFAULT_SCORING_PROFILE,
+  version: 'security-heavy-v2',
+  components: {
+    dexScreener: DEFAULT_SCORING_PROFILE.components.dexScreener,
+    rugCheck: { ...DEFAULT_SCORING_PROFILE.components.rugCheck, weight: 70 },
+    momentum: { weight: 5, base: 0, rules: [] }
+  },
+  security: {
+    ...DEFAULT_SCORING_PROFILE.security,
+    holderConcentration: [{ abovePercent: 30, points: 4, severity: 'risk' }]
+  }
+};
+
+describe('Scoring profiles', () => {
+  describe('scoreAnalysis', () => {
+    it('should reproduce the original pipeline weights with the default profile', () => {
+      const { overallScore, scoring } = scoreAnalysis(inputs(), DEFAULT_SCORING_PROFILE);
+
+      expect(overallScore).toBeCloseTo(89.5); // 100*.25 + 90*.35 + 90*.2 + 75*.2
+      expect(scoring.profileVersion).toBe('default-v2');
+      expect(scoring.safetyScore).toBe(9);
+      expect(scoring.components.dexScreener).toMatchObject({ score: 100, weight: 25, contribution: 25 });
+      expect(scoring.components.rugCheck.score).toBe(90);
+      expect(scoring.components.jupiter.matchedRules).toEqual([
+        { id: 'routing', points: 60 },
+        { id: 'slippage', points: 15 },
+        { id: 'not_blacklisted', points: 15 }
+      ]);
+      expect(scoring.components.solscan).toMatchObject({ score: 75, contribution: 15 });
+    });
+
+    it('should normalise weights and apply the candidate security penalties', () => {
+      const { overallScore, scoring } = scoreAnalysis(inputs(), candidate);
+
+      expect(scoring.safetyScore).toBe(6);
+      expect(scoring.safetyPenalties).toEqual([{ check: 'holderConcentration', points: 4, severity: 'risk' }]);
+      expect(overallScore).toBeCloseTo((100 * 25 + 60 * 70) / 100);
+    });
+  });
+
+  it('should deduct security penalties in check order and floor at zero', () => {
+    const result = scoreSecurity(inputs({
+      mintAuthority: true,
+      freezeAuthority: true,
+      holderConcentration: 80,
+      liquidityLocked: false,
+      honeypotRisk: 'high'
+    }), DEFAULT_SCORING_PROFILE.security);
+
+    expect(result.safetyScore).toBe(0);
+    expect(result.penalties.map(penalty => [penalty.check, penalty.points])).toEqual([
+      ['mintAuthority', 2],
+      ['freezeAuthority', 2],
+      ['holderConcentration', 3],
+      ['liquidityUnlocked', 3],
+      ['honeypot', 5]
+    ]);
+  });
+
+  it('should reject profiles that score unknown fields', () => {
+    const invalid = {
+      ...DEFAULT_SCORING_PROFILE,
+      components: { dex: { weight: 10, base: 0, rules: [{ id: 'x', steps: [{ when: [{ field: 'holders', operator: 'gt', value: 1 }], points: 5 }] }] } }
+    };
+
+    expect(() => parseScoringProfile(invalid, 'test')).toThrow('Invalid scoring profile from test: components.dex.rules.0.steps.0.when.0.field');
+  });
+
+  describe('ScoringProfileService', () => {
+    const profileFile = (profile: unknown) => {
+      const path = join(mkdtempSync(join(tmpdir(), 'scoring-')), 'profile.json');
+      writeFileSync(path, JSON.stringify(profile));
+      return path;
+    };
+
+    it('should prefer SystemConfig over the profile file and keep the last good profile', async () => {
+      const findUnique = jest.fn().mockResolvedValue({ key: 'scoring_profile', value: candidate });
+      const prisma = { systemConfig: { findUnique } } as unknown as PrismaClient;
+      const service = new ScoringProfileService(profileFile({ ...DEFAULT_SCORING_PROFILE, version: 'file-v1' }));
+
+      expect(service.getActiveProfile().version).toBe('file-v1');
+      await expect(service.refresh(prisma)).resolves.toMatchObject({ version: 'security-heavy-v2' });
+
+      findUnique.mockResolvedValue({ key: 'scoring_profile', value: { version: 'broken' } });
+      await service.refresh(prisma);
+      expect(service.getActiveProfile().version).toBe('security-heavy-v2');
+
+      findUnique.mockResolvedValue(null);
+      await service.refresh(prisma);
+      expect(service.getActiveProfile().version).toBe('file-v1');
+    });
+
+    it('should fall back to the default profile when the file is invalid', () => {
+      const service = new ScoringProfileService(profileFile({ version: 'no-components' }));
+
+      expect(service.getActiveProfile()).toBe(DEFAULT_SCORING_PROFILE);
+    });
+  });
+
+  it('should score RugCheck results with the active profile penalties', async () => {
+    (axios.create as jest.Mock).mockReturnValue({
+      get: jest.fn().mockRejectedValue(new Error('API unavailable')),
+      interceptors: { request: { use: jest.fn() }, response: { use: jest.fn() } }
+    });
+    globalCache.clear();
+
+    const mint = 'ScoreMint11111111111111111111111111111111111';
+    const strict: ScoringProfile = {
+      ...DEFAULT_SCORING_PROFILE,
+      version: 'strict-mint',
+      security: { ...DEFAULT_SCORING_PROFILE.security, penalties: { ...DEFAULT_SCORING_PROFILE.security.penalties, mintAuthority: 6 } }
+    };
+    const service = new RugCheckService(new FixtureOnChainProvider({
+      [mint]: {
+        mint: { address: mint, decimals: 6, supply: '1000', mintAuthority: 'authority', freezeAuthority: null },
+        holders: Array.from({ length: 20 }, (_, i) => ({ address: `account_${i}`, owner: `owner_${i}`, amount: '20', decimals: 6 })),
+        liquidity: { poolAddress: 'pool', lpMint: 'lp', locked: true, percentage: 100 }
+      }
+    }), undefined, { getActiveProfile: () => strict });
+
+    const result = await service.analyzeToken(mint);
+
+    expect(result.data?.safetyScore).toBe(4);
+    expect(result.data?.risks).toEqual(['Mint authority not renounced - unlimited minting possible']);
+  });
+
+  it('should compare the latest stored analysis per token under both profiles', async () => {
+    const row = (tokenId: string, score: number, overrides: Partial<ScoringInputs>) => ({
+      tokenId,
+      score,
+      data: { profileVersion: 'default-v2', inputs: inputs(overrides) },
+      token: { address: `${tokenId}_address` }
+    });
+    const prisma = {
+      systemConfig: { findUnique: jest.fn().mockResolvedValue(null) },
+      tokenAnalysis: {
+        findMany: jest.fn().mockResolvedValue([
+          row('token_a', 89.5, {}),
+          row('token_a', 50, { liquidityLocked: false }),
+          row('token_b', 80, { holderConcentration: 20 })
+        ])
+      }
+    };
+
+    const comparison = await new RescoringService(
+      prisma as unknown as PrismaClient,
+      new ScoringProfileService(undefined)
+    ).rescore(candidate, { limit: 100 });
+
+    expect(prisma.tokenAnalysis.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { analysisType: 'overall_score', timestamp: { gte: undefined, lte: undefined } },
+      orderBy: { timestamp: 'desc' },
+      take: 100
+    }));
+    expect(comparison).toMatchObject({
+      sampleSize: 2,
+      storedVersions: { 'default-v2': 2 },
+      baseline: { version: 'default-v2', distribution: { count: 2 } },
+      candidate: { version: 'security-heavy-v2', distribution: { count: 2 } },
+      changes: { raised: 1, lowered: 1, unchanged: 0 }
+    });
+    expect(comparison.largestChanges[0]).toMatchObject({ address: 'token_a_address', storedScore: 89.5, baselineScore: 89.5 });
+    expect(comparison.largestChanges[0].candidateScore).toBeCloseTo(67);
+  });
+});
@@ -0,0 +1,161 @@
+import { PrismaClient } from '@prisma/client';
+import { SignalService } from '@/services/signal.service';
+import { CombinedTokenAnalysis, HoneypotRiskLevel } from '@/types/api.types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const now = new Date('2024-03-01T12:00:00Z');
+const hoursAgo = (hours: number) => new Date(now.getTime() - hours * HOUR_MS);
+
+const createAnalysis = (dex: Partial<CombinedTokenAnalysis['dexScreener']> = {}, safetyScore = 7, honeypotRisk: HoneypotRiskLevel = 'none') => ({
+  address: 'token_address',
+  dexScreener: {
+    address: 'token_address',
+    symbol: 'TKN',
+    name: 'Token',
+    launchTimestamp: 0,
+    price: 1,
+    marketCap: 100000,
+    volume24h: 50000,
+    liquidity: 20000,
+    age: 6,
+    filtered: false,
+    ...dex
+  },
+  rugCheck: { safetyScore, honeypotRisk },
+  overallScore: 70,
+  passed: true,
+  failedFilters: [],
+  timestamp: now
+}) as unknown as CombinedTokenAnalysis;
+
+const txns = (h1: [number, number], m5: [number, number]) => ({
+  m5: { buys: m5[0], sells: m5[1] },
+  h1: { buys: h1[0], sells: h1[1] },
+  h6: { buys: 0, sells: 0 },
+  h24: { buys: 0, sells: 0 }
+});
+
+describe('SignalService', () => {
+  let prisma: Record<string, Record<string, jest.Mock>>;
+  let service: SignalService;
+
+  beforeEach(() => {
+    prisma = {
+      tradingSignal: { findMany: jest.fn(), update: jest.fn(), groupBy: jest.fn(), count: jest.fn() },
+      priceData: { findMany: jest.fn() }
+    };
+    service = new SignalService(prisma as unknown as PrismaClient);
+  });
+
+  describe('generateSignal', () => {
+    it('should emit STRONG_BUY on rising price, buy pressure and growing liquidity', () => {
+      const signal = service.generateSignal(createAnalysis({
+        liquidity: 30000,
+        priceChange: { m5: 8, h1: 40, h6: 60, h24: 80 },
+        txns: txns([180, 60], [30, 10])
+      }), { liquidity: 20000, safetyScore: 70 });
+
+      expect(signal).toMatchObject({
+        type: 'STRONG_BUY',
+        components: { momentum: 1, flow: 0.5, liquidity: 1, safety: 0 }
+      });
+      expect(signal.strength).toBeCloseTo(0.7);
+      expect(signal.reason).toBe('Price +40.0% 1h, +8.0% 5m; 180 buys / 60 sells 1h; liquidity +50.0%');
+    });
+
+    it('should emit SELL when sellers dominate a falling price', () => {
+      const signal = service.generateSignal(createAnalysis({
+        priceChange: { m5: -5, h1: -20, h6: -30, h24: -10 },
+        txns: txns([20, 80], [2, 18])
+      }), null);
+
+      expect(signal.type).toBe('SELL');
+      expect(signal.score).toBeLessThan(-0.2);
+    });
+
+    it('should ignore order flow below the transaction minimum and hold on flat data', () => {
+      const signal = service.generateSignal(createAnalysis({
+        priceChange: { m5: 0.5, h1: 1, h6: 2, h24: 3 },
+        txns: txns([4, 1], [1, 0])
+      }), { liquidity: 20000, safetyScore: 70 });
+
+      expect(signal.components.flow).toBe(0);
+      expect(signal.type).toBe('HOLD');
+      expect(signal.strength).toBeGreaterThan(0.8);
+    });
+
+    it('should force STRONG_SELL on a liquidity pull or safety collapse', () => {
+      const pulled = service.generateSignal(createAnalysis({
+        liquidity: 4000,
+        priceChange: { m5: 10, h1: 50, h6: 0, h24: 0 },
+        txns: txns([300, 10], [50, 1])
+      }), { liquidity: 20000, safetyScore: 70 });
+
+      expect(pulled).toMatchObject({ type: 'STRONG_SELL', strength: 1, reason: 'Liquidity pulled -80.0%' });
+      expect(service.generateSignal(createAnalysis({}, 3), { liquidity: 20000, safetyScore: 80 }).reason).toBe('Safety dropped 50 pts');
+      expect(service.generateSignal(createAnalysis({}, 7, 'high'), null).type).toBe('STRONG_SELL');
+    });
+  });
+
+  describe('evaluateSignals', () => {
+    it('should score signals against the first price past the horizon', async () => {
+      prisma.tradingSignal.findMany.mockResolvedValue([
+        { id: 'buy_up', tokenId: 'tok_1', type: 'BUY', price: 1, timestamp: hoursAgo(10) },
+        { id: 'sell_up', tokenId: 'tok_2', type: 'SELL', price: 2, timestamp: hoursAgo(10) },
+        { id: 'waiting', tokenId: 'tok_3', type: 'BUY', price: 1, timestamp: hoursAgo(6) },
+        { id: 'no_data', tokenId: 'tok_4', type: 'HOLD', price: 1, timestamp: hoursAgo(30) }
+      ]);
+      prisma.priceData.findMany.mockImplementation(({ where }) => ({
+        tok_1: [{ price: 1.1, timestamp: hoursAgo(8) }, { price: 1.5, timestamp: hoursAgo(5) }, { price: 0.5, timestamp: hoursAgo(1) }],
+        tok_2: [{ price: 2.4, timestamp: hoursAgo(4) }],
+        tok_3: [{ price: 0.9, timestamp: hoursAgo(5) }],
+        tok_4: []
+      } as Record<string, unknown[]>)[where.tokenId]);
+
+      const evaluated = await service.evaluateSignals(now);
+
+      expect(evaluated).toBe(3);
+      expect(prisma.tradingSignal.update.mock.calls.map(([args]) => [args.where.id, args.data])).toEqual([
+        ['buy_up', { evaluatedAt: now, outcomePrice: 1.5, outcomeReturn: 50, correct: true }],
+        ['sell_up', { evaluatedAt: now, outcomePrice: 2.4, outcomeReturn: 20, correct: false }],
+        ['no_data', { evaluatedAt: now, outcomePrice: null, outcomeReturn: null, correct: null }]
+      ]);
+    });
+
+    it('should judge holds against the hold band', () => {
+      expect(service.isCorrect('HOLD', 8)).toBe(true);
+      expect(service.isCorrect('HOLD', -15)).toBe(false);
+      expect(service.isCorrect('STRONG_SELL', -60)).toBe(true);
+    });
+  });
+
+  it('should build the overview from stored signals and their outcomes', async () => {
+    prisma.tradingSignal.groupBy
+      .mockResolvedValueOnce([
+        { type: 'BUY', _count: { _all: 6 } },
+        { type: 'SELL', _count: { _all: 2 } },
+        { type: 'HOLD', _count: { _all: 4 } }
+      ])
+      .mockResolvedValueOnce([
+        { type: 'BUY', correct: true, _count: { _all: 3 }, _avg: { outcomeReturn: 40 } },
+        { type: 'BUY', correct: false, _count: { _all: 1 }, _avg: { outcomeReturn: -20 } },
+        { type: 'SELL', correct: true, _count: { _all: 1 }, _avg: { outcomeReturn: -50 } }
+      ]);
+    prisma.tradingSignal.count.mockResolvedValue(7);
+    prisma.tradingSignal.findMany.mockResolvedValue([]);
+
+    const overview = await service.getOverview({ period: '24h', chain: 'solana' }, now);
+
+    expect(overview).toMatchObject({
+      totalSignals: 12,
+      evaluatedSignals: 5,
+      pendingSignals: 7,
+      signalBreakdown: { BUY: 6, SELL: 2, HOLD: 4, STRONG_BUY: 0, STRONG_SELL: 0 },
+      accuracy: { overall: 80, byType: { BUY: 75, SELL: 100, HOLD: null } },
+      averageReturn: { BUY: 25, SELL: -50 }
+    });
+    expect(prisma.tradingSignal.count).toHaveBeenCalledWith({
+      where: { timestamp: { gte: hoursAgo(24) }, token: { chain: 'solana' }, evaluatedAt: null }
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import axios from 'axios';
+import { JupiterService, maxTradableSize } from '@/services/jupiter.service';
+import { SlippageCurvePoint } from '@/types/api.types';
+import { globalCache } from '@/utils/cache';
+
+jest.mock('axios');
+
+const MINT = 'CurveMint1111111111111111111111111111111111';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const TOKENS_PER_USD = 1000;
+
+const client = {
+  get: jest.fn(),
+  interceptors: { request: { use: jest.fn() }, response: { use: jest.fn() } }
+};
+
+type QuoteParams = { params: Record<string, string> };
+
+// Impact grows 1% per $1000 bought and 2% per $1000 sold; sells above $5000 have no route
+const quote = (url: string, config?: QuoteParams) => {
+  if (url === '/tokens') return Promise.resolve({ data: [] });
+
+  const { inputMint, amount } = config!.params;
+  if (inputMint === USDC) {
+    const sizeUsd = Number(amount) / 1000000;
+    const impact = sizeUsd / 100000;
+    return Promise.resolve({ data: { outAmount: String(Math.round(sizeUsd * TOKENS_PER_USD * (1 - impact))), priceImpactPct: String(impact) } });
+  }
+
+  const sizeUsd = Number(amount) / TOKENS_PER_USD;
+  if (sizeUsd > 5000) {
+    return Promise.reject(Object.assign(new Error('Request failed with status code 400'), { response: { status: 400 } }));
+  }
+  const impact = sizeUsd / 50000;
+  return Promise.resolve({ data: { outAmount: String(Math.round(sizeUsd * (1 - impact) * 1000000)), priceImpactPct: String(impact) } });
+};
+
+describe('Slippage curve', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    globalCache.clear();
+    (axios.create as jest.Mock).mockReturnValue(client);
+    client.get.mockImplementation(quote);
+  });
+
+  describe('maxTradableSize', () => {
+    const curve: SlippageCurvePoint[] = [
+      { sizeUsd: 100, buyImpactPercent: 0.5, sellImpactPercent: 1 },
+      { sizeUsd: 1000, buyImpactPercent: 1.5, sellImpactPercent: 4 },
+      { sizeUsd: 10000, buyImpactPercent: 8, sellImpactPercent: null }
+    ];
+
+    it('should interpolate between ladder sizes', () => {
+      expect(maxTradableSize(curve, 1, 'buy')).toBe(550);
+      expect(maxTradableSize(curve, 2, 'sell')).toBe(400);
+      expect(maxTradableSize(curve, 2)).toBe(400);
+    });
+
+    it('should stop at the last routable size and cap at the top of the ladder', () => {
+      expect(maxTradableSize(curve, 10, 'sell')).toBe(1000);
+      expect(maxTradableSize(curve, 10, 'buy')).toBe(10000);
+      expect(maxTradableSize([], 5)).toBe(0);
+    });
+  });
+
+  describe('JupiterService.analyzeToken', () => {
+    it('should quote the ladder on both sides and derive depth per impact level', async () => {
+      const result = await new JupiterService().analyzeToken(MINT);
+      const data = result.data!;
+
+      expect(data.slippageCurve.map(point => point.sizeUsd)).toEqual([50, 100, 250, 500, 1000, 2500, 5000, 10000]);
+      expect(data.slippageCurve[4].buyImpactPercent).toBeCloseTo(1);
+      expect(data.slippageCurve[4].sellImpactPercent).toBeCloseTo(2, 1);
+      expect(data.slippageCurve[7].sellImpactPercent).toBeNull();
+      expect(data.slippageEstimate).toBeCloseTo(0.5);
+      expect(data.depthAtImpact).toEqual([
+        { impactPercent: 1, buyUsd: 1000, sellUsd: expect.any(Number) },
+        { impactPercent: 2, buyUsd: 2000, sellUsd: expect.any(Number) },
+        { impactPercent: 5, buyUsd: 5000, sellUsd: 2500 },
+        { impactPercent: 10, buyUsd: 10000, sellUsd: 5000 }
+      ]);
+      expect(data.depthAtImpact[1].sellUsd).toBeGreaterThanOrEqual(990);
+      expect(data.depthAtImpact[1].sellUsd).toBeLessThanOrEqual(1010);
+    });
+
+    it('should filter tokens that cannot absorb the minimum size within the impact limit', async () => {
+      const service = new JupiterService();
+
+      const shallow = await service.analyzeToken(MINT, { minTradableSizeUsd: 3000, maxTradeImpact: 5 });
+      expect(shallow.data?.filtered).toBe(true);
+      expect(shallow.data?.filterReason).toBe('Only $2500 tradable within 5% impact < $3000');
+
+      globalCache.clear();
+      const deep = await service.analyzeToken(MINT, { minTradableSizeUsd: 2000, maxTradeImpact: 5 });
+      expect(deep.data?.filtered).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import { PrismaClient } from '@prisma/client';
+import { DexScreenerPair } from '@/types/api.types';
+import {
+  buildTokenMarketView,
+  DEFAULT_TOKEN_MARKET_CONFIG,
+  detectPoolChanges,
+  StoredPool,
+  TokenMarketService
+} from '@/services/token-market.service';
+
+const now = new Date('2024-03-01T12:00:00Z');
+const config = DEFAULT_TOKEN_MARKET_CONFIG;
+
+const pair = (pairAddress: string, dexId: string, liquidity: number, volume: number, price: string): DexScreenerPair => ({
+  chainId: 'solana',
+  dexId,
+  url: `https://dexscreener.com/solana/${pairAddress}`,
+  pairAddress,
+  baseToken: { address: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263', name: 'Bonk', symbol: 'BONK' },
+  quoteToken: { address: 'So11111111111111111111111111111111111111112', name: 'Wrapped SOL', symbol: 'SOL' },
+  priceNative: '0',
+  priceUsd: price,
+  txns: { m5: { buys: 1, sells: 1 }, h1: { buys: 10, sells: 5 }, h6: { buys: 40, sells: 20 }, h24: { buys: 100, sells: 50 } },
+  volume: { h24: volume, h6: 0, h1: 0, m5: 0 },
+  priceChange: { m5: 0, h1: 0, h6: 0, h24: 0 },
+  liquidity: { usd: liquidity, base: 0, quote: 0 },
+  pairCreatedAt: 1709200000000
+});
+
+const stored = (pairAddress: string, dexId: string, liquidity: number, removedAt: Date | null = null): StoredPool =>
+  ({ pairAddress, dexId, liquidity, removedAt });
+
+describe('TokenMarketService', () => {
+  describe('buildTokenMarketView', () => {
+    it('should merge pools into totals, per-DEX liquidity and a volume-weighted price', () => {
+      const view = buildTokenMarketView([
+        pair('meteora_1', 'meteora', 20000, 30000, '1.10'),
+        pair('raydium_1', 'raydium', 80000, 10000, '1.00'),
+        pair('raydium_2', 'raydium', 5000, 0, '0.90')
+      ]);
+
+      expect(view.pools.map(pool => pool.pairAddress)).toEqual(['raydium_1', 'meteora_1', 'raydium_2']);
+      expect(view.totalLiquidity).toBe(105000);
+      expect(view.liquidityByDex).toEqual({ raydium: 85000, meteora: 20000 });
+      expect(view.totalVolume24h).toBe(40000);
+      expect(view.volumeWeightedPrice).toBeCloseTo(1.075);
+      expect(view.dominantPair).toBe('raydium_1');
+    });
+
+    it('should fall back to liquidity weighting when nothing traded', () => {
+      const view = buildTokenMarketView([
+        pair('raydium_1', 'raydium', 30000, 0, '1.00'),
+        pair('meteora_1', 'meteora', 10000, 0, '2.00')
+      ]);
+
+      expect(view.volumeWeightedPrice).toBeCloseTo(1.25);
+    });
+  });
+
+  describe('detectPoolChanges', () => {
+    const view = (...pairs: DexScreenerPair[]) => buildTokenMarketView(pairs);
+
+    it('should only record pools on the first observation', () => {
+      expect(detectPoolChanges([], view(pair('raydium_1', 'raydium', 80000, 0, '1')), config)).toEqual([]);
+    });
+
+    it('should tell a new pool on another DEX from one on a known DEX', () => {
+      const changes = detectPoolChanges(
+        [stored('raydium_1', 'raydium', 80000)],
+        view(
+          pair('raydium_1', 'raydium', 80000, 0, '1'),
+          pair('raydium_2', 'raydium', 5000, 0, '1'),
+          pair('meteora_1', 'meteora', 20000, 0, '1'),
+          pair('orca_dust', 'orca', 200, 0, '1')
+        ),
+        config
+      );
+
+      expect(changes.map(change => [change.kind, change.pairAddress])).toEqual([
+        ['new_dex_pool', 'meteora_1'],
+        ['pool_added', 'raydium_2']
+      ]);
+    });
+
+    it('should report the main pool draining or disappearing', () => {
+      const previous = [stored('raydium_1', 'raydium', 80000), stored('meteora_1', 'meteora', 20000), stored('orca_1', 'orca', 3000)];
+
+      const drained = detectPoolChanges(previous, view(
+        pair('raydium_1', 'raydium', 8000, 0, '1'),
+        pair('meteora_1', 'meteora', 20000, 0, '1')
+      ), config);
+      expect(drained.map(change => change.kind)).toEqual(['pool_removed', 'main_pool_drained']);
+      expect(drained[1]).toMatchObject({ pairAddress: 'raydium_1', metrics: { dropPercent: 90 } });
+
+      const gone = detectPoolChanges(previous, view(
+        pair('meteora_1', 'meteora', 20000, 0, '1'),
+        pair('orca_1', 'orca', 3000, 0, '1')
+      ), config);
+      expect(gone).toEqual([expect.objectContaining({
+        kind: 'main_pool_drained',
+        detail: 'Main raydium pool with $80000 liquidity is no longer listed'
+      })]);
+    });
+  });
+
+  describe('recordPools', () => {
+    const tx = { tokenPool: { upsert: jest.fn(), updateMany: jest.fn() } };
+    const prisma = {
+      tokenPool: { findMany: jest.fn() },
+      $transaction: jest.fn((run: (client: typeof tx) => Promise<void>) => run(tx))
+    };
+    const service = new TokenMarketService(prisma as unknown as PrismaClient);
+    const token = { id: 'tok_1', address: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263', symbol: 'BONK' };
+
+    beforeEach(() => jest.clearAllMocks());
+
+    it('should upsert listed pools, mark missing ones removed and rate the change', async () => {
+      prisma.tokenPool.findMany.mockResolvedValue([
+        { id: 'pool_1', ...stored('raydium_1', 'raydium', 80000) },
+        { id: 'pool_2', ...stored('orca_1', 'orca', 3000) }
+      ]);
+
+      const result = await service.recordPools(token, buildTokenMarketView([
+        pair('raydium_1', 'raydium', 4000, 0, '1'),
+        pair('meteora_1', 'meteora', 20000, 0, '1')
+      ]), now);
+
+      expect(result).toMatchObject({
+        tokenId: 'tok_1',
+        severity: 'CRITICAL',
+        detectedAt: now.toISOString()
+      });
+      expect(result?.changes.map(change => change.kind)).toEqual(['new_dex_pool', 'pool_removed', 'main_pool_drained']);
+
+      expect(tx.tokenPool.upsert).toHaveBeenCalledTimes(2);
+      expect(tx.tokenPool.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { tokenId_pairAddress: { tokenId: 'tok_1', pairAddress: 'meteora_1' } },
+        create: expect.objectContaining({ dexId: 'meteora', liquidity: 20000, firstSeenAt: now, lastSeenAt: now })
+      }));
+      expect(tx.tokenPool.updateMany).toHaveBeenCalledWith({ where: { id: { in: ['pool_2'] } }, data: { removedAt: now } });
+    });
+
+    it('should return null when the pools did not change', async () => {
+      prisma.tokenPool.findMany.mockResolvedValue([{ id: 'pool_1', ...stored('raydium_1', 'raydium', 80000) }]);
+
+      await expect(service.recordPools(token, buildTokenMarketView([pair('raydium_1', 'raydium', 75000, 0, '1')]), now))
+        .resolves.toBeNull();
+      expect(tx.tokenPool.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
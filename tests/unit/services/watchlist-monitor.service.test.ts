@@ -0,0 +1,267 @@
+import { PrismaClient } from '@prisma/client';
+import { DexScreenerService } from '@/services/dexscreener.service';
+import { RugCheckService } from '@/services/rugcheck.service';
+import { TokenMarketService } from '@/services/token-market.service';
+import {
+  DEFAULT_WATCHLIST_MONITOR_CONFIG,
+  detectDegradation,
+  pollIntervalMinutes,
+  TokenDegradation,
+  WatchlistMonitorService,
+  WatchSnapshot
+} from '@/services/watchlist-monitor.service';
+
+const MINUTE_MS = 60 * 1000;
+const now = new Date('2024-03-01T12:00:00Z');
+const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * MINUTE_MS);
+const config = DEFAULT_WATCHLIST_MONITOR_CONFIG;
+
+const snapshot = (overrides: Partial<WatchSnapshot> = {}): WatchSnapshot => ({
+  price: 1,
+  liquidity: 20000,
+  volume24h: 5000,
+  marketCap: 200000,
+  safetyScore: 80,
+  holderConcentration: 40,
+  mintAuthority: false,
+  freezeAuthority: false,
+  observedAt: now.toISOString(),
+  ...overrides
+});
+
+const watchedToken = (address: string, createdMinutesAgo: number, polledMinutesAgo: number, overrides: Record<string, unknown> = {}) => ({
+  id: `${address}_id`,
+  address,
+  symbol: address.toUpperCase(),
+  createdAt: minutesAgo(createdMinutesAgo),
+  price: 1,
+  liquidity: 20000,
+  volume24h: 5000,
+  marketCap: 200000,
+  watchFailedPolls: 0,
+  watchLastFailedAt: null as Date | null,
+  priceData: [{ timestamp: minutesAgo(polledMinutesAgo) }],
+  safetyScores: [{
+    overallScore: 80,
+    ownershipScore: 55,
+    details: { holder_concentration: 40, mint_authority: false, freeze_authority: false, effective_top_holders: 45 },
+    timestamp: minutesAgo(polledMinutesAgo)
+  }],
+  ...overrides
+});
+
+describe('WatchlistMonitorService', () => {
+  it('should poll every minute at first and hourly later, then stop watching', () => {
+    expect(pollIntervalMinutes(0.5, config.schedule)).toBe(1);
+    expect(pollIntervalMinutes(3, config.schedule)).toBe(5);
+    expect(pollIntervalMinutes(48, config.schedule)).toBe(60);
+    expect(pollIntervalMinutes(24 * 8, config.schedule)).toBeNull();
+  });
+
+  describe('detectDegradation', () => {
+    it('should find nothing when the token holds steady', () => {
+      expect(detectDegradation(snapshot(), snapshot({ liquidity: 18000, safetyScore: 70 }), config)).toEqual([]);
+    });
+
+    it('should flag liquidity drops, safety drops, concentration jumps and re-enabled authorities', () => {
+      const findings = detectDegradation(
+        snapshot(),
+        snapshot({ liquidity: 5000, safetyScore: 50, holderConcentration: 65, mintAuthority: true }),
+        config
+      );
+
+      expect(findings).toEqual([
+        expect.objectContaining({ kind: 'liquidity_drop', metrics: { previousLiquidityUsd: 20000, liquidityUsd: 5000, dropPercent: 75 } }),
+        expect.objectContaining({ kind: 'safety_score_drop', metrics: { previousScore: 80, score: 50, drop: 30 } }),
+        expect.objectContaining({ kind: 'holder_concentration_jump', metrics: { previousPercent: 40, percent: 65, jump: 25 } }),
+        { kind: 'authority_enabled', detail: 'Mint authority re-enabled', metrics: {} }
+      ]);
+    });
+
+    it('should skip checks whose previous value is unknown', () => {
+      const findings = detectDegradation(
+        snapshot({ safetyScore: null, holderConcentration: null, mintAuthority: null }),
+        snapshot({ safetyScore: 10, holderConcentration: 90, mintAuthority: true }),
+        config
+      );
+
+      expect(findings).toEqual([]);
+    });
+  });
+
+  describe('tick', () => {
+    const tx = {
+      priceData: { create: jest.fn() },
+      safetyScore: { create: jest.fn() },
+      token: { update: jest.fn() }
+    };
+    const prisma = {
+      token: { findMany: jest.fn(), update: jest.fn() },
+      $transaction: jest.fn((fn: (client: typeof tx) => Promise<unknown>) => fn(tx))
+    };
+    const dexScreener = { getTokenData: jest.fn() };
+    const rugCheck = { analyzeToken: jest.fn() };
+    const tokenMarket = { recordPools: jest.fn() };
+
+    const monitor = () => new WatchlistMonitorService(
+      prisma as unknown as PrismaClient,
+      dexScreener as unknown as DexScreenerService,
+      rugCheck as unknown as RugCheckService,
+      DEFAULT_WATCHLIST_MONITOR_CONFIG,
+      tokenMarket as unknown as TokenMarketService
+    );
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      prisma.token.update.mockResolvedValue({ watchFailedPolls: 1 });
+      tokenMarket.recordPools.mockResolvedValue(null);
+      rugCheck.analyzeToken.mockResolvedValue({
+        success: true,
+        data: { safetyScore: 8, holderConcentration: 40, mintAuthority: false, freezeAuthority: true, liquidityLocked: true, honeypotRisk: 'none' }
+      });
+    });
+
+    it('should poll only due tokens and emit token:degraded with the deltas recorded', async () => {
+      prisma.token.findMany.mockResolvedValue([
+        watchedToken('fresh', 30, 2), // 1-minute tier, due
+        watchedToken('settled', 3 * 60, 2), // 5-minute tier, not yet due
+        watchedToken('older', 30 * 60, 65) // hourly tier, most overdue
+      ]);
+      dexScreener.getTokenData.mockImplementation((address: string) => Promise.resolve({
+        success: true,
+        data: [{ address, price: 0.5, liquidity: address === 'fresh' ? 2000 : 19000, volume24h: 4000, marketCap: 100000 }]
+      }));
+      const service = monitor();
+      const degraded: TokenDegradation[] = [];
+      service.on('token:degraded', (degradation: TokenDegradation) => degraded.push(degradation));
+
+      const result = await service.tick(now);
+
+      expect(result).toEqual({ watched: 3, due: 2, polled: 2, degraded: 2 });
+      expect(dexScreener.getTokenData.mock.calls.map(([address]) => address)).toEqual(['older', 'fresh']);
+      expect(degraded.map(entry => [entry.address, entry.severity, entry.findings.map(finding => finding.kind)])).toEqual([
+        ['older', 'CRITICAL', ['authority_enabled']],
+        ['fresh', 'CRITICAL', ['liquidity_drop', 'authority_enabled']]
+      ]);
+      expect(tx.safetyScore.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          tokenId: 'fresh_id',
+          overallScore: 80,
+          ownershipScore: 55,
+          timestamp: now,
+          details: expect.objectContaining({
+            effective_top_holders: 45, // carried forward from the pipeline analysis
+            liquidity_usd: 2000,
+            freeze_authority: true,
+            watch_deltas: { liquidity_change_pct: -90, safety_score_change: 0, holder_concentration_change: 0, degradations: ['liquidity_drop', 'authority_enabled'] }
+          })
+        })
+      });
+      expect(tx.token.update).toHaveBeenCalledWith({
+        where: { id: 'fresh_id' },
+        data: { price: 0.5, liquidity: 2000, volume24h: 4000, marketCap: 100000, safetyScore: 80, rugScore: 20 }
+      });
+    });
+
+    it('should record market data without a safety row when RugCheck fails', async () => {
+      prisma.token.findMany.mockResolvedValue([watchedToken('fresh', 30, 2)]);
+      dexScreener.getTokenData.mockResolvedValue({
+        success: true,
+        data: [{ address: 'fresh', price: 1, liquidity: 20000, volume24h: 5000, marketCap: 200000 }]
+      });
+      rugCheck.analyzeToken.mockResolvedValue({ success: false, error: 'timeout' });
+      const service = monitor();
+      const degraded = jest.fn();
+      service.on('token:degraded', degraded);
+
+      await expect(service.tick(now)).resolves.toEqual({ watched: 1, due: 1, polled: 1, degraded: 0 });
+      expect(tx.priceData.create).toHaveBeenCalledTimes(1);
+      expect(tx.safetyScore.create).not.toHaveBeenCalled();
+      expect(degraded).not.toHaveBeenCalled();
+    });
+
+    it('should move a failed poll\'s schedule on and stop watching after maxFailedPolls unlisted polls', async () => {
+      prisma.token.findMany.mockResolvedValue([
+        watchedToken('missing', 30 * 60, 65),
+        // Failed 10 minutes ago, so the hourly poll is not due even though the last snapshot is old
+        watchedToken('retried', 30 * 60, 65, { watchFailedPolls: 1, watchLastFailedAt: minutesAgo(10) })
+      ]);
+      dexScreener.getTokenData.mockResolvedValue({ success: true, data: [] });
+      const service = monitor();
+
+      await expect(service.tick(now)).resolves.toEqual({ watched: 2, due: 1, polled: 0, degraded: 0 });
+      expect(prisma.token.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ watchFailedPolls: { lt: config.maxFailedPolls } })
+      }));
+      expect(dexScreener.getTokenData).toHaveBeenCalledTimes(1);
+      expect(prisma.token.update).toHaveBeenCalledWith({
+        where: { id: 'missing_id' },
+        data: { watchFailedPolls: { increment: 1 }, watchLastFailedAt: now },
+        select: { watchFailedPolls: true }
+      });
+      expect(tx.priceData.create).not.toHaveBeenCalled();
+    });
+
+    it('should not count a DEXScreener outage towards maxFailedPolls', async () => {
+      // A half-hour-old token, polled every minute, through a five-minute outage
+      const token = watchedToken('young', 30, 1);
+      dexScreener.getTokenData.mockResolvedValue({ success: false, error: 'DEXScreener unavailable' });
+      prisma.token.update.mockResolvedValue({ watchFailedPolls: 0 });
+      const service = monitor();
+
+      for (let minute = 0; minute < config.maxFailedPolls; minute++) {
+        prisma.token.findMany.mockResolvedValueOnce([{ ...token, watchLastFailedAt: minute > 0 ? minutesAgo(1) : null }]);
+        await expect(service.tick(now)).resolves.toEqual({ watched: 1, due: 1, polled: 0, degraded: 0 });
+      }
+
+      expect(prisma.token.update).toHaveBeenCalledTimes(config.maxFailedPolls);
+      expect(prisma.token.update).toHaveBeenLastCalledWith({
+        where: { id: 'young_id' },
+        data: { watchLastFailedAt: now },
+        select: { watchFailedPolls: true }
+      });
+    });
+
+    it('should report a delisted token once, as drained pools when they were tracked', async () => {
+      dexScreener.getTokenData.mockResolvedValue({ success: true, data: [] });
+      const poolChanges = { tokenId: 'gone_id', severity: 'CRITICAL', changes: [{ kind: 'main_pool_drained' }] };
+      tokenMarket.recordPools.mockResolvedValueOnce(poolChanges);
+      prisma.token.findMany.mockResolvedValue([watchedToken('gone', 30 * 60, 65)]);
+      const service = monitor();
+      const degraded: TokenDegradation[] = [];
+      const poolsChanged = jest.fn();
+      service.on('token:degraded', (degradation: TokenDegradation) => degraded.push(degradation));
+      service.on('token:pools-changed', poolsChanged);
+
+      await service.tick(now);
+
+      expect(tokenMarket.recordPools).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'gone_id' }),
+        expect.objectContaining({ pools: [], totalLiquidity: 0 }),
+        now
+      );
+      expect(poolsChanged).toHaveBeenCalledWith(poolChanges);
+      expect(degraded).toEqual([]);
+      expect(prisma.token.update).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'gone_id' } }));
+
+      // No pools to report: the token itself is reported as delisted
+      prisma.token.findMany.mockResolvedValue([watchedToken('untracked', 30 * 60, 65)]);
+      await service.tick(now);
+
+      expect(degraded).toEqual([expect.objectContaining({
+        address: 'untracked',
+        severity: 'CRITICAL',
+        findings: [expect.objectContaining({ kind: 'delisted', metrics: { previousLiquidityUsd: 20000 } })],
+        current: expect.objectContaining({ liquidity: 0 })
+      })]);
+
+      // Later misses only count towards maxFailedPolls
+      tokenMarket.recordPools.mockClear();
+      prisma.token.findMany.mockResolvedValue([watchedToken('untracked', 30 * 60, 125, { watchFailedPolls: 1, watchLastFailedAt: minutesAgo(65) })]);
+      await service.tick(now);
+
+      expect(tokenMarket.recordPools).not.toHaveBeenCalled();
+      expect(degraded).toHaveLength(1);
+    });
+  });
+});
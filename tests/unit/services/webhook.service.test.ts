@@ -0,0 +1,213 @@
+import { createHmac } from 'crypto';
+import axios from 'axios';
+import { PrismaClient } from '@prisma/client';
+import { WebhookService, WebhookDeliveryConfig } from '@/services/webhook.service';
+
+jest.mock('axios');
+
+describe('WebhookService', () => {
+  const mockPost = jest.fn();
+  const config: WebhookDeliveryConfig = {
+    maxAttempts: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 10000,
+    backoffFactor: 2,
+    timeoutMs: 5000,
+    pollIntervalMs: 1000,
+    batchSize: 10
+  };
+
+  const webhook = {
+    id: 'wh_1',
+    userId: 'user_1',
+    url: 'https://bot.example.com/hooks',
+    secret: 'super-secret-value',
+    events: ['alert.triggered'],
+    isActive: true,
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z')
+  };
+
+  const createDelivery = (overrides: Record<string, unknown> = {}) => ({
+    id: 'dlv_1',
+    webhookId: webhook.id,
+    event: 'alert.triggered',
+    payload: { id: 'alert_1', tokenAddress: 'So11111111111111111111111111111111111111112' },
+    status: 'pending',
+    attempts: 0,
+    responseStatus: null,
+    lastError: null,
+    nextAttemptAt: new Date(),
+    deliveredAt: null,
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+    webhook,
+    ...overrides
+  });
+
+  let prisma: {
+    webhook: Record<string, jest.Mock>;
+    webhookDelivery: Record<string, jest.Mock>;
+  };
+  let service: WebhookService;
+
+  beforeEach(() => {
+    (axios.create as jest.Mock).mockReturnValue({ post: mockPost });
+    mockPost.mockReset();
+
+    prisma = {
+      webhook: {
+        findMany: jest.fn().mockResolvedValue([webhook])
+      },
+      webhookDelivery: {
+        create: jest.fn().mockImplementation(({ data }) => Promise.resolve(createDelivery(data))),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        findUnique: jest.fn().mockResolvedValue(createDelivery()),
+        findFirst: jest.fn().mockResolvedValue(createDelivery()),
+        update: jest.fn().mockImplementation(({ data }) => Promise.resolve(createDelivery(data)))
+      }
+    };
+
+    service = new WebhookService(prisma as unknown as PrismaClient, config);
+  });
+
+  describe('sign', () => {
+    it('should produce a sha256 HMAC of the raw body', () => {
+      const body = JSON.stringify({ hello: 'world' });
+      const expected = createHmac('sha256', webhook.secret).update(body).digest('hex');
+
+      expect(WebhookService.sign(webhook.secret, body)).toBe(`sha256=${expected}`);
+    });
+  });
+
+  describe('attemptDelivery', () => {
+    it('should send a signed payload and mark the delivery as delivered', async () => {
+      mockPost.mockResolvedValue({ status: 200 });
+
+      const result = await service.attemptDelivery('dlv_1');
+
+      const [url, body, options] = mockPost.mock.calls[0];
+      expect(url).toBe(webhook.url);
+      expect(JSON.parse(body)).toEqual({
+        id: 'dlv_1',
+        event: 'alert.triggered',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        data: createDelivery().payload
+      });
+      expect(options.headers['X-Webhook-Signature']).toBe(WebhookService.sign(webhook.secret, body));
+      expect(options.headers['X-Webhook-Delivery']).toBe('dlv_1');
+      expect(result?.status).toBe('delivered');
+      expect(result?.attempts).toBe(1);
+    });
+
+    it('should schedule a retry with exponential backoff on a non-2xx response', async () => {
+      mockPost.mockResolvedValue({ status: 502 });
+      prisma.webhookDelivery.findUnique.mockResolvedValue(createDelivery({ status: 'failed', attempts: 1 }));
+
+      const before = Date.now();
+      const result = await service.attemptDelivery('dlv_1');
+
+      expect(result?.status).toBe('failed');
+      expect(result?.attempts).toBe(2);
+      expect(result?.responseStatus).toBe(502);
+      expect((result?.nextAttemptAt as Date).getTime()).toBeGreaterThanOrEqual(before + 2000);
+    });
+
+    it('should move the delivery to dead_letter after maxAttempts failures', async () => {
+      mockPost.mockRejectedValue(new Error('connect ECONNREFUSED'));
+      prisma.webhookDelivery.findUnique.mockResolvedValue(createDelivery({ status: 'failed', attempts: 2 }));
+
+      const result = await service.attemptDelivery('dlv_1');
+
+      expect(result?.status).toBe('dead_letter');
+      expect(result?.nextAttemptAt).toBeNull();
+      expect(result?.lastError).toBe('connect ECONNREFUSED');
+    });
+
+    it('should skip deliveries already claimed by another worker', async () => {
+      prisma.webhookDelivery.updateMany.mockResolvedValue({ count: 0 });
+
+      const result = await service.attemptDelivery('dlv_1');
+
+      expect(result).toBeNull();
+      expect(mockPost).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('dispatch', () => {
+    it('should only target active webhooks subscribed to the event', async () => {
+      mockPost.mockResolvedValue({ status: 204 });
+
+      const count = await service.dispatch('alert.triggered', { id: 'alert_1' }, null);
+
+      expect(count).toBe(1);
+      expect(prisma.webhook.findMany).toHaveBeenCalledWith({
+        where: { isActive: true, events: { has: 'alert.triggered' } }
+      });
+      expect(prisma.webhookDelivery.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only deliver an owned alert to its owner\'s webhooks', async () => {
+      const otherWebhook = { ...webhook, id: 'wh_2', userId: 'user_2', url: 'https://other.example.com/hooks' };
+      prisma.webhook.findMany.mockImplementation(({ where }) =>
+        Promise.resolve([webhook, otherWebhook].filter(candidate => !where.userId || candidate.userId === where.userId)));
+      mockPost.mockResolvedValue({ status: 204 });
+
+      const count = await service.dispatch('alert.triggered', { id: 'alert_1' }, 'user_2');
+
+      expect(count).toBe(1);
+      expect(prisma.webhookDelivery.create).toHaveBeenCalledTimes(1);
+      expect(prisma.webhookDelivery.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ webhookId: 'wh_2', event: 'alert.triggered' })
+      });
+    });
+
+    it('should not throw when the database is unavailable', async () => {
+      prisma.webhook.findMany.mockRejectedValue(new Error('connection refused'));
+
+      await expect(service.dispatch('alert.created', {}, null)).resolves.toBe(0);
+    });
+  });
+
+  describe('redeliver', () => {
+    it('should re-queue a dead-lettered delivery with a fresh retry budget and send it', async () => {
+      prisma.webhookDelivery.findFirst.mockResolvedValue(createDelivery({ status: 'dead_letter', attempts: 3 }));
+      mockPost.mockResolvedValue({ status: 200 });
+
+      const result = await service.redeliver('user_1', 'wh_1', 'dlv_1');
+
+      expect(result.status).toBe('ok');
+      expect(prisma.webhookDelivery.findFirst).toHaveBeenCalledWith({
+        where: { id: 'dlv_1', webhookId: 'wh_1', webhook: { userId: 'user_1' } }
+      });
+      expect(prisma.webhookDelivery.updateMany).toHaveBeenCalledWith({
+        where: { id: 'dlv_1', status: { in: ['failed', 'dead_letter'] } },
+        data: expect.objectContaining({ status: 'pending', attempts: 0 })
+      });
+      expect(mockPost).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not send a delivered or pending delivery again', async () => {
+      prisma.webhookDelivery.findFirst.mockResolvedValue(createDelivery({ status: 'delivered' }));
+      prisma.webhookDelivery.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.redeliver('user_1', 'wh_1', 'dlv_1')).resolves.toEqual({
+        status: 'not_redeliverable',
+        deliveryStatus: 'delivered'
+      });
+      expect(mockPost).not.toHaveBeenCalled();
+
+      prisma.webhookDelivery.findFirst.mockResolvedValue(null);
+      await expect(service.redeliver('user_2', 'wh_1', 'dlv_1')).resolves.toEqual({ status: 'not_found' });
+    });
+  });
+
+  describe('calculateBackoffDelay', () => {
+    it('should double the delay per attempt up to the cap', () => {
+      expect(service.calculateBackoffDelay(1)).toBe(1000);
+      expect(service.calculateBackoffDelay(2)).toBe(2000);
+      expect(service.calculateBackoffDelay(3)).toBe(4000);
+      expect(service.calculateBackoffDelay(10)).toBe(10000);
+    });
+  });
+});